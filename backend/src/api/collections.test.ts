@@ -0,0 +1,184 @@
+/**
+ * @file collections.test.ts
+ * @description Integration tests for the /api/collections and /api/tags endpoints.
+ * Covers the collection tree, placing prompts into collections, and tag management.
+ * Uses mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+
+describe('/api/collections', () => {
+  const collectionRow = (id: string, parentId: string | null, name: string, promptCount = 0) => ({
+    id,
+    user_id: userId,
+    parent_id: parentId,
+    name,
+    prompt_count: promptCount,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list the user\'s collections with their parents', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [collectionRow('c-1', null, 'Billing', 2), collectionRow('c-2', 'c-1', 'Refunds', 1)] });
+
+    const response = await request(app)
+      .get('/api/collections')
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body).toEqual([
+      expect.objectContaining({ id: 'c-1', parentId: null, name: 'Billing', promptCount: 2 }),
+      expect.objectContaining({ id: 'c-2', parentId: 'c-1', name: 'Refunds', promptCount: 1 })
+    ]);
+    expect(mockQuery.mock.calls[1][1]).toEqual([userId]);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .get('/api/collections')
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should create a nested collection under one of the user\'s collections', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 'c-1' }] })  // SELECT parent
+      .mockResolvedValueOnce({ rows: [collectionRow('c-2', 'c-1', 'Refunds')] });
+
+    const response = await request(app)
+      .post('/api/collections')
+      .set('Authorization', auth)
+      .send({ name: '  Refunds ', parentId: 'c-1' })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ id: 'c-2', parentId: 'c-1', name: 'Refunds' });
+    expect(mockQuery).toHaveBeenLastCalledWith(
+      'INSERT INTO collections (user_id, parent_id, name) VALUES ($1, $2, $3) RETURNING *',
+      [userId, 'c-1', 'Refunds']
+    );
+  });
+
+  it('should return 400 when the parent collection belongs to someone else', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [] });  // SELECT parent
+
+    const response = await request(app)
+      .post('/api/collections')
+      .set('Authorization', auth)
+      .send({ name: 'Refunds', parentId: 'foreign' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Parent collection not found');
+  });
+
+  it('should refuse to move a collection into one of its sub-collections', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [collectionRow('c-1', null, 'Billing')] })  // SELECT existing
+      .mockResolvedValueOnce({ rows: [{ id: 'c-2' }] })  // SELECT parent
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });  // cycle check
+
+    const response = await request(app)
+      .put('/api/collections/c-1')
+      .set('Authorization', auth)
+      .send({ parentId: 'c-2' })
+      .expect(400);
+
+    expect(response.body.message).toContain('cannot be moved into itself');
+    expect(mockQuery).toHaveBeenCalledTimes(4);
+  });
+
+  it('should add a visible prompt to a collection', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [collectionRow('c-1', null, 'Billing')] })
+      .mockResolvedValueOnce({ rows: [{ id: 'p-1', user_id: userId, metadata: {}, visibility: 'private', access: 'owner', tags: [] }] })
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rowCount: 1 });
+
+    await request(app)
+      .put('/api/collections/c-1/prompts/p-1')
+      .set('Authorization', auth)
+      .expect(204);
+
+    expect(mockQuery).toHaveBeenLastCalledWith(
+      'INSERT INTO collection_prompts (collection_id, prompt_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      ['c-1', 'p-1']
+    );
+  });
+
+  it('should return 404 when adding a prompt the user cannot see', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [collectionRow('c-1', null, 'Billing')] })
+      .mockResolvedValueOnce({ rows: [{ id: 'p-2', visibility: 'private', access: null }] });
+
+    const response = await request(app)
+      .put('/api/collections/c-1/prompts/p-2')
+      .set('Authorization', auth)
+      .expect(404);
+
+    expect(response.body.message).toBe('Prompt not found');
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('/api/tags', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list tags with their prompt counts', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: 't-1', name: 'billing', created_by: userId, prompt_count: 3, created_at: '2024-01-01T00:00:00Z' }] });
+
+    const response = await request(app)
+      .get('/api/tags')
+      .expect(200);
+
+    expect(response.body).toEqual([
+      { id: 't-1', name: 'billing', createdBy: userId, promptCount: 3, createdAt: '2024-01-01T00:00:00Z' }
+    ]);
+  });
+
+  it('should return 400 when creating a tag whose name is taken', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+    const response = await request(app)
+      .post('/api/tags')
+      .set('Authorization', auth)
+      .send({ name: 'Billing' })
+      .expect(400);
+
+    expect(response.body.message).toBe('A tag named "Billing" already exists');
+  });
+
+  it('should return 404 when deleting a tag created by someone else', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+    await request(app)
+      .delete('/api/tags/t-1')
+      .set('Authorization', auth)
+      .expect(404);
+
+    expect(mockQuery).toHaveBeenLastCalledWith('DELETE FROM tags WHERE id = $1 AND created_by = $2', ['t-1', userId]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @file collectionController.ts
+ * @description Controller for handling HTTP requests related to collections.
+ * Collections are personal, so every endpoint requires authentication and only ever
+ * touches the signed-in user's own collections.
+ *
+ * @requires express
+ * @requires ../../services/collectionService
+ * @requires ../../services/promptService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import CollectionService from '../../services/collectionService';
+import PromptService from '../../services/promptService';
+import '../../types/express';
+
+/**
+ * @class CollectionController
+ * @description Controller for handling collection-related requests.
+ *
+ * @since 0.6.0
+ */
+class CollectionController {
+  /**
+   * @method getCollections
+   * @description Lists the user's collections as a flat list; each collection's `parentId` describes the tree.
+   * @param {Request} req - The Express request object, containing authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getCollections(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const collections = await CollectionService.listCollections(req.user.id);
+      res.status(200).json(collections);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method createCollection
+   * @description Creates a collection from the `name` and optional `parentId` in the request body.
+   * @param {Request} req - The Express request object, containing the collection data in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/collections
+   * { "name": "Refunds", "parentId": "123e4567-e89b-12d3-a456-426614174000" }
+   */
+  async createCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const collection = await CollectionService.createCollection(req.body ?? {}, req.user.id);
+      res.status(201).json(collection);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method updateCollection
+   * @description Renames a collection and/or moves it under another parent (`parentId: null` moves it to the top level).
+   * @param {Request} req - The Express request object, containing the collection ID as a URL parameter and the changes in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async updateCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const collection = await CollectionService.updateCollection(req.params.id, req.body ?? {}, req.user.id);
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      res.status(200).json(collection);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method deleteCollection
+   * @description Deletes a collection and its sub-collections. The prompts inside are kept.
+   * @param {Request} req - The Express request object, containing the collection ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async deleteCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const success = await CollectionService.deleteCollection(req.params.id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method addPromptToCollection
+   * @description Places a prompt the user can see into one of their collections.
+   * @param {Request} req - The Express request object, containing the collection ID and prompt ID as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async addPromptToCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      if (!await CollectionService.getCollection(req.params.id, req.user.id)) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      if (!await PromptService.getPromptById(req.params.promptId, req.user.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      await CollectionService.addPrompt(req.params.id, req.params.promptId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method removePromptFromCollection
+   * @description Takes a prompt out of one of the user's collections. The prompt itself is not deleted.
+   * @param {Request} req - The Express request object, containing the collection ID and prompt ID as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async removePromptFromCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const success = await CollectionService.removePrompt(req.params.id, req.params.promptId, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: 'Prompt not found in collection' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CollectionController();
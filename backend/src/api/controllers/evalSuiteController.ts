@@ -0,0 +1,254 @@
+/**
+ * @file evalSuiteController.ts
+ * @description Controller for handling HTTP requests related to the evaluation suites of a prompt.
+ * Anyone who can see a prompt can see its suites and their run history. Changing suites requires
+ * permission to edit the prompt, and running a suite requires authentication.
+ *
+ * @requires express
+ * @requires ../../services/evalSuiteService
+ * @requires ../../services/promptService
+ * @requires ../../services/promptCompositionService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import EvalSuiteService from '../../services/evalSuiteService';
+import PromptService, { PromptAccessError } from '../../services/promptService';
+import PromptCompositionService from '../../services/promptCompositionService';
+import { ProviderAwareRequest } from '../../services/unifiedAIService';
+import { AIProvider } from '../../types/aiProvider';
+import { PromptSFL } from '../../types';
+import '../../types/express';
+
+/**
+ * Loads the prompt a suite request refers to, checking that the user may edit it when asked to.
+ *
+ * @param {string} promptId - The UUID of the prompt.
+ * @param {string | undefined} userId - The ID of the requesting user, if authenticated.
+ * @param {boolean} [forEditing=false] - Whether the request changes the prompt's suites.
+ * @returns {Promise<PromptSFL | null>} The prompt, or null if it does not exist or is not visible to the user.
+ * @throws {PromptAccessError} If the user may see the prompt but not edit it.
+ * @private
+ */
+async function loadPrompt(promptId: string, userId: string | undefined, forEditing = false): Promise<PromptSFL | null> {
+  const prompt = await PromptService.getPromptById(promptId, userId);
+  if (prompt && forEditing && prompt.access === 'public') {
+    throw new PromptAccessError('Only the owner and the users a prompt is shared with can change its evaluation suites');
+  }
+  return prompt;
+}
+
+/**
+ * @class EvalSuiteController
+ * @description Controller for handling evaluation suite requests.
+ *
+ * @since 0.6.0
+ */
+class EvalSuiteController {
+  /**
+   * @method getSuites
+   * @description Lists the evaluation suites of a prompt.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getSuites(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!await loadPrompt(req.params.id, req.user?.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const suites = await EvalSuiteService.listSuites(req.params.id);
+      res.status(200).json(suites);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method createSuite
+   * @description Creates an evaluation suite for a prompt. Requires authentication and permission to edit the prompt.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and the suite in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/eval-suites
+   * {
+   *   "name": "Refund replies",
+   *   "cases": [{
+   *     "variables": { "customer": "Ana" },
+   *     "assertions": [{ "type": "contains", "value": "Ana" }, { "type": "max-length", "value": 600 }]
+   *   }]
+   * }
+   */
+  async createSuite(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (!await loadPrompt(req.params.id, req.user.id, true)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const suite = await EvalSuiteService.createSuite(req.params.id, req.body ?? {}, req.user.id);
+      res.status(201).json(suite);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method updateSuite
+   * @description Updates the name, description and/or test cases of an evaluation suite.
+   * Requires authentication and permission to edit the prompt.
+   * @param {Request} req - The Express request object, containing the prompt and suite IDs as URL parameters and the changes in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async updateSuite(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (!await loadPrompt(req.params.id, req.user.id, true)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const suite = await EvalSuiteService.updateSuite(req.params.id, req.params.suiteId, req.body ?? {});
+      if (!suite) {
+        return res.status(404).json({ message: 'Evaluation suite not found' });
+      }
+      res.status(200).json(suite);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method deleteSuite
+   * @description Deletes an evaluation suite and its run history. Requires authentication and permission to edit the prompt.
+   * @param {Request} req - The Express request object, containing the prompt and suite IDs as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async deleteSuite(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (!await loadPrompt(req.params.id, req.user.id, true)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      if (!await EvalSuiteService.deleteSuite(req.params.id, req.params.suiteId)) {
+        return res.status(404).json({ message: 'Evaluation suite not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        return res.status(403).json({ message: error.message });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * @method runSuite
+   * @description Runs every test case of a suite and records the results. Requires authentication.
+   * The body selects the provider, model and parameters in the same way as `POST /api/gemini/test-prompt`;
+   * without a provider the default Gemini model is used. Cases run against the rendered prompt, with inheritance and partials resolved.
+   * @param {Request} req - The Express request object, containing the prompt and suite IDs as URL parameters and the provider configuration in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/eval-suites/223e4567-e89b-12d3-a456-426614174000/runs
+   * { "provider": "openai", "model": "gpt-4o-mini", "parameters": { "temperature": 0 } }
+   */
+  async runSuite(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await loadPrompt(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const suite = await EvalSuiteService.getSuite(req.params.id, req.params.suiteId);
+      if (!suite) {
+        return res.status(404).json({ message: 'Evaluation suite not found' });
+      }
+
+      const { provider, model, parameters, apiKey, baseUrl } = req.body ?? {};
+      const providerConfig: ProviderAwareRequest = {
+        provider: provider as AIProvider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
+      };
+
+      const rendered = await PromptCompositionService.renderPrompt(prompt, req.user.id);
+      const run = await EvalSuiteService.runSuite(
+        { ...prompt, promptText: rendered.promptText, variables: rendered.variables },
+        suite,
+        providerConfig,
+        req.user.id
+      );
+      res.status(201).json(run);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method getRuns
+   * @description Lists the recorded runs of a suite, newest first. An optional `limit` query parameter caps the number of runs.
+   * @param {Request} req - The Express request object, containing the prompt and suite IDs as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!await loadPrompt(req.params.id, req.user?.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      if (!await EvalSuiteService.getSuite(req.params.id, req.params.suiteId)) {
+        return res.status(404).json({ message: 'Evaluation suite not found' });
+      }
+
+      const runs = await EvalSuiteService.listRuns(req.params.suiteId, req.query.limit);
+      res.status(200).json(runs);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+}
+
+export default new EvalSuiteController();
@@ -4,6 +4,12 @@ import UnifiedAIService, { ProviderAwareRequest } from '../../services/unifiedAI
 import { aiProviderFactory } from '../../services/ai/AIProviderFactory';
 import { AIProvider, ModelParameters } from '../../types/aiProvider';
 
+/**
+ * Maximum number of provider configurations a single comparison may fan out to.
+ * @private
+ */
+const MAX_COMPARISON_CONFIGS = 6;
+
 class GeminiController {
   async testPrompt(req: Request, res: Response, next: NextFunction) {
     try {
@@ -28,6 +34,53 @@ class GeminiController {
     }
   }
 
+  /**
+   * @method comparePrompt
+   * @description Runs one prompt against several provider/model/parameter combinations side by side.
+   * Each configuration fails on its own: its result then carries an `error` instead of text.
+   * @param {Request} req - The Express request object, containing `promptText` and `configs` in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/gemini/compare-prompt
+   * {
+   *   "promptText": "Summarise the refund policy in two sentences.",
+   *   "configs": [
+   *     { "provider": "google", "model": "gemini-2.5-flash" },
+   *     { "provider": "openai", "model": "gpt-4o-mini", "parameters": { "temperature": 0.2 } }
+   *   ]
+   * }
+   */
+  async comparePrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { promptText, configs } = req.body ?? {};
+      if (!promptText) {
+        return res.status(400).json({ message: 'promptText is required' });
+      }
+      if (!Array.isArray(configs) || configs.length === 0) {
+        return res.status(400).json({ message: 'configs must be a non-empty array' });
+      }
+      if (configs.length > MAX_COMPARISON_CONFIGS) {
+        return res.status(400).json({ message: `At most ${MAX_COMPARISON_CONFIGS} configurations can be compared at once` });
+      }
+
+      const providerConfigs: ProviderAwareRequest[] = [];
+      for (const { provider, model, parameters, apiKey, baseUrl } of configs) {
+        if (!provider || !aiProviderFactory.isProviderSupported(provider)) {
+          return res.status(400).json({ message: `Unsupported AI provider: ${provider}` });
+        }
+        providerConfigs.push({ provider: provider as AIProvider, model, parameters, apiKey, baseUrl });
+      }
+
+      const results = await UnifiedAIService.comparePrompt(promptText, providerConfigs);
+      res.status(200).json({ results });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async generateSFLFromGoal(req: Request, res: Response, next: NextFunction) {
     try {
       console.log('POST /api/gemini/generate-sfl received');
@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import PromptService from '../../services/promptService';
+import PromptService, { PromptAccessError } from '../../services/promptService';
+import PromptRevisionService from '../../services/promptRevisionService';
+import PromptExchangeService from '../../services/promptExchangeService';
+import PromptLintService from '../../services/promptLintService';
+import PromptCompositionService from '../../services/promptCompositionService';
+import PromptCompilerService from '../../services/promptCompilerService';
+import WorkflowService from '../../services/workflowService';
+import { ProviderAwareRequest } from '../../services/unifiedAIService';
+import { AIProvider } from '../../types/aiProvider';
 import '../../types/express';
 
 /**
@@ -36,16 +44,211 @@ class PromptController {
 
   /**
    * @method getPrompts
-   * @description Retrieves a list of prompts, with optional filtering.
+   * @description Retrieves one page of prompts, filtered, sorted and paginated by query parameters
+   * (`searchTerm`, `scope`, `tag`, `collection`, `topic`, `taskType`, `aiPersona`, `outputFormat`, `sort`, `order`, `limit`, `cursor`).
    * @param {Request} req - The Express request object, containing query parameters for filtering.
    * @param {Response} res - The Express response object.
    * @param {NextFunction} next - The Express next middleware function.
    * @returns {Promise<void>} - A promise that resolves when the response is sent.
    */
   async getPrompts(req: Request, res: Response, next: NextFunction) {
+    let query;
     try {
-      const prompts = await PromptService.getPrompts(req.query);
-      res.status(200).json(prompts);
+      query = PromptService.parsePromptQuery(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+      if ((query.scope || query.collection) && !req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const page = await PromptService.getPrompts(query, req.user?.id);
+      res.status(200).json(page);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method exportPrompts
+   * @description Downloads prompts as a file in the `format` query parameter (`json`, `markdown`, `openai` or `promptfoo`).
+   * An optional comma-separated `ids` parameter limits the export to those prompts; otherwise every prompt the user can see is exported.
+   * @param {Request} req - The Express request object, containing `format` and `ids` as query parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async exportPrompts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const file = await PromptExchangeService.exportPrompts(req.query, req.user?.id);
+      if (!file) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.status(200).send(file.content);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method importPrompts
+   * @description Imports prompts from the file text in the body's `content`. Requires authentication.
+   * `format` is detected when omitted, `dryRun: true` only reports what would happen, and `onConflict`
+   * (`skip`, `overwrite` or `copy`) decides what happens to prompts whose ID already exists. `annotations`
+   * carries the SFL fields accepted from an annotation, keyed by the index of the prompt in the file.
+   * @param {Request} req - The Express request object, containing the import options in the body and authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/import
+   * { "format": "markdown", "content": "---\ntitle: Greeting\n---\nSay hello to {{name}}", "dryRun": true }
+   */
+  async importPrompts(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const result = await PromptExchangeService.importPrompts(req.body ?? {}, req.user.id);
+      res.status(result.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method annotateImport
+   * @description Infers the SFL fields left empty by the prompts of an import file. Requires authentication.
+   * The body carries the file like an import does, the optional `indexes` of the prompts to annotate (at most 20
+   * per request), and the provider, model and parameters selected in the same way as for a test run.
+   * The prompt text is never changed; the suggestions are applied by passing the accepted ones to the import.
+   * @param {Request} req - The Express request object, containing the file, indexes and provider configuration in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/import/annotations
+   * { "content": "---\ntitle: Greeting\n---\nSay hello to {{name}}", "indexes": [0], "provider": "openai" }
+   */
+  async annotateImport(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const { content, format, indexes, provider, model, parameters, apiKey, baseUrl } = req.body ?? {};
+      const providerConfig: ProviderAwareRequest = {
+        provider: provider as AIProvider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
+      };
+      const items = await PromptExchangeService.annotateImport({ content, format, indexes }, providerConfig);
+      res.status(200).json(items);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method lintPrompt
+   * @description Checks the prompt in the body for internal inconsistencies without saving it or calling an LLM.
+   * The optional `disable` query parameter is a comma-separated list of rule IDs to skip.
+   * @param {Request} req - The Express request object, containing the prompt in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {void}
+   *
+   * @example
+   * POST /api/prompts/lint?disable=length-constraint-missing
+   * { "promptText": "Summarize {{text}}", "sflMode": { "outputFormat": "JSON" } }
+   */
+  lintPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const disable = typeof req.query.disable === 'string'
+        ? req.query.disable.split(',').map(ruleId => ruleId.trim()).filter(Boolean)
+        : [];
+      const diagnostics = PromptLintService.lint(req.body, { disable });
+      res.json({ diagnostics });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method searchPromptsSemantic
+   * @description Finds the prompts whose meaning is closest to the `q` query parameter using embeddings.
+   * An optional `limit` caps the number of results.
+   * @param {Request} req - The Express request object, containing `q` and `limit` as query parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async searchPromptsSemantic(req: Request, res: Response, next: NextFunction) {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ message: 'Query parameter "q" is required' });
+    }
+    let limit;
+    try {
+      limit = PromptService.parseSemanticLimit(req.query.limit);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid limit' });
+    }
+
+    try {
+      const results = await PromptService.searchSemantic(q, limit, req.user?.id);
+      res.status(200).json(results);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getSimilarPrompts
+   * @description Lists the prompts most similar to the given prompt, to help spot duplicates.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and an optional `limit` query parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getSimilarPrompts(req: Request, res: Response, next: NextFunction) {
+    let limit;
+    try {
+      limit = PromptService.parseSemanticLimit(req.query.limit);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid limit' });
+    }
+
+    try {
+      const results = await PromptService.findSimilarPrompts(req.params.id, limit, req.user?.id);
+      if (!results) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(200).json(results);
     } catch (error) {
       next(error);
     }
@@ -61,7 +264,7 @@ class PromptController {
    */
   async getPromptById(req: Request, res: Response, next: NextFunction) {
     try {
-      const prompt = await PromptService.getPromptById(req.params.id);
+      const prompt = await PromptService.getPromptById(req.params.id, req.user?.id);
       if (!prompt) {
         return res.status(404).json({ message: 'Prompt not found' });
       }
@@ -71,6 +274,65 @@ class PromptController {
     }
   }
 
+  /**
+   * @method getRenderedPrompt
+   * @description Previews a prompt as it is sent to a model: its inheritance is resolved and its `{{> name}}` partials are expanded.
+   * Composition problems such as a missing snippet or a cycle are reported with a 400 response.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getRenderedPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const prompt = await PromptService.getPromptById(req.params.id, req.user?.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const rendered = await PromptCompositionService.renderPrompt(prompt, req.user?.id);
+      res.status(200).json(rendered);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method getCompiledPrompt
+   * @description Previews a prompt compiled for a provider: rendered as by `getRenderedPrompt`, then laid out as the
+   * system and user messages the `format` query parameter selects. Variable placeholders are left unfilled.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and `format` as a query parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * GET /api/prompts/123e4567-e89b-12d3-a456-426614174000/compiled?format=anthropic
+   */
+  async getCompiledPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { format } = req.query;
+      if (!PromptCompilerService.isFormat(format)) {
+        return res.status(400).json({ message: `format must be one of: ${PromptCompilerService.getFormats().join(', ')}` });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user?.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const rendered = await PromptCompositionService.renderPrompt(prompt, req.user?.id);
+      res.status(200).json(PromptCompilerService.compile(rendered, format));
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
   /**
    * @method updatePrompt
    * @description Updates an existing prompt. Requires authentication.
@@ -93,7 +355,9 @@ class PromptController {
       res.status(200).json(prompt);
     } catch (error) {
       console.error('Update prompt error:', error);
-      if (error instanceof Error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
         res.status(400).json({ message: error.message });
       } else {
         next(error);
@@ -103,23 +367,223 @@ class PromptController {
 
   /**
    * @method deletePrompt
-   * @description Deletes a prompt by its ID.
-   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @description Deletes a prompt by its ID. Requires authentication, and only the prompt's owner may delete it.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and authenticated user info.
    * @param {Response} res - The Express response object.
    * @param {NextFunction} next - The Express next middleware function.
    * @returns {Promise<void>} - A promise that resolves when the response is sent.
    */
   async deletePrompt(req: Request, res: Response, next: NextFunction) {
     try {
-      const success = await PromptService.deletePrompt(req.params.id);
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const success = await PromptService.deletePrompt(req.params.id, req.user.id);
       if (!success) {
         return res.status(404).json({ message: 'Prompt not found' });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof PromptAccessError) {
+        return res.status(403).json({ message: error.message });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * @method getPromptRevisions
+   * @description Lists the revision history of a prompt, newest first.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getPromptRevisions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const prompt = await PromptService.getPromptById(req.params.id, req.user?.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const revisions = await PromptRevisionService.listRevisions(req.params.id);
+      res.status(200).json(revisions);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getPromptRevision
+   * @description Retrieves a single revision of a prompt.
+   * @param {Request} req - The Express request object, containing the prompt ID and revision number as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getPromptRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const revisionNumber = parseRevisionNumber(req.params.revision);
+      if (revisionNumber === null) {
+        return res.status(400).json({ message: 'Revision must be a positive integer' });
+      }
+      if (!await PromptService.getPromptById(req.params.id, req.user?.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const revision = await PromptRevisionService.getRevision(req.params.id, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+      res.status(200).json(revision);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method diffPromptRevisions
+   * @description Compares two revisions of a prompt field by field.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and `from`/`to` revision numbers as query parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async diffPromptRevisions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const from = parseRevisionNumber(req.query.from);
+      const to = parseRevisionNumber(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ message: 'Query parameters "from" and "to" must be positive integers' });
+      }
+      if (!await PromptService.getPromptById(req.params.id, req.user?.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const diff = await PromptRevisionService.diffRevisions(req.params.id, from, to);
+      if (!diff) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+      res.status(200).json(diff);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method rollbackPromptRevision
+   * @description Restores a prompt to the content of an earlier revision. Requires authentication.
+   * @param {Request} req - The Express request object, containing the prompt ID and revision number as URL parameters and authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async rollbackPromptRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const revisionNumber = parseRevisionNumber(req.params.revision);
+      if (revisionNumber === null) {
+        return res.status(400).json({ message: 'Revision must be a positive integer' });
+      }
+      const prompt = await PromptService.rollbackToRevision(req.params.id, revisionNumber, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt or revision not found' });
+      }
+      res.status(200).json(prompt);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        return res.status(403).json({ message: error.message });
+      }
       next(error);
     }
   }
+
+  /**
+   * @method forkPrompt
+   * @description Forks a prompt into a new private prompt owned by the user, remembering the prompt and revision it came from.
+   * Requires authentication. An optional `title` in the body names the fork.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async forkPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const fork = await PromptService.forkPrompt(req.params.id, req.user.id, req.body?.title);
+      if (!fork) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(201).json(fork);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method getPromptLineage
+   * @description Retrieves the visible ancestors and descendants of a prompt in its fork lineage.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getPromptLineage(req: Request, res: Response, next: NextFunction) {
+    try {
+      const lineage = await PromptService.getLineage(req.params.id, req.user?.id);
+      if (!lineage) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(200).json(lineage);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getPromptWorkflows
+   * @description Lists the workflows with a task that runs the prompt, so that deleting it can warn about them. Requires authentication.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getPromptWorkflows(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const workflows = await WorkflowService.findWorkflowsUsingPrompt(req.params.id);
+      res.status(200).json(workflows);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+/**
+ * Parses a revision number from a route or query parameter.
+ * @param {unknown} value - The raw parameter value.
+ * @returns {number | null} The revision number, or null if it is not a positive integer.
+ * @private
+ */
+function parseRevisionNumber(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : null;
 }
 
 export default new PromptController();
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * @file promptReviewController.ts
+ * @description Controller for handling HTTP requests related to the review lifecycle of a prompt:
+ * its status and reviewer, the audit trail of status changes, and review comments.
+ * Anyone who can see a prompt can read its review state and comments. Commenting requires authentication,
+ * and status changes and reviewer assignment are further limited to the owner and the assigned reviewer.
+ *
+ * @requires express
+ * @requires ../../services/promptReviewService
+ * @requires ../../services/promptService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import PromptReviewService from '../../services/promptReviewService';
+import PromptService, { PromptAccessError } from '../../services/promptService';
+import '../../types/express';
+
+/**
+ * @class PromptReviewController
+ * @description Controller for handling prompt review requests.
+ *
+ * @since 0.6.0
+ */
+class PromptReviewController {
+  /**
+   * @method getReview
+   * @description Retrieves the status, reviewer and status history of a prompt.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getReview(req: Request, res: Response, next: NextFunction) {
+    try {
+      const prompt = await PromptService.getPromptById(req.params.id, req.user?.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(200).json(await PromptReviewService.getReview(prompt));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method assignReviewer
+   * @description Assigns or removes the reviewer of a prompt. Requires authentication and ownership of the prompt.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and `reviewer` (an email address or null) in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * PUT /api/prompts/123e4567-e89b-12d3-a456-426614174000/review/reviewer
+   * { "reviewer": "compliance@example.com" }
+   */
+  async assignReviewer(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const review = await PromptReviewService.assignReviewer(prompt, req.body?.reviewer, req.user.id);
+      res.status(200).json(review);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method changeStatus
+   * @description Moves a prompt to another review status and records the change. Requires authentication.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and `status` and an optional `note` in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/review/status
+   * { "status": "approved", "note": "Checked against the refund policy" }
+   */
+  async changeStatus(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const review = await PromptReviewService.changeStatus(prompt, req.body?.status, req.user.id, req.body?.note);
+      res.status(200).json(review);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method getComments
+   * @description Lists the review comments on a prompt, oldest first.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getComments(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!await PromptService.getPromptById(req.params.id, req.user?.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(200).json(await PromptReviewService.listComments(req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method addComment
+   * @description Adds a review comment, or a reply to one, to a prompt. Requires authentication.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and `body` and an optional `parentId` in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async addComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (!await PromptService.getPromptById(req.params.id, req.user.id)) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const comment = await PromptReviewService.addComment(req.params.id, req.body?.body, req.body?.parentId, req.user.id);
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+}
+
+export default new PromptReviewController();
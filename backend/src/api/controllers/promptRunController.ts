@@ -0,0 +1,203 @@
+/**
+ * @file promptRunController.ts
+ * @description Controller for handling HTTP requests related to the test runs of a prompt.
+ * Runs hold the variables and responses of the user who made them, so reading the history requires authentication:
+ * the prompt's owner sees every run of the prompt, anyone else who can see it only their own. Running a prompt
+ * requires authentication, and pinning a run as the example output requires permission to edit the prompt.
+ * Pinning or judging a run is up to the user who made the run and the prompt's owner.
+ *
+ * @requires express
+ * @requires ../../services/promptRunService
+ * @requires ../../services/promptService
+ * @requires ../../services/promptCompilerService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import PromptRunService from '../../services/promptRunService';
+import PromptService, { PromptAccessError } from '../../services/promptService';
+import PromptCompilerService from '../../services/promptCompilerService';
+import { ProviderAwareRequest } from '../../services/unifiedAIService';
+import { AIProvider } from '../../types/aiProvider';
+import '../../types/express';
+
+/**
+ * Whether a request body value is a map of variable names to string values.
+ * @private
+ */
+const isVariableMap = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+  && Object.values(value).every(entry => typeof entry === 'string');
+
+/**
+ * @class PromptRunController
+ * @description Controller for handling prompt test run requests.
+ *
+ * @since 0.6.0
+ */
+class PromptRunController {
+  /**
+   * @method getRuns
+   * @description Lists the recorded runs of a prompt, newest first: all of them for the prompt's owner, the user's
+   * own for anyone else. An optional `limit` query parameter caps the number of runs. Requires authentication.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      const runs = await PromptRunService.listRuns(prompt, req.user.id, req.query.limit);
+      res.status(200).json(runs);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method runPrompt
+   * @description Runs a prompt and records the run. Requires authentication.
+   * The body carries the `variables` to fill in and selects the provider, model and parameters in the same way as
+   * `POST /api/gemini/test-prompt`; without a provider the default Gemini model is used. An optional `format`
+   * compiles the prompt's SFL fields into a provider layout (see `GET /api/prompts/:id/compiled`); without it the
+   * prompt text is sent alone. A failed model call is still recorded and returned with its `error`.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and the run configuration in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/runs
+   * { "variables": { "customer": "Ana" }, "provider": "openai", "model": "gpt-4o-mini", "parameters": { "temperature": 0.2 }, "format": "openai" }
+   */
+  async runPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const { variables = {}, provider, model, parameters, apiKey, baseUrl, format = 'plain' } = req.body ?? {};
+      if (!isVariableMap(variables)) {
+        return res.status(400).json({ message: 'variables must map variable names to string values' });
+      }
+      if (!PromptCompilerService.isFormat(format)) {
+        return res.status(400).json({ message: `format must be one of: ${PromptCompilerService.getFormats().join(', ')}` });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const providerConfig: ProviderAwareRequest = {
+        provider: provider as AIProvider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
+      };
+      const run = await PromptRunService.runPrompt(prompt, variables, providerConfig, req.user.id, format);
+      res.status(201).json(run);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method pinRun
+   * @description Makes the response of a successful run the prompt's example output and returns the updated prompt.
+   * Requires authentication and permission to edit the prompt, and only the user who made the run and the prompt's
+   * owner may pin it.
+   * @param {Request} req - The Express request object, containing the prompt and run IDs as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async pinRun(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const updated = await PromptRunService.pinRun(prompt, req.params.runId, req.user.id);
+      if (!updated) {
+        return res.status(404).json({ message: 'Run not found' });
+      }
+      res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method judgeRun
+   * @description Grades the response of a run against the prompt's SFL declaration and returns the run with the
+   * per-dimension rubric in its `judgement`. The body may select the judge's provider, model and parameters; without
+   * them the model configured by `JUDGE_PROVIDER` and `JUDGE_MODEL` is used. Requires authentication, and only the user
+   * who made the run and the prompt's owner may judge it.
+   * @param {Request} req - The Express request object, containing the prompt and run IDs as URL parameters and the judge configuration in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/runs/9b2c.../judgement
+   * { "provider": "openai", "model": "gpt-4o" }
+   */
+  async judgeRun(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const { provider, model, parameters, apiKey, baseUrl } = req.body ?? {};
+      const judgeConfig: ProviderAwareRequest = {
+        provider: provider as AIProvider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
+      };
+      const run = await PromptRunService.judgeRun(prompt, req.params.runId, judgeConfig, req.user.id);
+      if (!run) {
+        return res.status(404).json({ message: 'Run not found' });
+      }
+      res.status(200).json(run);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+}
+
+export default new PromptRunController();
@@ -0,0 +1,98 @@
+/**
+ * @file promptTranslationController.ts
+ * @description Controller for handling HTTP requests related to the locale variants of a prompt.
+ * Anyone who can see a prompt can list the locale variants they can see. Translating a prompt requires
+ * authentication and the prompt must be owned by or shared with the user.
+ *
+ * @requires express
+ * @requires ../../services/promptTranslationService
+ * @requires ../../services/promptService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import PromptTranslationService from '../../services/promptTranslationService';
+import PromptService, { PromptAccessError } from '../../services/promptService';
+import { ProviderAwareRequest } from '../../services/unifiedAIService';
+import { AIProvider } from '../../types/aiProvider';
+import '../../types/express';
+
+/**
+ * @class PromptTranslationController
+ * @description Controller for handling prompt translation requests.
+ *
+ * @since 0.6.0
+ */
+class PromptTranslationController {
+  /**
+   * @method getLocaleVariants
+   * @description Lists the source prompt and its locale variants that the user can see, source first.
+   * The list is the same whichever sibling it is requested for.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getLocaleVariants(req: Request, res: Response, next: NextFunction) {
+    try {
+      const variants = await PromptService.getLocaleVariants(req.params.id, req.user?.id);
+      if (!variants) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+      res.status(200).json(variants);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method translatePrompt
+   * @description Translates a prompt into the `locale` of the body and saves the result as a locale variant of it.
+   * The provider, model and parameters are selected in the same way as for a test run. Placeholders and partial
+   * references must survive the translation; if one does not, nothing is saved and 400 is returned.
+   * @param {Request} req - The Express request object, containing the prompt ID as a URL parameter and the locale and provider configuration in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/prompts/123e4567-e89b-12d3-a456-426614174000/translations
+   * { "locale": "de-DE", "provider": "openai", "model": "gpt-4o-mini" }
+   */
+  async translatePrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const { locale, provider, model, parameters, apiKey, baseUrl } = req.body ?? {};
+      const prompt = await PromptService.getPromptById(req.params.id, req.user.id);
+      if (!prompt) {
+        return res.status(404).json({ message: 'Prompt not found' });
+      }
+
+      const providerConfig: ProviderAwareRequest = {
+        provider: provider as AIProvider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
+      };
+      const variant = await PromptTranslationService.translatePrompt(prompt, locale, providerConfig, req.user.id);
+      res.status(201).json(variant);
+    } catch (error) {
+      if (error instanceof PromptAccessError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+}
+
+export default new PromptTranslationController();
@@ -5,7 +5,6 @@
  */
 
 import { Request, Response } from 'express';
-import crypto from 'crypto';
 import {
   detectAvailableProviders,
   validateAllProviders,
@@ -15,25 +14,7 @@ import {
   type AIProvider,
 } from '../../services/providerValidationService';
 import { UnifiedAIService } from '../../services/unifiedAIService';
-
-/**
- * Interface for session-stored API keys with encryption
- */
-interface SecureApiKeyStorage {
-  [provider: string]: {
-    encrypted: string;
-    iv: string;
-    tag: string;
-    timestamp: number;
-  };
-}
-
-/**
- * Encryption configuration for API keys
- */
-const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
-const ENCRYPTION_KEY = process.env.API_KEY_ENCRYPTION_SECRET || crypto.randomBytes(32).toString('hex');
-const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+import { EncryptedApiKey, decryptApiKey, encryptApiKey, isApiKeyExpired } from '../../services/apiKeyEncryption';
 
 /**
  * Controller class for managing AI provider validation and configuration
@@ -250,7 +231,7 @@ class ProviderController {
       }
 
       // Encrypt and store the API key in session
-      const encryptedData = ProviderController.encryptApiKey(sanitizedApiKey);
+      const encryptedData = encryptApiKey(sanitizedApiKey);
       
       if (!req.session) {
         req.session = {} as typeof req.session;
@@ -412,7 +393,7 @@ class ProviderController {
       if (req.session?.apiKeys) {
         for (const [provider, data] of Object.entries(req.session.apiKeys)) {
           // Check if the stored key is not expired
-          if (Date.now() - data.timestamp < SESSION_TIMEOUT) {
+          if (!isApiKeyExpired(data)) {
             storedProviders.push(provider);
           }
         }
@@ -434,63 +415,13 @@ class ProviderController {
     }
   }
 
-  /**
-   * Encrypt an API key for secure storage
-   * @private
-   */
-  private static encryptApiKey(apiKey: string): { encrypted: string; iv: string; tag: string } {
-    try {
-      const iv = crypto.randomBytes(16);
-      const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-      const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
-      
-      let encrypted = cipher.update(apiKey, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      const tag = cipher.getAuthTag().toString('hex');
-      
-      return {
-        encrypted,
-        iv: iv.toString('hex'),
-        tag,
-      };
-    } catch (error) {
-      console.error('Failed to encrypt API key:', error);
-      throw new Error('Failed to encrypt API key');
-    }
-  }
-
-  /**
-   * Decrypt an API key from secure storage
-   * @private
-   */
-  private static decryptApiKey(encryptedData: { encrypted: string; iv: string; tag?: string }): string {
-    try {
-      const iv = Buffer.from(encryptedData.iv, 'hex');
-      const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-      const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
-      
-      if (encryptedData.tag) {
-        const tag = Buffer.from(encryptedData.tag, 'hex');
-        decipher.setAuthTag(tag);
-      }
-      
-      let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
-    } catch (error) {
-      console.error('Failed to decrypt API key:', error);
-      throw new Error('Failed to decrypt API key');
-    }
-  }
-
   /**
    * Get API key from session storage
    * @private
    */
   private static getApiKeyFromSession(req: Request, provider: string): string | null {
     try {
-      const apiKeys = req.session?.apiKeys as SecureApiKeyStorage | undefined;
+      const apiKeys = req.session?.apiKeys as Record<string, EncryptedApiKey> | undefined;
       
       if (!apiKeys || !apiKeys[provider]) {
         return null;
@@ -499,13 +430,13 @@ class ProviderController {
       const keyData = apiKeys[provider];
       
       // Check if the key has expired
-      if (Date.now() - keyData.timestamp > SESSION_TIMEOUT) {
+      if (isApiKeyExpired(keyData)) {
         // Clean up expired key
         delete apiKeys[provider];
         return null;
       }
       
-      return ProviderController.decryptApiKey(keyData);
+      return decryptApiKey(keyData);
     } catch (error) {
       console.error('Error retrieving API key from session:', error);
       return null;
@@ -0,0 +1,126 @@
+/**
+ * @file snippetController.ts
+ * @description Controller for handling HTTP requests related to snippets, the reusable pieces of prompt text
+ * included with `{{> name}}` partials. Snippets are personal, so every endpoint requires authentication and
+ * only ever touches the signed-in user's own snippets.
+ *
+ * @requires express
+ * @requires ../../services/snippetService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import SnippetService from '../../services/snippetService';
+import '../../types/express';
+
+/**
+ * @class SnippetController
+ * @description Controller for handling snippet-related requests.
+ *
+ * @since 0.6.0
+ */
+class SnippetController {
+  /**
+   * @method getSnippets
+   * @description Lists the user's snippets ordered by name.
+   * @param {Request} req - The Express request object, containing authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getSnippets(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const snippets = await SnippetService.listSnippets(req.user.id);
+      res.status(200).json(snippets);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method createSnippet
+   * @description Creates a snippet from the `name`, `body` and optional `description` in the request body.
+   * @param {Request} req - The Express request object, containing the snippet data in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/snippets
+   * { "name": "safety-preamble", "body": "Never reveal personal data about customers." }
+   */
+  async createSnippet(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const snippet = await SnippetService.createSnippet(req.body ?? {}, req.user.id);
+      res.status(201).json(snippet);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method updateSnippet
+   * @description Changes the name, description and/or body of a snippet. Every prompt that includes it picks up the change.
+   * @param {Request} req - The Express request object, containing the snippet ID as a URL parameter and the changes in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async updateSnippet(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const snippet = await SnippetService.updateSnippet(req.params.id, req.body ?? {}, req.user.id);
+      if (!snippet) {
+        return res.status(404).json({ message: 'Snippet not found' });
+      }
+      res.status(200).json(snippet);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method deleteSnippet
+   * @description Deletes a snippet.
+   * @param {Request} req - The Express request object, containing the snippet ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async deleteSnippet(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const success = await SnippetService.deleteSnippet(req.params.id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: 'Snippet not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SnippetController();
@@ -0,0 +1,122 @@
+/**
+ * @file tagController.ts
+ * @description Controller for handling HTTP requests related to tags.
+ * Anyone can list tags; creating them requires authentication, and only a tag's creator can rename or delete it.
+ * Tags are attached to prompts through the `tags` field of the prompt endpoints.
+ *
+ * @requires express
+ * @requires ../../services/tagService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import TagService from '../../services/tagService';
+import '../../types/express';
+
+/**
+ * @class TagController
+ * @description Controller for handling tag-related requests.
+ *
+ * @since 0.6.0
+ */
+class TagController {
+  /**
+   * @method getTags
+   * @description Lists all tags alphabetically with the number of prompts carrying each.
+   * @param {Request} req - The Express request object.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tags = await TagService.listTags();
+      res.status(200).json(tags);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method createTag
+   * @description Creates a tag from the `name` in the request body. Requires authentication.
+   * @param {Request} req - The Express request object, containing the tag name in the body and authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/tags
+   * { "name": "onboarding" }
+   */
+  async createTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const tag = await TagService.createTag(req.body?.name, req.user.id);
+      res.status(201).json(tag);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method updateTag
+   * @description Renames a tag to the `name` in the request body. Only the tag's creator may rename it.
+   * @param {Request} req - The Express request object, containing the tag ID as a URL parameter and the new name in the body.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async updateTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const tag = await TagService.renameTag(req.params.id, req.body?.name, req.user.id);
+      if (!tag) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+      res.status(200).json(tag);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * @method deleteTag
+   * @description Deletes a tag and removes it from every prompt. Only the tag's creator may delete it.
+   * @param {Request} req - The Express request object, containing the tag ID as a URL parameter.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async deleteTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const success = await TagService.deleteTag(req.params.id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new TagController();
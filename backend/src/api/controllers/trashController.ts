@@ -0,0 +1,111 @@
+/**
+ * @file trashController.ts
+ * @description Controller for handling HTTP requests related to the trash of deleted prompts and workflows.
+ * Every trash endpoint requires authentication. Users see, restore and purge only the prompts and workflows
+ * they own.
+ *
+ * @requires express
+ * @requires ../../services/trashService
+ * @since 0.6.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import TrashService from '../../services/trashService';
+import { TrashItemType } from '../../types';
+import '../../types/express';
+
+/**
+ * The item types that can be addressed in a trash URL.
+ * @private
+ */
+const TRASH_ITEM_TYPES: TrashItemType[] = ['prompt', 'workflow'];
+
+/**
+ * @class TrashController
+ * @description Controller for handling trash requests.
+ *
+ * @since 0.6.0
+ */
+class TrashController {
+  /**
+   * @method getTrash
+   * @description Lists the items in the user's trash, most recently deleted first, with the time each will be purged.
+   * @param {Request} req - The Express request object, containing authenticated user info.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async getTrash(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const items = await TrashService.listTrash(req.user.id);
+      res.status(200).json(items);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method restoreItem
+   * @description Takes a prompt or workflow out of the trash and returns it.
+   * @param {Request} req - The Express request object, containing the item type (`prompt` or `workflow`) and ID as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   *
+   * @example
+   * POST /api/trash/prompt/123e4567-e89b-12d3-a456-426614174000/restore
+   */
+  async restoreItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const type = req.params.type as TrashItemType;
+      if (!TRASH_ITEM_TYPES.includes(type)) {
+        return res.status(400).json({ message: `Type must be one of: ${TRASH_ITEM_TYPES.join(', ')}` });
+      }
+
+      const restored = await TrashService.restore(type, req.params.id, req.user.id);
+      if (!restored) {
+        return res.status(404).json({ message: 'Item not found in the trash' });
+      }
+      res.status(200).json(restored);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method purgeItem
+   * @description Permanently deletes a prompt or workflow from the trash. This cannot be undone.
+   * @param {Request} req - The Express request object, containing the item type (`prompt` or `workflow`) and ID as URL parameters.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - The Express next middleware function.
+   * @returns {Promise<void>} - A promise that resolves when the response is sent.
+   */
+  async purgeItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const type = req.params.type as TrashItemType;
+      if (!TRASH_ITEM_TYPES.includes(type)) {
+        return res.status(400).json({ message: `Type must be one of: ${TRASH_ITEM_TYPES.join(', ')}` });
+      }
+
+      const purged = await TrashService.purge(type, req.params.id, req.user.id);
+      if (!purged) {
+        return res.status(404).json({ message: 'Item not found in the trash' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new TrashController();
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import WorkflowExecutionService from '../../services/workflowExecutionService';
+import WorkflowExecutionService, { TaskExecutionContext } from '../../services/workflowExecutionService';
 import PromptService from '../../services/promptService';
+import PromptReviewService from '../../services/promptReviewService';
+import WorkflowService from '../../services/workflowService';
+import { TextManipulationError } from '../../services/workflow/textManipulation';
 import config from '../../config/env';
 import { PromptSFL, Workflow } from '../../types';
 
@@ -14,10 +17,30 @@ try {
   JobService = require('../../services/mockJobService').default;
 }
 
+/**
+ * The provider keys the user stored in their session, still encrypted, for the LLM_PROMPT tasks of a run.
+ */
+const getSessionKeys = (req: Request): TaskExecutionContext['sessionKeys'] => ({
+  sessionApiKeys: req.session?.apiKeys,
+  sessionBaseUrls: req.session?.baseUrls,
+});
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether the stored workflow with the given ID only runs approved prompts. The setting is read on the server so that a
+ * client cannot leave it out of a request; workflows kept only in the browser have no IDs the server knows.
+ */
+const requiresApprovedPrompts = async (workflowId: unknown): Promise<boolean> => {
+  if (typeof workflowId !== 'string' || !UUID_PATTERN.test(workflowId)) return false;
+  const workflow = await WorkflowService.getWorkflowById(workflowId);
+  return !!workflow?.graph_data?.requireApprovedPrompts;
+};
+
 class WorkflowExecutionController {
   async runTask(req: Request, res: Response, next: NextFunction) {
     try {
-      const { task, dataStore } = req.body;
+      const { task, dataStore, workflowId } = req.body;
       if (!task || !dataStore) {
         return res.status(400).json({ message: 'Task and dataStore are required' });
       }
@@ -25,16 +48,29 @@ class WorkflowExecutionController {
       // Optimize: Only fetch the specific prompt if needed, instead of all prompts
       let linkedPrompt: PromptSFL | undefined;
       if (task.promptId) {
-        const foundPrompt = await PromptService.getPromptById(task.promptId);
+        const foundPrompt = await PromptService.getPromptById(task.promptId, req.user?.id);
         if (!foundPrompt) {
           return res.status(404).json({ message: `Prompt with ID ${task.promptId} not found` });
         }
+        if (foundPrompt.status !== 'approved' && await requiresApprovedPrompts(workflowId)) {
+          return res.status(409).json({
+            message: `Prompt "${foundPrompt.title}" must be approved before this workflow can run it`,
+            prompts: [{ id: foundPrompt.id, title: foundPrompt.title, status: foundPrompt.status || 'draft' }]
+          });
+        }
         linkedPrompt = foundPrompt;
       }
       
-      const result = await WorkflowExecutionService.executeTask(task, dataStore, linkedPrompt);
+      const result = await WorkflowExecutionService.executeTask(task, dataStore, linkedPrompt, {
+        userId: req.user?.id,
+        sessionKeys: getSessionKeys(req)
+      });
       res.status(200).json(result);
     } catch (error) {
+      if (error instanceof TextManipulationError) {
+        // The kind and line let the editor point at the failing line of the function
+        return res.status(422).json({ message: error.message, error: error.toJSON() });
+      }
       next(error);
     }
   }
@@ -51,11 +87,24 @@ class WorkflowExecutionController {
         return res.status(400).json({ message: 'Workflow must have an ID' });
       }
 
+      workflow.requireApprovedPrompts = workflow.requireApprovedPrompts || await requiresApprovedPrompts(workflow.id);
+      if (workflow.requireApprovedPrompts) {
+        const unapproved = await PromptReviewService.findUnapprovedPrompts(workflow.tasks || [], req.user?.id);
+        if (unapproved.length > 0) {
+          return res.status(409).json({
+            message: `This workflow only runs approved prompts. Not approved: ${unapproved.map(prompt => prompt.title ?? prompt.id).join(', ')}`,
+            prompts: unapproved
+          });
+        }
+      }
+
       // Add workflow to execution queue
       const jobId = await JobService.addWorkflowJob(
         workflow.id,
         workflow as Workflow,
-        userInput
+        userInput,
+        req.user?.id,
+        getSessionKeys(req)
       );
 
       // Return immediately with job ID and pending status
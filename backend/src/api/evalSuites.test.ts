@@ -0,0 +1,267 @@
+/**
+ * @file evalSuites.test.ts
+ * @description Integration tests for the /api/prompts/:id/eval-suites endpoints.
+ * Covers suite validation, access control and running a suite with deterministic and rubric assertions.
+ * Uses mocked database and AI service to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Mock the AI service so that no provider is called
+jest.mock('../services/unifiedAIService', () => ({
+  __esModule: true,
+  default: { testPrompt: jest.fn() },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import UnifiedAIService from '../services/unifiedAIService';
+
+const mockTestPrompt = UnifiedAIService.testPrompt as jest.MockedFunction<typeof UnifiedAIService.testPrompt>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+const suiteId = '223e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = (overrides: Record<string, any> = {}) => ({
+  id: promptId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a reply to {{customer}} about their {{product}} refund.',
+  metadata: {
+    sflField: { topic: 'Billing', taskType: 'Explanation', domainSpecifics: '', keywords: 'refund' },
+    sflTenor: { aiPersona: 'Expert', targetAudience: ['Customers'], desiredTone: 'Friendly', interpersonalStance: '' },
+    sflMode: { outputFormat: 'JSON', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+    variables: [
+      { name: 'customer', type: 'string', required: true },
+      { name: 'product', type: 'string', required: false, defaultValue: 'subscription' }
+    ]
+  },
+  visibility: 'private',
+  tags: [],
+  access: 'owner',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+  ...overrides
+});
+
+const suiteRow = (cases: any[]) => ({
+  id: suiteId,
+  prompt_id: promptId,
+  name: 'Refund replies',
+  description: '',
+  cases,
+  created_by: userId,
+  created_at: '2024-01-03T00:00:00Z',
+  updated_at: '2024-01-03T00:00:00Z'
+});
+
+describe('POST /api/prompts/:id/eval-suites', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should create a suite and give its test cases IDs', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [suiteRow(JSON.parse(values[3]))]
+      }));  // INSERT suite
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites`)
+      .set('Authorization', auth)
+      .send({
+        name: '  Refund replies ',
+        cases: [{ variables: { customer: 'Ana' }, assertions: [{ type: 'contains', value: 'Ana' }] }]
+      })
+      .expect(201);
+
+    expect(response.body.name).toBe('Refund replies');
+    expect(response.body.cases[0]).toMatchObject({ variables: { customer: 'Ana' }, assertions: [{ type: 'contains', value: 'Ana' }] });
+    expect(response.body.cases[0].id).toEqual(expect.any(String));
+    expect(mockQuery.mock.calls[3][1].slice(0, 3)).toEqual([promptId, 'Refund replies', '']);
+  });
+
+  it('should return 400 for an invalid assertion', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites`)
+      .set('Authorization', auth)
+      .send({ name: 'Broken', cases: [{ assertions: [{ type: 'regex', pattern: '(' }] }] })
+      .expect(400);
+
+    expect(response.body.message).toBe('Invalid evaluation suite: cases.0.assertions.0.pattern: Invalid regular expression: (');
+  });
+
+  it('should return 403 when the prompt is public and owned by someone else', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [promptRow({ user_id: 'someone-else', visibility: 'public', access: 'public' })] });
+
+    await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites`)
+      .set('Authorization', auth)
+      .send({ name: 'Mine now', cases: [] })
+      .expect(403);
+
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites`)
+      .send({ name: 'Anonymous' })
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/prompts/:id/eval-suites/:suiteId/runs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should run every case through the AI service and store the pass/fail results', async () => {
+    const cases = [
+      {
+        id: 'case-1',
+        variables: { customer: 'Ana' },
+        assertions: [
+          { type: 'contains', value: 'ana' },
+          { type: 'json-schema', schema: { type: 'object', required: ['reply'] } },
+          { type: 'llm-rubric', rubric: 'The reply is polite', threshold: 0.7 }
+        ]
+      },
+      { id: 'case-2', variables: { customer: 'Bo', product: 'laptop' }, assertions: [{ type: 'max-length', value: 10 }] },
+      { id: 'case-3', variables: {}, assertions: [{ type: 'regex', pattern: 'refund' }] }
+    ];
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [suiteRow(cases)] })  // SELECT suite
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [{
+          id: 'run-1', suite_id: values[0], prompt_id: values[1], provider: values[2], model: values[3],
+          passed: values[4], failed: values[5], score: values[6], results: JSON.parse(values[7]),
+          created_by: values[8], started_at: values[9], completed_at: '2024-01-04T00:00:00Z'
+        }]
+      }));  // INSERT run
+    mockTestPrompt
+      .mockResolvedValueOnce('```json\n{"reply": "Dear Ana, your refund is on its way."}\n```')
+      .mockResolvedValueOnce('{"score": 0.9, "reason": "Courteous throughout."}')
+      .mockResolvedValueOnce('A reply that is far too long for the limit.');
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites/${suiteId}/runs`)
+      .set('Authorization', auth)
+      .send({ provider: 'openai', model: 'gpt-4o-mini' })
+      .expect(201);
+
+    expect(mockTestPrompt.mock.calls[0]).toEqual([
+      'Write a reply to Ana about their subscription refund.',
+      expect.objectContaining({ provider: 'openai', model: 'gpt-4o-mini' })
+    ]);
+    expect(mockTestPrompt.mock.calls[1][0]).toContain('The reply is polite');
+    expect(mockTestPrompt.mock.calls[2][0]).toBe('Write a reply to Bo about their laptop refund.');
+    expect(mockTestPrompt).toHaveBeenCalledTimes(3);
+
+    expect(response.body).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', passed: 1, failed: 2 });
+    expect(response.body.score).toBeCloseTo((29 / 30 + 0 + 0) / 3);
+    const [first, second, third] = response.body.results;
+    expect(first).toMatchObject({ caseId: 'case-1', passed: true });
+    expect(first.assertions.map((a: any) => [a.type, a.passed, a.score])).toEqual([
+      ['contains', true, 1],
+      ['json-schema', true, 1],
+      ['llm-rubric', true, 0.9]
+    ]);
+    expect(second.assertions[0]).toEqual({ type: 'max-length', passed: false, score: 0, message: '43 of at most 10 characters' });
+    expect(third).toMatchObject({ caseId: 'case-3', passed: false, error: 'Variable "customer" is required' });
+  });
+
+  it('should check a schema that declares an $id on every run of the suite', async () => {
+    const schema = { $id: 'https://example.com/reply.json', type: 'object', required: ['reply'] };
+    const cases = [1, 2].map(n => ({
+      id: `case-${n}`,
+      variables: { customer: 'Ana' },
+      assertions: [{ type: 'json-schema', schema }]
+    }));
+
+    for (let run = 0; run < 2; run++) {
+      const auth = authAs(userId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+        .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+        // Every run reads fresh copies of the schemas from the database
+        .mockResolvedValueOnce({ rows: [suiteRow(JSON.parse(JSON.stringify(cases)))] })  // SELECT suite
+        .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+          rows: [{ id: `run-${run}`, passed: values[4], failed: values[5], score: values[6], results: JSON.parse(values[7]) }]
+        }));  // INSERT run
+      mockTestPrompt
+        .mockResolvedValueOnce('{"reply": "Dear Ana, your refund is on its way."}')
+        .mockResolvedValueOnce('{"reply": "Dear Ana, your refund is on its way."}');
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/eval-suites/${suiteId}/runs`)
+        .set('Authorization', auth)
+        .send({})
+        .expect(201);
+
+      expect(response.body).toMatchObject({ passed: 2, failed: 0 });
+    }
+  });
+
+  it('should fail a regex assertion that takes too long to match instead of blocking the server', async () => {
+    const cases = [{ id: 'case-1', variables: { customer: 'Ana' }, assertions: [{ type: 'regex', pattern: '^(a+)+$' }] }];
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [suiteRow(cases)] })  // SELECT suite
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [{ id: 'run-1', passed: values[4], failed: values[5], score: values[6], results: JSON.parse(values[7]) }]
+      }));  // INSERT run
+    mockTestPrompt.mockResolvedValueOnce(`${'a'.repeat(40)}b`);
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites/${suiteId}/runs`)
+      .set('Authorization', auth)
+      .send({})
+      .expect(201);
+
+    expect(response.body.results[0].assertions[0]).toEqual({
+      type: 'regex',
+      passed: false,
+      score: 0,
+      message: 'Matching /^(a+)+$/ took longer than 100 ms'
+    });
+  });
+
+  it('should return 404 for a suite of another prompt', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .post(`/api/prompts/${promptId}/eval-suites/${suiteId}/runs`)
+      .set('Authorization', auth)
+      .send({})
+      .expect(404);
+
+    expect(mockTestPrompt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @file promptAnnotation.test.ts
+ * @description Integration tests for inferring the SFL metadata of the prompts in an import file
+ * (/api/prompts/import/annotations) and for applying accepted annotations on import.
+ * Covers leaving declared fields and the prompt text untouched, per-prompt errors and batch limits.
+ * Uses mocked database and provider factory to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn(() => true),
+    createService: jest.fn(),
+  },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+
+/**
+ * Answers each provider call with the next of the given annotations, as JSON in a code fence.
+ */
+const annotateWith = (...answers: Array<Record<string, { value: unknown; confidence?: unknown }>>) => {
+  const generateCompletion = jest.fn();
+  for (const fields of answers) {
+    generateCompletion.mockResolvedValueOnce({ text: '```json\n' + JSON.stringify({ fields }) + '\n```', model: 'gpt-4o-mini', processingTime: 400 });
+  }
+  mockCreateService.mockReturnValue({ generateCompletion });
+  return generateCompletion;
+};
+
+const legacyFile = JSON.stringify([
+  {
+    title: 'Release notes',
+    promptText: 'Summarise these commits as release notes for our customers in three bullet points.',
+    sflTenor: { desiredTone: 'Upbeat' }
+  },
+  { title: 'Broken', promptText: '' },
+  { title: 'Bug triage', promptText: 'Classify this bug report by severity.' }
+]);
+
+describe('POST /api/prompts/import/annotations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should suggest the empty SFL fields of each prompt with a confidence and report prompts it cannot annotate', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = annotateWith(
+      {
+        'sflField.taskType': { value: 'Summarization', confidence: 0.95 },
+        'sflTenor.targetAudience': { value: ['Customers'], confidence: 0.9 },
+        'sflTenor.desiredTone': { value: 'Formal', confidence: 1 },
+        'sflMode.lengthConstraint': { value: 'Three bullet points', confidence: 1.4 },
+        'sflMode.textualDirectives': { value: '', confidence: 0.1 }
+      },
+      { 'sflField.taskType': { value: 'Classification', confidence: 'high' } }
+    );
+
+    const response = await request(app)
+      .post('/api/prompts/import/annotations')
+      .set('Authorization', auth)
+      .send({ format: 'json', content: legacyFile, provider: 'openai', apiKey: 'sk-test' })
+      .expect(200);
+
+    const sent = generateCompletion.mock.calls[0][0];
+    expect(sent.forceJsonMode).toBe(true);
+    expect(sent.prompt).toContain('- sflTenor.desiredTone: Upbeat');
+    expect(sent.prompt).not.toMatch(/^- sflTenor\.desiredTone: the tone/m);
+    expect(generateCompletion).toHaveBeenCalledTimes(2);
+
+    expect(response.body).toEqual([
+      {
+        index: 0,
+        title: 'Release notes',
+        suggestions: [
+          { field: 'sflField.taskType', value: 'Summarization', confidence: 0.95 },
+          { field: 'sflTenor.targetAudience', value: 'Customers', confidence: 0.9 },
+          { field: 'sflMode.lengthConstraint', value: 'Three bullet points', confidence: 1 }
+        ]
+      },
+      { index: 1, title: 'Broken', suggestions: [], error: 'promptText is required' },
+      { index: 2, title: 'Bug triage', suggestions: [{ field: 'sflField.taskType', value: 'Classification', confidence: 0 }] }
+    ]);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should annotate only the requested prompts and keep going when the model fails on one', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = jest.fn()
+      .mockResolvedValueOnce({ text: 'I cannot help with that.', model: 'gpt-4o-mini', processingTime: 100 });
+    mockCreateService.mockReturnValue({ generateCompletion });
+
+    const response = await request(app)
+      .post('/api/prompts/import/annotations')
+      .set('Authorization', auth)
+      .send({ format: 'json', content: legacyFile, indexes: [2], provider: 'openai', apiKey: 'sk-test' })
+      .expect(200);
+
+    expect(response.body).toEqual([
+      { index: 2, title: 'Bug triage', suggestions: [], error: 'The annotation could not be read' }
+    ]);
+  });
+
+  it('should return 400 for an index outside the file without calling the provider', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post('/api/prompts/import/annotations')
+      .set('Authorization', auth)
+      .send({ format: 'json', content: legacyFile, indexes: [3] })
+      .expect(400);
+
+    expect(response.body.message).toBe('indexes must list positions of prompts in the file');
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when more prompts are requested than one batch may annotate', async () => {
+    const auth = authAs(userId);
+    const file = Array.from({ length: 21 }, (_, index) => ({ title: `Prompt ${index}`, promptText: `Do task ${index}.` }));
+
+    const response = await request(app)
+      .post('/api/prompts/import/annotations')
+      .set('Authorization', auth)
+      .send({ format: 'json', content: JSON.stringify(file) })
+      .expect(400);
+
+    expect(response.body.message).toBe('A single request may annotate at most 20 prompts');
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post('/api/prompts/import/annotations')
+      .send({ format: 'json', content: legacyFile })
+      .expect(401);
+  });
+});
+
+describe('POST /api/prompts/import with annotations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should import the accepted SFL fields without changing the prompt text', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] })  // SELECT existing prompts
+      .mockResolvedValueOnce({ rows: [{ id: 'p-new', user_id: userId, title: 'Bug triage', body: 'Classify this bug report by severity.', metadata: {}, visibility: 'private' }] })  // INSERT prompt
+      .mockResolvedValueOnce({ rows: [{ id: 'rev-1' }] })  // INSERT revision
+      .mockResolvedValueOnce({ rows: [] });  // UPSERT embedding
+
+    await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({
+        format: 'json',
+        content: JSON.stringify([{ title: 'Bug triage', promptText: 'Classify this bug report by severity.' }]),
+        annotations: { 0: { 'sflField.taskType': 'Classification', 'sflTenor.targetAudience': 'Developers, QA' } }
+      })
+      .expect(201);
+
+    const [, values] = mockQuery.mock.calls[2];
+    expect(values[2]).toBe('Classify this bug report by severity.');
+    expect(values[3]).toMatchObject({
+      sflField: { taskType: 'Classification', topic: '' },
+      sflTenor: { targetAudience: ['Developers', 'QA'] }
+    });
+  });
+
+  it('should return 400 for an annotation of a field that is not part of SFL', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({
+        format: 'json',
+        content: JSON.stringify([{ title: 'Bug triage', promptText: 'Classify this bug report by severity.' }]),
+        annotations: { 0: { promptText: 'Rewritten' } },
+        dryRun: true
+      })
+      .expect(400);
+
+    expect(response.body.message).toBe('annotations.0: promptText is not an SFL field');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @file promptCompare.test.ts
+ * @description Integration tests for the /api/gemini/compare-prompt endpoint.
+ * Covers request validation and fanning a prompt out to several providers, including one that fails.
+ * Uses a mocked provider factory so that no provider is called.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn(() => Promise.resolve({
+  query: jest.fn(),
+  end: jest.fn(),
+  on: jest.fn(),
+})));
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn((provider: string) => ['google', 'openai', 'anthropic', 'openrouter'].includes(provider)),
+    createService: jest.fn(),
+  },
+}));
+
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+describe('POST /api/gemini/compare-prompt', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run the prompt against every configuration and report usage and timing', async () => {
+    const generateCompletion = jest.fn()
+      .mockResolvedValueOnce({
+        text: 'Refunds are issued within 14 days.',
+        model: 'gpt-4o-mini',
+        usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20 },
+        processingTime: 420
+      })
+      .mockRejectedValueOnce(new Error('Invalid API key'));
+    mockCreateService.mockReturnValue({ generateCompletion });
+
+    const response = await request(app)
+      .post('/api/gemini/compare-prompt')
+      .send({
+        promptText: 'Summarise the refund policy.',
+        configs: [
+          { provider: 'openai', model: 'gpt-4o-mini', parameters: { temperature: 0.2 }, apiKey: 'sk-test' },
+          { provider: 'anthropic', model: 'claude-3-5-haiku-20241022', apiKey: 'bad-key' }
+        ]
+      })
+      .expect(200);
+
+    expect(mockCreateService.mock.calls.map((call: any[]) => [call[0], call[1].apiKey])).toEqual([
+      ['openai', 'sk-test'],
+      ['anthropic', 'bad-key']
+    ]);
+    expect(generateCompletion.mock.calls[0][0]).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      parameters: { temperature: 0.2 },
+      prompt: 'Summarise the refund policy.'
+    });
+
+    const [openai, anthropic] = response.body.results;
+    expect(openai).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      parameters: { temperature: 0.2 },
+      text: 'Refunds are issued within 14 days.',
+      usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20 },
+      processingTime: 420
+    });
+    expect(anthropic).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-haiku-20241022', text: '', error: 'Invalid API key' });
+    expect(anthropic.processingTime).toEqual(expect.any(Number));
+  });
+
+  it('should return 400 for an unsupported provider', async () => {
+    const response = await request(app)
+      .post('/api/gemini/compare-prompt')
+      .send({ promptText: 'Hello', configs: [{ provider: 'openai' }, { provider: 'mistral' }] })
+      .expect(400);
+
+    expect(response.body.message).toBe('Unsupported AI provider: mistral');
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when there are too many configurations', async () => {
+    const configs = Array.from({ length: 7 }, () => ({ provider: 'openai' }));
+
+    const response = await request(app)
+      .post('/api/gemini/compare-prompt')
+      .send({ promptText: 'Hello', configs })
+      .expect(400);
+
+    expect(response.body.message).toBe('At most 6 configurations can be compared at once');
+  });
+
+  it('should return 400 without a prompt', async () => {
+    await request(app)
+      .post('/api/gemini/compare-prompt')
+      .send({ configs: [{ provider: 'openai' }] })
+      .expect(400);
+  });
+});
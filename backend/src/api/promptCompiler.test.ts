@@ -0,0 +1,181 @@
+/**
+ * @file promptCompiler.test.ts
+ * @description Integration tests for compiling prompts into provider layouts: the /api/prompts/:id/compiled
+ * preview and the `format` option of test runs.
+ * Covers the Anthropic, OpenAI, Gemini and plain layouts and leaving out empty SFL fields.
+ * Uses mocked database and provider factory to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn(() => true),
+    createService: jest.fn(),
+  },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = (metadata: Record<string, any> = {}) => ({
+  id: promptId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a refund reply to {{customer}}.',
+  metadata: {
+    sflField: { topic: 'Refunds', taskType: 'Customer reply', domainSpecifics: '', keywords: 'refund, apology' },
+    sflTenor: { aiPersona: 'Senior support agent', targetAudience: ['Customers'], desiredTone: 'Warm', interpersonalStance: '' },
+    sflMode: { outputFormat: 'Plain text', rhetoricalStructure: '', lengthConstraint: 'Under 120 words', textualDirectives: '' },
+    variables: [{ name: 'customer', type: 'string', required: true }],
+    ...metadata
+  },
+  visibility: 'private',
+  tags: [],
+  access: 'owner',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+});
+
+const anthropicSystem = [
+  '<role>\nSenior support agent\n</role>',
+  '<audience>\n<target_audience>Customers</target_audience>\n<tone>Warm</tone>\n</audience>',
+  '<response_format>\n<output_format>Plain text</output_format>\n<length>Under 120 words</length>\n</response_format>'
+].join('\n\n');
+
+describe('GET /api/prompts/:id/compiled', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should lay the SFL fields out as XML sections for Anthropic', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] });  // SELECT shares
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/compiled?format=anthropic`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    const user = '<context>\n<topic>Refunds</topic>\n<task_type>Customer reply</task_type>\n<keywords>refund, apology</keywords>\n</context>\n\n'
+      + '<task>\nWrite a refund reply to {{customer}}.\n</task>';
+    expect(response.body).toEqual({
+      format: 'anthropic',
+      system: anthropicSystem,
+      user,
+      request: { system: anthropicSystem, messages: [{ role: 'user', content: user }] }
+    });
+  });
+
+  it('should send a system role message with Markdown for OpenAI', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/compiled?format=openai`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.system).toBe([
+      '## Role\nSenior support agent',
+      '## Audience and tone\n- **Target audience:** Customers\n- **Tone:** Warm',
+      '## Response format\n- **Output format:** Plain text\n- **Length:** Under 120 words'
+    ].join('\n\n'));
+    expect(response.body.request.messages.map((message: any) => message.role)).toEqual(['system', 'user']);
+    expect(response.body.request.messages[1].content).toBe(response.body.user);
+  });
+
+  it('should put the system message in systemInstruction for Gemini and skip it when nothing is set', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow({
+        sflField: { topic: '', taskType: '', domainSpecifics: '', keywords: '' },
+        sflTenor: { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
+        sflMode: { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' }
+      })] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/compiled?format=gemini`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      format: 'gemini',
+      system: '',
+      user: '## Task\nWrite a refund reply to {{customer}}.',
+      request: { contents: [{ role: 'user', parts: [{ text: '## Task\nWrite a refund reply to {{customer}}.' }] }] }
+    });
+  });
+
+  it('should return 400 for an unknown format', async () => {
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/compiled?format=llama`)
+      .expect(400);
+
+    expect(response.body.message).toBe('format must be one of: plain, anthropic, openai, gemini');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/prompts/:id/runs with a format', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should send the compiled messages and record the format and system message', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = jest.fn().mockResolvedValue({ text: 'Dear Ana', model: 'claude-3-5-haiku-latest', processingTime: 300 });
+    mockCreateService.mockReturnValue({ generateCompletion });
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [{
+          id: 'run-1', prompt_id: promptId, rendered_prompt: values[1], variables: {}, provider: values[3], model: values[4],
+          parameters: {}, response_text: values[6], usage: null, latency_ms: values[8], error: values[9],
+          created_by: userId, format: values[11], system_prompt: values[12], created_at: '2024-01-03T00:00:00Z'
+        }]
+      }));
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .send({ variables: { customer: 'Ana' }, provider: 'anthropic', apiKey: 'sk-ant-test', format: 'anthropic' })
+      .expect(201);
+
+    const sent = generateCompletion.mock.calls[0][0];
+    expect(sent.systemMessage).toBe(anthropicSystem);
+    expect(sent.prompt).toContain('<task>\nWrite a refund reply to Ana.\n</task>');
+    expect(response.body).toMatchObject({ format: 'anthropic', systemPrompt: anthropicSystem, renderedPrompt: sent.prompt });
+  });
+
+  it('should return 400 for an unknown format without running the prompt', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .send({ variables: { customer: 'Ana' }, format: 'xml' })
+      .expect(400);
+
+    expect(response.body.message).toBe('format must be one of: plain, anthropic, openai, gemini');
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * @file promptComposition.test.ts
+ * @description Integration tests for prompt composition: the /api/prompts/:id/rendered preview,
+ * choosing a base prompt, and the /api/snippets endpoints.
+ * Covers inheritance of SFL fields and variables, nested partials and cycle detection.
+ * Uses mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const childId = '123e4567-e89b-12d3-a456-426614174000';
+const baseId = '223e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = (id: string, title: string, body: string, metadata: Record<string, any>) => ({
+  id,
+  user_id: userId,
+  title,
+  body,
+  metadata: {
+    sflField: { topic: '', taskType: '', domainSpecifics: '', keywords: '' },
+    sflTenor: { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
+    sflMode: { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+    ...metadata
+  },
+  visibility: 'private',
+  tags: [],
+  access: 'owner',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+});
+
+const baseRow = (metadata: Record<string, any> = {}) => promptRow(baseId, 'Support base', 'Answer {{question}} as a support agent.', {
+  sflField: { topic: 'Support', taskType: 'Explanation', domainSpecifics: 'SaaS billing', keywords: '' },
+  sflTenor: { aiPersona: 'Expert', targetAudience: ['Customers'], desiredTone: 'Formal', interpersonalStance: '' },
+  sflMode: { outputFormat: 'Plain Text', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+  variables: [{ name: 'question', type: 'string', required: true }, { name: 'product', type: 'string', required: false, defaultValue: 'Pro' }],
+  ...metadata
+});
+
+const snippetRow = (name: string, body: string) => ({
+  id: `snippet-${name}`,
+  user_id: userId,
+  name,
+  description: '',
+  body,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+});
+
+describe('GET /api/prompts/:id/rendered', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should inherit the fields the prompt leaves empty and expand nested partials', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', '{{> safety-preamble}}\nExplain the refund of {{product}}.', {
+        extendsId: baseId,
+        sflTenor: { aiPersona: '', targetAudience: [], desiredTone: 'Friendly', interpersonalStance: '' },
+        variables: [{ name: 'product', type: 'enum', required: true, options: ['Pro', 'Team'] }]
+      })] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [baseRow()] })  // SELECT base prompt
+      .mockResolvedValueOnce({ rows: [snippetRow('safety-preamble', 'Never share card numbers. {{> sign-off}}')] })
+      .mockResolvedValueOnce({ rows: [snippetRow('sign-off', 'Sign as the Billing Team.')] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${childId}/rendered`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.promptText).toBe('Never share card numbers. Sign as the Billing Team.\nExplain the refund of {{product}}.');
+    expect(response.body.sflField).toEqual({ topic: 'Support', taskType: 'Explanation', domainSpecifics: 'SaaS billing', keywords: '' });
+    expect(response.body.sflTenor).toEqual({ aiPersona: 'Expert', targetAudience: ['Customers'], desiredTone: 'Friendly', interpersonalStance: '' });
+    expect(response.body.variables).toEqual([
+      { name: 'question', type: 'string', required: true },
+      { name: 'product', type: 'enum', required: true, options: ['Pro', 'Team'] }
+    ]);
+    expect(response.body.inheritanceChain).toEqual([childId, baseId]);
+    expect(response.body.partials).toEqual(['safety-preamble', 'sign-off']);
+    expect(mockQuery.mock.calls[4][1]).toEqual([userId, 'safety-preamble']);
+  });
+
+  it('should take the text of the base prompt when the prompt has none', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', '', { extendsId: baseId })] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [baseRow()] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${childId}/rendered`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.promptText).toBe('Answer {{question}} as a support agent.');
+    expect(response.body.partials).toEqual([]);
+  });
+
+  it('should report a partial that includes itself', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', 'Start. {{> loop}}', {})] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [snippetRow('loop', 'Again {{> loop}}')] })
+      .mockResolvedValueOnce({ rows: [snippetRow('loop', 'Again {{> loop}}')] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${childId}/rendered`)
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.message).toBe('Partial cycle detected: "Refund reply" -> {{> loop}} -> {{> loop}}');
+  });
+
+  it('should report circular inheritance', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', 'Reply.', { extendsId: baseId })] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [baseRow({ extendsId: childId })] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${childId}/rendered`)
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.message).toBe('Inheritance cycle detected: "Refund reply" -> "Support base" -> "Refund reply"');
+  });
+
+  it('should report an unknown snippet', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', '{{> missing}} Reply.', {})] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${childId}/rendered`)
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.message).toBe('Unknown partial {{> missing}}: there is no snippet with that name');
+  });
+});
+
+describe('PUT /api/prompts/:id with extendsId', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should refuse a base prompt that already extends the prompt', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Refund reply', 'Reply.', {})] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [baseRow({ extendsId: childId })] })  // SELECT base with access
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });  // inheritance chain lookup
+
+    const response = await request(app)
+      .put(`/api/prompts/${childId}`)
+      .set('Authorization', auth)
+      .send({ extendsId: baseId })
+      .expect(400);
+
+    expect(response.body.message).toBe('A prompt cannot extend itself or a prompt that extends it');
+    expect(mockQuery.mock.calls[3][1]).toEqual([baseId, childId]);
+    expect(mockQuery).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('/api/snippets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should create a snippet with a normalized name', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+      rows: [{ ...snippetRow(values[1], values[3]), description: values[2] }]
+    }));
+
+    const response = await request(app)
+      .post('/api/snippets')
+      .set('Authorization', auth)
+      .send({ name: ' Safety-Preamble ', body: 'Never share card numbers.' })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ name: 'safety-preamble', description: '', body: 'Never share card numbers.' });
+  });
+
+  it('should return 400 for a name that cannot be used in a partial', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post('/api/snippets')
+      .set('Authorization', auth)
+      .send({ name: 'safety preamble', body: 'Text' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Snippet name may only contain letters, digits, "-" and "_", and must start with a letter or digit');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 400 for a duplicate name', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+    const response = await request(app)
+      .post('/api/snippets')
+      .set('Authorization', auth)
+      .send({ name: 'sign-off', body: 'Regards' })
+      .expect(400);
+
+    expect(response.body.message).toBe('A snippet named "sign-off" already exists');
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .get('/api/snippets')
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
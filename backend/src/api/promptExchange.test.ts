@@ -0,0 +1,194 @@
+/**
+ * @file promptExchange.test.ts
+ * @description Integration tests for the /api/prompts/export and /api/prompts/import endpoints.
+ * Covers the interchange formats and the dry-run import report.
+ * Uses mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = (overrides: Record<string, any> = {}) => ({
+  id: promptId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a reply to {{customer}} about their refund.',
+  metadata: {
+    sflField: { topic: 'Billing', taskType: 'Explanation', domainSpecifics: '', keywords: 'refund' },
+    sflTenor: { aiPersona: 'Expert', targetAudience: ['Customers'], desiredTone: 'Friendly', interpersonalStance: '' },
+    sflMode: { outputFormat: 'Plain Text', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' }
+  },
+  visibility: 'public',
+  tags: ['billing'],
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+  ...overrides
+});
+
+describe('GET /api/prompts/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should export a prompt as Markdown with YAML front matter', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [promptRow()] });
+
+    const response = await request(app)
+      .get(`/api/prompts/export?format=markdown&ids=${promptId}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/markdown');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="Refund_reply.md"');
+    expect(response.text).toMatch(/^---\nid: 123e4567-e89b-12d3-a456-426614174000\ntitle: Refund reply\n/);
+    expect(response.text).toContain('## Prompt Text\n\n```\nWrite a reply to {{customer}} about their refund.\n```\n');
+    expect(mockQuery.mock.calls[0][0]).toContain("prompts.visibility = 'public'");
+    expect(mockQuery.mock.calls[0][1]).toEqual([[promptId]]);
+  });
+
+  it('should export OpenAI chat messages with the SFL metadata in the system message', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [promptRow()] });
+
+    const response = await request(app)
+      .get('/api/prompts/export?format=openai')
+      .expect(200);
+
+    expect(JSON.parse(response.text)).toEqual([{
+      name: 'Refund reply',
+      messages: [
+        { role: 'system', content: 'Persona: Expert\nAudience: Customers\nTone: Friendly\nTopic: Billing\nTask type: Explanation\nKeywords: refund\nOutput format: Plain Text' },
+        { role: 'user', content: 'Write a reply to {{customer}} about their refund.' }
+      ]
+    }]);
+  });
+
+  it('should return 400 for an unsupported format', async () => {
+    const response = await request(app)
+      .get('/api/prompts/export?format=csv')
+      .expect(400);
+
+    expect(response.body.message).toBe('format must be one of: json, markdown, openai, promptfoo');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when none of the requested prompts is visible', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .get(`/api/prompts/export?ids=${promptId}`)
+      .expect(404);
+  });
+});
+
+describe('POST /api/prompts/import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post('/api/prompts/import')
+      .send({ format: 'json', content: '[]' })
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should report conflicts, duplicates and invalid SFL fields in a dry run without writing', async () => {
+    const otherId = '223e4567-e89b-12d3-a456-426614174000';
+    const file = [
+      { title: 'Welcome email', promptText: 'Welcome {{name}} aboard.', sflField: { taskType: 'Summarization' } },
+      { id: promptId, title: 'Refund reply', promptText: 'Reply to {{customer}} kindly.' },
+      { id: otherId, title: 'Refund reply', promptText: 'Write a reply to {{customer}} about their refund.' },
+      { title: 'Broken', promptText: 'Text', sflTenor: { targetAudience: 'Developers' } },
+      { title: 'Welcome email', promptText: 'Welcome {{name}} aboard.' }
+    ];
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [promptRow({ visibility: 'private' })] });
+
+    const response = await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({ format: 'json', content: JSON.stringify(file), dryRun: true })
+      .expect(200);
+
+    expect(response.body.dryRun).toBe(true);
+    expect(response.body.summary).toEqual({ create: 1, update: 0, skip: 4 });
+    expect(response.body.items.map((item: any) => [item.status, item.action])).toEqual([
+      ['new', 'create'],
+      ['conflict', 'skip'],
+      ['duplicate', 'skip'],
+      ['invalid', 'skip'],
+      ['duplicate', 'skip']
+    ]);
+    expect(response.body.items[1].existingId).toBe(promptId);
+    expect(response.body.items[3].errors).toEqual([expect.stringContaining('sflTenor.targetAudience')]);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][1]).toEqual([userId, [promptId, otherId], ['welcome email', 'refund reply']]);
+  });
+
+  it('should overwrite a conflicting prompt the user owns when asked to', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [promptRow({ visibility: 'private' })] });
+
+    const response = await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({
+        format: 'json',
+        content: JSON.stringify([{ id: promptId, title: 'Refund reply', promptText: 'Reply to {{customer}} kindly.' }]),
+        onConflict: 'overwrite',
+        dryRun: true
+      })
+      .expect(200);
+
+    expect(response.body.items[0]).toMatchObject({ status: 'conflict', action: 'update', existingId: promptId });
+  });
+
+  it('should create the prompts of a Markdown file', async () => {
+    const content = '---\ntitle: Greeting\nsflTenor:\n  aiPersona: Friendly Assistant\n---\n# Greeting\n\n## Prompt Text\n\n```\nSay hello to {{name}}.\n```\n';
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] })  // SELECT existing prompts
+      .mockResolvedValueOnce({ rows: [promptRow({ id: 'p-new', title: 'Greeting', body: 'Say hello to {{name}}.', visibility: 'private' })] })  // INSERT prompt
+      .mockResolvedValueOnce({ rows: [{ id: 'rev-1' }] })  // INSERT revision
+      .mockResolvedValueOnce({ rows: [] });  // UPSERT embedding
+
+    const response = await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({ content })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ format: 'markdown', dryRun: false, summary: { create: 1, update: 0, skip: 0 } });
+    expect(response.body.items[0].promptId).toBe('p-new');
+    expect(mockQuery.mock.calls[2][1]).toEqual([
+      userId,
+      'Greeting',
+      'Say hello to {{name}}.',
+      expect.objectContaining({ sflTenor: { aiPersona: 'Friendly Assistant', targetAudience: [], desiredTone: '', interpersonalStance: '' } }),
+      'private'
+    ]);
+  });
+
+  it('should return 400 for a promptfoo file without a prompt list', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post('/api/prompts/import')
+      .set('Authorization', auth)
+      .send({ format: 'promptfoo', content: 'providers:\n  - openai:gpt-4o\n' })
+      .expect(400);
+
+    expect(response.body.message).toBe('A promptfoo file must contain a list of prompts');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @file promptForks.test.ts
+ * @description Integration tests for forking prompts and reading their fork lineage
+ * (/api/prompts/:id/fork and /api/prompts/:id/lineage).
+ * Uses a mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const otherUserId = '00000000-0000-0000-0000-000000000002';
+const sourceId = '123e4567-e89b-12d3-a456-426614174000';
+const forkId = '223e4567-e89b-12d3-a456-426614174000';
+const nestedForkId = '323e4567-e89b-12d3-a456-426614174000';
+
+const sourceRow = {
+  id: sourceId,
+  user_id: otherUserId,
+  title: 'Refund reply',
+  body: 'Write a refund reply to {{customer}}.',
+  metadata: {
+    sflField: { topic: 'Support', taskType: '', domainSpecifics: '', keywords: '' },
+    variables: [{ name: 'customer', type: 'string', required: true }],
+  },
+  visibility: 'public',
+  forked_from_id: null,
+  forked_from_revision: null,
+  tags: ['support'],
+  access: 'public',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+};
+
+describe('POST /api/prompts/:id/fork', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should copy the prompt into a private fork that records its source revision', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockImplementation((sql: string, values: any[]) => {
+      if (sql.includes('MAX(revision_number) AS revision_number')) return Promise.resolve({ rows: [{ revision_number: 4 }] });
+      if (sql.startsWith('INSERT INTO prompts')) {
+        return Promise.resolve({
+          rows: [{
+            id: forkId, user_id: values[0], title: values[1], body: values[2], metadata: values[3], visibility: 'private',
+            forked_from_id: values[4], forked_from_revision: values[5], created_at: '2024-02-01T00:00:00Z', updated_at: '2024-02-01T00:00:00Z'
+          }]
+        });
+      }
+      if (sql.startsWith('INSERT INTO prompt_revisions')) {
+        return Promise.resolve({ rows: [{ id: 'revision-1', prompt_id: forkId, revision_number: 1, user_id: userId, title: values[2], body: values[3], metadata: values[4], created_at: '2024-02-01T00:00:00Z' }] });
+      }
+      if (sql.includes('FROM prompts WHERE id = $1')) return Promise.resolve({ rows: [sourceRow] });
+      if (sql.includes('FROM tags')) return Promise.resolve({ rows: [{ id: 'tag-1', name: 'support' }] });
+      return Promise.resolve({ rows: [] });
+    });
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/fork`)
+      .set('Authorization', auth)
+      .send({})
+      .expect(201);
+
+    const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.startsWith('INSERT INTO prompts'));
+    expect(insert[1]).toEqual([userId, 'Refund reply (fork)', sourceRow.body, sourceRow.metadata, sourceId, 4]);
+    expect(response.body).toMatchObject({
+      id: forkId,
+      title: 'Refund reply (fork)',
+      promptText: sourceRow.body,
+      ownerId: userId,
+      visibility: 'private',
+      access: 'owner',
+      forkedFromId: sourceId,
+      forkedFromRevision: 4,
+      sharedWith: []
+    });
+  });
+
+  it('should use the given title for the fork', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...sourceRow, tags: [] }] })  // SELECT source with access
+      .mockResolvedValueOnce({ rows: [{ revision_number: null }] })  // SELECT latest revision
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [{ ...sourceRow, id: forkId, user_id: userId, title: values[1], visibility: 'private', forked_from_id: sourceId, forked_from_revision: values[5] }]
+      }))
+      .mockResolvedValue({ rows: [{}] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/fork`)
+      .set('Authorization', auth)
+      .send({ title: '  Refund reply (formal)  ' })
+      .expect(201);
+
+    expect(response.body.title).toBe('Refund reply (formal)');
+    expect(response.body.forkedFromRevision).toBeUndefined();
+  });
+
+  it('should reject an empty title', async () => {
+    const auth = authAs(userId);
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/fork`)
+      .set('Authorization', auth)
+      .send({ title: '   ' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Title cannot be empty');
+  });
+
+  it('should return 404 for a prompt the user cannot see', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [{ ...sourceRow, access: null }] });
+
+    await request(app)
+      .post(`/api/prompts/${sourceId}/fork`)
+      .set('Authorization', auth)
+      .expect(404);
+
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post(`/api/prompts/${sourceId}/fork`)
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/prompts/:id/lineage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should return the ancestors and descendants and flag forks whose parent changed', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...sourceRow, id: forkId, user_id: userId, access: 'owner' }] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: forkId, title: 'Refund reply (fork)', user_id: userId, forked_from_id: sourceId, forked_from_revision: 4, depth: 0, relation: 'self', latest_revision: '2' },
+          { id: sourceId, title: 'Refund reply', user_id: otherUserId, forked_from_id: null, forked_from_revision: null, depth: 1, relation: 'ancestor', latest_revision: '6' },
+          { id: nestedForkId, title: 'Refund reply (nested)', user_id: userId, forked_from_id: forkId, forked_from_revision: 2, depth: 1, relation: 'descendant', latest_revision: '1' },
+        ]
+      });
+
+    const response = await request(app)
+      .get(`/api/prompts/${forkId}/lineage`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.prompt).toMatchObject({ id: forkId, parentId: sourceId, forkedFromRevision: 4, latestRevision: 2, upstreamChanged: true });
+    expect(response.body.ancestors).toEqual([
+      { id: sourceId, title: 'Refund reply', ownerId: otherUserId, parentId: null, forkedFromRevision: null, latestRevision: 6, upstreamChanged: false, depth: 1 }
+    ]);
+    expect(response.body.descendants).toEqual([
+      { id: nestedForkId, title: 'Refund reply (nested)', ownerId: userId, parentId: forkId, forkedFromRevision: 2, latestRevision: 1, upstreamChanged: false, depth: 1 }
+    ]);
+  });
+
+  it('should return 404 for a prompt the user cannot see', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .get(`/api/prompts/${forkId}/lineage`)
+      .expect(404);
+
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @file promptLint.test.ts
+ * @description Integration tests for the /api/prompts/lint endpoint.
+ * Covers the built-in rules and disabling rules. Linting never touches the database.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery } from '../tests/mockDatabase';
+
+const consistentPrompt = {
+  title: 'Ticket summary',
+  promptText: 'Summarize the support ticket {{ticket}} as JSON with the fields "refund" and "urgency".',
+  sflField: { topic: 'Support', taskType: 'Summarization', domainSpecifics: '', keywords: 'refund, urgency' },
+  sflTenor: { aiPersona: 'Expert', targetAudience: ['Business Professionals'], desiredTone: 'Objective', interpersonalStance: '' },
+  sflMode: { outputFormat: 'JSON', rhetoricalStructure: '', lengthConstraint: 'Short Paragraph (~50 words)', textualDirectives: '' },
+  variables: [{ name: 'ticket', type: 'multiline', required: true }]
+};
+
+describe('POST /api/prompts/lint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should report no diagnostics for a consistent prompt', async () => {
+    const response = await request(app)
+      .post('/api/prompts/lint')
+      .send(consistentPrompt)
+      .expect(200);
+
+    expect(response.body).toEqual({ diagnostics: [] });
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should report inconsistencies between the SFL fields and the prompt text, errors first', async () => {
+    const response = await request(app)
+      .post('/api/prompts/lint')
+      .send({
+        ...consistentPrompt,
+        promptText: 'Tell {{reader}} a story about a refund.',
+        sflTenor: { ...consistentPrompt.sflTenor, targetAudience: ['Children (5-7 years)'], desiredTone: 'Formal' },
+        sflMode: { ...consistentPrompt.sflMode, lengthConstraint: '' }
+      })
+      .expect(200);
+
+    expect(response.body.diagnostics.map((diagnostic: any) => [diagnostic.ruleId, diagnostic.severity, diagnostic.field])).toEqual([
+      ['undeclared-placeholder', 'error', 'promptText'],
+      ['unused-variable', 'warning', 'variables'],
+      ['output-format-mentioned', 'warning', 'sflMode.outputFormat'],
+      ['audience-tone-conflict', 'warning', 'sflTenor.desiredTone'],
+      ['length-constraint-missing', 'info', 'sflMode.lengthConstraint'],
+      ['keywords-absent', 'info', 'sflField.keywords']
+    ]);
+    expect(response.body.diagnostics[0].message).toBe('The placeholder {{reader}} is not declared as a variable.');
+    expect(response.body.diagnostics[5].message).toBe('The prompt text never mentions the keyword "urgency".');
+  });
+
+  it('should skip the rules listed in the disable query parameter', async () => {
+    const response = await request(app)
+      .post('/api/prompts/lint?disable=length-constraint-missing,keywords-absent')
+      .send({ promptText: 'Write something.', sflField: { keywords: 'refund' } })
+      .expect(200);
+
+    expect(response.body).toEqual({ diagnostics: [] });
+  });
+
+  it('should return 400 for SFL fields of the wrong type', async () => {
+    const response = await request(app)
+      .post('/api/prompts/lint')
+      .send({ promptText: 'Text', sflTenor: { targetAudience: 'Developers' } })
+      .expect(400);
+
+    expect(response.body.message).toContain('sflTenor.targetAudience');
+  });
+});
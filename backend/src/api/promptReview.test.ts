@@ -0,0 +1,371 @@
+/**
+ * @file promptReview.test.ts
+ * @description Integration tests for the prompt review lifecycle (/api/prompts/:id/review and
+ * /api/prompts/:id/comments) and for workflows that only run approved prompts.
+ * Uses a mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+
+const ownerId = '00000000-0000-0000-0000-000000000001';
+const reviewerId = '00000000-0000-0000-0000-000000000002';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+const commentId = '223e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = {
+  id: promptId,
+  user_id: ownerId,
+  title: 'Refund reply',
+  body: 'Write a refund reply.',
+  metadata: {},
+  visibility: 'shared',
+  status: 'draft',
+  reviewer_id: reviewerId,
+  tags: [],
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+};
+
+/**
+ * Answers the prompt lookups of `PromptService.getPromptById` with the given row, giving the owner
+ * `owner` access and everyone else `shared` access, and every other query with the given fallback.
+ */
+const routeQueries = (row: Record<string, any>, fallback: (sql: string, values: any[]) => any = () => ({ rows: [] })) => {
+  mockQuery.mockImplementation((sql: string, values: any[]) => {
+    if (sql.includes('FROM prompts WHERE id = $1 AND deleted_at IS NULL')) {
+      return Promise.resolve({ rows: [{ ...row, access: values[1] === row.user_id ? 'owner' : 'shared' }] });
+    }
+    if (sql.includes('FROM prompt_shares s JOIN users')) return Promise.resolve({ rows: [{ email: 'reviewer@example.com' }] });
+    return Promise.resolve(fallback(sql, values));
+  });
+};
+
+describe('/api/prompts/:id/review', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should return the status, reviewer and audit trail', async () => {
+    routeQueries({ ...promptRow, visibility: 'public', status: 'approved' }, sql => {
+      if (sql.startsWith('SELECT email FROM users')) return { rows: [{ email: 'reviewer@example.com' }] };
+      if (sql.includes('FROM prompt_status_events')) {
+        return {
+          rows: [{
+            id: 'event-1', from_status: 'in_review', to_status: 'approved', reviewer_email: 'reviewer@example.com',
+            note: 'Matches the refund policy', created_by_email: 'reviewer@example.com', created_at: '2024-01-03T00:00:00Z'
+          }]
+        };
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/review`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      status: 'approved',
+      reviewer: 'reviewer@example.com',
+      history: [{
+        id: 'event-1', fromStatus: 'in_review', toStatus: 'approved', reviewer: 'reviewer@example.com',
+        note: 'Matches the refund policy', changedBy: 'reviewer@example.com', createdAt: '2024-01-03T00:00:00Z'
+      }]
+    });
+  });
+
+  describe('PUT /api/prompts/:id/review/reviewer', () => {
+    it('should assign a reviewer who can see the prompt', async () => {
+      const auth = authAs(ownerId);
+      routeQueries({ ...promptRow, reviewer_id: null }, sql => {
+        if (sql.startsWith('SELECT id FROM users')) return { rows: [{ id: reviewerId }] };
+        if (sql.startsWith('SELECT email FROM users')) return { rows: [{ email: 'reviewer@example.com' }] };
+        return { rows: [] };
+      });
+
+      const response = await request(app)
+        .put(`/api/prompts/${promptId}/review/reviewer`)
+        .set('Authorization', auth)
+        .send({ reviewer: ' Reviewer@Example.com ' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'draft', reviewer: 'reviewer@example.com' });
+      expect(mockQuery).toHaveBeenCalledWith('SELECT id FROM users WHERE email = $1', ['reviewer@example.com']);
+      expect(mockQuery).toHaveBeenCalledWith('UPDATE prompts SET reviewer_id = $1 WHERE id = $2', [reviewerId, promptId]);
+    });
+
+    it('should reject a reviewer who cannot see the prompt', async () => {
+      const auth = authAs(ownerId);
+      mockQuery.mockImplementation((sql: string, values: any[]) => {
+        if (sql.includes('FROM prompts WHERE id = $1 AND deleted_at IS NULL')) {
+          return Promise.resolve({ rows: [{ ...promptRow, visibility: 'private', access: values[1] === ownerId ? 'owner' : null }] });
+        }
+        if (sql.startsWith('SELECT id FROM users')) return Promise.resolve({ rows: [{ id: reviewerId }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      const response = await request(app)
+        .put(`/api/prompts/${promptId}/review/reviewer`)
+        .set('Authorization', auth)
+        .send({ reviewer: 'reviewer@example.com' })
+        .expect(400);
+
+      expect(response.body.message).toBe('The reviewer cannot see this prompt; share it with them first');
+    });
+
+    it('should not let the owner review their own prompt', async () => {
+      const auth = authAs(ownerId);
+      routeQueries(promptRow, sql => sql.startsWith('SELECT id FROM users') ? { rows: [{ id: ownerId }] } : { rows: [] });
+
+      const response = await request(app)
+        .put(`/api/prompts/${promptId}/review/reviewer`)
+        .set('Authorization', auth)
+        .send({ reviewer: 'owner@example.com' })
+        .expect(400);
+
+      expect(response.body.message).toBe('You cannot review your own prompt');
+    });
+
+    it('should only let the owner assign a reviewer', async () => {
+      const auth = authAs(reviewerId);
+      routeQueries(promptRow);
+
+      await request(app)
+        .put(`/api/prompts/${promptId}/review/reviewer`)
+        .set('Authorization', auth)
+        .send({ reviewer: 'someone@example.com' })
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/prompts/:id/review/status', () => {
+    it('should send a draft for review and record the transition', async () => {
+      const auth = authAs(ownerId);
+      routeQueries(promptRow);
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .set('Authorization', auth)
+        .send({ status: 'in_review', note: ' Ready for sign-off ' })
+        .expect(200);
+
+      expect(response.body.status).toBe('in_review');
+      expect(mockQuery).toHaveBeenCalledWith('UPDATE prompts SET status = $1 WHERE id = $2', ['in_review', promptId]);
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO prompt_status_events'));
+      expect(insert[1]).toEqual([promptId, 'draft', 'in_review', reviewerId, 'Ready for sign-off', ownerId]);
+    });
+
+    it('should require a reviewer before sending a prompt for review', async () => {
+      const auth = authAs(ownerId);
+      routeQueries({ ...promptRow, reviewer_id: null });
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .set('Authorization', auth)
+        .send({ status: 'in_review' })
+        .expect(400);
+
+      expect(response.body.message).toBe('Assign a reviewer before sending the prompt for review');
+    });
+
+    it('should let the assigned reviewer approve the prompt', async () => {
+      const auth = authAs(reviewerId);
+      routeQueries({ ...promptRow, status: 'in_review' });
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .set('Authorization', auth)
+        .send({ status: 'approved' })
+        .expect(200);
+
+      expect(response.body.status).toBe('approved');
+    });
+
+    it('should not let the owner approve their own prompt', async () => {
+      const auth = authAs(ownerId);
+      routeQueries({ ...promptRow, status: 'in_review' });
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .set('Authorization', auth)
+        .send({ status: 'approved' })
+        .expect(403);
+
+      expect(response.body.message).toBe('Only the assigned reviewer can approve this prompt');
+      expect(mockQuery.mock.calls.some(([sql]: [string]) => sql.startsWith('UPDATE prompts SET status'))).toBe(false);
+    });
+
+    it('should reject transitions the lifecycle does not allow', async () => {
+      const auth = authAs(ownerId);
+      routeQueries(promptRow);
+
+      const response = await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .set('Authorization', auth)
+        .send({ status: 'approved' })
+        .expect(400);
+
+      expect(response.body.message).toBe('A prompt cannot move from draft to approved');
+    });
+
+    it('should return 401 when not signed in', async () => {
+      await request(app)
+        .post(`/api/prompts/${promptId}/review/status`)
+        .send({ status: 'in_review' })
+        .expect(401);
+    });
+  });
+
+  it('should send an approved prompt back to draft when its content is edited', async () => {
+    const auth = authAs(ownerId);
+    routeQueries({ ...promptRow, status: 'approved' }, (sql, values) => {
+      if (sql.startsWith('UPDATE prompts SET title')) return { rows: [{ ...promptRow, status: 'approved', body: values[1] }] };
+      if (sql.startsWith('INSERT INTO prompt_revisions')) return { rows: [{ id: 'revision-2', prompt_id: promptId, revision_number: 2, metadata: {} }] };
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .put(`/api/prompts/${promptId}`)
+      .set('Authorization', auth)
+      .send({ promptText: 'Write a short refund reply.' })
+      .expect(200);
+
+    expect(response.body.status).toBe('draft');
+    const reopen = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO prompt_status_events'));
+    expect(reopen[0]).toContain("UPDATE prompts SET status = 'draft'");
+    expect(reopen[1]).toEqual([promptId, 'approved', 'Edited after approval', ownerId]);
+  });
+});
+
+describe('/api/prompts/:id/comments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list the comments with their authors', async () => {
+    routeQueries({ ...promptRow, visibility: 'public' }, sql => sql.includes('FROM prompt_comments c') ? {
+      rows: [
+        { id: commentId, prompt_id: promptId, parent_id: null, body: 'Mention the 14 day limit', author_email: 'reviewer@example.com', created_by: reviewerId, created_at: '2024-01-03T00:00:00Z' },
+        { id: 'comment-2', prompt_id: promptId, parent_id: commentId, body: 'Added', author_email: 'owner@example.com', created_by: ownerId, created_at: '2024-01-04T00:00:00Z' },
+      ]
+    } : { rows: [] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/comments`)
+      .expect(200);
+
+    expect(response.body).toHaveLength(2);
+    expect(response.body[1]).toEqual({
+      id: 'comment-2', promptId, parentId: commentId, body: 'Added', author: 'owner@example.com', createdBy: ownerId, createdAt: '2024-01-04T00:00:00Z'
+    });
+  });
+
+  it('should add a reply to a comment on the same prompt', async () => {
+    const auth = authAs(reviewerId);
+    routeQueries(promptRow, (sql, values) => {
+      if (sql.startsWith('SELECT id FROM prompt_comments')) return { rows: [{ id: commentId }] };
+      if (sql.includes('INSERT INTO prompt_comments')) {
+        return { rows: [{ id: 'comment-3', prompt_id: values[0], parent_id: values[1], body: values[2], created_by: values[3], author_email: 'reviewer@example.com', created_at: '2024-01-05T00:00:00Z' }] };
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/comments`)
+      .set('Authorization', auth)
+      .send({ body: '  Looks good now  ', parentId: commentId })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ parentId: commentId, body: 'Looks good now', author: 'reviewer@example.com' });
+  });
+
+  it('should reject a reply to a comment on another prompt', async () => {
+    const auth = authAs(reviewerId);
+    routeQueries(promptRow);
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/comments`)
+      .set('Authorization', auth)
+      .send({ body: 'Reply', parentId: commentId })
+      .expect(400);
+
+    expect(response.body.message).toBe('The comment being answered does not belong to this prompt');
+  });
+
+  it('should reject an empty comment', async () => {
+    const auth = authAs(reviewerId);
+    routeQueries(promptRow);
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/comments`)
+      .set('Authorization', auth)
+      .send({ body: '   ' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Comment cannot be empty');
+  });
+});
+
+describe('workflows restricted to approved prompts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  const workflow = {
+    id: 'workflow-1',
+    name: 'Refunds',
+    requireApprovedPrompts: true,
+    tasks: [{ id: 'task-1', name: 'Reply', type: 'GEMINI_PROMPT', dependencies: [], inputKeys: [], outputKey: 'reply', promptId }]
+  };
+
+  it('should refuse to run a workflow with a prompt that is not approved', async () => {
+    const auth = authAs(ownerId);
+    routeQueries({ ...promptRow, status: 'in_review' });
+
+    const response = await request(app)
+      .post('/api/workflows/execute')
+      .set('Authorization', auth)
+      .send({ workflow, userInput: {} })
+      .expect(409);
+
+    expect(response.body.message).toBe('This workflow only runs approved prompts. Not approved: Refund reply');
+    expect(response.body.prompts).toEqual([{ id: promptId, title: 'Refund reply', status: 'in_review' }]);
+  });
+
+  const storedWorkflowId = '323e4567-e89b-12d3-a456-426614174000';
+  const storedWorkflows = (sql: string) => sql.startsWith('SELECT * FROM workflows WHERE id = $1')
+    ? { rows: [{ id: storedWorkflowId, user_id: ownerId, name: 'Refunds', graph_data: { tasks: workflow.tasks, requireApprovedPrompts: true } }] }
+    : { rows: [] };
+
+  it('should refuse to run a single task of a stored workflow with a prompt that is not approved', async () => {
+    const auth = authAs(ownerId);
+    routeQueries(promptRow, storedWorkflows);
+
+    const response = await request(app)
+      .post('/api/workflows/run-task')
+      .set('Authorization', auth)
+      .send({ task: workflow.tasks[0], dataStore: {}, workflowId: storedWorkflowId })
+      .expect(409);
+
+    expect(response.body.message).toBe('Prompt "Refund reply" must be approved before this workflow can run it');
+  });
+
+  it('should not let a client turn off the requirement of a stored workflow', async () => {
+    const auth = authAs(ownerId);
+    routeQueries(promptRow, storedWorkflows);
+
+    await request(app)
+      .post('/api/workflows/execute')
+      .set('Authorization', auth)
+      .send({ workflow: { ...workflow, id: storedWorkflowId, requireApprovedPrompts: false }, userInput: {} })
+      .expect(409);
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * @file promptRuns.test.ts
+ * @description Integration tests for the /api/prompts/:id/runs endpoints.
+ * Covers recording successful and failed test runs, variable validation, listing the history,
+ * pinning a run as the prompt's example output and judging a run's response against the prompt's SFL declaration.
+ * Uses mocked database and provider factory to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn(() => true),
+    createService: jest.fn(),
+  },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const otherUserId = '00000000-0000-0000-0000-000000000002';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+const runId = '323e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = (access = 'owner', metadata: Record<string, any> = {}) => ({
+  id: promptId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a refund reply to {{customer}} about {{product}}.',
+  metadata: {
+    sflField: { topic: 'Support', taskType: '', domainSpecifics: '', keywords: '' },
+    sflTenor: { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
+    sflMode: { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+    variables: [{ name: 'customer', type: 'string', required: true }, { name: 'product', type: 'string', required: false, defaultValue: 'Pro' }],
+    ...metadata
+  },
+  visibility: 'private',
+  tags: [],
+  access,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+});
+
+const runRow = (overrides: Record<string, any> = {}) => ({
+  id: runId,
+  prompt_id: promptId,
+  rendered_prompt: 'Write a refund reply to Ana about Pro.',
+  variables: { customer: 'Ana' },
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  parameters: { temperature: 0.2 },
+  response_text: 'Dear Ana, your refund is on its way.',
+  usage: { promptTokens: 12, completionTokens: 9, totalTokens: 21 },
+  latency_ms: 420,
+  error: null,
+  created_by: userId,
+  created_at: '2024-01-03T00:00:00Z',
+  ...overrides
+});
+
+describe('POST /api/prompts/:id/runs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should run the rendered prompt and record the run', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = jest.fn().mockResolvedValue({
+      text: 'Dear Ana, your refund is on its way.',
+      model: 'gpt-4o-mini',
+      usage: { promptTokens: 12, completionTokens: 9, totalTokens: 21 },
+      processingTime: 420
+    });
+    mockCreateService.mockReturnValue({ generateCompletion });
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [runRow()] });  // INSERT run
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .send({ variables: { customer: 'Ana' }, provider: 'openai', model: 'gpt-4o-mini', parameters: { temperature: 0.2 }, apiKey: 'sk-test' })
+      .expect(201);
+
+    expect(generateCompletion.mock.calls[0][0]).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      prompt: 'Write a refund reply to Ana about Pro.'
+    });
+    const insertValues = mockQuery.mock.calls[3][1];
+    expect(insertValues.slice(0, 11)).toEqual([
+      promptId,
+      'Write a refund reply to Ana about Pro.',
+      JSON.stringify({ customer: 'Ana' }),
+      'openai',
+      'gpt-4o-mini',
+      JSON.stringify({ temperature: 0.2 }),
+      'Dear Ana, your refund is on its way.',
+      JSON.stringify({ promptTokens: 12, completionTokens: 9, totalTokens: 21 }),
+      420,
+      null,
+      userId
+    ]);
+    expect(response.body).toMatchObject({
+      id: runId,
+      renderedPrompt: 'Write a refund reply to Ana about Pro.',
+      responseText: 'Dear Ana, your refund is on its way.',
+      latencyMs: 420,
+      error: null
+    });
+  });
+
+  it('should record a failed model call with its error', async () => {
+    const auth = authAs(userId);
+    mockCreateService.mockReturnValue({ generateCompletion: jest.fn().mockRejectedValue(new Error('Invalid API key')) });
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({
+        rows: [runRow({ response_text: values[6], usage: values[7], latency_ms: values[8], error: values[9] })]
+      }));
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .send({ variables: { customer: 'Ana' }, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'bad-key' })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ responseText: '', usage: null, error: 'Invalid API key' });
+  });
+
+  it('should return 400 without recording when a required variable is missing', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .send({ variables: { product: 'Team' }, provider: 'openai' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Variable "customer" is required');
+    expect(mockCreateService).not.toHaveBeenCalled();
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post(`/api/prompts/${promptId}/runs`)
+      .send({ variables: { customer: 'Ana' } })
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/prompts/:id/runs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list the runs newest first with a capped limit', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [runRow()] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/runs?limit=500`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({ provider: 'openai', usage: { totalTokens: 21 } });
+    expect(mockQuery.mock.calls[3][1]).toEqual([promptId, 100]);
+  });
+
+  it("should list only the user's own runs of someone else's prompt", async () => {
+    const auth = authAs(otherUserId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...promptRow('public'), visibility: 'public' }] })
+      .mockResolvedValueOnce({ rows: [runRow({ created_by: otherUserId })] });
+
+    await request(app)
+      .get(`/api/prompts/${promptId}/runs`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(mockQuery.mock.calls[2]).toEqual([
+      'SELECT * FROM prompt_runs WHERE prompt_id = $1 AND created_by = $3 ORDER BY created_at DESC LIMIT $2',
+      [promptId, 20, otherUserId]
+    ]);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .get(`/api/prompts/${promptId}/runs`)
+      .expect(401);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/prompts/:id/runs/:runId/pin', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should make the response of the run the example output', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockImplementation((sql: string, values: any[]) => {
+      if (sql.includes('FROM prompt_runs')) return Promise.resolve({ rows: [runRow()] });
+      if (sql.startsWith('UPDATE prompts')) {
+        return Promise.resolve({ rows: [{ ...promptRow(), title: values[0], body: values[1], metadata: values[2] }] });
+      }
+      if (sql.startsWith('INSERT INTO prompt_revisions')) {
+        return Promise.resolve({ rows: [{ id: 'revision-2', prompt_id: promptId, revision_number: 2, user_id: userId, title: values[2], body: values[3], metadata: values[4], created_at: '2024-01-03T00:00:00Z' }] });
+      }
+      if (sql.includes('FROM prompts')) return Promise.resolve({ rows: [promptRow()] });
+      return Promise.resolve({ rows: [] });
+    });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/pin`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.exampleOutput).toBe('Dear Ana, your refund is on its way.');
+  });
+
+  it('should refuse to pin a failed run', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [runRow({ response_text: '', error: 'Invalid API key' })] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/pin`)
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.message).toBe('Only successful runs can be pinned as the example output');
+  });
+
+  it("should return 404 without pinning another user's run for a shared editor", async () => {
+    const auth = authAs(otherUserId);
+    mockQuery.mockImplementation((sql: string) => {
+      if (sql.includes('FROM prompt_runs')) return Promise.resolve({ rows: [runRow()] });
+      if (sql.includes('FROM prompts')) return Promise.resolve({ rows: [{ ...promptRow('shared'), visibility: 'shared' }] });
+      return Promise.resolve({ rows: [] });
+    });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/pin`)
+      .set('Authorization', auth)
+      .expect(404);
+
+    expect(response.body.message).toBe('Run not found');
+    expect(mockQuery.mock.calls.some(([sql]: [string]) => sql.startsWith('UPDATE prompts'))).toBe(false);
+  });
+
+  it('should return 403 for a public prompt of someone else', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow('public')] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [runRow()] })  // SELECT run
+      .mockResolvedValueOnce({ rows: [promptRow('public')] });  // SELECT prompt for update
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/pin`)
+      .set('Authorization', auth)
+      .expect(403);
+
+    expect(response.body.message).toBe('Public prompts can only be edited by their owner');
+  });
+});
+
+describe('POST /api/prompts/:id/runs/:runId/judgement', () => {
+  const declared = {
+    sflTenor: { aiPersona: '', targetAudience: ['Customers'], desiredTone: 'Warm', interpersonalStance: '' },
+    sflMode: { outputFormat: 'Plain text', rhetoricalStructure: '', lengthConstraint: 'Under 50 words', textualDirectives: '' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should score every declared dimension in JSON mode and store the rubric with the run', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = jest.fn().mockResolvedValue({
+      text: JSON.stringify({ scores: [
+        { dimension: 'tone', score: 5, justification: 'Friendly and reassuring.' },
+        { dimension: 'length', score: 5, justification: 'Eight words.' },
+        { dimension: 'format', score: 4, justification: 'Plain text with a greeting.' },
+        { dimension: 'audience', score: 3, justification: 'Fine for customers, if terse.' },
+      ] }),
+      model: 'gpt-4o',
+      processingTime: 800
+    });
+    mockCreateService.mockReturnValue({ generateCompletion });
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow('owner', declared)] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [runRow()] })  // SELECT run
+      .mockImplementationOnce((_sql: string, values: any[]) => Promise.resolve({ rows: [runRow({ judgement: JSON.parse(values[0]) })] }));
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .send({ provider: 'openai', model: 'gpt-4o', apiKey: 'sk-test' })
+      .expect(200);
+
+    const sent = generateCompletion.mock.calls[0][0];
+    expect(sent.forceJsonMode).toBe(true);
+    expect(sent.model).toBe('gpt-4o');
+    expect(sent.prompt).toContain('- tone: Is the response written in this tone? Declared: "Warm"');
+    expect(sent.prompt).not.toContain('- structure:');
+    expect(sent.prompt).toContain('<response>\nDear Ana, your refund is on its way.\n</response>');
+
+    expect(mockQuery.mock.calls[4][0]).toBe('UPDATE prompt_runs SET judgement = $1 WHERE id = $2 RETURNING *');
+    expect(response.body.judgement).toMatchObject({
+      overallScore: 4.3,
+      judgeProvider: 'openai',
+      judgeModel: 'gpt-4o',
+      scores: [
+        { dimension: 'tone', criterion: 'Warm', score: 5, justification: 'Friendly and reassuring.' },
+        { dimension: 'length', criterion: 'Under 50 words', score: 5, justification: 'Eight words.' },
+        { dimension: 'format', criterion: 'Plain text', score: 4, justification: 'Plain text with a greeting.' },
+        { dimension: 'audience', criterion: 'Customers', score: 3, justification: 'Fine for customers, if terse.' },
+      ]
+    });
+  });
+
+  it('should reject a rubric that leaves out a declared dimension without storing it', async () => {
+    const auth = authAs(userId);
+    mockCreateService.mockReturnValue({
+      generateCompletion: jest.fn().mockResolvedValue({
+        text: '{"scores": [{"dimension": "tone", "score": 4, "justification": "Warm."}]}',
+        model: 'gpt-4o',
+        processingTime: 800
+      })
+    });
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow('owner', declared)] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [runRow()] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .send({ provider: 'openai', apiKey: 'sk-test' })
+      .expect(400);
+
+    expect(response.body.message).toBe('The judge model did not score the length');
+    expect(mockQuery).toHaveBeenCalledTimes(4);
+  });
+
+  it('should refuse to judge a prompt that declares nothing to judge against', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [runRow()] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .send({ provider: 'openai', apiKey: 'sk-test' })
+      .expect(400);
+
+    expect(response.body.message).toBe('The prompt declares no tone, length, format, structure or audience to judge the response against');
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to judge a failed run', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow('owner', declared)] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [runRow({ response_text: '', error: 'Invalid API key' })] });
+
+    const response = await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.message).toBe('Only successful runs can be judged');
+  });
+
+  it("should return 404 without judging another user's run of someone else's prompt", async () => {
+    const auth = authAs(otherUserId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...promptRow('public', declared), visibility: 'public' }] })
+      .mockResolvedValueOnce({ rows: [runRow()] });
+
+    await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .send({ provider: 'openai', apiKey: 'sk-test' })
+      .expect(404);
+
+    expect(mockCreateService).not.toHaveBeenCalled();
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return 404 for an unknown run', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow('owner', declared)] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .post(`/api/prompts/${promptId}/runs/${runId}/judgement`)
+      .set('Authorization', auth)
+      .expect(404);
+  });
+});
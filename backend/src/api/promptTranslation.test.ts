@@ -0,0 +1,263 @@
+/**
+ * @file promptTranslation.test.ts
+ * @description Integration tests for translating prompts into locale variants and listing them
+ * (/api/prompts/:id/translations and /api/prompts/:id/locales), and for the library's locale filter.
+ * Covers preserving placeholders and partial references and rejecting translations that damaged one.
+ * Uses mocked database and provider factory to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn(() => true),
+    createService: jest.fn(),
+  },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const otherUserId = '00000000-0000-0000-0000-000000000002';
+const sourceId = '123e4567-e89b-12d3-a456-426614174000';
+const variantId = '223e4567-e89b-12d3-a456-426614174000';
+
+const sourceRow = {
+  id: sourceId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a refund reply to {{customer}}. {{> sign-off}}',
+  metadata: {
+    sflField: { topic: 'Refunds', taskType: 'Customer reply', domainSpecifics: '', keywords: '' },
+    sflTenor: { aiPersona: 'Support agent', targetAudience: ['Customers'], desiredTone: 'Warm', interpersonalStance: '' },
+    sflMode: { outputFormat: 'Plain text', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+    variables: [{ name: 'customer', type: 'string', required: true }],
+    locale: 'en',
+  },
+  visibility: 'private',
+  locale_source_id: null,
+  tags: [],
+  access: 'owner',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+};
+
+/**
+ * Answers the provider call with the given translation, as JSON in a code fence.
+ */
+const translateTo = (answer: Record<string, string>) => {
+  const generateCompletion = jest.fn().mockResolvedValue({ text: '```json\n' + JSON.stringify(answer) + '\n```', model: 'gpt-4o-mini', processingTime: 500 });
+  mockCreateService.mockReturnValue({ generateCompletion });
+  return generateCompletion;
+};
+
+/**
+ * Routes the queries of a translation: the source lookups, the duplicate check and the insert.
+ */
+const mockTranslationQueries = (existingVariants: any[] = []) => {
+  mockQuery.mockImplementation((sql: string, values: any[]) => {
+    if (sql.startsWith('SELECT id FROM prompts WHERE (id = $1 OR locale_source_id = $1)')) return Promise.resolve({ rows: existingVariants });
+    if (sql.startsWith('INSERT INTO prompts')) {
+      return Promise.resolve({
+        rows: [{
+          id: variantId, user_id: values[0], title: values[1], body: values[2], metadata: values[3], visibility: values[4],
+          locale_source_id: values[5], created_at: '2024-02-01T00:00:00Z', updated_at: '2024-02-01T00:00:00Z'
+        }]
+      });
+    }
+    if (sql.startsWith('INSERT INTO prompt_revisions')) {
+      return Promise.resolve({ rows: [{ id: 'revision-1', prompt_id: variantId, revision_number: 1, user_id: userId, title: values[2], body: values[3], metadata: values[4], created_at: '2024-02-01T00:00:00Z' }] });
+    }
+    if (sql.includes('FROM prompts WHERE id = $1')) return Promise.resolve({ rows: [sourceRow] });
+    return Promise.resolve({ rows: [] });
+  });
+};
+
+describe('POST /api/prompts/:id/translations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should save the translation as a locale variant with its placeholders intact', async () => {
+    const auth = authAs(userId);
+    const generateCompletion = translateTo({
+      title: 'Erstattungsantwort',
+      promptText: 'Schreibe eine Erstattungsantwort an ⟦PH0⟧. ⟦PH1⟧',
+      'sflField.topic': 'Erstattungen',
+      'sflTenor.desiredTone': 'Herzlich',
+    });
+    mockTranslationQueries();
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .set('Authorization', auth)
+      .send({ locale: 'de', provider: 'openai', apiKey: 'sk-test' })
+      .expect(201);
+
+    const sent = generateCompletion.mock.calls[0][0];
+    expect(JSON.parse(sent.prompt).promptText).toBe('Write a refund reply to ⟦PH0⟧. ⟦PH1⟧');
+    expect(sent.systemMessage).toContain('into the locale de');
+
+    const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.startsWith('INSERT INTO prompts'));
+    expect(insert[1][2]).toBe('Schreibe eine Erstattungsantwort an {{customer}}. {{> sign-off}}');
+    expect(insert[1][5]).toBe(sourceId);
+    expect(response.body).toMatchObject({
+      id: variantId,
+      title: 'Erstattungsantwort',
+      locale: 'de',
+      localeSourceId: sourceId,
+      sflField: { topic: 'Erstattungen', taskType: 'Customer reply' },
+      sflTenor: { aiPersona: 'Support agent', desiredTone: 'Herzlich' },
+      variables: [{ name: 'customer', type: 'string', required: true }]
+    });
+  });
+
+  it('should reject a translation that damaged a placeholder and save nothing', async () => {
+    const auth = authAs(userId);
+    translateTo({
+      title: 'Erstattungsantwort',
+      promptText: 'Schreibe eine Erstattungsantwort an {{Kunde}}. ⟦PH1⟧',
+      'sflField.topic': 'Erstattungen',
+      'sflTenor.desiredTone': 'Herzlich',
+    });
+    mockTranslationQueries();
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .set('Authorization', auth)
+      .send({ locale: 'de', provider: 'openai', apiKey: 'sk-test' })
+      .expect(400);
+
+    expect(response.body.message).toBe('The translation did not preserve the placeholders of: promptText');
+    expect(mockQuery.mock.calls.some(([sql]: [string]) => sql.startsWith('INSERT'))).toBe(false);
+  });
+
+  it('should reject a locale that already has a variant', async () => {
+    const auth = authAs(userId);
+    translateTo({
+      title: 'Erstattungsantwort',
+      promptText: 'Schreibe eine Erstattungsantwort an ⟦PH0⟧. ⟦PH1⟧',
+      'sflField.topic': 'Erstattungen',
+      'sflTenor.desiredTone': 'Herzlich',
+    });
+    mockTranslationQueries([{ id: variantId }]);
+
+    const response = await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .set('Authorization', auth)
+      .send({ locale: 'de', provider: 'openai', apiKey: 'sk-test' })
+      .expect(400);
+
+    expect(response.body.message).toBe('This prompt already has a de variant');
+    expect(mockQuery.mock.calls.some(([sql]: [string]) => sql.startsWith('INSERT'))).toBe(false);
+  });
+
+  it('should reject an invalid locale without calling the provider', async () => {
+    const auth = authAs(userId);
+    mockTranslationQueries();
+
+    await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .set('Authorization', auth)
+      .send({ locale: 'German' })
+      .expect(400);
+
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 for a public prompt of another user', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...sourceRow, user_id: otherUserId, visibility: 'public', access: 'public' }] });
+
+    await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .set('Authorization', auth)
+      .send({ locale: 'de' })
+      .expect(403);
+
+    expect(mockCreateService).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .post(`/api/prompts/${sourceId}/translations`)
+      .send({ locale: 'de' })
+      .expect(401);
+  });
+});
+
+describe('GET /api/prompts/:id/locales', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list the source and its variants for a variant', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...sourceRow, id: variantId, locale_source_id: sourceId }] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [
+        { id: sourceId, title: 'Refund reply', locale: 'en', locale_source_id: null },
+        { id: variantId, title: 'Erstattungsantwort', locale: 'de', locale_source_id: sourceId }
+      ] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${variantId}/locales`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(mockQuery.mock.calls[2][1][0]).toBe(sourceId);
+    expect(response.body).toEqual([
+      { id: sourceId, title: 'Refund reply', locale: 'en', isSource: true },
+      { id: variantId, title: 'Erstattungsantwort', locale: 'de', isSource: false }
+    ]);
+  });
+
+  it('should return 404 for a prompt the user cannot see', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .get(`/api/prompts/${sourceId}/locales`)
+      .expect(404);
+  });
+});
+
+describe('GET /api/prompts?locale=', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should match the language and its regional variants', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] })                 // SELECT page
+      .mockResolvedValueOnce({ rows: [{ total: 0 }] });    // SELECT COUNT
+
+    await request(app)
+      .get('/api/prompts?locale=DE')
+      .expect(200);
+
+    const [sql, values] = mockQuery.mock.calls[0];
+    expect(sql).toContain("(metadata->>'locale' = $1 OR metadata->>'locale' LIKE $1 || '-%')");
+    expect(values[0]).toBe('de');
+  });
+
+  it('should return 400 for an invalid locale', async () => {
+    const response = await request(app)
+      .get('/api/prompts?locale=not a locale')
+      .expect(400);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(response.body.message).toBeDefined();
+  });
+});
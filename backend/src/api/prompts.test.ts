@@ -10,24 +10,14 @@ import app from '../app';
 import { PromptSFL } from '../types';
 
 // Mock the database getPool function
-jest.mock('../config/database', () => jest.fn(() => Promise.resolve({
-  query: jest.fn(),
-  end: jest.fn(),
-  on: jest.fn(),
-})));
+jest.mock('../config/database', () => jest.fn());
 
-import getPool from '../config/database';
+import { mockPool, mockQuery, authAs } from '../tests/mockDatabase';
 
-const mockGetPool = getPool as jest.MockedFunction<typeof getPool>;
-const mockPool = {
-  query: jest.fn(),
-  end: jest.fn(),
-  on: jest.fn(),
-} as any; // Mock pool object
-mockGetPool.mockResolvedValue(mockPool);
-
-const mockQuery = mockPool.query as jest.MockedFunction<any>;
-const mockEnd = mockPool.end as jest.MockedFunction<any>;
+const ownerId = '00000000-0000-0000-0000-000000000001';
+const tagsColumn = 'ARRAY(SELECT t.name FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id' +
+  ' WHERE pt.prompt_id = prompts.id ORDER BY lower(t.name)) AS tags';
+const otherUserId = '00000000-0000-0000-0000-000000000002';
 
 describe('/api/prompts', () => {
   const mockPromptId = 'test-prompt-id-123';
@@ -57,10 +47,12 @@ describe('/api/prompts', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Drop query results queued by a test that failed before consuming them
+    mockQuery.mockReset();
   });
 
   afterAll(async () => {
-    await mockEnd();
+    await mockPool.end();
   });
 
   describe('POST /api/prompts', () => {
@@ -78,14 +70,20 @@ describe('/api/prompts', () => {
             notes: validPromptData.notes
           },
           created_at: '2024-01-01T00:00:00Z',
+          visibility: 'private',
           updated_at: '2024-01-01T00:00:00Z'
         }]
       };
 
-      mockQuery.mockResolvedValueOnce(mockDbResponse);
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce(mockDbResponse)  // INSERT prompt
+        .mockResolvedValueOnce({ rows: [{ id: 'rev-1', prompt_id: mockPromptId, revision_number: 1 }] })  // INSERT revision
+        .mockResolvedValueOnce({ rows: [] });  // UPSERT embedding
 
       const response = await request(app)
         .post('/api/prompts')
+        .set('Authorization', auth)
         .send(validPromptData)
         .expect(201);
 
@@ -93,15 +91,55 @@ describe('/api/prompts', () => {
         id: mockPromptId,
         title: validPromptData.title,
         promptText: validPromptData.promptText,
-        sflField: validPromptData.sflField
+        sflField: validPromptData.sflField,
+        ownerId,
+        visibility: 'private',
+        access: 'owner'
       });
 
       expect(mockQuery).toHaveBeenCalledWith(
-        'INSERT INTO prompts (user_id, title, body, metadata) VALUES ($1, $2, $3, $4) RETURNING *',
-        expect.any(Array)
+        'INSERT INTO prompts (user_id, title, body, metadata, visibility) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+        [ownerId, validPromptData.title, validPromptData.promptText, expect.any(Object), 'private']
+      );
+    });
+
+    it('should create missing tags and attach them to the new prompt', async () => {
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, title: 'Tagged', body: 'text', metadata: {}, visibility: 'private' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'rev-1', prompt_id: mockPromptId, revision_number: 1 }] })  // INSERT revision
+        .mockResolvedValueOnce({ rows: [] })  // UPSERT embedding
+        .mockResolvedValueOnce({ rowCount: 0 })  // DELETE prompt_tags
+        .mockResolvedValueOnce({ rowCount: 1 })  // INSERT missing tags
+        .mockResolvedValueOnce({ rowCount: 2 })  // INSERT prompt_tags
+        .mockResolvedValueOnce({ rows: [{ name: 'billing' }, { name: 'Support' }] });
+
+      const response = await request(app)
+        .post('/api/prompts')
+        .set('Authorization', auth)
+        .send({ ...validPromptData, title: 'Tagged', tags: [' Support ', 'billing', 'SUPPORT'] })
+        .expect(201);
+
+      expect(response.body.tags).toEqual(['billing', 'Support']);
+      expect(mockQuery).toHaveBeenCalledWith(
+        'INSERT INTO tags (name, created_by) SELECT unnest($1::text[]), $2 ON CONFLICT ((lower(name))) DO NOTHING',
+        [['Support', 'billing'], ownerId]
       );
     });
 
+    it('should return 400 when a tag name is blank', async () => {
+      const auth = authAs(ownerId);
+
+      const response = await request(app)
+        .post('/api/prompts')
+        .set('Authorization', auth)
+        .send({ ...validPromptData, tags: ['ok', '  '] })
+        .expect(400);
+
+      expect(response.body.message).toBe('Tag name is required');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
     it('should return 400 when title is missing', async () => {
       const invalidData = { ...validPromptData, title: '' };
 
@@ -147,20 +185,167 @@ describe('/api/prompts', () => {
         ]
       };
 
-      mockQuery.mockResolvedValueOnce(mockDbResponse);
+      mockQuery
+        .mockResolvedValueOnce(mockDbResponse)                 // SELECT page
+        .mockResolvedValueOnce({ rows: [{ total: 1 }] });      // SELECT COUNT
 
       const response = await request(app)
         .get('/api/prompts')
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body).toHaveLength(1);
-      expect(response.body[0]).toMatchObject({
+      expect(Array.isArray(response.body.items)).toBe(true);
+      expect(response.body.items).toHaveLength(1);
+      expect(response.body.items[0]).toMatchObject({
         id: mockPromptId,
         title: 'Test Prompt'
       });
+      expect(response.body.nextCursor).toBeNull();
+      expect(response.body.total).toBe(1);
 
-      expect(mockQuery).toHaveBeenCalledWith('SELECT * FROM prompts ORDER BY updated_at DESC');
+      expect(mockQuery).toHaveBeenCalledWith(
+        "SELECT *, " + tagsColumn + ", (updated_at)::text AS sort_key FROM prompts WHERE prompts.deleted_at IS NULL AND prompts.visibility = 'public'" +
+        ' ORDER BY updated_at DESC, id DESC LIMIT $1',
+        [51]
+      );
+    });
+
+    it('should limit authenticated users to their own, shared and public prompts', async () => {
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ total: 0 }] });
+
+      await request(app)
+        .get('/api/prompts')
+        .set('Authorization', auth)
+        .query({ scope: 'shared' })
+        .expect(200);
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain(
+        "WHERE prompts.deleted_at IS NULL AND (prompts.visibility = 'public' OR prompts.user_id = $1 OR (prompts.visibility = 'shared' AND " +
+        'EXISTS (SELECT 1 FROM prompt_shares s WHERE s.prompt_id = prompts.id AND s.user_id = $1)))' +
+        " AND visibility = 'shared' AND user_id <> $2"
+      );
+      expect(params).toEqual([ownerId, ownerId, 51]);
+    });
+
+    it('should return 401 when filtering by scope without signing in', async () => {
+      const response = await request(app)
+        .get('/api/prompts')
+        .query({ scope: 'mine' })
+        .expect(401);
+
+      expect(response.body.message).toBe('Authentication required');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should apply SFL filters and full-text search in SQL', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ total: 0 }] });
+
+      await request(app)
+        .get('/api/prompts')
+        .query({ searchTerm: 'unit tests', taskType: 'Code Generation', aiPersona: 'Expert', sort: 'relevance' })
+        .expect(200);
+
+      expect(mockQuery).toHaveBeenNthCalledWith(1,
+        "SELECT *, " + tagsColumn + ", (ts_rank(search_vector, websearch_to_tsquery('english', $1)))::text AS sort_key FROM prompts" +
+        " WHERE prompts.deleted_at IS NULL AND prompts.visibility = 'public'" +
+        " AND search_vector @@ websearch_to_tsquery('english', $1)" +
+        " AND metadata->'sflField'->>'taskType' = $2" +
+        " AND metadata->'sflTenor'->>'aiPersona' = $3" +
+        " ORDER BY ts_rank(search_vector, websearch_to_tsquery('english', $1)) DESC, id DESC LIMIT $4",
+        ['unit tests', 'Code Generation', 'Expert', 51]
+      );
+      expect(mockQuery).toHaveBeenNthCalledWith(2,
+        "SELECT COUNT(*)::int AS total FROM prompts" +
+        " WHERE prompts.deleted_at IS NULL AND prompts.visibility = 'public'" +
+        " AND search_vector @@ websearch_to_tsquery('english', $1)" +
+        " AND metadata->'sflField'->>'taskType' = $2" +
+        " AND metadata->'sflTenor'->>'aiPersona' = $3",
+        ['unit tests', 'Code Generation', 'Expert']
+      );
+    });
+
+    it('should return a cursor that continues after the last row of the page', async () => {
+      const row = (id: string, title: string) => ({
+        id, user_id: null, title, body: 'text', metadata: {}, visibility: 'public', sort_key: title.toLowerCase(),
+        created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z'
+      });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row('id-a', 'Alpha'), row('id-b', 'Beta'), row('id-c', 'Gamma')] })
+        .mockResolvedValueOnce({ rows: [{ total: 5 }] });
+
+      const first = await request(app)
+        .get('/api/prompts')
+        .query({ sort: 'title', limit: 2 })
+        .expect(200);
+
+      expect(first.body.items.map((p: any) => p.id)).toEqual(['id-a', 'id-b']);
+      expect(first.body.total).toBe(5);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row('id-c', 'Gamma')] })
+        .mockResolvedValueOnce({ rows: [{ total: 5 }] });
+
+      await request(app)
+        .get('/api/prompts')
+        .query({ sort: 'title', limit: 2, cursor: first.body.nextCursor })
+        .expect(200);
+
+      expect(mockQuery).toHaveBeenNthCalledWith(3,
+        'SELECT *, ' + tagsColumn + ', (lower(title))::text AS sort_key FROM prompts' +
+        " WHERE prompts.deleted_at IS NULL AND prompts.visibility = 'public' AND (lower(title), id) > ($1::text, $2::uuid)" +
+        ' ORDER BY lower(title) ASC, id ASC LIMIT $3',
+        ['beta', 'id-b', 3]
+      );
+    });
+
+    it('should return 400 for an unsupported sort field', async () => {
+      const response = await request(app)
+        .get('/api/prompts')
+        .query({ sort: 'popularity' })
+        .expect(400);
+
+      expect(response.body.message).toContain('Sort must be one of');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should filter by tag and by collection including its sub-collections', async () => {
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ total: 0 }] });
+
+      await request(app)
+        .get('/api/prompts')
+        .set('Authorization', auth)
+        .query({ tag: 'Billing', collection: 'collection-1' })
+        .expect(200);
+
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toBe(
+        'SELECT COUNT(*)::int AS total FROM prompts WHERE ' +
+        "prompts.deleted_at IS NULL AND (prompts.visibility = 'public' OR prompts.user_id = $1 OR (prompts.visibility = 'shared' AND " +
+        'EXISTS (SELECT 1 FROM prompt_shares s WHERE s.prompt_id = prompts.id AND s.user_id = $1)))' +
+        ' AND id IN (SELECT pt.prompt_id FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id WHERE lower(t.name) = lower($2))' +
+        ' AND id IN (WITH RECURSIVE tree AS (SELECT id FROM collections WHERE id = $3 AND user_id = $4' +
+        ' UNION ALL SELECT c.id FROM collections c JOIN tree ON c.parent_id = tree.id)' +
+        ' SELECT cp.prompt_id FROM collection_prompts cp JOIN tree ON cp.collection_id = tree.id)'
+      );
+      expect(params).toEqual([ownerId, 'Billing', 'collection-1', ownerId]);
+    });
+
+    it('should return 401 when filtering by collection without signing in', async () => {
+      await request(app)
+        .get('/api/prompts')
+        .query({ collection: 'collection-1' })
+        .expect(401);
+
+      expect(mockQuery).not.toHaveBeenCalled();
     });
   });
 
@@ -173,6 +358,8 @@ describe('/api/prompts', () => {
           title: 'Test Prompt',
           body: 'Test prompt text',
           metadata: {},
+          visibility: 'public',
+          access: 'public',
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z'
         }]
@@ -186,10 +373,22 @@ describe('/api/prompts', () => {
 
       expect(response.body).toMatchObject({
         id: mockPromptId,
-        title: 'Test Prompt'
+        title: 'Test Prompt',
+        access: 'public'
       });
+      expect(response.body.sharedWith).toBeUndefined();
 
-      expect(mockQuery).toHaveBeenCalledWith('SELECT * FROM prompts WHERE id = $1', [mockPromptId]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM prompts WHERE id = $1'), [mockPromptId, null]);
+    });
+
+    it('should return 404 for a private prompt the user cannot see', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, visibility: 'private', access: null }] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}`)
+        .expect(404);
+
+      expect(response.body.message).toBe('Prompt not found');
     });
 
     it('should return 404 for non-existent prompt ID', async () => {
@@ -214,6 +413,7 @@ describe('/api/prompts', () => {
           title: 'Original Title',
           body: 'Original text',
           metadata: {},
+          visibility: 'private',
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z'
         }]
@@ -228,31 +428,96 @@ describe('/api/prompts', () => {
         }]
       };
 
+      const auth = authAs(ownerId);
       mockQuery
-        .mockResolvedValueOnce(existingPrompt)  // SELECT existing
-        .mockResolvedValueOnce(updatedPrompt);  // UPDATE
+        .mockResolvedValueOnce({ rows: [{ ...existingPrompt.rows[0], access: 'owner' }] })  // SELECT existing
+        .mockResolvedValueOnce(updatedPrompt)   // UPDATE
+        .mockResolvedValueOnce({ rows: [{ id: 'rev-2', prompt_id: mockPromptId, revision_number: 2 }] })  // INSERT revision
+        .mockResolvedValueOnce({ rows: [] })   // UPSERT embedding
+        .mockResolvedValueOnce({ rows: [{ email: 'colleague@example.com' }] });  // SELECT shares
 
       const updateData = { title: 'Updated Title', promptText: 'Updated text' };
 
       const response = await request(app)
         .put(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
         .send(updateData)
         .expect(200);
 
       expect(response.body).toMatchObject({
         id: mockPromptId,
         title: 'Updated Title',
-        promptText: 'Updated text'
+        promptText: 'Updated text',
+        ownerId,
+        sharedWith: ['colleague@example.com']
       });
     });
 
+    it('should allocate the next revision number again when a concurrent save took it', async () => {
+      const existingRow = {
+        id: mockPromptId,
+        user_id: ownerId,
+        title: 'Original Title',
+        body: 'Original text',
+        metadata: {},
+        visibility: 'private',
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z'
+      };
+
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...existingRow, access: 'owner' }] })  // SELECT existing
+        .mockResolvedValueOnce({ rows: [{ ...existingRow, body: 'Updated text' }] })   // UPDATE
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }))  // INSERT revision 2, taken
+        .mockResolvedValueOnce({ rows: [{ id: 'rev-3', prompt_id: mockPromptId, revision_number: 3 }] })  // INSERT revision 3
+        .mockResolvedValueOnce({ rows: [] })   // UPSERT embedding
+        .mockResolvedValueOnce({ rows: [] });  // SELECT shares
+
+      await request(app)
+        .put(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
+        .send({ promptText: 'Updated text' })
+        .expect(200);
+
+      const revisionInserts = mockQuery.mock.calls.filter(([sql]: [string]) => sql.trim().startsWith('INSERT INTO prompt_revisions'));
+      expect(revisionInserts).toHaveLength(2);
+    });
+
+    it('should return 403 when a non-owner edits a public prompt', async () => {
+      const auth = authAs(otherUserId);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, visibility: 'public', metadata: {}, access: 'public' }] });
+
+      const response = await request(app)
+        .put(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
+        .send({ title: 'Hijacked' })
+        .expect(403);
+
+      expect(response.body.message).toContain('owner');
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 403 when a share recipient changes the visibility', async () => {
+      const auth = authAs(otherUserId);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, visibility: 'shared', metadata: {}, access: 'shared' }] });
+
+      await request(app)
+        .put(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
+        .send({ visibility: 'public' })
+        .expect(403);
+    });
+
     it('should return 404 for non-existent prompt ID', async () => {
       const nonExistentId = '00000000-0000-0000-0000-000000000999';
       
+      const auth = authAs(ownerId);
       mockQuery.mockResolvedValueOnce({ rows: [] });
 
       const response = await request(app)
         .put(`/api/prompts/${nonExistentId}`)
+        .set('Authorization', auth)
         .send({ title: 'Updated Title' })
         .expect(404);
 
@@ -282,25 +547,209 @@ describe('/api/prompts', () => {
 
   describe('DELETE /api/prompts/:id', () => {
     it('should delete a prompt successfully with valid ID', async () => {
-      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+      const auth = authAs(ownerId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, visibility: 'private', access: 'owner' }] })
+        .mockResolvedValueOnce({ rowCount: 1 });
 
       await request(app)
         .delete(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
         .expect(204);
 
-      expect(mockQuery).toHaveBeenCalledWith('DELETE FROM prompts WHERE id = $1', [mockPromptId]);
+      expect(mockQuery).toHaveBeenCalledWith('UPDATE prompts SET deleted_at = now() WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL', [mockPromptId, ownerId]);
     });
 
     it('should return 404 for non-existent prompt ID', async () => {
       const nonExistentId = '00000000-0000-0000-0000-000000000999';
       
-      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+      const auth = authAs(ownerId);
+      mockQuery.mockResolvedValueOnce({ rows: [] });
 
       const response = await request(app)
         .delete(`/api/prompts/${nonExistentId}`)
+        .set('Authorization', auth)
         .expect(404);
 
       expect(response.body.message).toBe('Prompt not found');
     });
+
+    it('should return 403 when deleting a prompt shared with the user', async () => {
+      const auth = authAs(otherUserId);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: mockPromptId, user_id: ownerId, visibility: 'shared', access: 'shared' }] });
+
+      const response = await request(app)
+        .delete(`/api/prompts/${mockPromptId}`)
+        .set('Authorization', auth)
+        .expect(403);
+
+      expect(response.body.message).toBe('Only the owner can delete this prompt');
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('DELETE'), expect.anything());
+    });
+
+    it('should return 401 when not signed in', async () => {
+      await request(app)
+        .delete(`/api/prompts/${mockPromptId}`)
+        .expect(401);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Prompt revisions', () => {
+    const revisionRow = (revisionNumber: number, overrides: Record<string, any> = {}) => ({
+      id: `rev-${revisionNumber}`,
+      prompt_id: mockPromptId,
+      revision_number: revisionNumber,
+      user_id: '00000000-0000-0000-0000-000000000001',
+      title: 'Test Prompt',
+      body: 'Original text',
+      metadata: {
+        sflField: validPromptData.sflField,
+        sflTenor: validPromptData.sflTenor,
+        sflMode: validPromptData.sflMode
+      },
+      created_at: '2024-01-01T00:00:00Z',
+      ...overrides
+    });
+
+    it('should list revisions newest first', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: mockPromptId, title: 'Test Prompt', body: 'Updated text', metadata: {}, access: 'public' }] })
+        .mockResolvedValueOnce({ rows: [revisionRow(2), revisionRow(1)] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/revisions`)
+        .expect(200);
+
+      expect(response.body.map((r: any) => r.revisionNumber)).toEqual([2, 1]);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'SELECT * FROM prompt_revisions WHERE prompt_id = $1 ORDER BY revision_number DESC',
+        [mockPromptId]
+      );
+    });
+
+    const visiblePrompt = { rows: [{ id: mockPromptId, user_id: ownerId, metadata: {}, visibility: 'public', access: 'public' }] };
+
+    it('should diff two revisions field by field', async () => {
+      mockQuery
+        .mockResolvedValueOnce(visiblePrompt)
+        .mockResolvedValueOnce({ rows: [revisionRow(1)] })
+        .mockResolvedValueOnce({ rows: [revisionRow(2, {
+          body: 'Updated text',
+          metadata: {
+            sflField: validPromptData.sflField,
+            sflTenor: { ...validPromptData.sflTenor, desiredTone: 'Casual', targetAudience: ['Software Developers', 'Students'] },
+            sflMode: validPromptData.sflMode
+          }
+        })] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/revisions/diff?from=1&to=2`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        promptId: mockPromptId,
+        fromRevision: 1,
+        toRevision: 2,
+        changes: [
+          { field: 'promptText', from: 'Original text', to: 'Updated text' },
+          { field: 'sflTenor.targetAudience', from: 'Software Developers', to: 'Software Developers, Students' },
+          { field: 'sflTenor.desiredTone', from: 'Technical', to: 'Casual' }
+        ]
+      });
+    });
+
+    it('should report changed variable declarations in the diff', async () => {
+      const variable = { name: 'input', type: 'string', required: true };
+      mockQuery
+        .mockResolvedValueOnce(visiblePrompt)
+        .mockResolvedValueOnce({ rows: [revisionRow(1, { metadata: { variables: [variable] } })] })
+        .mockResolvedValueOnce({ rows: [revisionRow(2, { metadata: { variables: [{ ...variable, type: 'multiline' }] } })] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/revisions/diff?from=1&to=2`)
+        .expect(200);
+
+      expect(response.body.changes).toHaveLength(1);
+      expect(response.body.changes[0].field).toBe('variables');
+      expect(response.body.changes[0].from).toContain('"type": "string"');
+      expect(response.body.changes[0].to).toContain('"type": "multiline"');
+    });
+
+    it('should return 400 for a non-numeric diff range', async () => {
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/revisions/diff?from=latest&to=2`)
+        .expect(400);
+
+      expect(response.body.message).toContain('from');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a non-existent revision', async () => {
+      mockQuery
+        .mockResolvedValueOnce(visiblePrompt)
+        .mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/revisions/7`)
+        .expect(404);
+
+      expect(response.body.message).toBe('Revision not found');
+    });
+  });
+
+  describe('Semantic search', () => {
+    const similarRow = (id: string, similarity: number) => ({
+      id,
+      user_id: '00000000-0000-0000-0000-000000000001',
+      title: `Prompt ${id}`,
+      body: 'Summarise the input',
+      metadata: {},
+      visibility: 'public',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      similarity
+    });
+
+    it('should return the nearest prompts for a query', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [similarRow('id-a', 0.92), similarRow('id-b', 0.41)] });
+
+      const response = await request(app)
+        .get('/api/prompts/search/semantic?q=summarize%20text&limit=2')
+        .expect(200);
+
+      expect(response.body.map((r: any) => [r.prompt.id, r.similarity])).toEqual([['id-a', 0.92], ['id-b', 0.41]]);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("WHERE e.provider = $2 AND p.deleted_at IS NULL AND p.visibility = 'public'");
+      expect(sql).toContain('ORDER BY e.embedding <=> $1::vector LIMIT $3');
+      expect(params[0]).toMatch(/^\[-?\d/);
+      expect(params.slice(1)).toEqual(['hashing', 2]);
+    });
+
+    it('should return 400 when the query is missing', async () => {
+      const response = await request(app)
+        .get('/api/prompts/search/semantic?q=%20')
+        .expect(400);
+
+      expect(response.body.message).toContain('"q"');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should exclude the prompt itself when finding similar prompts', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...similarRow(mockPromptId, 1), access: 'public' }] })   // SELECT prompt
+        .mockResolvedValueOnce({ rows: [{ prompt_id: mockPromptId }] })  // SELECT stored embedding
+        .mockResolvedValueOnce({ rows: [similarRow('id-b', 0.87)] });
+
+      const response = await request(app)
+        .get(`/api/prompts/${mockPromptId}/similar`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].prompt.id).toBe('id-b');
+      expect(mockQuery.mock.calls[2][0]).toContain('p.id <> $1');
+      expect(mockQuery.mock.calls[2][1]).toEqual([mockPromptId, 'hashing', 10]);
+    });
   });
-});
\ No newline at end of file
+});
@@ -5,6 +5,14 @@ import ModelController from './controllers/modelController';
 import GeminiController from './controllers/geminiController';
 import WorkflowExecutionController from './controllers/workflowExecutionController';
 import ProviderController from './controllers/providerController';
+import TagController from './controllers/tagController';
+import CollectionController from './controllers/collectionController';
+import EvalSuiteController from './controllers/evalSuiteController';
+import SnippetController from './controllers/snippetController';
+import PromptRunController from './controllers/promptRunController';
+import TrashController from './controllers/trashController';
+import PromptReviewController from './controllers/promptReviewController';
+import PromptTranslationController from './controllers/promptTranslationController';
 import authRoutes from './routes/auth';
 import authMiddleware, { optionalAuthMiddleware } from '../middleware/authMiddleware';
 
@@ -22,10 +30,75 @@ router.use('/auth', authRoutes);
 // Prompt routes (optional authentication for setup)
 router.post('/prompts', optionalAuthMiddleware, PromptController.createPrompt);
 router.get('/prompts', optionalAuthMiddleware, PromptController.getPrompts);
+router.get('/prompts/search/semantic', optionalAuthMiddleware, PromptController.searchPromptsSemantic);
+router.get('/prompts/export', optionalAuthMiddleware, PromptController.exportPrompts);
+router.post('/prompts/import', optionalAuthMiddleware, PromptController.importPrompts);
+router.post('/prompts/import/annotations', optionalAuthMiddleware, PromptController.annotateImport);
+router.post('/prompts/lint', optionalAuthMiddleware, PromptController.lintPrompt);
 router.get('/prompts/:id', optionalAuthMiddleware, PromptController.getPromptById);
+router.get('/prompts/:id/rendered', optionalAuthMiddleware, PromptController.getRenderedPrompt);
+router.get('/prompts/:id/compiled', optionalAuthMiddleware, PromptController.getCompiledPrompt);
+router.get('/prompts/:id/similar', optionalAuthMiddleware, PromptController.getSimilarPrompts);
+router.get('/prompts/:id/revisions', optionalAuthMiddleware, PromptController.getPromptRevisions);
+router.get('/prompts/:id/revisions/diff', optionalAuthMiddleware, PromptController.diffPromptRevisions);
+router.get('/prompts/:id/revisions/:revision', optionalAuthMiddleware, PromptController.getPromptRevision);
+router.post('/prompts/:id/revisions/:revision/rollback', optionalAuthMiddleware, PromptController.rollbackPromptRevision);
+router.post('/prompts/:id/fork', optionalAuthMiddleware, PromptController.forkPrompt);
+router.get('/prompts/:id/lineage', optionalAuthMiddleware, PromptController.getPromptLineage);
+router.get('/prompts/:id/workflows', optionalAuthMiddleware, PromptController.getPromptWorkflows);
 router.put('/prompts/:id', optionalAuthMiddleware, PromptController.updatePrompt);
 router.delete('/prompts/:id', optionalAuthMiddleware, PromptController.deletePrompt);
 
+// Evaluation suite routes (reading is public for visible prompts; changes and runs require authentication)
+router.get('/prompts/:id/eval-suites', optionalAuthMiddleware, EvalSuiteController.getSuites);
+router.post('/prompts/:id/eval-suites', optionalAuthMiddleware, EvalSuiteController.createSuite);
+router.put('/prompts/:id/eval-suites/:suiteId', optionalAuthMiddleware, EvalSuiteController.updateSuite);
+router.delete('/prompts/:id/eval-suites/:suiteId', optionalAuthMiddleware, EvalSuiteController.deleteSuite);
+router.get('/prompts/:id/eval-suites/:suiteId/runs', optionalAuthMiddleware, EvalSuiteController.getRuns);
+router.post('/prompts/:id/eval-suites/:suiteId/runs', optionalAuthMiddleware, EvalSuiteController.runSuite);
+
+// Review routes (reading is public for visible prompts; commenting and status changes require authentication)
+router.get('/prompts/:id/review', optionalAuthMiddleware, PromptReviewController.getReview);
+router.put('/prompts/:id/review/reviewer', optionalAuthMiddleware, PromptReviewController.assignReviewer);
+router.post('/prompts/:id/review/status', optionalAuthMiddleware, PromptReviewController.changeStatus);
+router.get('/prompts/:id/comments', optionalAuthMiddleware, PromptReviewController.getComments);
+router.post('/prompts/:id/comments', optionalAuthMiddleware, PromptReviewController.addComment);
+
+// Test run routes (require authentication; users see their own runs of a visible prompt, owners see all of them)
+router.get('/prompts/:id/runs', optionalAuthMiddleware, PromptRunController.getRuns);
+router.post('/prompts/:id/runs', optionalAuthMiddleware, PromptRunController.runPrompt);
+router.post('/prompts/:id/runs/:runId/pin', optionalAuthMiddleware, PromptRunController.pinRun);
+router.post('/prompts/:id/runs/:runId/judgement', optionalAuthMiddleware, PromptRunController.judgeRun);
+
+// Translation routes (locale listing is public for visible prompts; translating requires authentication)
+router.get('/prompts/:id/locales', optionalAuthMiddleware, PromptTranslationController.getLocaleVariants);
+router.post('/prompts/:id/translations', optionalAuthMiddleware, PromptTranslationController.translatePrompt);
+
+// Tag routes (listing is public; changes require authentication)
+router.get('/tags', optionalAuthMiddleware, TagController.getTags);
+router.post('/tags', optionalAuthMiddleware, TagController.createTag);
+router.put('/tags/:id', optionalAuthMiddleware, TagController.updateTag);
+router.delete('/tags/:id', optionalAuthMiddleware, TagController.deleteTag);
+
+// Collection routes (personal, authentication required)
+router.get('/collections', optionalAuthMiddleware, CollectionController.getCollections);
+router.post('/collections', optionalAuthMiddleware, CollectionController.createCollection);
+router.put('/collections/:id', optionalAuthMiddleware, CollectionController.updateCollection);
+router.delete('/collections/:id', optionalAuthMiddleware, CollectionController.deleteCollection);
+router.put('/collections/:id/prompts/:promptId', optionalAuthMiddleware, CollectionController.addPromptToCollection);
+router.delete('/collections/:id/prompts/:promptId', optionalAuthMiddleware, CollectionController.removePromptFromCollection);
+
+// Snippet routes (personal, authentication required)
+router.get('/snippets', optionalAuthMiddleware, SnippetController.getSnippets);
+router.post('/snippets', optionalAuthMiddleware, SnippetController.createSnippet);
+router.put('/snippets/:id', optionalAuthMiddleware, SnippetController.updateSnippet);
+router.delete('/snippets/:id', optionalAuthMiddleware, SnippetController.deleteSnippet);
+
+// Trash routes (personal, authentication required)
+router.get('/trash', optionalAuthMiddleware, TrashController.getTrash);
+router.post('/trash/:type/:id/restore', optionalAuthMiddleware, TrashController.restoreItem);
+router.delete('/trash/:type/:id', optionalAuthMiddleware, TrashController.purgeItem);
+
 // Workflow routes
 router.post('/workflows', authMiddleware, WorkflowController.createWorkflow);
 router.get('/workflows', authMiddleware, WorkflowController.getWorkflows);
@@ -43,6 +116,7 @@ router.get('/models', authMiddleware, ModelController.getModels);
 
 // Gemini routes (optional authentication for initial setup)
 router.post('/gemini/test-prompt', optionalAuthMiddleware, GeminiController.testPrompt);
+router.post('/gemini/compare-prompt', optionalAuthMiddleware, GeminiController.comparePrompt);
 router.post('/gemini/generate-sfl', optionalAuthMiddleware, GeminiController.generateSFLFromGoal);
 router.post('/gemini/regenerate-sfl', optionalAuthMiddleware, GeminiController.regenerateSFLFromSuggestion);
 router.post('/gemini/generate-workflow', optionalAuthMiddleware, GeminiController.generateWorkflowFromGoal);
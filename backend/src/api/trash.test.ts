@@ -0,0 +1,260 @@
+/**
+ * @file trash.test.ts
+ * @description Integration tests for the trash of deleted prompts and workflows (/api/trash) and for
+ * listing the workflows that use a prompt before it is deleted (/api/prompts/:id/workflows).
+ * Uses a mocked database to isolate API logic testing.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import TrashService from '../services/trashService';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const otherUserId = '00000000-0000-0000-0000-000000000002';
+const promptId = '123e4567-e89b-12d3-a456-426614174000';
+const workflowId = '223e4567-e89b-12d3-a456-426614174000';
+
+const promptRow = {
+  id: promptId,
+  user_id: userId,
+  title: 'Refund reply',
+  body: 'Write a refund reply.',
+  metadata: {},
+  visibility: 'private',
+  tags: [],
+  access: 'owner',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z'
+};
+
+describe('/api/trash', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  describe('GET /api/trash', () => {
+    it('should list deleted prompts and workflows, newest first, with their purge time', async () => {
+      const auth = authAs(userId);
+      mockQuery.mockImplementation((sql: string) => {
+        if (sql.includes('FROM prompts WHERE user_id = $1 AND deleted_at IS NOT NULL')) {
+          return Promise.resolve({ rows: [{ ...promptRow, deleted_at: '2024-03-01T00:00:00.000Z' }] });
+        }
+        if (sql.includes('FROM workflows WHERE user_id = $1 AND deleted_at IS NOT NULL')) {
+          return Promise.resolve({ rows: [{ id: workflowId, name: 'Triage', graph_data: {}, deleted_at: '2024-03-05T00:00:00.000Z' }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const response = await request(app)
+        .get('/api/trash')
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(response.body).toEqual([
+        { type: 'workflow', id: workflowId, title: 'Triage', deletedAt: '2024-03-05T00:00:00.000Z', purgeAt: '2024-04-04T00:00:00.000Z' },
+        { type: 'prompt', id: promptId, title: 'Refund reply', deletedAt: '2024-03-01T00:00:00.000Z', purgeAt: '2024-03-31T00:00:00.000Z' },
+      ]);
+      const promptQuery = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('FROM prompts WHERE user_id = $1'));
+      expect(promptQuery[1]).toEqual([userId]);
+    });
+
+    it('should return 401 when not signed in', async () => {
+      await request(app)
+        .get('/api/trash')
+        .expect(401);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/trash/:type/:id/restore', () => {
+    it('should restore a prompt the user deleted', async () => {
+      const auth = authAs(userId);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: promptId }] })  // UPDATE deleted_at
+        .mockResolvedValueOnce({ rows: [promptRow] })  // SELECT prompt with access
+        .mockResolvedValueOnce({ rows: [] });  // SELECT shares
+
+      const response = await request(app)
+        .post(`/api/trash/prompt/${promptId}/restore`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE prompts SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING id',
+        [promptId, userId]
+      );
+      expect(response.body).toMatchObject({ id: promptId, title: 'Refund reply', access: 'owner' });
+    });
+
+    it('should restore a deleted workflow', async () => {
+      const auth = authAs(userId);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: workflowId, name: 'Triage', graph_data: {}, deleted_at: null }] });
+
+      const response = await request(app)
+        .post(`/api/trash/workflow/${workflowId}/restore`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ id: workflowId, name: 'Triage' });
+    });
+
+    it('should return 404 for an item that is not in the trash', async () => {
+      const auth = authAs(userId);
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post(`/api/trash/prompt/${promptId}/restore`)
+        .set('Authorization', auth)
+        .expect(404);
+
+      expect(response.body.message).toBe('Item not found in the trash');
+    });
+
+    it('should reject an unknown item type', async () => {
+      const auth = authAs(userId);
+
+      const response = await request(app)
+        .post(`/api/trash/snippet/${promptId}/restore`)
+        .set('Authorization', auth)
+        .expect(400);
+
+      expect(response.body.message).toBe('Type must be one of: prompt, workflow');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('DELETE /api/trash/:type/:id', () => {
+    it('should permanently delete a prompt in the trash', async () => {
+      const auth = authAs(userId);
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      await request(app)
+        .delete(`/api/trash/prompt/${promptId}`)
+        .set('Authorization', auth)
+        .expect(204);
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'DELETE FROM prompts WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL',
+        [promptId, userId]
+      );
+    });
+
+    it('should return 404 for a workflow that is not in the trash', async () => {
+      const auth = authAs(userId);
+      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      await request(app)
+        .delete(`/api/trash/workflow/${workflowId}`)
+        .set('Authorization', auth)
+        .expect(404);
+    });
+  });
+
+  describe('workflows of another user', () => {
+    /** Answers the trash queries as the database would if it held one deleted workflow, owned by `ownerId` */
+    const trashedWorkflowOf = (ownerId: string) => (sql: string, values: any[]) => {
+      const askedFor = sql.startsWith('SELECT') ? values[0] : values[1];  // the user_id parameter
+      const rows = /\bworkflows\b/.test(sql) && askedFor === ownerId
+        ? [{ id: workflowId, user_id: ownerId, name: 'Triage', graph_data: {}, deleted_at: '2024-03-05T00:00:00.000Z' }]
+        : [];
+      return Promise.resolve({ rows, rowCount: rows.length });
+    };
+
+    it('should not list, restore or purge a workflow someone else deleted', async () => {
+      let auth = authAs(otherUserId);
+      mockQuery.mockImplementation(trashedWorkflowOf(userId));
+      const listed = await request(app)
+        .get('/api/trash')
+        .set('Authorization', auth)
+        .expect(200);
+      expect(listed.body).toEqual([]);
+
+      mockQuery.mockReset();
+      auth = authAs(otherUserId);
+      mockQuery.mockImplementation(trashedWorkflowOf(userId));
+      await request(app)
+        .post(`/api/trash/workflow/${workflowId}/restore`)
+        .set('Authorization', auth)
+        .expect(404);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'UPDATE workflows SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING *',
+        [workflowId, otherUserId]
+      );
+
+      mockQuery.mockReset();
+      auth = authAs(otherUserId);
+      mockQuery.mockImplementation(trashedWorkflowOf(userId));
+      await request(app)
+        .delete(`/api/trash/workflow/${workflowId}`)
+        .set('Authorization', auth)
+        .expect(404);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'DELETE FROM workflows WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL',
+        [workflowId, otherUserId]
+      );
+    });
+  });
+
+  describe('automatic purge', () => {
+    it('should delete prompts and workflows older than the retention period', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 2 })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      const purged = await TrashService.purgeExpired();
+
+      expect(purged).toEqual({ prompts: 2, workflows: 1 });
+      expect(mockQuery).toHaveBeenNthCalledWith(1, 'DELETE FROM prompts WHERE deleted_at < now() - make_interval(days => $1)', [30]);
+      expect(mockQuery).toHaveBeenNthCalledWith(2, 'DELETE FROM workflows WHERE deleted_at < now() - make_interval(days => $1)', [30]);
+    });
+  });
+});
+
+describe('GET /api/prompts/:id/workflows', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should list the workflows whose tasks use the prompt', async () => {
+    const auth = authAs(userId);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [promptRow] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [{ id: workflowId, name: 'Triage' }] });
+
+    const response = await request(app)
+      .get(`/api/prompts/${promptId}/workflows`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body).toEqual([{ id: workflowId, name: 'Triage' }]);
+    const [sql, params] = mockQuery.mock.calls[3];
+    expect(sql).toContain("graph_data->'tasks' @> $1::jsonb");
+    expect(JSON.parse(params[0])).toEqual([{ promptId }]);
+  });
+
+  it('should return 404 for a prompt the user cannot see', async () => {
+    const auth = authAs(userId);
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .get(`/api/prompts/${promptId}/workflows`)
+      .set('Authorization', auth)
+      .expect(404);
+  });
+
+  it('should return 401 when not signed in', async () => {
+    await request(app)
+      .get(`/api/prompts/${promptId}/workflows`)
+      .expect(401);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @file workflowLLMTasks.test.ts
+ * @description Integration tests for running LLM_PROMPT workflow tasks through /api/workflows/run-task.
+ * Covers running a task with the provider, model and parameters of its agent config, using the API key the user
+ * saved in their session before the server's own, rendering the base prompts and partials of a linked prompt,
+ * and reporting provider failures.
+ * Uses mocked database, key validation and provider factory so that no provider is called.
+ */
+
+import request from 'supertest';
+import app from '../app';
+
+// Mock the database getPool function
+jest.mock('../config/database', () => jest.fn());
+
+// Accept any API key the tests save to the session
+jest.mock('../services/providerValidationService', () => ({
+  ...jest.requireActual('../services/providerValidationService'),
+  validateProviderApiKey: jest.fn(() => Promise.resolve({ success: true })),
+}));
+
+// Mock the provider factory so that every provider resolves to a fake service
+jest.mock('../services/ai/AIProviderFactory', () => ({
+  aiProviderFactory: {
+    isProviderSupported: jest.fn(() => true),
+    createService: jest.fn(),
+  },
+}));
+
+import { mockQuery, authAs } from '../tests/mockDatabase';
+import { aiProviderFactory } from '../services/ai/AIProviderFactory';
+
+const mockCreateService = aiProviderFactory.createService as jest.MockedFunction<any>;
+
+const userId = '00000000-0000-0000-0000-000000000001';
+
+const summarizeTask = (agentConfig: Record<string, any>) => ({
+  id: 'summarize',
+  name: 'Summarize ticket',
+  description: 'Summarizes the support ticket',
+  type: 'LLM_PROMPT',
+  dependencies: [],
+  inputKeys: ['userInput.text'],
+  outputKey: 'summary',
+  promptTemplate: 'Summarize this ticket: {{userInput.text}}',
+  agentConfig,
+});
+
+const dataStore = { userInput: { text: 'My order arrived broken.' } };
+
+describe('POST /api/workflows/run-task with LLM_PROMPT tasks', () => {
+  const originalOpenaiKey = process.env.OPENAI_API_KEY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    process.env.OPENAI_API_KEY = 'sk-server-key';
+  });
+
+  afterAll(() => {
+    process.env.OPENAI_API_KEY = originalOpenaiKey;
+  });
+
+  it('should run the task with its provider, model and parameters using the key saved in the session', async () => {
+    const generateCompletion = jest.fn().mockResolvedValue({ text: 'A customer received a broken order.', model: 'claude-3-5-haiku-20241022' });
+    mockCreateService.mockReturnValue({ generateCompletion });
+
+    const agent = request.agent(app);
+    await agent
+      .post('/api/providers/save-key')
+      .send({ provider: 'anthropic', apiKey: 'sk-ant-session-key' })
+      .expect(200);
+
+    const response = await agent
+      .post('/api/workflows/run-task')
+      .set('Authorization', authAs(userId))
+      .send({
+        task: summarizeTask({
+          provider: 'anthropic',
+          model: 'claude-3-5-haiku-20241022',
+          temperature: 0.3,
+          systemInstruction: 'You write one-sentence summaries.',
+          parameters: { top_k: 20, stop_sequences: ['\n\n'] },
+        }),
+        dataStore,
+      })
+      .expect(200);
+
+    expect(response.body).toBe('A customer received a broken order.');
+    expect(mockCreateService).toHaveBeenCalledWith('anthropic', expect.objectContaining({ apiKey: 'sk-ant-session-key' }));
+    expect(generateCompletion).toHaveBeenCalledWith({
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-20241022',
+      parameters: { temperature: 0.3, top_k: 20, stop_sequences: ['\n\n'] },
+      prompt: 'Summarize this ticket: My order arrived broken.',
+      systemMessage: 'You write one-sentence summaries.',
+    });
+  });
+
+  it("should fall back to the server's key when the session has none for the provider", async () => {
+    const generateCompletion = jest.fn().mockResolvedValue({ text: 'Broken order.' });
+    mockCreateService.mockReturnValue({ generateCompletion });
+
+    await request(app)
+      .post('/api/workflows/run-task')
+      .set('Authorization', authAs(userId))
+      .send({ task: summarizeTask({ provider: 'openai', model: 'gpt-4o-mini' }), dataStore })
+      .expect(200);
+
+    expect(mockCreateService).toHaveBeenCalledWith('openai', expect.objectContaining({ apiKey: 'sk-server-key' }));
+    expect(generateCompletion.mock.calls[0][0]).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini' });
+  });
+
+  it('should render the base prompt and partials of a linked prompt before sending it', async () => {
+    const childId = '123e4567-e89b-12d3-a456-426614174000';
+    const baseId = '223e4567-e89b-12d3-a456-426614174000';
+    const emptySFL = {
+      sflField: { topic: '', taskType: '', domainSpecifics: '', keywords: '' },
+      sflTenor: { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
+      sflMode: { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+    };
+    const promptRow = (id: string, title: string, body: string, metadata: Record<string, any>) => ({
+      id, user_id: userId, title, body, metadata: { ...emptySFL, ...metadata },
+      visibility: 'private', tags: [], access: 'owner', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-02T00:00:00Z',
+    });
+    const generateCompletion = jest.fn().mockResolvedValue({ text: 'Broken order.' });
+    mockCreateService.mockReturnValue({ generateCompletion });
+
+    const auth = authAs(userId);
+    mockQuery
+      // The child leaves its text empty and inherits the base's
+      .mockResolvedValueOnce({ rows: [promptRow(childId, 'Ticket summary', '', { extendsId: baseId })] })  // SELECT prompt with access
+      .mockResolvedValueOnce({ rows: [] })  // SELECT shares
+      .mockResolvedValueOnce({ rows: [promptRow(baseId, 'Support base', '{{> house-style}}\nSummarize: {{userInput.text}}', {
+        sflTenor: { ...emptySFL.sflTenor, aiPersona: 'Support lead' },
+      })] })  // SELECT base prompt
+      .mockResolvedValueOnce({ rows: [{ id: 'snippet-1', user_id: userId, name: 'house-style', body: 'Use one sentence.' }] });  // SELECT snippet
+
+    await request(app)
+      .post('/api/workflows/run-task')
+      .set('Authorization', auth)
+      .send({ task: { ...summarizeTask({ provider: 'openai', model: 'gpt-4o-mini' }), promptTemplate: undefined, promptId: childId }, dataStore })
+      .expect(200);
+
+    const { prompt, systemMessage } = generateCompletion.mock.calls[0][0];
+    expect(prompt).toContain('Use one sentence.\nSummarize: My order arrived broken.');
+    expect(prompt).not.toContain('{{> house-style}}');
+    expect(systemMessage).toContain('Support lead');
+  });
+
+  it('should fail the task when the provider call fails', async () => {
+    mockCreateService.mockReturnValue({ generateCompletion: jest.fn().mockRejectedValue(new Error('Rate limit exceeded')) });
+
+    await request(app)
+      .post('/api/workflows/run-task')
+      .set('Authorization', authAs(userId))
+      .send({ task: summarizeTask({ provider: 'openai', model: 'gpt-4o-mini' }), dataStore })
+      .expect(500);
+  });
+});
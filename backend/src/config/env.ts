@@ -59,6 +59,20 @@ interface Config {
   anthropicDefaultModel: string;
   /** Whether grounding is enabled */
   enableGrounding: boolean;
+  /** Embedding provider used for semantic prompt search ('hashing' or 'openai') */
+  embeddingProvider: string;
+  /** OpenAI model used when the embedding provider is 'openai' */
+  openaiEmbeddingModel: string;
+  /** Provider of the model that judges test responses; empty uses the default provider */
+  judgeProvider: string;
+  /** Model that judges test responses; empty uses the judge provider's default model */
+  judgeModel: string;
+  /** Days a deleted prompt or workflow stays in the trash before it is purged; 0 keeps it until purged by hand */
+  trashRetentionDays: number;
+  /** Most tasks of one workflow run executing at the same time */
+  workflowTaskConcurrency: number;
+  /** Most workflow tasks executing at the same time across all jobs of a worker process */
+  workflowGlobalTaskConcurrency: number;
   /** The current environment (development, production, test) */
   nodeEnv: string;
   /** The port number for the application server */
@@ -134,6 +148,13 @@ export default {
   openrouterBaseUrl: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
   anthropicDefaultModel: process.env.ANTHROPIC_DEFAULT_MODEL || 'claude-3-sonnet',
   enableGrounding: process.env.ENABLE_GROUNDING === 'true',
+  embeddingProvider: process.env.EMBEDDING_PROVIDER || 'hashing',
+  openaiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+  judgeProvider: process.env.JUDGE_PROVIDER || '',
+  judgeModel: process.env.JUDGE_MODEL || '',
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  workflowTaskConcurrency: parseInt(process.env.WORKFLOW_TASK_CONCURRENCY || '4', 10),
+  workflowGlobalTaskConcurrency: parseInt(process.env.WORKFLOW_GLOBAL_TASK_CONCURRENCY || '10', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
   port: process.env.PORT || 4000,
 
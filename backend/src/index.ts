@@ -7,6 +7,8 @@
  * @requires ./config/logger
  * @requires ./config/env
  * @requires ./services/webSocketService
+ * @requires ./services/embeddingService
+ * @requires ./services/trashService
  */
 
 import { createServer } from 'http';
@@ -14,6 +16,8 @@ import app from './app';
 import logger from './config/logger';
 import config from './config/env';
 import webSocketService from './services/webSocketService';
+import embeddingService from './services/embeddingService';
+import trashService from './services/trashService';
 
 const port = config.port;
 
@@ -27,12 +31,23 @@ webSocketService.initialize(server);
 server.listen(port, () => {
   logger.info(`Server is running on http://localhost:${port}`);
   logger.info(`WebSocket server is available at ws://localhost:${port}/ws`);
+
+  // Embed prompts saved before semantic search was enabled or under another embedding provider
+  embeddingService.backfillMissingEmbeddings()
+    .then(count => {
+      if (count > 0) logger.info(`Embedded ${count} prompts for semantic search`);
+    })
+    .catch(error => logger.error('Failed to backfill prompt embeddings', { error: error.message }));
+
+  // Purge prompts and workflows that have outlived the trash retention period
+  trashService.startAutoPurge();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   webSocketService.shutdown();
+  trashService.stopAutoPurge();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -42,6 +57,7 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
   webSocketService.shutdown();
+  trashService.stopAutoPurge();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
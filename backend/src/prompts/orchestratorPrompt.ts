@@ -50,14 +50,23 @@ You MUST respond with a single, valid JSON object that conforms exactly to the W
 - **SIMULATE_PROCESS**: Simulates processes for testing workflow logic
 - **DISPLAY_CHART**: Prepares data for visualization
 - **GEMINI_GROUNDED**: LLM prompts with real-time data grounding
+- **LLM_PROMPT**: Executes a prompt with a chosen provider and model (Google, OpenAI, Anthropic or OpenRouter)
+- **CONDITION**: Evaluates an expression over the Data Store and runs only the tasks on the matching branch; tasks on the other branches are skipped
+- **MAP**: Runs a small sub-graph of tasks once for every item of an array in the Data Store and collects the results in order
 
 ## Task-Specific Required Fields:
 
 **GEMINI_PROMPT/IMAGE_ANALYSIS/GEMINI_GROUNDED:**
 - Add: "promptTemplate": "Your prompt text with {{placeholder}} variables"
 
+**LLM_PROMPT:**
+- Add: "promptTemplate": "Your prompt text with {{placeholder}} variables"
+- Add: "agentConfig": { "provider": "openai" | "anthropic" | "google" | "openrouter", "model": "e.g. gpt-4o or claude-3-5-sonnet-20241022" }
+- Optionally add "parameters" to the agentConfig in the provider's own format, e.g. { "temperature": 0.2, "top_p": 0.9 }
+
 **TEXT_MANIPULATION:**
 - Add: "functionBody": "JavaScript function body as string, e.g. return \`Result: \${inputs.data}\`"
+- The function runs in a sandbox for at most one second: it sees only "inputs" and the JavaScript built-ins (no require, process, fetch or timers) and must return JSON data synchronously
 
 **DATA_INPUT:**
 - Add: "staticValue": "{{userInput.text}}" or "{{userInput.image}}" or "{{userInput.file}}" or literal value
@@ -65,6 +74,18 @@ You MUST respond with a single, valid JSON object that conforms exactly to the W
 **DISPLAY_CHART:**
 - Add: "dataKey": "Key pointing to chartable data in Data Store"
 
+**CONDITION:**
+- Add: "condition": "Expression over Data Store keys, e.g. trim(lower(sentiment)) == 'negative' or number(score) >= 7"
+- Add: "branches": { "true": ["task IDs to run when the result is true"], "false": ["task IDs to run when it is false"] }
+- Every task listed in a branch must depend on the CONDITION task; dependents not listed in any branch always run
+- Expressions support literals, dot-notation keys, ! && || == != < <= > >=, parentheses and the functions contains, startsWith, endsWith, lower, upper, trim, length and number; == does not convert types
+
+**MAP:**
+- Add: "itemsKey": "Data Store key of the array to run over, e.g. extractedSections"
+- Add: "subtasks": [ ...tasks in the same format, run once per item; use {{item}} and {{itemIndex}} for the current item ]
+- Optionally add: "concurrency": number of items processed at once (1-20, default 4)
+- The subtasks may only depend on each other, may not include another MAP, and must end in exactly one task whose output becomes that item's result
+
 ## Data Flow Patterns:
 - Use "userInput.text", "userInput.image", "userInput.file" for initial user data
 - Reference task outputs via their outputKey in subsequent inputKeys
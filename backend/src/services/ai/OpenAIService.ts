@@ -273,7 +273,8 @@ export class OpenAIService extends BaseAIService {
     return {
       model: request.model,
       messages,
-      ...parameters
+      ...parameters,
+      ...(request.forceJsonMode ? { response_format: { type: 'json_object' } } : {})
     };
   }
 
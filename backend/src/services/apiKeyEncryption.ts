@@ -0,0 +1,94 @@
+/**
+ * @file apiKeyEncryption.ts
+ * @description Encryption of the provider API keys users store in their session. The provider controller encrypts
+ * a key when it is stored, and the unified AI service decrypts it when a request, or a workflow run on the user's
+ * behalf, uses it. Both must share the secret, so it lives here rather than in either of them.
+ * Without `API_KEY_ENCRYPTION_SECRET` every process makes up its own secret, so a key stored before a restart, or
+ * queued with a workflow that another instance runs, cannot be decrypted, and the request using it fails.
+ *
+ * @requires crypto
+ * @since 0.6.0
+ */
+
+import crypto from 'crypto';
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const ENCRYPTION_KEY = process.env.API_KEY_ENCRYPTION_SECRET || crypto.randomBytes(32).toString('hex');
+
+/** How long an API key stored in a session stays usable */
+export const SESSION_KEY_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * An API key as it is stored in the session.
+ */
+export interface EncryptedApiKey {
+  encrypted: string;
+  iv: string;
+  tag?: string;
+  /** When the key was stored, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Encrypts an API key for storage in the session.
+ *
+ * @param apiKey - The plain API key.
+ * @returns The encrypted key with its IV and authentication tag.
+ * @throws {Error} If the key cannot be encrypted.
+ */
+export const encryptApiKey = (apiKey: string): { encrypted: string; iv: string; tag: string } => {
+  try {
+    const iv = crypto.randomBytes(16);
+    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+
+    let encrypted = cipher.update(apiKey, 'utf8', 'hex');
+    encrypted += cipher.final('hex');
+    const tag = cipher.getAuthTag().toString('hex');
+
+    return {
+      encrypted,
+      iv: iv.toString('hex'),
+      tag,
+    };
+  } catch (error) {
+    console.error('Failed to encrypt API key:', error);
+    throw new Error('Failed to encrypt API key');
+  }
+};
+
+/**
+ * Decrypts an API key stored in the session.
+ *
+ * @param encryptedData - The encrypted key with its IV and, for keys stored since tags were added, its tag.
+ * @returns The plain API key.
+ * @throws {Error} If the key cannot be decrypted.
+ */
+export const decryptApiKey = (encryptedData: { encrypted: string; iv: string; tag?: string }): string => {
+  try {
+    const iv = Buffer.from(encryptedData.iv, 'hex');
+    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
+
+    if (encryptedData.tag) {
+      decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
+    }
+
+    let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  } catch (error) {
+    console.error('Failed to decrypt API key:', error);
+    throw new Error('Failed to decrypt API key');
+  }
+};
+
+/**
+ * Tells whether a stored API key is older than {@link SESSION_KEY_TIMEOUT}.
+ *
+ * @param keyData - The stored key.
+ * @returns `true` if the key may no longer be used.
+ */
+export const isApiKeyExpired = (keyData: EncryptedApiKey): boolean =>
+  Date.now() - keyData.timestamp > SESSION_KEY_TIMEOUT;
@@ -0,0 +1,273 @@
+/**
+ * @file collectionService.ts
+ * @description This service manages collections, the personal folders users organize prompts into.
+ * Collections nest through a parent reference and are only ever visible to the user who created them.
+ * A prompt can be placed in any number of collections; placing it does not change who can see the prompt.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { Collection } from '../types';
+
+/**
+ * The longest allowed collection name, matching the `collections.name` column.
+ * @private
+ */
+const MAX_COLLECTION_NAME_LENGTH = 100;
+
+/**
+ * Postgres error code raised when a unique index is violated.
+ * @private
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * @class CollectionService
+ * @description A class to encapsulate the management of collections and their contents.
+ *
+ * @since 0.6.0
+ */
+class CollectionService {
+  /**
+   * Maps a collection row with a `prompt_count` column to the `Collection` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {Collection} The collection.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToCollection(row: any): Collection {
+    return {
+      id: row.id,
+      parentId: row.parent_id,
+      name: row.name,
+      promptCount: Number(row.prompt_count ?? 0),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Validates and trims a collection name.
+   *
+   * @param {unknown} name - The raw name.
+   * @returns {string} The trimmed name.
+   * @throws {Error} If the name is not a string, is empty, or is too long.
+   * @private
+   * @since 0.6.0
+   */
+  private parseName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Collection name is required');
+    }
+    if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      throw new Error(`Collection name must be ${MAX_COLLECTION_NAME_LENGTH} characters or less`);
+    }
+    return name.trim();
+  }
+
+  /**
+   * Checks that a requested parent collection belongs to the user and, when moving an existing
+   * collection, that the parent is not the collection itself or one of its descendants.
+   *
+   * @param {unknown} parentId - The requested parent ID; null or undefined means top level.
+   * @param {string} userId - The ID of the user.
+   * @param {string} [movingId] - The ID of the collection being moved, if any.
+   * @returns {Promise<string | null>} The validated parent ID, or null for top level.
+   * @throws {Error} If the parent does not exist, belongs to someone else, or would create a cycle.
+   * @private
+   * @since 0.6.0
+   */
+  private async resolveParent(parentId: unknown, userId: string, movingId?: string): Promise<string | null> {
+    if (parentId === null || parentId === undefined || parentId === '') return null;
+    if (typeof parentId !== 'string') {
+      throw new Error('parentId must be a collection ID');
+    }
+
+    const pool = await getPool();
+    const parent = await pool.query('SELECT id FROM collections WHERE id = $1 AND user_id = $2', [parentId, userId]);
+    if (!parent.rows[0]) {
+      throw new Error('Parent collection not found');
+    }
+
+    if (movingId) {
+      const cycle = await pool.query(
+        `WITH RECURSIVE subtree AS (
+           SELECT id FROM collections WHERE id = $1
+           UNION ALL
+           SELECT c.id FROM collections c JOIN subtree s ON c.parent_id = s.id
+         )
+         SELECT 1 FROM subtree WHERE id = $2`,
+        [movingId, parentId]
+      );
+      if (cycle.rows[0]) {
+        throw new Error('A collection cannot be moved into itself or one of its sub-collections');
+      }
+    }
+    return parentId;
+  }
+
+  /**
+   * Lists all of a user's collections as a flat list ordered by name.
+   * Clients build the tree from each collection's `parentId`.
+   *
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<Collection[]>} A promise that resolves to the user's collections.
+   * @since 0.6.0
+   */
+  async listCollections(userId: string): Promise<Collection[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT c.*, COUNT(cp.prompt_id)::int AS prompt_count FROM collections c
+       LEFT JOIN collection_prompts cp ON cp.collection_id = c.id
+       WHERE c.user_id = $1
+       GROUP BY c.id ORDER BY lower(c.name)`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRowToCollection(row));
+  }
+
+  /**
+   * Retrieves one of a user's collections.
+   *
+   * @param {string} id - The UUID of the collection.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<Collection | null>} A promise that resolves to the collection, or null if it does not exist or belongs to someone else.
+   * @since 0.6.0
+   */
+  async getCollection(id: string, userId: string): Promise<Collection | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT c.*, (SELECT COUNT(*)::int FROM collection_prompts WHERE collection_id = c.id) AS prompt_count
+       FROM collections c WHERE c.id = $1 AND c.user_id = $2`,
+      [id, userId]
+    );
+    return result.rows[0] ? this.mapRowToCollection(result.rows[0]) : null;
+  }
+
+  /**
+   * Creates a collection, optionally nested inside another of the user's collections.
+   *
+   * @param {{ name?: unknown; parentId?: unknown }} data - The name and optional parent of the collection.
+   * @param {string} userId - The ID of the user creating the collection.
+   * @returns {Promise<Collection>} A promise that resolves to the created collection.
+   * @throws {Error} If the name is invalid, the parent does not exist, or a sibling already has the same name.
+   *
+   * @example
+   * ```typescript
+   * const billing = await collectionService.createCollection({ name: 'Billing' }, userId);
+   * await collectionService.createCollection({ name: 'Refunds', parentId: billing.id }, userId);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async createCollection(data: { name?: unknown; parentId?: unknown }, userId: string): Promise<Collection> {
+    const name = this.parseName(data.name);
+    const parentId = await this.resolveParent(data.parentId, userId);
+
+    const pool = await getPool();
+    try {
+      const result = await pool.query(
+        'INSERT INTO collections (user_id, parent_id, name) VALUES ($1, $2, $3) RETURNING *',
+        [userId, parentId, name]
+      );
+      return this.mapRowToCollection(result.rows[0]);
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A collection named "${name}" already exists here`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Renames a collection and/or moves it under a different parent. Omitted fields are left unchanged,
+   * and a `parentId` of null moves the collection to the top level.
+   *
+   * @param {string} id - The UUID of the collection.
+   * @param {{ name?: unknown; parentId?: unknown }} data - The fields to change.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<Collection | null>} A promise that resolves to the updated collection, or null if it does not exist or belongs to someone else.
+   * @throws {Error} If the name is invalid, the move would create a cycle, or a sibling already has the same name.
+   * @since 0.6.0
+   */
+  async updateCollection(id: string, data: { name?: unknown; parentId?: unknown }, userId: string): Promise<Collection | null> {
+    const existing = await this.getCollection(id, userId);
+    if (!existing) return null;
+
+    const name = data.name !== undefined ? this.parseName(data.name) : existing.name;
+    const parentId = data.parentId !== undefined
+      ? await this.resolveParent(data.parentId, userId, id)
+      : existing.parentId;
+
+    const pool = await getPool();
+    try {
+      const result = await pool.query(
+        'UPDATE collections SET name = $1, parent_id = $2, updated_at = now() WHERE id = $3 AND user_id = $4 RETURNING *',
+        [name, parentId, id, userId]
+      );
+      if (!result.rows[0]) return null;
+      return this.mapRowToCollection({ ...result.rows[0], prompt_count: existing.promptCount });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A collection named "${name}" already exists here`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a collection together with its sub-collections. The prompts inside are not deleted.
+   *
+   * @param {string} id - The UUID of the collection.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<boolean>} A promise that resolves to true if the collection was deleted, false if it does not exist or belongs to someone else.
+   * @since 0.6.0
+   */
+  async deleteCollection(id: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query('DELETE FROM collections WHERE id = $1 AND user_id = $2', [id, userId]);
+    return !!result.rowCount;
+  }
+
+  /**
+   * Places a prompt in a collection. Adding a prompt that is already in the collection has no effect.
+   * Callers are responsible for checking that the collection belongs to the user and the prompt is visible to them.
+   *
+   * @param {string} collectionId - The UUID of the collection.
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<void>} A promise that resolves once the prompt is in the collection.
+   * @since 0.6.0
+   */
+  async addPrompt(collectionId: string, promptId: string): Promise<void> {
+    const pool = await getPool();
+    await pool.query(
+      'INSERT INTO collection_prompts (collection_id, prompt_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [collectionId, promptId]
+    );
+  }
+
+  /**
+   * Removes a prompt from one of the user's collections.
+   *
+   * @param {string} collectionId - The UUID of the collection.
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<boolean>} A promise that resolves to true if the prompt was removed, false if it was not in the user's collection.
+   * @since 0.6.0
+   */
+  async removePrompt(collectionId: string, promptId: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `DELETE FROM collection_prompts cp USING collections c
+       WHERE cp.collection_id = c.id AND c.id = $1 AND c.user_id = $2 AND cp.prompt_id = $3`,
+      [collectionId, userId, promptId]
+    );
+    return !!result.rowCount;
+  }
+}
+
+export default new CollectionService();
@@ -0,0 +1,199 @@
+/**
+ * @file embeddingService.ts
+ * @description This service computes and stores vector embeddings of prompts for semantic search.
+ * The embedding provider is pluggable and selected through configuration; the default
+ * hashing provider is deterministic and works offline.
+ *
+ * @requires ../config/database
+ * @requires ../config/env
+ * @requires ./embeddings/EmbeddingProvider
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import config from '../config/env';
+import { Prompt } from '../types';
+import { EmbeddingProvider } from './embeddings/EmbeddingProvider';
+import { createHashingEmbeddingProvider } from './embeddings/HashingEmbeddingProvider';
+import { createOpenAIEmbeddingProvider } from './embeddings/OpenAIEmbeddingProvider';
+
+/**
+ * Registry of available embedding provider factories, keyed by the `EMBEDDING_PROVIDER` setting.
+ * @private
+ */
+const PROVIDER_FACTORIES: Record<string, () => EmbeddingProvider> = {
+  hashing: createHashingEmbeddingProvider,
+  openai: createOpenAIEmbeddingProvider,
+};
+
+/**
+ * Number of prompts embedded per provider call when backfilling.
+ * @private
+ */
+const BACKFILL_BATCH_SIZE = 50;
+
+/**
+ * @class EmbeddingService
+ * @description A class to encapsulate embedding computation and storage for prompts.
+ *
+ * @since 0.6.0
+ */
+class EmbeddingService {
+  private provider: EmbeddingProvider | null = null;
+
+  /**
+   * Returns the configured embedding provider, creating it on first use.
+   *
+   * @returns {EmbeddingProvider} The active embedding provider.
+   * @throws {Error} If the configured provider is unknown.
+   * @since 0.6.0
+   */
+  getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      const factory = PROVIDER_FACTORIES[config.embeddingProvider];
+      if (!factory) {
+        throw new Error(`Unknown embedding provider: ${config.embeddingProvider}`);
+      }
+      this.provider = factory();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replaces the active embedding provider. Intended for tests and custom deployments.
+   *
+   * @param {EmbeddingProvider} provider - The provider to use from now on.
+   * @since 0.6.0
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Builds the text that represents a prompt for embedding purposes:
+   * the title, body and the descriptive SFL fields.
+   *
+   * @param {Prompt} prompt - The prompt record from the database.
+   * @returns {string} The text to embed.
+   * @since 0.6.0
+   */
+  buildPromptDocument(prompt: Prompt): string {
+    const metadata = prompt.metadata || {};
+    const field = metadata.sflField || {};
+    const tenor = metadata.sflTenor || {};
+    const mode = metadata.sflMode || {};
+
+    return [
+      prompt.title,
+      prompt.body,
+      field.topic,
+      field.taskType,
+      field.domainSpecifics,
+      field.keywords,
+      tenor.aiPersona,
+      Array.isArray(tenor.targetAudience) ? tenor.targetAudience.join(', ') : tenor.targetAudience,
+      tenor.desiredTone,
+      mode.outputFormat,
+      mode.rhetoricalStructure,
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Embeds a free-text query with the active provider.
+   *
+   * @param {string} text - The query text.
+   * @returns {Promise<number[]>} The query vector.
+   * @since 0.6.0
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.getProvider().embed([text]);
+    return vector;
+  }
+
+  /**
+   * Computes and stores the embedding of a prompt, replacing any previous embedding.
+   *
+   * @param {Prompt} prompt - The prompt record from the database.
+   * @returns {Promise<void>}
+   *
+   * @example
+   * ```typescript
+   * const result = await pool.query('INSERT INTO prompts ... RETURNING *', [...]);
+   * await embeddingService.indexPrompt(result.rows[0]);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async indexPrompt(prompt: Prompt): Promise<void> {
+    const provider = this.getProvider();
+    const [vector] = await provider.embed([this.buildPromptDocument(prompt)]);
+    await this.storeEmbedding(prompt.id, provider.name, vector);
+  }
+
+  /**
+   * Embeds every prompt that has no embedding from the active provider yet,
+   * e.g. prompts created before semantic search existed or after switching providers.
+   * Prompts in the trash are left out; they are picked up again once restored.
+   *
+   * @returns {Promise<number>} The number of prompts that were embedded.
+   * @since 0.6.0
+   */
+  async backfillMissingEmbeddings(): Promise<number> {
+    const provider = this.getProvider();
+    const pool = await getPool();
+    let indexed = 0;
+
+    while (true) {
+      const result = await pool.query(
+        `SELECT p.* FROM prompts p
+         LEFT JOIN prompt_embeddings e ON e.prompt_id = p.id AND e.provider = $1
+         WHERE e.prompt_id IS NULL AND p.deleted_at IS NULL
+         LIMIT $2`,
+        [provider.name, BACKFILL_BATCH_SIZE]
+      );
+      if (result.rows.length === 0) return indexed;
+
+      const vectors = await provider.embed(result.rows.map(row => this.buildPromptDocument(row)));
+      for (let i = 0; i < result.rows.length; i++) {
+        await this.storeEmbedding(result.rows[i].id, provider.name, vectors[i]);
+      }
+      indexed += result.rows.length;
+    }
+  }
+
+  /**
+   * Upserts a single embedding row.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} providerName - The name of the provider that produced the vector.
+   * @param {number[]} vector - The embedding vector.
+   * @private
+   * @since 0.6.0
+   */
+  private async storeEmbedding(promptId: string, providerName: string, vector: number[]): Promise<void> {
+    const pool = await getPool();
+    await pool.query(
+      `INSERT INTO prompt_embeddings (prompt_id, provider, embedding, updated_at) VALUES ($1, $2, $3::vector, now())
+       ON CONFLICT (prompt_id) DO UPDATE SET provider = EXCLUDED.provider, embedding = EXCLUDED.embedding, updated_at = now()`,
+      [promptId, providerName, toVectorLiteral(vector)]
+    );
+  }
+}
+
+/**
+ * Formats a vector as a pgvector text literal, e.g. `[0.1,0.2]`.
+ *
+ * @param {number[]} vector - The vector to format.
+ * @returns {string} The pgvector literal.
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/**
+ * @exports {EmbeddingService} embeddingService
+ * @description Singleton instance of the EmbeddingService class.
+ *
+ * @since 0.6.0
+ */
+export default new EmbeddingService();
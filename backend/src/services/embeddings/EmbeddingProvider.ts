@@ -0,0 +1,26 @@
+/**
+ * @file EmbeddingProvider.ts
+ * @description Common contract for text embedding providers used by semantic prompt search.
+ * Every provider must emit vectors with `EMBEDDING_DIMENSIONS` components so that they fit
+ * the `vector(1536)` columns in the database.
+ */
+
+/**
+ * Dimensionality of all stored embeddings. Matches the pgvector columns created by the migrations.
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * A pluggable source of text embeddings.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier stored alongside each embedding; vectors from different providers are never compared */
+  readonly name: string;
+
+  /**
+   * Embeds a batch of texts.
+   * @param texts - The texts to embed.
+   * @returns One vector of `EMBEDDING_DIMENSIONS` numbers per input text, in input order.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,68 @@
+/**
+ * @file HashingEmbeddingProvider.ts
+ * @description Deterministic, offline embedding provider based on feature hashing.
+ * Word unigrams and bigrams are hashed into a fixed number of signed buckets and the
+ * resulting vector is L2-normalized, so cosine similarity reflects shared vocabulary.
+ * It needs no network access or API key, which makes it the default for local development.
+ */
+
+import { EmbeddingProvider, EMBEDDING_DIMENSIONS } from './EmbeddingProvider';
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Splits text into lowercase word tokens, ignoring punctuation and `{{placeholder}}` braces.
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/**
+ * Feature-hashing embedding provider
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  /**
+   * Embeds a single text synchronously.
+   */
+  embedOne(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The lowest bit picks the sign so that collisions tend to cancel out rather than accumulate
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % EMBEDDING_DIMENSIONS] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+/**
+ * Factory function for the hashing embedding provider
+ */
+export function createHashingEmbeddingProvider(): HashingEmbeddingProvider {
+  return new HashingEmbeddingProvider();
+}
@@ -0,0 +1,46 @@
+/**
+ * @file OpenAIEmbeddingProvider.ts
+ * @description Embedding provider backed by the OpenAI embeddings API.
+ * Requests vectors truncated to `EMBEDDING_DIMENSIONS` so they are compatible with the database columns.
+ */
+
+import axios from 'axios';
+import config from '../../config/env';
+import { EmbeddingProvider, EMBEDDING_DIMENSIONS } from './EmbeddingProvider';
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * OpenAI embedding provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private readonly model: string, private readonly baseUrl: string = 'https://api.openai.com/v1') {
+    this.name = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const apiKey = await config.getOpenaiApiKey();
+    const response = await axios.post<OpenAIEmbeddingResponse>(
+      `${this.baseUrl}/embeddings`,
+      { model: this.model, input: texts, dimensions: EMBEDDING_DIMENSIONS },
+      { headers: { Authorization: `Bearer ${apiKey}` }, timeout: 30000 }
+    );
+
+    return response.data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Factory function for the OpenAI embedding provider
+ */
+export function createOpenAIEmbeddingProvider(): OpenAIEmbeddingProvider {
+  return new OpenAIEmbeddingProvider(config.openaiEmbeddingModel);
+}
@@ -0,0 +1,199 @@
+/**
+ * @file assertions.ts
+ * @description Checkers for the assertions of evaluation test cases. Every assertion type has one checker,
+ * registered in `ASSERTION_CHECKERS`; all but `llm-rubric` are deterministic and run locally.
+ *
+ * @requires vm
+ * @requires ajv
+ * @since 0.6.0
+ */
+
+import vm from 'vm';
+import Ajv, { ValidateFunction } from 'ajv';
+import { EvalAssertion, EvalAssertionResult, EvalAssertionType } from '../../types';
+
+/**
+ * What a checker gets to work with besides the assertion itself.
+ */
+export interface AssertionContext {
+  /** The model output under test */
+  output: string;
+
+  /** The compiler for the JSON Schemas of the suite run */
+  schemas: SchemaCompiler;
+
+  /**
+   * Sends a grading prompt to the judge model.
+   * @param prompt - The grading prompt.
+   * @returns The judge's raw response text.
+   */
+  judge(prompt: string): Promise<string>;
+}
+
+/**
+ * A checker for one assertion type.
+ */
+type AssertionChecker<T extends EvalAssertionType> = (
+  assertion: Extract<EvalAssertion, { type: T }>,
+  context: AssertionContext
+) => Omit<EvalAssertionResult, 'type'> | Promise<Omit<EvalAssertionResult, 'type'>>;
+
+/**
+ * Score an `llm-rubric` assertion must reach when it sets no threshold.
+ * @private
+ */
+const DEFAULT_RUBRIC_THRESHOLD = 0.5;
+
+/**
+ * How long a `regex` assertion may take to match, in milliseconds. Patterns are written by users and run against
+ * model output on the API's thread, so a pattern that backtracks catastrophically is stopped rather than left to
+ * block every other request.
+ * @private
+ */
+const REGEX_TIMEOUT_MS = 100;
+
+/**
+ * Matches a pattern against the output under the time limit.
+ * @returns Whether the pattern matched, or null if it ran out of time.
+ * @private
+ */
+const matchWithTimeout = (pattern: string, flags: string | undefined, output: string): boolean | null => {
+  try {
+    return vm.runInNewContext('new RegExp(pattern, flags).test(output)', { pattern, flags, output }, { timeout: REGEX_TIMEOUT_MS });
+  } catch (error: any) {
+    if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return null;
+    throw error;
+  }
+};
+
+/**
+ * Compiles the JSON Schemas of `json-schema` assertions for one suite run. Ajv keeps every schema it compiles and
+ * refuses a second schema with the same `$id`, so every run gets a compiler of its own that is dropped with the run.
+ * A schema used by several cases of the run is compiled once.
+ */
+export class SchemaCompiler {
+  private readonly ajv = new Ajv({ allErrors: true });
+  private readonly validators = new Map<string, ValidateFunction>();
+
+  /**
+   * @param schema - The JSON Schema.
+   * @returns The validator for the schema.
+   */
+  compile(schema: Record<string, unknown>): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validate = this.validators.get(key);
+    if (!validate) {
+      validate = this.ajv.compile(schema);
+      this.validators.set(key, validate);
+    }
+    return validate;
+  }
+
+  /**
+   * @param errors - The errors of a failed validation.
+   * @returns The errors as one readable message.
+   */
+  errorsText(errors: ValidateFunction['errors']): string {
+    return this.ajv.errorsText(errors);
+  }
+}
+
+/**
+ * Builds the result of a deterministic assertion.
+ * @private
+ */
+const outcome = (passed: boolean, message: string) => ({ passed, score: passed ? 1 : 0, message });
+
+/**
+ * Builds the prompt asking the judge model to grade an output against a rubric.
+ * @private
+ */
+const buildJudgePrompt = (rubric: string, output: string): string => [
+  'You are grading the output of a language model against a rubric.',
+  'Respond with only a JSON object of the form {"score": <number from 0 to 1>, "reason": "<one sentence>"}.',
+  '',
+  'Rubric:',
+  rubric,
+  '',
+  'Output:',
+  output,
+].join('\n');
+
+/**
+ * Reads the score and reason out of the judge's response.
+ * @private
+ */
+const parseJudgement = (text: string): { score: number; reason: string } => {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error('The judge did not return a JSON object');
+  }
+  const parsed = JSON.parse(json[0]);
+  const score = Number(parsed.score);
+  if (!Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error('The judge returned a score outside 0 to 1');
+  }
+  return { score, reason: typeof parsed.reason === 'string' ? parsed.reason : '' };
+};
+
+/**
+ * Registry of assertion checkers, keyed by assertion type.
+ */
+export const ASSERTION_CHECKERS: { [T in EvalAssertionType]: AssertionChecker<T> } = {
+  contains(assertion, { output }) {
+    const found = assertion.caseSensitive
+      ? output.includes(assertion.value)
+      : output.toLowerCase().includes(assertion.value.toLowerCase());
+    return outcome(found, found ? `Contains "${assertion.value}"` : `Does not contain "${assertion.value}"`);
+  },
+
+  regex(assertion, { output }) {
+    const matched = matchWithTimeout(assertion.pattern, assertion.flags, output);
+    if (matched === null) {
+      return outcome(false, `Matching /${assertion.pattern}/ took longer than ${REGEX_TIMEOUT_MS} ms`);
+    }
+    return outcome(matched, matched ? `Matches /${assertion.pattern}/` : `Does not match /${assertion.pattern}/`);
+  },
+
+  'json-schema'(assertion, { output, schemas }) {
+    let data: unknown;
+    try {
+      data = JSON.parse(output.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+      return outcome(false, 'Output is not valid JSON');
+    }
+    const validate = schemas.compile(assertion.schema);
+    if (validate(data)) {
+      return outcome(true, 'Output matches the JSON Schema');
+    }
+    return outcome(false, `Output does not match the JSON Schema: ${schemas.errorsText(validate.errors)}`);
+  },
+
+  'max-length'(assertion, { output }) {
+    const passed = output.length <= assertion.value;
+    return outcome(passed, `${output.length} of at most ${assertion.value} characters`);
+  },
+
+  async 'llm-rubric'(assertion, { output, judge }) {
+    const threshold = assertion.threshold ?? DEFAULT_RUBRIC_THRESHOLD;
+    try {
+      const { score, reason } = parseJudgement(await judge(buildJudgePrompt(assertion.rubric, output)));
+      return { passed: score >= threshold, score, message: reason || `Scored ${score} against the rubric` };
+    } catch (error) {
+      return { passed: false, score: 0, message: `Rubric could not be graded: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  },
+};
+
+/**
+ * Checks one assertion against a model output.
+ *
+ * @param {EvalAssertion} assertion - The assertion to check.
+ * @param {AssertionContext} context - The output under test and access to the judge model.
+ * @returns {Promise<EvalAssertionResult>} Whether the assertion passed, with its score and an explanation.
+ * @since 0.6.0
+ */
+export async function checkAssertion(assertion: EvalAssertion, context: AssertionContext): Promise<EvalAssertionResult> {
+  const checker = ASSERTION_CHECKERS[assertion.type] as AssertionChecker<EvalAssertionType>;
+  return { type: assertion.type, ...await checker(assertion as never, context) };
+}
@@ -0,0 +1,342 @@
+/**
+ * @file evalSuiteService.ts
+ * @description This service manages the evaluation suites attached to prompts and runs them.
+ * Running a suite renders the prompt once per test case, sends it through `UnifiedAIService` to the
+ * chosen provider and checks the output against the case's assertions. Every run is stored with its
+ * per-case pass/fail results and scores, giving a repeatable quality signal for the prompt.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @requires ../validation/evalSchemas
+ * @requires ./unifiedAIService
+ * @requires ./promptCompositionService
+ * @requires ./eval/assertions
+ * @since 0.6.0
+ */
+
+import { randomUUID } from 'crypto';
+import getPool from '../config/database';
+import { EvalCaseResult, EvalRun, EvalSuite, EvalTestCase, PromptSFL } from '../types';
+import { validateEvalSuite } from '../validation/evalSchemas';
+import UnifiedAIService, { ProviderAwareRequest } from './unifiedAIService';
+import PromptCompositionService from './promptCompositionService';
+import { checkAssertion, SchemaCompiler } from './eval/assertions';
+
+/**
+ * Default and maximum number of runs returned when listing a suite's history.
+ * @private
+ */
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 100;
+
+/**
+ * @class EvalSuiteService
+ * @description A class to encapsulate evaluation suites and their runs.
+ *
+ * @since 0.6.0
+ */
+class EvalSuiteService {
+  /**
+   * Maps a `prompt_eval_suites` row to the `EvalSuite` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {EvalSuite} The suite.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToSuite(row: any): EvalSuite {
+    return {
+      id: row.id,
+      promptId: row.prompt_id,
+      name: row.name,
+      description: row.description,
+      cases: row.cases || [],
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Maps a `prompt_eval_runs` row to the `EvalRun` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {EvalRun} The run.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToRun(row: any): EvalRun {
+    return {
+      id: row.id,
+      suiteId: row.suite_id,
+      promptId: row.prompt_id,
+      provider: row.provider,
+      model: row.model,
+      passed: row.passed,
+      failed: row.failed,
+      score: Number(row.score),
+      results: row.results || [],
+      createdBy: row.created_by,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+    };
+  }
+
+  /**
+   * Validates the editable fields of a suite and gives every test case an ID.
+   *
+   * @param {unknown} data - The suite fields.
+   * @returns {Pick<EvalSuite, 'name' | 'description' | 'cases'>} The validated fields.
+   * @throws {Error} If the suite is invalid.
+   * @private
+   * @since 0.6.0
+   */
+  private parseSuite(data: unknown): Pick<EvalSuite, 'name' | 'description' | 'cases'> {
+    const validation = validateEvalSuite(data);
+    if (!validation.success) {
+      throw new Error(`Invalid evaluation suite: ${validation.errors.join('; ')}`);
+    }
+    const { name, description, cases } = validation.data;
+    return {
+      name,
+      description,
+      cases: cases.map(testCase => ({ ...testCase, id: testCase.id || randomUUID() })),
+    };
+  }
+
+  /**
+   * Lists the evaluation suites of a prompt. Callers are responsible for checking that the prompt is visible to the user.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<EvalSuite[]>} A promise that resolves to the suites, ordered by name.
+   * @since 0.6.0
+   */
+  async listSuites(promptId: string): Promise<EvalSuite[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_eval_suites WHERE prompt_id = $1 ORDER BY lower(name), created_at',
+      [promptId]
+    );
+    return result.rows.map(row => this.mapRowToSuite(row));
+  }
+
+  /**
+   * Retrieves one evaluation suite of a prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} suiteId - The UUID of the suite.
+   * @returns {Promise<EvalSuite | null>} A promise that resolves to the suite, or null if the prompt has no such suite.
+   * @since 0.6.0
+   */
+  async getSuite(promptId: string, suiteId: string): Promise<EvalSuite | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_eval_suites WHERE id = $1 AND prompt_id = $2',
+      [suiteId, promptId]
+    );
+    return result.rows[0] ? this.mapRowToSuite(result.rows[0]) : null;
+  }
+
+  /**
+   * Creates an evaluation suite for a prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {unknown} data - The suite's `name`, optional `description` and `cases`.
+   * @param {string} userId - The ID of the user creating the suite.
+   * @returns {Promise<EvalSuite>} A promise that resolves to the created suite.
+   * @throws {Error} If the suite is invalid.
+   *
+   * @example
+   * ```typescript
+   * await evalSuiteService.createSuite(promptId, {
+   *   name: 'Refund replies',
+   *   cases: [{ variables: { customer: 'Ana' }, assertions: [{ type: 'contains', value: 'Ana' }] }]
+   * }, userId);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async createSuite(promptId: string, data: unknown, userId: string): Promise<EvalSuite> {
+    const suite = this.parseSuite(data);
+    const pool = await getPool();
+    const result = await pool.query(
+      `INSERT INTO prompt_eval_suites (prompt_id, name, description, cases, created_by)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [promptId, suite.name, suite.description, JSON.stringify(suite.cases), userId]
+    );
+    return this.mapRowToSuite(result.rows[0]);
+  }
+
+  /**
+   * Updates an evaluation suite. Omitted fields are left unchanged; `cases` replaces the whole list.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} suiteId - The UUID of the suite.
+   * @param {Record<string, unknown>} data - The fields to change.
+   * @returns {Promise<EvalSuite | null>} A promise that resolves to the updated suite, or null if the prompt has no such suite.
+   * @throws {Error} If the resulting suite is invalid.
+   * @since 0.6.0
+   */
+  async updateSuite(promptId: string, suiteId: string, data: Record<string, unknown>): Promise<EvalSuite | null> {
+    const existing = await this.getSuite(promptId, suiteId);
+    if (!existing) return null;
+
+    const suite = this.parseSuite({
+      name: data.name ?? existing.name,
+      description: data.description ?? existing.description,
+      cases: data.cases ?? existing.cases,
+    });
+    const pool = await getPool();
+    const result = await pool.query(
+      `UPDATE prompt_eval_suites SET name = $1, description = $2, cases = $3, updated_at = now()
+       WHERE id = $4 AND prompt_id = $5 RETURNING *`,
+      [suite.name, suite.description, JSON.stringify(suite.cases), suiteId, promptId]
+    );
+    return result.rows[0] ? this.mapRowToSuite(result.rows[0]) : null;
+  }
+
+  /**
+   * Deletes an evaluation suite together with its runs.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} suiteId - The UUID of the suite.
+   * @returns {Promise<boolean>} A promise that resolves to true if the suite was deleted, false if the prompt has no such suite.
+   * @since 0.6.0
+   */
+  async deleteSuite(promptId: string, suiteId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query('DELETE FROM prompt_eval_suites WHERE id = $1 AND prompt_id = $2', [suiteId, promptId]);
+    return !!result.rowCount;
+  }
+
+  /**
+   * Runs every test case of a suite against a provider and records the results.
+   * Cases run one after another to stay within provider rate limits. A case whose prompt cannot be
+   * rendered or whose model call fails is recorded as failed rather than aborting the run.
+   * `llm-rubric` assertions are graded by the same provider and model.
+   *
+   * @param {PromptSFL} prompt - The prompt under test.
+   * @param {EvalSuite} suite - The suite to run.
+   * @param {ProviderAwareRequest} providerConfig - The provider, model and parameters to run the prompt with.
+   * @param {string} userId - The ID of the user starting the run.
+   * @returns {Promise<EvalRun>} A promise that resolves to the recorded run.
+   * @throws {Error} If the suite has no test cases.
+   * @since 0.6.0
+   */
+  async runSuite(prompt: PromptSFL, suite: EvalSuite, providerConfig: ProviderAwareRequest, userId: string): Promise<EvalRun> {
+    if (suite.cases.length === 0) {
+      throw new Error('The suite has no test cases to run');
+    }
+
+    const startedAt = new Date().toISOString();
+    const results: EvalCaseResult[] = [];
+    const schemas = new SchemaCompiler();
+    for (const testCase of suite.cases) {
+      results.push(await this.runCase(prompt, testCase, providerConfig, schemas));
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    const score = results.reduce((sum, result) => sum + result.score, 0) / results.length;
+
+    const pool = await getPool();
+    const result = await pool.query(
+      `INSERT INTO prompt_eval_runs (suite_id, prompt_id, provider, model, passed, failed, score, results, created_by, started_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [
+        suite.id,
+        prompt.id,
+        providerConfig.provider || 'google',
+        providerConfig.model || 'default',
+        passed,
+        results.length - passed,
+        score,
+        JSON.stringify(results),
+        userId,
+        startedAt,
+      ]
+    );
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  /**
+   * Lists the recorded runs of a suite, newest first.
+   *
+   * @param {string} suiteId - The UUID of the suite.
+   * @param {unknown} [limit] - The maximum number of runs to return.
+   * @returns {Promise<EvalRun[]>} A promise that resolves to the runs.
+   * @throws {Error} If the limit is not a positive integer.
+   * @since 0.6.0
+   */
+  async listRuns(suiteId: string, limit?: unknown): Promise<EvalRun[]> {
+    let parsedLimit = DEFAULT_RUN_LIMIT;
+    if (limit !== undefined) {
+      parsedLimit = Number(limit);
+      if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+        throw new Error('limit must be a positive integer');
+      }
+    }
+
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_eval_runs WHERE suite_id = $1 ORDER BY completed_at DESC LIMIT $2',
+      [suiteId, Math.min(parsedLimit, MAX_RUN_LIMIT)]
+    );
+    return result.rows.map(row => this.mapRowToRun(row));
+  }
+
+  /**
+   * Runs a single test case.
+   *
+   * @param {PromptSFL} prompt - The prompt under test.
+   * @param {EvalTestCase} testCase - The test case.
+   * @param {ProviderAwareRequest} providerConfig - The provider configuration.
+   * @param {SchemaCompiler} schemas - The compiler for the JSON Schemas of the run.
+   * @returns {Promise<EvalCaseResult>} The case's outcome.
+   * @private
+   * @since 0.6.0
+   */
+  private async runCase(
+    prompt: PromptSFL,
+    testCase: EvalTestCase,
+    providerConfig: ProviderAwareRequest,
+    schemas: SchemaCompiler
+  ): Promise<EvalCaseResult> {
+    const base = { caseId: testCase.id, description: testCase.description };
+    let renderedPrompt = '';
+    const started = Date.now();
+    try {
+      renderedPrompt = PromptCompositionService.fillVariables(prompt, testCase.variables);
+      const output = await UnifiedAIService.testPrompt(renderedPrompt, providerConfig);
+      const latencyMs = Date.now() - started;
+
+      const context = { output, schemas, judge: (judgePrompt: string) => UnifiedAIService.testPrompt(judgePrompt, providerConfig) };
+      const assertions = [];
+      for (const assertion of testCase.assertions) {
+        assertions.push(await checkAssertion(assertion, context));
+      }
+
+      return {
+        ...base,
+        renderedPrompt,
+        output,
+        passed: assertions.every(assertion => assertion.passed),
+        score: assertions.reduce((sum, assertion) => sum + assertion.score, 0) / assertions.length,
+        latencyMs,
+        assertions,
+      };
+    } catch (error) {
+      return {
+        ...base,
+        renderedPrompt,
+        output: '',
+        error: error instanceof Error ? error.message : String(error),
+        passed: false,
+        score: 0,
+        latencyMs: Date.now() - started,
+        assertions: [],
+      };
+    }
+  }
+}
+
+export default new EvalSuiteService();
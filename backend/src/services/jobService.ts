@@ -3,15 +3,20 @@
  * @description Job service that manages background workflow execution using BullMQ.
  * Provides functionality to add workflow execution jobs to a queue and process them
  * asynchronously. Integrates with the existing workflowExecutionService for actual execution.
+ * The tasks of a workflow run as a dependency graph: independent tasks run concurrently, limited per job by
+ * `WORKFLOW_TASK_CONCURRENCY` and across all jobs of the worker by `WORKFLOW_GLOBAL_TASK_CONCURRENCY`.
+ * The subtasks of MAP tasks count toward the global limit as well.
  */
 
 import { Queue, Worker, Job, JobProgress } from 'bullmq';
 import Redis from 'ioredis';
 import config from '../config/env';
-import workflowExecutionService from './workflowExecutionService';
+import workflowExecutionService, { TaskExecutionContext } from './workflowExecutionService';
 import promptService from './promptService';
 import webSocketService from './webSocketService';
-import { Workflow, Task, PromptSFL } from '../types';
+import { ConcurrencyLimiter, runTaskGraph } from './workflow/taskGraph';
+import { MapItemProgress } from './workflow/mapTask';
+import { Workflow, PromptSFL } from '../types';
 
 /**
  * @interface WorkflowJobData
@@ -21,6 +26,8 @@ interface WorkflowJobData {
   workflowId: string;
   workflow: Workflow;
   userInput?: Record<string, any>;
+  userId?: string;
+  sessionKeys?: TaskExecutionContext['sessionKeys']; // Still encrypted, as they are in the session
 }
 
 /**
@@ -30,9 +37,13 @@ interface WorkflowJobData {
 interface WorkflowJobProgress {
   taskId: string;
   taskName: string;
-  status: 'active' | 'completed' | 'failed';
+  status: 'active' | 'completed' | 'failed' | 'skipped';
   result?: any;
   error?: string;
+  reason?: string; // Why a skipped task did not run
+  item?: MapItemProgress; // The item of a MAP task that started, completed or failed
+  completedTasks: number;
+  totalTasks: number;
 }
 
 /**
@@ -43,6 +54,8 @@ class JobService {
   private worker?: Worker;
   private redis?: Redis;
   private initPromise?: Promise<void>;
+  /** Shared by all jobs of this worker, so that concurrent jobs together stay within the global task limit */
+  private readonly taskLimiter = new ConcurrencyLimiter(config.workflowGlobalTaskConcurrency);
 
   constructor() {
     // Initialize asynchronously
@@ -96,12 +109,16 @@ class JobService {
    * @param workflowId - Unique identifier for the workflow
    * @param workflow - The workflow object to execute
    * @param userInput - Optional user input data
+   * @param userId - The user running the workflow; linked prompts must be visible to them
+   * @param sessionKeys - The provider keys from the user's session, used by LLM_PROMPT tasks
    * @returns Promise resolving to the job ID
    */
   async addWorkflowJob(
     workflowId: string, 
     workflow: Workflow, 
-    userInput?: Record<string, any>
+    userInput?: Record<string, any>,
+    userId?: string,
+    sessionKeys?: TaskExecutionContext['sessionKeys']
   ): Promise<string> {
     await this.initPromise; // Wait for initialization
     if (!this.queue) {
@@ -112,6 +129,8 @@ class JobService {
       workflowId,
       workflow,
       userInput,
+      userId,
+      sessionKeys,
     };
 
     const job = await this.queue.add('execute-workflow', jobData, {
@@ -196,34 +215,37 @@ class JobService {
    * @returns Promise resolving to the workflow execution result
    */
   private async processWorkflowJob(job: Job<WorkflowJobData>): Promise<any> {
-    const { workflowId, workflow, userInput } = job.data;
+    const { workflowId, workflow, userInput, userId, sessionKeys } = job.data;
 
     try {
       // Update job progress
       await job.updateProgress({ status: 'started', workflowId });
 
       // Get prompts needed for the workflow
-      const promptIds = (workflow.tasks || [])
+      const promptIds = [...new Set((workflow.tasks || [])
+        .flatMap(task => [task, ...(task.subtasks || [])])
         .filter(task => task.promptId)
-        .map(task => task.promptId!);
+        .map(task => task.promptId!))];
       
       const prompts: PromptSFL[] = [];
       for (const promptId of promptIds) {
-        const prompt = await promptService.getPromptById(promptId);
+        const prompt = await promptService.getPromptById(promptId, userId);
+        // A prompt can leave the approved status while the job waits in the queue
+        if (workflow.requireApprovedPrompts && prompt?.status !== 'approved') {
+          throw new Error(`Prompt "${prompt?.title ?? promptId}" is not approved`);
+        }
         if (prompt) {
           prompts.push(prompt);
         }
       }
 
-      // Execute workflow tasks in order
       const results: Record<string, any> = {};
       const dataStore: Record<string, any> = { userInput: userInput || {} };
 
-      // Simple sequential execution for now (will be enhanced with topological sort later)
+      // Each task starts as soon as the tasks it depends on have completed
       const tasks = workflow.tasks || [];
-      for (let i = 0; i < tasks.length; i++) {
-        const task = tasks[i];
-        
+      let completedTasks = 0;
+      await runTaskGraph(tasks, async task => {
         try {
           // Check if job has been cancelled before processing each task
           const currentJob = await this.queue?.getJob(job.id!);
@@ -237,7 +259,7 @@ class JobService {
             status: 'active',
             taskId: task.id,
             taskName: task.name,
-            currentTask: i + 1,
+            completedTasks,
             totalTasks: tasks.length,
           } as WorkflowJobProgress);
 
@@ -247,7 +269,22 @@ class JobService {
             : undefined;
 
           // Execute the task
-          const result = await workflowExecutionService.executeTask(task, dataStore, linkedPrompt);
+          const result = await workflowExecutionService.executeTask(task, dataStore, linkedPrompt, {
+            userId,
+            prompts,
+            sessionKeys,
+            taskLimiter: this.taskLimiter,
+            onMapItem: item => {
+              job.updateProgress({
+                status: 'active',
+                taskId: task.id,
+                taskName: task.name,
+                item,
+                completedTasks,
+                totalTasks: tasks.length,
+              } as WorkflowJobProgress).catch(error => console.error(`Failed to report item ${item.index} of task ${task.id}:`, error));
+            },
+          });
           
           // Check again for cancellation after task execution
           const jobAfterExecution = await this.queue?.getJob(job.id!);
@@ -256,9 +293,10 @@ class JobService {
             throw new Error('Workflow execution was cancelled');
           }
           
-          // Store result in dataStore for next tasks
+          // Store result in dataStore for dependent tasks
           dataStore[task.outputKey] = result;
           results[task.id] = result;
+          completedTasks++;
 
           // Update progress for completed task
           await job.updateProgress({
@@ -266,8 +304,11 @@ class JobService {
             taskId: task.id,
             taskName: task.name,
             result,
+            completedTasks,
+            totalTasks: tasks.length,
           } as WorkflowJobProgress);
 
+          return result;
         } catch (error) {
           // Check if this is a cancellation error
           if (error instanceof Error && error.message === 'Workflow execution was cancelled') {
@@ -281,11 +322,30 @@ class JobService {
             taskId: task.id,
             taskName: task.name,
             error: error instanceof Error ? error.message : 'Unknown error',
+            completedTasks,
+            totalTasks: tasks.length,
           } as WorkflowJobProgress);
 
-          throw error; // Re-throw to fail the entire job
+          throw error; // Re-throw to fail the entire job once running tasks have finished
         }
-      }
+      }, {
+        concurrency: config.workflowTaskConcurrency,
+        limiter: this.taskLimiter,
+        // Tasks on a branch a condition did not take leave nothing for their dependents to read
+        onSkip: async (task, reason) => {
+          dataStore[task.outputKey] = null;
+          results[task.id] = null;
+          completedTasks++;
+          await job.updateProgress({
+            status: 'skipped',
+            taskId: task.id,
+            taskName: task.name,
+            reason,
+            completedTasks,
+            totalTasks: tasks.length,
+          } as WorkflowJobProgress);
+        },
+      });
 
       return {
         workflowId,
@@ -361,6 +421,10 @@ class JobService {
           status: workflowProgress.status,
           result: workflowProgress.result,
           error: workflowProgress.error,
+          reason: workflowProgress.reason,
+          item: workflowProgress.item,
+          completedTasks: workflowProgress.completedTasks,
+          totalTasks: workflowProgress.totalTasks,
         });
       }
     });
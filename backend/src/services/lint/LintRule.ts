@@ -0,0 +1,31 @@
+/**
+ * @file LintRule.ts
+ * @description Common contract for the rules run by the SFL prompt linter.
+ * Rules are pure functions of the prompt: they must not call an LLM, the database or the network,
+ * so linting is instant and free.
+ */
+
+import { LintDiagnostic, PromptSFL } from '../../types';
+
+/**
+ * The prompt as seen by lint rules. Every SFL part is present, with empty values for missing fields.
+ */
+export type LintablePrompt = Pick<PromptSFL, 'title' | 'promptText' | 'sflField' | 'sflTenor' | 'sflMode' | 'variables'>;
+
+/**
+ * A pluggable lint rule.
+ */
+export interface LintRule {
+  /** Stable identifier reported with each diagnostic and used to disable the rule */
+  readonly id: string;
+
+  /** One-line summary of what the rule checks */
+  readonly description: string;
+
+  /**
+   * Checks a prompt.
+   * @param prompt - The prompt to check.
+   * @returns The rule's findings; `ruleId` is filled in by the linter.
+   */
+  check(prompt: LintablePrompt): Array<Omit<LintDiagnostic, 'ruleId'>>;
+}
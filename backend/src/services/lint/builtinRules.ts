@@ -0,0 +1,168 @@
+/**
+ * @file builtinRules.ts
+ * @description The lint rules that ship with the prompt linter. Each rule compares two parts of an
+ * SFL prompt that are meant to agree, e.g. the declared output format and the prompt text.
+ */
+
+import { LintRule } from './LintRule';
+
+/**
+ * Structured output formats and how the prompt text can refer to them. Formats such as
+ * "Plain Text" or "Poem" need no explicit instruction and are not listed.
+ * @private
+ */
+const OUTPUT_FORMAT_MENTIONS: Array<{ format: RegExp; mention: RegExp; name: string }> = [
+  { format: /\bjson\b/i, mention: /\bjson\b/i, name: 'JSON' },
+  { format: /\bxml\b/i, mention: /\bxml\b/i, name: 'XML' },
+  { format: /\bhtml\b/i, mention: /\bhtml\b/i, name: 'HTML' },
+  { format: /\bya?ml\b/i, mention: /\bya?ml\b/i, name: 'YAML' },
+  { format: /\b(csv|spreadsheet)\b/i, mention: /\b(csv|spreadsheet|comma[- ]separated|table)\b/i, name: 'CSV' },
+  { format: /\bmarkdown\b/i, mention: /\bmarkdown\b/i, name: 'Markdown' },
+  { format: /\bpython\b/i, mention: /\bpython\b/i, name: 'Python' },
+  { format: /\bjavascript\b/i, mention: /\b(javascript|js)\b/i, name: 'JavaScript' },
+];
+
+/**
+ * Audience and tone combinations that work against each other.
+ * @private
+ */
+const AUDIENCE_TONE_CONFLICTS: Array<{ audience: RegExp; tone: RegExp; reason: string }> = [
+  { audience: /\bchild/i, tone: /\b(formal|critical)\b/i, reason: 'children respond better to a warm, simple register' },
+  { audience: /\bbeginner/i, tone: /\bcritical\b/i, reason: 'beginners are easily discouraged by criticism' },
+  {
+    audience: /\b(policy makers|business|academic|researcher)/i,
+    tone: /\b(humorous|informal)\b/i,
+    reason: 'professional audiences usually expect a measured register',
+  },
+];
+
+/**
+ * Extracts the unique `{{placeholder}}` names of a text.
+ * @private
+ */
+const placeholderNames = (text: string): string[] => {
+  const names = (text.match(/{{\s*\w+\s*}}/g) || []).map(placeholder => placeholder.replace(/[{}\s]/g, ''));
+  return names.filter((name, index) => names.indexOf(name) === index);
+};
+
+/**
+ * Flags a structured output format that the prompt text never asks for.
+ */
+export const outputFormatMentionedRule: LintRule = {
+  id: 'output-format-mentioned',
+  description: 'A structured output format should be requested in the prompt text',
+  check(prompt) {
+    const outputFormat = prompt.sflMode.outputFormat;
+    const entry = OUTPUT_FORMAT_MENTIONS.find(candidate => candidate.format.test(outputFormat));
+    if (!entry || !prompt.promptText.trim() || entry.mention.test(prompt.promptText)) return [];
+    return [{
+      severity: 'warning',
+      message: `The output format is ${outputFormat}, but the prompt text never mentions ${entry.name}.`,
+      field: 'sflMode.outputFormat',
+    }];
+  },
+};
+
+/**
+ * Flags a prompt without a length constraint.
+ */
+export const lengthConstraintRule: LintRule = {
+  id: 'length-constraint-missing',
+  description: 'The prompt should state how long the response may be',
+  check(prompt) {
+    if (prompt.sflMode.lengthConstraint.trim()) return [];
+    return [{
+      severity: 'info',
+      message: 'No length constraint is set, so the length of the response is left to the model.',
+      field: 'sflMode.lengthConstraint',
+    }];
+  },
+};
+
+/**
+ * Flags a desired tone that is unsuited to one of the target audiences.
+ */
+export const audienceToneConflictRule: LintRule = {
+  id: 'audience-tone-conflict',
+  description: 'The desired tone should suit every target audience',
+  check(prompt) {
+    const tone = prompt.sflTenor.desiredTone;
+    return prompt.sflTenor.targetAudience.flatMap(audience => AUDIENCE_TONE_CONFLICTS
+      .filter(conflict => conflict.audience.test(audience) && conflict.tone.test(tone))
+      .map(conflict => ({
+        severity: 'warning' as const,
+        message: `A ${tone} tone may not suit ${audience}: ${conflict.reason}.`,
+        field: 'sflTenor.desiredTone',
+      })));
+  },
+};
+
+/**
+ * Flags placeholders in the prompt text that have no variable declaration.
+ */
+export const undeclaredPlaceholderRule: LintRule = {
+  id: 'undeclared-placeholder',
+  description: 'Every {{placeholder}} in the prompt text should be declared as a variable',
+  check(prompt) {
+    const declared = new Set((prompt.variables || []).map(variable => variable.name));
+    return placeholderNames(prompt.promptText)
+      .filter(name => !declared.has(name))
+      .map(name => ({
+        severity: 'error' as const,
+        message: `The placeholder {{${name}}} is not declared as a variable.`,
+        field: 'promptText',
+      }));
+  },
+};
+
+/**
+ * Flags declared variables that the prompt text never uses.
+ */
+export const unusedVariableRule: LintRule = {
+  id: 'unused-variable',
+  description: 'Every declared variable should appear in the prompt text',
+  check(prompt) {
+    const used = new Set(placeholderNames(prompt.promptText));
+    return (prompt.variables || [])
+      .filter(variable => !used.has(variable.name))
+      .map(variable => ({
+        severity: 'warning' as const,
+        message: `The variable "${variable.name}" is declared but never used in the prompt text.`,
+        field: 'variables',
+      }));
+  },
+};
+
+/**
+ * Flags keywords of the field that never appear in the prompt text.
+ */
+export const keywordsAbsentRule: LintRule = {
+  id: 'keywords-absent',
+  description: 'The keywords of the field should appear in the prompt text',
+  check(prompt) {
+    const text = prompt.promptText.toLowerCase();
+    if (!text.trim()) return [];
+    const missing = prompt.sflField.keywords
+      .split(',')
+      .map(keyword => keyword.trim())
+      .filter(keyword => keyword && !text.includes(keyword.toLowerCase()));
+    if (missing.length === 0) return [];
+    return [{
+      severity: 'info',
+      message: `The prompt text never mentions the keyword${missing.length === 1 ? '' : 's'} ${missing.map(keyword => `"${keyword}"`).join(', ')}.`,
+      field: 'sflField.keywords',
+    }];
+  },
+};
+
+/**
+ * The rules run by default, in reporting order.
+ */
+export const BUILTIN_RULES: LintRule[] = [
+  undeclaredPlaceholderRule,
+  unusedVariableRule,
+  outputFormatMentionedRule,
+  audienceToneConflictRule,
+  lengthConstraintRule,
+  keywordsAbsentRule,
+];
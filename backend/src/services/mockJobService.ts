@@ -4,6 +4,7 @@
  */
 
 import { Workflow } from '../types';
+import { TaskExecutionContext } from './workflowExecutionService';
 
 interface WorkflowJobData {
   workflowId: string;
@@ -12,7 +13,7 @@ interface WorkflowJobData {
 }
 
 class MockJobService {
-  async addWorkflowJob(workflowId: string, workflow: Workflow, userInput?: Record<string, any>): Promise<string> {
+  async addWorkflowJob(workflowId: string, workflow: Workflow, userInput?: Record<string, any>, userId?: string, sessionKeys?: TaskExecutionContext['sessionKeys']): Promise<string> {
     console.log('Mock JobService: Would add workflow job', { workflowId, workflow: workflow.name });
     // Return a mock job ID
     return `mock-job-${Date.now()}`;
@@ -0,0 +1,183 @@
+/**
+ * @file promptAnnotationService.ts
+ * @description This service reverse-engineers SFL metadata from the text of a prompt, so that plain-text prompts
+ * brought in from elsewhere can be annotated before they are imported. A model reads the prompt and proposes a
+ * value for each SFL field the prompt leaves empty, with a confidence from 0 to 1; fields that are already filled
+ * in are shown to the model as context but never replaced. The prompt text itself is never changed. Suggestions
+ * are only applied once a person has accepted them, possibly after editing.
+ *
+ * @requires ../types
+ * @requires ./unifiedAIService
+ * @since 0.6.0
+ */
+
+import { PromptSFL, SFLFieldSuggestion } from '../types';
+import UnifiedAIService, { ProviderAwareRequest } from './unifiedAIService';
+
+/**
+ * The parts of a prompt an annotation reads.
+ * @private
+ */
+type AnnotatedPrompt = Pick<PromptSFL, 'title' | 'promptText' | 'sflField' | 'sflTenor' | 'sflMode'>;
+
+/**
+ * Every SFL field that can be inferred, by path, with a description of what the model should look for.
+ * @private
+ */
+const SFL_FIELDS: Array<[path: string, description: string]> = [
+  ['sflField.topic', 'the subject matter the prompt is about'],
+  ['sflField.taskType', 'the kind of task, e.g. Summarization, Code Generation, Question Answering'],
+  ['sflField.domainSpecifics', 'domain knowledge, jargon or constraints the prompt relies on'],
+  ['sflField.keywords', 'a comma-separated list of key terms'],
+  ['sflTenor.aiPersona', 'the role the model is asked to play, e.g. Expert, Friendly Assistant'],
+  ['sflTenor.targetAudience', 'a comma-separated list of the people the output is written for'],
+  ['sflTenor.desiredTone', 'the tone the output should have, e.g. Formal, Casual, Empathetic'],
+  ['sflTenor.interpersonalStance', 'the relationship between the model and the reader'],
+  ['sflMode.outputFormat', 'the format of the output, e.g. Plain Text, Markdown, JSON'],
+  ['sflMode.rhetoricalStructure', 'how the output should be organised'],
+  ['sflMode.lengthConstraint', 'how long the output should be'],
+  ['sflMode.textualDirectives', 'any other instructions on style or wording'],
+];
+
+/**
+ * The instructions given to the annotating model.
+ * @private
+ */
+const ANNOTATION_SYSTEM_MESSAGE = [
+  'You are an expert in Systemic Functional Linguistics (SFL) annotating prompts written for AI models.',
+  'Infer each requested SFL field from the prompt you are given. Base every value on what the prompt says or clearly implies, and keep values short.',
+  'Give each value a confidence between 0 and 1: 1 when the prompt states it outright, around 0.5 when it is implied, and below 0.3 when it is a guess.',
+  'Use an empty value when nothing in the prompt points to one. Do not rewrite or improve the prompt.',
+  'Reply with a JSON object of the form {"fields": {"sflField.topic": {"value": "...", "confidence": 0.8}}} with one entry per requested field.',
+].join('\n');
+
+/**
+ * Reads the value of an SFL field by its path, with audiences joined into a comma-separated list.
+ * @private
+ */
+const readField = (prompt: Pick<PromptSFL, 'sflField' | 'sflTenor' | 'sflMode'>, path: string): string => {
+  const [part, field] = path.split('.') as ['sflField' | 'sflTenor' | 'sflMode', string];
+  const value = (prompt[part] as unknown as Record<string, unknown> | undefined)?.[field];
+  if (Array.isArray(value)) return value.filter(item => typeof item === 'string' && item.trim()).join(', ');
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+/**
+ * @class PromptAnnotationService
+ * @description A class to encapsulate inferring the SFL metadata of raw prompts.
+ *
+ * @since 0.6.0
+ */
+class PromptAnnotationService {
+  /**
+   * Infers the SFL fields a prompt leaves empty from its text.
+   *
+   * @param {AnnotatedPrompt} prompt - The prompt to annotate.
+   * @param {ProviderAwareRequest} providerConfig - The provider, model and parameters to annotate with.
+   * @returns {Promise<SFLFieldSuggestion[]>} A promise that resolves to one suggestion per empty field the model could fill,
+   * in field order; empty if the prompt already declares every field.
+   * @throws {Error} If the prompt has no text, the model fails, or its answer cannot be read.
+   *
+   * @example
+   * ```typescript
+   * const suggestions = await promptAnnotationService.annotatePrompt(prompt, { provider: 'openai' });
+   * // [{ field: 'sflTenor.desiredTone', value: 'Formal', confidence: 0.9 }, ...]
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async annotatePrompt(prompt: AnnotatedPrompt, providerConfig: ProviderAwareRequest): Promise<SFLFieldSuggestion[]> {
+    if (!prompt.promptText?.trim()) {
+      throw new Error('There is no prompt text to annotate');
+    }
+    const missing = SFL_FIELDS.filter(([path]) => !readField(prompt, path));
+    if (missing.length === 0) {
+      return [];
+    }
+    const declared = SFL_FIELDS
+      .map(([path]) => [path, readField(prompt, path)])
+      .filter(([, value]) => value);
+
+    const question = [
+      `<title>${prompt.title}</title>`,
+      '<prompt>', prompt.promptText, '</prompt>',
+      '',
+      ...(declared.length > 0 ? ['<declared>', ...declared.map(([path, value]) => `- ${path}: ${value}`), '</declared>', ''] : []),
+      '<fields>',
+      ...missing.map(([path, description]) => `- ${path}: ${description}`),
+      '</fields>',
+    ].join('\n');
+
+    const result = await UnifiedAIService.runPrompt(question, providerConfig, ANNOTATION_SYSTEM_MESSAGE, true);
+    if (result.error) {
+      throw new Error(`Annotation failed: ${result.error}`);
+    }
+    return this.parseSuggestions(result.text, missing.map(([path]) => path));
+  }
+
+  /**
+   * Writes accepted field values onto a prompt's SFL metadata. Audiences are split on commas.
+   *
+   * @param {Pick<PromptSFL, 'sflField' | 'sflTenor' | 'sflMode'>} prompt - The prompt, changed in place.
+   * @param {unknown} values - The accepted values, keyed by field path, e.g. `{ 'sflTenor.desiredTone': 'Formal' }`.
+   * @throws {Error} If a path is not an SFL field or a value is not text.
+   * @since 0.6.0
+   */
+  applyAnnotation(prompt: Pick<PromptSFL, 'sflField' | 'sflTenor' | 'sflMode'>, values: unknown): void {
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      throw new Error('An annotation must map SFL field paths to values');
+    }
+    for (const [path, value] of Object.entries(values)) {
+      if (!SFL_FIELDS.some(([known]) => known === path)) {
+        throw new Error(`${path} is not an SFL field`);
+      }
+      if (typeof value !== 'string') {
+        throw new Error(`${path} must be text`);
+      }
+      const [part, field] = path.split('.') as ['sflField' | 'sflTenor' | 'sflMode', string];
+      (prompt[part] as unknown as Record<string, unknown>)[field] = field === 'targetAudience'
+        ? value.split(',').map(audience => audience.trim()).filter(Boolean)
+        : value.trim();
+    }
+  }
+
+  /**
+   * Reads the model's suggestions, tolerating a Markdown code fence or text around the JSON object. Fields the
+   * model left empty are dropped, and a missing or out-of-range confidence is clamped into 0 to 1.
+   *
+   * @param {string} text - The model's answer.
+   * @param {string[]} paths - The fields that were asked for.
+   * @returns {SFLFieldSuggestion[]} The suggestions, in the order of the fields.
+   * @throws {Error} If the answer holds no JSON object of fields.
+   * @private
+   * @since 0.6.0
+   */
+  private parseSuggestions(text: string, paths: string[]): SFLFieldSuggestion[] {
+    let answer: any;
+    try {
+      answer = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+    } catch {
+      throw new Error('The annotation could not be read');
+    }
+    if (!answer?.fields || typeof answer.fields !== 'object') {
+      throw new Error('The annotation could not be read');
+    }
+
+    const suggestions: SFLFieldSuggestion[] = [];
+    for (const field of paths) {
+      const entry = answer.fields[field];
+      const raw = entry?.value;
+      const value = (Array.isArray(raw) ? raw.join(', ') : typeof raw === 'string' ? raw : '').trim();
+      if (!value) continue;
+      const confidence = Number(entry.confidence);
+      suggestions.push({
+        field,
+        value,
+        confidence: Number.isFinite(confidence) ? Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100 : 0,
+      });
+    }
+    return suggestions;
+  }
+}
+
+export default new PromptAnnotationService();
@@ -0,0 +1,210 @@
+/**
+ * @file promptCompilerService.ts
+ * @description This service compiles a rendered prompt into the message layout of a model provider. The SFL
+ * Tenor (persona, audience, tone, stance) and Mode (format, structure, length, directives) become the system
+ * message, and the Field (topic, task type, domain, keywords) frames the prompt text in the user message.
+ * Anthropic receives XML-tagged sections and a `system` prompt, OpenAI a system role message and Markdown,
+ * and Gemini Markdown in a `systemInstruction`. Compiling is a pure transformation; rendering inheritance and
+ * partials and filling in variables happen beforehand.
+ *
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import { CompiledPrompt, PromptCompileFormat, PromptSFL } from '../types';
+
+/**
+ * The supported compile formats.
+ * @private
+ */
+const COMPILE_FORMATS: PromptCompileFormat[] = ['plain', 'anthropic', 'openai', 'gemini'];
+
+/**
+ * The parts of a prompt a compiler reads.
+ * @private
+ */
+type CompilablePrompt = Pick<PromptSFL, 'promptText' | 'sflField' | 'sflTenor' | 'sflMode'>;
+
+/**
+ * A titled part of a compiled message. A section holds either free text or a list of labelled values;
+ * `tag` names the section, and each entry, in XML.
+ * @private
+ */
+interface Section {
+  tag: string;
+  title: string;
+  text?: string;
+  entries?: Array<[tag: string, label: string, value: string]>;
+}
+
+/**
+ * Trims a field value, joining lists such as the target audience.
+ * @private
+ */
+const clean = (value: string | string[] | undefined): string =>
+  (Array.isArray(value) ? value.filter(item => item.trim()).join(', ') : value ?? '').trim();
+
+/**
+ * Drops empty entries, and then sections left with nothing in them.
+ * @private
+ */
+const nonEmpty = (sections: Section[]): Section[] => sections
+  .map(section => ({ ...section, text: clean(section.text), entries: (section.entries || []).filter(([, , value]) => value) }))
+  .filter(section => section.text || section.entries.length > 0);
+
+/**
+ * Renders sections as XML tags, one tag per labelled value.
+ * @private
+ */
+const toXml = (sections: Section[]): string => sections
+  .map(section => {
+    const body = section.text || section.entries!.map(([tag, , value]) => `<${tag}>${value}</${tag}>`).join('\n');
+    return `<${section.tag}>\n${body}\n</${section.tag}>`;
+  })
+  .join('\n\n');
+
+/**
+ * Renders sections as Markdown headings, with labelled values as a bullet list.
+ * @private
+ */
+const toMarkdown = (sections: Section[]): string => sections
+  .map(section => {
+    const body = section.text || section.entries!.map(([, label, value]) => `- **${label}:** ${value}`).join('\n');
+    return `## ${section.title}\n${body}`;
+  })
+  .join('\n\n');
+
+/**
+ * @class PromptCompilerService
+ * @description A class to encapsulate compiling SFL prompts into provider-specific messages.
+ *
+ * @since 0.6.0
+ */
+class PromptCompilerService {
+  /**
+   * Checks whether a value names a supported compile format.
+   *
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True if the value is a compile format.
+   * @since 0.6.0
+   */
+  isFormat(value: unknown): value is PromptCompileFormat {
+    return COMPILE_FORMATS.includes(value as PromptCompileFormat);
+  }
+
+  /**
+   * Lists the supported compile formats, for error messages.
+   *
+   * @returns {PromptCompileFormat[]} The formats.
+   * @since 0.6.0
+   */
+  getFormats(): PromptCompileFormat[] {
+    return [...COMPILE_FORMATS];
+  }
+
+  /**
+   * Compiles a prompt into the system and user messages of a provider.
+   * SFL fields that are empty are left out, and so is a section whose fields are all empty.
+   *
+   * @param {CompilablePrompt} prompt - The prompt, already rendered and with its variables filled in.
+   * @param {PromptCompileFormat} format - The layout to compile into.
+   * @returns {CompiledPrompt} The compiled messages and the request fragment carrying them.
+   *
+   * @example
+   * ```typescript
+   * const compiled = promptCompilerService.compile({ ...rendered, promptText: filledText }, 'anthropic');
+   * compiled.system; // "<role>\nSenior support agent\n</role>\n\n<audience>..."
+   * compiled.user;   // "<context>\n<topic>Refunds</topic>\n</context>\n\n<task>\nWrite a refund reply...\n</task>"
+   * ```
+   *
+   * @since 0.6.0
+   */
+  compile(prompt: CompilablePrompt, format: PromptCompileFormat): CompiledPrompt {
+    if (format === 'plain') {
+      return { format, system: '', user: prompt.promptText, request: { prompt: prompt.promptText } };
+    }
+
+    const { systemSections, userSections } = this.buildSections(prompt);
+    const render = format === 'anthropic' ? toXml : toMarkdown;
+    const system = render(systemSections);
+    const user = render(userSections);
+
+    switch (format) {
+      case 'anthropic':
+        return {
+          format,
+          system,
+          user,
+          request: { ...(system ? { system } : {}), messages: [{ role: 'user', content: user }] },
+        };
+      case 'openai':
+        return {
+          format,
+          system,
+          user,
+          request: { messages: [...(system ? [{ role: 'system', content: system }] : []), { role: 'user', content: user }] },
+        };
+      case 'gemini':
+        return {
+          format,
+          system,
+          user,
+          request: {
+            ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+            contents: [{ role: 'user', parts: [{ text: user }] }],
+          },
+        };
+    }
+  }
+
+  /**
+   * Splits a prompt into the sections of the system message and those of the user message.
+   *
+   * @param {CompilablePrompt} prompt - The prompt.
+   * @returns {{ systemSections: Section[]; userSections: Section[] }} The non-empty sections of each message.
+   * @private
+   * @since 0.6.0
+   */
+  private buildSections(prompt: CompilablePrompt): { systemSections: Section[]; userSections: Section[] } {
+    const { sflField, sflTenor, sflMode } = prompt;
+    return {
+      systemSections: nonEmpty([
+        { tag: 'role', title: 'Role', text: sflTenor?.aiPersona },
+        {
+          tag: 'audience',
+          title: 'Audience and tone',
+          entries: [
+            ['target_audience', 'Target audience', clean(sflTenor?.targetAudience)],
+            ['tone', 'Tone', clean(sflTenor?.desiredTone)],
+            ['stance', 'Stance', clean(sflTenor?.interpersonalStance)],
+          ],
+        },
+        {
+          tag: 'response_format',
+          title: 'Response format',
+          entries: [
+            ['output_format', 'Output format', clean(sflMode?.outputFormat)],
+            ['structure', 'Structure', clean(sflMode?.rhetoricalStructure)],
+            ['length', 'Length', clean(sflMode?.lengthConstraint)],
+            ['directives', 'Directives', clean(sflMode?.textualDirectives)],
+          ],
+        },
+      ]),
+      userSections: nonEmpty([
+        {
+          tag: 'context',
+          title: 'Context',
+          entries: [
+            ['topic', 'Topic', clean(sflField?.topic)],
+            ['task_type', 'Task type', clean(sflField?.taskType)],
+            ['domain', 'Domain specifics', clean(sflField?.domainSpecifics)],
+            ['keywords', 'Keywords', clean(sflField?.keywords)],
+          ],
+        },
+        { tag: 'task', title: 'Task', text: prompt.promptText },
+      ]),
+    };
+  }
+}
+
+export default new PromptCompilerService();
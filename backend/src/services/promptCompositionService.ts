@@ -0,0 +1,269 @@
+/**
+ * @file promptCompositionService.ts
+ * @description This service renders composed prompts. A prompt can extend a base prompt, inheriting the text,
+ * SFL fields and variables it leaves empty, and its text can include partials: `{{> name}}` pulls in the
+ * snippet of that name belonging to the prompt's owner, and `{{> <prompt ID>}}` pulls in the rendered text
+ * of another prompt. Both are resolved recursively, with cycles reported as errors.
+ *
+ * @requires ../types
+ * @requires ./promptService
+ * @requires ./snippetService
+ * @since 0.6.0
+ */
+
+import { PromptSFL, PromptVariable, RenderedPrompt } from '../types';
+import PromptService from './promptService';
+import SnippetService from './snippetService';
+
+/**
+ * Matches a `{{> name}}` partial and captures the name.
+ * @private
+ */
+const PARTIAL_PATTERN = /{{>\s*([\w-]+)\s*}}/g;
+
+/**
+ * Matches a `{{ name }}` variable placeholder and captures the name.
+ * @private
+ */
+const VARIABLE_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Partials whose name is a UUID refer to prompts rather than snippets.
+ * @private
+ */
+const PROMPT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * How deep inheritance chains and nested partials may go before rendering gives up.
+ * @private
+ */
+const MAX_COMPOSITION_DEPTH = 10;
+
+/**
+ * A prompt or snippet being rendered, used to detect partials that include themselves.
+ * @private
+ */
+interface RenderFrame {
+  key: string;
+  label: string;
+}
+
+/**
+ * Whether a field value is set, so that it overrides the value inherited from a base prompt.
+ * @private
+ */
+const isSet = (value: unknown): boolean => Array.isArray(value)
+  ? value.length > 0
+  : typeof value === 'string' ? value.trim() !== '' : value !== undefined && value !== null;
+
+/**
+ * Overlays the set fields of `override` onto `base`.
+ * @private
+ */
+const overlay = <T extends object>(base: T, override: T): T => {
+  const merged = { ...base };
+  for (const key of Object.keys(override) as Array<keyof T>) {
+    if (isSet(override[key])) merged[key] = override[key];
+  }
+  return merged;
+};
+
+/**
+ * @class PromptCompositionService
+ * @description A class to encapsulate the resolution of prompt inheritance and partials.
+ *
+ * @since 0.6.0
+ */
+class PromptCompositionService {
+  /**
+   * Renders a prompt with its inheritance and partials resolved.
+   * Base prompts and prompts included as partials must be visible to the requesting user.
+   *
+   * @param {PromptSFL} prompt - The prompt to render.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers can only use public prompts.
+   * @returns {Promise<RenderedPrompt>} A promise that resolves to the rendered prompt.
+   * @throws {Error} If a base prompt or partial cannot be found, or the inheritance or partials are circular or nested too deeply.
+   *
+   * @example
+   * ```typescript
+   * // "Refund reply" extends "Support base" and its text starts with {{> safety-preamble}}
+   * const rendered = await promptCompositionService.renderPrompt(refundReply, userId);
+   * rendered.inheritanceChain; // [refundReply.id, supportBase.id]
+   * rendered.partials;         // ['safety-preamble']
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async renderPrompt(prompt: PromptSFL, userId?: string): Promise<RenderedPrompt> {
+    const partials: string[] = [];
+    const rendered = await this.render(prompt, userId, [], partials);
+    return { ...rendered, partials };
+  }
+
+  /**
+   * Fills values into the variable placeholders of a rendered prompt text, falling back to the declared defaults.
+   * Placeholders without a value or default are replaced with an empty string.
+   *
+   * @param {Pick<PromptSFL, 'promptText' | 'variables'>} prompt - The prompt text and its variable declarations.
+   * @param {Record<string, string>} values - The variable values.
+   * @returns {string} The text to send to a model.
+   * @throws {Error} If a required variable has no value.
+   * @since 0.6.0
+   */
+  fillVariables(prompt: Pick<PromptSFL, 'promptText' | 'variables'>, values: Record<string, string>): string {
+    const declared = new Map((prompt.variables || []).map(variable => [variable.name, variable]));
+    for (const variable of declared.values()) {
+      if (variable.required && !(values[variable.name] ?? variable.defaultValue)) {
+        throw new Error(`Variable "${variable.name}" is required`);
+      }
+    }
+    return prompt.promptText.replace(VARIABLE_PATTERN, (_match, name: string) =>
+      values[name] ?? declared.get(name)?.defaultValue ?? '');
+  }
+
+  /**
+   * Renders a prompt, possibly as a partial of another one.
+   *
+   * @param {PromptSFL} prompt - The prompt to render.
+   * @param {string | undefined} userId - The ID of the requesting user.
+   * @param {RenderFrame[]} stack - The prompts and snippets currently being rendered, outermost first.
+   * @param {string[]} partials - Collects the names of the expanded partials.
+   * @returns {Promise<Omit<RenderedPrompt, 'partials'>>} The rendered prompt.
+   * @private
+   * @since 0.6.0
+   */
+  private async render(prompt: PromptSFL, userId: string | undefined, stack: RenderFrame[], partials: string[]): Promise<Omit<RenderedPrompt, 'partials'>> {
+    const path = this.enter(stack, { key: `prompt:${prompt.id}`, label: `"${prompt.title}"` });
+    const chain = await this.loadInheritanceChain(prompt, userId);
+
+    // Walk from the root base down to the prompt itself, letting every level override what it sets
+    const bases = [...chain].reverse();
+    const variables = new Map<string, PromptVariable>();
+    for (const level of bases) {
+      (level.variables || []).forEach(variable => variables.set(variable.name, variable));
+    }
+    const textSource = chain.find(level => level.promptText?.trim()) ?? chain[chain.length - 1];
+
+    return {
+      promptText: await this.expandPartials(textSource.promptText || '', textSource.ownerId, userId, path, partials),
+      sflField: bases.map(level => level.sflField).reduce(overlay),
+      sflTenor: bases.map(level => level.sflTenor).reduce(overlay),
+      sflMode: bases.map(level => level.sflMode).reduce(overlay),
+      variables: [...variables.values()],
+      inheritanceChain: chain.map(level => level.id),
+    };
+  }
+
+  /**
+   * Loads a prompt's chain of base prompts.
+   *
+   * @param {PromptSFL} prompt - The prompt.
+   * @param {string | undefined} userId - The ID of the requesting user.
+   * @returns {Promise<PromptSFL[]>} The prompt followed by its bases, nearest first.
+   * @throws {Error} If a base prompt is not visible, the chain is circular, or it is too long.
+   * @private
+   * @since 0.6.0
+   */
+  private async loadInheritanceChain(prompt: PromptSFL, userId: string | undefined): Promise<PromptSFL[]> {
+    const chain = [prompt];
+    let current = prompt;
+    while (current.extendsId) {
+      const baseId = current.extendsId;
+      const repeated = chain.find(level => level.id === baseId);
+      if (repeated) {
+        throw new Error(`Inheritance cycle detected: ${[...chain, repeated].map(level => `"${level.title}"`).join(' -> ')}`);
+      }
+      if (chain.length > MAX_COMPOSITION_DEPTH) {
+        throw new Error(`Inheritance is nested more than ${MAX_COMPOSITION_DEPTH} levels deep`);
+      }
+
+      const [base] = await PromptService.findVisiblePrompts({ ids: [baseId] }, userId);
+      if (!base) {
+        throw new Error(`The base prompt of "${current.title}" was not found`);
+      }
+      chain.push(base);
+      current = base;
+    }
+    return chain;
+  }
+
+  /**
+   * Replaces the partials in a text with the snippets or prompts they refer to.
+   *
+   * @param {string} text - The text.
+   * @param {string | undefined} ownerId - The owner of the text, whose snippets the partials refer to.
+   * @param {string | undefined} userId - The ID of the requesting user.
+   * @param {RenderFrame[]} stack - The prompts and snippets currently being rendered.
+   * @param {string[]} partials - Collects the names of the expanded partials.
+   * @returns {Promise<string>} The text with every partial expanded.
+   * @private
+   * @since 0.6.0
+   */
+  private async expandPartials(text: string, ownerId: string | undefined, userId: string | undefined, stack: RenderFrame[], partials: string[]): Promise<string> {
+    const names: string[] = [];
+    text.replace(PARTIAL_PATTERN, (match, name: string) => {
+      if (!names.includes(name)) names.push(name);
+      return match;
+    });
+
+    const expansions = new Map<string, string>();
+    for (const name of names) {
+      expansions.set(name, await this.resolvePartial(name, ownerId, userId, stack, partials));
+    }
+    return text.replace(PARTIAL_PATTERN, (_match, name: string) => expansions.get(name) ?? '');
+  }
+
+  /**
+   * Renders the snippet or prompt a partial refers to.
+   *
+   * @param {string} name - The partial's name: a snippet name or a prompt ID.
+   * @param {string | undefined} ownerId - The owner of the text containing the partial.
+   * @param {string | undefined} userId - The ID of the requesting user.
+   * @param {RenderFrame[]} stack - The prompts and snippets currently being rendered.
+   * @param {string[]} partials - Collects the names of the expanded partials.
+   * @returns {Promise<string>} The rendered text of the partial.
+   * @throws {Error} If the snippet or prompt does not exist or the partial includes itself.
+   * @private
+   * @since 0.6.0
+   */
+  private async resolvePartial(name: string, ownerId: string | undefined, userId: string | undefined, stack: RenderFrame[], partials: string[]): Promise<string> {
+    if (!partials.includes(name)) partials.push(name);
+
+    if (PROMPT_ID_PATTERN.test(name)) {
+      const [included] = await PromptService.findVisiblePrompts({ ids: [name] }, userId);
+      if (!included) {
+        throw new Error(`The prompt included by {{> ${name}}} was not found`);
+      }
+      return (await this.render(included, userId, stack, partials)).promptText;
+    }
+
+    const snippet = ownerId ? await SnippetService.findSnippetByName(ownerId, name) : null;
+    if (!snippet) {
+      throw new Error(`Unknown partial {{> ${name}}}: there is no snippet with that name`);
+    }
+    const path = this.enter(stack, { key: `snippet:${ownerId}:${snippet.name}`, label: `{{> ${snippet.name}}}` });
+    return this.expandPartials(snippet.body, ownerId, userId, path, partials);
+  }
+
+  /**
+   * Adds a prompt or snippet to the render stack.
+   *
+   * @param {RenderFrame[]} stack - The prompts and snippets currently being rendered.
+   * @param {RenderFrame} frame - The prompt or snippet about to be rendered.
+   * @returns {RenderFrame[]} The new stack.
+   * @throws {Error} If the prompt or snippet is already being rendered, or the partials are nested too deeply.
+   * @private
+   * @since 0.6.0
+   */
+  private enter(stack: RenderFrame[], frame: RenderFrame): RenderFrame[] {
+    if (stack.some(entry => entry.key === frame.key)) {
+      throw new Error(`Partial cycle detected: ${[...stack, frame].map(entry => entry.label).join(' -> ')}`);
+    }
+    if (stack.length >= MAX_COMPOSITION_DEPTH) {
+      throw new Error(`Partials are nested more than ${MAX_COMPOSITION_DEPTH} levels deep`);
+    }
+    return [...stack, frame];
+  }
+}
+
+export default new PromptCompositionService();
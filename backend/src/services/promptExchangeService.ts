@@ -0,0 +1,884 @@
+/**
+ * @file promptExchangeService.ts
+ * @description This service converts prompts to and from the interchange formats supported by the API and runs imports.
+ * Exports can be produced as the native JSON array, Markdown with YAML front matter, OpenAI chat-message JSON,
+ * or a promptfoo prompt file. Imports read the same formats and can be run as a dry run that reports conflicts,
+ * duplicates and invalid SFL fields before anything is written. Plain-text prompts can have their SFL fields
+ * inferred in batches before the import, and the suggestions a person accepted are applied as the prompts are read.
+ *
+ * @requires yaml
+ * @requires ../types
+ * @requires ./promptService
+ * @requires ./promptAnnotationService
+ * @requires ./tagService
+ * @requires ../validation/promptSchemas
+ * @since 0.6.0
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  PromptSFL,
+  PromptVisibility,
+  PromptExchangeFormat,
+  ImportConflictStrategy,
+  PromptImportItem,
+  PromptImportResult,
+  PromptAnnotationItem,
+  PromptExport,
+  SFLField,
+  SFLTenor,
+  SFLMode,
+} from '../types';
+import PromptService from './promptService';
+import PromptAnnotationService from './promptAnnotationService';
+import TagService from './tagService';
+import { ProviderAwareRequest } from './unifiedAIService';
+import { validatePromptVariables, validateSFLMetadata } from '../validation/promptSchemas';
+
+/**
+ * The supported interchange formats.
+ * @private
+ */
+const EXCHANGE_FORMATS: PromptExchangeFormat[] = ['json', 'markdown', 'openai', 'promptfoo'];
+
+/**
+ * The supported ways of handling an imported prompt whose ID matches an existing prompt.
+ * @private
+ */
+const CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['skip', 'overwrite', 'copy'];
+
+/**
+ * The largest number of prompts a single import may contain.
+ * @private
+ */
+const MAX_IMPORT_PROMPTS = 500;
+
+/**
+ * The largest number of prompts annotated by one request. Each prompt is a model call, so larger
+ * files are annotated over several requests.
+ * @private
+ */
+const MAX_ANNOTATED_PROMPTS = 20;
+
+/**
+ * Matches prompt IDs, which are UUIDs. IDs in import files that are not UUIDs never match an existing prompt.
+ * @private
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The content type and file extension of each export format.
+ * @private
+ */
+const FORMAT_FILES: Record<PromptExchangeFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  openai: { contentType: 'application/json', extension: 'openai.json' },
+  promptfoo: { contentType: 'application/yaml', extension: 'promptfoo.yaml' },
+};
+
+/**
+ * The SFL fields written to an OpenAI system message, one `Label: value` line each, so that
+ * importing the message again restores them.
+ * @private
+ */
+const SYSTEM_MESSAGE_FIELDS: Array<[keyof Pick<PromptSFL, 'sflField' | 'sflTenor' | 'sflMode'>, string, string]> = [
+  ['sflTenor', 'aiPersona', 'Persona'],
+  ['sflTenor', 'targetAudience', 'Audience'],
+  ['sflTenor', 'desiredTone', 'Tone'],
+  ['sflTenor', 'interpersonalStance', 'Stance'],
+  ['sflField', 'topic', 'Topic'],
+  ['sflField', 'taskType', 'Task type'],
+  ['sflField', 'domainSpecifics', 'Domain specifics'],
+  ['sflField', 'keywords', 'Keywords'],
+  ['sflMode', 'outputFormat', 'Output format'],
+  ['sflMode', 'rhetoricalStructure', 'Structure'],
+  ['sflMode', 'lengthConstraint', 'Length'],
+  ['sflMode', 'textualDirectives', 'Directives'],
+];
+
+/**
+ * The prompt fields written by the native JSON and Markdown formats.
+ * @private
+ */
+type ExchangeRecord = Pick<PromptSFL,
+  'id' | 'title' | 'promptText' | 'sflField' | 'sflTenor' | 'sflMode' | 'variables' | 'exampleOutput' |
+  'notes' | 'sourceDocument' | 'visibility' | 'tags' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A prompt ready to be written by an import.
+ * @private
+ */
+type ImportablePrompt = Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A prompt read from an import file, before validation. `data` uses the native prompt shape.
+ * @private
+ */
+interface ImportCandidate {
+  data: unknown;
+  warnings: string[];
+}
+
+/**
+ * A prompt from an import file after validation. `prompt` is only set when the prompt can be imported.
+ * @private
+ */
+interface ValidatedCandidate {
+  prompt?: ImportablePrompt;
+  sourceId?: string;
+  fallbackTitle: string;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * @class PromptExchangeService
+ * @description A class to encapsulate prompt import and export.
+ *
+ * @since 0.6.0
+ */
+class PromptExchangeService {
+  /**
+   * Validates the requested interchange format.
+   *
+   * @param {unknown} format - The raw format.
+   * @returns {PromptExchangeFormat} The format.
+   * @throws {Error} If the format is not supported.
+   * @since 0.6.0
+   */
+  parseFormat(format: unknown): PromptExchangeFormat {
+    if (typeof format !== 'string' || !EXCHANGE_FORMATS.includes(format as PromptExchangeFormat)) {
+      throw new Error(`format must be one of: ${EXCHANGE_FORMATS.join(', ')}`);
+    }
+    return format as PromptExchangeFormat;
+  }
+
+  /**
+   * Guesses the format of an import file from its content.
+   *
+   * @param {string} content - The text of the file.
+   * @returns {PromptExchangeFormat} The detected format.
+   * @since 0.6.0
+   */
+  detectFormat(content: string): PromptExchangeFormat {
+    const text = content.trimStart();
+    if (text.startsWith('---')) return 'markdown';
+
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return 'promptfoo';
+    }
+    if (data && Array.isArray(data.prompts)) return 'promptfoo';
+    const first = Array.isArray(data) ? data[0] : data;
+    if (first && (typeof first.role === 'string' || Array.isArray(first.messages))) return 'openai';
+    return 'json';
+  }
+
+  /**
+   * Exports the prompts a user can see in the given format.
+   *
+   * @param {{ format?: unknown; ids?: unknown }} options - The format (defaults to `json`) and an optional
+   * comma-separated list of prompt IDs; without IDs every visible prompt is exported.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only export public prompts.
+   * @returns {Promise<PromptExport | null>} The export file, or null if specific IDs were requested and none is visible.
+   * @throws {Error} If the format or the ID list is invalid.
+   *
+   * @example
+   * ```typescript
+   * const file = await promptExchangeService.exportPrompts({ format: 'markdown', ids: promptId }, userId);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async exportPrompts(options: { format?: unknown; ids?: unknown }, userId?: string): Promise<PromptExport | null> {
+    const format = this.parseFormat(options.format ?? 'json');
+    const ids = this.parseIds(options.ids);
+
+    const prompts = await PromptService.findVisiblePrompts(ids ? { ids } : {}, userId);
+    if (ids && prompts.length === 0) return null;
+
+    const { contentType, extension } = FORMAT_FILES[format];
+    const basename = prompts.length === 1 ? this.toFilename(prompts[0].title) : 'sfl-prompts';
+    return {
+      content: this.serialize(format, prompts),
+      contentType,
+      filename: `${basename}.${extension}`,
+    };
+  }
+
+  /**
+   * Imports prompts from the text of an import file, or previews the import when `dryRun` is set.
+   *
+   * Each prompt in the file is validated and compared against the user's library:
+   * - prompts with missing fields or invalid SFL metadata, variables or tags are skipped as `invalid`;
+   * - prompts identical (same title and text) to one already in the library or earlier in the file are skipped as `duplicate`;
+   * - prompts whose ID matches an existing prompt are a `conflict`, handled according to `onConflict`:
+   *   `skip` (the default) leaves the existing prompt alone, `overwrite` updates it if the user may edit it,
+   *   and `copy` imports the prompt as a new one;
+   * - everything else is created as a new prompt owned by the user.
+   *
+   * `annotations` maps the index of a prompt in the file to the SFL fields accepted for it, keyed by field path
+   * (see {@link annotateImport}); they are applied over what the file declares.
+   *
+   * @param {{ content?: unknown; format?: unknown; dryRun?: unknown; onConflict?: unknown; annotations?: unknown }} input - The file text,
+   * its format (detected from the content when omitted), whether to only preview, the conflict strategy and the accepted annotations.
+   * @param {string} userId - The ID of the authenticated user importing the prompts.
+   * @returns {Promise<PromptImportResult>} The per-prompt report and a summary of the actions taken or planned.
+   * @throws {Error} If the input is invalid or the file cannot be parsed.
+   *
+   * @since 0.6.0
+   */
+  async importPrompts(
+    input: { content?: unknown; format?: unknown; dryRun?: unknown; onConflict?: unknown; annotations?: unknown },
+    userId: string
+  ): Promise<PromptImportResult> {
+    if (typeof input.content !== 'string' || !input.content.trim()) {
+      throw new Error('content must be the text of the file to import');
+    }
+    const format = input.format === undefined || input.format === '' ? this.detectFormat(input.content) : this.parseFormat(input.format);
+    const onConflict = input.onConflict ?? 'skip';
+    if (!CONFLICT_STRATEGIES.includes(onConflict as ImportConflictStrategy)) {
+      throw new Error(`onConflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+    }
+    const dryRun = input.dryRun === true || input.dryRun === 'true';
+
+    const candidates = this.parse(format, input.content);
+    if (candidates.length === 0) {
+      throw new Error('The file does not contain any prompts');
+    }
+    if (candidates.length > MAX_IMPORT_PROMPTS) {
+      throw new Error(`A single import may contain at most ${MAX_IMPORT_PROMPTS} prompts`);
+    }
+
+    const validated = candidates.map(candidate => this.validateCandidate(candidate));
+    this.applyAnnotations(validated, input.annotations);
+    const items = await this.planImport(validated, onConflict as ImportConflictStrategy, userId);
+
+    if (!dryRun) {
+      for (const item of items) {
+        const prompt = validated[item.index].prompt;
+        if (!prompt || item.action === 'skip') continue;
+        try {
+          if (item.action === 'update' && item.existingId) {
+            const updated = await PromptService.updatePrompt(item.existingId, prompt, userId);
+            if (!updated) throw new Error('The existing prompt no longer exists');
+            item.promptId = updated.id;
+          } else {
+            item.promptId = (await PromptService.createPrompt(prompt, userId)).id;
+          }
+        } catch (error) {
+          item.errors.push(error instanceof Error ? error.message : String(error));
+          item.action = 'skip';
+        }
+      }
+    }
+
+    return {
+      format,
+      dryRun,
+      summary: {
+        create: items.filter(item => item.action === 'create').length,
+        update: items.filter(item => item.action === 'update').length,
+        skip: items.filter(item => item.action === 'skip').length,
+      },
+      items,
+    };
+  }
+
+  /**
+   * Infers the SFL fields left empty by the prompts of an import file, so that they can be reviewed before
+   * the import. `indexes` picks the prompts to annotate by their position in the file; without it every prompt
+   * is annotated. A prompt that cannot be imported, or that the model fails on, is reported with an `error`
+   * while the others are still annotated.
+   *
+   * @param {{ content?: unknown; format?: unknown; indexes?: unknown }} input - The file text, its format
+   * (detected from the content when omitted) and the indexes of the prompts to annotate.
+   * @param {ProviderAwareRequest} providerConfig - The provider, model and parameters to annotate with.
+   * @returns {Promise<PromptAnnotationItem[]>} The suggestions for each requested prompt, in file order.
+   * @throws {Error} If the input is invalid, the file cannot be parsed, or too many prompts are requested at once.
+   *
+   * @since 0.6.0
+   */
+  async annotateImport(
+    input: { content?: unknown; format?: unknown; indexes?: unknown },
+    providerConfig: ProviderAwareRequest
+  ): Promise<PromptAnnotationItem[]> {
+    if (typeof input.content !== 'string' || !input.content.trim()) {
+      throw new Error('content must be the text of the file to import');
+    }
+    const format = input.format === undefined || input.format === '' ? this.detectFormat(input.content) : this.parseFormat(input.format);
+    const candidates = this.parse(format, input.content);
+    if (candidates.length === 0) {
+      throw new Error('The file does not contain any prompts');
+    }
+
+    let indexes = candidates.map((_, index) => index);
+    if (input.indexes !== undefined) {
+      if (!Array.isArray(input.indexes) || !input.indexes.every(index => Number.isInteger(index) && index >= 0 && index < candidates.length)) {
+        throw new Error('indexes must list positions of prompts in the file');
+      }
+      indexes = [...new Set(input.indexes as number[])].sort((a, b) => a - b);
+    }
+    if (indexes.length > MAX_ANNOTATED_PROMPTS) {
+      throw new Error(`A single request may annotate at most ${MAX_ANNOTATED_PROMPTS} prompts`);
+    }
+
+    const items: PromptAnnotationItem[] = [];
+    // One prompt at a time, so that a large file does not exceed the provider's rate limits
+    for (const index of indexes) {
+      const { prompt, fallbackTitle, errors } = this.validateCandidate(candidates[index]);
+      const item: PromptAnnotationItem = { index, title: prompt?.title ?? fallbackTitle, suggestions: [] };
+      if (!prompt) {
+        items.push({ ...item, error: errors[0] ?? 'The prompt cannot be imported' });
+        continue;
+      }
+      try {
+        item.suggestions = await PromptAnnotationService.annotatePrompt(prompt, providerConfig);
+      } catch (error) {
+        item.error = error instanceof Error ? error.message : String(error);
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Applies the accepted annotations to the validated prompts of an import.
+   *
+   * @param {ValidatedCandidate[]} validated - The validated prompts, in file order; changed in place.
+   * @param {unknown} annotations - The accepted field values, keyed by the index of the prompt in the file.
+   * @throws {Error} If the annotations are malformed or name a prompt that is not in the file.
+   * @private
+   * @since 0.6.0
+   */
+  private applyAnnotations(validated: ValidatedCandidate[], annotations: unknown): void {
+    if (annotations === undefined || annotations === null) return;
+    if (typeof annotations !== 'object' || Array.isArray(annotations)) {
+      throw new Error('annotations must map prompt indexes to SFL field values');
+    }
+    for (const [key, values] of Object.entries(annotations)) {
+      const candidate = /^\d+$/.test(key) ? validated[Number(key)] : undefined;
+      if (!candidate) {
+        throw new Error(`annotations.${key} does not match a prompt in the file`);
+      }
+      if (!candidate.prompt) continue;
+      try {
+        PromptAnnotationService.applyAnnotation(candidate.prompt, values);
+      } catch (error) {
+        throw new Error(`annotations.${key}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Decides what an import does with each prompt, looking up the existing prompts it could collide with.
+   *
+   * @param {ValidatedCandidate[]} validated - The validated prompts, in file order.
+   * @param {ImportConflictStrategy} onConflict - How to handle ID conflicts.
+   * @param {string} userId - The ID of the importing user.
+   * @returns {Promise<PromptImportItem[]>} One planned item per prompt.
+   * @private
+   * @since 0.6.0
+   */
+  private async planImport(
+    validated: ValidatedCandidate[],
+    onConflict: ImportConflictStrategy,
+    userId: string
+  ): Promise<PromptImportItem[]> {
+    const ids = [...new Set(validated.filter(v => v.prompt && v.sourceId && UUID_PATTERN.test(v.sourceId)).map(v => v.sourceId as string))];
+    const titles = [...new Set(validated.filter(v => v.prompt).map(v => (v.prompt as ImportablePrompt).title.toLowerCase()))];
+    const existing = ids.length || titles.length ? await PromptService.findVisiblePrompts({ ids, titles }, userId) : [];
+
+    const seenIds = new Set<string>();
+    const seenContent = new Set<string>();
+
+    return validated.map(({ prompt, sourceId, fallbackTitle, errors, warnings }, index): PromptImportItem => {
+      const item: PromptImportItem = {
+        index,
+        title: prompt?.title ?? fallbackTitle,
+        sourceId,
+        status: 'new',
+        action: 'create',
+        errors,
+        warnings,
+      };
+      if (!prompt) {
+        return { ...item, status: 'invalid', action: 'skip' };
+      }
+
+      const contentKey = `${prompt.title.toLowerCase()}\u0000${prompt.promptText}`;
+      if ((sourceId && seenIds.has(sourceId)) || seenContent.has(contentKey)) {
+        warnings.push('The same prompt appears earlier in the file');
+        return { ...item, status: 'duplicate', action: 'skip' };
+      }
+      if (sourceId) seenIds.add(sourceId);
+      seenContent.add(contentKey);
+
+      const match = sourceId ? existing.find(p => p.id === sourceId) : undefined;
+      const identical = existing.find(p => p.title.toLowerCase() === prompt.title.toLowerCase() && p.promptText === prompt.promptText);
+      if (identical && (!match || identical.id === match.id)) {
+        warnings.push(`An identical prompt is already in the library ("${identical.title}")`);
+        return { ...item, status: 'duplicate', action: 'skip', existingId: identical.id };
+      }
+      if (!match) {
+        return item;
+      }
+
+      const conflict = { ...item, status: 'conflict' as const, existingId: match.id };
+      if (onConflict === 'copy') {
+        return conflict;
+      }
+      if (onConflict === 'overwrite') {
+        if (match.access === 'public') {
+          warnings.push('Only the owner can overwrite this prompt; import it as a copy instead');
+          return { ...conflict, action: 'skip' };
+        }
+        if (match.access !== 'owner') {
+          // Users a prompt is shared with may edit it, but not change who can see it
+          delete prompt.visibility;
+        }
+        return { ...conflict, action: 'update' };
+      }
+      warnings.push('A prompt with this ID already exists and will be left unchanged');
+      return { ...conflict, action: 'skip' };
+    });
+  }
+
+  /**
+   * Validates a prompt read from an import file and fills in the SFL fields it leaves out.
+   *
+   * @param {ImportCandidate} candidate - The prompt in the native shape, with any warnings raised while reading it.
+   * @returns {ValidatedCandidate} The prompt ready to be written, or the list of problems that prevent importing it.
+   * @private
+   * @since 0.6.0
+   */
+  private validateCandidate({ data, warnings: readWarnings }: ImportCandidate): ValidatedCandidate {
+    const warnings = [...readWarnings];
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { fallbackTitle: 'Untitled Prompt', errors: ['Entry is not a prompt'], warnings };
+    }
+    const raw = data as Record<string, any>;
+    const errors: string[] = [];
+    const fallbackTitle = typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Untitled Prompt';
+
+    if (typeof raw.title !== 'string' || !raw.title.trim()) errors.push('title is required');
+    if (typeof raw.promptText !== 'string' || !raw.promptText.trim()) errors.push('promptText is required');
+    for (const field of ['exampleOutput', 'notes'] as const) {
+      if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') errors.push(`${field} must be text`);
+    }
+    if (raw.sourceDocument != null && (typeof raw.sourceDocument.name !== 'string' || typeof raw.sourceDocument.content !== 'string')) {
+      errors.push('sourceDocument must have a name and content');
+    }
+
+    const sfl = validateSFLMetadata(raw);
+    if (!sfl.success) errors.push(...sfl.errors);
+
+    let variables;
+    if (raw.variables != null) {
+      const result = validatePromptVariables(raw.variables);
+      if (result.success) {
+        variables = result.data;
+      } else {
+        errors.push(...result.errors.map(error => `variables.${error}`));
+      }
+    }
+
+    let tags: string[] | undefined;
+    if (raw.tags != null) {
+      try {
+        tags = TagService.parseTagNames(raw.tags);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    let visibility: PromptVisibility = 'private';
+    if (raw.visibility === 'public') {
+      visibility = 'public';
+    } else if (raw.visibility === 'shared') {
+      warnings.push('Shared prompts are imported as private; share them again after importing');
+    } else if (raw.visibility != null && raw.visibility !== 'private') {
+      errors.push('visibility must be one of: private, shared, public');
+    }
+
+    const sourceId = typeof raw.id === 'string' && raw.id ? raw.id : undefined;
+    if (errors.length > 0 || !sfl.success) {
+      return { sourceId, fallbackTitle, errors, warnings };
+    }
+
+    const sflField: SFLField = { topic: '', taskType: '', domainSpecifics: '', keywords: '', ...sfl.data.sflField };
+    const sflTenor: SFLTenor = { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '', ...sfl.data.sflTenor };
+    const sflMode: SFLMode = { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '', ...sfl.data.sflMode };
+    return {
+      sourceId,
+      fallbackTitle,
+      errors,
+      warnings,
+      prompt: {
+        title: raw.title.trim(),
+        promptText: raw.promptText,
+        sflField,
+        sflTenor,
+        sflMode,
+        variables,
+        exampleOutput: raw.exampleOutput ?? undefined,
+        notes: raw.notes ?? undefined,
+        sourceDocument: raw.sourceDocument ?? undefined,
+        visibility,
+        tags,
+      },
+    };
+  }
+
+  /**
+   * Reads the prompts out of an import file.
+   *
+   * @param {PromptExchangeFormat} format - The format of the file.
+   * @param {string} content - The text of the file.
+   * @returns {ImportCandidate[]} The prompts found, in the native shape.
+   * @throws {Error} If the file is not valid for the format.
+   * @private
+   * @since 0.6.0
+   */
+  private parse(format: PromptExchangeFormat, content: string): ImportCandidate[] {
+    switch (format) {
+      case 'json': {
+        const data = this.parseJson(content);
+        return (Array.isArray(data) ? data : [data]).map(entry => ({ data: entry, warnings: [] }));
+      }
+      case 'markdown':
+        return this.parseMarkdown(content);
+      case 'openai':
+        return this.parseOpenAI(this.parseJson(content));
+      case 'promptfoo':
+        return this.parsePromptfoo(content);
+    }
+  }
+
+  /**
+   * Parses JSON, reporting syntax errors as import errors.
+   *
+   * @param {string} content - The text of the file.
+   * @returns {unknown} The parsed value.
+   * @throws {Error} If the text is not valid JSON.
+   * @private
+   * @since 0.6.0
+   */
+  private parseJson(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Serializes prompts in the given format.
+   *
+   * @param {PromptExchangeFormat} format - The export format.
+   * @param {PromptSFL[]} prompts - The prompts to export.
+   * @returns {string} The file content.
+   * @private
+   * @since 0.6.0
+   */
+  private serialize(format: PromptExchangeFormat, prompts: PromptSFL[]): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(prompts.map(prompt => this.toExchangeRecord(prompt)), null, 2);
+      case 'markdown':
+        return prompts.map(prompt => this.toMarkdown(prompt)).join('\n');
+      case 'openai':
+        return JSON.stringify(prompts.map(prompt => ({ name: prompt.title, messages: this.toChatMessages(prompt) })), null, 2);
+      case 'promptfoo':
+        return '# promptfoo prompts exported from SFL Prompt Studio\n' + stringifyYaml({
+          prompts: prompts.map(prompt => ({ label: prompt.title, raw: prompt.promptText })),
+        });
+    }
+  }
+
+  /**
+   * Picks the fields of a prompt that belong in an export, leaving out access details and test results.
+   *
+   * @param {PromptSFL} prompt - The prompt.
+   * @returns {ExchangeRecord} The exported fields.
+   * @private
+   * @since 0.6.0
+   */
+  private toExchangeRecord(prompt: PromptSFL): ExchangeRecord {
+    return {
+      id: prompt.id,
+      title: prompt.title,
+      promptText: prompt.promptText,
+      sflField: prompt.sflField,
+      sflTenor: prompt.sflTenor,
+      sflMode: prompt.sflMode,
+      variables: prompt.variables,
+      exampleOutput: prompt.exampleOutput,
+      notes: prompt.notes,
+      sourceDocument: prompt.sourceDocument,
+      visibility: prompt.visibility,
+      tags: prompt.tags,
+      createdAt: prompt.createdAt,
+      updatedAt: prompt.updatedAt,
+    };
+  }
+
+  /**
+   * Writes a prompt as a Markdown document: every field except the prompt text goes into the YAML front matter,
+   * and the prompt text follows in a fenced block under a "Prompt Text" heading, so the document can be imported again unchanged.
+   *
+   * @param {PromptSFL} prompt - The prompt.
+   * @returns {string} The Markdown document.
+   * @private
+   * @since 0.6.0
+   */
+  private toMarkdown(prompt: PromptSFL): string {
+    const { promptText, ...frontMatter } = this.toExchangeRecord(prompt);
+    const longestRun = Math.max(0, ...(promptText.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return [
+      '---',
+      stringifyYaml(frontMatter).trimEnd(),
+      '---',
+      '',
+      `# ${prompt.title}`,
+      '',
+      '## Prompt Text',
+      '',
+      fence,
+      promptText,
+      fence,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Reads one or more Markdown documents with YAML front matter. The prompt text is taken from the fenced
+   * block under a "## Prompt Text" heading; without that heading, the rest of the file (minus a leading
+   * "# Title" heading) is the prompt text, which suits hand-written single-prompt files.
+   *
+   * @param {string} content - The text of the file.
+   * @returns {ImportCandidate[]} The prompts found.
+   * @throws {Error} If a document lacks front matter or its YAML cannot be parsed.
+   * @private
+   * @since 0.6.0
+   */
+  private parseMarkdown(content: string): ImportCandidate[] {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const candidates: ImportCandidate[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      if (!lines[i].trim()) {
+        i++;
+        continue;
+      }
+      if (lines[i].trim() !== '---') {
+        throw new Error(`Expected YAML front matter ("---") on line ${i + 1}`);
+      }
+      const end = lines.findIndex((line, index) => index > i && line.trim() === '---');
+      if (end === -1) {
+        throw new Error(`The front matter starting on line ${i + 1} is not closed`);
+      }
+
+      let frontMatter: unknown;
+      try {
+        frontMatter = parseYaml(lines.slice(i + 1, end).join('\n')) ?? {};
+      } catch (error) {
+        throw new Error(`Invalid YAML front matter on line ${i + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+        throw new Error(`The front matter starting on line ${i + 1} must be a set of fields`);
+      }
+      const data: Record<string, any> = { ...(frontMatter as Record<string, any>) };
+      i = end + 1;
+
+      let heading = i;
+      while (heading < lines.length && lines[heading].trim() !== '---' && !/^##\s+Prompt Text\s*$/i.test(lines[heading])) {
+        heading++;
+      }
+
+      if (heading < lines.length && lines[heading].trim() !== '---') {
+        let open = heading + 1;
+        while (open < lines.length && !lines[open].trim()) open++;
+        const fence = lines[open]?.match(/^(`{3,}|~{3,})/)?.[1];
+        if (!fence) {
+          throw new Error(`The "Prompt Text" heading on line ${heading + 1} must be followed by a fenced code block`);
+        }
+        const close = lines.findIndex((line, index) => index > open && line.trimEnd() === fence);
+        if (close === -1) {
+          throw new Error(`The code block starting on line ${open + 1} is not closed`);
+        }
+        data.promptText = lines.slice(open + 1, close).join('\n');
+        i = close + 1;
+      } else {
+        const body = lines.slice(i);
+        const titleLine = body.findIndex(line => line.trim());
+        const titleMatch = titleLine === -1 ? null : body[titleLine].match(/^#\s+(.+)$/);
+        if (titleMatch) {
+          data.title ??= titleMatch[1].trim();
+          body.splice(titleLine, 1);
+        }
+        data.promptText ??= body.join('\n').trim();
+        i = lines.length;
+      }
+      candidates.push({ data, warnings: [] });
+    }
+    return candidates;
+  }
+
+  /**
+   * Builds the OpenAI chat messages for a prompt: a system message describing the SFL metadata,
+   * if any is set, followed by the prompt text as the user message.
+   *
+   * @param {PromptSFL} prompt - The prompt.
+   * @returns {Array<{ role: string; content: string }>} The chat messages.
+   * @private
+   * @since 0.6.0
+   */
+  private toChatMessages(prompt: PromptSFL): Array<{ role: string; content: string }> {
+    const systemLines = SYSTEM_MESSAGE_FIELDS
+      .map(([part, field, label]) => {
+        const value = (prompt[part] as unknown as Record<string, unknown> | undefined)?.[field];
+        const text = Array.isArray(value) ? value.join(', ') : value;
+        return typeof text === 'string' && text.trim() ? `${label}: ${text.trim()}` : null;
+      })
+      .filter((line): line is string => line !== null);
+
+    return [
+      ...(systemLines.length ? [{ role: 'system', content: systemLines.join('\n') }] : []),
+      { role: 'user', content: prompt.promptText },
+    ];
+  }
+
+  /**
+   * Reads OpenAI chat-message JSON: a single conversation (an array of messages or an object with `messages`),
+   * or an array of such objects. User messages become the prompt text, the first assistant message the example
+   * output, and `Label: value` lines of the system message restore the SFL fields; other system lines are kept in the notes.
+   *
+   * @param {unknown} data - The parsed JSON.
+   * @returns {ImportCandidate[]} The prompts found.
+   * @private
+   * @since 0.6.0
+   */
+  private parseOpenAI(data: unknown): ImportCandidate[] {
+    const conversations: unknown[] = Array.isArray(data) && data.every(entry => entry && typeof entry === 'object' && 'role' in entry)
+      ? [{ messages: data }]
+      : Array.isArray(data) ? data : [data];
+
+    return conversations.map((conversation, index) => {
+      const entry = conversation as Record<string, any> | null;
+      if (!entry || !Array.isArray(entry.messages)) {
+        return { data: null, warnings: [] };
+      }
+
+      const textOf = (message: any): string => Array.isArray(message?.content)
+        ? message.content.filter((part: any) => part?.type === 'text').map((part: any) => part.text).join('\n')
+        : typeof message?.content === 'string' ? message.content : '';
+      const messagesWith = (role: string) => entry.messages.filter((message: any) => message?.role === role).map(textOf);
+
+      const promptText = messagesWith('user').join('\n\n');
+      const prompt: Record<string, any> = {
+        title: entry.name ?? entry.title ?? (promptText.trim().split('\n')[0].slice(0, 80) || `Chat prompt ${index + 1}`),
+        promptText,
+        exampleOutput: messagesWith('assistant')[0] || undefined,
+        sflField: {},
+        sflTenor: {},
+        sflMode: {},
+      };
+
+      const unrecognized: string[] = [];
+      for (const line of messagesWith('system').join('\n').split('\n')) {
+        const separator = line.indexOf(':');
+        const known = separator > 0
+          ? SYSTEM_MESSAGE_FIELDS.find(([, , label]) => label.toLowerCase() === line.slice(0, separator).trim().toLowerCase())
+          : undefined;
+        if (known) {
+          const value = line.slice(separator + 1).trim();
+          prompt[known[0]][known[1]] = known[1] === 'targetAudience' ? value.split(',').map((audience: string) => audience.trim()).filter(Boolean) : value;
+        } else if (line.trim()) {
+          unrecognized.push(line);
+        }
+      }
+
+      const warnings: string[] = [];
+      if (unrecognized.length) {
+        prompt.notes = `System message:\n${unrecognized.join('\n')}`;
+        warnings.push('Parts of the system message do not map to SFL fields and were kept in the notes');
+      }
+      return { data: prompt, warnings };
+    });
+  }
+
+  /**
+   * Reads a promptfoo prompt file (YAML or JSON): a `prompts` list, or a bare list, of prompt strings
+   * or `{ label, raw }` objects. Prompts that reference other files cannot be imported.
+   *
+   * @param {string} content - The text of the file.
+   * @returns {ImportCandidate[]} The prompts found.
+   * @throws {Error} If the file cannot be parsed or has no prompt list.
+   * @private
+   * @since 0.6.0
+   */
+  private parsePromptfoo(content: string): ImportCandidate[] {
+    let data: any;
+    try {
+      data = parseYaml(content);
+    } catch (error) {
+      throw new Error(`The file is not valid YAML: ${error instanceof Error ? error.message : error}`);
+    }
+    const entries = Array.isArray(data) ? data : data?.prompts;
+    if (!Array.isArray(entries)) {
+      throw new Error('A promptfoo file must contain a list of prompts');
+    }
+
+    return entries.map((entry: any, index: number): ImportCandidate => {
+      const raw = typeof entry === 'string' ? entry : entry?.raw;
+      if (typeof raw !== 'string' || raw.startsWith('file://')) {
+        return {
+          data: { title: entry?.label ?? `promptfoo prompt ${index + 1}` },
+          warnings: ['Only inline prompts can be imported; file references are not supported'],
+        };
+      }
+      return {
+        data: { title: entry?.label ?? (raw.trim().split('\n')[0].slice(0, 80) || `promptfoo prompt ${index + 1}`), promptText: raw },
+        warnings: [],
+      };
+    });
+  }
+
+  /**
+   * Parses a comma-separated list of prompt IDs.
+   *
+   * @param {unknown} ids - The raw list.
+   * @returns {string[] | undefined} The IDs, or undefined if no list was given.
+   * @throws {Error} If an entry is not a prompt ID.
+   * @private
+   * @since 0.6.0
+   */
+  private parseIds(ids: unknown): string[] | undefined {
+    if (ids === undefined || ids === '') return undefined;
+    const list = typeof ids === 'string' ? ids.split(',').map(id => id.trim()).filter(Boolean) : [];
+    if (list.length === 0 || !list.every(id => UUID_PATTERN.test(id))) {
+      throw new Error('ids must be a comma-separated list of prompt IDs');
+    }
+    return list;
+  }
+
+  /**
+   * Turns a prompt title into a safe file name.
+   *
+   * @param {string} title - The prompt title.
+   * @returns {string} The file name without extension.
+   * @private
+   * @since 0.6.0
+   */
+  private toFilename(title: string): string {
+    return title.replace(/[^a-z0-9_\-\s]/gi, '_').trim().replace(/\s+/g, '_') || 'prompt';
+  }
+}
+
+export default new PromptExchangeService();
@@ -0,0 +1,118 @@
+/**
+ * @file promptLintService.ts
+ * @description This service statically checks SFL prompts for internal inconsistencies, such as an output
+ * format the prompt text never asks for or placeholders without a variable declaration.
+ * Rules are pluggable and run locally, without any LLM call.
+ *
+ * @requires ../validation/promptSchemas
+ * @requires ./lint/LintRule
+ * @requires ./lint/builtinRules
+ * @since 0.6.0
+ */
+
+import { LintDiagnostic, PromptVariable } from '../types';
+import { validateSFLMetadata } from '../validation/promptSchemas';
+import { LintablePrompt, LintRule } from './lint/LintRule';
+import { BUILTIN_RULES } from './lint/builtinRules';
+
+/**
+ * Order in which diagnostics are reported, most serious first.
+ * @private
+ */
+const SEVERITY_ORDER: Record<LintDiagnostic['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * @class PromptLintService
+ * @description A class to encapsulate the prompt linter and its rule registry.
+ *
+ * @since 0.6.0
+ */
+class PromptLintService {
+  /**
+   * The registered rules, keyed by rule ID.
+   * @private
+   */
+  private rules = new Map<string, LintRule>(BUILTIN_RULES.map(rule => [rule.id, rule]));
+
+  /**
+   * Adds a rule to the linter, replacing any rule with the same ID.
+   *
+   * @param {LintRule} rule - The rule to register.
+   * @since 0.6.0
+   */
+  registerRule(rule: LintRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Lists the registered rules.
+   *
+   * @returns {LintRule[]} The rules, in registration order.
+   * @since 0.6.0
+   */
+  getRules(): LintRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Lints a prompt. Missing SFL parts and fields are treated as empty, so unsaved drafts can be checked.
+   *
+   * @param {unknown} data - The prompt to check, in the SFL format used by the API.
+   * @param {{ disable?: string[] }} [options] - IDs of rules to skip.
+   * @returns {LintDiagnostic[]} The findings of every rule, errors first.
+   * @throws {Error} If the prompt is not an object or has fields of the wrong type.
+   * @since 0.6.0
+   */
+  lint(data: unknown, options: { disable?: string[] } = {}): LintDiagnostic[] {
+    const prompt = this.toLintable(data);
+    const disabled = new Set(options.disable || []);
+
+    return this.getRules()
+      .filter(rule => !disabled.has(rule.id))
+      .flatMap(rule => rule.check(prompt).map(diagnostic => ({ ruleId: rule.id, ...diagnostic })))
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }
+
+  /**
+   * Normalizes a request body into the shape the rules expect.
+   *
+   * @param {unknown} data - The prompt to check.
+   * @returns {LintablePrompt} The prompt with every SFL field present.
+   * @throws {Error} If the prompt is not an object or has fields of the wrong type.
+   * @private
+   */
+  private toLintable(data: unknown): LintablePrompt {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('A prompt object is required');
+    }
+    const record = data as Record<string, unknown>;
+
+    for (const key of ['title', 'promptText'] as const) {
+      if (record[key] !== undefined && typeof record[key] !== 'string') {
+        throw new Error(`${key} must be a string`);
+      }
+    }
+    if (record.variables !== undefined && !Array.isArray(record.variables)) {
+      throw new Error('variables must be an array');
+    }
+
+    const metadata = validateSFLMetadata(record);
+    if (!metadata.success) {
+      throw new Error(metadata.errors.join('; '));
+    }
+    const { sflField = {}, sflTenor = {}, sflMode = {} } = metadata.data;
+
+    return {
+      title: (record.title as string | undefined) || '',
+      promptText: (record.promptText as string | undefined) || '',
+      sflField: { topic: '', taskType: '', domainSpecifics: '', keywords: '', ...sflField },
+      sflTenor: { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '', ...sflTenor },
+      sflMode: { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '', ...sflMode },
+      variables: ((record.variables as unknown[] | undefined) || [])
+        .filter((variable): variable is PromptVariable =>
+          !!variable && typeof variable === 'object' && typeof (variable as PromptVariable).name === 'string'),
+    };
+  }
+}
+
+export default new PromptLintService();
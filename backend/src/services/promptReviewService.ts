@@ -0,0 +1,329 @@
+/**
+ * @file promptReviewService.ts
+ * @description This service manages the review lifecycle of prompts. A prompt starts as a draft, is sent to
+ * an assigned reviewer, and only that reviewer can approve it; approved prompts can later be deprecated.
+ * Every status change is written to an audit trail, and anyone who can see a prompt can discuss it in
+ * threaded review comments. Workflows that only run approved prompts use this service to check their tasks.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @requires ./promptService
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { PromptComment, PromptReview, PromptSFL, PromptStatus, PromptStatusEvent, UnapprovedPrompt } from '../types';
+import PromptService, { PromptAccessError } from './promptService';
+
+/**
+ * The statuses a prompt can move to from each status. Editing an approved or in-review prompt sends it
+ * back to draft on its own, see `PromptService.updatePrompt`.
+ * @private
+ */
+const TRANSITIONS: Record<PromptStatus, PromptStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['approved', 'draft'],
+  approved: ['deprecated', 'draft'],
+  deprecated: ['draft'],
+};
+
+/**
+ * Maximum length of a review comment or transition note.
+ * @private
+ */
+const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * @class PromptReviewService
+ * @description A class to encapsulate the review lifecycle, audit trail and comments of prompts.
+ *
+ * @since 0.6.0
+ */
+class PromptReviewService {
+  /**
+   * Checks that a value is a known prompt status.
+   *
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True if the value is a prompt status.
+   * @since 0.6.0
+   */
+  isStatus(value: unknown): value is PromptStatus {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSITIONS, value);
+  }
+
+  /**
+   * Maps a `prompt_status_events` row, joined with the reviewer's and author's email addresses, to the API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {PromptStatusEvent} The event.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToEvent(row: any): PromptStatusEvent {
+    return {
+      id: row.id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      reviewer: row.reviewer_email ?? null,
+      note: row.note,
+      changedBy: row.created_by_email ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Maps a `prompt_comments` row, joined with the author's email address, to the API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {PromptComment} The comment.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToComment(row: any): PromptComment {
+    return {
+      id: row.id,
+      promptId: row.prompt_id,
+      parentId: row.parent_id,
+      body: row.body,
+      author: row.author_email ?? null,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Validates a comment body or transition note.
+   *
+   * @param {unknown} raw - The raw text.
+   * @param {boolean} required - Whether the text may be empty.
+   * @returns {string} The trimmed text.
+   * @throws {Error} If the text is missing when required, not a string or too long.
+   * @private
+   * @since 0.6.0
+   */
+  private parseText(raw: unknown, required: boolean): string {
+    if (raw === undefined || raw === null) raw = '';
+    if (typeof raw !== 'string') {
+      throw new Error('Text must be a string');
+    }
+    const text = raw.trim();
+    if (required && !text) {
+      throw new Error('Comment cannot be empty');
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Text cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+    }
+    return text;
+  }
+
+  /**
+   * Loads the review state of a prompt.
+   *
+   * @param {PromptSFL} prompt - The prompt, as visible to the requesting user.
+   * @returns {Promise<PromptReview>} A promise that resolves to the status, reviewer and audit trail.
+   * @since 0.6.0
+   */
+  async getReview(prompt: PromptSFL): Promise<PromptReview> {
+    const pool = await getPool();
+    const [reviewer, history] = await Promise.all([
+      prompt.reviewerId
+        ? pool.query('SELECT email FROM users WHERE id = $1', [prompt.reviewerId])
+        : Promise.resolve({ rows: [] as any[] }),
+      pool.query(
+        `SELECT e.*, r.email AS reviewer_email, u.email AS created_by_email FROM prompt_status_events e
+         LEFT JOIN users r ON r.id = e.reviewer_id
+         LEFT JOIN users u ON u.id = e.created_by
+         WHERE e.prompt_id = $1 ORDER BY e.created_at, e.id`,
+        [prompt.id]
+      ),
+    ]);
+    return {
+      status: prompt.status || 'draft',
+      reviewer: reviewer.rows[0]?.email ?? null,
+      history: history.rows.map(row => this.mapRowToEvent(row)),
+    };
+  }
+
+  /**
+   * Assigns the reviewer who signs off on a prompt, or removes the reviewer. Only the owner can do this,
+   * and only while the prompt is a draft or in review.
+   *
+   * @param {PromptSFL} prompt - The prompt, as visible to the requesting user.
+   * @param {unknown} email - The email address of the reviewer, or null to remove the reviewer.
+   * @param {string} userId - The ID of the requesting user.
+   * @returns {Promise<PromptReview>} A promise that resolves to the updated review state.
+   * @throws {PromptAccessError} If the user does not own the prompt.
+   * @throws {Error} If the prompt is approved or deprecated, the email matches no user, names the owner,
+   * or belongs to a user who cannot see the prompt.
+   * @since 0.6.0
+   */
+  async assignReviewer(prompt: PromptSFL, email: unknown, userId: string): Promise<PromptReview> {
+    if (prompt.access !== 'owner') {
+      throw new PromptAccessError('Only the owner can assign a reviewer');
+    }
+    const status = prompt.status || 'draft';
+    if (status !== 'draft' && status !== 'in_review') {
+      throw new Error('A reviewer can only be assigned to drafts and prompts in review');
+    }
+
+    let reviewerId: string | null = null;
+    if (email !== null && email !== undefined && email !== '') {
+      if (typeof email !== 'string') {
+        throw new Error('Reviewer must be an email address');
+      }
+      const pool = await getPool();
+      const user = (await pool.query('SELECT id FROM users WHERE email = $1', [email.trim().toLowerCase()])).rows[0];
+      if (!user) {
+        throw new Error(`No user found for: ${email.trim()}`);
+      }
+      if (user.id === userId) {
+        throw new Error('You cannot review your own prompt');
+      }
+      if (!await PromptService.getPromptById(prompt.id, user.id)) {
+        throw new Error('The reviewer cannot see this prompt; share it with them first');
+      }
+      reviewerId = user.id;
+    } else if (status === 'in_review') {
+      throw new Error('A prompt in review must keep its reviewer');
+    }
+
+    const pool = await getPool();
+    await pool.query('UPDATE prompts SET reviewer_id = $1 WHERE id = $2', [reviewerId, prompt.id]);
+    return this.getReview({ ...prompt, reviewerId: reviewerId ?? undefined });
+  }
+
+  /**
+   * Moves a prompt to another status and records the change in the audit trail.
+   * The owner sends drafts for review, withdraws them, deprecates approved prompts and reopens them as drafts;
+   * only the assigned reviewer approves a prompt, and the reviewer can also send it back to draft.
+   *
+   * @param {PromptSFL} prompt - The prompt, as visible to the requesting user.
+   * @param {unknown} toStatus - The status to move to.
+   * @param {string} userId - The ID of the requesting user.
+   * @param {unknown} [note] - An optional note explaining the change.
+   * @returns {Promise<PromptReview>} A promise that resolves to the updated review state.
+   * @throws {PromptAccessError} If the user may not make this change.
+   * @throws {Error} If the status is unknown, the change is not allowed from the current status,
+   * or the prompt is sent for review without a reviewer.
+   *
+   * @example
+   * ```typescript
+   * const prompt = await promptService.getPromptById(promptId, reviewerId);
+   * await promptReviewService.changeStatus(prompt!, 'approved', reviewerId, 'Checked against the refund policy');
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async changeStatus(prompt: PromptSFL, toStatus: unknown, userId: string, note?: unknown): Promise<PromptReview> {
+    if (!this.isStatus(toStatus)) {
+      throw new Error(`Status must be one of: ${Object.keys(TRANSITIONS).join(', ')}`);
+    }
+    const fromStatus = prompt.status || 'draft';
+    if (!TRANSITIONS[fromStatus].includes(toStatus)) {
+      throw new Error(`A prompt cannot move from ${fromStatus} to ${toStatus}`);
+    }
+    const text = this.parseText(note, false);
+
+    const isOwner = prompt.access === 'owner';
+    const isReviewer = !!prompt.reviewerId && prompt.reviewerId === userId;
+    if (toStatus === 'approved') {
+      if (!isReviewer) throw new PromptAccessError('Only the assigned reviewer can approve this prompt');
+    } else if (fromStatus === 'in_review' && toStatus === 'draft') {
+      if (!isOwner && !isReviewer) throw new PromptAccessError('Only the owner or the reviewer can send this prompt back to draft');
+    } else if (!isOwner) {
+      throw new PromptAccessError('Only the owner can change the status of this prompt');
+    }
+    if (toStatus === 'in_review' && !prompt.reviewerId) {
+      throw new Error('Assign a reviewer before sending the prompt for review');
+    }
+
+    const pool = await getPool();
+    await pool.query('UPDATE prompts SET status = $1 WHERE id = $2', [toStatus, prompt.id]);
+    await pool.query(
+      `INSERT INTO prompt_status_events (prompt_id, from_status, to_status, reviewer_id, note, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [prompt.id, fromStatus, toStatus, prompt.reviewerId ?? null, text, userId]
+    );
+    return this.getReview({ ...prompt, status: toStatus });
+  }
+
+  /**
+   * Lists the review comments on a prompt, oldest first.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<PromptComment[]>} A promise that resolves to the comments; replies name their parent.
+   * @since 0.6.0
+   */
+  async listComments(promptId: string): Promise<PromptComment[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT c.*, u.email AS author_email FROM prompt_comments c
+       LEFT JOIN users u ON u.id = c.created_by
+       WHERE c.prompt_id = $1 ORDER BY c.created_at, c.id`,
+      [promptId]
+    );
+    return result.rows.map(row => this.mapRowToComment(row));
+  }
+
+  /**
+   * Adds a review comment to a prompt, optionally as a reply to another comment on the same prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {unknown} body - The comment text.
+   * @param {unknown} parentId - The ID of the comment being answered, if any.
+   * @param {string} userId - The ID of the author.
+   * @returns {Promise<PromptComment>} A promise that resolves to the new comment.
+   * @throws {Error} If the text is empty or too long, or the parent is not a comment on this prompt.
+   * @since 0.6.0
+   */
+  async addComment(promptId: string, body: unknown, parentId: unknown, userId: string): Promise<PromptComment> {
+    const text = this.parseText(body, true);
+    const pool = await getPool();
+
+    if (parentId !== undefined && parentId !== null) {
+      const parent = typeof parentId === 'string'
+        ? (await pool.query('SELECT id FROM prompt_comments WHERE id = $1 AND prompt_id = $2', [parentId, promptId])).rows[0]
+        : undefined;
+      if (!parent) {
+        throw new Error('The comment being answered does not belong to this prompt');
+      }
+    }
+
+    const result = await pool.query(
+      `WITH inserted AS (
+         INSERT INTO prompt_comments (prompt_id, parent_id, body, created_by) VALUES ($1, $2, $3, $4) RETURNING *
+       )
+       SELECT inserted.*, u.email AS author_email FROM inserted LEFT JOIN users u ON u.id = inserted.created_by`,
+      [promptId, parentId ?? null, text, userId]
+    );
+    return this.mapRowToComment(result.rows[0]);
+  }
+
+  /**
+   * Finds the prompts, among those the given tasks run, that are not approved. Prompts that are missing,
+   * in the trash or not visible to the user are reported too, with no title or status.
+   *
+   * @param {Array<{ promptId?: string; subtasks?: Array<{ promptId?: string }> }>} tasks - The tasks of a workflow; the subtasks of MAP tasks are checked too.
+   * @param {string} [userId] - The ID of the user running the workflow.
+   * @returns {Promise<UnapprovedPrompt[]>} A promise that resolves to the prompts that block the run; empty if every prompt is approved.
+   * @since 0.6.0
+   */
+  async findUnapprovedPrompts(tasks: Array<{ promptId?: string; subtasks?: Array<{ promptId?: string }> }>, userId?: string): Promise<UnapprovedPrompt[]> {
+    const promptIds = [...new Set(tasks
+      .flatMap(task => [task, ...(task.subtasks || [])])
+      .map(task => task.promptId)
+      .filter((id): id is string => !!id))];
+    const unapproved: UnapprovedPrompt[] = [];
+    for (const id of promptIds) {
+      const prompt = await PromptService.getPromptById(id, userId);
+      if (!prompt) {
+        unapproved.push({ id, title: null, status: null });
+      } else if (prompt.status !== 'approved') {
+        unapproved.push({ id, title: prompt.title, status: prompt.status || 'draft' });
+      }
+    }
+    return unapproved;
+  }
+}
+
+export default new PromptReviewService();
@@ -0,0 +1,251 @@
+/**
+ * @file promptRevisionService.ts
+ * @description This service manages the version history of prompts.
+ * Every saved state of a prompt is stored as an immutable revision, which can be listed,
+ * retrieved individually and compared field by field against another revision.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { Prompt, PromptRevision, PromptRevisionDiff, PromptRevisionFieldChange, PromptRevisionRecord } from '../types';
+
+/**
+ * Postgres error code raised when a unique index is violated.
+ * @private
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * How many times a revision is inserted before a clash over its revision number is given up on.
+ * @private
+ */
+const MAX_REVISION_ATTEMPTS = 5;
+
+/**
+ * The fields compared when diffing two revisions, as dotted paths into a `PromptRevision`.
+ * @private
+ */
+const DIFFABLE_FIELDS = [
+  'title',
+  'promptText',
+  'sflField.topic',
+  'sflField.taskType',
+  'sflField.domainSpecifics',
+  'sflField.keywords',
+  'sflTenor.aiPersona',
+  'sflTenor.targetAudience',
+  'sflTenor.desiredTone',
+  'sflTenor.interpersonalStance',
+  'sflMode.outputFormat',
+  'sflMode.rhetoricalStructure',
+  'sflMode.lengthConstraint',
+  'sflMode.textualDirectives',
+  'variables',
+  'exampleOutput',
+  'notes',
+];
+
+/**
+ * @class PromptRevisionService
+ * @description A class to encapsulate the storage and comparison of prompt revisions.
+ * Revisions are append-only: rolling back creates a new revision rather than rewriting history.
+ *
+ * @since 0.6.0
+ */
+class PromptRevisionService {
+  /**
+   * Maps a database revision record to the `PromptRevision` API format.
+   *
+   * @param {PromptRevisionRecord} record - The revision record from the database.
+   * @returns {PromptRevision} The revision in SFL format.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRecordToRevision(record: PromptRevisionRecord): PromptRevision {
+    const metadata = record.metadata || {};
+
+    return {
+      id: record.id,
+      promptId: record.prompt_id,
+      revisionNumber: record.revision_number,
+      createdBy: record.user_id,
+      createdAt: record.created_at,
+      title: record.title,
+      promptText: record.body,
+      sflField: metadata.sflField || { topic: '', taskType: '', domainSpecifics: '', keywords: '' },
+      sflTenor: metadata.sflTenor || { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
+      sflMode: metadata.sflMode || { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+      variables: metadata.variables,
+      exampleOutput: metadata.exampleOutput,
+      notes: metadata.notes,
+      sourceDocument: metadata.sourceDocument,
+    };
+  }
+
+  /**
+   * Reads a dotted field path from a revision and normalizes it to a string for comparison.
+   *
+   * @param {PromptRevision} revision - The revision to read from.
+   * @param {string} path - The dotted field path, e.g. `sflTenor.targetAudience`.
+   * @returns {string} The field value as a string; arrays of strings are joined with `, `
+   * and other objects are serialized as JSON.
+   * @private
+   * @since 0.6.0
+   */
+  private readField(revision: PromptRevision, path: string): string {
+    const value = path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), revision);
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.join(', ');
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value, null, 2);
+    return value == null ? '' : String(value);
+  }
+
+  /**
+   * Stores the given prompt state as the next revision of that prompt.
+   * The revision number is allocated as one past the highest existing revision. When two saves of the same
+   * prompt allocate the same number at once, the one that loses the `UNIQUE(prompt_id, revision_number)` race
+   * allocates again, so both revisions are kept.
+   *
+   * @param {Prompt} prompt - The prompt record whose state should be captured.
+   * @param {string} userId - The ID of the user who produced this state.
+   * @returns {Promise<PromptRevision>} A promise that resolves to the stored revision.
+   *
+   * @example
+   * ```typescript
+   * const result = await pool.query('UPDATE prompts SET ... RETURNING *', [...]);
+   * await promptRevisionService.recordRevision(result.rows[0], userId);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async recordRevision(prompt: Prompt, userId: string): Promise<PromptRevision> {
+    const pool = await getPool();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await pool.query(
+          `INSERT INTO prompt_revisions (prompt_id, revision_number, user_id, title, body, metadata)
+           SELECT $1, COALESCE(MAX(revision_number), 0) + 1, $2, $3, $4, $5 FROM prompt_revisions WHERE prompt_id = $1
+           RETURNING *`,
+          [prompt.id, userId, prompt.title, prompt.body, prompt.metadata]
+        );
+        return this.mapRecordToRevision(result.rows[0]);
+      } catch (error: any) {
+        if (error?.code !== UNIQUE_VIOLATION || attempt >= MAX_REVISION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Lists every revision of a prompt, newest first.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<PromptRevision[]>} A promise that resolves to the prompt's revisions.
+   *
+   * @example
+   * ```typescript
+   * const revisions = await promptRevisionService.listRevisions(promptId);
+   * console.log(`Prompt has ${revisions.length} revisions`);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async listRevisions(promptId: string): Promise<PromptRevision[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_revisions WHERE prompt_id = $1 ORDER BY revision_number DESC',
+      [promptId]
+    );
+    return result.rows.map(row => this.mapRecordToRevision(row));
+  }
+
+  /**
+   * Retrieves a single revision of a prompt by its revision number.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {number} revisionNumber - The revision number, starting at 1.
+   * @returns {Promise<PromptRevision | null>} A promise that resolves to the revision, or null if not found.
+   *
+   * @since 0.6.0
+   */
+  async getRevision(promptId: string, revisionNumber: number): Promise<PromptRevision | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_revisions WHERE prompt_id = $1 AND revision_number = $2',
+      [promptId, revisionNumber]
+    );
+    if (!result.rows[0]) return null;
+    return this.mapRecordToRevision(result.rows[0]);
+  }
+
+  /**
+   * Finds the number of the most recent revision of a prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<number | null>} A promise that resolves to the revision number, or null if the prompt has no revisions.
+   *
+   * @since 0.6.0
+   */
+  async getLatestRevisionNumber(promptId: string): Promise<number | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT MAX(revision_number) AS revision_number FROM prompt_revisions WHERE prompt_id = $1',
+      [promptId]
+    );
+    return result.rows[0]?.revision_number ?? null;
+  }
+
+  /**
+   * Compares two revisions field by field, covering the prompt text and each SFL component.
+   * Only fields whose values differ are included in the result.
+   *
+   * @param {PromptRevision} from - The older revision.
+   * @param {PromptRevision} to - The newer revision.
+   * @returns {PromptRevisionFieldChange[]} The list of changed fields.
+   *
+   * @example
+   * ```typescript
+   * const changes = promptRevisionService.compareRevisions(rev1, rev2);
+   * // [{ field: 'sflTenor.desiredTone', from: 'Formal', to: 'Casual' }]
+   * ```
+   *
+   * @since 0.6.0
+   */
+  compareRevisions(from: PromptRevision, to: PromptRevision): PromptRevisionFieldChange[] {
+    return DIFFABLE_FIELDS
+      .map(field => ({ field, from: this.readField(from, field), to: this.readField(to, field) }))
+      .filter(change => change.from !== change.to);
+  }
+
+  /**
+   * Loads two revisions of a prompt and returns their field-by-field diff.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {number} fromRevision - The revision number to compare from.
+   * @param {number} toRevision - The revision number to compare to.
+   * @returns {Promise<PromptRevisionDiff | null>} A promise that resolves to the diff, or null if either revision does not exist.
+   *
+   * @since 0.6.0
+   */
+  async diffRevisions(promptId: string, fromRevision: number, toRevision: number): Promise<PromptRevisionDiff | null> {
+    const from = await this.getRevision(promptId, fromRevision);
+    const to = await this.getRevision(promptId, toRevision);
+    if (!from || !to) return null;
+
+    return {
+      promptId,
+      fromRevision,
+      toRevision,
+      changes: this.compareRevisions(from, to),
+    };
+  }
+}
+
+/**
+ * @exports {PromptRevisionService} promptRevisionService
+ * @description Singleton instance of the PromptRevisionService class.
+ *
+ * @since 0.6.0
+ */
+export default new PromptRevisionService();
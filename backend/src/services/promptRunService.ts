@@ -0,0 +1,214 @@
+/**
+ * @file promptRunService.ts
+ * @description This service runs prompts for testing and keeps a history of every run. A run renders the
+ * prompt with its inheritance and partials resolved, fills in the given variable values, compiles it into
+ * the chosen provider layout, sends it through `UnifiedAIService` and records what was sent, with which
+ * provider configuration, and what came back. A successful run can be pinned as the prompt's example output,
+ * and its response can be judged against the prompt's SFL declaration, keeping the latest rubric with the run.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @requires ./unifiedAIService
+ * @requires ./promptCompositionService
+ * @requires ./promptCompilerService
+ * @requires ./promptService
+ * @requires ./responseJudgeService
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { PromptCompileFormat, PromptRun, PromptSFL } from '../types';
+import UnifiedAIService, { ProviderAwareRequest } from './unifiedAIService';
+import PromptCompositionService from './promptCompositionService';
+import PromptCompilerService from './promptCompilerService';
+import PromptService from './promptService';
+import ResponseJudgeService from './responseJudgeService';
+
+/**
+ * Default and maximum number of runs returned when listing a prompt's history.
+ * @private
+ */
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 100;
+
+/**
+ * @class PromptRunService
+ * @description A class to encapsulate test runs of prompts and their history.
+ *
+ * @since 0.6.0
+ */
+class PromptRunService {
+  /**
+   * Maps a `prompt_runs` row to the `PromptRun` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {PromptRun} The run.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToRun(row: any): PromptRun {
+    return {
+      id: row.id,
+      promptId: row.prompt_id,
+      format: row.format || 'plain',
+      renderedPrompt: row.rendered_prompt,
+      systemPrompt: row.system_prompt ?? null,
+      variables: row.variables || {},
+      provider: row.provider,
+      model: row.model,
+      parameters: row.parameters || {},
+      responseText: row.response_text,
+      usage: row.usage ?? null,
+      latencyMs: row.latency_ms,
+      error: row.error ?? null,
+      judgement: row.judgement ?? null,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Runs a prompt and records the run. A failing model call is recorded with its error rather than thrown,
+   * so that failures show up in the history too.
+   *
+   * @param {PromptSFL} prompt - The prompt to run.
+   * @param {Record<string, string>} variables - The values of the prompt's variables.
+   * @param {ProviderAwareRequest} providerConfig - The provider, model and parameters to run the prompt with.
+   * @param {string} userId - The ID of the user running the prompt.
+   * @param {PromptCompileFormat} [format='plain'] - The layout to compile the prompt into; `plain` sends the text alone.
+   * @returns {Promise<PromptRun>} A promise that resolves to the recorded run.
+   * @throws {Error} If the prompt cannot be rendered or a required variable has no value; nothing is recorded then.
+   *
+   * @example
+   * ```typescript
+   * const run = await promptRunService.runPrompt(prompt, { customer: 'Ana' }, { provider: 'openai', model: 'gpt-4o-mini' }, userId, 'openai');
+   * run.error ?? run.responseText;
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async runPrompt(prompt: PromptSFL, variables: Record<string, string>, providerConfig: ProviderAwareRequest, userId: string, format: PromptCompileFormat = 'plain'): Promise<PromptRun> {
+    const rendered = await PromptCompositionService.renderPrompt(prompt, userId);
+    const filledText = PromptCompositionService.fillVariables(rendered, variables);
+    if (!filledText.trim()) {
+      throw new Error('The rendered prompt is empty');
+    }
+    const compiled = PromptCompilerService.compile({ ...rendered, promptText: filledText }, format);
+
+    const result = await UnifiedAIService.runPrompt(compiled.user, providerConfig, compiled.system || undefined);
+
+    const pool = await getPool();
+    const inserted = await pool.query(
+      `INSERT INTO prompt_runs (prompt_id, rendered_prompt, variables, provider, model, parameters, response_text, usage, latency_ms, error, created_by, format, system_prompt)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
+      [
+        prompt.id,
+        compiled.user,
+        JSON.stringify(variables),
+        result.provider,
+        result.model,
+        JSON.stringify(result.parameters),
+        result.text,
+        result.usage ? JSON.stringify(result.usage) : null,
+        Math.round(result.processingTime),
+        result.error ?? null,
+        userId,
+        format,
+        compiled.system || null,
+      ]
+    );
+    return this.mapRowToRun(inserted.rows[0]);
+  }
+
+  /**
+   * Lists the recorded runs of a prompt, newest first. Runs keep the variables and responses of the user who made
+   * them, so the prompt's owner sees every run and anyone else only their own. Callers are responsible for checking
+   * that the prompt is visible to the user.
+   *
+   * @param {PromptSFL} prompt - The prompt, as visible to the user.
+   * @param {string} userId - The ID of the user listing the runs.
+   * @param {unknown} [limit] - The maximum number of runs to return.
+   * @returns {Promise<PromptRun[]>} A promise that resolves to the runs.
+   * @throws {Error} If the limit is not a positive integer.
+   * @since 0.6.0
+   */
+  async listRuns(prompt: PromptSFL, userId: string, limit?: unknown): Promise<PromptRun[]> {
+    let parsedLimit = DEFAULT_RUN_LIMIT;
+    if (limit !== undefined) {
+      parsedLimit = Number(limit);
+      if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+        throw new Error('limit must be a positive integer');
+      }
+    }
+
+    const pool = await getPool();
+    const ownRunsOnly = prompt.ownerId !== userId;
+    const result = await pool.query(
+      `SELECT * FROM prompt_runs WHERE prompt_id = $1${ownRunsOnly ? ' AND created_by = $3' : ''} ORDER BY created_at DESC LIMIT $2`,
+      ownRunsOnly
+        ? [prompt.id, Math.min(parsedLimit, MAX_RUN_LIMIT), userId]
+        : [prompt.id, Math.min(parsedLimit, MAX_RUN_LIMIT)]
+    );
+    return result.rows.map(row => this.mapRowToRun(row));
+  }
+
+  /**
+   * Makes the response of a run the prompt's example output. As with judging, only the user who made the run and the
+   * prompt's owner may pin it; to anyone else it does not exist.
+   *
+   * @param {PromptSFL} prompt - The prompt the run belongs to, as visible to the user.
+   * @param {string} runId - The UUID of the run.
+   * @param {string} userId - The ID of the user, who must be allowed to edit the prompt.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the updated prompt, or null if the prompt has no such run the user may pin.
+   * @throws {Error} If the run failed and has no response to pin.
+   * @throws {PromptAccessError} If the user may see the prompt but not edit it.
+   * @since 0.6.0
+   */
+  async pinRun(prompt: PromptSFL, runId: string, userId: string): Promise<PromptSFL | null> {
+    const pool = await getPool();
+    const result = await pool.query('SELECT * FROM prompt_runs WHERE id = $1 AND prompt_id = $2', [runId, prompt.id]);
+    if (!result.rows[0]) return null;
+
+    const run = this.mapRowToRun(result.rows[0]);
+    if (run.createdBy !== userId && prompt.ownerId !== userId) return null;
+    if (run.error) {
+      throw new Error('Only successful runs can be pinned as the example output');
+    }
+    return PromptService.updatePrompt(prompt.id, { exampleOutput: run.responseText }, userId);
+  }
+
+  /**
+   * Judges the response of a run against the SFL declaration of its prompt and stores the rubric with the run,
+   * replacing an earlier one. The prompt is rendered first, so that fields inherited from a base prompt count too.
+   * Only the user who made the run and the prompt's owner may judge it; to anyone else it does not exist.
+   *
+   * @param {PromptSFL} prompt - The prompt the run belongs to, as visible to the user.
+   * @param {string} runId - The UUID of the run.
+   * @param {ProviderAwareRequest} judgeConfig - The judge's provider, model and parameters; the configured judge model is used for whatever is left out.
+   * @param {string} userId - The ID of the user requesting the judgement.
+   * @returns {Promise<PromptRun | null>} A promise that resolves to the run with its judgement, or null if the prompt has no such run the user may judge.
+   * @throws {Error} If the run failed, the prompt declares nothing to judge against, or the judge model fails.
+   * @since 0.6.0
+   */
+  async judgeRun(prompt: PromptSFL, runId: string, judgeConfig: ProviderAwareRequest, userId: string): Promise<PromptRun | null> {
+    const pool = await getPool();
+    const result = await pool.query('SELECT * FROM prompt_runs WHERE id = $1 AND prompt_id = $2', [runId, prompt.id]);
+    if (!result.rows[0]) return null;
+
+    const run = this.mapRowToRun(result.rows[0]);
+    if (run.createdBy !== userId && prompt.ownerId !== userId) return null;
+    if (run.error) {
+      throw new Error('Only successful runs can be judged');
+    }
+    const rendered = await PromptCompositionService.renderPrompt(prompt, userId);
+    const judgement = await ResponseJudgeService.judgeResponse(rendered, run.responseText, judgeConfig);
+
+    const updated = await pool.query(
+      'UPDATE prompt_runs SET judgement = $1 WHERE id = $2 RETURNING *',
+      [JSON.stringify(judgement), runId]
+    );
+    return this.mapRowToRun(updated.rows[0]);
+  }
+}
+
+export default new PromptRunService();
@@ -6,13 +6,102 @@
  *
  * @requires ../config/database
  * @requires ../types
+ * @requires ./promptRevisionService
+ * @requires ./embeddingService
+ * @requires ../validation/promptSchemas
  * @since 0.5.1
  */
 
 import getPool from '../config/database';
-import { Prompt, PromptSFL } from '../types';
+import { Prompt, PromptSFL, PromptVariable, PromptVisibility, PromptAccess, PromptStatus, PromptQuery, PromptPage, PromptSortField, SemanticSearchResult, PromptLineage, PromptLineageNode, PromptLocaleVariant } from '../types';
+import PromptRevisionService from './promptRevisionService';
+import EmbeddingService, { toVectorLiteral } from './embeddingService';
+import TagService from './tagService';
+import { validatePromptVariables, validatePromptLocale } from '../validation/promptSchemas';
 import '../types/express';
 
+/**
+ * Default and maximum number of prompts returned per page.
+ * @private
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Default and maximum number of nearest neighbours returned by semantic search.
+ * @private
+ */
+const DEFAULT_SEMANTIC_LIMIT = 10;
+const MAX_SEMANTIC_LIMIT = 50;
+
+/**
+ * SQL sort expressions for each supported sort field, with the Postgres type used to
+ * compare cursor values. The relevance expression is built per query from the search term.
+ * @private
+ */
+const SORT_COLUMNS: Record<PromptSortField, { expression: string; type: string }> = {
+  updatedAt: { expression: 'updated_at', type: 'timestamptz' },
+  createdAt: { expression: 'created_at', type: 'timestamptz' },
+  title: { expression: 'lower(title)', type: 'text' },
+  relevance: { expression: '', type: 'real' },
+};
+
+/**
+ * The visibility levels a prompt can have.
+ * @private
+ */
+const VISIBILITIES: PromptVisibility[] = ['private', 'shared', 'public'];
+
+/**
+ * Builds the SQL condition that limits prompts to those a user may read: public prompts,
+ * their own prompts and prompts shared with them. Anonymous callers only see public prompts,
+ * and prompts in the trash are hidden from everyone.
+ * 
+ * @param {string} alias - The table alias of the prompts table in the query.
+ * @param {string | undefined} userId - The ID of the requesting user, if authenticated.
+ * @param {any[]} values - The query parameters; the user ID is appended when needed.
+ * @returns {string} The SQL condition.
+ * @private
+ */
+function visibleToCondition(alias: string, userId: string | undefined, values: any[]): string {
+  if (!userId) {
+    return `${alias}.deleted_at IS NULL AND ${alias}.visibility = 'public'`;
+  }
+  values.push(userId);
+  const param = `$${values.length}`;
+  return `${alias}.deleted_at IS NULL AND (${alias}.visibility = 'public' OR ${alias}.user_id = ${param} OR (${alias}.visibility = 'shared' AND ` +
+    `EXISTS (SELECT 1 FROM prompt_shares s WHERE s.prompt_id = ${alias}.id AND s.user_id = ${param})))`;
+}
+
+/**
+ * Builds the select-list entry that collects a prompt's tag names into a `tags` column.
+ * 
+ * @param {string} alias - The table alias of the prompts table in the query.
+ * @returns {string} The SQL select-list entry.
+ * @private
+ */
+function tagsColumn(alias: string): string {
+  return `ARRAY(SELECT t.name FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id WHERE pt.prompt_id = ${alias}.id ORDER BY lower(t.name)) AS tags`;
+}
+
+/**
+ * @class PromptAccessError
+ * @description Thrown when a user can see a prompt but is not allowed to perform the requested change,
+ * e.g. editing a public prompt they do not own or deleting a prompt that was only shared with them.
+ * Controllers translate it into a 403 response.
+ * 
+ * @since 0.6.0
+ */
+export class PromptAccessError extends Error {
+  readonly statusCode = 403;
+  readonly isOperational = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptAccessError';
+  }
+}
+
 /**
  * @class PromptService
  * @description A class to encapsulate all business logic for prompts.
@@ -34,10 +123,18 @@ class PromptService {
    * @since 0.5.1
    */
   private mapSFLToPrompt(sflData: PromptSFL | Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>, userId: string): Omit<Prompt, 'id' | 'created_at' | 'updated_at'> {
+    const visibility = sflData.visibility ?? 'private';
+    if (!VISIBILITIES.includes(visibility)) {
+      throw new Error(`Visibility must be one of: ${VISIBILITIES.join(', ')}`);
+    }
+
     const metadata = {
       sflField: sflData.sflField,
       sflTenor: sflData.sflTenor,
       sflMode: sflData.sflMode,
+      variables: sflData.variables,
+      extendsId: sflData.extendsId || undefined,
+      locale: this.parseLocale(sflData.locale),
       exampleOutput: sflData.exampleOutput,
       notes: sflData.notes,
       sourceDocument: sflData.sourceDocument,
@@ -48,6 +145,7 @@ class PromptService {
       title: sflData.title || 'Untitled Prompt',
       body: sflData.promptText || '',
       metadata,
+      visibility,
     };
   }
 
@@ -56,12 +154,12 @@ class PromptService {
    * Reconstructs the full SFL structure from the flattened database record,
    * providing default values for missing SFL components.
    * 
-   * @param {Prompt} dbPrompt - The prompt record from the database.
+   * @param {Prompt & { access?: PromptAccess }} dbPrompt - The prompt record from the database, optionally with the requester's access level.
    * @returns {PromptSFL} The prompt data in the SFL format.
    * @private
    * @since 0.5.1
    */
-  private mapPromptToSFL(dbPrompt: Prompt): PromptSFL {
+  private mapPromptToSFL(dbPrompt: Prompt & { access?: PromptAccess }): PromptSFL {
     const metadata = dbPrompt.metadata || {};
     
     return {
@@ -73,20 +171,155 @@ class PromptService {
       sflField: metadata.sflField || { topic: '', taskType: '', domainSpecifics: '', keywords: '' },
       sflTenor: metadata.sflTenor || { aiPersona: '', targetAudience: [], desiredTone: '', interpersonalStance: '' },
       sflMode: metadata.sflMode || { outputFormat: '', rhetoricalStructure: '', lengthConstraint: '', textualDirectives: '' },
+      variables: metadata.variables,
+      extendsId: metadata.extendsId,
+      forkedFromId: dbPrompt.forked_from_id ?? undefined,
+      forkedFromRevision: dbPrompt.forked_from_revision ?? undefined,
+      locale: metadata.locale,
+      localeSourceId: dbPrompt.locale_source_id ?? undefined,
+      status: dbPrompt.status,
+      reviewerId: dbPrompt.reviewer_id ?? undefined,
       exampleOutput: metadata.exampleOutput,
       notes: metadata.notes,
       sourceDocument: metadata.sourceDocument,
+      ownerId: dbPrompt.user_id,
+      visibility: dbPrompt.visibility,
+      access: dbPrompt.access,
+      tags: dbPrompt.tags,
     };
   }
 
+  /**
+   * Loads a prompt together with the requesting user's access level,
+   * or returns null if the prompt does not exist, is in the trash or the user may not see it.
+   * 
+   * @param {string} id - The UUID of the prompt.
+   * @param {string | undefined} userId - The ID of the requesting user, if authenticated.
+   * @returns {Promise<(Prompt & { access: PromptAccess }) | null>} The prompt record with an `access` column, or null.
+   * @private
+   * @since 0.6.0
+   */
+  private async findAccessiblePrompt(id: string, userId: string | undefined): Promise<(Prompt & { access: PromptAccess }) | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT *, ${tagsColumn('prompts')}, CASE
+         WHEN user_id = $2 THEN 'owner'
+         WHEN visibility = 'shared' AND EXISTS (SELECT 1 FROM prompt_shares s WHERE s.prompt_id = prompts.id AND s.user_id = $2) THEN 'shared'
+         WHEN visibility = 'public' THEN 'public'
+       END AS access
+       FROM prompts WHERE id = $1 AND deleted_at IS NULL`,
+      [id, userId ?? null]
+    );
+    const row = result.rows[0];
+    return row && row.access ? row : null;
+  }
+
+  /**
+   * Lists the email addresses of the users a prompt is shared with.
+   * 
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<string[]>} The email addresses, sorted alphabetically.
+   * @private
+   * @since 0.6.0
+   */
+  private async getSharedWith(promptId: string): Promise<string[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT u.email FROM prompt_shares s JOIN users u ON u.id = s.user_id WHERE s.prompt_id = $1 ORDER BY u.email',
+      [promptId]
+    );
+    return result.rows.map(row => row.email);
+  }
+
+  /**
+   * Replaces the list of users a prompt is shared with.
+   * 
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string} ownerId - The ID of the prompt's owner, who is never added to the list.
+   * @param {unknown} emails - The email addresses of the users to share with.
+   * @returns {Promise<string[]>} The email addresses the prompt is now shared with.
+   * @throws {Error} If the list is malformed or contains an email address with no matching user.
+   * @private
+   * @since 0.6.0
+   */
+  private async replaceShares(promptId: string, ownerId: string, emails: unknown): Promise<string[]> {
+    if (!Array.isArray(emails) || !emails.every(email => typeof email === 'string')) {
+      throw new Error('sharedWith must be a list of email addresses');
+    }
+    const normalized = [...new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean))];
+
+    const pool = await getPool();
+    const users = normalized.length
+      ? (await pool.query('SELECT id, email FROM users WHERE email = ANY($1)', [normalized])).rows
+      : [];
+    const unknown = normalized.filter(email => !users.some(user => user.email === email));
+    if (unknown.length > 0) {
+      throw new Error(`No user found for: ${unknown.join(', ')}`);
+    }
+
+    const recipientIds = users.map(user => user.id).filter(id => id !== ownerId);
+    await pool.query('DELETE FROM prompt_shares WHERE prompt_id = $1', [promptId]);
+    if (recipientIds.length > 0) {
+      await pool.query(
+        'INSERT INTO prompt_shares (prompt_id, user_id) SELECT $1, unnest($2::uuid[])',
+        [promptId, recipientIds]
+      );
+    }
+    return this.getSharedWith(promptId);
+  }
+
+  /**
+   * Checks that a requested base prompt is visible to the user and, when changing an existing prompt,
+   * that the base does not already extend that prompt, which would make the inheritance circular.
+   * 
+   * @param {unknown} extendsId - The requested base prompt ID; null, undefined or an empty string means no base.
+   * @param {string} userId - The ID of the user saving the prompt.
+   * @param {string} [promptId] - The ID of the prompt being changed, if it already exists.
+   * @returns {Promise<string | undefined>} The validated base prompt ID, or undefined for none.
+   * @throws {Error} If the base does not exist, is not visible to the user, or would create a cycle.
+   * @private
+   * @since 0.6.0
+   */
+  private async resolveBase(extendsId: unknown, userId: string, promptId?: string): Promise<string | undefined> {
+    if (extendsId === null || extendsId === undefined || extendsId === '') return undefined;
+    if (typeof extendsId !== 'string') {
+      throw new Error('extendsId must be a prompt ID');
+    }
+    if (!await this.findAccessiblePrompt(extendsId, userId)) {
+      throw new Error('Base prompt not found');
+    }
+
+    if (promptId) {
+      const pool = await getPool();
+      const cycle = await pool.query(
+        `WITH RECURSIVE chain AS (
+           SELECT id, metadata->>'extendsId' AS extends_id FROM prompts WHERE id = $1
+           UNION
+           SELECT p.id, p.metadata->>'extendsId' FROM prompts p JOIN chain c ON p.id = c.extends_id::uuid
+         )
+         SELECT 1 FROM chain WHERE id = $2`,
+        [extendsId, promptId]
+      );
+      if (cycle.rows[0]) {
+        throw new Error('A prompt cannot extend itself or a prompt that extends it');
+      }
+    }
+    return extendsId;
+  }
+
   /**
    * Creates a new prompt in the database.
    * Validates required fields and transforms the SFL data before insertion.
    * 
+   * The creating user becomes the prompt's owner. Prompts are private unless `visibility` says otherwise,
+   * and `sharedWith` lists the email addresses of the users a shared prompt is visible to.
+   * `tags` lists tag names; tags that do not exist yet are created. A prompt that extends a base prompt
+   * may leave its text empty to inherit the base's.
+   * 
    * @param {Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>} promptData - The SFL data for the new prompt.
    * @param {string} userId - The ID of the authenticated user creating the prompt.
    * @returns {Promise<PromptSFL>} A promise that resolves to the newly created prompt.
-   * @throws {Error} If the title or prompt text is empty.
+   * @throws {Error} If the title or prompt text is empty, the declared variables, visibility or tags are invalid, a share recipient does not exist, or the base prompt is not visible.
    * 
    * @example
    * ```typescript
@@ -105,53 +338,270 @@ class PromptService {
     if (!promptData.title?.trim()) {
       throw new Error('Title is required');
     }
-    if (!promptData.promptText?.trim()) {
+    if (!promptData.promptText?.trim() && !promptData.extendsId) {
       throw new Error('Prompt text is required');
     }
     if (!userId?.trim()) {
       throw new Error('User ID is required');
     }
+    if (promptData.variables !== undefined) {
+      promptData = { ...promptData, variables: this.parseVariables(promptData.variables) };
+    }
+
+    const tags = promptData.tags !== undefined ? TagService.parseTagNames(promptData.tags) : [];
+    if (promptData.extendsId !== undefined) {
+      promptData = { ...promptData, extendsId: await this.resolveBase(promptData.extendsId, userId) };
+    }
 
     const mappedData = this.mapSFLToPrompt(promptData, userId);
     const pool = await getPool();
     const result = await pool.query(
-      'INSERT INTO prompts (user_id, title, body, metadata) VALUES ($1, $2, $3, $4) RETURNING *',
-      [mappedData.user_id, mappedData.title, mappedData.body, mappedData.metadata]
+      'INSERT INTO prompts (user_id, title, body, metadata, visibility) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+      [mappedData.user_id, mappedData.title, mappedData.body, mappedData.metadata, mappedData.visibility]
     );
+    await PromptRevisionService.recordRevision(result.rows[0], userId);
+    await this.indexEmbedding(result.rows[0]);
+
+    const sharedWith = promptData.sharedWith !== undefined
+      ? await this.replaceShares(result.rows[0].id, userId, promptData.sharedWith)
+      : [];
+    const savedTags = tags.length ? await TagService.setPromptTags(result.rows[0].id, tags, userId) : [];
     
-    return this.mapPromptToSFL(result.rows[0]);
+    return { ...this.mapPromptToSFL({ ...result.rows[0], access: 'owner', tags: savedTags }), sharedWith };
+  }
+
+  /**
+   * Validates the template variables declared on a prompt.
+   * 
+   * @param {unknown} variables - The variable declarations from the request body.
+   * @returns {PromptVariable[]} The validated variables with defaults applied.
+   * @throws {Error} If any declaration is invalid; the message lists every problem found.
+   * @private
+   * @since 0.6.0
+   */
+  private parseVariables(variables: unknown): PromptVariable[] {
+    const result = validatePromptVariables(variables);
+    if (!result.success) {
+      throw new Error(`Invalid variables: ${result.errors.join('; ')}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Validates the locale of a prompt. An empty locale clears it.
+   * 
+   * @param {unknown} locale - The locale from the request body.
+   * @returns {string | undefined} The locale in its canonical casing, or undefined if none is set.
+   * @throws {Error} If the locale is not a language tag.
+   * @private
+   * @since 0.6.0
+   */
+  private parseLocale(locale: unknown): string | undefined {
+    if (locale === undefined || locale === null || locale === '') return undefined;
+    const result = validatePromptLocale(locale);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.data;
   }
 
   /**
-   * Retrieves all prompts from the database.
-   * Returns prompts ordered by most recently updated first.
+   * Validates raw query-string parameters into a `PromptQuery`.
+   * Unknown sort fields, out-of-range limits and malformed cursors are rejected.
    * 
-   * @param {any} filters - An object containing filter criteria (currently unused, reserved for future filtering functionality).
-   * @returns {Promise<PromptSFL[]>} A promise that resolves to an array of prompts in SFL format.
+   * @param {Record<string, any>} raw - The raw query parameters, typically `req.query`.
+   * @returns {PromptQuery} The validated query options with defaults applied.
+   * @throws {Error} If any parameter is invalid.
    * 
    * @example
    * ```typescript
-   * const allPrompts = await promptService.getPrompts({});
-   * console.log(`Found ${allPrompts.length} prompts`);
+   * const query = promptService.parsePromptQuery({ taskType: 'Summarization', sort: 'title', order: 'asc' });
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  parsePromptQuery(raw: Record<string, any>): PromptQuery {
+    const text = (value: unknown): string | undefined =>
+      typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+    const sort = text(raw.sort) ?? 'updatedAt';
+    if (!(sort in SORT_COLUMNS)) {
+      throw new Error(`Sort must be one of: ${Object.keys(SORT_COLUMNS).join(', ')}`);
+    }
+    const searchTerm = text(raw.searchTerm);
+    if (sort === 'relevance' && !searchTerm) {
+      throw new Error('Sorting by relevance requires a search term');
+    }
+
+    const order = text(raw.order) ?? (sort === 'title' ? 'asc' : 'desc');
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error('Order must be "asc" or "desc"');
+    }
+
+    const limit = raw.limit === undefined ? DEFAULT_PAGE_SIZE : Number(raw.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new Error(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    let cursor: PromptQuery['cursor'];
+    if (text(raw.cursor)) {
+      try {
+        const [sortKey, id] = JSON.parse(Buffer.from(raw.cursor, 'base64url').toString('utf8'));
+        if (typeof sortKey !== 'string' || typeof id !== 'string') throw new Error();
+        cursor = { sortKey, id };
+      } catch {
+        throw new Error('Invalid cursor');
+      }
+    }
+
+    const scope = text(raw.scope);
+    if (scope !== undefined && scope !== 'mine' && scope !== 'shared') {
+      throw new Error('Scope must be "mine" or "shared"');
+    }
+
+    return {
+      searchTerm,
+      scope,
+      tag: text(raw.tag),
+      collection: text(raw.collection),
+      locale: this.parseLocale(text(raw.locale)),
+      topic: text(raw.topic),
+      taskType: text(raw.taskType),
+      aiPersona: text(raw.aiPersona),
+      outputFormat: text(raw.outputFormat),
+      sort: sort as PromptSortField,
+      order,
+      limit,
+      cursor,
+    };
+  }
+
+  /**
+   * Retrieves one page of prompts matching the given filters.
+   * Filters are applied in SQL against the JSONB metadata, the search term uses Postgres
+   * full-text search over title, body and notes, and pagination is keyset-based on the
+   * sort key plus the prompt ID so that pages stay stable while prompts are being edited.
+   * Only prompts visible to the requesting user are returned.
+   * 
+   * @param {PromptQuery} query - The validated filter, sort and pagination options.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<PromptPage>} A promise that resolves to the page of prompts, the cursor for the next page and the total match count.
+   * 
+   * @example
+   * ```typescript
+   * const firstPage = await promptService.getPrompts(promptService.parsePromptQuery({ aiPersona: 'Expert' }));
+   * const secondPage = await promptService.getPrompts(
+   *   promptService.parsePromptQuery({ aiPersona: 'Expert', cursor: firstPage.nextCursor })
+   * );
    * ```
    * 
    * @since 0.5.1
    */
-  async getPrompts(filters: any): Promise<PromptSFL[]> {
+  async getPrompts(query: PromptQuery, userId?: string): Promise<PromptPage> {
+    const values: any[] = [];
+    const conditions: string[] = [visibleToCondition('prompts', userId, values)];
+    let searchParam = '';
+
+    if (query.scope === 'mine') {
+      values.push(userId ?? null);
+      conditions.push(`user_id = $${values.length}`);
+    } else if (query.scope === 'shared') {
+      values.push(userId ?? null);
+      conditions.push(`visibility = 'shared' AND user_id <> $${values.length}`);
+    }
+
+    if (query.tag) {
+      values.push(query.tag);
+      conditions.push(
+        `id IN (SELECT pt.prompt_id FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id WHERE lower(t.name) = lower($${values.length}))`
+      );
+    }
+    if (query.collection) {
+      // Collections are personal, and a collection includes the prompts of its sub-collections
+      values.push(query.collection, userId ?? null);
+      conditions.push(
+        `id IN (WITH RECURSIVE tree AS (` +
+        `SELECT id FROM collections WHERE id = $${values.length - 1} AND user_id = $${values.length}` +
+        ` UNION ALL SELECT c.id FROM collections c JOIN tree ON c.parent_id = tree.id` +
+        `) SELECT cp.prompt_id FROM collection_prompts cp JOIN tree ON cp.collection_id = tree.id)`
+      );
+    }
+
+    if (query.locale) {
+      // A language matches its regional variants too, so "de" also finds "de-AT"
+      values.push(query.locale);
+      conditions.push(`(metadata->>'locale' = $${values.length} OR metadata->>'locale' LIKE $${values.length} || '-%')`);
+    }
+
+    if (query.searchTerm) {
+      values.push(query.searchTerm);
+      searchParam = `websearch_to_tsquery('english', $${values.length})`;
+      conditions.push(`search_vector @@ ${searchParam}`);
+    }
+    if (query.topic) {
+      values.push(`%${query.topic}%`);
+      conditions.push(`metadata->'sflField'->>'topic' ILIKE $${values.length}`);
+    }
+    if (query.taskType) {
+      values.push(query.taskType);
+      conditions.push(`metadata->'sflField'->>'taskType' = $${values.length}`);
+    }
+    if (query.aiPersona) {
+      values.push(query.aiPersona);
+      conditions.push(`metadata->'sflTenor'->>'aiPersona' = $${values.length}`);
+    }
+    if (query.outputFormat) {
+      values.push(query.outputFormat);
+      conditions.push(`metadata->'sflMode'->>'outputFormat' = $${values.length}`);
+    }
+
+    const filterClause = ` WHERE ${conditions.join(' AND ')}`;
+    const filterValues = [...values];
+
+    const { expression, type } = SORT_COLUMNS[query.sort];
+    const sortExpression = query.sort === 'relevance' ? `ts_rank(search_vector, ${searchParam})` : expression;
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.cursor) {
+      values.push(query.cursor.sortKey, query.cursor.id);
+      conditions.push(
+        `(${sortExpression}, id) ${query.order === 'asc' ? '>' : '<'} ($${values.length - 1}::${type}, $${values.length}::uuid)`
+      );
+    }
+    values.push(query.limit + 1);
+
     const pool = await getPool();
-    const result = await pool.query('SELECT * FROM prompts ORDER BY updated_at DESC');
-    return result.rows.map(row => this.mapPromptToSFL(row));
+    const result = await pool.query(
+      `SELECT *, ${tagsColumn('prompts')}, (${sortExpression})::text AS sort_key FROM prompts WHERE ${conditions.join(' AND ')}` +
+      ` ORDER BY ${sortExpression} ${direction}, id ${direction} LIMIT $${values.length}`,
+      values
+    );
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM prompts${filterClause}`, filterValues);
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = result.rows.length > query.limit && last
+      ? Buffer.from(JSON.stringify([last.sort_key, last.id])).toString('base64url')
+      : null;
+
+    return {
+      items: rows.map(row => this.mapPromptToSFL({ ...row, access: this.accessOf(row, userId) })),
+      nextCursor,
+      total: countResult.rows[0]?.total ?? rows.length,
+    };
   }
 
   /**
-   * Retrieves a single prompt by its ID.
+   * Retrieves a single prompt by its ID, if the requesting user may see it.
+   * The owner additionally receives the list of users the prompt is shared with.
    * 
    * @param {string} id - The UUID of the prompt to retrieve.
-   * @returns {Promise<PromptSFL | null>} A promise that resolves to the prompt in SFL format, or null if not found.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the prompt in SFL format, or null if not found or not visible.
    * 
    * @example
    * ```typescript
-   * const prompt = await promptService.getPromptById('123e4567-e89b-12d3-a456-426614174000');
+   * const prompt = await promptService.getPromptById('123e4567-e89b-12d3-a456-426614174000', userId);
    * if (prompt) {
    *   console.log(`Found prompt: ${prompt.title}`);
    * } else {
@@ -161,23 +611,84 @@ class PromptService {
    * 
    * @since 0.5.1
    */
-  async getPromptById(id: string): Promise<PromptSFL | null> {
+  async getPromptById(id: string, userId?: string): Promise<PromptSFL | null> {
+    const row = await this.findAccessiblePrompt(id, userId);
+    if (!row) return null;
+
+    const prompt = this.mapPromptToSFL(row);
+    if (row.access === 'owner') {
+      prompt.sharedWith = await this.getSharedWith(id);
+    }
+    return prompt;
+  }
+
+  /**
+   * Retrieves the prompts a user may see, oldest first, optionally narrowed to the given IDs or titles.
+   * Used to gather prompts for export and to find the prompts an import would collide with.
+   *
+   * @param {{ ids?: string[]; titles?: string[] }} match - The IDs and/or titles (case-insensitive) to look for.
+   * Without either, every visible prompt is returned.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<PromptSFL[]>} A promise that resolves to the matching prompts in SFL format.
+   *
+   * @since 0.6.0
+   */
+  async findVisiblePrompts(match: { ids?: string[]; titles?: string[] }, userId?: string): Promise<PromptSFL[]> {
+    const values: any[] = [];
+    const conditions: string[] = [visibleToCondition('prompts', userId, values)];
+
+    const matchers: string[] = [];
+    if (match.ids) {
+      values.push(match.ids);
+      matchers.push(`id = ANY($${values.length}::uuid[])`);
+    }
+    if (match.titles) {
+      values.push(match.titles.map(title => title.toLowerCase()));
+      matchers.push(`lower(title) = ANY($${values.length}::text[])`);
+    }
+    if (matchers.length > 0) {
+      conditions.push(`(${matchers.join(' OR ')})`);
+    }
+
     const pool = await getPool();
-    const result = await pool.query('SELECT * FROM prompts WHERE id = $1', [id]);
-    if (!result.rows[0]) return null;
-    return this.mapPromptToSFL(result.rows[0]);
+    const result = await pool.query(
+      `SELECT *, ${tagsColumn('prompts')} FROM prompts WHERE ${conditions.join(' AND ')} ORDER BY created_at, id`,
+      values
+    );
+    return result.rows.map(row => this.mapPromptToSFL({ ...row, access: this.accessOf(row, userId) }));
+  }
+
+  /**
+   * Derives the requesting user's access level for a prompt that is already known to be visible to them.
+   * 
+   * @param {Prompt} row - A prompt record returned by a visibility-filtered query.
+   * @param {string | undefined} userId - The ID of the requesting user, if authenticated.
+   * @returns {PromptAccess} The access level.
+   * @private
+   * @since 0.6.0
+   */
+  private accessOf(row: Prompt, userId: string | undefined): PromptAccess {
+    if (userId && row.user_id === userId) return 'owner';
+    return row.visibility === 'public' ? 'public' : 'shared';
   }
 
   /**
    * Updates an existing prompt in the database.
    * Performs partial updates by merging the provided data with the existing prompt.
-   * Validates that title and promptText remain non-empty if they are being updated.
+   * Validates that title and promptText remain non-empty if they are being updated; the text may only be
+   * empty while the prompt extends a base prompt.
+   * A new revision is recorded whenever the title, body or metadata actually change, and such a change
+   * sends a prompt that is in review or approved back to draft.
+   * The owner and the users a prompt is shared with may edit it, but only the owner may change its
+   * visibility or share list. Ownership itself never changes.
    * 
    * @param {string} id - The UUID of the prompt to update.
    * @param {Partial<PromptSFL>} promptData - An object containing the fields to update.
    * @param {string} userId - The ID of the authenticated user updating the prompt.
-   * @returns {Promise<PromptSFL | null>} A promise that resolves to the updated prompt, or null if not found.
-   * @throws {Error} If the title or prompt text is being updated to an empty value.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the updated prompt, or null if not found or not visible to the user.
+   * @throws {Error} If the title or prompt text is being updated to an empty value, the declared variables or tags are invalid,
+   * or the base prompt is not visible or would make the inheritance circular.
+   * @throws {PromptAccessError} If the user may see the prompt but not make this change.
    * 
    * @example
    * ```typescript
@@ -194,40 +705,466 @@ class PromptService {
     if (promptData.title !== undefined && !promptData.title?.trim()) {
       throw new Error('Title cannot be empty');
     }
-    if (promptData.promptText !== undefined && !promptData.promptText?.trim()) {
-      throw new Error('Prompt text cannot be empty');
-    }
     if (!userId?.trim()) {
       throw new Error('User ID is required');
     }
+    if (promptData.variables !== undefined) {
+      promptData = { ...promptData, variables: this.parseVariables(promptData.variables) };
+    }
+    const tags = promptData.tags !== undefined ? TagService.parseTagNames(promptData.tags) : undefined;
 
-    const pool = await getPool();
-    const existing = await pool.query('SELECT * FROM prompts WHERE id = $1', [id]);
-    if (!existing.rows[0]) return null;
+    const existing = await this.findAccessiblePrompt(id, userId);
+    if (!existing) return null;
+    if (existing.access === 'public') {
+      throw new PromptAccessError('Public prompts can only be edited by their owner');
+    }
+    const changesSharing = (promptData.visibility !== undefined && promptData.visibility !== existing.visibility)
+      || promptData.sharedWith !== undefined;
+    if (changesSharing && existing.access !== 'owner') {
+      throw new PromptAccessError('Only the owner can change who can see this prompt');
+    }
+
+    if (promptData.extendsId !== undefined) {
+      promptData = { ...promptData, extendsId: await this.resolveBase(promptData.extendsId, userId, id) };
+    }
 
-    const existingSFL = this.mapPromptToSFL(existing.rows[0]);
+    const existingSFL = this.mapPromptToSFL(existing);
     const updatedSFL = { ...existingSFL, ...promptData };
+    if (!updatedSFL.promptText?.trim() && !updatedSFL.extendsId) {
+      throw new Error('Prompt text cannot be empty');
+    }
     const mappedData = this.mapSFLToPrompt(updatedSFL, userId);
 
+    const pool = await getPool();
     const result = await pool.query(
-      'UPDATE prompts SET user_id = $1, title = $2, body = $3, metadata = $4, updated_at = now() WHERE id = $5 RETURNING *',
-      [mappedData.user_id, mappedData.title, mappedData.body, mappedData.metadata, id]
+      'UPDATE prompts SET title = $1, body = $2, metadata = $3, visibility = $4, updated_at = now() WHERE id = $5 RETURNING *',
+      [mappedData.title, mappedData.body, mappedData.metadata, mappedData.visibility, id]
     );
-    
-    return result.rows[0] ? this.mapPromptToSFL(result.rows[0]) : null;
+    if (!result.rows[0]) return null;
+
+    if (this.hasContentChanged(existing, result.rows[0])) {
+      await PromptRevisionService.recordRevision(result.rows[0], userId);
+      await this.indexEmbedding(result.rows[0]);
+      if (existing.status === 'in_review' || existing.status === 'approved') {
+        result.rows[0].status = await this.reopenAfterEdit(id, existing.status, userId);
+      }
+    }
+
+    const updated = this.mapPromptToSFL({
+      ...result.rows[0],
+      access: existing.access,
+      tags: tags ? await TagService.setPromptTags(id, tags, userId) : existing.tags,
+    });
+    if (existing.access === 'owner') {
+      updated.sharedWith = promptData.sharedWith !== undefined
+        ? await this.replaceShares(id, userId, promptData.sharedWith)
+        : await this.getSharedWith(id);
+    }
+    return updated;
+  }
+
+  /**
+   * Moves a prompt that is in review or approved back to draft after its content was edited,
+   * so that what was reviewed is always what runs. The change is recorded in the review audit trail.
+   * 
+   * @param {string} id - The UUID of the prompt.
+   * @param {PromptStatus} fromStatus - The status the prompt had before the edit.
+   * @param {string} userId - The ID of the user who edited the prompt.
+   * @returns {Promise<PromptStatus>} The new status, always `draft`.
+   * @private
+   * @since 0.6.0
+   */
+  private async reopenAfterEdit(id: string, fromStatus: PromptStatus, userId: string): Promise<PromptStatus> {
+    const pool = await getPool();
+    await pool.query(
+      `WITH reopened AS (UPDATE prompts SET status = 'draft' WHERE id = $1 RETURNING id, reviewer_id)
+       INSERT INTO prompt_status_events (prompt_id, from_status, to_status, reviewer_id, note, created_by)
+       SELECT id, $2, 'draft', reviewer_id, $3, $4 FROM reopened`,
+      [id, fromStatus, fromStatus === 'approved' ? 'Edited after approval' : 'Edited during review', userId]
+    );
+    return 'draft';
+  }
+
+  /**
+   * Determines whether two database records of the same prompt differ in versioned content.
+   * Both records must come from the database so that JSONB key ordering is comparable.
+   * 
+   * @param {Prompt} before - The prompt record prior to the update.
+   * @param {Prompt} after - The prompt record returned by the update.
+   * @returns {boolean} True if the title, body or metadata changed.
+   * @private
+   * @since 0.6.0
+   */
+  private hasContentChanged(before: Prompt, after: Prompt): boolean {
+    return before.title !== after.title
+      || before.body !== after.body
+      || JSON.stringify(before.metadata || {}) !== JSON.stringify(after.metadata || {});
+  }
+
+  /**
+   * Refreshes the stored embedding of a prompt after it was saved.
+   * Embedding failures (e.g. an unreachable remote provider) are logged rather than thrown,
+   * since the prompt itself has already been saved; the startup backfill picks it up later.
+   * 
+   * @param {Prompt} prompt - The saved prompt record.
+   * @returns {Promise<void>}
+   * @private
+   * @since 0.6.0
+   */
+  private async indexEmbedding(prompt: Prompt): Promise<void> {
+    try {
+      await EmbeddingService.indexPrompt(prompt);
+    } catch (error) {
+      console.error(`Failed to embed prompt ${prompt.id}:`, error);
+    }
+  }
+
+  /**
+   * Validates the number of nearest neighbours requested from semantic search.
+   * 
+   * @param {unknown} raw - The raw limit, typically from the query string.
+   * @returns {number} The validated limit, or the default if none was given.
+   * @throws {Error} If the limit is not an integer in range.
+   * 
+   * @since 0.6.0
+   */
+  parseSemanticLimit(raw: unknown): number {
+    const limit = raw === undefined ? DEFAULT_SEMANTIC_LIMIT : Number(raw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_LIMIT) {
+      throw new Error(`Limit must be an integer between 1 and ${MAX_SEMANTIC_LIMIT}`);
+    }
+    return limit;
+  }
+
+  /**
+   * Finds the prompts whose embeddings are closest to a free-text query.
+   * Only embeddings produced by the active provider are compared, and similarity is
+   * reported as cosine similarity (1 = identical direction).
+   * 
+   * Only prompts visible to the requesting user are considered.
+   * 
+   * @param {string} queryText - The text to search for.
+   * @param {number} limit - The maximum number of results.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<SemanticSearchResult[]>} A promise that resolves to the nearest prompts, most similar first.
+   * 
+   * @example
+   * ```typescript
+   * const matches = await promptService.searchSemantic('summarise a legal contract for laypeople', 5);
+   * matches.forEach(m => console.log(m.prompt.title, m.similarity.toFixed(2)));
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  async searchSemantic(queryText: string, limit: number, userId?: string): Promise<SemanticSearchResult[]> {
+    const vector = await EmbeddingService.embedQuery(queryText);
+    const values: any[] = [toVectorLiteral(vector), EmbeddingService.getProvider().name, limit];
+    const visible = visibleToCondition('p', userId, values);
+
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT p.*, ${tagsColumn('p')}, 1 - (e.embedding <=> $1::vector) AS similarity FROM prompts p
+       JOIN prompt_embeddings e ON e.prompt_id = p.id
+       WHERE e.provider = $2 AND ${visible}
+       ORDER BY e.embedding <=> $1::vector LIMIT $3`,
+      values
+    );
+    return result.rows.map(row => this.mapSimilarityRow(row, userId));
+  }
+
+  /**
+   * Finds the prompts most similar to an existing prompt, excluding the prompt itself.
+   * Useful for spotting duplicates across the team's library.
+   * 
+   * @param {string} id - The UUID of the reference prompt.
+   * @param {number} limit - The maximum number of results.
+   * @param {string} [userId] - The ID of the requesting user; only prompts visible to them are considered.
+   * @returns {Promise<SemanticSearchResult[] | null>} A promise that resolves to the nearest prompts, or null if the prompt was not found or not visible.
+   * 
+   * @example
+   * ```typescript
+   * const similar = await promptService.findSimilarPrompts(promptId, 5);
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  async findSimilarPrompts(id: string, limit: number, userId?: string): Promise<SemanticSearchResult[] | null> {
+    const existing = await this.findAccessiblePrompt(id, userId);
+    if (!existing) return null;
+
+    // Embed on demand if the stored embedding is missing or from another provider
+    const providerName = EmbeddingService.getProvider().name;
+    const pool = await getPool();
+    const stored = await pool.query(
+      'SELECT prompt_id FROM prompt_embeddings WHERE prompt_id = $1 AND provider = $2',
+      [id, providerName]
+    );
+    if (!stored.rows[0]) {
+      await EmbeddingService.indexPrompt(existing);
+    }
+
+    const values: any[] = [id, providerName, limit];
+    const visible = visibleToCondition('p', userId, values);
+    const result = await pool.query(
+      `SELECT p.*, ${tagsColumn('p')}, 1 - (e.embedding <=> ref.embedding) AS similarity FROM prompts p
+       JOIN prompt_embeddings e ON e.prompt_id = p.id
+       JOIN prompt_embeddings ref ON ref.prompt_id = $1
+       WHERE e.provider = $2 AND p.id <> $1 AND ${visible}
+       ORDER BY e.embedding <=> ref.embedding LIMIT $3`,
+      values
+    );
+    return result.rows.map(row => this.mapSimilarityRow(row, userId));
   }
 
   /**
-   * Deletes a prompt from the database.
+   * Maps a prompt row carrying a `similarity` column to a semantic search result.
+   * 
+   * @param {Prompt & { similarity: number | string }} row - The joined database row.
+   * @param {string | undefined} userId - The ID of the requesting user, if authenticated.
+   * @returns {SemanticSearchResult} The prompt in SFL format with its similarity score.
+   * @private
+   * @since 0.6.0
+   */
+  private mapSimilarityRow(row: Prompt & { similarity: number | string }, userId: string | undefined): SemanticSearchResult {
+    return {
+      prompt: this.mapPromptToSFL({ ...row, access: this.accessOf(row, userId) }),
+      similarity: Number(row.similarity),
+    };
+  }
+
+  /**
+   * Restores a prompt to the content of one of its earlier revisions.
+   * History is never rewritten: the restored content is saved as a new revision.
+   * 
+   * @param {string} id - The UUID of the prompt to roll back.
+   * @param {number} revisionNumber - The revision whose content should be restored.
+   * @param {string} userId - The ID of the authenticated user performing the rollback.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the updated prompt, or null if the prompt or revision was not found.
+   * @throws {PromptAccessError} If the user may see the prompt but not edit it.
+   * 
+   * @example
+   * ```typescript
+   * const restored = await promptService.rollbackToRevision(promptId, 3, userId);
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  async rollbackToRevision(id: string, revisionNumber: number, userId: string): Promise<PromptSFL | null> {
+    const revision = await PromptRevisionService.getRevision(id, revisionNumber);
+    if (!revision) return null;
+
+    return this.updatePrompt(id, {
+      title: revision.title,
+      promptText: revision.promptText,
+      sflField: revision.sflField,
+      sflTenor: revision.sflTenor,
+      sflMode: revision.sflMode,
+      variables: revision.variables,
+      exampleOutput: revision.exampleOutput,
+      notes: revision.notes,
+      sourceDocument: revision.sourceDocument,
+    }, userId);
+  }
+
+  /**
+   * Forks a prompt: copies its current content into a new private prompt owned by the user and records
+   * which prompt and revision it was copied from. Any prompt the user can see may be forked.
+   * The fork keeps the source's tags but none of its shares.
+   * 
+   * @param {string} id - The UUID of the prompt to fork.
+   * @param {string} userId - The ID of the authenticated user creating the fork.
+   * @param {unknown} [title] - The title of the fork; defaults to the source's title followed by "(fork)".
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the new prompt, or null if the source was not found or not visible to the user.
+   * @throws {Error} If the title is given but is not a non-empty string.
+   * 
+   * @example
+   * ```typescript
+   * const fork = await promptService.forkPrompt(promptId, userId, 'Refund reply (formal)');
+   * fork.forkedFromRevision; // the source's revision at the time of the fork
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  async forkPrompt(id: string, userId: string, title?: unknown): Promise<PromptSFL | null> {
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      throw new Error('Title cannot be empty');
+    }
+    const source = await this.findAccessiblePrompt(id, userId);
+    if (!source) return null;
+
+    const forkTitle = typeof title === 'string' ? title.trim() : `${source.title} (fork)`;
+    const forkedFromRevision = await PromptRevisionService.getLatestRevisionNumber(id);
+    const pool = await getPool();
+    const result = await pool.query(
+      `INSERT INTO prompts (user_id, title, body, metadata, visibility, forked_from_id, forked_from_revision)
+       VALUES ($1, $2, $3, $4, 'private', $5, $6) RETURNING *`,
+      [userId, forkTitle, source.body, source.metadata, id, forkedFromRevision]
+    );
+    await PromptRevisionService.recordRevision(result.rows[0], userId);
+    await this.indexEmbedding(result.rows[0]);
+
+    const tags = source.tags?.length ? await TagService.setPromptTags(result.rows[0].id, source.tags, userId) : [];
+    return { ...this.mapPromptToSFL({ ...result.rows[0], access: 'owner', tags }), sharedWith: [] };
+  }
+
+  /**
+   * Retrieves the fork lineage of a prompt: the prompts it descends from and the forks made of it, directly or
+   * through other forks. Only prompts visible to the user are included, so the lineage stops at a hidden
+   * ancestor and skips the forks of a hidden fork.
+   * 
+   * @param {string} id - The UUID of the prompt.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<PromptLineage | null>} A promise that resolves to the lineage, or null if the prompt was not found or not visible to the user.
+   * 
+   * @since 0.6.0
+   */
+  async getLineage(id: string, userId?: string): Promise<PromptLineage | null> {
+    if (!await this.findAccessiblePrompt(id, userId)) return null;
+
+    const values: any[] = [id];
+    const pool = await getPool();
+    const result = await pool.query(
+      `WITH RECURSIVE ancestors AS (
+         SELECT p.id, p.title, p.user_id, p.forked_from_id, p.forked_from_revision, 1 AS depth
+         FROM prompts p JOIN prompts child ON p.id = child.forked_from_id
+         WHERE child.id = $1 AND ${visibleToCondition('p', userId, values)}
+         UNION ALL
+         SELECT p.id, p.title, p.user_id, p.forked_from_id, p.forked_from_revision, a.depth + 1
+         FROM prompts p JOIN ancestors a ON p.id = a.forked_from_id
+         WHERE ${visibleToCondition('p', userId, values)}
+       ), descendants AS (
+         SELECT p.id, p.title, p.user_id, p.forked_from_id, p.forked_from_revision, 1 AS depth
+         FROM prompts p WHERE p.forked_from_id = $1 AND ${visibleToCondition('p', userId, values)}
+         UNION ALL
+         SELECT p.id, p.title, p.user_id, p.forked_from_id, p.forked_from_revision, d.depth + 1
+         FROM prompts p JOIN descendants d ON p.forked_from_id = d.id
+         WHERE ${visibleToCondition('p', userId, values)}
+       ), nodes AS (
+         SELECT id, title, user_id, forked_from_id, forked_from_revision, 0 AS depth, 'self' AS relation FROM prompts WHERE id = $1
+         UNION ALL
+         SELECT *, 'ancestor' FROM ancestors
+         UNION ALL
+         SELECT *, 'descendant' FROM descendants
+       )
+       SELECT n.*, (SELECT COALESCE(MAX(r.revision_number), 0) FROM prompt_revisions r WHERE r.prompt_id = n.id) AS latest_revision
+       FROM nodes n ORDER BY n.depth, lower(n.title)`,
+      values
+    );
+
+    const latestRevisions = new Map<string, number>(result.rows.map(row => [row.id, Number(row.latest_revision)]));
+    const toNode = (row: any): PromptLineageNode => {
+      const parentRevision = row.forked_from_id ? latestRevisions.get(row.forked_from_id) : undefined;
+      return {
+        id: row.id,
+        title: row.title,
+        ownerId: row.user_id,
+        parentId: row.forked_from_id ?? null,
+        forkedFromRevision: row.forked_from_revision ?? null,
+        latestRevision: Number(row.latest_revision),
+        upstreamChanged: parentRevision !== undefined && parentRevision > (row.forked_from_revision ?? 0),
+        depth: row.depth,
+      };
+    };
+
+    return {
+      prompt: toNode(result.rows.find(row => row.relation === 'self')),
+      ancestors: result.rows.filter(row => row.relation === 'ancestor').map(toNode),
+      descendants: result.rows.filter(row => row.relation === 'descendant').map(toNode),
+    };
+  }
+
+  /**
+   * Saves a translated variant of a prompt as a new prompt owned by the user and links it to the source,
+   * so that the two are listed as locale siblings. A variant of a variant is linked to the original source.
+   * Each locale may only appear once among the siblings.
+   * 
+   * @param {string} sourceId - The UUID of the prompt that was translated.
+   * @param {Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>} variant - The translated prompt; its `locale` is required.
+   * @param {string} userId - The ID of the authenticated user creating the variant.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the new variant, or null if the source was not found or not visible to the user.
+   * @throws {Error} If the variant has no locale, or a sibling in that locale already exists.
+   * 
+   * @since 0.6.0
+   */
+  async createLocaleVariant(sourceId: string, variant: Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>, userId: string): Promise<PromptSFL | null> {
+    const source = await this.findAccessiblePrompt(sourceId, userId);
+    if (!source) return null;
+
+    const mappedData = this.mapSFLToPrompt(variant, userId);
+    const locale = mappedData.metadata.locale;
+    if (!locale) {
+      throw new Error('A locale is required');
+    }
+    const rootId = source.locale_source_id ?? source.id;
+
+    const pool = await getPool();
+    const existing = await pool.query(
+      `SELECT id FROM prompts WHERE (id = $1 OR locale_source_id = $1) AND metadata->>'locale' = $2 AND deleted_at IS NULL LIMIT 1`,
+      [rootId, locale]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`This prompt already has a ${locale} variant`);
+    }
+
+    const result = await pool.query(
+      `INSERT INTO prompts (user_id, title, body, metadata, visibility, locale_source_id)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [userId, mappedData.title, mappedData.body, mappedData.metadata, mappedData.visibility, rootId]
+    );
+    await PromptRevisionService.recordRevision(result.rows[0], userId);
+    await this.indexEmbedding(result.rows[0]);
+
+    const sharedWith = variant.sharedWith !== undefined
+      ? await this.replaceShares(result.rows[0].id, userId, variant.sharedWith)
+      : [];
+    const tags = variant.tags?.length ? await TagService.setPromptTags(result.rows[0].id, variant.tags, userId) : [];
+    return { ...this.mapPromptToSFL({ ...result.rows[0], access: 'owner', tags }), sharedWith };
+  }
+
+  /**
+   * Lists a prompt's locale siblings: the source prompt and every variant translated from it, the prompt
+   * itself included. Only prompts visible to the user are listed; the source comes first, then the variants by locale.
+   * 
+   * @param {string} id - The UUID of the prompt.
+   * @param {string} [userId] - The ID of the requesting user; anonymous callers only see public prompts.
+   * @returns {Promise<PromptLocaleVariant[] | null>} A promise that resolves to the siblings, or null if the prompt was not found or not visible to the user.
+   * 
+   * @since 0.6.0
+   */
+  async getLocaleVariants(id: string, userId?: string): Promise<PromptLocaleVariant[] | null> {
+    const prompt = await this.findAccessiblePrompt(id, userId);
+    if (!prompt) return null;
+
+    const values: any[] = [prompt.locale_source_id ?? prompt.id];
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT p.id, p.title, p.metadata->>'locale' AS locale, p.locale_source_id FROM prompts p
+       WHERE (p.id = $1 OR p.locale_source_id = $1) AND ${visibleToCondition('p', userId, values)}
+       ORDER BY p.locale_source_id IS NOT NULL, p.metadata->>'locale' NULLS FIRST, p.id`,
+      values
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      locale: row.locale ?? null,
+      isSource: !row.locale_source_id,
+    }));
+  }
+
+  /**
+   * Moves a prompt to the trash. Only the prompt's owner may delete it. A trashed prompt is hidden everywhere
+   * until it is restored, and is purged for good once the trash retention period has passed.
    * 
    * @param {string} id - The UUID of the prompt to delete.
-   * @returns {Promise<boolean>} A promise that resolves to true if the deletion was successful, false if the prompt was not found.
+   * @param {string} userId - The ID of the authenticated user deleting the prompt.
+   * @returns {Promise<boolean>} A promise that resolves to true if the prompt was moved to the trash, false if the prompt was not found or not visible to the user.
+   * @throws {PromptAccessError} If the user can see the prompt but does not own it.
    * 
    * @example
    * ```typescript
-   * const deleted = await promptService.deletePrompt('123e4567-e89b-12d3-a456-426614174000');
+   * const deleted = await promptService.deletePrompt('123e4567-e89b-12d3-a456-426614174000', userId);
    * if (deleted) {
-   *   console.log('Prompt successfully deleted');
+   *   console.log('Prompt moved to the trash');
    * } else {
    *   console.log('Prompt not found or could not be deleted');
    * }
@@ -235,9 +1172,69 @@ class PromptService {
    * 
    * @since 0.5.1
    */
-  async deletePrompt(id: string): Promise<boolean> {
+  async deletePrompt(id: string, userId: string): Promise<boolean> {
+    const existing = await this.findAccessiblePrompt(id, userId);
+    if (!existing) return false;
+    if (existing.access !== 'owner') {
+      throw new PromptAccessError('Only the owner can delete this prompt');
+    }
+
+    const pool = await getPool();
+    const result = await pool.query(
+      'UPDATE prompts SET deleted_at = now() WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [id, userId]
+    );
+    return !!result.rowCount;
+  }
+
+  /**
+   * Lists the prompts a user has moved to the trash, most recently deleted first.
+   * 
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<Array<PromptSFL & { deletedAt: string }>>} A promise that resolves to the trashed prompts.
+   * @since 0.6.0
+   */
+  async listDeletedPrompts(userId: string): Promise<Array<PromptSFL & { deletedAt: string }>> {
     const pool = await getPool();
-    const result = await pool.query('DELETE FROM prompts WHERE id = $1', [id]);
+    const result = await pool.query(
+      `SELECT *, ${tagsColumn('prompts')} FROM prompts WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => ({ ...this.mapPromptToSFL({ ...row, access: 'owner' }), deletedAt: row.deleted_at }));
+  }
+
+  /**
+   * Takes a prompt out of the trash.
+   * 
+   * @param {string} id - The UUID of the trashed prompt.
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<PromptSFL | null>} A promise that resolves to the restored prompt, or null if the user has no such prompt in the trash.
+   * @since 0.6.0
+   */
+  async restorePrompt(id: string, userId: string): Promise<PromptSFL | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'UPDATE prompts SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING id',
+      [id, userId]
+    );
+    if (!result.rows[0]) return null;
+    return this.getPromptById(id, userId);
+  }
+
+  /**
+   * Permanently deletes a prompt that is in the trash, together with its revisions, runs and evaluation suites.
+   * 
+   * @param {string} id - The UUID of the trashed prompt.
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<boolean>} A promise that resolves to true if the prompt was purged, false if the user has no such prompt in the trash.
+   * @since 0.6.0
+   */
+  async purgePrompt(id: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'DELETE FROM prompts WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL',
+      [id, userId]
+    );
     return !!result.rowCount;
   }
 }
@@ -0,0 +1,248 @@
+/**
+ * @file promptTranslationService.ts
+ * @description This service translates prompts into other languages through the configured AI provider and
+ * saves each translation as a locale variant linked to its source prompt. Template placeholders such as
+ * `{{customer}}` and partial references such as `{{> sign-off}}` must come through untouched: they are swapped
+ * for numbered tokens before the text is sent, swapped back afterwards, and every translated field is checked
+ * to contain exactly the placeholders of its source. A translation that lost or altered one is rejected.
+ * Library facets (task type, persona, output format, audience) are kept as they are so filters keep working.
+ *
+ * @requires ../types
+ * @requires ./unifiedAIService
+ * @requires ./promptService
+ * @requires ../validation/promptSchemas
+ * @since 0.6.0
+ */
+
+import { PromptSFL } from '../types';
+import UnifiedAIService, { ProviderAwareRequest } from './unifiedAIService';
+import PromptService, { PromptAccessError } from './promptService';
+import { validatePromptLocale } from '../validation/promptSchemas';
+
+/**
+ * Matches a template placeholder or partial reference, e.g. `{{ customer }}` or `{{> sign-off}}`.
+ * @private
+ */
+const PLACEHOLDER_PATTERN = /{{[^{}]*}}/g;
+
+/**
+ * The token that stands in for the placeholder with the given index while the text is being translated.
+ * @private
+ */
+const placeholderToken = (index: number): string => `⟦PH${index}⟧`;
+
+/**
+ * Matches a stand-in token and captures its index.
+ * @private
+ */
+const TOKEN_PATTERN = /⟦PH(\d+)⟧/g;
+
+/**
+ * The SFL fields that are translated. The remaining fields are library facets and stay unchanged.
+ * @private
+ */
+const TRANSLATED_SFL_FIELDS: Array<['sflField' | 'sflTenor' | 'sflMode', string]> = [
+  ['sflField', 'topic'],
+  ['sflField', 'domainSpecifics'],
+  ['sflField', 'keywords'],
+  ['sflTenor', 'desiredTone'],
+  ['sflTenor', 'interpersonalStance'],
+  ['sflMode', 'rhetoricalStructure'],
+  ['sflMode', 'lengthConstraint'],
+  ['sflMode', 'textualDirectives'],
+];
+
+/**
+ * Collects the placeholders of a text, sorted, so that two texts can be compared regardless of word order.
+ * @private
+ */
+const placeholdersOf = (text: string): string[] => (text.match(PLACEHOLDER_PATTERN) || []).sort();
+
+/**
+ * @class PromptTranslationService
+ * @description A class to encapsulate the placeholder-safe translation of prompts into locale variants.
+ *
+ * @since 0.6.0
+ */
+class PromptTranslationService {
+  /**
+   * Translates a prompt into another locale and saves the result as a locale variant of it.
+   * The owner's variant keeps the source's visibility and shares; anyone else's variant is private to them.
+   * Nothing is saved if the provider fails or the translation does not preserve every placeholder.
+   *
+   * @param {PromptSFL} prompt - The prompt to translate, as visible to the user.
+   * @param {unknown} locale - The locale to translate into, e.g. `de-DE`.
+   * @param {ProviderAwareRequest} providerConfig - The provider, model and parameters to translate with.
+   * @param {string} userId - The ID of the user requesting the translation.
+   * @returns {Promise<PromptSFL>} A promise that resolves to the saved variant.
+   * @throws {PromptAccessError} If the prompt is only visible to the user because it is public.
+   * @throws {Error} If the locale is invalid or already taken among the siblings, the provider fails, or a placeholder did not survive.
+   *
+   * @example
+   * ```typescript
+   * const german = await promptTranslationService.translatePrompt(prompt, 'de-DE', { provider: 'openai' }, userId);
+   * german.localeSourceId; // prompt.id
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async translatePrompt(prompt: PromptSFL, locale: unknown, providerConfig: ProviderAwareRequest, userId: string): Promise<PromptSFL> {
+    if (prompt.access === 'public') {
+      throw new PromptAccessError('Public prompts can only be translated by their owner');
+    }
+    const parsed = validatePromptLocale(locale);
+    if (!parsed.success) {
+      throw new Error(parsed.error);
+    }
+    const targetLocale = parsed.data;
+    if (targetLocale === prompt.locale) {
+      throw new Error(`The prompt is already in ${targetLocale}`);
+    }
+
+    const fields = this.collectFields(prompt);
+    const translated = await this.translateFields(fields, prompt.locale, targetLocale, providerConfig);
+    const variant = this.applyFields(prompt, translated);
+
+    const isOwner = prompt.access === 'owner';
+    const saved = await PromptService.createLocaleVariant(prompt.id, {
+      ...variant,
+      locale: targetLocale,
+      visibility: isOwner ? prompt.visibility : 'private',
+      sharedWith: isOwner ? prompt.sharedWith : undefined,
+    }, userId);
+    if (!saved) {
+      throw new Error('Prompt not found');
+    }
+    return saved;
+  }
+
+  /**
+   * Gathers the non-empty text fields of a prompt that are to be translated, keyed by their path.
+   *
+   * @param {PromptSFL} prompt - The prompt.
+   * @returns {Record<string, string>} The fields, e.g. `{ title: '...', 'sflField.topic': '...' }`.
+   * @private
+   * @since 0.6.0
+   */
+  private collectFields(prompt: PromptSFL): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const key of ['title', 'promptText', 'exampleOutput', 'notes'] as const) {
+      if (prompt[key]?.trim()) fields[key] = prompt[key]!;
+    }
+    for (const [part, field] of TRANSLATED_SFL_FIELDS) {
+      const value = (prompt[part] as unknown as Record<string, unknown> | undefined)?.[field];
+      if (typeof value === 'string' && value.trim()) fields[`${part}.${field}`] = value;
+    }
+    return fields;
+  }
+
+  /**
+   * Copies translated fields onto a copy of the prompt, dropping what identifies the source.
+   *
+   * @param {PromptSFL} prompt - The source prompt.
+   * @param {Record<string, string>} translated - The translated fields, keyed by their path.
+   * @returns {Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'>} The variant's content.
+   * @private
+   * @since 0.6.0
+   */
+  private applyFields(prompt: PromptSFL, translated: Record<string, string>): Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt'> {
+    const { id, createdAt, updatedAt, status, reviewerId, forkedFromId, forkedFromRevision, localeSourceId, ...content } = prompt;
+    const variant = {
+      ...content,
+      sflField: { ...prompt.sflField },
+      sflTenor: { ...prompt.sflTenor },
+      sflMode: { ...prompt.sflMode },
+    };
+    for (const [path, value] of Object.entries(translated)) {
+      const [part, field] = path.split('.');
+      if (field) {
+        (variant[part as 'sflField' | 'sflTenor' | 'sflMode'] as unknown as Record<string, string>)[field] = value;
+      } else {
+        (variant as unknown as Record<string, string>)[part] = value;
+      }
+    }
+    return variant;
+  }
+
+  /**
+   * Sends the fields to the provider with their placeholders swapped for tokens, and checks the answer.
+   *
+   * @param {Record<string, string>} fields - The fields to translate, keyed by their path.
+   * @param {string | undefined} sourceLocale - The locale of the source prompt, if known.
+   * @param {string} targetLocale - The locale to translate into.
+   * @param {ProviderAwareRequest} providerConfig - The provider configuration.
+   * @returns {Promise<Record<string, string>>} The translated fields with their placeholders restored.
+   * @throws {Error} If the provider fails, the answer is not the expected JSON object, or a placeholder did not survive.
+   * @private
+   * @since 0.6.0
+   */
+  private async translateFields(
+    fields: Record<string, string>,
+    sourceLocale: string | undefined,
+    targetLocale: string,
+    providerConfig: ProviderAwareRequest
+  ): Promise<Record<string, string>> {
+    const placeholders: string[] = [];
+    const masked: Record<string, string> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      masked[key] = value.replace(PLACEHOLDER_PATTERN, placeholder => {
+        placeholders.push(placeholder);
+        return placeholderToken(placeholders.length - 1);
+      });
+    }
+
+    const systemMessage = [
+      'You are a professional translator of prompts written for AI models.',
+      `Translate every value of the JSON object you are given from ${sourceLocale ?? 'its current language'} into the locale ${targetLocale}.`,
+      'Keep the keys unchanged and keep the meaning, tone and formatting of each value.',
+      `Tokens such as ${placeholderToken(0)} stand for template placeholders: copy each one exactly, as often as it appears in the original value.`,
+      'Reply with the translated JSON object only.',
+    ].join('\n');
+    const result = await UnifiedAIService.runPrompt(JSON.stringify(masked, null, 2), providerConfig, systemMessage);
+    if (result.error) {
+      throw new Error(`Translation failed: ${result.error}`);
+    }
+
+    const answer = this.parseAnswer(result.text);
+    const translated: Record<string, string> = {};
+    const damaged: string[] = [];
+    for (const [key, value] of Object.entries(fields)) {
+      if (typeof answer[key] !== 'string') {
+        throw new Error(`The translation is missing the "${key}" field`);
+      }
+      translated[key] = (answer[key] as string).replace(TOKEN_PATTERN, (token, index: string) => placeholders[Number(index)] ?? token);
+      // A token left over means the model invented or altered one
+      if (placeholdersOf(translated[key]).join('\n') !== placeholdersOf(value).join('\n') || translated[key].includes('⟦PH')) {
+        damaged.push(key);
+      }
+    }
+    if (damaged.length > 0) {
+      throw new Error(`The translation did not preserve the placeholders of: ${damaged.join(', ')}`);
+    }
+    return translated;
+  }
+
+  /**
+   * Reads the JSON object out of a model answer, tolerating a Markdown code fence or text around it.
+   *
+   * @param {string} text - The model answer.
+   * @returns {Record<string, unknown>} The parsed object.
+   * @throws {Error} If the answer holds no JSON object.
+   * @private
+   * @since 0.6.0
+   */
+  private parseAnswer(text: string): Record<string, unknown> {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    try {
+      if (start === -1 || end < start) throw new Error();
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error();
+      return parsed;
+    } catch {
+      throw new Error('The translation could not be read');
+    }
+  }
+}
+
+export default new PromptTranslationService();
@@ -0,0 +1,191 @@
+/**
+ * @file responseJudgeService.ts
+ * @description This service grades a prompt's response against the prompt's own SFL declaration, using a
+ * model as the judge. Each dimension the prompt declares (the desired tone, the length constraint, the output
+ * format, the rhetorical structure and the target audience) is scored from 1 to 5 with a short justification.
+ * The judge is asked for a JSON object, in the provider's JSON mode where there is one, and its answer is
+ * checked to score every declared dimension. The judge model is configured through `JUDGE_PROVIDER` and
+ * `JUDGE_MODEL`, and can be overridden per request.
+ *
+ * @requires ../config/env
+ * @requires ../types
+ * @requires ./unifiedAIService
+ * @since 0.6.0
+ */
+
+import config from '../config/env';
+import { JudgementDimension, JudgementScore, PromptSFL, ResponseJudgement } from '../types';
+import { AIProvider } from '../types/aiProvider';
+import UnifiedAIService, { ProviderAwareRequest } from './unifiedAIService';
+
+/**
+ * The parts of a prompt a judgement reads.
+ * @private
+ */
+type JudgedPrompt = Pick<PromptSFL, 'promptText' | 'sflTenor' | 'sflMode'>;
+
+/**
+ * A dimension to be scored, with what the prompt declares for it and what the judge should look for.
+ * @private
+ */
+interface Criterion {
+  dimension: JudgementDimension;
+  criterion: string;
+  question: string;
+}
+
+/**
+ * The lowest and highest score a judge may give.
+ * @private
+ */
+const MIN_SCORE = 1;
+const MAX_SCORE = 5;
+
+/**
+ * The instructions given to the judge model.
+ * @private
+ */
+const JUDGE_SYSTEM_MESSAGE = [
+  'You are a strict reviewer grading a response written by an AI model against the requirements of the prompt that produced it.',
+  `Score each requirement you are given from ${MIN_SCORE} (ignored) to ${MAX_SCORE} (fully met), and justify each score in one or two sentences that point at the response.`,
+  'Judge the response only against the listed requirements, not against your own preferences.',
+  'Reply with a JSON object of the form {"scores": [{"dimension": "...", "score": 1, "justification": "..."}]} with one entry per requirement.',
+].join('\n');
+
+/**
+ * @class ResponseJudgeService
+ * @description A class to encapsulate grading responses against the SFL intent of their prompt.
+ *
+ * @since 0.6.0
+ */
+class ResponseJudgeService {
+  /**
+   * Grades a response against the SFL declaration of its prompt.
+   *
+   * @param {JudgedPrompt} prompt - The prompt that produced the response, rendered so that inherited fields are included.
+   * @param {string} responseText - The response to grade.
+   * @param {ProviderAwareRequest} [judgeConfig={}] - The judge's provider, model and parameters; the configured judge model is used for whatever is left out.
+   * @returns {Promise<ResponseJudgement>} A promise that resolves to the rubric.
+   * @throws {Error} If the prompt declares nothing to judge against, the judge model fails, or its answer is not a valid rubric.
+   *
+   * @example
+   * ```typescript
+   * const judgement = await responseJudgeService.judgeResponse(rendered, run.responseText, { provider: 'openai', model: 'gpt-4o' });
+   * judgement.scores.find(score => score.dimension === 'tone'); // { criterion: 'Warm', score: 4, justification: '...' }
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async judgeResponse(prompt: JudgedPrompt, responseText: string, judgeConfig: ProviderAwareRequest = {}): Promise<ResponseJudgement> {
+    if (!responseText.trim()) {
+      throw new Error('There is no response to judge');
+    }
+    const criteria = this.getCriteria(prompt);
+    if (criteria.length === 0) {
+      throw new Error('The prompt declares no tone, length, format, structure or audience to judge the response against');
+    }
+
+    const question = [
+      '<prompt>', prompt.promptText, '</prompt>',
+      '',
+      '<requirements>',
+      ...criteria.map(({ dimension, criterion, question }) => `- ${dimension}: ${question} Declared: "${criterion}"`),
+      '</requirements>',
+      '',
+      '<response>', responseText, '</response>',
+    ].join('\n');
+
+    const result = await UnifiedAIService.runPrompt(question, this.resolveJudgeConfig(judgeConfig), JUDGE_SYSTEM_MESSAGE, true);
+    if (result.error) {
+      throw new Error(`The judge model failed: ${result.error}`);
+    }
+
+    const scores = this.parseScores(result.text, criteria);
+    const mean = scores.reduce((sum, { score }) => sum + score, 0) / scores.length;
+    return {
+      scores,
+      overallScore: Math.round(mean * 10) / 10,
+      judgeProvider: result.provider,
+      judgeModel: result.model,
+      judgedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Lists the dimensions the prompt declares, skipping those left empty.
+   *
+   * @param {JudgedPrompt} prompt - The prompt.
+   * @returns {Criterion[]} The dimensions to score.
+   * @private
+   * @since 0.6.0
+   */
+  private getCriteria(prompt: JudgedPrompt): Criterion[] {
+    const criteria: Criterion[] = [
+      { dimension: 'tone', criterion: prompt.sflTenor?.desiredTone ?? '', question: 'Is the response written in this tone?' },
+      { dimension: 'length', criterion: prompt.sflMode?.lengthConstraint ?? '', question: 'Does the response respect this length constraint?' },
+      { dimension: 'format', criterion: prompt.sflMode?.outputFormat ?? '', question: 'Does the response follow this output format?' },
+      { dimension: 'structure', criterion: prompt.sflMode?.rhetoricalStructure ?? '', question: 'Does the response follow this rhetorical structure?' },
+      {
+        dimension: 'audience',
+        criterion: (prompt.sflTenor?.targetAudience ?? []).filter(audience => audience.trim()).join(', '),
+        question: 'Is the response appropriate for this audience?',
+      },
+    ];
+    return criteria
+      .map(criterion => ({ ...criterion, criterion: criterion.criterion.trim() }))
+      .filter(criterion => criterion.criterion);
+  }
+
+  /**
+   * Fills in the judge configuration from `JUDGE_PROVIDER` and `JUDGE_MODEL`. The configured model only
+   * applies when the request does not pick another provider.
+   *
+   * @param {ProviderAwareRequest} judgeConfig - The configuration given with the request.
+   * @returns {ProviderAwareRequest} The configuration to judge with.
+   * @private
+   * @since 0.6.0
+   */
+  private resolveJudgeConfig(judgeConfig: ProviderAwareRequest): ProviderAwareRequest {
+    const configuredProvider = (config.judgeProvider || undefined) as AIProvider | undefined;
+    const provider = judgeConfig.provider || configuredProvider;
+    const model = judgeConfig.model || (provider === configuredProvider ? config.judgeModel || undefined : undefined);
+    return { ...judgeConfig, provider, model };
+  }
+
+  /**
+   * Reads the judge's scores, tolerating a Markdown code fence or text around the JSON object, and checks that
+   * every dimension was scored once with a whole number in range.
+   *
+   * @param {string} text - The judge's answer.
+   * @param {Criterion[]} criteria - The dimensions that were asked for.
+   * @returns {JudgementScore[]} The scores, in the order of the criteria.
+   * @throws {Error} If the answer is not a valid rubric.
+   * @private
+   * @since 0.6.0
+   */
+  private parseScores(text: string, criteria: Criterion[]): JudgementScore[] {
+    let answer: any;
+    try {
+      answer = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+    } catch {
+      throw new Error('The judge model did not return a JSON rubric');
+    }
+    if (!Array.isArray(answer?.scores)) {
+      throw new Error('The judge model did not return a JSON rubric');
+    }
+
+    return criteria.map(({ dimension, criterion }) => {
+      const entry = answer.scores.find((score: any) => score?.dimension === dimension);
+      if (!entry) {
+        throw new Error(`The judge model did not score the ${dimension}`);
+      }
+      const score = Number(entry.score);
+      if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+        throw new Error(`The judge model gave the ${dimension} an invalid score`);
+      }
+      return { dimension, criterion, score, justification: typeof entry.justification === 'string' ? entry.justification.trim() : '' };
+    });
+  }
+}
+
+export default new ResponseJudgeService();
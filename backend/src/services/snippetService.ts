@@ -0,0 +1,213 @@
+/**
+ * @file snippetService.ts
+ * @description This service manages snippets, the reusable pieces of prompt text (persona preambles,
+ * formatting rules, safety notes) that prompts include with a `{{> name}}` partial. Snippets are personal:
+ * only their owner can see or change them, and a partial resolves against the snippets of the prompt's owner.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { PromptSnippet } from '../types';
+
+/**
+ * The longest allowed snippet name, matching the `prompt_snippets.name` column.
+ * @private
+ */
+const MAX_SNIPPET_NAME_LENGTH = 64;
+
+/**
+ * Snippet names are lower-case slugs so that they can be written inside a partial without quoting.
+ * @private
+ */
+const SNIPPET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Postgres error code raised when a unique index is violated.
+ * @private
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * @class SnippetService
+ * @description A class to encapsulate the management of a user's snippets.
+ *
+ * @since 0.6.0
+ */
+class SnippetService {
+  /**
+   * Maps a snippet row to the `PromptSnippet` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {PromptSnippet} The snippet.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToSnippet(row: any): PromptSnippet {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      body: row.body,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Validates and normalizes a snippet name.
+   *
+   * @param {unknown} name - The raw name.
+   * @returns {string} The trimmed, lower-cased name.
+   * @throws {Error} If the name is missing, too long, or not a slug.
+   * @private
+   * @since 0.6.0
+   */
+  private parseName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Snippet name is required');
+    }
+    const normalized = name.trim().toLowerCase();
+    if (normalized.length > MAX_SNIPPET_NAME_LENGTH) {
+      throw new Error(`Snippet name must be ${MAX_SNIPPET_NAME_LENGTH} characters or less`);
+    }
+    if (!SNIPPET_NAME_PATTERN.test(normalized)) {
+      throw new Error('Snippet name may only contain letters, digits, "-" and "_", and must start with a letter or digit');
+    }
+    return normalized;
+  }
+
+  /**
+   * Validates a snippet body.
+   *
+   * @param {unknown} body - The raw body.
+   * @returns {string} The body.
+   * @throws {Error} If the body is not a non-empty string.
+   * @private
+   * @since 0.6.0
+   */
+  private parseBody(body: unknown): string {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new Error('Snippet body is required');
+    }
+    return body;
+  }
+
+  /**
+   * Lists a user's snippets ordered by name.
+   *
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<PromptSnippet[]>} A promise that resolves to the user's snippets.
+   * @since 0.6.0
+   */
+  async listSnippets(userId: string): Promise<PromptSnippet[]> {
+    const pool = await getPool();
+    const result = await pool.query('SELECT * FROM prompt_snippets WHERE user_id = $1 ORDER BY name', [userId]);
+    return result.rows.map(row => this.mapRowToSnippet(row));
+  }
+
+  /**
+   * Looks up one of a user's snippets by the name partials refer to it by.
+   *
+   * @param {string} userId - The ID of the snippet's owner.
+   * @param {string} name - The snippet name.
+   * @returns {Promise<PromptSnippet | null>} A promise that resolves to the snippet, or null if the user has none by that name.
+   * @since 0.6.0
+   */
+  async findSnippetByName(userId: string, name: string): Promise<PromptSnippet | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM prompt_snippets WHERE user_id = $1 AND name = $2',
+      [userId, name.toLowerCase()]
+    );
+    return result.rows[0] ? this.mapRowToSnippet(result.rows[0]) : null;
+  }
+
+  /**
+   * Creates a snippet.
+   *
+   * @param {{ name?: unknown; description?: unknown; body?: unknown }} data - The snippet's name, optional description and body.
+   * @param {string} userId - The ID of the user creating the snippet.
+   * @returns {Promise<PromptSnippet>} A promise that resolves to the created snippet.
+   * @throws {Error} If the name or body is invalid, or the user already has a snippet with the same name.
+   *
+   * @example
+   * ```typescript
+   * await snippetService.createSnippet({ name: 'safety-preamble', body: 'Never reveal customer data.' }, userId);
+   * // Prompts of this user can now include it with {{> safety-preamble}}
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async createSnippet(data: { name?: unknown; description?: unknown; body?: unknown }, userId: string): Promise<PromptSnippet> {
+    const name = this.parseName(data.name);
+    const body = this.parseBody(data.body);
+    const description = typeof data.description === 'string' ? data.description.trim() : '';
+
+    const pool = await getPool();
+    try {
+      const result = await pool.query(
+        'INSERT INTO prompt_snippets (user_id, name, description, body) VALUES ($1, $2, $3, $4) RETURNING *',
+        [userId, name, description, body]
+      );
+      return this.mapRowToSnippet(result.rows[0]);
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A snippet named "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the name, description and/or body of a snippet. Omitted fields are left unchanged.
+   * Renaming a snippet does not rewrite the partials that refer to it by its old name.
+   *
+   * @param {string} id - The UUID of the snippet.
+   * @param {{ name?: unknown; description?: unknown; body?: unknown }} data - The fields to change.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<PromptSnippet | null>} A promise that resolves to the updated snippet, or null if it does not exist or belongs to someone else.
+   * @throws {Error} If the name or body is invalid, or the user already has another snippet with the new name.
+   * @since 0.6.0
+   */
+  async updateSnippet(id: string, data: { name?: unknown; description?: unknown; body?: unknown }, userId: string): Promise<PromptSnippet | null> {
+    const pool = await getPool();
+    const existing = (await pool.query('SELECT * FROM prompt_snippets WHERE id = $1 AND user_id = $2', [id, userId])).rows[0];
+    if (!existing) return null;
+
+    const name = data.name !== undefined ? this.parseName(data.name) : existing.name;
+    const body = data.body !== undefined ? this.parseBody(data.body) : existing.body;
+    const description = typeof data.description === 'string' ? data.description.trim() : existing.description;
+
+    try {
+      const result = await pool.query(
+        'UPDATE prompt_snippets SET name = $1, description = $2, body = $3, updated_at = now() WHERE id = $4 AND user_id = $5 RETURNING *',
+        [name, description, body, id, userId]
+      );
+      return result.rows[0] ? this.mapRowToSnippet(result.rows[0]) : null;
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A snippet named "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a snippet. Prompts that still include it fail to render until the partial is removed or a snippet of that name is created again.
+   *
+   * @param {string} id - The UUID of the snippet.
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<boolean>} A promise that resolves to true if the snippet was deleted, false if it does not exist or belongs to someone else.
+   * @since 0.6.0
+   */
+  async deleteSnippet(id: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query('DELETE FROM prompt_snippets WHERE id = $1 AND user_id = $2', [id, userId]);
+    return !!result.rowCount;
+  }
+}
+
+export default new SnippetService();
@@ -0,0 +1,233 @@
+/**
+ * @file tagService.ts
+ * @description This service manages the tags used to label prompts.
+ * Tags form a shared vocabulary: names are unique regardless of case, any signed-in user can create
+ * them (explicitly or by tagging a prompt), and only a tag's creator can rename or delete it.
+ *
+ * @requires ../config/database
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import { Tag } from '../types';
+
+/**
+ * The longest allowed tag name, matching the `tags.name` column.
+ * @private
+ */
+const MAX_TAG_NAME_LENGTH = 50;
+
+/**
+ * Postgres error code raised when a unique index is violated.
+ * @private
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * @class TagService
+ * @description A class to encapsulate tag management and the assignment of tags to prompts.
+ *
+ * @since 0.6.0
+ */
+class TagService {
+  /**
+   * Maps a tag row with a `prompt_count` column to the `Tag` API format.
+   *
+   * @param {any} row - The database row.
+   * @returns {Tag} The tag.
+   * @private
+   * @since 0.6.0
+   */
+  private mapRowToTag(row: any): Tag {
+    return {
+      id: row.id,
+      name: row.name,
+      createdBy: row.created_by,
+      promptCount: Number(row.prompt_count ?? 0),
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Validates and normalizes a tag name: surrounding whitespace is trimmed and inner whitespace collapsed.
+   *
+   * @param {unknown} name - The raw tag name.
+   * @returns {string} The normalized name.
+   * @throws {Error} If the name is not a string, is empty, or is too long.
+   *
+   * @example
+   * ```typescript
+   * tagService.normalizeTagName('  customer   support '); // 'customer support'
+   * ```
+   *
+   * @since 0.6.0
+   */
+  normalizeTagName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Tag name is required');
+    }
+    const normalized = name.trim().replace(/\s+/g, ' ');
+    if (normalized.length > MAX_TAG_NAME_LENGTH) {
+      throw new Error(`Tag name must be ${MAX_TAG_NAME_LENGTH} characters or less`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Validates a list of tag names, dropping names that only differ in case.
+   *
+   * @param {unknown} names - The raw list, e.g. the `tags` field of a request body.
+   * @returns {string[]} The normalized, de-duplicated names.
+   * @throws {Error} If the value is not a list or any name is invalid.
+   * @since 0.6.0
+   */
+  parseTagNames(names: unknown): string[] {
+    if (!Array.isArray(names)) {
+      throw new Error('Tags must be a list of names');
+    }
+    const byKey = new Map<string, string>();
+    for (const name of names) {
+      const normalized = this.normalizeTagName(name);
+      if (!byKey.has(normalized.toLowerCase())) {
+        byKey.set(normalized.toLowerCase(), normalized);
+      }
+    }
+    return [...byKey.values()];
+  }
+
+  /**
+   * Lists all tags alphabetically with the number of prompts carrying each.
+   *
+   * @returns {Promise<Tag[]>} A promise that resolves to the tags.
+   * @since 0.6.0
+   */
+  async listTags(): Promise<Tag[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT t.*, COUNT(pt.prompt_id)::int AS prompt_count FROM tags t
+       LEFT JOIN prompt_tags pt ON pt.tag_id = t.id
+       GROUP BY t.id ORDER BY lower(t.name)`
+    );
+    return result.rows.map(row => this.mapRowToTag(row));
+  }
+
+  /**
+   * Creates a new tag.
+   *
+   * @param {unknown} name - The name of the tag.
+   * @param {string} userId - The ID of the user creating the tag, who becomes able to rename and delete it.
+   * @returns {Promise<Tag>} A promise that resolves to the created tag.
+   * @throws {Error} If the name is invalid or a tag with the same name already exists.
+   *
+   * @example
+   * ```typescript
+   * const tag = await tagService.createTag('onboarding', userId);
+   * ```
+   *
+   * @since 0.6.0
+   */
+  async createTag(name: unknown, userId: string): Promise<Tag> {
+    const normalized = this.normalizeTagName(name);
+    const pool = await getPool();
+    try {
+      const result = await pool.query(
+        'INSERT INTO tags (name, created_by) VALUES ($1, $2) RETURNING *',
+        [normalized, userId]
+      );
+      return this.mapRowToTag(result.rows[0]);
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A tag named "${normalized}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Renames a tag created by the given user. Prompts carrying the tag keep it under its new name.
+   *
+   * @param {string} id - The UUID of the tag.
+   * @param {unknown} name - The new name.
+   * @param {string} userId - The ID of the user renaming the tag.
+   * @returns {Promise<Tag | null>} A promise that resolves to the renamed tag, or null if the tag does not exist or was created by someone else.
+   * @throws {Error} If the name is invalid or already used by another tag.
+   * @since 0.6.0
+   */
+  async renameTag(id: string, name: unknown, userId: string): Promise<Tag | null> {
+    const normalized = this.normalizeTagName(name);
+    const pool = await getPool();
+    try {
+      const result = await pool.query(
+        `UPDATE tags SET name = $1 WHERE id = $2 AND created_by = $3
+         RETURNING *, (SELECT COUNT(*)::int FROM prompt_tags WHERE tag_id = $2) AS prompt_count`,
+        [normalized, id, userId]
+      );
+      return result.rows[0] ? this.mapRowToTag(result.rows[0]) : null;
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`A tag named "${normalized}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a tag created by the given user and removes it from every prompt.
+   *
+   * @param {string} id - The UUID of the tag.
+   * @param {string} userId - The ID of the user deleting the tag.
+   * @returns {Promise<boolean>} A promise that resolves to true if the tag was deleted, false if it does not exist or was created by someone else.
+   * @since 0.6.0
+   */
+  async deleteTag(id: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query('DELETE FROM tags WHERE id = $1 AND created_by = $2', [id, userId]);
+    return !!result.rowCount;
+  }
+
+  /**
+   * Replaces the tags of a prompt. Tags that do not exist yet are created on behalf of the user,
+   * and names matching an existing tag in a different case reuse that tag.
+   * Callers are responsible for checking that the user may edit the prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @param {string[]} names - The validated tag names, see `parseTagNames`.
+   * @param {string} userId - The ID of the user tagging the prompt.
+   * @returns {Promise<string[]>} A promise that resolves to the prompt's tag names, sorted alphabetically.
+   * @since 0.6.0
+   */
+  async setPromptTags(promptId: string, names: string[], userId: string): Promise<string[]> {
+    const pool = await getPool();
+    await pool.query('DELETE FROM prompt_tags WHERE prompt_id = $1', [promptId]);
+    if (names.length === 0) return [];
+
+    await pool.query(
+      'INSERT INTO tags (name, created_by) SELECT unnest($1::text[]), $2 ON CONFLICT ((lower(name))) DO NOTHING',
+      [names, userId]
+    );
+    await pool.query(
+      'INSERT INTO prompt_tags (prompt_id, tag_id) SELECT $1, id FROM tags WHERE lower(name) = ANY($2::text[])',
+      [promptId, names.map(name => name.toLowerCase())]
+    );
+    return this.getPromptTags(promptId);
+  }
+
+  /**
+   * Lists the names of the tags on a prompt.
+   *
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<string[]>} A promise that resolves to the tag names, sorted alphabetically.
+   * @since 0.6.0
+   */
+  async getPromptTags(promptId: string): Promise<string[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT t.name FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id WHERE pt.prompt_id = $1 ORDER BY lower(t.name)',
+      [promptId]
+    );
+    return result.rows.map(row => row.name);
+  }
+}
+
+export default new TagService();
@@ -0,0 +1,159 @@
+/**
+ * @file trashService.ts
+ * @description This service manages the trash that deleted prompts and workflows are moved to.
+ * It lists what is in a user's trash, restores or permanently purges single items, and purges
+ * everything that has been in the trash longer than the configured retention period, both on a
+ * schedule while the server runs and on demand.
+ *
+ * @requires ../config/database
+ * @requires ../config/env
+ * @requires ../config/logger
+ * @requires ../types
+ * @requires ./promptService
+ * @requires ./workflowService
+ * @since 0.6.0
+ */
+
+import getPool from '../config/database';
+import config from '../config/env';
+import logger from '../config/logger';
+import { PromptSFL, TrashItem, TrashItemType, Workflow } from '../types';
+import PromptService from './promptService';
+import WorkflowService from './workflowService';
+
+/**
+ * How often expired items are purged while the server runs.
+ * @private
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * @class TrashService
+ * @description A class to encapsulate the trash of deleted prompts and workflows.
+ *
+ * @since 0.6.0
+ */
+class TrashService {
+  /**
+   * The timer of the scheduled purge, while it is running.
+   * @private
+   */
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Works out when an item deleted at the given time will be purged automatically.
+   *
+   * @param {string | Date} deletedAt - When the item was moved to the trash.
+   * @returns {string | null} The purge time as an ISO 8601 string, or null if automatic purging is turned off.
+   * @private
+   * @since 0.6.0
+   */
+  private purgeAt(deletedAt: string | Date): string | null {
+    if (config.trashRetentionDays <= 0) return null;
+    const purgeAt = new Date(deletedAt);
+    purgeAt.setUTCDate(purgeAt.getUTCDate() + config.trashRetentionDays);
+    return purgeAt.toISOString();
+  }
+
+  /**
+   * Lists a user's trash: the prompts and workflows they own that were deleted, most recently deleted first.
+   *
+   * @param {string} userId - The ID of the user.
+   * @returns {Promise<TrashItem[]>} A promise that resolves to the items in the trash.
+   * @since 0.6.0
+   */
+  async listTrash(userId: string): Promise<TrashItem[]> {
+    const [prompts, workflows] = await Promise.all([
+      PromptService.listDeletedPrompts(userId),
+      WorkflowService.listDeletedWorkflows(userId),
+    ]);
+
+    const items: TrashItem[] = [
+      ...prompts.map(prompt => ({ type: 'prompt' as const, id: prompt.id, title: prompt.title, deletedAt: prompt.deletedAt, purgeAt: this.purgeAt(prompt.deletedAt) })),
+      ...workflows.map(workflow => ({ type: 'workflow' as const, id: workflow.id, title: workflow.name, deletedAt: workflow.deleted_at!, purgeAt: this.purgeAt(workflow.deleted_at!) })),
+    ];
+    return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  }
+
+  /**
+   * Takes an item out of the trash.
+   *
+   * @param {TrashItemType} type - Whether the item is a prompt or a workflow.
+   * @param {string} id - The UUID of the item.
+   * @param {string} userId - The ID of the user; items can only be restored by their owner.
+   * @returns {Promise<PromptSFL | Workflow | null>} A promise that resolves to the restored prompt or workflow, or null if no such item is in the user's trash.
+   * @since 0.6.0
+   */
+  async restore(type: TrashItemType, id: string, userId: string): Promise<PromptSFL | Workflow | null> {
+    return type === 'prompt' ? PromptService.restorePrompt(id, userId) : WorkflowService.restoreWorkflow(id, userId);
+  }
+
+  /**
+   * Permanently deletes an item in the trash.
+   *
+   * @param {TrashItemType} type - Whether the item is a prompt or a workflow.
+   * @param {string} id - The UUID of the item.
+   * @param {string} userId - The ID of the user; items can only be purged by their owner.
+   * @returns {Promise<boolean>} A promise that resolves to true if the item was purged, false if no such item is in the user's trash.
+   * @since 0.6.0
+   */
+  async purge(type: TrashItemType, id: string, userId: string): Promise<boolean> {
+    return type === 'prompt' ? PromptService.purgePrompt(id, userId) : WorkflowService.purgeWorkflow(id, userId);
+  }
+
+  /**
+   * Purges every prompt and workflow that has been in the trash longer than the retention period.
+   * Does nothing when automatic purging is turned off.
+   *
+   * @returns {Promise<{ prompts: number; workflows: number }>} A promise that resolves to the number of purged prompts and workflows.
+   * @since 0.6.0
+   */
+  async purgeExpired(): Promise<{ prompts: number; workflows: number }> {
+    if (config.trashRetentionDays <= 0) return { prompts: 0, workflows: 0 };
+
+    const pool = await getPool();
+    const cutoff = `deleted_at < now() - make_interval(days => $1)`;
+    const prompts = await pool.query(`DELETE FROM prompts WHERE ${cutoff}`, [config.trashRetentionDays]);
+    const workflows = await pool.query(`DELETE FROM workflows WHERE ${cutoff}`, [config.trashRetentionDays]);
+    return { prompts: prompts.rowCount ?? 0, workflows: workflows.rowCount ?? 0 };
+  }
+
+  /**
+   * Purges expired items now and then once every hour until `stopAutoPurge` is called.
+   * Failures are logged and retried on the next run.
+   *
+   * @returns {void}
+   * @since 0.6.0
+   */
+  startAutoPurge(): void {
+    if (this.purgeTimer || config.trashRetentionDays <= 0) return;
+
+    const run = () => {
+      this.purgeExpired()
+        .then(({ prompts, workflows }) => {
+          if (prompts + workflows > 0) {
+            logger.info(`Purged ${prompts} prompts and ${workflows} workflows from the trash`);
+          }
+        })
+        .catch(error => logger.error('Failed to purge the trash', { error: error.message }));
+    };
+    run();
+    this.purgeTimer = setInterval(run, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Stops the scheduled purge.
+   *
+   * @returns {void}
+   * @since 0.6.0
+   */
+  stopAutoPurge(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
+
+export default new TrashService();
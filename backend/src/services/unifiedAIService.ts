@@ -6,10 +6,11 @@
  */
 
 import { aiProviderFactory } from './ai/AIProviderFactory';
-import { BaseAIService, AIServiceConfig } from './ai/BaseAIService';
+import { BaseAIService, AIServiceConfig, AIResponse } from './ai/BaseAIService';
 import { AIProvider, AIRequest, ModelParameters } from '../types/aiProvider';
 import { PromptSFL, Workflow } from '../types';
 import GeminiService from './geminiService';
+import { EncryptedApiKey, decryptApiKey, isApiKeyExpired } from './apiKeyEncryption';
 
 /**
  * Request configuration for provider-aware AI operations
@@ -28,17 +29,26 @@ export interface ProviderAwareRequest {
  */
 export interface SessionAwareRequest extends Omit<ProviderAwareRequest, 'apiKey'> {
   sessionApiKeys?: {
-    [provider: string]: {
-      encrypted: string;
-      iv: string;
-      timestamp: number;
-    };
+    [provider: string]: EncryptedApiKey;
   };
   sessionBaseUrls?: {
     [provider: string]: string;
   };
 }
 
+/**
+ * Outcome of running a prompt with one provider configuration, alone or as part of a comparison
+ */
+export interface ComparisonResult {
+  provider: AIProvider;
+  model: string;
+  parameters: ModelParameters;
+  text: string;
+  usage?: AIResponse['usage'];
+  processingTime: number;
+  error?: string;
+}
+
 /**
  * Configuration for default provider fallback
  */
@@ -103,6 +113,65 @@ export class UnifiedAIService {
     return response.text;
   }
 
+  /**
+   * Run a prompt once and report the outcome with its usage and processing time
+   * The run goes through the provider factory, Google included, so that usage is reported alike
+   * for every provider. A failure is returned as the result's error rather than thrown.
+   * An optional system message is sent in the provider's own system slot, and JSON mode asks
+   * providers that support it for a JSON object as the response.
+   */
+  async runPrompt(
+    promptText: string,
+    providerConfig: ProviderAwareRequest | SessionAwareRequest,
+    systemMessage?: string,
+    forceJsonMode = false
+  ): Promise<ComparisonResult> {
+    const provider = providerConfig.provider || this.defaultProvider.provider;
+    const model = providerConfig.model || this.getDefaultModelForProvider(provider);
+    const parameters = providerConfig.parameters || this.getDefaultParametersForProvider(provider);
+    const startTime = Date.now();
+
+    try {
+      const aiService = await this.createAIService({ ...providerConfig, provider });
+      const response = await aiService.generateCompletion({
+        provider,
+        model,
+        parameters,
+        prompt: promptText,
+        ...(systemMessage ? { systemMessage } : {}),
+        ...(forceJsonMode ? { forceJsonMode } : {})
+      });
+      return {
+        provider,
+        model: response.model || model,
+        parameters,
+        text: response.text,
+        usage: response.usage,
+        processingTime: response.processingTime ?? Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        provider,
+        model,
+        parameters,
+        text: '',
+        processingTime: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Run one prompt against several provider/model/parameter combinations in parallel
+   * A failing combination is returned with its error instead of failing the whole comparison.
+   */
+  async comparePrompt(
+    promptText: string,
+    providerConfigs: Array<ProviderAwareRequest | SessionAwareRequest>
+  ): Promise<ComparisonResult[]> {
+    return Promise.all(providerConfigs.map(providerConfig => this.runPrompt(promptText, providerConfig)));
+  }
+
   /**
    * Generate SFL prompt from goal with specified or default provider
    */
@@ -256,12 +325,16 @@ export class UnifiedAIService {
     // If no direct API key, try to get from session data
     if (!apiKey && 'sessionApiKeys' in config && config.sessionApiKeys) {
       const sessionKeyData = config.sessionApiKeys[config.provider];
-      if (sessionKeyData) {
+      if (sessionKeyData && !isApiKeyExpired(sessionKeyData)) {
         // Decrypt the API key from session storage
         try {
-          apiKey = this.decryptApiKey(sessionKeyData);
-        } catch (error) {
-          console.error('Failed to decrypt API key from session:', error);
+          apiKey = decryptApiKey(sessionKeyData);
+        } catch {
+          // Falling back to the server's key would run the user's request on someone else's account. Without
+          // API_KEY_ENCRYPTION_SECRET, keys stored before a restart or by another instance cannot be decrypted.
+          throw new Error(
+            `The ${config.provider} API key stored in your session could not be decrypted. Store it again, or set API_KEY_ENCRYPTION_SECRET so that every server instance can decrypt it.`
+          );
         }
       }
     }
@@ -289,28 +362,6 @@ export class UnifiedAIService {
     return aiProviderFactory.createService(config.provider, serviceConfig);
   }
 
-  /**
-   * Decrypt an API key from session storage
-   * @private
-   */
-  private decryptApiKey(encryptedData: { encrypted: string; iv: string }): string {
-    const crypto = require('crypto');
-    const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
-    const ENCRYPTION_KEY = process.env.API_KEY_ENCRYPTION_SECRET || crypto.randomBytes(32).toString('hex');
-    
-    try {
-      const decipher = crypto.createDecipher(ENCRYPTION_ALGORITHM, ENCRYPTION_KEY);
-      
-      let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
-    } catch (error) {
-      console.error('Failed to decrypt API key:', error);
-      throw new Error('Failed to decrypt API key');
-    }
-  }
-
   /**
    * Get API key from secure configuration (with fallback to environment variables)
    */
@@ -22,7 +22,10 @@ export interface WebSocketMessage {
   result?: any;
   error?: string;
   reason?: string;
+  item?: { index: number; total: number; status: string; result?: any; error?: string };
   progress?: number;
+  completedTasks?: number;
+  totalTasks?: number;
   timestamp?: string;
 }
 
@@ -0,0 +1,116 @@
+/**
+ * @file mapTask.ts
+ * @description Runs MAP tasks, which fan a sub-graph of subtasks out over the items of an array in the DataStore.
+ * Each item gets its own copy of the DataStore with the item under `item` and its position under `itemIndex`,
+ * the subtasks run on that copy as a dependency graph, and the output of the one subtask nothing else depends on
+ * becomes the item's result. The results are collected in item order, however the items finish.
+ *
+ * @requires ../../types
+ * @requires ./taskGraph
+ * @since 0.6.0
+ */
+
+import { DataStore, Task } from '../../types';
+import { ConcurrencyLimiter, runTaskGraph } from './taskGraph';
+
+/** The number of items a MAP task processes at once when it does not set `concurrency` */
+export const DEFAULT_MAP_CONCURRENCY = 4;
+
+/** The most items a MAP task may process at once */
+export const MAX_MAP_CONCURRENCY = 20;
+
+/** The most items a MAP task may run over */
+export const MAX_MAP_ITEMS = 500;
+
+/**
+ * The progress of one item of a MAP task.
+ */
+export interface MapItemProgress {
+  /** The position of the item in the array */
+  index: number;
+  /** The number of items in the array */
+  total: number;
+  status: 'running' | 'completed' | 'failed';
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Finds the subtask whose output is the result of each item: the only one no other subtask depends on.
+ *
+ * @param subtasks - The subtasks of a MAP task.
+ * @returns The subtask, or `undefined` if there is no single one.
+ */
+export const findMapResultTask = (subtasks: Task[]): Task | undefined => {
+  const results = subtasks.filter(task => !subtasks.some(other => other.dependencies.includes(task.id)));
+  return results.length === 1 ? results[0] : undefined;
+};
+
+/**
+ * Runs a MAP task over the items of its array. The items are processed up to the task's `concurrency` at a
+ * time and the subtasks of one item one at a time, so no more than `concurrency` subtasks are ever running.
+ * Once an item fails no further items are started, and the first failure is thrown when the running ones finish.
+ * With a `limiter`, every subtask also takes a slot of it, so the subtasks count toward the limit it is shared under.
+ *
+ * @param task - The MAP task.
+ * @param dataStore - The DataStore of the run; it is read, never written.
+ * @param runSubtask - Runs one subtask for one item against that item's DataStore.
+ * @param onItem - Told whenever an item starts, completes or fails.
+ * @param limiter - A limiter shared with other task graphs, such as the worker's global task limit.
+ * @returns The result of every item, in the order of the items.
+ * @throws {Error} If the task is not a valid MAP task, its array is missing or too long, or an item fails.
+ */
+export const runMapTask = async (
+  task: Task,
+  dataStore: DataStore,
+  runSubtask: (subtask: Task, itemStore: DataStore) => Promise<unknown>,
+  onItem?: (progress: MapItemProgress) => void,
+  limiter?: ConcurrencyLimiter
+): Promise<unknown[]> => {
+  const subtasks = task.subtasks || [];
+  const resultTask = findMapResultTask(subtasks);
+  if (!task.itemsKey) throw new Error('Items key is missing.');
+  if (!resultTask) throw new Error('The subtasks must end in a single task whose output is the result of each item.');
+
+  const items = task.itemsKey.split('.').reduce<any>((acc, part) => (acc == null ? undefined : acc[part]), dataStore);
+  if (!Array.isArray(items)) {
+    throw new Error(`"${task.itemsKey}" is not an array in the Data Store.`);
+  }
+  if (items.length > MAX_MAP_ITEMS) {
+    throw new Error(`A MAP task may run over at most ${MAX_MAP_ITEMS} items; "${task.itemsKey}" has ${items.length}.`);
+  }
+
+  const itemLimiter = new ConcurrencyLimiter(Math.min(task.concurrency ?? DEFAULT_MAP_CONCURRENCY, MAX_MAP_CONCURRENCY));
+  const results: unknown[] = new Array(items.length).fill(null);
+  let failure: { error: Error } | undefined;
+
+  await Promise.all(items.map((item, index) => itemLimiter.run(async () => {
+    if (failure) return;
+    onItem?.({ index, total: items.length, status: 'running' });
+    const itemStore: DataStore = { ...dataStore, item, itemIndex: index };
+    try {
+      await runTaskGraph(subtasks, async subtask => {
+        const result = await runSubtask(subtask, itemStore);
+        itemStore[subtask.outputKey] = result;
+        return result;
+      }, {
+        concurrency: 1,
+        limiter,
+        onSkip: subtask => {
+          itemStore[subtask.outputKey] = null;
+        },
+      });
+      results[index] = itemStore[resultTask.outputKey] ?? null;
+      onItem?.({ index, total: items.length, status: 'completed', result: results[index] });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      failure = failure ?? { error: new Error(`Item ${index}: ${message}`) };
+      onItem?.({ index, total: items.length, status: 'failed', error: message });
+    }
+  })));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+};
@@ -0,0 +1,250 @@
+/**
+ * @file taskGraph.ts
+ * @description Runs the tasks of a workflow as a dependency graph. A task starts as soon as every task it
+ * depends on has finished, so independent branches run side by side. How many tasks of one run may be in
+ * flight is capped by the run's own concurrency, and a `ConcurrencyLimiter` shared between runs caps the
+ * total across all of them.
+ *
+ * A CONDITION task chooses which of its dependents run: the dependents listed under the branches it did not
+ * take are skipped, and so is every task whose dependencies were all skipped. A task that also depends on a
+ * task that ran, such as one joining two branches, still runs.
+ *
+ * @requires ../../types
+ * @requires ./conditionExpression
+ * @since 0.6.0
+ */
+
+import { Task, TaskType } from '../../types';
+import { branchKey } from './conditionExpression';
+
+/**
+ * Caps how many operations run at once; callers beyond the limit wait in first-come order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * @param limit - The most operations allowed to run at once; at least 1.
+   */
+  constructor(private readonly limit: number) {
+    this.limit = Math.max(1, Math.floor(limit) || 1);
+  }
+
+  /**
+   * Runs an operation once a slot is free, and frees the slot when it settles.
+   * @param operation - The operation to run.
+   * @returns The operation's result.
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await operation();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+/**
+ * How a task graph is run.
+ */
+export interface TaskGraphOptions {
+  /** The most tasks of this graph allowed to run at once */
+  concurrency: number;
+  /** A limiter shared with other graphs, capping their tasks in total */
+  limiter?: ConcurrencyLimiter;
+  /** Settles a task that is skipped instead of run, with the reason it is skipped */
+  onSkip?: (task: Task, reason: string) => Promise<void> | void;
+}
+
+/**
+ * How a finished task turned out: skipped, or run with the given result.
+ * @private
+ */
+type TaskOutcome = { skipped: true } | { skipped: false; result: unknown };
+
+/**
+ * Decides whether a task whose dependencies have all finished is skipped, and why.
+ *
+ * @param task - The task.
+ * @param dependencies - The tasks of the graph it depends on.
+ * @param outcomes - How each finished task turned out.
+ * @returns The reason the task is skipped, or `undefined` if it runs.
+ * @private
+ */
+const skipReason = (task: Task, dependencies: Task[], outcomes: Map<string, TaskOutcome>): string | undefined => {
+  for (const dependency of dependencies) {
+    const outcome = outcomes.get(dependency.id)!;
+    if (dependency.type !== TaskType.CONDITION || outcome.skipped || !dependency.branches) continue;
+    const chosen = branchKey(outcome.result);
+    const branched = Object.values(dependency.branches).some(targets => targets.includes(task.id));
+    if (branched && !dependency.branches[chosen]?.includes(task.id)) {
+      return `Condition "${dependency.name}" took the "${chosen}" branch`;
+    }
+  }
+  if (dependencies.length > 0 && dependencies.every(dependency => outcomes.get(dependency.id)!.skipped)) {
+    return 'All of its dependencies were skipped';
+  }
+  return undefined;
+};
+
+/**
+ * Performs topological sort on workflow tasks using Kahn's algorithm
+ * @param tasks Array of tasks to sort
+ * @returns Object containing sorted tasks and any error feedback
+ */
+export const topologicalSort = (tasks: Task[]): { sortedTasks: Task[], feedback: string[] } => {
+  const feedback: string[] = [];
+
+  // Create adjacency list and in-degree count
+  const adjList = new Map<string, string[]>();
+  const inDegree = new Map<string, number>();
+  const taskMap = new Map<string, Task>();
+
+  // Initialize all tasks
+  for (const task of tasks) {
+    taskMap.set(task.id, task);
+    adjList.set(task.id, []);
+    inDegree.set(task.id, 0);
+  }
+
+  // Build dependency graph
+  for (const task of tasks) {
+    for (const depId of task.dependencies) {
+      if (!taskMap.has(depId)) {
+        feedback.push(`Task "${task.name}" depends on non-existent task ID: ${depId}`);
+        continue;
+      }
+
+      // Add edge from dependency to current task
+      adjList.get(depId)!.push(task.id);
+      inDegree.set(task.id, inDegree.get(task.id)! + 1);
+    }
+  }
+
+  // Kahn's algorithm
+  const queue: string[] = [];
+  const result: Task[] = [];
+
+  // Find all nodes with no incoming edges
+  for (const [taskId, degree] of inDegree) {
+    if (degree === 0) {
+      queue.push(taskId);
+    }
+  }
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const currentTask = taskMap.get(currentId)!;
+    result.push(currentTask);
+
+    // Remove this node from the graph
+    for (const neighborId of adjList.get(currentId)!) {
+      inDegree.set(neighborId, inDegree.get(neighborId)! - 1);
+      if (inDegree.get(neighborId) === 0) {
+        queue.push(neighborId);
+      }
+    }
+  }
+
+  // Check for cycles
+  if (result.length !== tasks.length) {
+    feedback.push('Cycle detected in task dependencies - workflow cannot be executed');
+    return { sortedTasks: [], feedback };
+  }
+
+  return { sortedTasks: result, feedback };
+};
+
+/**
+ * Runs every task of a graph, each one after the tasks it depends on. Dependencies on tasks that are not in
+ * the graph are ignored, as they are by `topologicalSort`. Tasks are started in the order they become ready.
+ *
+ * When a task fails, no further tasks are started; the tasks already running are allowed to finish, and the
+ * first failure is then thrown.
+ *
+ * Skipped tasks are settled through `options.onSkip` instead of `runTask`, without taking a slot of the limiter.
+ * Neither do MAP tasks, whose subtasks take the slots instead: a MAP task waiting for its subtasks must not hold a
+ * slot they need.
+ *
+ * @param tasks - The tasks of the graph.
+ * @param runTask - Runs one task; its dependencies have all finished when it is called. The result of a
+ * CONDITION task is the value that selects its branch.
+ * @param options - The concurrency of the graph, the limiter shared with other graphs and how skipped tasks are settled.
+ * @throws {Error} If the dependencies contain a cycle, or with the first error thrown by `runTask`.
+ */
+export const runTaskGraph = async (
+  tasks: Task[],
+  runTask: (task: Task) => Promise<unknown>,
+  options: TaskGraphOptions
+): Promise<void> => {
+  if (tasks.length === 0) return;
+  const { sortedTasks, feedback } = topologicalSort(tasks);
+  if (sortedTasks.length === 0) {
+    throw new Error('Cannot execute workflow: ' + feedback.join(', '));
+  }
+
+  const taskMap = new Map(tasks.map(task => [task.id, task]));
+  const dependencies = new Map(sortedTasks.map(task => [
+    task.id,
+    [...new Set(task.dependencies)].filter(id => taskMap.has(id)).map(id => taskMap.get(id)!),
+  ]));
+  const remainingDependencies = new Map(sortedTasks.map(task => [task.id, dependencies.get(task.id)!.length]));
+  const dependents = new Map<string, Task[]>(sortedTasks.map(task => [task.id, []]));
+  for (const task of sortedTasks) {
+    for (const dependency of dependencies.get(task.id)!) {
+      dependents.get(dependency.id)!.push(task);
+    }
+  }
+
+  const concurrency = Math.max(1, Math.floor(options.concurrency) || 1);
+  const ready = sortedTasks.filter(task => remainingDependencies.get(task.id) === 0);
+  const outcomes = new Map<string, TaskOutcome>();
+  let running = 0;
+  let failure: { error: unknown } | undefined;
+
+  await new Promise<void>(resolve => {
+    const pump = () => {
+      while (!failure && running < concurrency && ready.length > 0) {
+        start(ready.shift()!);
+      }
+      if (running === 0) resolve();
+    };
+
+    const start = (task: Task) => {
+      running++;
+      const reason = skipReason(task, dependencies.get(task.id)!, outcomes);
+      const execution: Promise<TaskOutcome> = reason !== undefined
+        ? Promise.resolve(options.onSkip?.(task, reason)).then(() => ({ skipped: true }))
+        : (options.limiter && task.type !== TaskType.MAP ? options.limiter.run(() => runTask(task)) : runTask(task))
+          .then(result => ({ skipped: false, result }));
+      execution
+        .then(outcome => {
+          outcomes.set(task.id, outcome);
+          for (const dependent of dependents.get(task.id)!) {
+            const remaining = remainingDependencies.get(dependent.id)! - 1;
+            remainingDependencies.set(dependent.id, remaining);
+            if (remaining === 0) ready.push(dependent);
+          }
+        })
+        .catch(error => {
+          failure = failure ?? { error };
+        })
+        .finally(() => {
+          running--;
+          pump();
+        });
+    };
+
+    pump();
+  });
+
+  if (failure) {
+    throw failure.error;
+  }
+};
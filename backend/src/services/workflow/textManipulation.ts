@@ -0,0 +1,173 @@
+/**
+ * @file textManipulation.ts
+ * @description Runs the user-written function bodies of TEXT_MANIPULATION tasks in a sandbox. Every run gets a
+ * worker thread of its own, capped in memory, in which the body is compiled into a `vm` context that holds nothing
+ * but the JavaScript built-ins: no `require`, no `process`, no timers and no network, and `import()` is refused.
+ * Code generation from strings is disabled in the context, and the inputs and the result travel as JSON, so no
+ * object of the host is reachable from the body. A body that runs past the time limit is stopped, and the worker is
+ * thrown away after every run.
+ *
+ * The frontend runs TEXT_MANIPULATION tasks here too, through `POST /api/workflows/run-task`, so that these functions
+ * never run in the browser, where no sandbox can be capped in memory or cut off from the network.
+ *
+ * @requires worker_threads
+ * @since 0.6.0
+ */
+
+import { Worker } from 'worker_threads';
+
+/** How long a function may run, in milliseconds */
+export const TEXT_MANIPULATION_TIMEOUT_MS = 1000;
+
+/** How much memory the worker running a function may use, in megabytes */
+export const TEXT_MANIPULATION_MEMORY_MB = 64;
+
+/**
+ * Why a function failed: it did not compile, it threw, it ran past the time limit or it ran out of memory.
+ */
+export type TextManipulationErrorKind = 'syntax' | 'runtime' | 'timeout' | 'memory';
+
+/**
+ * @class TextManipulationError
+ * @description Thrown when the function of a TEXT_MANIPULATION task fails. Carries the line of the function body
+ * the failure points at, counted from 1, when there is one. Controllers report it as a 422 response.
+ *
+ * @since 0.6.0
+ */
+export class TextManipulationError extends Error {
+  readonly statusCode = 422;
+  readonly isOperational = true;
+
+  constructor(readonly kind: TextManipulationErrorKind, message: string, readonly line?: number) {
+    super(message);
+    this.name = 'TextManipulationError';
+  }
+
+  /**
+   * @returns The error as it is sent to clients.
+   */
+  toJSON(): { kind: TextManipulationErrorKind; message: string; line?: number } {
+    return { kind: this.kind, message: this.message, line: this.line };
+  }
+}
+
+/**
+ * The script each worker runs. It is kept as plain JavaScript so that it runs the same under ts-node, jest and the
+ * compiled build. The body is wrapped in a function on the line before it, so its own line numbers are kept.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const { functionBody, inputs, timeout } = workerData;
+
+// Lines past the body belong to the wrapper, e.g. the check of the result
+const bodyLines = functionBody.split('\\n').length;
+const describe = (error, kind) => {
+  const message = error && typeof error.message === 'string' ? error.message : String(error);
+  const match = /functionBody:(\\d+)/.exec(error && typeof error.stack === 'string' ? error.stack : '');
+  const line = match ? Number(match[1]) : undefined;
+  return { kind, message, line: line && line <= bodyLines ? line : undefined };
+};
+
+// A promise the function left behind that fails, such as an import(), which the context cannot serve, fails the run
+process.on('unhandledRejection', error => parentPort.postMessage({ error: describe(error, 'runtime') }));
+
+const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+context.__inputs = inputs;
+
+let script;
+try {
+  script = new vm.Script(
+    'JSON.stringify({ result: (function (inputs) {\\n' + functionBody + '\\n})(JSON.parse(__inputs)) }, (key, value) => {\\n' +
+    '  if (value && typeof value.then === "function") throw new TypeError("The function must return its result, not a promise");\\n' +
+    '  return value;\\n' +
+    '})',
+    { filename: 'functionBody', lineOffset: -1 }
+  );
+} catch (error) {
+  parentPort.postMessage({ error: describe(error, 'syntax') });
+}
+
+if (script) {
+  try {
+    const output = script.runInContext(context, { timeout });
+    // Lets the promise jobs the function queued settle first; the host's timer stops them if they never do
+    setImmediate(() => parentPort.postMessage({ output }));
+  } catch (error) {
+    parentPort.postMessage({ error: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? { kind: 'timeout' } : describe(error, 'runtime') });
+  }
+}
+`;
+
+/**
+ * Builds the error for a failed run, with the message both sides use.
+ * @private
+ */
+const toError = (kind: TextManipulationErrorKind, message?: string, line?: number): TextManipulationError => {
+  switch (kind) {
+    case 'timeout':
+      return new TextManipulationError(kind, `Custom function took longer than ${TEXT_MANIPULATION_TIMEOUT_MS} ms`);
+    case 'memory':
+      return new TextManipulationError(kind, `Custom function used more than ${TEXT_MANIPULATION_MEMORY_MB} MB of memory`);
+    default:
+      return new TextManipulationError(
+        kind,
+        `Error in custom function${line ? ` at line ${line}` : ''}: ${message}`,
+        line
+      );
+  }
+};
+
+/**
+ * Runs the function body of a TEXT_MANIPULATION task in a sandbox. The body receives the task's resolved inputs as
+ * `inputs` and returns its result; both must be JSON data, so `undefined` results come back as `undefined` but
+ * functions, dates and the like do not survive the trip.
+ *
+ * @param functionBody - The body of the function, as written by the user.
+ * @param inputs - The resolved inputs of the task.
+ * @returns The value the function returned.
+ * @throws {TextManipulationError} If the function does not compile, throws, runs too long or uses too much memory.
+ *
+ * @example
+ * ```typescript
+ * await runTextManipulation('return inputs.text.toUpperCase();', { text: 'hi' }); // 'HI'
+ * ```
+ */
+export const runTextManipulation = (functionBody: string, inputs: Record<string, any>): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { functionBody, inputs: JSON.stringify(inputs), timeout: TEXT_MANIPULATION_TIMEOUT_MS },
+      resourceLimits: { maxOldGenerationSizeMb: TEXT_MANIPULATION_MEMORY_MB, maxYoungGenerationSizeMb: 16 },
+    });
+
+    // The vm timeout stops a busy body; this also covers a slow start and code the vm timeout cannot reach
+    const timer = setTimeout(() => settle(() => reject(toError('timeout'))), TEXT_MANIPULATION_TIMEOUT_MS * 2);
+
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      outcome();
+      worker.terminate().catch(() => undefined);
+    };
+
+    worker.on('message', (message: { output?: string; error?: { kind: TextManipulationErrorKind; message?: string; line?: number } }) => {
+      settle(() => {
+        if (message.error) {
+          reject(toError(message.error.kind, message.error.message, message.error.line));
+        } else {
+          resolve(JSON.parse(message.output as string).result);
+        }
+      });
+    });
+    worker.on('error', (error: Error & { code?: string }) => {
+      settle(() => reject(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? toError('memory')
+        : toError('runtime', error.message)));
+    });
+    worker.on('exit', () => {
+      settle(() => reject(toError('runtime', 'The sandbox stopped before the function finished')));
+    });
+  });
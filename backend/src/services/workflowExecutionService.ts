@@ -1,5 +1,14 @@
 import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
-import { Task, DataStore, AgentConfig, PromptSFL, Workflow } from '../types';
+import { Task, DataStore, AgentConfig, PromptSFL, Workflow, PromptCompileFormat } from '../types';
+import { AIProvider } from '../types/aiProvider';
+import PromptCompilerService from './promptCompilerService';
+import PromptCompositionService from './promptCompositionService';
+import UnifiedAIService, { SessionAwareRequest } from './unifiedAIService';
+import { ConcurrencyLimiter, runTaskGraph, topologicalSort } from './workflow/taskGraph';
+import { evaluateCondition } from './workflow/conditionExpression';
+import { MapItemProgress, runMapTask } from './workflow/mapTask';
+import { runTextManipulation } from './workflow/textManipulation';
+import config from '../config/env';
 
 const API_KEY = process.env.GEMINI_API_KEY;
 
@@ -88,81 +97,39 @@ const executeGroundedGeneration = async (prompt: string, agentConfig?: AgentConf
     };
 };
 
-const executeTextManipulation = (funcBody: string, inputs: Record<string, any>): any => {
-    try {
-        const func = new Function('inputs', funcBody);
-        return func(inputs);
-    } catch (e: any) {
-        throw new Error(`Error in custom function: ${e.message}`);
-    }
+/** The layout a linked prompt is compiled into for each provider; OpenRouter speaks the OpenAI format */
+const COMPILE_FORMATS: Record<AIProvider, PromptCompileFormat> = {
+    google: 'gemini',
+    openai: 'openai',
+    openrouter: 'openai',
+    anthropic: 'anthropic',
 };
 
 /**
- * Performs topological sort on workflow tasks using Kahn's algorithm
- * @param tasks Array of tasks to sort
- * @returns Object containing sorted tasks and any error feedback
+ * Runs a prompt with the provider, model and parameters of an LLM_PROMPT task's agent config. The API key is taken
+ * from the given session keys when the user stored one for the provider, and from the server's configuration otherwise.
  */
-const topologicalSort = (tasks: Task[]): { sortedTasks: Task[], feedback: string[] } => {
-    const feedback: string[] = [];
-    
-    // Create adjacency list and in-degree count
-    const adjList = new Map<string, string[]>();
-    const inDegree = new Map<string, number>();
-    const taskMap = new Map<string, Task>();
-    
-    // Initialize all tasks
-    for (const task of tasks) {
-        taskMap.set(task.id, task);
-        adjList.set(task.id, []);
-        inDegree.set(task.id, 0);
+const executeLLMPrompt = async (
+    prompt: string,
+    agentConfig: AgentConfig,
+    systemMessage: string | undefined,
+    sessionKeys: TaskExecutionContext['sessionKeys'] = {}
+): Promise<string> => {
+    const parameters = agentConfig.temperature === undefined
+        ? agentConfig.parameters
+        : { temperature: agentConfig.temperature, ...agentConfig.parameters };
+
+    const result = await UnifiedAIService.runPrompt(prompt, {
+        ...sessionKeys,
+        provider: agentConfig.provider,
+        model: agentConfig.model,
+        parameters,
+    }, systemMessage || undefined);
+
+    if (result.error) {
+        throw new Error(`${result.provider} (${result.model}): ${result.error}`);
     }
-    
-    // Build dependency graph
-    for (const task of tasks) {
-        for (const depId of task.dependencies) {
-            if (!taskMap.has(depId)) {
-                feedback.push(`Task "${task.name}" depends on non-existent task ID: ${depId}`);
-                continue;
-            }
-            
-            // Add edge from dependency to current task
-            adjList.get(depId)!.push(task.id);
-            inDegree.set(task.id, inDegree.get(task.id)! + 1);
-        }
-    }
-    
-    // Kahn's algorithm
-    const queue: string[] = [];
-    const result: Task[] = [];
-    
-    // Find all nodes with no incoming edges
-    for (const [taskId, degree] of inDegree) {
-        if (degree === 0) {
-            queue.push(taskId);
-        }
-    }
-    
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const currentTask = taskMap.get(currentId)!;
-        result.push(currentTask);
-        
-        // Remove this node from the graph
-        for (const neighborId of adjList.get(currentId)!) {
-            inDegree.set(neighborId, inDegree.get(neighborId)! - 1);
-            if (inDegree.get(neighborId) === 0) {
-                queue.push(neighborId);
-            }
-        }
-    }
-    
-    // Check for cycles
-    if (result.length !== tasks.length) {
-        feedback.push('Cycle detected in task dependencies - workflow cannot be executed');
-        return { sortedTasks: [], feedback };
-    }
-    
-    return { sortedTasks: result, feedback };
+    return result.text;
 };
 
 /**
@@ -221,8 +188,39 @@ const resolveTaskInputs = (task: Task, dataStore: DataStore): { resolvedInputs:
     return { resolvedInputs, interpolatedPrompt };
 };
 
+/**
+ * Renders the inheritance and partials of a linked prompt, as the library does, and fills the task's data into the
+ * rendered text. A child prompt that leaves its text or SFL fields empty gets those of its bases.
+ */
+const renderLinkedPrompt = async (prompt: PromptSFL, data: DataStore, userId?: string): Promise<PromptSFL> => {
+    const rendered = await PromptCompositionService.renderPrompt(prompt, userId);
+    const promptText = templateString(rendered.promptText, data);
+    return {
+        ...prompt,
+        sflField: rendered.sflField,
+        sflTenor: rendered.sflTenor,
+        sflMode: rendered.sflMode,
+        variables: rendered.variables,
+        promptText: typeof promptText === 'string' ? promptText : JSON.stringify(promptText, null, 2),
+    };
+};
+
+/**
+ * What a task needs besides its own prompt: the user running it, whose snippets and prompts linked prompts may
+ * include, the prompts a MAP task's subtasks link to, where to report each of its items, and the provider keys
+ * the user stored in their session for LLM_PROMPT tasks.
+ */
+export interface TaskExecutionContext {
+    userId?: string;
+    prompts?: PromptSFL[];
+    onMapItem?: (progress: MapItemProgress) => void;
+    sessionKeys?: Pick<SessionAwareRequest, 'sessionApiKeys' | 'sessionBaseUrls'>;
+    /** The limiter the subtasks of a MAP task take their slots from, shared with the other tasks of the worker */
+    taskLimiter?: ConcurrencyLimiter;
+}
+
 class WorkflowExecutionService {
-    async executeTask(task: Task, dataStore: DataStore, prompt?: PromptSFL): Promise<any> {
+    async executeTask(task: Task, dataStore: DataStore, prompt?: PromptSFL, context: TaskExecutionContext = {}): Promise<any> {
         // Resolve task inputs and interpolate templates
         const { resolvedInputs, interpolatedPrompt } = resolveTaskInputs(task, dataStore);
 
@@ -239,23 +237,12 @@ class WorkflowExecutionService {
                     if (!prompt) {
                         throw new Error(`Task "${task.name}" requires prompt ID "${task.promptId}" but no prompt was provided.`);
                     }
-                    const linkedPrompt = prompt;
-                    
-                    const { sflTenor, sflMode } = linkedPrompt;
-                    
-                    const instructionParts = [];
-                    if (sflTenor.aiPersona) instructionParts.push(`You will act as a ${sflTenor.aiPersona}.`);
-                    if (sflTenor.desiredTone) instructionParts.push(`Your tone should be ${sflTenor.desiredTone}.`);
-                    if (sflTenor.targetAudience?.length) instructionParts.push(`You are writing for ${sflTenor.targetAudience.join(', ')}.`);
-                    if (sflMode.textualDirectives) instructionParts.push(`Follow these directives: ${sflMode.textualDirectives}.`);
+                    // Render the prompt with the resolved inputs, then lay the SFL fields out for Gemini
+                    const linkedPrompt = await renderLinkedPrompt(prompt, { ...dataStore, ...resolvedInputs }, context.userId);
+                    const compiled = PromptCompilerService.compile(linkedPrompt, 'gemini');
+                    const finalAgentConfig = { ...task.agentConfig, systemInstruction: compiled.system };
                     
-                    const systemInstruction = instructionParts.join(' ');
-                    
-                    // Use enhanced interpolation with resolved inputs
-                    const finalPromptText = templateString(linkedPrompt.promptText, { ...dataStore, ...resolvedInputs });
-                    const finalAgentConfig = { ...task.agentConfig, systemInstruction };
-                    
-                    return executeGeminiPrompt(finalPromptText, finalAgentConfig);
+                    return executeGeminiPrompt(compiled.user, finalAgentConfig);
 
                 } else {
                     if (!interpolatedPrompt) throw new Error("Prompt template is missing for non-linked prompt task.");
@@ -290,9 +277,39 @@ class WorkflowExecutionService {
                 return executeImageAnalysis(interpolatedPrompt, imagePart, task.agentConfig);
             }
 
+            case 'LLM_PROMPT': {
+                const agentConfig = task.agentConfig;
+                if (!agentConfig?.provider) throw new Error("Provider is missing.");
+
+                if (task.promptId) {
+                    if (!prompt) {
+                        throw new Error(`Task "${task.name}" requires prompt ID "${task.promptId}" but no prompt was provided.`);
+                    }
+                    const linkedPrompt = await renderLinkedPrompt(prompt, { ...dataStore, ...resolvedInputs }, context.userId);
+                    const compiled = PromptCompilerService.compile(linkedPrompt, COMPILE_FORMATS[agentConfig.provider]);
+
+                    return executeLLMPrompt(compiled.user, agentConfig, compiled.system, context.sessionKeys);
+                }
+                if (!interpolatedPrompt) throw new Error("Prompt template is missing for non-linked prompt task.");
+                return executeLLMPrompt(interpolatedPrompt, agentConfig, agentConfig.systemInstruction, context.sessionKeys);
+            }
+
             case 'TEXT_MANIPULATION':
                 if (!task.functionBody) throw new Error("Function body is missing.");
-                return executeTextManipulation(task.functionBody, resolvedInputs);
+                return runTextManipulation(task.functionBody, resolvedInputs);
+
+            case 'CONDITION':
+                // The value selects the branch; runTaskGraph skips the dependents on the other branches
+                if (!task.condition) throw new Error("Condition is missing.");
+                return evaluateCondition(task.condition, dataStore);
+
+            case 'MAP':
+                return runMapTask(task, dataStore, (subtask, itemStore) => this.executeTask(
+                    subtask,
+                    itemStore,
+                    subtask.promptId ? context.prompts?.find(p => p.id === subtask.promptId) : undefined,
+                    { userId: context.userId, prompts: context.prompts, sessionKeys: context.sessionKeys, taskLimiter: context.taskLimiter }
+                ), context.onMapItem, context.taskLimiter);
 
             default:
                 throw new Error(`Unsupported task type: ${task.type}`);
@@ -300,7 +317,8 @@ class WorkflowExecutionService {
     }
 
     /**
-     * Executes a complete workflow with proper dependency resolution
+     * Executes a complete workflow with proper dependency resolution. Independent tasks run concurrently,
+     * up to `WORKFLOW_TASK_CONCURRENCY` at a time. Tasks skipped by a condition store `null` as their output.
      * @param workflow The workflow to execute
      * @param userInput Initial user input
      * @param prompts Array of available prompts
@@ -311,19 +329,12 @@ class WorkflowExecutionService {
         userInput: Record<string, any> = {}, 
         prompts: PromptSFL[] = []
     ): Promise<{ dataStore: DataStore, results: Record<string, any>, feedback: string[] }> {
-        // Perform topological sort to determine execution order
-        const { sortedTasks, feedback } = topologicalSort(workflow.tasks || []);
-        
-        if (sortedTasks.length === 0) {
-            throw new Error('Cannot execute workflow: ' + feedback.join(', '));
-        }
-
         // Initialize data store with user input
         const dataStore: DataStore = { userInput };
         const results: Record<string, any> = {};
 
-        // Execute tasks in topologically sorted order
-        for (const task of sortedTasks) {
+        // Execute each task as soon as the tasks it depends on have finished
+        await runTaskGraph(workflow.tasks || [], async task => {
             try {
                 // Find linked prompt if task has one
                 const linkedPrompt = task.promptId 
@@ -331,19 +342,26 @@ class WorkflowExecutionService {
                     : undefined;
 
                 // Execute the task
-                const result = await this.executeTask(task, dataStore, linkedPrompt);
+                const result = await this.executeTask(task, dataStore, linkedPrompt, { prompts });
                 
                 // Store result in data store for subsequent tasks
                 dataStore[task.outputKey] = result;
                 results[task.id] = result;
+                return result;
 
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 throw new Error(`Task "${task.name}" failed: ${errorMessage}`);
             }
-        }
-
-        return { dataStore, results, feedback };
+        }, {
+            concurrency: config.workflowTaskConcurrency,
+            onSkip: task => {
+                dataStore[task.outputKey] = null;
+                results[task.id] = null;
+            },
+        });
+
+        return { dataStore, results, feedback: topologicalSort(workflow.tasks || []).feedback };
     }
 }
 
@@ -3,6 +3,7 @@
  * @description This service handles all business logic and database operations related to workflows.
  * It provides methods for creating, retrieving, updating, and deleting workflows.
  * Workflows contain task definitions and their execution logic stored as JSON in the graph_data column.
+ * Deleted workflows go to the trash first, where they can be restored or purged.
  *
  * @requires ../config/database
  * @requires ../types
@@ -55,7 +56,7 @@ class WorkflowService {
   }
 
   /**
-   * Retrieves all workflows from the database.
+   * Retrieves all workflows that are not in the trash.
    * Returns workflows ordered by most recently updated first.
    * 
    * @returns {Promise<Workflow[]>} A promise that resolves to an array of workflows.
@@ -71,7 +72,7 @@ class WorkflowService {
    */
   async getWorkflows(): Promise<Workflow[]> {
     const pool = await getPool();
-    const result = await pool.query('SELECT * FROM workflows ORDER BY updated_at DESC');
+    const result = await pool.query('SELECT * FROM workflows WHERE deleted_at IS NULL ORDER BY updated_at DESC');
     return result.rows;
   }
 
@@ -79,7 +80,7 @@ class WorkflowService {
    * Retrieves a single workflow by its ID.
    * 
    * @param {string} id - The UUID of the workflow to retrieve.
-   * @returns {Promise<Workflow | null>} A promise that resolves to the workflow, or null if not found.
+   * @returns {Promise<Workflow | null>} A promise that resolves to the workflow, or null if not found or in the trash.
    * 
    * @example
    * ```typescript
@@ -94,7 +95,7 @@ class WorkflowService {
    */
   async getWorkflowById(id: string): Promise<Workflow | null> {
     const pool = await getPool();
-    const result = await pool.query('SELECT * FROM workflows WHERE id = $1', [id]);
+    const result = await pool.query('SELECT * FROM workflows WHERE id = $1 AND deleted_at IS NULL', [id]);
     return result.rows[0] || null;
   }
 
@@ -105,7 +106,7 @@ class WorkflowService {
    * 
    * @param {string} id - The UUID of the workflow to update.
    * @param {Partial<Workflow>} workflowData - An object containing the fields to update.
-   * @returns {Promise<Workflow | null>} A promise that resolves to the updated workflow, or null if not found.
+   * @returns {Promise<Workflow | null>} A promise that resolves to the updated workflow, or null if not found or in the trash.
    * 
    * @example
    * ```typescript
@@ -124,7 +125,7 @@ class WorkflowService {
   async updateWorkflow(id: string, workflowData: Partial<Workflow>): Promise<Workflow | null> {
     // First, fetch the existing workflow from the database
     const pool = await getPool();
-    const existing = await pool.query('SELECT * FROM workflows WHERE id = $1', [id]);
+    const existing = await pool.query('SELECT * FROM workflows WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (!existing.rows[0]) return null;
 
     // Create a merged object by combining existing data with new data
@@ -140,16 +141,16 @@ class WorkflowService {
   }
 
   /**
-   * Deletes a workflow from the database.
+   * Moves a workflow to the trash. It stays restorable until it is purged by hand or the trash retention period passes.
    * 
    * @param {string} id - The UUID of the workflow to delete.
-   * @returns {Promise<boolean>} A promise that resolves to true if the deletion was successful, false if the workflow was not found.
+   * @returns {Promise<boolean>} A promise that resolves to true if the workflow was moved to the trash, false if the workflow was not found.
    * 
    * @example
    * ```typescript
    * const deleted = await workflowService.deleteWorkflow('123e4567-e89b-12d3-a456-426614174000');
    * if (deleted) {
-   *   console.log('Workflow successfully deleted');
+   *   console.log('Workflow moved to the trash');
    * } else {
    *   console.log('Workflow not found');
    * }
@@ -159,9 +160,82 @@ class WorkflowService {
    */
   async deleteWorkflow(id: string): Promise<boolean> {
     const pool = await getPool();
-    const result = await pool.query('DELETE FROM workflows WHERE id = $1', [id]);
+    const result = await pool.query('UPDATE workflows SET deleted_at = now() WHERE id = $1 AND deleted_at IS NULL', [id]);
     return !!result.rowCount;
   }
+
+  /**
+   * Lists a user's workflows in the trash, most recently deleted first.
+   * 
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<Workflow[]>} A promise that resolves to the trashed workflows.
+   * @since 0.6.0
+   */
+  async listDeletedWorkflows(userId: string): Promise<Workflow[]> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'SELECT * FROM workflows WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Takes a workflow out of the trash.
+   * 
+   * @param {string} id - The UUID of the trashed workflow.
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<Workflow | null>} A promise that resolves to the restored workflow, or null if the user has no such workflow in the trash.
+   * @since 0.6.0
+   */
+  async restoreWorkflow(id: string, userId: string): Promise<Workflow | null> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'UPDATE workflows SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING *',
+      [id, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Permanently deletes a workflow that is in the trash.
+   * 
+   * @param {string} id - The UUID of the trashed workflow.
+   * @param {string} userId - The ID of the owner.
+   * @returns {Promise<boolean>} A promise that resolves to true if the workflow was purged, false if the user has no such workflow in the trash.
+   * @since 0.6.0
+   */
+  async purgeWorkflow(id: string, userId: string): Promise<boolean> {
+    const pool = await getPool();
+    const result = await pool.query(
+      'DELETE FROM workflows WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL',
+      [id, userId]
+    );
+    return !!result.rowCount;
+  }
+
+  /**
+   * Finds the workflows, outside the trash, with a task that runs the given prompt through its `promptId`.
+   * 
+   * @param {string} promptId - The UUID of the prompt.
+   * @returns {Promise<Array<Pick<Workflow, 'id' | 'name'>>>} A promise that resolves to the workflows, ordered by name.
+   * 
+   * @example
+   * ```typescript
+   * const affected = await workflowService.findWorkflowsUsingPrompt(promptId);
+   * if (affected.length > 0) console.warn(`Used by ${affected.map(wf => wf.name).join(', ')}`);
+   * ```
+   * 
+   * @since 0.6.0
+   */
+  async findWorkflowsUsingPrompt(promptId: string): Promise<Array<Pick<Workflow, 'id' | 'name'>>> {
+    const pool = await getPool();
+    const result = await pool.query(
+      `SELECT id, name FROM workflows WHERE deleted_at IS NULL AND graph_data->'tasks' @> $1::jsonb ORDER BY lower(name)`,
+      [JSON.stringify([{ promptId }])]
+    );
+    return result.rows;
+  }
 }
 
 /**
@@ -0,0 +1,95 @@
+/**
+ * @file conditionExpression.test.ts
+ * @description Test suite for the expression language of CONDITION tasks
+ * Tests evaluation over the DataStore, strict comparison, branch naming, syntax errors and workflow validation
+ */
+
+import { branchKey, evaluateCondition, parseCondition } from '../services/workflow/conditionExpression';
+import { validateWorkflow } from '../validation/workflowSchemas';
+
+const dataStore = {
+  userInput: { text: 'Please refund my order' },
+  sentiment: '  Negative\n',
+  score: '7.5',
+  tags: ['billing', 'urgent'],
+  review: { stars: 2 },
+};
+
+describe('evaluateCondition', () => {
+  it('should read DataStore paths and apply functions and operators', () => {
+    expect(evaluateCondition("trim(lower(sentiment)) == 'negative'", dataStore)).toBe(true);
+    expect(evaluateCondition('number(score) >= 7 && review.stars < 3', dataStore)).toBe(true);
+    expect(evaluateCondition("contains(tags, 'urgent') || startsWith(userInput.text, 'Hi')", dataStore)).toBe(true);
+    expect(evaluateCondition('!(length(tags) == 2)', dataStore)).toBe(false);
+    expect(evaluateCondition('-review.stars < -1', dataStore)).toBe(true);
+    expect(evaluateCondition('upper("a\\"b")', dataStore)).toBe('A"B');
+  });
+
+  it('should read missing paths as null and compare without converting types', () => {
+    expect(evaluateCondition('missing.key == null', dataStore)).toBe(true);
+    expect(evaluateCondition('score == 7.5', dataStore)).toBe(false);
+    expect(evaluateCondition("review.stars != '2'", dataStore)).toBe(true);
+  });
+
+  it('should refuse to order values of different types', () => {
+    expect(() => evaluateCondition('score > 7', dataStore)).toThrow('Cannot compare string with number in condition');
+    expect(() => evaluateCondition('missing < 1', dataStore)).toThrow('Cannot compare null with number in condition');
+  });
+
+  it('should only reach the DataStore, not the host environment', () => {
+    expect(evaluateCondition('constructor', dataStore)).toBeNull();
+    expect(() => evaluateCondition("process.exit(1)", dataStore)).toThrow('Unexpected "(" in condition');
+    expect(() => evaluateCondition('eval(score)', dataStore)).toThrow('Unknown function "eval" in condition');
+  });
+});
+
+describe('parseCondition', () => {
+  it.each([
+    ['', 'The condition is empty'],
+    ['score >', 'The condition ends unexpectedly'],
+    ['(score > 1', 'Expected ")" in condition'],
+    ["lower('a', 'b')", 'lower() takes 1 argument'],
+    ['score = 1', 'Unexpected character "=" in condition'],
+    ["'open", 'Unterminated string in condition'],
+    ['a b', 'Unexpected "b" in condition'],
+  ])('should reject %p', (expression, message) => {
+    expect(() => parseCondition(expression)).toThrow(message);
+  });
+
+  it('should reject conditions longer than 500 characters', () => {
+    expect(() => parseCondition(`a == '${'x'.repeat(500)}'`)).toThrow('A condition may be at most 500 characters long');
+  });
+});
+
+describe('branchKey', () => {
+  it('should name branches after the value of the condition', () => {
+    expect([true, false, null, 3, 'high', { a: 1 }].map(branchKey)).toEqual(['true', 'false', 'null', '3', 'high', '{"a":1}']);
+  });
+});
+
+describe('validateWorkflow with CONDITION tasks', () => {
+  const workflow = (condition: Record<string, unknown>) => ({
+    name: 'Triage',
+    description: 'Routes reviews by sentiment',
+    tasks: [
+      { id: 'check', name: 'Check', description: 'Is it negative?', type: 'CONDITION', outputKey: 'negative', ...condition },
+      { id: 'apologise', name: 'Apologise', description: 'Draft an apology', type: 'DATA_INPUT', staticValue: 'Sorry', dependencies: ['check'], outputKey: 'apology' },
+      { id: 'thank', name: 'Thank', description: 'Draft a thank-you', type: 'DATA_INPUT', staticValue: 'Thanks', outputKey: 'thanks' },
+    ],
+  });
+
+  it('should accept a condition whose branches list tasks depending on it', () => {
+    expect(validateWorkflow(workflow({ condition: "sentiment == 'negative'", branches: { true: ['apologise'] } })).success).toBe(true);
+  });
+
+  it('should report syntax errors, missing fields and branches to tasks that do not depend on the condition', () => {
+    expect(validateWorkflow(workflow({ condition: 'sentiment ==' })).errors).toEqual([
+      'tasks.0.condition: The condition ends unexpectedly',
+      "tasks.0.branches: Task type 'CONDITION' requires a 'branches' field",
+    ]);
+    expect(validateWorkflow(workflow({ condition: 'true', branches: { true: ['apologise'], false: ['thank', 'apologise'] } })).errors).toEqual([
+      "tasks.0.branches.false.0: Task 'thank' must depend on condition 'check' to be on one of its branches",
+      "tasks.0.branches.false.1: Task 'apologise' is on more than one branch of condition 'check'",
+    ]);
+  });
+});
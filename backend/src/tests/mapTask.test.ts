@@ -0,0 +1,146 @@
+/**
+ * @file mapTask.test.ts
+ * @description Test suite for MAP tasks, which run a sub-graph of subtasks for every item of an array
+ * Tests result ordering, bounded concurrency, per-item progress, failure handling and validation
+ */
+
+import { MapItemProgress, runMapTask } from '../services/workflow/mapTask';
+import { ConcurrencyLimiter, runTaskGraph } from '../services/workflow/taskGraph';
+import { validateWorkflow } from '../validation/workflowSchemas';
+import { DataStore, Task, TaskType } from '../types';
+
+const subtask = (id: string, dependencies: string[] = [], extra: Partial<Task> = {}): Task => ({
+  id,
+  name: `Subtask ${id}`,
+  description: '',
+  type: TaskType.DATA_INPUT,
+  dependencies,
+  inputKeys: [],
+  outputKey: id,
+  ...extra,
+});
+
+const mapTask = (subtasks: Task[], extra: Partial<Task> = {}): Task => ({
+  id: 'map',
+  name: 'Summarize sections',
+  description: '',
+  type: TaskType.MAP,
+  dependencies: [],
+  inputKeys: [],
+  outputKey: 'summaries',
+  itemsKey: 'extracted.sections',
+  subtasks,
+  ...extra,
+});
+
+const dataStore: DataStore = { extracted: { sections: ['intro', 'methods', 'results', 'discussion', 'appendix'] } };
+
+describe('runMapTask', () => {
+  it('should collect the result of each item in item order with no more items running than its concurrency', async () => {
+    // Earlier items take longer, so they finish last
+    const delays = [40, 30, 20, 10, 0];
+    let running = 0;
+    let maxRunning = 0;
+    const progress: MapItemProgress[] = [];
+
+    const results = await runMapTask(
+      mapTask([subtask('shout'), subtask('tag', ['shout'])], { concurrency: 2 }),
+      dataStore,
+      async (task, itemStore) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, delays[itemStore.itemIndex]));
+        running--;
+        return task.id === 'shout' ? itemStore.item.toUpperCase() : `${itemStore.itemIndex}:${itemStore.shout}`;
+      },
+      item => progress.push(item)
+    );
+
+    expect(results).toEqual(['0:INTRO', '1:METHODS', '2:RESULTS', '3:DISCUSSION', '4:APPENDIX']);
+    expect(maxRunning).toBe(2);
+    expect(progress.filter(item => item.status === 'running')).toHaveLength(5);
+    expect(progress).toContainEqual({ index: 4, total: 5, status: 'completed', result: '4:APPENDIX' });
+  });
+
+  it('should give an item a null result when a condition skips its result subtask', async () => {
+    const results = await runMapTask(
+      mapTask([
+        subtask('long', [], { type: TaskType.CONDITION, branches: { true: ['keep'] } }),
+        subtask('keep', ['long']),
+      ]),
+      dataStore,
+      async (task, itemStore) => (task.id === 'long' ? itemStore.item.length > 6 : itemStore.item)
+    );
+
+    expect(results).toEqual([null, 'methods', 'results', 'discussion', 'appendix']);
+  });
+
+  it('should start no further items after one fails and report which item failed', async () => {
+    const started: number[] = [];
+
+    await expect(runMapTask(mapTask([subtask('check')], { concurrency: 1 }), dataStore, async (_task, itemStore) => {
+      started.push(itemStore.itemIndex);
+      if (itemStore.item === 'methods') throw new Error('Section is empty');
+      return itemStore.item;
+    })).rejects.toThrow('Item 1: Section is empty');
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('should take a slot of the shared limiter for every subtask without the MAP task holding one', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+    const runSubtask = async (_task: Task, itemStore: DataStore) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return itemStore.item;
+    };
+
+    // Two MAP tasks of a graph under a limit of two would wait forever if each held a slot for itself
+    const results: Record<string, unknown> = {};
+    await runTaskGraph(
+      [mapTask([subtask('a')], { id: 'first', concurrency: 4 }), mapTask([subtask('b')], { id: 'second', concurrency: 4 })],
+      async task => {
+        results[task.id] = await runMapTask(task, dataStore, runSubtask, undefined, limiter);
+      },
+      { concurrency: 2, limiter }
+    );
+
+    expect(results.first).toEqual(dataStore.extracted.sections);
+    expect(results.second).toEqual(dataStore.extracted.sections);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should refuse to run over anything but an array', async () => {
+    await expect(runMapTask(mapTask([subtask('a')], { itemsKey: 'extracted' }), dataStore, jest.fn()))
+      .rejects.toThrow('"extracted" is not an array in the Data Store.');
+  });
+});
+
+describe('validateWorkflow with MAP tasks', () => {
+  const workflow = (task: Record<string, unknown>) => ({
+    name: 'Section summaries',
+    description: 'Summarizes every section',
+    tasks: [{ id: 'map', name: 'Map', description: 'Summarize each section', type: 'MAP', outputKey: 'summaries', itemsKey: 'sections', ...task }],
+  });
+  const summarize = { id: 'summarize', name: 'Summarize', description: 'Summarize one section', type: 'GEMINI_PROMPT', outputKey: 'summary', promptTemplate: 'Summarize {{item}}' };
+
+  it('should accept a MAP task with a valid sub-graph', () => {
+    expect(validateWorkflow(workflow({ subtasks: [summarize], concurrency: 3 })).success).toBe(true);
+  });
+
+  it('should validate the subtasks as tasks of their own sub-graph', () => {
+    expect(validateWorkflow(workflow({ subtasks: [{ ...summarize, promptTemplate: undefined }] })).errors).toEqual([
+      "tasks.0.subtasks.0.promptTemplate: Task type 'GEMINI_PROMPT' requires a 'promptTemplate' field",
+    ]);
+    expect(validateWorkflow(workflow({ subtasks: [summarize, { ...summarize, id: 'other' }] })).errors).toEqual([
+      'tasks.0.subtasks: The subtasks must end in a single task whose output is the result of each item',
+    ]);
+    expect(validateWorkflow(workflow({ subtasks: [{ ...summarize, dependencies: ['map'] }], concurrency: 50 })).errors).toEqual([
+      'tasks.0.concurrency: concurrency must be <= 20',
+      "tasks.0.subtasks.0.dependencies.0: Subtask 'summarize' references 'map', which is not a subtask of the same MAP task",
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @file mockDatabase.ts
+ * @description Shared setup for the API tests that run against a mocked database.
+ * Provides the pool every `getPool()` call resolves to and a helper to sign requests in as a user.
+ * A test file must mock the database module itself, before importing this one:
+ *
+ * ```typescript
+ * jest.mock('../config/database', () => jest.fn());
+ *
+ * import { mockQuery, authAs } from '../tests/mockDatabase';
+ * ```
+ */
+
+import jwt from 'jsonwebtoken';
+import getPool from '../config/database';
+
+/** The pool handed out by the mocked `getPool` */
+export const mockPool = {
+  query: jest.fn(),
+  end: jest.fn(),
+  on: jest.fn(),
+} as any;
+(getPool as jest.MockedFunction<typeof getPool>).mockResolvedValue(mockPool);
+
+/** The `query` function of the mocked pool, to queue results on and inspect calls to */
+export const mockQuery = mockPool.query as jest.MockedFunction<any>;
+
+/**
+ * Builds an Authorization header for the given user and queues the user lookup
+ * the auth middleware performs, so it must be called before any other query mocks.
+ */
+export const authAs = (userId: string, email = 'user@example.com') => {
+  mockQuery.mockResolvedValueOnce({ rows: [{ id: userId, email }] });
+  const secret = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
+  return `Bearer ${jwt.sign({ userId, email }, secret)}`;
+};
@@ -0,0 +1,26 @@
+/**
+ * @file sessionApiKeys.test.ts
+ * @description Test suite for running prompts with the API keys users store in their session
+ * Tests that a key which cannot be decrypted fails the request instead of falling back to the server's key
+ */
+
+import UnifiedAIService from '../services/unifiedAIService';
+import { encryptApiKey } from '../services/apiKeyEncryption';
+
+describe('UnifiedAIService with session API keys', () => {
+  it('should fail instead of using the server key when the session key cannot be decrypted', async () => {
+    // A key encrypted under another instance's secret fails its authentication tag, as this one does
+    const stored = { ...encryptApiKey('sk-user'), timestamp: Date.now() };
+    const foreign = { ...stored, tag: '0'.repeat(stored.tag.length) };
+
+    const result = await UnifiedAIService.runPrompt('Say hello', {
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      sessionApiKeys: { openai: foreign }
+    });
+
+    expect(result.error).toBe(
+      'The openai API key stored in your session could not be decrypted. Store it again, or set API_KEY_ENCRYPTION_SECRET so that every server instance can decrypt it.'
+    );
+  });
+});
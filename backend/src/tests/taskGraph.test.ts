@@ -0,0 +1,140 @@
+/**
+ * @file taskGraph.test.ts
+ * @description Test suite for running workflow tasks as a dependency graph
+ * Tests dependency ordering, concurrency limits, failure handling, cycle detection and skipping by conditions
+ */
+
+import { ConcurrencyLimiter, runTaskGraph } from '../services/workflow/taskGraph';
+import { Task, TaskType } from '../types';
+
+const task = (id: string, dependencies: string[] = [], extra: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  type: TaskType.DATA_INPUT,
+  dependencies,
+  inputKeys: [],
+  outputKey: id,
+  ...extra,
+});
+
+/**
+ * Builds a task runner that finishes each task after the given delay and records the order of events.
+ */
+const recordingRunner = (delays: Record<string, number> = {}) => {
+  const events: string[] = [];
+  let running = 0;
+  let maxRunning = 0;
+  const runTask = async ({ id }: Task) => {
+    events.push(`start ${id}`);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise(resolve => setTimeout(resolve, delays[id] ?? 5));
+    running--;
+    events.push(`end ${id}`);
+  };
+  return { events, runTask, maxRunning: () => maxRunning };
+};
+
+describe('runTaskGraph', () => {
+  it('should run independent tasks concurrently and start a task once its dependencies finish', async () => {
+    // a fans out to b (slow) and c (fast); d needs c only, e needs b and d
+    const tasks = [task('a'), task('b', ['a']), task('c', ['a']), task('d', ['c']), task('e', ['b', 'd'])];
+    const { events, runTask, maxRunning } = recordingRunner({ b: 40 });
+
+    await runTaskGraph(tasks, runTask, { concurrency: 4 });
+
+    expect(events.slice(0, 3)).toEqual(['start a', 'end a', 'start b']);
+    expect(events.indexOf('start c')).toBeLessThan(events.indexOf('end b'));
+    expect(events.indexOf('start d')).toBeLessThan(events.indexOf('end b'));
+    expect(events.indexOf('start e')).toBeGreaterThan(events.indexOf('end b'));
+    expect(events.indexOf('start e')).toBeGreaterThan(events.indexOf('end d'));
+    expect(maxRunning()).toBe(2);
+  });
+
+  it('should not run more tasks at once than the concurrency of the graph', async () => {
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map(id => task(id));
+    const { runTask, maxRunning } = recordingRunner();
+
+    await runTaskGraph(tasks, runTask, { concurrency: 2 });
+
+    expect(maxRunning()).toBe(2);
+  });
+
+  it('should keep graphs sharing a limiter within its limit in total', async () => {
+    const limiter = new ConcurrencyLimiter(3);
+    const { runTask, maxRunning } = recordingRunner();
+
+    await Promise.all([
+      runTaskGraph(['a', 'b', 'c'].map(id => task(id)), runTask, { concurrency: 3, limiter }),
+      runTaskGraph(['d', 'e', 'f'].map(id => task(id)), runTask, { concurrency: 3, limiter }),
+    ]);
+
+    expect(maxRunning()).toBe(3);
+  });
+
+  it('should start no further tasks after a failure and throw it once running tasks finish', async () => {
+    const tasks = [task('a'), task('b'), task('c', ['a'])];
+    const events: string[] = [];
+    const runTask = async ({ id }: Task) => {
+      events.push(`start ${id}`);
+      await new Promise(resolve => setTimeout(resolve, id === 'b' ? 30 : 5));
+      if (id === 'a') throw new Error('a broke');
+      events.push(`end ${id}`);
+    };
+
+    await expect(runTaskGraph(tasks, runTask, { concurrency: 2 })).rejects.toThrow('a broke');
+    expect(events).toEqual(['start a', 'start b', 'end b']);
+  });
+
+  it('should reject a graph with a cycle without running anything', async () => {
+    const runTask = jest.fn();
+
+    await expect(runTaskGraph([task('a', ['b']), task('b', ['a'])], runTask, { concurrency: 2 }))
+      .rejects.toThrow('Cannot execute workflow: Cycle detected in task dependencies - workflow cannot be executed');
+    expect(runTask).not.toHaveBeenCalled();
+  });
+});
+
+describe('runTaskGraph with conditions', () => {
+  const condition = (id: string, branches: Record<string, string[]>, dependencies: string[] = []) =>
+    task(id, dependencies, { type: TaskType.CONDITION, condition: 'unused', branches });
+
+  it('should skip the branches a condition did not take and everything that depends only on them', async () => {
+    // check takes "false": yes and its follow-up are skipped, no runs, and join runs on no's side
+    const tasks = [
+      condition('check', { true: ['yes'], false: ['no'] }),
+      task('yes', ['check']),
+      task('yesFollowUp', ['yes']),
+      task('no', ['check']),
+      task('always', ['check']),
+      task('join', ['yesFollowUp', 'no']),
+    ];
+    const ran: string[] = [];
+    const onSkip = jest.fn();
+
+    await runTaskGraph(tasks, async ({ id }) => {
+      ran.push(id);
+      return id === 'check' ? false : id;
+    }, { concurrency: 1, onSkip });
+
+    expect(ran).toEqual(['check', 'no', 'always', 'join']);
+    expect(onSkip.mock.calls.map(([skipped, reason]) => [skipped.id, reason])).toEqual([
+      ['yes', 'Condition "Task check" took the "false" branch'],
+      ['yesFollowUp', 'All of its dependencies were skipped'],
+    ]);
+  });
+
+  it('should skip the branches of a skipped condition with it', async () => {
+    const tasks = [
+      condition('outer', { true: ['inner'] }),
+      condition('inner', { true: ['deep'] }, ['outer']),
+      task('deep', ['inner']),
+    ];
+    const onSkip = jest.fn();
+
+    await runTaskGraph(tasks, async () => 'other', { concurrency: 2, onSkip });
+
+    expect(onSkip.mock.calls.map(([skipped]) => skipped.id)).toEqual(['inner', 'deep']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @file textManipulation.test.ts
+ * @description Test suite for the sandbox that runs the functions of TEXT_MANIPULATION tasks
+ * Tests results, isolation from the host and its modules, line numbers of failures and the time and memory limits
+ */
+
+import { runTextManipulation, TextManipulationError } from '../services/workflow/textManipulation';
+
+/** Runs a function that is expected to fail and returns its error. */
+const failureOf = async (functionBody: string): Promise<TextManipulationError> => {
+  try {
+    await runTextManipulation(functionBody, {});
+  } catch (error) {
+    return error as TextManipulationError;
+  }
+  throw new Error('The function did not fail');
+};
+
+describe('runTextManipulation', () => {
+  it('should return what the function returns for its inputs', async () => {
+    await expect(runTextManipulation('return inputs.text.toUpperCase();', { text: 'refund' })).resolves.toBe('REFUND');
+    await expect(runTextManipulation(
+      'const words = inputs.text.split(" ");\nreturn { count: words.length, first: words[0] };',
+      { text: 'my order arrived broken' }
+    )).resolves.toEqual({ count: 4, first: 'my' });
+    await expect(runTextManipulation('return;', {})).resolves.toBeUndefined();
+  });
+
+  it('should give the function no way to reach the host', async () => {
+    await expect(runTextManipulation(
+      'return [typeof require, typeof process, typeof fetch, typeof setTimeout, typeof globalThis.Buffer];',
+      {}
+    )).resolves.toEqual(['undefined', 'undefined', 'undefined', 'undefined', 'undefined']);
+
+    const escape = await failureOf('return inputs.constructor.constructor("return process")();');
+    expect(escape.kind).toBe('runtime');
+    expect(escape.message).toBe('Error in custom function at line 1: Code generation from strings disallowed for this context');
+  });
+
+  it('should not let the function load modules with import()', async () => {
+    const imported = await failureOf('const modules = ["fs"];\nimport(modules[0]).then(fs => fs.readFileSync("/etc/passwd"));\nreturn 1;');
+    expect(imported.toJSON()).toEqual({
+      kind: 'runtime',
+      line: 2,
+      message: 'Error in custom function at line 2: A dynamic import callback was not specified.',
+    });
+
+    const returned = await failureOf('return import("http");');
+    expect(returned.message).toBe('Error in custom function: The function must return its result, not a promise');
+  });
+
+  it('should report the line of the function body a failure points at', async () => {
+    const syntax = await failureOf('const total = 1;\nreturn total +* 2;');
+    expect(syntax).toBeInstanceOf(TextManipulationError);
+    expect(syntax.toJSON()).toEqual({ kind: 'syntax', line: 2, message: "Error in custom function at line 2: Unexpected token '*'" });
+
+    const runtime = await failureOf('const total = 1;\n\nreturn missing + total;');
+    expect(runtime.toJSON()).toEqual({ kind: 'runtime', line: 3, message: 'Error in custom function at line 3: missing is not defined' });
+
+    const promise = await failureOf('return Promise.resolve(1);');
+    expect(promise.toJSON()).toEqual({
+      kind: 'runtime',
+      line: undefined,
+      message: 'Error in custom function: The function must return its result, not a promise',
+    });
+  });
+
+  it('should stop functions that run too long or use too much memory', async () => {
+    expect((await failureOf('while (true) {}')).toJSON()).toEqual({
+      kind: 'timeout',
+      line: undefined,
+      message: 'Custom function took longer than 1000 ms',
+    });
+    expect((await failureOf('const chunks = [];\nwhile (true) chunks.push(new Array(100000).fill(1));')).kind).toBe('memory');
+  });
+});
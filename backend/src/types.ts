@@ -5,6 +5,8 @@
  * as well as the detailed SFL-structured prompt types that align with the frontend.
  */
 
+import { AIProvider, ModelParameters } from './types/aiProvider';
+
 /**
  * @interface Prompt
  * @description Represents the structure of a prompt record in the database.
@@ -15,10 +17,38 @@ export interface Prompt {
   title: string;
   body: string;
   metadata: Record<string, any>;
+  visibility: PromptVisibility;
+  forked_from_id?: string | null;
+  forked_from_revision?: number | null;
+  locale_source_id?: string | null;
+  status?: PromptStatus;
+  reviewer_id?: string | null;
+  deleted_at?: string | null;
+  tags?: string[];
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * @type PromptVisibility
+ * @description Who can see a prompt: only its owner, the owner and the users it is shared with, or everyone.
+ */
+export type PromptVisibility = 'private' | 'shared' | 'public';
+
+/**
+ * @type PromptAccess
+ * @description How the requesting user relates to a prompt. Owners can do everything, users a prompt is
+ * shared with can read and edit it, and everyone else can only read public prompts.
+ */
+export type PromptAccess = 'owner' | 'shared' | 'public';
+
+/**
+ * @type PromptStatus
+ * @description Where a prompt is in its review lifecycle. Drafts are sent for review, the assigned reviewer
+ * approves them, and approved prompts can later be deprecated.
+ */
+export type PromptStatus = 'draft' | 'in_review' | 'approved' | 'deprecated';
+
 /**
  * @interface SFLField
  * @description Defines the structure for the "Field" component of the SFL framework.
@@ -55,10 +85,35 @@ export interface SFLMode {
   textualDirectives: string;
 }
 
+/**
+ * @type PromptVariableType
+ * @description The input types a prompt template variable can declare.
+ */
+export type PromptVariableType = 'string' | 'number' | 'enum' | 'multiline' | 'file';
+
+/**
+ * @interface PromptVariable
+ * @description Declares a `{{placeholder}}` used in a prompt's text. Aligns with the frontend `PromptVariable` type.
+ * `options` lists the allowed values of an `enum` variable.
+ */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  required: boolean;
+  defaultValue?: string;
+  description?: string;
+  options?: string[];
+}
+
 /**
  * @interface PromptSFL
  * @description Represents a complete SFL-structured prompt, aligning with the frontend `PromptSFL` type.
  * This is the primary data structure for prompts used in the API.
+ * `extendsId` names the base prompt whose text, SFL fields and variables fill in whatever this prompt leaves empty.
+ * `forkedFromId` and `forkedFromRevision` record the prompt and revision a fork was copied from; they are set by the server.
+ * `status` and `reviewerId` are changed only through the review endpoints.
+ * `locale` is a BCP 47 language tag such as `de-DE`; `localeSourceId` is set by the server on translated
+ * variants and names the source prompt they were translated from.
  */
 export interface PromptSFL {
   id: string;
@@ -67,8 +122,21 @@ export interface PromptSFL {
   sflField: SFLField;
   sflTenor: SFLTenor;
   sflMode: SFLMode;
+  variables?: PromptVariable[];
+  extendsId?: string;
+  forkedFromId?: string;
+  forkedFromRevision?: number;
+  status?: PromptStatus;
+  reviewerId?: string;
+  locale?: string;
+  localeSourceId?: string;
   exampleOutput?: string;
   notes?: string;
+  ownerId?: string;
+  visibility?: PromptVisibility;
+  access?: PromptAccess;
+  sharedWith?: string[];
+  tags?: string[];
   createdAt: string;
   updatedAt: string;
   geminiResponse?: string;
@@ -80,6 +148,558 @@ export interface PromptSFL {
   };
 }
 
+/**
+ * @type PromptSortField
+ * @description The orderings supported when listing prompts. `relevance` requires a search term.
+ */
+export type PromptSortField = 'updatedAt' | 'createdAt' | 'title' | 'relevance';
+
+/**
+ * @interface PromptQuery
+ * @description Validated options for listing prompts, mirroring the frontend `Filters`
+ * plus sorting and cursor pagination. `scope` narrows the list to the viewer's own prompts
+ * or to prompts other users have shared with them. `tag` keeps prompts carrying that tag name, and
+ * `collection` keeps prompts in that collection or any collection nested inside it, and `locale` keeps
+ * prompts in that language.
+ */
+export interface PromptQuery {
+  searchTerm?: string;
+  topic?: string;
+  taskType?: string;
+  aiPersona?: string;
+  outputFormat?: string;
+  scope?: 'mine' | 'shared';
+  tag?: string;
+  collection?: string;
+  locale?: string;
+  sort: PromptSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: { sortKey: string; id: string };
+}
+
+/**
+ * @interface PromptPage
+ * @description A single page of prompts. `nextCursor` is null on the last page and
+ * `total` counts every prompt matching the filters, across all pages.
+ */
+export interface PromptPage {
+  items: PromptSFL[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * @interface SemanticSearchResult
+ * @description A prompt returned by semantic search together with its cosine similarity to the query.
+ */
+export interface SemanticSearchResult {
+  prompt: PromptSFL;
+  similarity: number;
+}
+
+/**
+ * @interface Tag
+ * @description A tag used to label prompts, with the number of prompts carrying it.
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  createdBy: string | null;
+  promptCount: number;
+  createdAt: string;
+}
+
+/**
+ * @interface Collection
+ * @description A user's folder of prompts. Collections nest through `parentId`, which is null at the top level.
+ * `promptCount` only counts prompts placed directly in the collection.
+ */
+export interface Collection {
+  id: string;
+  parentId: string | null;
+  name: string;
+  promptCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface PromptSnippet
+ * @description A reusable piece of prompt text owned by one user, pulled into that user's prompts with a `{{> name}}` partial.
+ */
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface RenderedPrompt
+ * @description A prompt with its inheritance and partials resolved, as it is sent to a model.
+ * `inheritanceChain` lists the prompt's ID followed by the IDs of its bases, nearest first;
+ * `partials` lists the names of the partials that were expanded, in order of first use.
+ */
+export interface RenderedPrompt {
+  promptText: string;
+  sflField: SFLField;
+  sflTenor: SFLTenor;
+  sflMode: SFLMode;
+  variables: PromptVariable[];
+  inheritanceChain: string[];
+  partials: string[];
+}
+
+/**
+ * @type PromptCompileFormat
+ * @description The message layouts a prompt can be compiled into before it is sent to a model.
+ * `plain` sends the prompt text alone; the others carry the SFL fields in the layout each provider handles best.
+ */
+export type PromptCompileFormat = 'plain' | 'anthropic' | 'openai' | 'gemini';
+
+/**
+ * @interface CompiledPrompt
+ * @description A prompt compiled for a provider: the system message, the user message, and the
+ * request body fragment the provider receives them in. `system` is empty when there is nothing to put there.
+ */
+export interface CompiledPrompt {
+  format: PromptCompileFormat;
+  system: string;
+  user: string;
+  request: Record<string, any>;
+}
+
+/**
+ * @type PromptExchangeFormat
+ * @description The interchange formats prompts can be imported from and exported to:
+ * the native JSON array, Markdown with YAML front matter, OpenAI chat-message JSON, and a promptfoo prompt file.
+ */
+export type PromptExchangeFormat = 'json' | 'markdown' | 'openai' | 'promptfoo';
+
+/**
+ * @type ImportConflictStrategy
+ * @description What to do with an imported prompt whose ID matches an existing prompt:
+ * leave the existing prompt alone, overwrite it, or import the prompt as a new copy.
+ */
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'copy';
+
+/**
+ * @interface PromptImportItem
+ * @description The outcome, planned or actual, for one prompt found in an import file.
+ * `status` explains the `action`: `conflict` means the ID matches an existing prompt (`existingId`),
+ * `duplicate` means an identical prompt already exists in the library or earlier in the file.
+ * `promptId` is only set once the prompt has been written.
+ */
+export interface PromptImportItem {
+  index: number;
+  title: string;
+  sourceId?: string;
+  status: 'new' | 'conflict' | 'duplicate' | 'invalid';
+  action: 'create' | 'update' | 'skip';
+  existingId?: string;
+  promptId?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * @interface PromptImportResult
+ * @description The report of an import. A dry run describes what would happen without writing anything.
+ */
+export interface PromptImportResult {
+  format: PromptExchangeFormat;
+  dryRun: boolean;
+  summary: { create: number; update: number; skip: number };
+  items: PromptImportItem[];
+}
+
+/**
+ * @interface SFLFieldSuggestion
+ * @description An SFL field inferred from the text of a prompt that leaves it empty. `field` is the field's path,
+ * e.g. `sflTenor.desiredTone`; audiences are given as a comma-separated list. `confidence` runs from 0 (a guess)
+ * to 1 (stated outright by the prompt).
+ */
+export interface SFLFieldSuggestion {
+  field: string;
+  value: string;
+  confidence: number;
+}
+
+/**
+ * @interface PromptAnnotationItem
+ * @description The SFL fields suggested for one prompt of an import file, identified by its `index` in the file.
+ * `error` is set instead when the prompt cannot be imported or the model failed to annotate it.
+ */
+export interface PromptAnnotationItem {
+  index: number;
+  title: string;
+  suggestions: SFLFieldSuggestion[];
+  error?: string;
+}
+
+/**
+ * @interface PromptExport
+ * @description An exported prompt file, ready to be sent as a download.
+ */
+export interface PromptExport {
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * @type LintSeverity
+ * @description How serious a lint finding is. Errors make the prompt unusable as written,
+ * warnings point at likely inconsistencies, and info notes suggest improvements.
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * @interface LintDiagnostic
+ * @description A single finding of the prompt linter. `field` is the dotted path of the prompt field
+ * the finding is about (e.g. `sflMode.outputFormat`), so that editors can show it next to that field.
+ */
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  field?: string;
+}
+
+/**
+ * @type EvalAssertion
+ * @description A check applied to the output of one evaluation test case.
+ * `contains` looks for a substring, `regex` matches a pattern, `json-schema` parses the output as JSON and
+ * validates it, `max-length` limits the number of characters, and `llm-rubric` asks a judge model to grade
+ * the output against a rubric, passing when the score reaches `threshold` (0.5 by default).
+ */
+export type EvalAssertion =
+  | { type: 'contains'; value: string; caseSensitive?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json-schema'; schema: Record<string, unknown> }
+  | { type: 'max-length'; value: number }
+  | { type: 'llm-rubric'; rubric: string; threshold?: number };
+
+/**
+ * @type EvalAssertionType
+ * @description The kinds of assertion an evaluation test case can make.
+ */
+export type EvalAssertionType = EvalAssertion['type'];
+
+/**
+ * @interface EvalTestCase
+ * @description One test case of an evaluation suite: the values filled into the prompt's variables
+ * and the assertions its output must satisfy.
+ */
+export interface EvalTestCase {
+  id: string;
+  description?: string;
+  variables: Record<string, string>;
+  assertions: EvalAssertion[];
+}
+
+/**
+ * @interface EvalSuite
+ * @description A named, repeatable set of test cases attached to a prompt.
+ */
+export interface EvalSuite {
+  id: string;
+  promptId: string;
+  name: string;
+  description: string;
+  cases: EvalTestCase[];
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface EvalAssertionResult
+ * @description The outcome of one assertion. `score` ranges from 0 to 1; deterministic assertions score 0 or 1.
+ */
+export interface EvalAssertionResult {
+  type: EvalAssertionType;
+  passed: boolean;
+  score: number;
+  message: string;
+}
+
+/**
+ * @interface EvalCaseResult
+ * @description The outcome of one test case. A case passes when the model answered and every assertion passed;
+ * its score is the mean of its assertion scores. `error` is set when the prompt could not be rendered or run.
+ */
+export interface EvalCaseResult {
+  caseId: string;
+  description?: string;
+  renderedPrompt: string;
+  output: string;
+  error?: string;
+  passed: boolean;
+  score: number;
+  latencyMs: number;
+  assertions: EvalAssertionResult[];
+}
+
+/**
+ * @interface EvalRun
+ * @description A recorded run of an evaluation suite against one provider and model.
+ * `score` is the mean of the case scores.
+ */
+export interface EvalRun {
+  id: string;
+  suiteId: string;
+  promptId: string;
+  provider: string;
+  model: string;
+  passed: number;
+  failed: number;
+  score: number;
+  results: EvalCaseResult[];
+  createdBy: string | null;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * @interface PromptRun
+ * @description A recorded test execution of a prompt: the exact text sent after rendering and
+ * filling in variables, the provider configuration it ran with, and what came back.
+ * `format` is the layout the prompt was compiled into; `renderedPrompt` is then the user message and
+ * `systemPrompt` the system message sent with it, if any.
+ * `error` is set instead of `responseText` when the model call failed.
+ * `judgement` holds the latest quality score of the response, once it has been judged.
+ */
+export interface PromptRun {
+  id: string;
+  promptId: string;
+  format: PromptCompileFormat;
+  renderedPrompt: string;
+  systemPrompt: string | null;
+  variables: Record<string, string>;
+  provider: string;
+  model: string;
+  parameters: Record<string, any>;
+  responseText: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  } | null;
+  latencyMs: number;
+  error: string | null;
+  judgement: ResponseJudgement | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @typedef {'tone' | 'length' | 'format' | 'structure' | 'audience'} JudgementDimension
+ * @description The aspects of a response judged against the SFL declaration of its prompt: the desired tone,
+ * the length constraint, the output format, the rhetorical structure and the target audience.
+ */
+export type JudgementDimension = 'tone' | 'length' | 'format' | 'structure' | 'audience';
+
+/**
+ * @interface JudgementScore
+ * @description The score of a response on one dimension. `criterion` is the value the prompt declares for it,
+ * and `score` runs from 1 (ignores it) to 5 (fully meets it).
+ */
+export interface JudgementScore {
+  dimension: JudgementDimension;
+  criterion: string;
+  score: number;
+  justification: string;
+}
+
+/**
+ * @interface ResponseJudgement
+ * @description A rubric grading a response against its prompt's SFL declaration, as produced by a judge model.
+ * Only dimensions the prompt declares are scored; `overallScore` is the mean of their scores.
+ */
+export interface ResponseJudgement {
+  scores: JudgementScore[];
+  overallScore: number;
+  judgeProvider: string;
+  judgeModel: string;
+  judgedAt: string;
+}
+
+/**
+ * @interface PromptRevisionRecord
+ * @description Represents the structure of a prompt revision record in the database.
+ * Each record is an immutable snapshot of a prompt's title, body and metadata at save time.
+ */
+export interface PromptRevisionRecord {
+  id: string;
+  prompt_id: string;
+  revision_number: number;
+  user_id: string | null;
+  title: string;
+  body: string;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+/**
+ * @interface PromptRevision
+ * @description A saved version of a prompt in the SFL format used by the API.
+ */
+export interface PromptRevision {
+  id: string;
+  promptId: string;
+  revisionNumber: number;
+  createdBy: string | null;
+  createdAt: string;
+  title: string;
+  promptText: string;
+  sflField: SFLField;
+  sflTenor: SFLTenor;
+  sflMode: SFLMode;
+  variables?: PromptVariable[];
+  exampleOutput?: string;
+  notes?: string;
+  sourceDocument?: {
+    name: string;
+    content: string;
+  };
+}
+
+/**
+ * @interface PromptRevisionFieldChange
+ * @description A single field that differs between two revisions.
+ * `field` is a dotted path such as `promptText` or `sflTenor.desiredTone`.
+ */
+export interface PromptRevisionFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * @interface PromptRevisionDiff
+ * @description The field-by-field comparison of two revisions of the same prompt.
+ */
+export interface PromptRevisionDiff {
+  promptId: string;
+  fromRevision: number;
+  toRevision: number;
+  changes: PromptRevisionFieldChange[];
+}
+
+/**
+ * @interface PromptLineageNode
+ * @description A prompt in a fork lineage. `parentId` is the prompt it was forked from, at `forkedFromRevision`.
+ * `upstreamChanged` is true when that parent has been revised since the fork was made.
+ */
+export interface PromptLineageNode {
+  id: string;
+  title: string;
+  ownerId: string;
+  parentId: string | null;
+  forkedFromRevision: number | null;
+  latestRevision: number;
+  upstreamChanged: boolean;
+  depth: number;
+}
+
+/**
+ * @interface PromptLocaleVariant
+ * @description A prompt among its locale siblings: the source prompt and the variants translated from it.
+ * `isSource` marks the prompt the others were translated from.
+ */
+export interface PromptLocaleVariant {
+  id: string;
+  title: string;
+  locale: string | null;
+  isSource: boolean;
+}
+
+/**
+ * @interface PromptLineage
+ * @description The fork lineage of a prompt as far as the requesting user can see it.
+ * `ancestors` start with the direct parent; `descendants` are ordered by depth, and their `parentId`s form the fork tree.
+ */
+export interface PromptLineage {
+  prompt: PromptLineageNode;
+  ancestors: PromptLineageNode[];
+  descendants: PromptLineageNode[];
+}
+
+/**
+ * @interface PromptStatusEvent
+ * @description One entry in the audit trail of a prompt's review lifecycle. `reviewer` is the reviewer
+ * assigned at the time and `changedBy` the user who made the change, both as email addresses.
+ */
+export interface PromptStatusEvent {
+  id: string;
+  fromStatus: PromptStatus;
+  toStatus: PromptStatus;
+  reviewer: string | null;
+  note: string;
+  changedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @interface PromptReview
+ * @description The review state of a prompt: its status, the email address of its reviewer, and
+ * its status changes, oldest first.
+ */
+export interface PromptReview {
+  status: PromptStatus;
+  reviewer: string | null;
+  history: PromptStatusEvent[];
+}
+
+/**
+ * @interface PromptComment
+ * @description A review comment on a prompt. Replies name the comment they answer in `parentId`;
+ * `author` is the email address of the user who wrote it.
+ */
+export interface PromptComment {
+  id: string;
+  promptId: string;
+  parentId: string | null;
+  body: string;
+  author: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @interface UnapprovedPrompt
+ * @description A prompt used by a workflow that only runs approved prompts, but which is not approved
+ * or cannot be found.
+ */
+export interface UnapprovedPrompt {
+  id: string;
+  title: string | null;
+  status: PromptStatus | null;
+}
+
+/**
+ * @type TrashItemType
+ * @description The kinds of records that go to the trash when deleted.
+ */
+export type TrashItemType = 'prompt' | 'workflow';
+
+/**
+ * @interface TrashItem
+ * @description A deleted prompt or workflow waiting in the trash. `purgeAt` is when it will be purged
+ * automatically, or null when automatic purging is turned off.
+ */
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
 /**
  * @interface Workflow
  * @description Represents the structure of a workflow record in the database.
@@ -91,7 +711,9 @@ export interface Workflow {
   graph_data: Record<string, any>;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
   tasks?: Task[]; // Tasks are part of the graph_data but can be represented here
+  requireApprovedPrompts?: boolean; // Only run tasks whose prompts have been approved
 }
 
 /**
@@ -106,6 +728,9 @@ export enum TaskType {
   SIMULATE_PROCESS = "SIMULATE_PROCESS",
   DISPLAY_CHART = "DISPLAY_CHART",
   GEMINI_GROUNDED = "GEMINI_GROUNDED",
+  LLM_PROMPT = "LLM_PROMPT",
+  CONDITION = "CONDITION",
+  MAP = "MAP",
 }
 
 /**
@@ -113,11 +738,13 @@ export enum TaskType {
  * @description Defines the configuration for an AI agent used in a task.
  */
 export interface AgentConfig {
+  provider?: AIProvider; // LLM_PROMPT: the provider to run the prompt with
   model?: string;
   temperature?: number;
   topK?: number;
   topP?: number;
   systemInstruction?: string;
+  parameters?: ModelParameters; // LLM_PROMPT: the provider's own parameters, e.g. top_p for OpenAI or top_k for Anthropic
 }
 
 /**
@@ -139,6 +766,11 @@ export interface Task {
   functionBody?: string;
   staticValue?: any;
   dataKey?: string;
+  condition?: string; // CONDITION: the expression evaluated over the DataStore
+  branches?: Record<string, string[]>; // CONDITION: the dependent task IDs each result value activates
+  itemsKey?: string; // MAP: the DataStore key of the array to run over
+  subtasks?: Task[]; // MAP: the sub-graph run for each item, ending in the task whose output is the item's result
+  concurrency?: number; // MAP: how many items are processed at once
   positionX?: number;
   positionY?: number;
 }
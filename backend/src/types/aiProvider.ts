@@ -103,6 +103,8 @@ export interface AIRequest {
   parameters: ModelParameters;
   prompt: string;
   systemMessage?: string;
+  /** Ask for a JSON object as the response, where the provider supports a JSON mode */
+  forceJsonMode?: boolean;
   conversationHistory?: Array<{
     role: 'user' | 'assistant' | 'system';
     content: string;
@@ -0,0 +1,126 @@
+/**
+ * @file evalSchemas.ts
+ * @description Zod schema definitions for validating the evaluation suites attached to prompts.
+ * A suite is a list of test cases, each giving values for the prompt's variables and the assertions
+ * the model output must satisfy.
+ *
+ * @requires zod
+ * @requires ajv
+ * @since 0.6.0
+ */
+
+import { z } from 'zod';
+import Ajv from 'ajv';
+
+/**
+ * The most test cases a suite may hold; every case costs a model call when the suite runs.
+ */
+export const MAX_EVAL_CASES = 50;
+
+/**
+ * Schema for a single assertion on a test case's output
+ */
+export const EvalAssertionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('contains'),
+    value: z.string().min(1, "contains assertion requires a value"),
+    caseSensitive: z.boolean().optional()
+  }),
+
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1, "regex assertion requires a pattern"),
+    flags: z.string().regex(/^[gimsuy]*$/, "regex flags may only contain g, i, m, s, u and y").optional()
+  }).superRefine((assertion, ctx) => {
+    try {
+      new RegExp(assertion.pattern, assertion.flags);
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid regular expression: ${assertion.pattern}`,
+        path: ['pattern']
+      });
+    }
+  }),
+
+  z.object({
+    type: z.literal('json-schema'),
+    schema: z.record(z.string(), z.unknown())
+  }).superRefine((assertion, ctx) => {
+    if (!new Ajv().validateSchema(assertion.schema)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "json-schema assertion requires a valid JSON Schema",
+        path: ['schema']
+      });
+    }
+  }),
+
+  z.object({
+    type: z.literal('max-length'),
+    value: z.number().int("max-length must be an integer").positive("max-length must be positive")
+  }),
+
+  z.object({
+    type: z.literal('llm-rubric'),
+    rubric: z.string().min(1, "llm-rubric assertion requires a rubric"),
+    threshold: z.number().min(0, "threshold must be >= 0").max(1, "threshold must be <= 1").optional()
+  })
+], { message: "Assertion type must be one of: contains, regex, json-schema, max-length, llm-rubric" });
+
+/**
+ * Schema for a test case. Cases without an ID are given one when the suite is saved.
+ */
+export const EvalTestCaseSchema = z.object({
+  id: z.string().min(1).optional(),
+
+  description: z.string()
+    .max(500, "Test case description must be 500 characters or less")
+    .optional(),
+
+  variables: z.record(z.string(), z.string()).default({}),
+
+  assertions: z.array(EvalAssertionSchema)
+    .min(1, "Each test case needs at least one assertion")
+});
+
+/**
+ * Schema for the editable fields of an evaluation suite
+ */
+export const EvalSuiteSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Suite name is required")
+    .max(100, "Suite name must be 100 characters or less"),
+
+  description: z.string().default(''),
+
+  cases: z.array(EvalTestCaseSchema)
+    .max(MAX_EVAL_CASES, `A suite can hold at most ${MAX_EVAL_CASES} test cases`)
+    .default([])
+});
+
+/**
+ * Inferred TypeScript types from Zod schemas
+ */
+export type ValidatedEvalTestCase = z.infer<typeof EvalTestCaseSchema>;
+export type ValidatedEvalSuite = z.infer<typeof EvalSuiteSchema>;
+
+/**
+ * Validates an evaluation suite
+ *
+ * @param data - The suite to validate
+ * @returns The validated suite with defaults applied, or the list of validation errors
+ */
+export function validateEvalSuite(data: unknown): { success: true; data: ValidatedEvalSuite } | { success: false; errors: string[] } {
+  const result = EvalSuiteSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+  };
+}
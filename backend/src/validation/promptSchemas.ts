@@ -0,0 +1,178 @@
+/**
+ * @file promptSchemas.ts
+ * @description Zod schema definitions for validating the typed template variables declared on prompts.
+ * Variables describe the `{{placeholder}}` slots in a prompt's text: their type, whether they are
+ * required, their default value and a description shown when filling them in.
+ * It also validates the SFL metadata of prompts arriving from import files and the locales of prompts.
+ * 
+ * @requires zod
+ * @since 0.6.0
+ */
+
+import { z } from 'zod';
+
+/**
+ * The supported variable input types
+ */
+export const PROMPT_VARIABLE_TYPES = ['string', 'number', 'enum', 'multiline', 'file'] as const;
+
+/**
+ * Schema for a single prompt variable declaration
+ */
+export const PromptVariableSchema = z.object({
+  name: z.string()
+    .regex(/^\w+$/, "Variable name must contain only letters, digits and underscores"),
+
+  type: z.enum(PROMPT_VARIABLE_TYPES, {
+    message: `Variable type must be one of: ${PROMPT_VARIABLE_TYPES.join(', ')}`
+  }),
+
+  required: z.boolean().default(false),
+
+  defaultValue: z.string().optional(),
+
+  description: z.string()
+    .max(500, "Variable description must be 500 characters or less")
+    .optional(),
+
+  options: z.array(z.string().min(1, "Enum options cannot be empty")).optional()
+}).superRefine((variable, ctx) => {
+  if (variable.type === 'enum') {
+    if (!variable.options || variable.options.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Enum variable '${variable.name}' requires at least one option`,
+        path: ['options']
+      });
+    } else if (variable.defaultValue && !variable.options.includes(variable.defaultValue)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Default value of '${variable.name}' must be one of its options`,
+        path: ['defaultValue']
+      });
+    }
+  }
+
+  if (variable.type === 'number' && variable.defaultValue && !Number.isFinite(Number(variable.defaultValue))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Default value of '${variable.name}' must be a number`,
+      path: ['defaultValue']
+    });
+  }
+});
+
+/**
+ * Schema for the full list of variables declared on a prompt
+ */
+export const PromptVariablesSchema = z.array(PromptVariableSchema)
+  .superRefine((variables, ctx) => {
+    const names = variables.map(variable => variable.name);
+    const duplicateNames = names.filter((name, index) => names.indexOf(name) !== index);
+
+    if (duplicateNames.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate variable names found: ${[...new Set(duplicateNames)].join(', ')}`
+      });
+    }
+  });
+
+/**
+ * Schema for the SFL metadata of a prompt read from an import file. Parts and fields may be
+ * missing, in which case they are left empty, but those that are present must have the right type.
+ */
+export const PromptSFLMetadataSchema = z.object({
+  sflField: z.object({
+    topic: z.string(),
+    taskType: z.string(),
+    domainSpecifics: z.string(),
+    keywords: z.string()
+  }).partial(),
+
+  sflTenor: z.object({
+    aiPersona: z.string(),
+    targetAudience: z.array(z.string()),
+    desiredTone: z.string(),
+    interpersonalStance: z.string()
+  }).partial(),
+
+  sflMode: z.object({
+    outputFormat: z.string(),
+    rhetoricalStructure: z.string(),
+    lengthConstraint: z.string(),
+    textualDirectives: z.string()
+  }).partial()
+}).partial();
+
+/**
+ * Schema for the locale of a prompt: a BCP 47 language tag such as `de`, `pt-BR` or `zh-Hant-TW`,
+ * written in its canonical casing
+ */
+export const PromptLocaleSchema = z.string()
+  .trim()
+  .regex(/^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i, "Locale must be a language tag such as 'de' or 'pt-BR'")
+  .transform(locale => locale.split('-').map((part, index) => {
+    if (index === 0) return part.toLowerCase();
+    return part.length === 4 ? part[0].toUpperCase() + part.slice(1).toLowerCase() : part.toUpperCase();
+  }).join('-'));
+
+/**
+ * Inferred TypeScript types from Zod schemas
+ */
+export type ValidatedPromptVariable = z.infer<typeof PromptVariableSchema>;
+export type ValidatedSFLMetadata = z.infer<typeof PromptSFLMetadataSchema>;
+
+/**
+ * Validates the variables declared on a prompt
+ * 
+ * @param data - The variable declarations to validate
+ * @returns The validated variables with defaults applied, or the list of validation errors
+ */
+export function validatePromptVariables(data: unknown): { success: true; data: ValidatedPromptVariable[] } | { success: false; errors: string[] } {
+  const result = PromptVariablesSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+  };
+}
+
+/**
+ * Validates the SFL metadata of an imported prompt
+ * 
+ * @param data - The prompt object read from the import file
+ * @returns The SFL parts that were present, or the list of invalid fields
+ */
+export function validateSFLMetadata(data: unknown): { success: true; data: ValidatedSFLMetadata } | { success: false; errors: string[] } {
+  const result = PromptSFLMetadataSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+  };
+}
+
+/**
+ * Validates the locale of a prompt
+ * 
+ * @param data - The locale to validate
+ * @returns The locale in its canonical casing, or the validation error
+ */
+export function validatePromptLocale(data: unknown): { success: true; data: string } | { success: false; error: string } {
+  const result = PromptLocaleSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return { success: false, error: result.error.issues[0]?.message ?? 'Invalid locale' };
+}
@@ -9,12 +9,17 @@
  */
 
 import { z } from 'zod';
-import { TaskType } from '../types';
+import { Task, TaskType } from '../types';
+import { parseCondition } from '../services/workflow/conditionExpression';
+import { findMapResultTask, MAX_MAP_CONCURRENCY } from '../services/workflow/mapTask';
 
 /**
  * Schema for AgentConfig object validation
  */
 export const AgentConfigSchema = z.object({
+  provider: z.enum(['google', 'openai', 'openrouter', 'anthropic'], {
+    message: "provider must be one of: google, openai, openrouter, anthropic"
+  }).optional(),
   model: z.string().optional(),
   temperature: z.number()
     .min(0, "temperature must be >= 0")
@@ -29,7 +34,9 @@ export const AgentConfigSchema = z.object({
     .min(0, "topP must be >= 0")
     .max(1, "topP must be <= 1")
     .optional(),
-  systemInstruction: z.string().optional()
+  systemInstruction: z.string().optional(),
+  // Checked by the provider itself, since every provider takes different parameters
+  parameters: z.record(z.string(), z.unknown()).optional()
 });
 
 /**
@@ -88,6 +95,21 @@ export const TaskSchema = z.object({
   
   dataKey: z.string().optional(),
   
+  condition: z.string().optional(),
+  
+  branches: z.record(z.string(), z.array(z.string())).optional(),
+  
+  itemsKey: z.string().optional(),
+  
+  // Validated as tasks below, since a schema cannot refer to itself while it is being defined
+  subtasks: z.array(z.any()).optional(),
+  
+  concurrency: z.number()
+    .int("concurrency must be an integer")
+    .min(1, "concurrency must be >= 1")
+    .max(MAX_MAP_CONCURRENCY, `concurrency must be <= ${MAX_MAP_CONCURRENCY}`)
+    .optional(),
+  
   positionX: z.number().optional(),
   
   positionY: z.number().optional()
@@ -106,6 +128,23 @@ export const TaskSchema = z.object({
       }
       break;
     
+    case TaskType.LLM_PROMPT:
+      if (!task.promptTemplate && !task.promptId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'LLM_PROMPT' requires a 'promptTemplate' or 'promptId' field`,
+          path: ['promptTemplate']
+        });
+      }
+      if (!task.agentConfig?.provider) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'LLM_PROMPT' requires an 'agentConfig.provider' field`,
+          path: ['agentConfig', 'provider']
+        });
+      }
+      break;
+    
     case TaskType.TEXT_MANIPULATION:
       if (!task.functionBody) {
         ctx.addIssue({
@@ -135,9 +174,114 @@ export const TaskSchema = z.object({
         });
       }
       break;
+    
+    case TaskType.CONDITION:
+      if (!task.condition) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'CONDITION' requires a 'condition' field`,
+          path: ['condition']
+        });
+      } else {
+        try {
+          parseCondition(task.condition);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: error instanceof Error ? error.message : 'The condition is not valid',
+            path: ['condition']
+          });
+        }
+      }
+      if (!task.branches) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'CONDITION' requires a 'branches' field`,
+          path: ['branches']
+        });
+      }
+      break;
+    
+    case TaskType.MAP:
+      if (!task.itemsKey) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'MAP' requires an 'itemsKey' field`,
+          path: ['itemsKey']
+        });
+      }
+      if (!task.subtasks || task.subtasks.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Task type 'MAP' requires a non-empty 'subtasks' field`,
+          path: ['subtasks']
+        });
+      } else {
+        validateSubtasks(task.subtasks, ctx);
+      }
+      break;
   }
 });
 
+/**
+ * Validates the subtasks of a MAP task as a workflow of their own: each must be a valid task other than a MAP,
+ * their IDs must be unique, their dependencies must stay among them without cycles, and exactly one of them
+ * must be left for no other to depend on, since its output is the result of each item.
+ */
+function validateSubtasks(subtasks: unknown[], ctx: z.RefinementCtx): void {
+  const valid: ValidatedTask[] = [];
+  subtasks.forEach((subtask, index) => {
+    const result = TaskSchema.safeParse(subtask);
+    if (!result.success) {
+      result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['subtasks', index, ...issue.path] } as z.IssueData));
+    } else if (result.data.type === TaskType.MAP) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'A MAP task cannot contain another MAP task',
+        path: ['subtasks', index, 'type']
+      });
+    } else {
+      valid.push(result.data);
+    }
+  });
+  if (valid.length !== subtasks.length) return;
+
+  const ids = valid.map(subtask => subtask.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Duplicate subtask IDs found: ${[...new Set(duplicates)].join(', ')}`,
+      path: ['subtasks']
+    });
+    return;
+  }
+  valid.forEach((subtask, index) => {
+    subtask.dependencies.forEach((depId, depIndex) => {
+      if (!ids.includes(depId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Subtask '${subtask.id}' references '${depId}', which is not a subtask of the same MAP task`,
+          path: ['subtasks', index, 'dependencies', depIndex]
+        });
+      }
+    });
+  });
+  if (hasCircularDependencies({ tasks: valid } as ValidatedWorkflow)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'The subtasks have circular dependencies',
+      path: ['subtasks']
+    });
+  } else if (!findMapResultTask(valid as Task[])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'The subtasks must end in a single task whose output is the result of each item',
+      path: ['subtasks']
+    });
+  }
+}
+
 /**
  * Schema for complete Workflow object validation
  */
@@ -179,6 +323,33 @@ export const WorkflowSchema = z.object({
       }
     });
   });
+  
+  // Validate that each branch of a condition lists tasks depending on it, each in one branch only
+  workflow.tasks.forEach((task, taskIndex) => {
+    if (task.type !== TaskType.CONDITION || !task.branches) return;
+    const branched = new Set<string>();
+    Object.entries(task.branches).forEach(([branch, targets]) => {
+      targets.forEach((targetId, targetIndex) => {
+        const target = workflow.tasks.find(candidate => candidate.id === targetId);
+        let message: string | undefined;
+        if (!target) {
+          message = `Condition '${task.id}' branches to non-existent task '${targetId}'`;
+        } else if (!target.dependencies.includes(task.id)) {
+          message = `Task '${targetId}' must depend on condition '${task.id}' to be on one of its branches`;
+        } else if (branched.has(targetId)) {
+          message = `Task '${targetId}' is on more than one branch of condition '${task.id}'`;
+        }
+        branched.add(targetId);
+        if (message) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message,
+            path: ['tasks', taskIndex, 'branches', branch, targetIndex]
+          });
+        }
+      });
+    });
+  });
 });
 
 /**
@@ -0,0 +1,27 @@
+/**
+ * @file 006_create_prompt_revisions_table.sql
+ * @description Creates the prompt_revisions table that keeps an immutable snapshot of every saved
+ * version of a prompt. Existing prompts are backfilled with their current state as revision 1.
+ */
+
+-- Up Migration
+CREATE TABLE prompt_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (prompt_id, revision_number)
+);
+
+CREATE INDEX idx_prompt_revisions_prompt_id ON prompt_revisions(prompt_id);
+
+-- Seed the history of existing prompts with their current state
+INSERT INTO prompt_revisions (prompt_id, revision_number, user_id, title, body, metadata, created_at)
+SELECT id, 1, user_id, title, body, metadata, updated_at FROM prompts;
+
+-- Down Migration
+DROP TABLE prompt_revisions;
@@ -0,0 +1,35 @@
+/**
+ * @file 007_add_prompt_search_indexes.sql
+ * @description Adds server-side search support for the prompt library: a generated full-text
+ * search vector over title, body and notes, expression indexes for the SFL metadata filters,
+ * and composite indexes backing keyset (cursor) pagination for each sort order.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(body, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(metadata->>'notes', '')), 'C')
+) STORED;
+
+CREATE INDEX idx_prompts_search_vector ON prompts USING GIN (search_vector);
+
+-- SFL metadata filters
+CREATE INDEX idx_prompts_task_type ON prompts ((metadata->'sflField'->>'taskType'));
+CREATE INDEX idx_prompts_ai_persona ON prompts ((metadata->'sflTenor'->>'aiPersona'));
+CREATE INDEX idx_prompts_output_format ON prompts ((metadata->'sflMode'->>'outputFormat'));
+
+-- Keyset pagination
+CREATE INDEX idx_prompts_updated_at_id ON prompts (updated_at, id);
+CREATE INDEX idx_prompts_created_at_id ON prompts (created_at, id);
+CREATE INDEX idx_prompts_title_id ON prompts (lower(title), id);
+
+-- Down Migration
+DROP INDEX idx_prompts_title_id;
+DROP INDEX idx_prompts_created_at_id;
+DROP INDEX idx_prompts_updated_at_id;
+DROP INDEX idx_prompts_output_format;
+DROP INDEX idx_prompts_ai_persona;
+DROP INDEX idx_prompts_task_type;
+DROP INDEX idx_prompts_search_vector;
+ALTER TABLE prompts DROP COLUMN search_vector;
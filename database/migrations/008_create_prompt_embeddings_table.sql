@@ -0,0 +1,20 @@
+/**
+ * @file 008_create_prompt_embeddings_table.sql
+ * @description Creates the prompt_embeddings table used for semantic (nearest-neighbour) prompt search.
+ * Each prompt has at most one embedding; the provider column records which embedding provider produced it
+ * so that vectors from different providers are never compared with each other.
+ */
+
+-- Up Migration
+CREATE TABLE prompt_embeddings (
+    prompt_id UUID PRIMARY KEY REFERENCES prompts(id) ON DELETE CASCADE,
+    provider VARCHAR(100) NOT NULL,
+    embedding vector(1536) NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_embeddings_provider ON prompt_embeddings(provider);
+CREATE INDEX idx_prompt_embeddings_embedding ON prompt_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- Down Migration
+DROP TABLE prompt_embeddings;
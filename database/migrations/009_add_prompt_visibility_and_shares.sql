@@ -0,0 +1,30 @@
+/**
+ * @file 009_add_prompt_visibility_and_shares.sql
+ * @description Adds per-user ownership and visibility to prompts. Each prompt is either private to its
+ * owner, shared with specific users (listed in prompt_shares), or public and readable by everyone.
+ * Prompts that existed before this migration were visible to every user, so they are marked public;
+ * prompts created afterwards are private by default.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN visibility VARCHAR(20) NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('private', 'shared', 'public'));
+ALTER TABLE prompts ALTER COLUMN visibility SET DEFAULT 'private';
+
+CREATE INDEX idx_prompts_user_id ON prompts(user_id);
+CREATE INDEX idx_prompts_visibility ON prompts(visibility);
+
+CREATE TABLE prompt_shares (
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (prompt_id, user_id)
+);
+
+CREATE INDEX idx_prompt_shares_user_id ON prompt_shares(user_id);
+
+-- Down Migration
+DROP TABLE prompt_shares;
+DROP INDEX idx_prompts_visibility;
+DROP INDEX idx_prompts_user_id;
+ALTER TABLE prompts DROP COLUMN visibility;
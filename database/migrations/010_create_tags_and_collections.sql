@@ -0,0 +1,55 @@
+/**
+ * @file 010_create_tags_and_collections.sql
+ * @description Adds first-class tags and nestable collections for organizing the prompt library.
+ * Tags are a shared vocabulary attached to prompts many-to-many; the user who created a tag is the
+ * only one who can rename or delete it. Collections are personal folders that can be nested under
+ * one another, and a prompt can be placed in any number of collections.
+ */
+
+-- Up Migration
+CREATE TABLE tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(50) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_tags_name ON tags(lower(name));
+
+CREATE TABLE prompt_tags (
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (prompt_id, tag_id)
+);
+
+CREATE INDEX idx_prompt_tags_tag_id ON prompt_tags(tag_id);
+
+CREATE TABLE collections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- Sibling collections must have distinct names; top-level collections are grouped under the nil UUID
+CREATE UNIQUE INDEX idx_collections_sibling_name
+    ON collections(user_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE INDEX idx_collections_parent_id ON collections(parent_id);
+
+CREATE TABLE collection_prompts (
+    collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (collection_id, prompt_id)
+);
+
+CREATE INDEX idx_collection_prompts_prompt_id ON collection_prompts(prompt_id);
+
+-- Down Migration
+DROP TABLE collection_prompts;
+DROP TABLE collections;
+DROP TABLE prompt_tags;
+DROP TABLE tags;
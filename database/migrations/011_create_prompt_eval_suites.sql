@@ -0,0 +1,41 @@
+/**
+ * @file 011_create_prompt_eval_suites.sql
+ * @description Adds evaluation suites attached to prompts and the recorded results of running them.
+ * A suite stores its test cases (variable values plus assertions) as JSON. Every run keeps the provider
+ * and model it used, its pass/fail counts and the per-case results, so prompt quality can be tracked over time.
+ */
+
+-- Up Migration
+CREATE TABLE prompt_eval_suites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    cases JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_eval_suites_prompt_id ON prompt_eval_suites(prompt_id);
+
+CREATE TABLE prompt_eval_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    suite_id UUID NOT NULL REFERENCES prompt_eval_suites(id) ON DELETE CASCADE,
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    passed INTEGER NOT NULL,
+    failed INTEGER NOT NULL,
+    score REAL NOT NULL,
+    results JSONB NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_eval_runs_suite_id ON prompt_eval_runs(suite_id, completed_at DESC);
+
+-- Down Migration
+DROP TABLE prompt_eval_runs;
+DROP TABLE prompt_eval_suites;
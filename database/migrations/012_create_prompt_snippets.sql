@@ -0,0 +1,22 @@
+/**
+ * @file 012_create_prompt_snippets.sql
+ * @description Adds snippets, the reusable pieces of prompt text that prompts pull in with a
+ * `{{> name}}` partial. Snippets belong to one user and are referenced by a name that is unique
+ * for that user. Which base prompt a prompt extends is kept in the prompt's metadata, so it is
+ * versioned together with the rest of the prompt and needs no schema change.
+ */
+
+-- Up Migration
+CREATE TABLE prompt_snippets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(64) NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$'),
+    description TEXT NOT NULL DEFAULT '',
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+-- Down Migration
+DROP TABLE prompt_snippets;
@@ -0,0 +1,29 @@
+/**
+ * @file 013_create_prompt_runs.sql
+ * @description Records every test execution of a prompt. A run keeps the exact text that was sent (after
+ * rendering and filling in variables), the provider, model and parameters, and the response with its token
+ * usage and latency, or the error when the call failed. Runs survive reloads and can be pinned as the
+ * prompt's example output.
+ */
+
+-- Up Migration
+CREATE TABLE prompt_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    rendered_prompt TEXT NOT NULL,
+    variables JSONB NOT NULL DEFAULT '{}',
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    parameters JSONB NOT NULL DEFAULT '{}',
+    response_text TEXT NOT NULL DEFAULT '',
+    usage JSONB,
+    latency_ms INTEGER NOT NULL,
+    error TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_runs_prompt_id ON prompt_runs(prompt_id, created_at DESC);
+
+-- Down Migration
+DROP TABLE prompt_runs;
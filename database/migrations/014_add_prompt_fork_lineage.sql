@@ -0,0 +1,17 @@
+/**
+ * @file 014_add_prompt_fork_lineage.sql
+ * @description Records where a forked prompt came from: the prompt it was copied from and the revision
+ * of that prompt it was copied at. Deleting the parent keeps its forks and only clears the link.
+ * The revision number is kept on its own so a fork can tell when its parent has moved on.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN forked_from_id UUID REFERENCES prompts(id) ON DELETE SET NULL;
+ALTER TABLE prompts ADD COLUMN forked_from_revision INTEGER;
+
+CREATE INDEX idx_prompts_forked_from_id ON prompts(forked_from_id);
+
+-- Down Migration
+DROP INDEX idx_prompts_forked_from_id;
+ALTER TABLE prompts DROP COLUMN forked_from_revision;
+ALTER TABLE prompts DROP COLUMN forked_from_id;
@@ -0,0 +1,19 @@
+/**
+ * @file 015_add_soft_delete.sql
+ * @description Deleting a prompt or workflow now moves it to the trash instead of removing the row.
+ * A trashed row keeps the time it was deleted; it can be restored until it is purged, either by hand
+ * or automatically once the configured retention period has passed.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE workflows ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_prompts_deleted_at ON prompts(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_workflows_deleted_at ON workflows(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Down Migration
+DROP INDEX idx_workflows_deleted_at;
+DROP INDEX idx_prompts_deleted_at;
+ALTER TABLE workflows DROP COLUMN deleted_at;
+ALTER TABLE prompts DROP COLUMN deleted_at;
@@ -0,0 +1,46 @@
+/**
+ * @file 016_add_prompt_review_lifecycle.sql
+ * @description Adds a review lifecycle to prompts. A prompt moves from draft to in review to approved, and can
+ * later be deprecated; the assigned reviewer signs off on the move to approved. Every status change is kept
+ * in an append-only audit trail, and prompts carry threaded review comments. Existing prompts start as drafts.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_review', 'approved', 'deprecated'));
+ALTER TABLE prompts ADD COLUMN reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_prompts_status ON prompts(status);
+CREATE INDEX idx_prompts_reviewer_id ON prompts(reviewer_id);
+
+CREATE TABLE prompt_status_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    note TEXT NOT NULL DEFAULT '',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_status_events_prompt_id ON prompt_status_events(prompt_id, created_at);
+
+CREATE TABLE prompt_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES prompt_comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_comments_prompt_id ON prompt_comments(prompt_id, created_at);
+
+-- Down Migration
+DROP TABLE prompt_comments;
+DROP TABLE prompt_status_events;
+DROP INDEX idx_prompts_reviewer_id;
+DROP INDEX idx_prompts_status;
+ALTER TABLE prompts DROP COLUMN reviewer_id;
+ALTER TABLE prompts DROP COLUMN status;
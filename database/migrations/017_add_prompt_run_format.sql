@@ -0,0 +1,15 @@
+/**
+ * @file 017_add_prompt_run_format.sql
+ * @description Test runs can compile a prompt's SFL fields into the message layout of a provider.
+ * A run now records the layout it was compiled into and the system message it sent alongside
+ * the rendered prompt. Earlier runs sent the prompt text alone.
+ */
+
+-- Up Migration
+ALTER TABLE prompt_runs ADD COLUMN format VARCHAR(20) NOT NULL DEFAULT 'plain'
+    CHECK (format IN ('plain', 'anthropic', 'openai', 'gemini'));
+ALTER TABLE prompt_runs ADD COLUMN system_prompt TEXT;
+
+-- Down Migration
+ALTER TABLE prompt_runs DROP COLUMN system_prompt;
+ALTER TABLE prompt_runs DROP COLUMN format;
@@ -0,0 +1,18 @@
+/**
+ * @file 018_add_prompt_locales.sql
+ * @description Prompts can be translated into other languages. A prompt's locale lives in its metadata
+ * next to the other editable fields; a translated variant additionally points at the source prompt it
+ * belongs to, so that a prompt and its translations can be listed as locale siblings. Deleting the source
+ * keeps its translations and only clears the link.
+ */
+
+-- Up Migration
+ALTER TABLE prompts ADD COLUMN locale_source_id UUID REFERENCES prompts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_prompts_locale_source_id ON prompts(locale_source_id);
+CREATE INDEX idx_prompts_locale ON prompts((metadata->>'locale'));
+
+-- Down Migration
+DROP INDEX idx_prompts_locale;
+DROP INDEX idx_prompts_locale_source_id;
+ALTER TABLE prompts DROP COLUMN locale_source_id;
@@ -0,0 +1,12 @@
+/**
+ * @file 019_add_prompt_run_judgement.sql
+ * @description A test run's response can be graded by a judge model against the SFL declaration of its
+ * prompt. The latest rubric is stored with the run: a score and justification per dimension, the overall
+ * score, and which model judged it.
+ */
+
+-- Up Migration
+ALTER TABLE prompt_runs ADD COLUMN judgement JSONB;
+
+-- Down Migration
+ALTER TABLE prompt_runs DROP COLUMN judgement;
@@ -16,15 +16,16 @@
  * @requires ./components/PromptDetailModal
  * @requires ./components/PromptWizardModal
  * @requires ./components/HelpModal
+ * @requires ./components/ImportPromptsModal
  * @requires ./components/Documentation
  * @requires ./components/lab/PromptLabPage
- * @requires ./services/geminiService
+ * @requires ./components/TrashPage
  * @requires ./services/promptApiService
  * @requires ./constants
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { PromptSFL, ModalType } from './types';
+import { PromptSFL, ModalType, PromptExchangeFormat, PromptImportResult, PromptStatus, PromptCompileFormat } from './types';
 import Sidebar from './components/Sidebar';
 import TopBar from './components/TopBar';
 import Stats from './components/Stats';
@@ -33,105 +34,22 @@ import PromptFormModal from './components/PromptFormModal';
 import PromptDetailModal from './components/PromptDetailModal';
 import PromptWizardModal from './components/PromptWizardModal';
 import HelpModal from './components/HelpModal';
+import ImportPromptsModal from './components/ImportPromptsModal';
 import Documentation from './components/Documentation';
 import PromptLabPage from './components/lab/PromptLabPage';
+import TrashPage from './components/TrashPage';
 import ProviderSetupPage from './components/settings/ProviderSetupPage';
 import AuthGuard from './components/AuthGuard';
-import { testPromptWithGemini } from './services/geminiService';
+import { exportPrompts, runPrompt } from './services/promptApiService';
 import { useProviderValidation } from './hooks/useProviderValidation';
 import { useAppStore } from './store/appStore';
 
 
 /**
- * Converts a `PromptSFL` object into a well-formatted Markdown string.
- * This is used for exporting prompts in a human-readable format.
- *
- * @param {PromptSFL} prompt - The prompt object to convert.
- * @returns {string} The Markdown representation of the prompt.
- * @private
- */
-const promptToMarkdown = (prompt: PromptSFL): string => {
-    const { 
-        title, updatedAt, promptText, sflField, sflTenor, sflMode, exampleOutput, notes, sourceDocument
-    } = prompt;
-
-    const sections = [
-        `# ${title || 'Untitled Prompt'}`, 
-        `**Last Updated:** ${new Date(updatedAt).toLocaleString()}`,
-        '---',
-        '## Prompt Text',
-        '```',
-        promptText || '',
-        '```',
-    ];
-
-    if (sourceDocument) {
-        sections.push(
-            '---',
-            '## Source Document',
-            `**Filename:** \`${sourceDocument.name}\`
-`,            '> This document was used as a stylistic reference during prompt generation.',
-            '',
-            '<details>',
-            '<summary>View Content</summary>',
-            '',
-            '```',
-            sourceDocument.content,
-            '```',
-            '</details>'
-        );
-    }
-
-    const keywordsString = sflField.keywords ? `\`${sflField.keywords.split(',').map(k => k.trim()).join('`, `')}\`` : 'N/A';
-
-    sections.push(
-        '---',
-        '## SFL Metadata',
-        '### Field (What is happening?)',
-        `- **Topic:** ${sflField.topic || 'N/A'}`, 
-        `- **Task Type:** ${sflField.taskType || 'N/A'}`, 
-        `- **Domain Specifics:** ${sflField.domainSpecifics || 'N/A'}`, 
-        `- **Keywords:** ${keywordsString}`,
-        '',
-        '### Tenor (Who is taking part?)',
-        `- **AI Persona:** ${sflTenor.aiPersona || 'N/A'}`, 
-        `- **Target Audience:** ${sflTenor.targetAudience.join(', ') || 'N/A'}`, 
-        `- **Desired Tone:** ${sflTenor.desiredTone || 'N/A'}`, 
-        `- **Interpersonal Stance:** ${sflTenor.interpersonalStance || 'N/A'}`,
-        '',
-        '### Mode (What role is language playing?)',
-        `- **Output Format:** ${sflMode.outputFormat || 'N/A'}`, 
-        `- **Rhetorical Structure:** ${sflMode.rhetoricalStructure || 'N/A'}`, 
-        `- **Length Constraint:** ${sflMode.lengthConstraint || 'N/A'}`, 
-        `- **Textual Directives:** ${sflMode.textualDirectives || 'N/A'}`,
-    );
-
-    if (exampleOutput) {
-        sections.push(
-            '---',
-            '## Example Output',
-            '```',
-            exampleOutput,
-            '```'
-        );
-    }
-
-    if (notes) {
-        sections.push(
-            '---',
-            '## Notes',
-            notes
-        );
-    }
-    
-    return sections.join('\n');
-};
-
-/**
- * @typedef {'dashboard' | 'lab' | 'documentation' | 'settings'}
+ * @typedef {'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings'}
  * @description Represents the possible main pages the user can navigate to.
  */
-type Page = 'dashboard' | 'lab' | 'documentation' | 'settings';
+type Page = 'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings';
 
 /**
  * The main `App` component. It acts as the root of the application,
@@ -157,16 +75,24 @@ const App: React.FC = () => {
    */
   const {
     prompts,
+    totalPrompts,
     filters,
     activePage,
     appConstants,
     fetchPrompts,
+    fetchTags,
+    fetchCollections,
     updatePrompt,
     deletePrompt,
+    restorePromptRevision,
+    pinPromptRun,
+    forkPrompt,
+    translatePrompt,
+    changePromptStatus,
+    setPromptTestState,
     setFilter,
     setPage,
-    addConstant,
-    getFilteredPrompts
+    addConstant
   } = useAppStore();
 
   /**
@@ -189,6 +115,11 @@ const App: React.FC = () => {
    */
   const importFileRef = useRef<HTMLInputElement>(null);
 
+  /**
+   * @state {{name: string; content: string} | null} importFile - The file being previewed for import.
+   */
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
+
   /**
    * @effect Handles routing based on provider validation status
    * Only auto-redirects on initial load, not after manual navigation
@@ -205,13 +136,15 @@ const App: React.FC = () => {
   }, [providersLoading, requiresSetup, providersReady, activePage, hasUserNavigated, setPage]);
 
   /**
-   * @effect Fetches the initial list of prompts from the API when providers are ready.
+   * @effect Fetches the initial list of prompts, the tags and the user's collections from the API when providers are ready.
    */
   useEffect(() => {
     if (providersReady) {
       fetchPrompts();
+      fetchTags();
+      fetchCollections();
     }
-  }, [providersReady, fetchPrompts]);
+  }, [providersReady, fetchPrompts, fetchTags, fetchCollections]);
 
   /**
    * @callback handleNavigate
@@ -306,13 +239,14 @@ const App: React.FC = () => {
 
   /**
    * @callback handleDeletePrompt
-   * @description Handles the deletion of a prompt using the store action.
+   * @description Moves a prompt to the trash using the store action, which asks the user to confirm first,
+   * and closes the prompt if it was open.
    * @param {string} promptId - The ID of the prompt to delete.
    */
   const handleDeletePrompt = async (promptId: string) => {
     try {
-      await deletePrompt(promptId);
-      if (selectedPrompt && selectedPrompt.id === promptId) {
+      const deleted = await deletePrompt(promptId);
+      if (deleted && selectedPrompt && selectedPrompt.id === promptId) {
         setSelectedPrompt(null);
         handleCloseModal();
       }
@@ -323,173 +257,145 @@ const App: React.FC = () => {
 
 
   /**
-   * @computed {PromptSFL[]} filteredPrompts
-   * @description Get filtered prompts from the store.
+   * @callback handleRestoreRevision
+   * @description Rolls a prompt back to an earlier revision and refreshes the prompt shown in the detail modal.
+   * @param {string} promptId - The ID of the prompt to restore.
+   * @param {number} revisionNumber - The revision to restore.
+   * @throws {Error} Propagates any errors from the store action so the history panel can display them.
    */
-  const filteredPrompts = getFilteredPrompts();
+  const handleRestoreRevision = async (promptId: string, revisionNumber: number) => {
+    const restored = await restorePromptRevision(promptId, revisionNumber);
+    setSelectedPrompt(prev => prev && prev.id === promptId ? restored : prev);
+  };
 
   /**
    * @callback handleTestWithGemini
-   * @description Handles testing a prompt with the Gemini API. It updates the prompt's state to show
-   * loading, interpolates any variables into the prompt text, calls the API, and then updates the state
-   * with the response or error.
+   * @description Handles testing a prompt with the Gemini API. The server renders the prompt, fills in the
+   * variables, runs it and records the run in the prompt's history; the outcome is also shown on the prompt
+   * until the next test.
    * @param {PromptSFL} promptToTest - The prompt to be tested.
    * @param {Record<string, string>} variables - A map of variable names to their values for interpolation.
+   * @param {PromptCompileFormat} format - The message layout to compile the prompt into.
    */
-  const handleTestWithGemini = async (promptToTest: PromptSFL, variables: Record<string, string>) => {
-    const updatePromptState = async (id: string, updates: Partial<PromptSFL>) => {
-        const updatedPrompt = prompts.find(p => p.id === id);
-        if (updatedPrompt) {
-          await updatePrompt({ ...updatedPrompt, ...updates });
-          setSelectedPrompt(prev => prev && prev.id === id ? { ...prev, ...updates } : prev);
-        }
+  const handleTestWithGemini = async (promptToTest: PromptSFL, variables: Record<string, string>, format: PromptCompileFormat) => {
+    const updatePromptState = (id: string, updates: Partial<PromptSFL>) => {
+      setPromptTestState(id, updates);
+      setSelectedPrompt(prev => prev && prev.id === id ? { ...prev, ...updates } : prev);
     };
 
-    await updatePromptState(promptToTest.id, { isTesting: true, geminiResponse: undefined, geminiTestError: undefined });
-    
-    let finalPromptText = promptToTest.promptText;
-    Object.keys(variables).forEach(key => {
-      const regex = new RegExp(`{{\s*${key}\s*}}`, 'g');
-      finalPromptText = finalPromptText.replace(regex, variables[key] || '');
-    });
+    updatePromptState(promptToTest.id, { isTesting: true, geminiResponse: undefined, geminiTestError: undefined });
 
     try {
-      const responseText = await testPromptWithGemini(finalPromptText);
-      await updatePromptState(promptToTest.id, { isTesting: false, geminiResponse: responseText, geminiTestError: undefined });
+      const run = await runPrompt(promptToTest.id, variables, { format });
+      updatePromptState(promptToTest.id, run.error
+        ? { isTesting: false, geminiTestError: run.error, geminiResponse: undefined }
+        : { isTesting: false, geminiResponse: run.responseText, geminiTestError: undefined });
     } catch (error: any) {
-      await updatePromptState(promptToTest.id, { isTesting: false, geminiTestError: error.message, geminiResponse: undefined });
+      updatePromptState(promptToTest.id, { isTesting: false, geminiTestError: error.message, geminiResponse: undefined });
     }
   };
 
   /**
-   * @function sanitizeFilename
-   * @description A utility function to sanitize a string for use as a filename.
-   * @param {string} filename - The string to sanitize.
-   * @returns {string} The sanitized filename.
-   * @private
+   * @callback handlePinRun
+   * @description Makes a test run's response the example output of its prompt and refreshes the prompt shown in the detail modal.
+   * @param {string} promptId - The ID of the prompt.
+   * @param {string} runId - The ID of the run to pin.
+   * @throws {Error} Propagates any errors from the store action so the run history can display them.
    */
-  const sanitizeFilename = (filename: string): string => {
-    return filename.replace(/[^a-z0-9_\-\s]/gi, '_').replace(/\s+/g, '_');
+  const handlePinRun = async (promptId: string, runId: string) => {
+    const pinned = await pinPromptRun(promptId, runId);
+    setSelectedPrompt(prev => prev && prev.id === promptId ? { ...prev, ...pinned } : prev);
   };
 
   /**
-   * @function handleExportSinglePrompt
-   * @description Exports a single prompt as a JSON file.
-   * @param {PromptSFL} promptToExport - The prompt to export.
+   * @callback handleChangePromptStatus
+   * @description Moves a prompt to another review status and refreshes the prompt shown in the detail modal.
+   * @param {string} promptId - The ID of the prompt.
+   * @param {PromptStatus} status - The status to move to.
+   * @param {string} [note] - An optional note for the audit trail.
+   * @returns {Promise<PromptReview>} The prompt's review state after the change.
+   * @throws {Error} Propagates any errors from the store action so the review panel can display them.
    */
-  const handleExportSinglePrompt = (promptToExport: PromptSFL) => {
-    if (!promptToExport) {
-      alert("No prompt selected for export.");
-      return;
-    }
-    try {
-      const { isTesting, geminiResponse, geminiTestError, ...exportablePrompt } = promptToExport;
-      const jsonData = JSON.stringify(exportablePrompt, null, 2);
-      const blob = new Blob([jsonData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      const date = new Date().toISOString().slice(0, 10);
-      const sanitizedTitle = sanitizeFilename(promptToExport.title || "untitled");
-      a.href = url;
-      a.download = `sfl-prompt_${sanitizedTitle}_${date}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error("Error exporting prompt:", error);
-      alert("An error occurred while exporting the prompt. Please check the console for details.");
-    }
+  const handleChangePromptStatus = async (promptId: string, status: PromptStatus, note?: string) => {
+    const review = await changePromptStatus(promptId, status, note);
+    setSelectedPrompt(prev => prev && prev.id === promptId ? { ...prev, status: review.status } : prev);
+    return review;
   };
 
   /**
-   * @function handleExportSinglePromptMarkdown
-   * @description Exports a single prompt as a Markdown file.
-   * @param {PromptSFL} promptToExport - The prompt to export.
+   * @callback handleForkPrompt
+   * @description Forks a prompt and opens the new fork in the detail modal.
+   * @param {PromptSFL} prompt - The prompt to fork.
+   * @throws {Error} Propagates any errors from the store action so the detail modal can report them.
    */
-  const handleExportSinglePromptMarkdown = (promptToExport: PromptSFL) => {
-    if (!promptToExport) {
-      alert("No prompt selected for export.");
-      return;
-    }
-    try {
-      const markdownData = promptToMarkdown(promptToExport);
-      const blob = new Blob([markdownData], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      const date = new Date().toISOString().slice(0, 10);
-      const sanitizedTitle = sanitizeFilename(promptToExport.title || "untitled");
-      a.href = url;
-      a.download = `sfl-prompt_${sanitizedTitle}_${date}.md`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error("Error exporting prompt as markdown:", error);
-      alert("An error occurred while exporting the prompt as markdown. Please check the console for details.");
-    }
+  const handleForkPrompt = async (prompt: PromptSFL) => {
+    const fork = await forkPrompt(prompt.id);
+    setSelectedPrompt(fork);
   };
 
   /**
-   * @function handleExportAllPrompts
-   * @description Exports all prompts in the library as a single JSON file.
+   * @callback handleTranslatePrompt
+   * @description Translates a prompt into another locale. The source stays open; its Locales tab lists the new variant.
+   * @param {PromptSFL} prompt - The prompt to translate.
+   * @param {string} locale - The language tag to translate into.
+   * @throws {Error} Propagates any errors from the store action so the detail modal can report them.
    */
-  const handleExportAllPrompts = () => {
-    if (prompts.length === 0) {
-      alert("There are no prompts to export.");
-      return;
-    }
+  const handleTranslatePrompt = async (prompt: PromptSFL, locale: string) => {
+    await translatePrompt(prompt.id, locale);
+  };
+
+  /**
+   * @function downloadExport
+   * @description Asks the server for an export file and hands it to the browser as a download.
+   * @param {PromptExchangeFormat} format - The file format.
+   * @param {string[]} [ids] - The prompts to export; omit to export the whole library.
+   */
+  const downloadExport = async (format: PromptExchangeFormat, ids?: string[]) => {
     try {
-      const exportablePrompts = prompts.map(p => {
-        const { isTesting, geminiResponse, geminiTestError, ...rest } = p;
-        return rest;
-      });
-      const jsonData = JSON.stringify(exportablePrompts, null, 2);
-      const blob = new Blob([jsonData], { type: 'application/json' });
+      const { blob, filename } = await exportPrompts(format, ids);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
-      const date = new Date().toISOString().slice(0, 10);
       a.href = url;
-      a.download = `sfl-prompt-library_${date}.json`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error exporting prompts:", error);
-      alert("An error occurred while exporting prompts. Please check the console for details.");
+      alert(`Export failed: ${error.message}`);
     }
   };
 
   /**
-   * @function handleExportAllPromptsMarkdown
-   * @description Exports all prompts in the library as a single Markdown file.
+   * @function handleExportSinglePrompt
+   * @description Exports a single prompt as a JSON file.
+   * @param {PromptSFL} promptToExport - The prompt to export.
+   */
+  const handleExportSinglePrompt = (promptToExport: PromptSFL) => {
+    downloadExport('json', [promptToExport.id]);
+  };
+
+  /**
+   * @function handleExportSinglePromptMarkdown
+   * @description Exports a single prompt as a Markdown file that can be imported again.
+   * @param {PromptSFL} promptToExport - The prompt to export.
+   */
+  const handleExportSinglePromptMarkdown = (promptToExport: PromptSFL) => {
+    downloadExport('markdown', [promptToExport.id]);
+  };
+
+  /**
+   * @function handleExportAllPrompts
+   * @description Exports every prompt in the library as a single file.
+   * @param {PromptExchangeFormat} format - The file format.
    */
-  const handleExportAllPromptsMarkdown = () => {
-    if (prompts.length === 0) {
+  const handleExportAllPrompts = (format: PromptExchangeFormat) => {
+    if (totalPrompts === 0) {
       alert("There are no prompts to export.");
       return;
     }
-    try {
-      const allPromptsMarkdown = prompts
-        .map(p => promptToMarkdown(p))
-        .join('\n\n---\n\n');
-        
-      const blob = new Blob([allPromptsMarkdown], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      const date = new Date().toISOString().slice(0, 10);
-      a.href = url;
-      a.download = `sfl-prompt-library_${date}.md`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error("Error exporting all prompts as markdown:", error);
-      alert("An error occurred while exporting prompts as markdown. Please check the console for details.");
-    }
+    downloadExport(format);
   };
 
   /**
@@ -502,9 +408,8 @@ const App: React.FC = () => {
 
   /**
    * @callback onFileImport
-   * @description Handles the file import process once a user selects a file.
-   * It reads, parses, and validates the JSON file, then merges the imported prompts
-   * into the existing state, updating existing prompts and adding new ones.
+   * @description Reads the file the user selected and opens the import preview for it.
+   * Parsing, validation and conflict detection all happen on the server.
    * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
    */
   const onFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -512,60 +417,35 @@ const App: React.FC = () => {
       if (!file) return;
 
       const reader = new FileReader();
-      reader.onload = async (e) => {
-          try {
-              const text = e.target?.result;
-              if (typeof text !== 'string') {
-                  throw new Error("File content is not readable.");
-              }
-              const importedData = JSON.parse(text);
-
-              if (!Array.isArray(importedData)) {
-                  throw new Error("Imported file is not a valid prompt array.");
-              }
-
-              const isValid = importedData.every(p => p.id && p.title && p.promptText);
-              if (!isValid) {
-                  throw new Error("Some prompts in the imported file are malformed.");
-              }
-              const importedPrompts = importedData as PromptSFL[];
-              
-              // Import prompts using store actions
-              let newPromptsCount = 0;
-              let updatedPromptsCount = 0;
-              const existingIds = new Set(prompts.map(p => p.id));
-
-              for (const importedPrompt of importedPrompts) {
-                  const cleanPrompt = {
-                      ...importedPrompt,
-                      geminiResponse: undefined,
-                      geminiTestError: undefined,
-                      isTesting: false,
-                  };
-                  
-                  if (existingIds.has(importedPrompt.id)) {
-                      updatedPromptsCount++;
-                  } else {
-                      newPromptsCount++;
-                  }
-                  
-                  await updatePrompt(cleanPrompt);
-              }
-              
-              alert(`Import successful!\n\nNew prompts: ${newPromptsCount}\nUpdated prompts: ${updatedPromptsCount}`);
-
-          } catch (error: any) {
-              console.error("Error importing prompts:", error);
-              alert(`Import failed: ${error.message}`);
-          } finally {
-              if (event.target) {
-                  event.target.value = '';
-              }
+      reader.onload = (e) => {
+          const text = e.target?.result;
+          if (typeof text === 'string') {
+              setImportFile({ name: file.name, content: text });
+              setActiveModal(ModalType.IMPORT_PROMPTS);
+          } else {
+              alert("Import failed: File content is not readable.");
           }
+          event.target.value = '';
       };
       reader.readAsText(file);
   };
 
+  /**
+   * @callback handleImportComplete
+   * @description Closes the import preview, reloads the library and summarizes what was imported.
+   * @param {PromptImportResult} result - The server's report of the import.
+   */
+  const handleImportComplete = (result: PromptImportResult) => {
+      handleCloseModal();
+      setImportFile(null);
+      fetchPrompts();
+      fetchTags();
+      const failed = result.items.filter(item => item.errors.length > 0 && item.status !== 'invalid').length;
+      alert(`Import finished!\n\nNew prompts: ${result.summary.create}\nUpdated prompts: ${result.summary.update}\nSkipped: ${result.summary.skip}` +
+        (failed ? `\n\n${failed} prompt(s) could not be saved; see the console for details.` : ''));
+      if (failed) console.error('Prompts that failed to import:', result.items.filter(item => item.errors.length > 0));
+  };
+
   /**
    * @function renderMainContent
    * @description A router-like function that renders the main content area based on the `activePage` state.
@@ -577,7 +457,7 @@ const App: React.FC = () => {
         case 'dashboard':
             return (
                 <>
-                    <Stats totalPrompts={prompts.length}/>
+                    <Stats totalPrompts={totalPrompts}/>
                     <div className="mt-8">
                         <PromptList 
                             onViewPrompt={handleOpenDetailModal}
@@ -591,6 +471,8 @@ const App: React.FC = () => {
             );
         case 'lab':
             return <PromptLabPage />;
+        case 'trash':
+            return <TrashPage />;
         case 'documentation':
             return <Documentation />;
         case 'settings':
@@ -656,13 +538,15 @@ const App: React.FC = () => {
             ref={importFileRef}
             onChange={onFileImport}
             className="hidden"
-            accept="application/json"
+            accept=".json,.md,.markdown,.yaml,.yml"
         />
 
       <div className="flex-1 flex flex-col overflow-hidden">
         <TopBar 
           onAddNewPrompt={handleOpenCreateModal}
           onOpenWizard={handleOpenWizard}
+          onImport={handleImportPrompts}
+          onExport={handleExportAllPrompts}
         />
         <main className="flex-1 overflow-x-hidden overflow-y-auto p-6">
           {renderMainContent()}
@@ -688,6 +572,12 @@ const App: React.FC = () => {
           onEdit={handleOpenEditModal}
           onDelete={handleDeletePrompt}
           onTestWithGemini={handleTestWithGemini}
+          onRestoreRevision={handleRestoreRevision}
+          onPinRun={handlePinRun}
+          onFork={handleForkPrompt}
+          onTranslate={handleTranslatePrompt}
+          onViewPrompt={handleOpenDetailModal}
+          onChangeStatus={handleChangePromptStatus}
         />
       )}
 
@@ -707,6 +597,15 @@ const App: React.FC = () => {
           onClose={handleCloseModal}
         />
       )}
+
+      {activeModal === ModalType.IMPORT_PROMPTS && importFile && (
+        <ImportPromptsModal
+          isOpen={true}
+          onClose={handleCloseModal}
+          file={importFile}
+          onImported={handleImportComplete}
+        />
+      )}
     </div>
     </AuthGuard>
   );
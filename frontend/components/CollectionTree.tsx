@@ -0,0 +1,223 @@
+/**
+ * @file CollectionTree.tsx
+ * @description This component renders the user's collections as a nested tree in the sidebar.
+ * Selecting a collection filters the prompt library to it (including its sub-collections),
+ * prompt cards can be dragged onto a collection to file them there, and each collection can be
+ * renamed, deleted or given sub-collections.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../store/appStore
+ * @requires ../constants
+ * @requires ./icons/FolderIcon
+ * @requires ./icons/PlusIcon
+ * @requires ./icons/PencilIcon
+ * @requires ./icons/TrashIcon
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Collection } from '../types';
+import { useAppStore } from '../store/appStore';
+import { PROMPT_DRAG_TYPE } from '../constants';
+import FolderIcon from './icons/FolderIcon';
+import PlusIcon from './icons/PlusIcon';
+import PencilIcon from './icons/PencilIcon';
+import TrashIcon from './icons/TrashIcon';
+
+/**
+ * Groups a flat list of collections by their parent ID. Top-level collections are grouped under `''`.
+ *
+ * @param {Collection[]} collections - The flat list of collections.
+ * @returns {Map<string, Collection[]>} The children of each collection, keyed by parent ID.
+ * @private
+ */
+const groupByParent = (collections: Collection[]): Map<string, Collection[]> => {
+  const children = new Map<string, Collection[]>();
+  collections.forEach(collection => {
+    const key = collection.parentId ?? '';
+    children.set(key, [...(children.get(key) || []), collection]);
+  });
+  return children;
+};
+
+/**
+ * A sidebar tree of the user's collections that doubles as a filter and a drop target for prompt cards.
+ *
+ * @returns {JSX.Element} The rendered collection tree.
+ */
+const CollectionTree: React.FC = () => {
+  const {
+    collections,
+    filters,
+    setFilter,
+    addCollection,
+    renameCollection,
+    deleteCollection,
+    addPromptToCollection,
+  } = useAppStore();
+
+  /**
+   * @state {Set<string>} collapsedIds - The collections whose sub-collections are hidden.
+   */
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  /**
+   * @state {string | null} dropTargetId - The collection a prompt card is currently dragged over.
+   */
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const childrenByParent = useMemo(() => groupByParent(collections), [collections]);
+
+  /**
+   * @callback handleCreate
+   * @description Asks for a name and creates a collection, nested under `parentId` if given.
+   * @param {string | null} parentId - The ID of the enclosing collection, or `null` for a top-level collection.
+   */
+  const handleCreate = (parentId: string | null) => {
+    const name = window.prompt(parentId ? 'Name of the new sub-collection:' : 'Name of the new collection:');
+    if (name?.trim()) {
+      addCollection(name.trim(), parentId);
+      if (parentId) {
+        setCollapsedIds(prev => { const next = new Set(prev); next.delete(parentId); return next; });
+      }
+    }
+  };
+
+  /**
+   * @callback handleRename
+   * @description Asks for a new name and renames the collection.
+   * @param {Collection} collection - The collection to rename.
+   */
+  const handleRename = (collection: Collection) => {
+    const name = window.prompt('Rename collection:', collection.name);
+    if (name?.trim() && name.trim() !== collection.name) {
+      renameCollection(collection.id, name.trim());
+    }
+  };
+
+  /**
+   * @callback toggleCollapsed
+   * @description Shows or hides the sub-collections of a collection.
+   * @param {string} collectionId - The ID of the collection.
+   */
+  const toggleCollapsed = (collectionId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(collectionId)) next.delete(collectionId); else next.add(collectionId);
+      return next;
+    });
+  };
+
+  /**
+   * @callback handleDragOver
+   * @description Accepts prompt cards dragged over a collection and highlights it.
+   */
+  const handleDragOver = (e: React.DragEvent, collectionId: string) => {
+    if (!e.dataTransfer.types.includes(PROMPT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDropTargetId(collectionId);
+  };
+
+  /**
+   * @callback handleDrop
+   * @description Files the dropped prompt card in the collection.
+   */
+  const handleDrop = (e: React.DragEvent, collectionId: string) => {
+    const promptId = e.dataTransfer.getData(PROMPT_DRAG_TYPE);
+    setDropTargetId(null);
+    if (!promptId) return;
+    e.preventDefault();
+    addPromptToCollection(collectionId, promptId);
+  };
+
+  /**
+   * Renders a collection and, unless collapsed, its sub-collections.
+   *
+   * @param {Collection} collection - The collection to render.
+   * @param {number} depth - The nesting depth, used for indentation.
+   * @returns {React.ReactElement} The rendered branch.
+   * @private
+   */
+  const renderBranch = (collection: Collection, depth: number): React.ReactElement => {
+    const children = childrenByParent.get(collection.id) || [];
+    const isCollapsed = collapsedIds.has(collection.id);
+    const isSelected = filters.collection === collection.id;
+    const isDropTarget = dropTargetId === collection.id;
+
+    return (
+      <li key={collection.id}>
+        <div
+          onDragOver={(e) => handleDragOver(e, collection.id)}
+          onDragLeave={() => setDropTargetId(prev => prev === collection.id ? null : prev)}
+          onDrop={(e) => handleDrop(e, collection.id)}
+          className={`group flex items-center rounded-md text-sm transition-colors ${
+            isDropTarget ? 'bg-[#e2a32d]/30 ring-1 ring-[#e2a32d]' : isSelected ? 'bg-[#333e48] text-gray-200' : 'text-[#95aac0] hover:bg-[#333e48]'
+          }`}
+          style={{ paddingLeft: `${depth * 12}px` }}
+        >
+          <button
+            onClick={() => toggleCollapsed(collection.id)}
+            className={`w-5 text-xs text-[#5c6f7e] hover:text-gray-200 ${children.length ? '' : 'invisible'}`}
+            aria-label={isCollapsed ? `Expand ${collection.name}` : `Collapse ${collection.name}`}
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+          <button
+            onClick={() => setFilter('collection', isSelected ? '' : collection.id)}
+            className="flex flex-grow items-center min-w-0 py-1.5 text-left"
+            title={collection.name}
+          >
+            <FolderIcon className="w-4 h-4 mr-2 shrink-0" />
+            <span className="truncate">{collection.name}</span>
+            <span className="ml-2 text-xs text-[#5c6f7e]">{collection.promptCount}</span>
+          </button>
+          <div className="hidden group-hover:flex items-center pr-1 space-x-1">
+            <button onClick={() => handleCreate(collection.id)} className="p-0.5 hover:text-gray-200" aria-label={`Add sub-collection to ${collection.name}`}>
+              <PlusIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => handleRename(collection)} className="p-0.5 hover:text-gray-200" aria-label={`Rename ${collection.name}`}>
+              <PencilIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => deleteCollection(collection.id)} className="p-0.5 hover:text-red-300" aria-label={`Delete ${collection.name}`}>
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        {children.length > 0 && !isCollapsed && (
+          <ul>{children.map(child => renderBranch(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  const topLevel = childrenByParent.get('') || [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-3 mb-2">
+        <h3 className="text-xs font-semibold text-[#95aac0] uppercase tracking-wider">Collections</h3>
+        <button onClick={() => handleCreate(null)} className="text-[#95aac0] hover:text-gray-200" aria-label="New collection">
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="px-3">
+        <button
+          onClick={() => setFilter('collection', '')}
+          className={`flex w-full items-center py-1.5 pl-5 rounded-md text-sm transition-colors ${
+            filters.collection ? 'text-[#95aac0] hover:bg-[#333e48]' : 'text-gray-200 bg-[#333e48]'
+          }`}
+        >
+          All Prompts
+        </button>
+        {topLevel.length > 0 ? (
+          <ul>{topLevel.map(collection => renderBranch(collection, 0))}</ul>
+        ) : (
+          <p className="pl-5 py-1 text-xs text-[#5c6f7e]">No collections yet. Create one, then drag prompts onto it.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionTree;
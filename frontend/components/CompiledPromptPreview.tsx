@@ -0,0 +1,85 @@
+/**
+ * @file CompiledPromptPreview.tsx
+ * @description This component previews a prompt compiled into the message layout of a provider, as the server
+ * would send it on a test run: the system message built from the SFL Tenor and Mode, and the user message framing
+ * the prompt text with its Field. Variables are shown as placeholders.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../services/promptApiService
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CompiledPrompt, PromptCompileFormat } from '../types';
+import { getCompiledPrompt } from '../services/promptApiService';
+
+/**
+ * @interface CompiledPromptPreviewProps
+ * @description Defines the props for the `CompiledPromptPreview` component.
+ * @property {string} promptId - The ID of the prompt to compile.
+ * @property {PromptCompileFormat} format - The layout to compile into.
+ * @property {string} updatedAt - When the prompt was last saved, so that the preview refreshes after an edit.
+ */
+interface CompiledPromptPreviewProps {
+  promptId: string;
+  format: PromptCompileFormat;
+  updatedAt: string;
+}
+
+/**
+ * A preview of the system and user messages a prompt compiles into.
+ *
+ * @param {CompiledPromptPreviewProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered preview.
+ */
+const CompiledPromptPreview: React.FC<CompiledPromptPreviewProps> = ({ promptId, format, updatedAt }) => {
+  /**
+   * @state {CompiledPrompt | null} compiled - The compiled prompt, once loaded.
+   */
+  const [compiled, setCompiled] = useState<CompiledPrompt | null>(null);
+
+  /**
+   * @state {string | null} error - The error raised while compiling, if any.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @effect Compiles the prompt whenever the layout changes or the prompt is saved again.
+   * Responses for a layout that is no longer selected are ignored.
+   */
+  useEffect(() => {
+    let isCurrent = true;
+    setCompiled(null);
+    setError(null);
+    getCompiledPrompt(promptId, format)
+      .then(result => { if (isCurrent) setCompiled(result); })
+      .catch((err: any) => { if (isCurrent) setError(err.message); });
+    return () => {
+      isCurrent = false;
+    };
+  }, [promptId, format, updatedAt]);
+
+  if (error) {
+    return <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>;
+  }
+  if (!compiled) {
+    return <p className="text-sm text-gray-400">Compiling...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {compiled.system && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-500 mb-1">System Message</h4>
+          <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-words max-h-48 overflow-y-auto border border-[#5c6f7e]">{compiled.system}</pre>
+        </div>
+      )}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-500 mb-1">{format === 'plain' ? 'Prompt' : 'User Message'}</h4>
+        <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-words max-h-48 overflow-y-auto border border-[#5c6f7e]">{compiled.user}</pre>
+      </div>
+    </div>
+  );
+};
+
+export default CompiledPromptPreview;
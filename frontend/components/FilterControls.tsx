@@ -1,7 +1,8 @@
 /**
  * @file FilterControls.tsx
  * @description This component provides a set of UI controls for filtering a list of prompts.
- * It allows users to filter by a search term, topic, task type, AI persona, and output format.
+ * It allows users to narrow the library to their own or shared prompts, and to filter by a search term,
+ * topic, task type, AI persona, output format, and locale.
  * The component is designed to be a controlled component, receiving the current filter state and
  * callback functions from its parent to handle state changes.
  *
@@ -12,7 +13,7 @@
 
 import React from 'react';
 import { Filters } from '../types';
-import { TASK_TYPES, AI_PERSONAS, OUTPUT_FORMATS } from '../constants';
+import { TASK_TYPES, AI_PERSONAS, OUTPUT_FORMATS, PROMPT_LOCALES } from '../constants';
 
 /**
  * @interface FilterControlsProps
@@ -53,6 +54,20 @@ const FilterControls: React.FC<FilterControlsProps> = ({ filters, onFilterChange
     <div className="bg-[#333e48] p-4 shadow-lg rounded-lg h-full flex flex-col text-gray-200">
       <h2 className="text-xl font-semibold text-[#e2a32d] mb-4 border-b pb-2 border-[#5c6f7e]">Filter Prompts</h2>
       <div className="space-y-4 flex-grow overflow-y-auto pr-2">
+        <div>
+          <label htmlFor="scope" className="block text-sm font-medium text-[#95aac0] mb-1">Library</label>
+          <select
+            id="scope"
+            name="scope"
+            value={filters.scope}
+            onChange={handleInputChange}
+            className="w-full px-3 py-2 bg-[#212934] border border-[#5c6f7e] text-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-[#e2a32d] focus:border-[#e2a32d] transition-colors"
+          >
+            <option value="" className="bg-[#212934] text-gray-200">All Visible Prompts</option>
+            <option value="mine" className="bg-[#212934] text-gray-200">My Prompts</option>
+            <option value="shared" className="bg-[#212934] text-gray-200">Shared With Me</option>
+          </select>
+        </div>
         <div>
           <label htmlFor="searchTerm" className="block text-sm font-medium text-[#95aac0] mb-1">Search Term</label>
           <input
@@ -116,6 +131,19 @@ const FilterControls: React.FC<FilterControlsProps> = ({ filters, onFilterChange
             {OUTPUT_FORMATS.map(format => <option key={format} value={format} className="bg-[#212934] text-gray-200">{format}</option>)}
           </select>
         </div>
+        <div>
+          <label htmlFor="locale" className="block text-sm font-medium text-[#95aac0] mb-1">Locale</label>
+          <select
+            id="locale"
+            name="locale"
+            value={filters.locale}
+            onChange={handleInputChange}
+            className="w-full px-3 py-2 bg-[#212934] border border-[#5c6f7e] text-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-[#e2a32d] focus:border-[#e2a32d] transition-colors"
+          >
+            <option value="" className="text-[#95aac0]">All Locales</option>
+            {PROMPT_LOCALES.map(({ code, label }) => <option key={code} value={code} className="bg-[#212934] text-gray-200">{label} ({code})</option>)}
+          </select>
+        </div>
       </div>
       <button
         onClick={onResetFilters}
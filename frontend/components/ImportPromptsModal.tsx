@@ -0,0 +1,407 @@
+/**
+ * @file ImportPromptsModal.tsx
+ * @description This component previews and runs the import of a prompt file.
+ * As soon as a file is chosen, the server performs a dry run and reports, for each prompt in the file,
+ * whether it would be created, update an existing prompt or be skipped, together with any conflicts,
+ * duplicates or invalid SFL fields. The user picks how ID conflicts are handled and then confirms the import.
+ * Plain-text prompts can have their empty SFL fields inferred by a model first: each suggestion shows how
+ * confident the model is, and only the suggestions the user accepts, as written or after editing, are imported.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../constants
+ * @requires ../services/promptApiService
+ * @requires ./ModalShell
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ImportConflictStrategy, PromptAnnotationItem, PromptExchangeFormat, PromptImportItem, PromptImportResult } from '../types';
+import { SFL_FIELD_LABELS } from '../constants';
+import { annotateImport, importPrompts } from '../services/promptApiService';
+import ModalShell from './ModalShell';
+
+/**
+ * @interface ImportPromptsModalProps
+ * @description Defines the props for the `ImportPromptsModal` component.
+ * @property {boolean} isOpen - Controls the visibility of the modal.
+ * @property {() => void} onClose - Callback to close the modal.
+ * @property {{ name: string; content: string }} file - The name and text of the file to import.
+ * @property {(result: PromptImportResult) => void} onImported - Callback invoked after the prompts have been written.
+ */
+interface ImportPromptsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: { name: string; content: string };
+  onImported: (result: PromptImportResult) => void;
+}
+
+/**
+ * @constant {{value: ImportConflictStrategy; label: string}[]} CONFLICT_OPTIONS - The ways of handling prompts whose ID already exists.
+ * @private
+ */
+const CONFLICT_OPTIONS: { value: ImportConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Keep the existing prompt' },
+  { value: 'overwrite', label: 'Overwrite the existing prompt' },
+  { value: 'copy', label: 'Import as a new copy' },
+];
+
+/**
+ * @constant {Record<PromptImportItem['action'], {label: string; className: string}>} ACTION_BADGES - The badge shown for each planned action.
+ * @private
+ */
+const ACTION_BADGES: Record<PromptImportItem['action'], { label: string; className: string }> = {
+  create: { label: 'New', className: 'text-green-400 bg-green-900/20' },
+  update: { label: 'Overwrite', className: 'text-[#e2a32d] bg-[#e2a32d]/20' },
+  skip: { label: 'Skip', className: 'text-[#95aac0] bg-[#212934]' },
+};
+
+/**
+ * @constant {number} ANNOTATION_BATCH_SIZE - How many prompts are annotated per request; the server allows at most 20.
+ * @private
+ */
+const ANNOTATION_BATCH_SIZE = 20;
+
+/**
+ * A suggested SFL field as reviewed by the user: its value, possibly edited, and whether it is accepted.
+ * @private
+ */
+interface SuggestionDraft {
+  value: string;
+  confidence: number;
+  accepted: boolean;
+}
+
+/**
+ * Describes a confidence from 0 to 1 as a badge.
+ *
+ * @param {number} confidence - The model's confidence.
+ * @returns {{label: string; className: string}} The badge's text and colours.
+ * @private
+ */
+const confidenceBadge = (confidence: number): { label: string; className: string } => {
+  if (confidence >= 0.75) return { label: 'High', className: 'text-green-400 bg-green-900/20' };
+  if (confidence >= 0.4) return { label: 'Medium', className: 'text-[#e2a32d] bg-[#e2a32d]/20' };
+  return { label: 'Low', className: 'text-red-300 bg-red-900/20' };
+};
+
+/**
+ * Guesses the format of a file from its extension. JSON files are left to the server, which tells
+ * the native format and OpenAI chat messages apart by their content.
+ *
+ * @param {string} filename - The name of the file.
+ * @returns {PromptExchangeFormat | undefined} The format, or undefined to let the server detect it.
+ * @private
+ */
+const formatFromFilename = (filename: string): PromptExchangeFormat | undefined => {
+  if (/\.(md|markdown)$/i.test(filename)) return 'markdown';
+  if (/\.ya?ml$/i.test(filename)) return 'promptfoo';
+  return undefined;
+};
+
+/**
+ * A modal that previews an import with a server-side dry run and then imports the file.
+ *
+ * @param {ImportPromptsModalProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered import modal.
+ */
+const ImportPromptsModal: React.FC<ImportPromptsModalProps> = ({ isOpen, onClose, file, onImported }) => {
+  /**
+   * @state {ImportConflictStrategy} onConflict - How prompts whose ID already exists are handled.
+   */
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('skip');
+
+  /**
+   * @state {PromptImportResult | null} preview - The dry-run report for the current file and conflict strategy.
+   */
+  const [preview, setPreview] = useState<PromptImportResult | null>(null);
+
+  /**
+   * @state {object} requestState - Whether the preview is loading, whether the import is running, and the last error.
+   */
+  const [requestState, setRequestState] = useState({ loading: false, importing: false, error: '' });
+
+  /**
+   * @state {Record<number, Record<string, SuggestionDraft>>} drafts - The reviewed suggestions, by prompt index and field path.
+   */
+  const [drafts, setDrafts] = useState<Record<number, Record<string, SuggestionDraft>>>({});
+
+  /**
+   * @state {Record<number, string>} annotationErrors - Why a prompt could not be annotated, by prompt index.
+   */
+  const [annotationErrors, setAnnotationErrors] = useState<Record<number, string>>({});
+
+  /**
+   * @state {{done: number; total: number} | null} annotationProgress - How many prompts have been annotated while annotating.
+   */
+  const [annotationProgress, setAnnotationProgress] = useState<{ done: number; total: number } | null>(null);
+
+  /**
+   * @effect Drops the suggestions of the previous file, since they refer to prompts by their position in it.
+   */
+  useEffect(() => {
+    setDrafts({});
+    setAnnotationErrors({});
+  }, [file]);
+
+  /**
+   * @effect Runs the dry run whenever the file or the conflict strategy changes.
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setRequestState({ loading: true, importing: false, error: '' });
+    importPrompts({ content: file.content, format: formatFromFilename(file.name), onConflict, dryRun: true })
+      .then(result => {
+        if (cancelled) return;
+        setPreview(result);
+        setRequestState({ loading: false, importing: false, error: '' });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setPreview(null);
+        setRequestState({ loading: false, importing: false, error: error.message });
+      });
+    return () => { cancelled = true; };
+  }, [file, onConflict, isOpen]);
+
+  /**
+   * @callback handleImport
+   * @description Writes the previewed prompts and hands the final report to the parent.
+   */
+  const handleImport = async () => {
+    setRequestState(prev => ({ ...prev, importing: true, error: '' }));
+    try {
+      const result = await importPrompts({ content: file.content, format: formatFromFilename(file.name), onConflict, annotations: acceptedAnnotations() });
+      onImported(result);
+    } catch (error: any) {
+      console.error('Error importing prompts:', error);
+      setRequestState(prev => ({ ...prev, importing: false, error: error.message }));
+    }
+  };
+
+  /**
+   * @callback handleAnnotate
+   * @description Has the model infer the empty SFL fields of every prompt that would be imported, in batches,
+   * and adds its suggestions for review. Nothing is accepted until the user says so.
+   */
+  const handleAnnotate = async () => {
+    if (!preview) return;
+    const indexes = preview.items.filter(item => item.action !== 'skip').map(item => item.index);
+    setRequestState(prev => ({ ...prev, error: '' }));
+    setAnnotationProgress({ done: 0, total: indexes.length });
+    try {
+      for (let start = 0; start < indexes.length; start += ANNOTATION_BATCH_SIZE) {
+        const batch = indexes.slice(start, start + ANNOTATION_BATCH_SIZE);
+        const items = await annotateImport({ content: file.content, format: formatFromFilename(file.name), indexes: batch });
+        addSuggestions(items);
+        setAnnotationProgress({ done: start + batch.length, total: indexes.length });
+      }
+    } catch (error: any) {
+      console.error('Error annotating prompts:', error);
+      setRequestState(prev => ({ ...prev, error: error.message }));
+    } finally {
+      setAnnotationProgress(null);
+    }
+  };
+
+  /**
+   * @function addSuggestions
+   * @description Stores a batch of suggestions as unaccepted drafts, replacing earlier ones for the same prompts.
+   * @param {PromptAnnotationItem[]} items - The annotated prompts.
+   */
+  const addSuggestions = (items: PromptAnnotationItem[]) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      for (const item of items) {
+        next[item.index] = Object.fromEntries(item.suggestions.map(({ field, value, confidence }) => [field, { value, confidence, accepted: false }]));
+      }
+      return next;
+    });
+    setAnnotationErrors(prev => {
+      const next = { ...prev };
+      for (const item of items) {
+        if (item.error) next[item.index] = item.error;
+        else delete next[item.index];
+      }
+      return next;
+    });
+  };
+
+  /**
+   * @function updateDraft
+   * @description Changes the value or acceptance of one suggestion.
+   * @param {number} index - The prompt's position in the file.
+   * @param {string} field - The field path.
+   * @param {Partial<SuggestionDraft>} changes - The changes to apply.
+   */
+  const updateDraft = (index: number, field: string, changes: Partial<SuggestionDraft>) => {
+    setDrafts(prev => ({ ...prev, [index]: { ...prev[index], [field]: { ...prev[index][field], ...changes } } }));
+  };
+
+  /**
+   * @function acceptHighConfidence
+   * @description Accepts every suggestion the model is highly confident about.
+   */
+  const acceptHighConfidence = () => {
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).map(([index, fields]) => [
+      index,
+      Object.fromEntries(Object.entries(fields).map(([field, draft]) => [
+        field,
+        confidenceBadge(draft.confidence).label === 'High' && draft.value.trim() ? { ...draft, accepted: true } : draft,
+      ])),
+    ])));
+  };
+
+  /**
+   * @function acceptedAnnotations
+   * @description Collects the accepted, non-empty suggestions in the shape the import expects.
+   * @returns {Record<number, Record<string, string>> | undefined} The accepted values, or undefined if none were accepted.
+   */
+  const acceptedAnnotations = (): Record<number, Record<string, string>> | undefined => {
+    const annotations: Record<number, Record<string, string>> = {};
+    for (const [index, fields] of Object.entries(drafts)) {
+      const accepted = Object.entries(fields).filter(([, draft]) => draft.accepted && draft.value.trim());
+      if (accepted.length > 0) annotations[Number(index)] = Object.fromEntries(accepted.map(([field, draft]) => [field, draft.value]));
+    }
+    return Object.keys(annotations).length > 0 ? annotations : undefined;
+  };
+
+  const writeCount = preview ? preview.summary.create + preview.summary.update : 0;
+  const suggestionCount = Object.values(drafts).reduce((sum, fields) => sum + Object.keys(fields).length, 0);
+  const acceptedCount = Object.values(drafts).reduce((sum, fields) => sum + Object.values(fields).filter(draft => draft.accepted).length, 0);
+
+  return (
+    <ModalShell isOpen={isOpen} onClose={onClose} title={`Import ${file.name}`} size="3xl">
+      <div className="space-y-4 text-gray-200">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <label htmlFor="importConflict" className="block text-sm font-medium text-[#95aac0] mb-1">When a prompt already exists</label>
+            <select
+              id="importConflict"
+              value={onConflict}
+              onChange={e => setOnConflict(e.target.value as ImportConflictStrategy)}
+              className="px-3 py-2 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200"
+            >
+              {CONFLICT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          {preview && (
+            <p className="text-sm text-[#95aac0]">
+              Read as <span className="text-gray-200 font-medium">{preview.format}</span>:{' '}
+              {preview.summary.create} new, {preview.summary.update} to overwrite, {preview.summary.skip} skipped
+            </p>
+          )}
+        </div>
+
+        {preview && !requestState.loading && writeCount > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm">
+            <p className="text-[#95aac0]">
+              {annotationProgress
+                ? `Inferring SFL fields… ${annotationProgress.done} of ${annotationProgress.total} prompts`
+                : suggestionCount > 0
+                  ? `${acceptedCount} of ${suggestionCount} suggested SFL fields accepted`
+                  : 'Infer the SFL fields these prompts leave empty. The prompt text is not changed.'}
+            </p>
+            <div className="flex gap-2">
+              {suggestionCount > 0 && !annotationProgress && (
+                <button
+                  type="button"
+                  onClick={acceptHighConfidence}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-md hover:bg-[#212934]"
+                >
+                  Accept high confidence
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleAnnotate}
+                disabled={!!annotationProgress || requestState.importing}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {suggestionCount > 0 ? 'Infer again' : 'Infer SFL fields'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {requestState.loading && <p className="text-sm text-[#95aac0]">Checking the file…</p>}
+
+        {requestState.error && (
+          <div className="bg-red-900/20 border border-red-600 rounded-md p-3 text-sm text-red-300">{requestState.error}</div>
+        )}
+
+        {preview && !requestState.loading && (
+          <ul className="divide-y divide-[#5c6f7e] border border-[#5c6f7e] rounded-md max-h-96 overflow-y-auto">
+            {preview.items.map(item => (
+              <li key={item.index} className="p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium truncate" title={item.title}>{item.title}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {item.status !== 'new' && <span className="text-xs text-[#95aac0] capitalize">{item.status}</span>}
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-md ${ACTION_BADGES[item.action].className}`}>
+                      {ACTION_BADGES[item.action].label}
+                    </span>
+                  </div>
+                </div>
+                {item.errors.map(error => <p key={error} className="text-xs text-red-300 mt-1">{error}</p>)}
+                {item.warnings.map(warning => <p key={warning} className="text-xs text-amber-400 mt-1">{warning}</p>)}
+                {annotationErrors[item.index] && <p className="text-xs text-red-300 mt-1">{annotationErrors[item.index]}</p>}
+                {drafts[item.index] && Object.keys(drafts[item.index]).length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {Object.entries(drafts[item.index]).map(([field, draft]) => {
+                      const badge = confidenceBadge(draft.confidence);
+                      return (
+                        <div key={field} className="flex items-center gap-2 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={draft.accepted}
+                            onChange={e => updateDraft(item.index, field, { accepted: e.target.checked })}
+                            aria-label={`Accept ${SFL_FIELD_LABELS[field] ?? field}`}
+                            className="accent-[#4A69E2]"
+                          />
+                          <span className="w-36 shrink-0 text-[#95aac0]">{SFL_FIELD_LABELS[field] ?? field}</span>
+                          <input
+                            type="text"
+                            value={draft.value}
+                            onChange={e => updateDraft(item.index, field, { value: e.target.value })}
+                            className="flex-1 min-w-0 px-2 py-1 bg-[#212934] border border-[#5c6f7e] rounded text-gray-200"
+                          />
+                          <span className={`w-16 shrink-0 text-center px-2 py-0.5 font-semibold rounded-md ${badge.className}`} title={`Confidence ${Math.round(draft.confidence * 100)}%`}>
+                            {badge.label}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {drafts[item.index] && Object.keys(drafts[item.index]).length === 0 && !annotationErrors[item.index] && (
+                  <p className="text-xs text-[#95aac0] mt-1">No SFL fields to suggest.</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-[#5c6f7e]">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-md hover:bg-[#212934]"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!preview || writeCount === 0 || requestState.loading || requestState.importing || !!annotationProgress}
+            className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#c36e26] rounded-md hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {requestState.importing ? 'Importing…' : `Import ${writeCount} prompt${writeCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </ModalShell>
+  );
+};
+
+export default ImportPromptsModal;
@@ -2,11 +2,15 @@
  * @file PromptCard.tsx
  * @description This component renders a single card representing an SFL prompt.
  * It displays key information such as the title, task type, persona, and format,
- * providing a quick, scannable overview. It also includes a dropdown menu with
- * actions like View, Edit, and Delete.
+ * providing a quick, scannable overview. A badge shows whether the prompt is the user's own,
+ * shared with them, or public, and another shows its review status once it has left draft. It also includes a dropdown menu with actions like View, Edit,
+ * and Delete; Edit and Delete are only offered when the user is allowed to perform them.
+ * The card can be dragged onto a collection in the sidebar to file the prompt there.
  *
  * @requires react
  * @requires ../types
+ * @requires ../constants
+ * @requires ./PromptReviewPanel
  * @requires ./icons/EllipsisVerticalIcon
  * @requires ./icons/CodeBracketIcon
  * @requires ./icons/ChatBubbleLeftRightIcon
@@ -18,7 +22,9 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { PromptSFL } from '../types';
+import { PromptSFL, PromptAccess } from '../types';
+import { PROMPT_DRAG_TYPE } from '../constants';
+import { PromptStatusBadge } from './PromptReviewPanel';
 import EllipsisVerticalIcon from './icons/EllipsisVerticalIcon';
 import CodeBracketIcon from './icons/CodeBracketIcon';
 import ChatBubbleLeftRightIcon from './icons/ChatBubbleLeftRightIcon';
@@ -38,6 +44,7 @@ import ArrowDownTrayIcon from './icons/ArrowDownTrayIcon';
  * @property {(promptId: string) => void} onDelete - Callback function invoked when the "Delete" action is selected from the menu.
  * @property {(prompt: PromptSFL) => void} onExportJSON - Callback function invoked when the "Export JSON" action is selected from the menu.
  * @property {(prompt: PromptSFL) => void} onExportMarkdown - Callback function invoked when the "Export MD" action is selected from the menu.
+ * @property {(promptId: string) => void} [onRemoveFromCollection] - Callback invoked when the "Remove from Collection" action is selected. The action is only shown when provided.
  */
 interface PromptCardProps {
   prompt: PromptSFL;
@@ -46,8 +53,19 @@ interface PromptCardProps {
   onDelete: (promptId: string) => void;
   onExportJSON: (prompt: PromptSFL) => void;
   onExportMarkdown: (prompt: PromptSFL) => void;
+  onRemoveFromCollection?: (promptId: string) => void;
 }
 
+/**
+ * @constant {Record<PromptAccess, {label: string; className: string}>} ACCESS_BADGES - The badge shown for each access level.
+ * @private
+ */
+const ACCESS_BADGES: Record<PromptAccess, { label: string; className: string }> = {
+  owner: { label: 'Mine', className: 'text-[#e2a32d] bg-[#e2a32d]/20' },
+  shared: { label: 'Shared with me', className: 'text-sky-400 bg-sky-900/20' },
+  public: { label: 'Public', className: 'text-[#95aac0] bg-[#212934]' },
+};
+
 /**
  * A utility function that returns a specific icon component based on the task type string.
  * This helps in visually distinguishing different types of prompts in the UI.
@@ -73,12 +91,12 @@ const getTaskIcon = (taskType: string): React.ReactElement => {
 /**
  * A card component that displays a summary of an SFL prompt and provides actions.
  * It shows the prompt's title, a snippet of its text, key SFL parameters (Task, Persona, Format),
- * and associated keywords. An options menu allows the user to view, edit, or delete the prompt.
+ * and its tags and keywords. An options menu allows the user to view, edit, or delete the prompt.
  *
  * @param {PromptCardProps} props - The props for the component.
  * @returns {JSX.Element} The rendered prompt card.
  */
-const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelete, onExportJSON, onExportMarkdown }) => {
+const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelete, onExportJSON, onExportMarkdown, onRemoveFromCollection }) => {
   /**
    * @state {boolean} menuOpen - Manages the visibility of the dropdown actions menu.
    */
@@ -90,6 +108,9 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
   const menuRef = useRef<HTMLDivElement>(null);
 
   const isTested = !!prompt.geminiResponse;
+  const accessBadge = prompt.access ? ACCESS_BADGES[prompt.access] : null;
+  const canEdit = prompt.access !== 'public';
+  const canDelete = !prompt.access || prompt.access === 'owner';
 
   /**
    * @constant {Record<string, string>} cardIconColorMapping - A mapping of task types to Tailwind CSS classes for styling the card's icon.
@@ -121,8 +142,17 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [menuRef]);
 
+  /**
+   * @callback handleDragStart
+   * @description Carries the prompt's ID in the drag so a collection in the sidebar can accept it.
+   */
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.setData(PROMPT_DRAG_TYPE, prompt.id);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
   return (
-    <div className="bg-[#333e48] shadow-sm rounded-lg p-5 border border-[#5c6f7e] hover:shadow-md transition-shadow duration-200 flex flex-col justify-between">
+    <div draggable onDragStart={handleDragStart} className="cursor-grab bg-[#333e48] shadow-sm rounded-lg p-5 border border-[#5c6f7e] hover:shadow-md transition-shadow duration-200 flex flex-col justify-between">
       <div>
         <div className="flex justify-between items-start mb-3">
             <div className="flex items-center gap-3">
@@ -144,7 +174,9 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
                 {menuOpen && (
                     <div className="absolute right-0 mt-2 w-48 bg-[#333e48] rounded-md shadow-lg z-10 border border-[#5c6f7e]">
                     <button onClick={() => { onView(prompt); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934]">View Details</button>
-                    <button onClick={() => { onEdit(prompt); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934]">Edit</button>
+                    {canEdit && (
+                      <button onClick={() => { onEdit(prompt); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934]">Edit</button>
+                    )}
                     <div className="border-t border-[#5c6f7e] my-1"></div>
                     <button onClick={() => { onExportJSON(prompt); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934] flex items-center">
                       <ArrowDownTrayIcon className="w-4 h-4 mr-2" /> Export JSON
@@ -152,8 +184,18 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
                     <button onClick={() => { onExportMarkdown(prompt); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934] flex items-center">
                       <DocumentTextIcon className="w-4 h-4 mr-2" /> Export MD
                     </button>
-                    <div className="border-t border-[#5c6f7e] my-1"></div>
-                    <button onClick={() => { onDelete(prompt.id); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-red-300 hover:bg-red-900/20">Delete</button>
+                    {onRemoveFromCollection && (
+                      <>
+                        <div className="border-t border-[#5c6f7e] my-1"></div>
+                        <button onClick={() => { onRemoveFromCollection(prompt.id); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934]">Remove from Collection</button>
+                      </>
+                    )}
+                    {canDelete && (
+                      <>
+                        <div className="border-t border-[#5c6f7e] my-1"></div>
+                        <button onClick={() => { onDelete(prompt.id); setMenuOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-red-300 hover:bg-red-900/20">Delete</button>
+                      </>
+                    )}
                     </div>
                 )}
             </div>
@@ -168,6 +210,11 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
         </div>
 
         <div className="flex flex-wrap gap-2 mb-4">
+          {(prompt.tags || []).map((tag) => (
+            <span key={`tag-${tag}`} className="px-2 py-0.5 text-xs font-medium text-[#e2a32d] bg-[#e2a32d]/20 rounded-full">
+              {tag}
+            </span>
+          ))}
           {prompt.sflField.keywords.split(',').slice(0, 3).map((keyword) => (
             keyword.trim() && (
               <span key={keyword} className="px-2 py-0.5 text-xs font-medium text-[#95aac0] bg-[#212934] rounded-full">
@@ -180,11 +227,22 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, onView, onEdit, onDelet
       
       <div className="border-t border-[#5c6f7e] pt-4 flex justify-between items-center text-sm">
         <p className="text-[#95aac0]">Updated {new Date(prompt.updatedAt).toLocaleDateString()}</p>
-        {isTested ? (
-          <span className="px-2 py-1 text-xs font-semibold text-green-400 bg-green-900/20 rounded-md">Tested</span>
-        ) : (
-          <span className="px-2 py-1 text-xs font-semibold text-amber-400 bg-amber-900/20 rounded-md">Not Tested</span>
-        )}
+        <div className="flex items-center gap-2">
+          {prompt.locale && (
+            <span className="px-2 py-1 text-xs font-semibold rounded-md bg-[#212934] text-[#95aac0] border border-[#5c6f7e]" title={prompt.localeSourceId ? 'Translated variant' : 'Locale'}>
+              {prompt.locale}
+            </span>
+          )}
+          {prompt.status && prompt.status !== 'draft' && <PromptStatusBadge status={prompt.status} />}
+          {accessBadge && (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-md ${accessBadge.className}`}>{accessBadge.label}</span>
+          )}
+          {isTested ? (
+            <span className="px-2 py-1 text-xs font-semibold text-green-400 bg-green-900/20 rounded-md">Tested</span>
+          ) : (
+            <span className="px-2 py-1 text-xs font-semibold text-amber-400 bg-amber-900/20 rounded-md">Not Tested</span>
+          )}
+        </div>
       </div>
     </div>
   );
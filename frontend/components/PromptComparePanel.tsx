@@ -0,0 +1,234 @@
+/**
+ * @file PromptComparePanel.tsx
+ * @description This component runs one prompt against several provider/model/parameter combinations at once
+ * and lays the outputs out side by side. Each column shows the output together with its token usage and
+ * processing time, and words that differ from the first column are highlighted.
+ *
+ * @requires react
+ * @requires ../types/aiProvider
+ * @requires ../config/modelCapabilities
+ * @requires ../services/geminiService
+ * @requires ../utils/textDiff
+ * @requires ./icons/TrashIcon
+ */
+
+import React, { useState } from 'react';
+import { AIProvider, ComparisonConfig, ComparisonResult } from '../types/aiProvider';
+import { PROVIDER_CONFIGS, getProviderModels } from '../config/modelCapabilities';
+import { comparePrompt } from '../services/geminiService';
+import { diffWords } from '../utils/textDiff';
+import TrashIcon from './icons/TrashIcon';
+
+/**
+ * @interface PromptComparePanelProps
+ * @description Defines the props for the `PromptComparePanel` component.
+ * @property {string} promptText - The prompt text to compare, with its variables filled in.
+ * @property {string} [disabledReason] - Why the prompt cannot be run yet, e.g. because variables are missing.
+ */
+interface PromptComparePanelProps {
+  promptText: string;
+  disabledReason?: string;
+}
+
+/**
+ * @constant {number} MAX_CONFIGS - How many combinations can be compared at once; matches the server's limit.
+ * @private
+ */
+const MAX_CONFIGS = 6;
+
+/**
+ * @constant {Record<string, string>} SEGMENT_CLASSES - Highlighting for the segments of a word diff.
+ * @private
+ */
+const SEGMENT_CLASSES: Record<string, string> = {
+  equal: '',
+  added: 'bg-[#e2a32d]/30 text-gray-100 rounded-sm',
+  removed: 'line-through text-red-300/70',
+};
+
+/**
+ * Builds a combination for a provider using its first model and default temperature.
+ *
+ * @param {AIProvider} provider - The provider.
+ * @returns {Required<ComparisonConfig>} The new combination.
+ * @private
+ */
+const createConfig = (provider: AIProvider): Required<ComparisonConfig> => ({
+  provider,
+  model: getProviderModels(provider)[0]?.id || '',
+  parameters: { temperature: PROVIDER_CONFIGS[provider].defaultParameters.temperature ?? 0.7 },
+});
+
+/**
+ * A panel for comparing the outputs of one prompt across providers, models and parameters.
+ *
+ * @param {PromptComparePanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered comparison panel.
+ */
+const PromptComparePanel: React.FC<PromptComparePanelProps> = ({ promptText, disabledReason }) => {
+  /**
+   * @state {Required<ComparisonConfig>[]} configs - The combinations to compare, one column each.
+   */
+  const [configs, setConfigs] = useState<Required<ComparisonConfig>[]>(() => [createConfig('google'), createConfig('openai')]);
+
+  /**
+   * @state {ComparisonResult[]} results - The outputs of the last comparison, in column order.
+   */
+  const [results, setResults] = useState<ComparisonResult[]>([]);
+
+  /**
+   * @state {boolean} highlightDiff - Whether to highlight how each output differs from the first one.
+   */
+  const [highlightDiff, setHighlightDiff] = useState(true);
+
+  /**
+   * @state {object} requestState - Whether a comparison is running, and the last error.
+   */
+  const [requestState, setRequestState] = useState({ running: false, error: '' });
+
+  /**
+   * @callback updateConfig
+   * @description Changes one combination and drops the results, which no longer match the columns.
+   * @param {number} index - The position of the combination.
+   * @param {Partial<ComparisonConfig>} changes - The changed fields.
+   */
+  const updateConfig = (index: number, changes: Partial<ComparisonConfig>) => {
+    setConfigs(prev => prev.map((config, i) => i === index ? { ...config, ...changes } : config));
+    setResults([]);
+  };
+
+  /**
+   * @callback handleCompare
+   * @description Sends the prompt to every combination and shows the outputs.
+   */
+  const handleCompare = async () => {
+    setRequestState({ running: true, error: '' });
+    try {
+      setResults(await comparePrompt(promptText, configs));
+      setRequestState({ running: false, error: '' });
+    } catch (err: any) {
+      setRequestState({ running: false, error: err.message });
+    }
+  };
+
+  /**
+   * @function renderOutput
+   * @description Renders the output of one column, highlighting its differences from the first column's output.
+   * @param {ComparisonResult} result - The column's result.
+   * @param {number} index - The position of the column.
+   * @returns {JSX.Element}
+   * @private
+   */
+  const renderOutput = (result: ComparisonResult, index: number) => {
+    const baseline = results[0];
+    if (!highlightDiff || index === 0 || !baseline || baseline.error) {
+      return result.text;
+    }
+    return diffWords(baseline.text, result.text).map((segment, i) => (
+      <span key={i} className={SEGMENT_CLASSES[segment.kind]}>{segment.text}</span>
+    ));
+  };
+
+  const selectClasses = "w-full px-2 py-1 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200";
+
+  return (
+    <div className="space-y-4 text-gray-200">
+      {requestState.error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{requestState.error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleCompare}
+          disabled={requestState.running || !!disabledReason}
+          title={disabledReason}
+          className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#c36e26] rounded-md hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {requestState.running ? 'Comparing...' : 'Run Comparison'}
+        </button>
+        <button
+          onClick={() => { setConfigs(prev => [...prev, createConfig('anthropic')]); setResults([]); }}
+          disabled={configs.length >= MAX_CONFIGS}
+          className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-md hover:bg-[#212934] disabled:opacity-50"
+        >
+          Add Column
+        </button>
+        <label className="flex items-center gap-2 text-sm text-[#95aac0]">
+          <input type="checkbox" checked={highlightDiff} onChange={e => setHighlightDiff(e.target.checked)} />
+          Highlight differences from the first column
+        </label>
+        {disabledReason && <span className="text-xs text-[#95aac0]">{disabledReason}</span>}
+      </div>
+
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${configs.length}, minmax(0, 1fr))` }}>
+        {configs.map((config, index) => {
+          const result = results[index];
+          return (
+            <section key={index} className="flex flex-col gap-2 border border-[#5c6f7e] p-3 rounded-lg bg-[#212934]/50 min-w-0">
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="Provider"
+                  value={config.provider}
+                  onChange={e => updateConfig(index, createConfig(e.target.value as AIProvider))}
+                  className={selectClasses}
+                >
+                  {(Object.keys(PROVIDER_CONFIGS) as AIProvider[]).map(provider => (
+                    <option key={provider} value={provider}>{PROVIDER_CONFIGS[provider].name}</option>
+                  ))}
+                </select>
+                {configs.length > 1 && (
+                  <button
+                    onClick={() => { setConfigs(prev => prev.filter((_, i) => i !== index)); setResults([]); }}
+                    className="p-1 text-[#95aac0] hover:text-red-300"
+                    aria-label="Remove column"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <select
+                aria-label="Model"
+                value={config.model}
+                onChange={e => updateConfig(index, { model: e.target.value })}
+                className={selectClasses}
+              >
+                {getProviderModels(config.provider).map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+              </select>
+              <label className="flex items-center gap-2 text-xs text-[#95aac0]">
+                Temperature
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  aria-label="Temperature"
+                  value={config.parameters.temperature ?? ''}
+                  onChange={e => updateConfig(index, { parameters: { ...config.parameters, temperature: Number(e.target.value) } })}
+                  className={`${selectClasses} w-20`}
+                />
+              </label>
+
+              {result && (
+                <>
+                  <p className="text-xs text-[#95aac0]">
+                    {(result.processingTime / 1000).toFixed(2)} s
+                    {result.usage && ` · ${result.usage.promptTokens} in / ${result.usage.completionTokens} out / ${result.usage.totalTokens} tokens`}
+                  </p>
+                  {result.error ? (
+                    <p className="text-sm text-red-300">{result.error}</p>
+                  ) : (
+                    <pre className="bg-[#212934] p-2 rounded text-sm whitespace-pre-wrap break-words border border-[#5c6f7e] max-h-96 overflow-y-auto">
+                      {renderOutput(result, index)}
+                    </pre>
+                  )}
+                </>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PromptComparePanel;
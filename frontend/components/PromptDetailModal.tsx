@@ -2,25 +2,63 @@
  * @file PromptDetailModal.tsx
  * @description This component displays the full details of a selected SFL prompt in a modal dialog.
  * It provides a comprehensive, read-only view of all SFL parameters, the prompt text, and any associated metadata.
- * It also includes controls for testing the prompt with Gemini (handling variables), editing, deleting, and exporting the prompt.
+ * It also includes controls for testing the prompt with Gemini (handling variables), forking, editing, deleting, and exporting the prompt.
+ * A fork shows the prompt it was copied from and warns when that prompt has been revised since.
+ * Prompts that extend a base prompt or include `{{> name}}` partials are rendered by the server first, and the
+ * rendered text, inherited fields and variables are what is shown and tested. A test run can compile the SFL fields
+ * into the message layout of a provider, and the compiled messages can be previewed before running.
+ * A History tab shows the prompt's saved revisions with compare and restore controls,
+ * a Similar tab lists semantically close prompts to help spot duplicates,
+ * an Evals tab holds the prompt's evaluation suites and their run results,
+ * a Runs tab lists every recorded test run and can pin a response as the example output,
+ * a Lineage tab shows the prompts it was forked from and the forks made of it,
+ * a Locales tab lists its translated variants and translates it into further locales,
+ * and a Compare tab runs the prompt against several providers and models side by side.
  *
  * @requires react
  * @requires ../types
  * @requires ./ModalShell
+ * @requires ./PromptHistoryPanel
+ * @requires ./SimilarPromptsPanel
+ * @requires ./PromptEvalPanel
+ * @requires ./PromptRunHistoryPanel
+ * @requires ./PromptLineagePanel
+ * @requires ./PromptLocalesPanel
+ * @requires ./PromptComparePanel
+ * @requires ./PromptReviewPanel
+ * @requires ./CompiledPromptPreview
+ * @requires ./PromptVariablesForm
+ * @requires ../utils/promptVariables
+ * @requires ../services/promptApiService
  * @requires ./icons/SparklesIcon
  * @requires ./icons/PencilIcon
  * @requires ./icons/TrashIcon
+ * @requires ./icons/DocumentDuplicateIcon
  * @requires ./icons/ArrowDownTrayIcon
  * @requires ./icons/DocumentTextIcon
  * @requires ./icons/ClipboardIcon
  */
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { PromptSFL } from '../types';
+import { PromptSFL, PromptLineageNode, RenderedPrompt, PromptStatus, PromptReview, PromptCompileFormat } from '../types';
+import { PROMPT_COMPILE_FORMAT_LABELS } from '../constants';
 import ModalShell from './ModalShell';
+import PromptHistoryPanel from './PromptHistoryPanel';
+import SimilarPromptsPanel from './SimilarPromptsPanel';
+import PromptEvalPanel from './PromptEvalPanel';
+import PromptRunHistoryPanel from './PromptRunHistoryPanel';
+import PromptLineagePanel from './PromptLineagePanel';
+import PromptLocalesPanel from './PromptLocalesPanel';
+import PromptComparePanel from './PromptComparePanel';
+import PromptReviewPanel, { PromptStatusBadge } from './PromptReviewPanel';
+import CompiledPromptPreview from './CompiledPromptPreview';
+import PromptVariablesForm from './PromptVariablesForm';
+import { syncVariables, getInitialVariableValues, validateVariableValues, interpolateVariables } from '../utils/promptVariables';
+import { getRenderedPrompt, getPromptLineage } from '../services/promptApiService';
 import SparklesIcon from './icons/SparklesIcon';
 import PencilIcon from './icons/PencilIcon';
 import TrashIcon from './icons/TrashIcon';
+import DocumentDuplicateIcon from './icons/DocumentDuplicateIcon';
 import ClipboardIcon from './icons/ClipboardIcon';
 
 /**
@@ -30,8 +68,14 @@ import ClipboardIcon from './icons/ClipboardIcon';
  * @property {() => void} onClose - Callback function to close the modal.
  * @property {PromptSFL | null} prompt - The prompt object to display. If `null`, the modal will not render.
  * @property {(prompt: PromptSFL) => void} onEdit - Callback to trigger the editing mode for the current prompt.
- * @property {(promptId: string) => void} onDelete - Callback to trigger the deletion of the current prompt.
- * @property {(prompt: PromptSFL, variables: Record<string, string>) => void} onTestWithGemini - Callback to test the prompt with the Gemini API, passing any interpolated variable values.
+ * @property {(promptId: string) => void} onDelete - Callback to move the current prompt to the trash; it confirms with the user and closes the modal once deleted.
+ * @property {(prompt: PromptSFL, variables: Record<string, string>, format: PromptCompileFormat) => void} onTestWithGemini - Callback to test the prompt with the Gemini API, passing any interpolated variable values and the message layout to compile into.
+ * @property {(promptId: string, revisionNumber: number) => Promise<void>} onRestoreRevision - Callback to roll the prompt back to one of its revisions.
+ * @property {(promptId: string, runId: string) => Promise<void>} onPinRun - Callback to make the response of a test run the prompt's example output.
+ * @property {(prompt: PromptSFL) => Promise<void>} onFork - Callback to fork the prompt into a new prompt owned by the current user.
+ * @property {(prompt: PromptSFL, locale: string) => Promise<void>} onTranslate - Callback to translate the prompt into a locale variant.
+ * @property {(prompt: PromptSFL) => void} onViewPrompt - Callback to open another prompt, e.g. one listed as similar.
+ * @property {(promptId: string, status: PromptStatus, note?: string) => Promise<PromptReview>} onChangeStatus - Callback to move the prompt to another review status.
  */
 interface PromptDetailModalProps {
   isOpen: boolean;
@@ -39,7 +83,13 @@ interface PromptDetailModalProps {
   prompt: PromptSFL | null;
   onEdit: (prompt: PromptSFL) => void;
   onDelete: (promptId: string) => void;
-  onTestWithGemini: (prompt: PromptSFL, variables: Record<string, string>) => void;
+  onTestWithGemini: (prompt: PromptSFL, variables: Record<string, string>, format: PromptCompileFormat) => void;
+  onRestoreRevision: (promptId: string, revisionNumber: number) => Promise<void>;
+  onPinRun: (promptId: string, runId: string) => Promise<void>;
+  onFork: (prompt: PromptSFL) => Promise<void>;
+  onTranslate: (prompt: PromptSFL, locale: string) => Promise<void>;
+  onViewPrompt: (prompt: PromptSFL) => void;
+  onChangeStatus: (promptId: string, status: PromptStatus, note?: string) => Promise<PromptReview>;
 }
 
 /**
@@ -71,19 +121,30 @@ const DetailItem: React.FC<{ label: string; value?: string | null; isCode?: bool
 /**
  * A modal component that displays the complete details of an SFL prompt.
  * It organizes all SFL parameters into Field, Tenor, and Mode sections for clarity.
- * It automatically detects `{{variables}}` in the prompt text and provides input fields for them.
+ * It renders a typed input for every `{{variable}}` in the prompt text, using the prompt's variable declarations
+ * (or a plain text input for undeclared variables), and validates the values before a test run.
  * Users can test the prompt with Gemini, view results or errors, and access other management actions.
  *
  * @param {PromptDetailModalProps} props - The props for the component.
  * @returns {JSX.Element | null} The rendered modal, or `null` if no prompt is provided or `isOpen` is false.
  */
-const PromptDetailModal: React.FC<PromptDetailModalProps> = ({ isOpen, onClose, prompt, onEdit, onDelete, onTestWithGemini }) => {
+const PromptDetailModal: React.FC<PromptDetailModalProps> = ({ isOpen, onClose, prompt, onEdit, onDelete, onTestWithGemini, onRestoreRevision, onPinRun, onFork, onTranslate, onViewPrompt, onChangeStatus }) => {
   if (!prompt) return null;
 
+  /**
+   * @state {'details' | 'review' | 'history' | 'runs' | 'lineage' | 'locales' | 'similar' | 'evals' | 'compare'} activeTab - The currently visible tab of the modal.
+   */
+  const [activeTab, setActiveTab] = useState<'details' | 'review' | 'history' | 'runs' | 'lineage' | 'locales' | 'similar' | 'evals' | 'compare'>('details');
+
   /**
    * @state {Record<string, string>} variableValues - Stores the current values for any variables found in the prompt text.
    */
   const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+
+  /**
+   * @state {Record<string, string>} variableErrors - Validation messages for the variable inputs, keyed by variable name.
+   */
+  const [variableErrors, setVariableErrors] = useState<Record<string, string>>({});
   
   /**
    * @state {boolean} isDocVisible - Toggles the visibility of the source document's content.
@@ -96,30 +157,97 @@ const PromptDetailModal: React.FC<PromptDetailModalProps> = ({ isOpen, onClose,
   const [docCopied, setDocCopied] = useState(false);
 
   /**
-   * @memorized {string[]} variables - A memoized array of unique variable names extracted from the prompt text.
+   * @state {{rendered: RenderedPrompt | null; error: string}} composition - The server's rendering of a composed prompt, or why it failed.
+   */
+  const [composition, setComposition] = useState<{ rendered: RenderedPrompt | null; error: string }>({ rendered: null, error: '' });
+
+  /**
+   * @state {{parent: PromptLineageNode | null; upstreamChanged: boolean} | null} upstream - For a fork, the prompt it was
+   * forked from (null when that prompt is not visible) and whether it has been revised since.
+   */
+  const [upstream, setUpstream] = useState<{ parent: PromptLineageNode | null; upstreamChanged: boolean } | null>(null);
+
+  /**
+   * @state {boolean} isForking - Indicates that a fork of the prompt is being created.
+   */
+  const [isForking, setIsForking] = useState(false);
+
+  /**
+   * @state {PromptCompileFormat} compileFormat - The message layout the next test run compiles the prompt into.
+   */
+  const [compileFormat, setCompileFormat] = useState<PromptCompileFormat>('gemini');
+
+  /**
+   * @state {boolean} isCompiledVisible - Toggles the preview of the compiled messages.
+   */
+  const [isCompiledVisible, setCompiledVisible] = useState(false);
+
+  const isComposed = !!prompt.extendsId || /{{>\s*[\w-]+\s*}}/.test(prompt.promptText);
+  const rendered = composition.rendered;
+  const effectiveText = rendered?.promptText ?? prompt.promptText;
+
+  /**
+   * @memorized {PromptVariable[]} variables - The declarations of the variables used in the (rendered) prompt text, in order of appearance.
    */
-  const variables = useMemo(() => {
-    if (!prompt?.promptText) return [];
-    const regex = /{{\s*(\w+)\s*}}/g;
-    const matches = prompt.promptText.match(regex);
-    if (!matches) return [];
-    return [...new Set(matches.map(v => v.replace(/{{\s*|\s*}}/g, '')))];
-  }, [prompt?.promptText]);
+  const variables = useMemo(
+    () => syncVariables(effectiveText || '', rendered?.variables ?? prompt?.variables),
+    [effectiveText, rendered?.variables, prompt?.variables]
+  );
 
   /**
-   * @effect Resets the state of the modal (variable values, document visibility) whenever it is opened or the prompt changes.
+   * @effect Renders a composed prompt on the server whenever it is opened or saved.
    */
   useEffect(() => {
-    if (isOpen && prompt) {
-      const initialValues: Record<string, string> = {};
-      variables.forEach(v => {
-        initialValues[v] = '';
+    setComposition({ rendered: null, error: '' });
+    if (!isOpen || !isComposed) return;
+    let cancelled = false;
+    getRenderedPrompt(prompt.id)
+      .then(result => {
+        if (!cancelled) setComposition({ rendered: result, error: '' });
+      })
+      .catch(err => {
+        if (!cancelled) setComposition({ rendered: null, error: err.message });
       });
-      setVariableValues(initialValues);
+    return () => { cancelled = true; };
+    // The update time changes on every save, so that the rendering follows edits of the prompt
+  }, [isOpen, isComposed, prompt.id, prompt.updatedAt]);
+
+  /**
+   * @effect Resets the state of the modal (variable values, document visibility) whenever it is opened, another prompt is shown or its variables change.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setVariableValues(getInitialVariableValues(variables));
+      setVariableErrors({});
       setDocVisible(false);
       setDocCopied(false);
     }
-  }, [isOpen, prompt, variables]);
+    // Keyed on the prompt ID so that entered values survive the test-state updates of the same prompt
+  }, [isOpen, prompt.id, variables]);
+
+  /**
+   * @effect Looks up the parent of a fork to tell whether it has changed since the fork was made.
+   */
+  useEffect(() => {
+    setUpstream(null);
+    if (!isOpen || !prompt.forkedFromId) return;
+    let cancelled = false;
+    getPromptLineage(prompt.id)
+      .then(lineage => {
+        if (!cancelled) setUpstream({ parent: lineage.ancestors[0] ?? null, upstreamChanged: lineage.prompt.upstreamChanged });
+      })
+      .catch(() => {
+        // The notice falls back to not naming the parent
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, prompt.id, prompt.forkedFromId, prompt.updatedAt]);
+
+  /**
+   * @effect Returns to the details tab whenever a different prompt is opened.
+   */
+  useEffect(() => {
+    setActiveTab('details');
+  }, [prompt.id]);
 
   /**
    * @callback handleVariableChange
@@ -129,8 +257,40 @@ const PromptDetailModal: React.FC<PromptDetailModalProps> = ({ isOpen, onClose,
    */
   const handleVariableChange = (variableName: string, value: string) => {
     setVariableValues(prev => ({ ...prev, [variableName]: value }));
+    setVariableErrors(prev => {
+      const { [variableName]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  /**
+   * @callback handleTest
+   * @description Validates the variable values against their declarations and, if they are valid, runs the test.
+   */
+  const handleTest = () => {
+    if (isComposed && !rendered) return;
+    const errors = validateVariableValues(variables, variableValues);
+    setVariableErrors(errors);
+    if (Object.keys(errors).length === 0) {
+      onTestWithGemini({ ...prompt, promptText: effectiveText }, variableValues, compileFormat);
+    }
   };
   
+  /**
+   * @callback handleFork
+   * @description Forks the prompt; the fork is opened in place of this prompt.
+   */
+  const handleFork = async () => {
+    setIsForking(true);
+    try {
+      await onFork(prompt);
+    } catch (err: any) {
+      alert(`Failed to fork prompt: ${err.message}`);
+    } finally {
+      setIsForking(false);
+    }
+  };
+
   /**
    * @callback handleCopyDocContent
    * @description Copies the content of the attached source document to the clipboard and provides user feedback.
@@ -145,130 +305,260 @@ const PromptDetailModal: React.FC<PromptDetailModalProps> = ({ isOpen, onClose,
 
   return (
     <ModalShell isOpen={isOpen} onClose={onClose} title={prompt.title} size="4xl">
-      <div className="space-y-6 text-gray-800">
-        <DetailItem label="Prompt Text" value={prompt.promptText} isCode />
-
-        {prompt.sourceDocument && (
-            <div className="mb-3">
-                <h4 className="text-sm font-semibold text-gray-500 mb-0.5">Source Document</h4>
-                <div className="flex items-center justify-between bg-[#212934] p-3 rounded-md text-sm border border-[#5c6f7e]">
-                    <span className="italic">{prompt.sourceDocument.name}</span>
-                    <button onClick={() => setDocVisible(!isDocVisible)} className="text-xs font-semibold text-[#4A69E2] hover:underline">
-                        {isDocVisible ? 'Hide Content' : 'View Content'}
-                    </button>
-                </div>
-                {isDocVisible && (
-                    <div className="relative mt-2">
-                        <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-all max-h-48 overflow-y-auto border border-[#5c6f7e]">
-                           {prompt.sourceDocument.content}
-                        </pre>
-                        <button onClick={handleCopyDocContent} className="absolute top-2 right-2 p-1.5 bg-[#333e48] rounded-md text-[#95aac0] hover:text-gray-200 transition-colors border border-[#5c6f7e]">
-                           {docCopied ? <span className="text-xs">Copied!</span> : <ClipboardIcon className="w-4 h-4" />}
-                        </button>
-                    </div>
-                )}
-            </div>
-        )}
-
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
-            <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Field</h3>
-            <DetailItem label="Topic" value={prompt.sflField.topic} />
-            <DetailItem label="Task Type" value={prompt.sflField.taskType} />
-            <DetailItem label="Domain Specifics" value={prompt.sflField.domainSpecifics} />
-            <DetailItem label="Keywords" value={prompt.sflField.keywords} />
-          </section>
+      <div className="flex gap-4 border-b border-[#5c6f7e] mb-6">
+        {(['details', 'review', 'history', 'runs', 'lineage', 'locales', 'similar', 'evals', 'compare'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`pb-2 text-sm font-medium capitalize border-b-2 transition-colors ${activeTab === tab ? 'border-[#e2a32d] text-gray-800' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
 
-          <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
-            <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Tenor</h3>
-            <DetailItem label="AI Persona" value={prompt.sflTenor.aiPersona} />
-            <DetailItem label="Target Audience" value={prompt.sflTenor.targetAudience.join(', ')} />
-            <DetailItem label="Desired Tone" value={prompt.sflTenor.desiredTone} />
-            <DetailItem label="Interpersonal Stance" value={prompt.sflTenor.interpersonalStance} />
-          </section>
+      {activeTab === 'review' ? (
+        <PromptReviewPanel
+          prompt={prompt}
+          onChangeStatus={(status, note) => onChangeStatus(prompt.id, status, note)}
+        />
+      ) : activeTab === 'history' ? (
+        <PromptHistoryPanel
+          promptId={prompt.id}
+          updatedAt={prompt.updatedAt}
+          onRestore={(revisionNumber) => onRestoreRevision(prompt.id, revisionNumber)}
+        />
+      ) : activeTab === 'runs' ? (
+        <PromptRunHistoryPanel
+          promptId={prompt.id}
+          exampleOutput={prompt.exampleOutput}
+          onPin={(runId) => onPinRun(prompt.id, runId)}
+        />
+      ) : activeTab === 'lineage' ? (
+        <PromptLineagePanel
+          promptId={prompt.id}
+          updatedAt={prompt.updatedAt}
+          onViewPrompt={onViewPrompt}
+        />
+      ) : activeTab === 'locales' ? (
+        <PromptLocalesPanel
+          promptId={prompt.id}
+          updatedAt={prompt.updatedAt}
+          canTranslate={prompt.access === 'owner' || prompt.access === 'shared'}
+          onTranslate={(locale) => onTranslate(prompt, locale)}
+          onViewPrompt={onViewPrompt}
+        />
+      ) : activeTab === 'similar' ? (
+        <SimilarPromptsPanel
+          promptId={prompt.id}
+          updatedAt={prompt.updatedAt}
+          onViewPrompt={onViewPrompt}
+        />
+      ) : activeTab === 'evals' ? (
+        <PromptEvalPanel prompt={prompt} />
+      ) : activeTab === 'compare' ? (
+        <PromptComparePanel
+          promptText={interpolateVariables(effectiveText, variableValues)}
+          disabledReason={isComposed && !rendered
+            ? composition.error || 'Rendering the prompt...'
+            : Object.keys(validateVariableValues(variables, variableValues)).length > 0
+              ? 'Fill in the prompt variables on the Details tab first.'
+              : undefined}
+        />
+      ) : (
+        <div className="space-y-6 text-gray-800">
+          <DetailItem label="Prompt Text" value={prompt.promptText} isEmpty={!prompt.promptText} isCode />
+          {isComposed && (
+            composition.error ? (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2 mb-3">This prompt cannot be rendered: {composition.error}</p>
+            ) : (
+              <DetailItem label="Rendered Prompt Text" value={rendered ? rendered.promptText : 'Rendering...'} isCode />
+            )
+          )}
 
-          <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
-            <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Mode</h3>
-            <DetailItem label="Output Format" value={prompt.sflMode.outputFormat} />
-            <DetailItem label="Rhetorical Structure" value={prompt.sflMode.rhetoricalStructure} />
-            <DetailItem label="Length Constraint" value={prompt.sflMode.lengthConstraint} />
-            <DetailItem label="Textual Directives" value={prompt.sflMode.textualDirectives} />
-          </section>
-        </div>
+          {prompt.sourceDocument && (
+              <div className="mb-3">
+                  <h4 className="text-sm font-semibold text-gray-500 mb-0.5">Source Document</h4>
+                  <div className="flex items-center justify-between bg-[#212934] p-3 rounded-md text-sm border border-[#5c6f7e]">
+                      <span className="italic">{prompt.sourceDocument.name}</span>
+                      <button onClick={() => setDocVisible(!isDocVisible)} className="text-xs font-semibold text-[#4A69E2] hover:underline">
+                          {isDocVisible ? 'Hide Content' : 'View Content'}
+                      </button>
+                  </div>
+                  {isDocVisible && (
+                      <div className="relative mt-2">
+                          <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-all max-h-48 overflow-y-auto border border-[#5c6f7e]">
+                             {prompt.sourceDocument.content}
+                          </pre>
+                          <button onClick={handleCopyDocContent} className="absolute top-2 right-2 p-1.5 bg-[#333e48] rounded-md text-[#95aac0] hover:text-gray-200 transition-colors border border-[#5c6f7e]">
+                             {docCopied ? <span className="text-xs">Copied!</span> : <ClipboardIcon className="w-4 h-4" />}
+                          </button>
+                      </div>
+                  )}
+              </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
+              <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Field</h3>
+              <DetailItem label="Topic" value={(rendered ?? prompt).sflField.topic} />
+              <DetailItem label="Task Type" value={(rendered ?? prompt).sflField.taskType} />
+              <DetailItem label="Domain Specifics" value={(rendered ?? prompt).sflField.domainSpecifics} />
+              <DetailItem label="Keywords" value={(rendered ?? prompt).sflField.keywords} />
+            </section>
+
+            <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
+              <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Tenor</h3>
+              <DetailItem label="AI Persona" value={(rendered ?? prompt).sflTenor.aiPersona} />
+              <DetailItem label="Target Audience" value={(rendered ?? prompt).sflTenor.targetAudience.join(', ')} />
+              <DetailItem label="Desired Tone" value={(rendered ?? prompt).sflTenor.desiredTone} />
+              <DetailItem label="Interpersonal Stance" value={(rendered ?? prompt).sflTenor.interpersonalStance} />
+            </section>
+
+            <section className="border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
+              <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Mode</h3>
+              <DetailItem label="Output Format" value={(rendered ?? prompt).sflMode.outputFormat} />
+              <DetailItem label="Rhetorical Structure" value={(rendered ?? prompt).sflMode.rhetoricalStructure} />
+              <DetailItem label="Length Constraint" value={(rendered ?? prompt).sflMode.lengthConstraint} />
+              <DetailItem label="Textual Directives" value={(rendered ?? prompt).sflMode.textualDirectives} />
+            </section>
+          </div>
         
-        <DetailItem label="Example Output" value={prompt.exampleOutput} isEmpty={!prompt.exampleOutput} isCode/>
-        <DetailItem label="Notes" value={prompt.notes} isEmpty={!prompt.notes} />
+          <DetailItem label="Example Output" value={prompt.exampleOutput} isEmpty={!prompt.exampleOutput} isCode/>
+          <DetailItem label="Notes" value={prompt.notes} isEmpty={!prompt.notes} />
         
-        <div className="mt-3">
-            <p className="text-xs text-gray-400">Created: {new Date(prompt.createdAt).toLocaleString()}</p>
-            <p className="text-xs text-gray-400">Last Updated: {new Date(prompt.updatedAt).toLocaleString()}</p>
-        </div>
+          {prompt.forkedFromId && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+              <span>
+                Forked from{' '}
+                <button onClick={() => setActiveTab('lineage')} className="font-semibold text-[#4A69E2] hover:underline">
+                  {upstream?.parent?.title ?? 'another prompt'}
+                </button>
+                {prompt.forkedFromRevision !== undefined && ` at revision ${prompt.forkedFromRevision}`}
+              </span>
+              {upstream?.upstreamChanged && (
+                <span className="text-xs px-2 py-0.5 rounded bg-[#c36e26] text-white">
+                  Upstream changed{upstream.parent ? ` · now at revision ${upstream.parent.latestRevision}` : ''}
+                </span>
+              )}
+            </div>
+          )}
 
-        {variables.length > 0 && (
-          <section className="space-y-4 border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
-            <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Prompt Variables</h3>
-            <div className="space-y-4">
-              {variables.map((varName) => (
-                <div key={varName}>
-                  <label htmlFor={`var-${varName}`} className="block text-sm font-medium text-gray-600 mb-1">{`{{${varName}}}`}</label>
-                  <textarea
-                    id={`var-${varName}`}
-                    value={variableValues[varName] || ''}
-                    onChange={(e) => handleVariableChange(varName, e.target.value)}
-                    placeholder={`Enter value for ${varName}...`}
-                    rows={2}
-                    className="w-full px-3 py-2 bg-[#333e48] border border-[#5c6f7e] text-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-[#e2a32d] focus:border-[#e2a32d] transition-colors placeholder-[#95aac0]"
-                  />
-                </div>
-              ))}
+          {prompt.locale && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <span>Locale:</span>
+              <button onClick={() => setActiveTab('locales')} className="font-semibold text-[#4A69E2] hover:underline">
+                {prompt.locale}
+              </button>
+              {prompt.localeSourceId && <span>(translated)</span>}
             </div>
-          </section>
-        )}
+          )}
 
-        {prompt.isTesting && (
-          <div className="my-4 p-4 border border-blue-600 rounded-md bg-blue-900/20 flex items-center justify-center">
-            <div className="spinner"></div>
-            <p className="ml-3 text-blue-700">Testing with Gemini...</p>
-          </div>
-        )}
+          {prompt.status && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <span>Review status:</span>
+              <button onClick={() => setActiveTab('review')} title="Show review">
+                <PromptStatusBadge status={prompt.status} />
+              </button>
+            </div>
+          )}
 
-        {prompt.geminiResponse && (
-          <div className="my-4">
-            <h3 className="text-md font-semibold text-green-700 mb-2">Gemini Response:</h3>
-            <pre className="bg-green-50 p-4 rounded-md text-sm text-green-800 whitespace-pre-wrap break-all border border-green-200">{prompt.geminiResponse}</pre>
+          <div className="mt-3">
+              <p className="text-xs text-gray-400">Created: {new Date(prompt.createdAt).toLocaleString()}</p>
+              <p className="text-xs text-gray-400">Last Updated: {new Date(prompt.updatedAt).toLocaleString()}</p>
           </div>
-        )}
 
-        {prompt.geminiTestError && (
-          <div className="my-4">
-            <h3 className="text-md font-semibold text-red-700 mb-2">Gemini Test Error:</h3>
-            <pre className="bg-red-50 p-4 rounded-md text-sm text-red-800 whitespace-pre-wrap break-all border border-red-200">{prompt.geminiTestError}</pre>
-          </div>
-        )}
+          {variables.length > 0 && (
+            <section className="space-y-4 border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
+              <h3 className="text-md font-semibold text-gray-800 mb-2 border-b pb-1 border-gray-200">Prompt Variables</h3>
+              <PromptVariablesForm
+                variables={variables}
+                values={variableValues}
+                errors={variableErrors}
+                onChange={handleVariableChange}
+              />
+            </section>
+          )}
 
-        <div className="flex flex-wrap justify-end gap-3 pt-6 border-t border-gray-200 mt-6">
-          <button
-            onClick={() => onTestWithGemini(prompt, variableValues)}
-            disabled={prompt.isTesting}
-            className="px-3 py-2 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:bg-opacity-50 disabled:cursor-not-allowed flex items-center"
-          >
-            <SparklesIcon className="w-5 h-5 mr-2"/>
-            {prompt.isTesting ? 'Testing...' : 'Test with Gemini'}
-          </button>
-          <button
-            onClick={() => { onEdit(prompt); onClose(); }}
-            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 flex items-center"
-          >
-           <PencilIcon className="w-5 h-5 mr-2"/> Edit
-          </button>
-          <button
-            onClick={() => { if(window.confirm('Are you sure you want to delete this prompt?')) { onDelete(prompt.id); onClose(); }}}
-            className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 flex items-center"
-          >
-           <TrashIcon className="w-5 h-5 mr-2"/> Delete
-          </button>
+          <section className="space-y-3 border border-[#5c6f7e] p-4 rounded-lg bg-[#212934]/50">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-500">
+                Message layout
+                <select
+                  value={compileFormat}
+                  onChange={e => setCompileFormat(e.target.value as PromptCompileFormat)}
+                  className="px-2 py-1 text-sm bg-[#212934] text-gray-200 border border-[#5c6f7e] rounded-md"
+                >
+                  {(Object.keys(PROMPT_COMPILE_FORMAT_LABELS) as PromptCompileFormat[]).map(format => (
+                    <option key={format} value={format}>{PROMPT_COMPILE_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </label>
+              <button onClick={() => setCompiledVisible(prev => !prev)} className="text-sm font-medium text-[#4A69E2] hover:underline">
+                {isCompiledVisible ? 'Hide compiled messages' : 'Preview compiled messages'}
+              </button>
+            </div>
+            {isCompiledVisible && (
+              <CompiledPromptPreview promptId={prompt.id} format={compileFormat} updatedAt={prompt.updatedAt} />
+            )}
+          </section>
+
+          {prompt.isTesting && (
+            <div className="my-4 p-4 border border-blue-600 rounded-md bg-blue-900/20 flex items-center justify-center">
+              <div className="spinner"></div>
+              <p className="ml-3 text-blue-700">Testing with Gemini...</p>
+            </div>
+          )}
+
+          {prompt.geminiResponse && (
+            <div className="my-4">
+              <h3 className="text-md font-semibold text-green-700 mb-2">Gemini Response:</h3>
+              <pre className="bg-green-50 p-4 rounded-md text-sm text-green-800 whitespace-pre-wrap break-all border border-green-200">{prompt.geminiResponse}</pre>
+            </div>
+          )}
+
+          {prompt.geminiTestError && (
+            <div className="my-4">
+              <h3 className="text-md font-semibold text-red-700 mb-2">Gemini Test Error:</h3>
+              <pre className="bg-red-50 p-4 rounded-md text-sm text-red-800 whitespace-pre-wrap break-all border border-red-200">{prompt.geminiTestError}</pre>
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-3 pt-6 border-t border-gray-200 mt-6">
+            <button
+              onClick={handleTest}
+              disabled={prompt.isTesting || (isComposed && !rendered)}
+              className="px-3 py-2 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:bg-opacity-50 disabled:cursor-not-allowed flex items-center"
+            >
+              <SparklesIcon className="w-5 h-5 mr-2"/>
+              {prompt.isTesting ? 'Testing...' : 'Test with Gemini'}
+            </button>
+            <button
+              onClick={handleFork}
+              disabled={isForking}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center"
+            >
+              <DocumentDuplicateIcon className="w-5 h-5 mr-2"/> {isForking ? 'Forking...' : 'Fork'}
+            </button>
+            {prompt.access !== 'public' && (
+              <button
+                onClick={() => { onEdit(prompt); onClose(); }}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 flex items-center"
+              >
+               <PencilIcon className="w-5 h-5 mr-2"/> Edit
+              </button>
+            )}
+            {(!prompt.access || prompt.access === 'owner') && (
+              <button
+                onClick={() => onDelete(prompt.id)}
+                className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 flex items-center"
+              >
+               <TrashIcon className="w-5 h-5 mr-2"/> Delete
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </ModalShell>
   );
 };
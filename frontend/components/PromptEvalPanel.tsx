@@ -0,0 +1,507 @@
+/**
+ * @file PromptEvalPanel.tsx
+ * @description This component manages the evaluation suites of a prompt inside the prompt detail modal.
+ * A suite is a list of test cases, each with values for the prompt's variables and assertions on the output
+ * (contains, regex, JSON Schema, maximum length or a rubric graded by a judge model). Suites are run on the
+ * server against a chosen provider and model, and every run is kept so results can be compared over time.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../types/aiProvider
+ * @requires ../config/modelCapabilities
+ * @requires ../services/promptApiService
+ * @requires ../utils/generateId
+ * @requires ../utils/promptVariables
+ * @requires ./icons/TrashIcon
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { EvalAssertion, EvalAssertionType, EvalRun, EvalSuite, EvalTestCase, PromptSFL } from '../types';
+import { AIProvider } from '../types/aiProvider';
+import { PROVIDER_CONFIGS, getProviderModels } from '../config/modelCapabilities';
+import { getEvalSuites, saveEvalSuite, deleteEvalSuite, runEvalSuite, getEvalRuns } from '../services/promptApiService';
+import { generateId } from '../utils/generateId';
+import { extractVariableNames } from '../utils/promptVariables';
+import TrashIcon from './icons/TrashIcon';
+
+/**
+ * @interface PromptEvalPanelProps
+ * @description Defines the props for the `PromptEvalPanel` component.
+ * @property {PromptSFL} prompt - The prompt whose suites are shown.
+ */
+interface PromptEvalPanelProps {
+  prompt: PromptSFL;
+}
+
+/**
+ * @typedef {object} SuiteDraft
+ * @description The suite being edited; suites without an ID have not been saved yet.
+ * @private
+ */
+type SuiteDraft = Pick<EvalSuite, 'name' | 'description' | 'cases'> & { id?: string };
+
+/**
+ * @constant {Record<EvalAssertionType, {label: string; create: () => EvalAssertion}>} ASSERTION_TYPES - The assertion types offered in the editor and how a new assertion of each type starts out.
+ * @private
+ */
+const ASSERTION_TYPES: Record<EvalAssertionType, { label: string; create: () => EvalAssertion }> = {
+  contains: { label: 'Contains', create: () => ({ type: 'contains', value: '' }) },
+  regex: { label: 'Matches regex', create: () => ({ type: 'regex', pattern: '' }) },
+  'json-schema': { label: 'Valid against JSON Schema', create: () => ({ type: 'json-schema', schema: { type: 'object' } }) },
+  'max-length': { label: 'Max length', create: () => ({ type: 'max-length', value: 500 }) },
+  'llm-rubric': { label: 'LLM rubric', create: () => ({ type: 'llm-rubric', rubric: '', threshold: 0.5 }) },
+};
+
+/**
+ * Formats a 0-1 score as a percentage.
+ *
+ * @param {number} score - The score.
+ * @returns {string} The percentage, e.g. `83%`.
+ * @private
+ */
+const formatScore = (score: number): string => `${Math.round(score * 100)}%`;
+
+/**
+ * A panel for editing and running the evaluation suites of a prompt.
+ *
+ * @param {PromptEvalPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered evaluation panel.
+ */
+const PromptEvalPanel: React.FC<PromptEvalPanelProps> = ({ prompt }) => {
+  /**
+   * @state {EvalSuite[]} suites - The prompt's saved suites.
+   */
+  const [suites, setSuites] = useState<EvalSuite[]>([]);
+
+  /**
+   * @state {SuiteDraft | null} draft - The suite currently open in the editor.
+   */
+  const [draft, setDraft] = useState<SuiteDraft | null>(null);
+
+  /**
+   * @state {EvalRun[]} runs - The recorded runs of the open suite, newest first.
+   */
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+
+  /**
+   * @state {EvalRun | null} activeRun - The run whose per-case results are shown.
+   */
+  const [activeRun, setActiveRun] = useState<EvalRun | null>(null);
+
+  /**
+   * @state {{provider: AIProvider; model: string}} runConfig - The provider and model suites are run against.
+   */
+  const [runConfig, setRunConfig] = useState<{ provider: AIProvider; model: string }>({
+    provider: 'google',
+    model: getProviderModels('google')[0]?.id || '',
+  });
+
+  /**
+   * @state {object} requestState - Whether suites are loading, saving or running, and the last error.
+   */
+  const [requestState, setRequestState] = useState({ loading: false, saving: false, running: false, error: '' });
+
+  const canEdit = prompt.access !== 'public';
+  const variableNames = extractVariableNames(prompt.promptText);
+
+  /**
+   * @callback loadSuites
+   * @description Fetches the prompt's suites and opens the first one.
+   */
+  const loadSuites = useCallback(async () => {
+    setRequestState(prev => ({ ...prev, loading: true, error: '' }));
+    try {
+      const fetched = await getEvalSuites(prompt.id);
+      setSuites(fetched);
+      setDraft(fetched[0] || null);
+      setRequestState(prev => ({ ...prev, loading: false }));
+    } catch (err: any) {
+      setRequestState(prev => ({ ...prev, loading: false, error: err.message }));
+    }
+  }, [prompt.id]);
+
+  /**
+   * @effect Loads the suites when the panel opens for a prompt.
+   */
+  useEffect(() => {
+    loadSuites();
+  }, [loadSuites]);
+
+  /**
+   * @effect Loads the run history of the open suite.
+   */
+  useEffect(() => {
+    setActiveRun(null);
+    if (!draft?.id) {
+      setRuns([]);
+      return;
+    }
+    let cancelled = false;
+    getEvalRuns(prompt.id, draft.id)
+      .then(fetched => {
+        if (cancelled) return;
+        setRuns(fetched);
+        setActiveRun(fetched[0] || null);
+      })
+      .catch(err => {
+        if (!cancelled) setRequestState(prev => ({ ...prev, error: err.message }));
+      });
+    return () => { cancelled = true; };
+  }, [prompt.id, draft?.id]);
+
+  /**
+   * @callback updateCase
+   * @description Changes one test case of the open suite.
+   * @param {string} caseId - The ID of the case.
+   * @param {(testCase: EvalTestCase) => EvalTestCase} update - Produces the changed case.
+   */
+  const updateCase = (caseId: string, update: (testCase: EvalTestCase) => EvalTestCase) => {
+    setDraft(prev => prev && { ...prev, cases: prev.cases.map(c => c.id === caseId ? update(c) : c) });
+  };
+
+  /**
+   * @callback updateAssertion
+   * @description Changes one assertion of a test case.
+   * @param {string} caseId - The ID of the case.
+   * @param {number} index - The position of the assertion.
+   * @param {EvalAssertion} assertion - The changed assertion.
+   */
+  const updateAssertion = (caseId: string, index: number, assertion: EvalAssertion) => {
+    updateCase(caseId, c => ({ ...c, assertions: c.assertions.map((a, i) => i === index ? assertion : a) }));
+  };
+
+  /**
+   * @callback handleAddCase
+   * @description Appends a test case with empty variable values and a single `contains` assertion.
+   */
+  const handleAddCase = () => {
+    const testCase: EvalTestCase = {
+      id: generateId(),
+      variables: Object.fromEntries(variableNames.map(name => [name, ''])),
+      assertions: [ASSERTION_TYPES.contains.create()],
+    };
+    setDraft(prev => prev && { ...prev, cases: [...prev.cases, testCase] });
+  };
+
+  /**
+   * @callback handleSave
+   * @description Saves the open suite and refreshes the suite list.
+   */
+  const handleSave = async () => {
+    if (!draft) return;
+    setRequestState(prev => ({ ...prev, saving: true, error: '' }));
+    try {
+      const saved = await saveEvalSuite(prompt.id, draft);
+      setSuites(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(saved);
+      setRequestState(prev => ({ ...prev, saving: false }));
+    } catch (err: any) {
+      setRequestState(prev => ({ ...prev, saving: false, error: err.message }));
+    }
+  };
+
+  /**
+   * @callback handleDelete
+   * @description Confirms and deletes the open suite together with its runs.
+   */
+  const handleDelete = async () => {
+    if (!draft?.id || !window.confirm(`Delete the suite "${draft.name}" and its run history?`)) return;
+    try {
+      await deleteEvalSuite(prompt.id, draft.id);
+      const remaining = suites.filter(s => s.id !== draft.id);
+      setSuites(remaining);
+      setDraft(remaining[0] || null);
+    } catch (err: any) {
+      setRequestState(prev => ({ ...prev, error: err.message }));
+    }
+  };
+
+  /**
+   * @callback handleRun
+   * @description Runs the saved suite against the selected provider and model and shows the new run.
+   */
+  const handleRun = async () => {
+    if (!draft?.id) return;
+    setRequestState(prev => ({ ...prev, running: true, error: '' }));
+    try {
+      const run = await runEvalSuite(prompt.id, draft.id, runConfig);
+      setRuns(prev => [run, ...prev]);
+      setActiveRun(run);
+      setRequestState(prev => ({ ...prev, running: false }));
+    } catch (err: any) {
+      setRequestState(prev => ({ ...prev, running: false, error: err.message }));
+    }
+  };
+
+  const inputClasses = "w-full px-2 py-1 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200 disabled:opacity-60";
+
+  /**
+   * @function renderAssertionFields
+   * @description Renders the inputs specific to an assertion's type.
+   * @param {string} caseId - The ID of the case the assertion belongs to.
+   * @param {number} index - The position of the assertion.
+   * @param {EvalAssertion} assertion - The assertion.
+   * @returns {JSX.Element}
+   * @private
+   */
+  const renderAssertionFields = (caseId: string, index: number, assertion: EvalAssertion) => {
+    switch (assertion.type) {
+      case 'contains':
+        return (
+          <input type="text" aria-label="Expected text" placeholder="Expected text" disabled={!canEdit} className={inputClasses}
+            value={assertion.value} onChange={e => updateAssertion(caseId, index, { ...assertion, value: e.target.value })} />
+        );
+      case 'regex':
+        return (
+          <input type="text" aria-label="Pattern" placeholder="Regular expression, e.g. ^Dear \w+" disabled={!canEdit} className={`${inputClasses} font-mono`}
+            value={assertion.pattern} onChange={e => updateAssertion(caseId, index, { ...assertion, pattern: e.target.value })} />
+        );
+      case 'json-schema':
+        return (
+          <textarea
+            key={`${caseId}-${index}-schema`}
+            aria-label="JSON Schema"
+            rows={3}
+            disabled={!canEdit}
+            className={`${inputClasses} font-mono`}
+            defaultValue={JSON.stringify(assertion.schema, null, 2)}
+            onBlur={e => {
+              try {
+                updateAssertion(caseId, index, { ...assertion, schema: JSON.parse(e.target.value) });
+              } catch {
+                setRequestState(prev => ({ ...prev, error: 'The JSON Schema is not valid JSON' }));
+              }
+            }}
+          />
+        );
+      case 'max-length':
+        return (
+          <input type="number" min={1} aria-label="Maximum characters" disabled={!canEdit} className={inputClasses}
+            value={assertion.value} onChange={e => updateAssertion(caseId, index, { ...assertion, value: Number(e.target.value) })} />
+        );
+      case 'llm-rubric':
+        return (
+          <div className="flex gap-2">
+            <input type="text" aria-label="Rubric" placeholder="e.g. The reply apologises and offers a next step" disabled={!canEdit} className={inputClasses}
+              value={assertion.rubric} onChange={e => updateAssertion(caseId, index, { ...assertion, rubric: e.target.value })} />
+            <input type="number" min={0} max={1} step={0.1} aria-label="Passing score" title="Passing score (0-1)" disabled={!canEdit} className={`${inputClasses} w-20`}
+              value={assertion.threshold ?? 0.5} onChange={e => updateAssertion(caseId, index, { ...assertion, threshold: Number(e.target.value) })} />
+          </div>
+        );
+    }
+  };
+
+  if (requestState.loading && suites.length === 0) {
+    return <p className="text-sm text-gray-400">Loading evaluation suites...</p>;
+  }
+
+  return (
+    <div className="space-y-6 text-gray-200">
+      {requestState.error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{requestState.error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Evaluation suite"
+          value={draft?.id || ''}
+          onChange={e => setDraft(suites.find(s => s.id === e.target.value) || null)}
+          className="px-3 py-2 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200"
+        >
+          {!draft?.id && <option value="">{draft ? 'New suite' : 'No suites yet'}</option>}
+          {suites.map(suite => <option key={suite.id} value={suite.id}>{suite.name}</option>)}
+        </select>
+        {canEdit && (
+          <button
+            onClick={() => setDraft({ name: '', description: '', cases: [] })}
+            className="px-3 py-2 text-sm font-medium text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-md hover:bg-[#212934]"
+          >
+            New Suite
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <section className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input type="text" aria-label="Suite name" placeholder="Suite name" disabled={!canEdit} className={inputClasses}
+              value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            <input type="text" aria-label="Suite description" placeholder="What this suite checks (optional)" disabled={!canEdit} className={inputClasses}
+              value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+          </div>
+
+          {draft.cases.map((testCase, caseIndex) => (
+            <div key={testCase.id} className="border border-[#5c6f7e] rounded-md p-3 space-y-3 bg-[#212934]/50">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-[#95aac0] shrink-0">Case {caseIndex + 1}</span>
+                <input type="text" aria-label="Case description" placeholder="Description (optional)" disabled={!canEdit} className={inputClasses}
+                  value={testCase.description || ''} onChange={e => updateCase(testCase.id, c => ({ ...c, description: e.target.value || undefined }))} />
+                {canEdit && (
+                  <button
+                    onClick={() => setDraft({ ...draft, cases: draft.cases.filter(c => c.id !== testCase.id) })}
+                    className="text-red-300 hover:text-red-400 shrink-0"
+                    aria-label={`Remove case ${caseIndex + 1}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {variableNames.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {variableNames.map(name => (
+                    <label key={name} className="text-xs text-[#95aac0]">
+                      <span className="font-mono text-[#e2a32d]">{`{{${name}}}`}</span>
+                      <input type="text" disabled={!canEdit} className={`${inputClasses} mt-1`}
+                        value={testCase.variables[name] || ''}
+                        onChange={e => updateCase(testCase.id, c => ({ ...c, variables: { ...c.variables, [name]: e.target.value } }))} />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {testCase.assertions.map((assertion, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <select
+                      aria-label="Assertion type"
+                      value={assertion.type}
+                      disabled={!canEdit}
+                      onChange={e => updateAssertion(testCase.id, index, ASSERTION_TYPES[e.target.value as EvalAssertionType].create())}
+                      className={`${inputClasses} w-48 shrink-0`}
+                    >
+                      {(Object.keys(ASSERTION_TYPES) as EvalAssertionType[]).map(type => (
+                        <option key={type} value={type}>{ASSERTION_TYPES[type].label}</option>
+                      ))}
+                    </select>
+                    <div className="flex-1">{renderAssertionFields(testCase.id, index, assertion)}</div>
+                    {canEdit && testCase.assertions.length > 1 && (
+                      <button
+                        onClick={() => updateCase(testCase.id, c => ({ ...c, assertions: c.assertions.filter((_, i) => i !== index) }))}
+                        className="text-red-300 hover:text-red-400 shrink-0 mt-1"
+                        aria-label="Remove assertion"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {canEdit && (
+                  <button
+                    onClick={() => updateCase(testCase.id, c => ({ ...c, assertions: [...c.assertions, ASSERTION_TYPES.contains.create()] }))}
+                    className="text-xs font-semibold text-[#e2a32d] hover:underline"
+                  >
+                    + Add assertion
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canEdit && (
+            <div className="flex justify-between">
+              <button onClick={handleAddCase} className="text-sm font-semibold text-[#e2a32d] hover:underline">+ Add test case</button>
+              <div className="flex gap-2">
+                {draft.id && (
+                  <button
+                    onClick={handleDelete}
+                    className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-md hover:bg-[#212934]"
+                  >
+                    Delete Suite
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={requestState.saving || !draft.name.trim()}
+                  className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#c36e26] rounded-md hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {requestState.saving ? 'Saving...' : 'Save Suite'}
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+
+      {draft?.id && (
+        <section className="space-y-3 border-t border-[#5c6f7e] pt-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Provider"
+              value={runConfig.provider}
+              onChange={e => {
+                const provider = e.target.value as AIProvider;
+                setRunConfig({ provider, model: getProviderModels(provider)[0]?.id || '' });
+              }}
+              className="px-3 py-2 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200"
+            >
+              {(Object.keys(PROVIDER_CONFIGS) as AIProvider[]).map(provider => (
+                <option key={provider} value={provider}>{PROVIDER_CONFIGS[provider].name}</option>
+              ))}
+            </select>
+            <select
+              aria-label="Model"
+              value={runConfig.model}
+              onChange={e => setRunConfig(prev => ({ ...prev, model: e.target.value }))}
+              className="px-3 py-2 bg-[#212934] border border-[#5c6f7e] rounded-md text-sm text-gray-200"
+            >
+              {getProviderModels(runConfig.provider).map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+            </select>
+            <button
+              onClick={handleRun}
+              disabled={requestState.running || draft.cases.length === 0}
+              className="px-4 py-2 text-sm font-medium text-gray-200 bg-[#c36e26] rounded-md hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {requestState.running ? 'Running...' : 'Run Suite'}
+            </button>
+          </div>
+
+          {runs.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {runs.map(run => (
+                <button
+                  key={run.id}
+                  onClick={() => setActiveRun(run)}
+                  className={`px-2 py-1 text-xs rounded-md border ${activeRun?.id === run.id ? 'border-[#e2a32d] text-gray-200' : 'border-[#5c6f7e] text-[#95aac0]'}`}
+                  title={`${run.provider} / ${run.model}`}
+                >
+                  {new Date(run.completedAt).toLocaleString()} · {run.passed}/{run.passed + run.failed} · {formatScore(run.score)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {activeRun && (
+            <div className="space-y-2">
+              <p className="text-sm text-[#95aac0]">
+                {activeRun.provider} / {activeRun.model}: {activeRun.passed} passed, {activeRun.failed} failed, score {formatScore(activeRun.score)}
+              </p>
+              {activeRun.results.map((result, index) => (
+                <details key={result.caseId} className="border border-[#5c6f7e] rounded-md p-2">
+                  <summary className="cursor-pointer text-sm flex items-center gap-2">
+                    <span className={result.passed ? 'text-green-400' : 'text-red-300'}>{result.passed ? 'PASS' : 'FAIL'}</span>
+                    <span>{result.description || `Case ${index + 1}`}</span>
+                    <span className="text-xs text-[#95aac0] ml-auto">{formatScore(result.score)} · {result.latencyMs} ms</span>
+                  </summary>
+                  <div className="mt-2 space-y-2 text-xs">
+                    {result.error && <p className="text-red-300">{result.error}</p>}
+                    {result.assertions.map((assertion, i) => (
+                      <p key={i} className={assertion.passed ? 'text-green-400' : 'text-red-300'}>
+                        {ASSERTION_TYPES[assertion.type].label}: {assertion.message}
+                      </p>
+                    ))}
+                    {result.output && (
+                      <pre className="bg-[#212934] p-2 rounded whitespace-pre-wrap break-words border border-[#5c6f7e]">{result.output}</pre>
+                    )}
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default PromptEvalPanel;
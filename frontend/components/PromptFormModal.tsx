@@ -3,24 +3,41 @@
  * @description This component provides a modal form for creating and editing SFL prompts.
  * It includes fields for all SFL parameters, a title, notes, and the main prompt text.
  * It also features an AI-powered regeneration capability and allows attaching a source document for stylistic reference.
+ * The `{{variables}}` in the prompt text are detected as it is typed, and each can be given a type, default and description.
+ * The prompt's owner also chooses who can see it: only themselves, specific users (by email), or everyone.
+ * Tags are entered as a comma-separated list, with the library's existing tags offered as suggestions.
+ * While the prompt is edited, the server-side linter checks it for inconsistencies between its SFL fields and its text,
+ * and its findings are shown next to the fields they concern.
+ * A prompt can extend a base prompt, inheriting whatever it leaves empty, and can include the user's snippets as `{{> name}}` partials.
+ * Below the prompt text, its token count and the cost of running it on a chosen model are estimated as it is typed.
  *
  * @requires react
  * @requires ../types
  * @requires ../constants
+ * @requires ../store/appStore
  * @requires ../utils/generateId
+ * @requires ../utils/promptVariables
  * @requires ./ModalShell
+ * @requires ./SnippetPicker
+ * @requires ./TokenEstimate
  * @requires ../services/geminiService
+ * @requires ../services/promptApiService
  * @requires ./icons/SparklesIcon
  * @requires ./icons/PaperClipIcon
  * @requires ./icons/XCircleIcon
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { PromptSFL } from '../types';
-import { INITIAL_PROMPT_SFL } from '../constants';
+import { LintDiagnostic, PromptSFL, PromptVariable, PromptVariableType, PromptVisibility } from '../types';
+import { INITIAL_PROMPT_SFL, PROMPT_LOCALES } from '../constants';
+import { useAppStore } from '../store/appStore';
 import { generateId } from '../utils/generateId';
+import { syncVariables } from '../utils/promptVariables';
 import ModalShell from './ModalShell';
+import SnippetPicker from './SnippetPicker';
+import TokenEstimate from './TokenEstimate';
 import { regenerateSFLFromSuggestion } from '../services/geminiService';
+import { getPromptById, lintPrompt } from '../services/promptApiService';
 import SparklesIcon from './icons/SparklesIcon';
 import PaperClipIcon from './icons/PaperClipIcon';
 import XCircleIcon from './icons/XCircleIcon';
@@ -51,6 +68,48 @@ interface PromptFormModalProps {
   onAddConstant: (key: keyof PromptFormModalProps['appConstants'], value: string) => void;
 }
 
+/**
+ * @constant {PromptVariableType[]} VARIABLE_TYPES - The variable types offered in the variables editor.
+ * @private
+ */
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'enum', 'multiline', 'file'];
+
+/**
+ * @constant {{value: PromptVisibility; label: string}[]} VISIBILITY_OPTIONS - The visibility choices offered to the owner.
+ * @private
+ */
+const VISIBILITY_OPTIONS: { value: PromptVisibility; label: string }[] = [
+  { value: 'private', label: 'Private - only me' },
+  { value: 'shared', label: 'Shared - me and the people listed below' },
+  { value: 'public', label: 'Public - everyone' },
+];
+
+/**
+ * Splits a comma- or newline-separated list, such as email addresses or tag names.
+ *
+ * @param {string} text - The raw input.
+ * @returns {string[]} The trimmed, non-empty entries.
+ * @private
+ */
+const parseList = (text: string): string[] =>
+  text.split(/[,\n]/).map(entry => entry.trim()).filter(Boolean);
+
+/**
+ * @constant {number} LINT_DEBOUNCE_MS - How long editing must pause before the prompt is linted again.
+ * @private
+ */
+const LINT_DEBOUNCE_MS = 500;
+
+/**
+ * @constant {Record<LintDiagnostic['severity'], string>} DIAGNOSTIC_CLASSES - The text colour of each lint severity.
+ * @private
+ */
+const DIAGNOSTIC_CLASSES: Record<LintDiagnostic['severity'], string> = {
+  error: 'text-red-300',
+  warning: 'text-amber-400',
+  info: 'text-[#95aac0]',
+};
+
 /**
  * A comprehensive modal form for creating and editing SFL prompts.
  * It manages the form's state, handles user input for all SFL fields, and provides advanced
@@ -79,6 +138,27 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
    * @state {object} saveState - Manages the state of the save operation, including loading status and any error messages.
    */
   const [saveState, setSaveState] = useState({ saving: false, error: '' });
+
+  /**
+   * @state {string} sharedWithText - The comma-separated email addresses a shared prompt is visible to.
+   */
+  const [sharedWithText, setSharedWithText] = useState('');
+
+  /**
+   * @state {string} tagsText - The comma-separated tags attached to the prompt.
+   */
+  const [tagsText, setTagsText] = useState('');
+
+  /**
+   * @state {LintDiagnostic[]} diagnostics - The linter's findings for the current form data.
+   */
+  const [diagnostics, setDiagnostics] = useState<LintDiagnostic[]>([]);
+
+  const availableTags = useAppStore(state => state.tags);
+  const libraryPrompts = useAppStore(state => state.prompts);
+
+  // Only the owner may change who can see a prompt; new prompts are owned by whoever creates them
+  const isOwner = !promptToEdit?.access || promptToEdit.access === 'owner';
   
   /**
    * @ref {HTMLInputElement} fileInputRef - A ref to a hidden file input for programmatically triggering the file selection dialog.
@@ -99,8 +179,58 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
     }
      setRegenState({ shown: false, suggestion: '', loading: false });
      setSaveState({ saving: false, error: '' });
+     setSharedWithText((promptToEdit?.sharedWith || []).join(', '));
+     setTagsText((promptToEdit?.tags || []).join(', '));
+  }, [promptToEdit, isOpen]);
+
+  /**
+   * @effect Loads the share list of a shared prompt opened from the library, where the list is not included.
+   */
+  useEffect(() => {
+    if (!isOpen || !promptToEdit || promptToEdit.access !== 'owner') return;
+    if (promptToEdit.visibility !== 'shared' || promptToEdit.sharedWith) return;
+
+    let cancelled = false;
+    getPromptById(promptToEdit.id)
+      .then(loaded => {
+        if (!cancelled) setSharedWithText((loaded.sharedWith || []).join(', '));
+      })
+      .catch(error => console.error('Failed to load prompt shares:', error));
+    return () => { cancelled = true; };
   }, [promptToEdit, isOpen]);
 
+  /**
+   * @effect Keeps the variable declarations in sync with the placeholders in the prompt text:
+   * new placeholders are declared as optional strings and removed ones are dropped.
+   */
+  useEffect(() => {
+    setFormData(prev => ({ ...prev, variables: syncVariables(prev.promptText || '', prev.variables) }));
+  }, [formData.promptText, promptToEdit, isOpen]);
+
+  /**
+   * @effect Lints the prompt once editing pauses. Linting failures only clear the findings,
+   * since they must not get in the way of editing.
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const { title, promptText, sflField, sflTenor, sflMode, variables } = formData;
+      lintPrompt({ title, promptText, sflField, sflTenor, sflMode, variables })
+        .then(found => {
+          if (!cancelled) setDiagnostics(found);
+        })
+        .catch(error => {
+          console.error('Failed to lint prompt:', error);
+          if (!cancelled) setDiagnostics([]);
+        });
+    }, LINT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData, isOpen]);
+
   /**
    * @callback handleChange
    * @description A generic handler for updating top-level fields in the `formData` state.
@@ -138,6 +268,19 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
     }));
   };
   
+  /**
+   * @callback handleVariableChange
+   * @description Updates the declaration of a single template variable.
+   * @param {string} name - The name of the variable to update.
+   * @param {Partial<PromptVariable>} updates - The declaration fields to change.
+   */
+  const handleVariableChange = (name: string, updates: Partial<PromptVariable>) => {
+    setFormData(prev => ({
+      ...prev,
+      variables: (prev.variables || []).map(v => v.name === name ? { ...v, ...updates } : v),
+    }));
+  };
+
   /**
    * @callback handleTargetAudienceChange
    * @description Handles changes to the 'targetAudience' checkboxes, adding or removing audiences from the array.
@@ -231,15 +374,22 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
       setSaveState({ saving: false, error: 'Title is required' });
       return;
     }
-    if (!formData.promptText?.trim()) {
+    if (!formData.promptText?.trim() && !formData.extendsId) {
       setSaveState({ saving: false, error: 'Prompt text is required' });
       return;
     }
+    const enumWithoutOptions = (formData.variables || []).find(v => v.type === 'enum' && !v.options?.length);
+    if (enumWithoutOptions) {
+      setSaveState({ saving: false, error: `Variable "${enumWithoutOptions.name}" needs at least one option` });
+      return;
+    }
 
     try {
       const now = new Date().toISOString();
       const finalPrompt: PromptSFL = {
         ...formData,
+        sharedWith: isOwner && formData.visibility === 'shared' ? parseList(sharedWithText) : undefined,
+        tags: parseList(tagsText),
         id: promptToEdit?.id || generateId(),
         createdAt: promptToEdit?.createdAt || now,
         updatedAt: now,
@@ -262,6 +412,34 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
   const commonInputClasses = "w-full px-3 py-2 bg-[#333e48] border border-[#5c6f7e] text-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-[#e2a32d] focus:border-[#e2a32d] transition-colors placeholder-[#95aac0]";
   const labelClasses = "block text-sm font-medium text-gray-200 mb-1";
 
+  /**
+   * @function renderDiagnostics
+   * @description Renders the linter's findings about one field.
+   * @param {(diagnostic: LintDiagnostic) => boolean} matches - Selects the findings to show.
+   * @returns {React.ReactElement | null}
+   * @private
+   */
+  const renderDiagnostics = (matches: (diagnostic: LintDiagnostic) => boolean) => {
+    const shown = diagnostics.filter(matches);
+    if (shown.length === 0) return null;
+    return (
+      <ul className="mt-1 space-y-0.5">
+        {shown.map(diagnostic => (
+          <li key={`${diagnostic.ruleId}-${diagnostic.message}`} className={`text-xs ${DIAGNOSTIC_CLASSES[diagnostic.severity]}`}>
+            {diagnostic.message}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  /**
+   * @function forField
+   * @description Builds a `renderDiagnostics` selector for the findings about the field at a dotted path.
+   * @private
+   */
+  const forField = (field: string) => (diagnostic: LintDiagnostic) => diagnostic.field === field;
+
   /**
    * @function renderTextField
    * @description A helper function to render a standard text input or textarea field.
@@ -295,6 +473,69 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
     </div>
   );
 
+  /**
+   * @function renderVariableEditor
+   * @description Renders the declaration controls for one template variable: type, required flag,
+   * options (for enums), default value and description.
+   * @param {PromptVariable} variable - The variable to render.
+   * @returns {JSX.Element}
+   * @private
+   */
+  const renderVariableEditor = (variable: PromptVariable) => (
+    <div key={variable.name} className="p-3 bg-[#212934] rounded-md border border-[#5c6f7e] space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-mono text-sm text-[#e2a32d]">{`{{${variable.name}}}`}</span>
+        <select
+          aria-label={`Type of ${variable.name}`}
+          value={variable.type}
+          onChange={(e) => handleVariableChange(variable.name, { type: e.target.value as PromptVariableType })}
+          className={`${commonInputClasses} w-auto py-1 text-sm appearance-none`}
+        >
+          {VARIABLE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <label className="flex items-center text-sm text-gray-200 select-none">
+          <input
+            type="checkbox"
+            checked={variable.required}
+            onChange={(e) => handleVariableChange(variable.name, { required: e.target.checked })}
+            className="h-4 w-4 mr-2 rounded border-[#5c6f7e] text-[#e2a32d] focus:ring-[#e2a32d] bg-[#333e48]"
+          />
+          Required
+        </label>
+      </div>
+      {variable.type === 'enum' && (
+        <input
+          type="text"
+          aria-label={`Options of ${variable.name}`}
+          defaultValue={(variable.options || []).join(', ')}
+          onBlur={(e) => handleVariableChange(variable.name, {
+            options: e.target.value.split(',').map(option => option.trim()).filter(Boolean),
+          })}
+          placeholder="Comma-separated options, e.g., formal, casual"
+          className={`${commonInputClasses} text-sm`}
+        />
+      )}
+      {variable.type !== 'file' && (
+        <input
+          type={variable.type === 'number' ? 'number' : 'text'}
+          aria-label={`Default value of ${variable.name}`}
+          value={variable.defaultValue || ''}
+          onChange={(e) => handleVariableChange(variable.name, { defaultValue: e.target.value || undefined })}
+          placeholder="Default value (optional)"
+          className={`${commonInputClasses} text-sm`}
+        />
+      )}
+      <input
+        type="text"
+        aria-label={`Description of ${variable.name}`}
+        value={variable.description || ''}
+        onChange={(e) => handleVariableChange(variable.name, { description: e.target.value || undefined })}
+        placeholder="Description shown when filling in this variable (optional)"
+        className={`${commonInputClasses} text-sm`}
+      />
+    </div>
+  );
+
   /**
    * @function renderSFLTextField
    * @description A helper function to render a text input or textarea for a nested SFL field.
@@ -334,6 +575,7 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
           className={commonInputClasses}
         />
       )}
+      {renderDiagnostics(forField(`${sflType}.${String(name)}`))}
     </div>
   );
 
@@ -364,6 +606,7 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
       >
         {options.map(option => <option key={option} value={option}>{option}</option>)}
       </select>
+      {renderDiagnostics(forField(`${sflType}.${String(name)}`))}
       <div className="flex items-center space-x-2 mt-2">
         <input
             type="text"
@@ -382,6 +625,27 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
       <form onSubmit={handleSubmit} className="space-y-6">
         <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".txt,.md,.text" />
         {renderTextField('Title', 'title', 'Enter a concise title for the prompt')}
+
+        <div>
+          <label htmlFor="extendsId" className={labelClasses}>Base Prompt (Optional)</label>
+          <select
+            id="extendsId"
+            value={formData.extendsId || ''}
+            onChange={(e) => handleChange('extendsId', e.target.value || undefined)}
+            className={`${commonInputClasses} appearance-none`}
+          >
+            <option value="">None</option>
+            {formData.extendsId && !libraryPrompts.some(p => p.id === formData.extendsId) && (
+              <option value={formData.extendsId}>{formData.extendsId}</option>
+            )}
+            {libraryPrompts.filter(p => p.id !== promptToEdit?.id).map(p => (
+              <option key={p.id} value={p.id}>{p.title}</option>
+            ))}
+          </select>
+          {formData.extendsId && (
+            <p className="text-xs text-[#95aac0] mt-1">The prompt text, SFL fields and variables left empty here are taken from the base prompt.</p>
+          )}
+        </div>
         
         <div>
             <label htmlFor="promptText" className={labelClasses}>Prompt Text</label>
@@ -394,8 +658,22 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
               rows={4}
               className={commonInputClasses}
             />
+            <TokenEstimate text={String(formData.promptText || '')} />
+            {renderDiagnostics(diagnostic => !diagnostic.field || diagnostic.field === 'promptText')}
+            <SnippetPicker onInsert={partial => setFormData(prev => ({ ...prev, promptText: `${prev.promptText || ''}${partial}` }))} />
         </div>
 
+        {(formData.variables || []).length > 0 && (
+          <fieldset className="border border-gray-300 p-4 rounded-md">
+            <legend className="text-lg font-medium text-gray-200 px-2">Variables</legend>
+            <p className="text-xs text-[#95aac0] mb-2">Detected from the <code>{'{{placeholders}}'}</code> in the prompt text. They are filled in through a form when the prompt is tested.</p>
+            <div className="space-y-3">
+              {(formData.variables || []).map(renderVariableEditor)}
+            </div>
+            {renderDiagnostics(forField('variables'))}
+          </fieldset>
+        )}
+
          <div>
           <label className={labelClasses}>Source Document (Optional)</label>
           <p className="text-xs text-[#95aac0] mb-2">Attach a text file for stylistic reference. Its style will be analyzed when using the AI regeneration feature.</p>
@@ -480,6 +758,7 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
                         }
                     }} className="px-3 py-2 text-sm bg-[#c36e26] hover:bg-[#c36e26]/90 rounded-md shrink-0 text-gray-200">Add</button>
                 </div>
+                {renderDiagnostics(forField('sflTenor.targetAudience'))}
             </div>
 
             {renderCreatableSFLSelectField('sflTenor', 'desiredTone', 'Desired Tone', appConstants.desiredTones, 'desiredTones')}
@@ -504,6 +783,71 @@ const PromptFormModal: React.FC<PromptFormModalProps> = ({ isOpen, onClose, onSa
 
         {renderTextField('Notes (Optional)', 'notes', 'Your private notes about this prompt', true)}
 
+        <div>
+          <label htmlFor="locale" className={labelClasses}>Locale (Optional)</label>
+          <input
+            type="text"
+            id="locale"
+            list="prompt-locale-suggestions"
+            value={formData.locale || ''}
+            onChange={e => handleChange('locale', e.target.value)}
+            placeholder="e.g., en, de, pt-BR"
+            className={commonInputClasses}
+          />
+          <datalist id="prompt-locale-suggestions">
+            {PROMPT_LOCALES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+          </datalist>
+        </div>
+
+        <div>
+          <label htmlFor="tags" className={labelClasses}>Tags (Optional)</label>
+          <input
+            type="text"
+            id="tags"
+            list="prompt-tag-suggestions"
+            value={tagsText}
+            onChange={e => setTagsText(e.target.value)}
+            placeholder="e.g., onboarding, billing, support"
+            className={commonInputClasses}
+          />
+          <datalist id="prompt-tag-suggestions">
+            {availableTags.map(tag => <option key={tag.id} value={tag.name} />)}
+          </datalist>
+        </div>
+
+        {isOwner && (
+          <fieldset className="border border-gray-300 p-4 rounded-md">
+            <legend className="text-lg font-medium text-gray-200 px-2">Visibility</legend>
+            <div className="space-y-4 mt-2">
+              <div>
+                <label htmlFor="visibility" className={labelClasses}>Who can see this prompt?</label>
+                <select
+                  id="visibility"
+                  value={formData.visibility || 'private'}
+                  onChange={e => handleChange('visibility', e.target.value as PromptVisibility)}
+                  className={commonInputClasses}
+                >
+                  {VISIBILITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+              {formData.visibility === 'shared' && (
+                <div>
+                  <label htmlFor="sharedWith" className={labelClasses}>Share With</label>
+                  <input
+                    type="text"
+                    id="sharedWith"
+                    value={sharedWithText}
+                    onChange={e => setSharedWithText(e.target.value)}
+                    placeholder="colleague@example.com, teammate@example.com"
+                    className={commonInputClasses}
+                  />
+                  <p className="text-xs text-[#95aac0] mt-1">People you share with can view and edit the prompt, but only you can delete it or change who can see it.</p>
+                </div>
+              )}
+            </div>
+          </fieldset>
+        )}
+
         {saveState.error && (
           <div className="bg-red-900/20 border border-red-600 rounded-md p-3">
             <div className="flex">
@@ -0,0 +1,216 @@
+/**
+ * @file PromptHistoryPanel.tsx
+ * @description This component renders the revision history of a prompt inside the prompt detail modal.
+ * It lists every saved revision, lets the user pick two revisions to compare field by field,
+ * and offers a restore action that rolls the prompt back to a selected revision.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../services/promptApiService
+ * @requires ./icons/ArrowPathIcon
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { PromptRevision, PromptRevisionDiff } from '../types';
+import { getPromptRevisions, diffPromptRevisions } from '../services/promptApiService';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+/**
+ * @interface PromptHistoryPanelProps
+ * @description Defines the props for the `PromptHistoryPanel` component.
+ * @property {string} promptId - The ID of the prompt whose history is shown.
+ * @property {string} updatedAt - The prompt's last update timestamp; the history reloads whenever it changes.
+ * @property {(revisionNumber: number) => Promise<void>} onRestore - Callback to roll the prompt back to a revision.
+ */
+interface PromptHistoryPanelProps {
+  promptId: string;
+  updatedAt: string;
+  onRestore: (revisionNumber: number) => Promise<void>;
+}
+
+/**
+ * @constant {Record<string, string>} FIELD_LABELS
+ * @description Human-readable labels for the dotted field paths returned by the diff endpoint.
+ * @private
+ */
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  promptText: 'Prompt Text',
+  'sflField.topic': 'Field · Topic',
+  'sflField.taskType': 'Field · Task Type',
+  'sflField.domainSpecifics': 'Field · Domain Specifics',
+  'sflField.keywords': 'Field · Keywords',
+  'sflTenor.aiPersona': 'Tenor · AI Persona',
+  'sflTenor.targetAudience': 'Tenor · Target Audience',
+  'sflTenor.desiredTone': 'Tenor · Desired Tone',
+  'sflTenor.interpersonalStance': 'Tenor · Interpersonal Stance',
+  'sflMode.outputFormat': 'Mode · Output Format',
+  'sflMode.rhetoricalStructure': 'Mode · Rhetorical Structure',
+  'sflMode.lengthConstraint': 'Mode · Length Constraint',
+  'sflMode.textualDirectives': 'Mode · Textual Directives',
+  variables: 'Variables',
+  exampleOutput: 'Example Output',
+  notes: 'Notes',
+};
+
+/**
+ * A panel listing the revisions of a prompt with compare and restore controls.
+ * The two most recent revisions are preselected for comparison when the history loads.
+ *
+ * @param {PromptHistoryPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered history panel.
+ */
+const PromptHistoryPanel: React.FC<PromptHistoryPanelProps> = ({ promptId, updatedAt, onRestore }) => {
+  /**
+   * @state {PromptRevision[]} revisions - The prompt's revisions, newest first.
+   */
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+
+  /**
+   * @state {number | null} fromRevision - The older revision selected for comparison.
+   */
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+
+  /**
+   * @state {number | null} toRevision - The newer revision selected for comparison.
+   */
+  const [toRevision, setToRevision] = useState<number | null>(null);
+
+  /**
+   * @state {PromptRevisionDiff | null} diff - The field-by-field diff of the selected revisions.
+   */
+  const [diff, setDiff] = useState<PromptRevisionDiff | null>(null);
+
+  /**
+   * @state {boolean} isLoading - Indicates that the revision list is being fetched.
+   */
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * @state {string | null} error - The last error raised while loading, comparing or restoring.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @callback loadRevisions
+   * @description Fetches the revision list and preselects the two latest revisions for comparison.
+   */
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fetched = await getPromptRevisions(promptId);
+      setRevisions(fetched);
+      setToRevision(fetched[0]?.revisionNumber ?? null);
+      setFromRevision(fetched[1]?.revisionNumber ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [promptId]);
+
+  /**
+   * @effect Reloads the history when the panel opens or the prompt is saved again.
+   */
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, updatedAt]);
+
+  /**
+   * @effect Fetches the diff whenever both comparison revisions are selected.
+   */
+  useEffect(() => {
+    if (fromRevision === null || toRevision === null || fromRevision === toRevision) {
+      setDiff(null);
+      return;
+    }
+    diffPromptRevisions(promptId, fromRevision, toRevision)
+      .then(setDiff)
+      .catch((err: any) => setError(err.message));
+  }, [promptId, fromRevision, toRevision]);
+
+  /**
+   * @callback handleRestore
+   * @description Confirms and restores the prompt to the given revision.
+   * @param {number} revisionNumber - The revision to restore.
+   */
+  const handleRestore = async (revisionNumber: number) => {
+    if (!window.confirm(`Restore revision ${revisionNumber}? The current content will be kept in the history.`)) return;
+    try {
+      await onRestore(revisionNumber);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (isLoading && revisions.length === 0) {
+    return <p className="text-sm text-gray-400">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>
+      )}
+
+      <section className="border border-[#5c6f7e] rounded-lg bg-[#212934]/50 divide-y divide-[#5c6f7e]">
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="flex items-center justify-between p-3 text-sm">
+            <div className="flex items-center gap-3">
+              <input
+                type="radio"
+                name="revision-from"
+                title="Compare from"
+                checked={fromRevision === revision.revisionNumber}
+                onChange={() => setFromRevision(revision.revisionNumber)}
+              />
+              <input
+                type="radio"
+                name="revision-to"
+                title="Compare to"
+                checked={toRevision === revision.revisionNumber}
+                onChange={() => setToRevision(revision.revisionNumber)}
+              />
+              <span className="font-semibold text-gray-800">Revision {revision.revisionNumber}</span>
+              <span className="text-gray-400">{new Date(revision.createdAt).toLocaleString()}</span>
+              {index === 0 && <span className="text-xs px-2 py-0.5 rounded bg-[#4A69E2] text-white">Current</span>}
+            </div>
+            {index > 0 && (
+              <button
+                onClick={() => handleRestore(revision.revisionNumber)}
+                className="text-xs font-semibold text-[#4A69E2] hover:underline flex items-center"
+              >
+                <ArrowPathIcon className="w-4 h-4 mr-1" /> Restore
+              </button>
+            )}
+          </div>
+        ))}
+        {revisions.length === 0 && <p className="p-3 text-sm text-gray-400">No revisions recorded yet.</p>}
+      </section>
+
+      {diff && (
+        <section>
+          <h3 className="text-md font-semibold text-gray-800 mb-2">
+            Changes from revision {diff.fromRevision} to {diff.toRevision}
+          </h3>
+          {diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-400">These revisions are identical.</p>
+          ) : (
+            <div className="space-y-3">
+              {diff.changes.map(change => (
+                <div key={change.field} className="border border-[#5c6f7e] rounded-md p-3">
+                  <h4 className="text-sm font-semibold text-gray-500 mb-1">{FIELD_LABELS[change.field] || change.field}</h4>
+                  <pre className="bg-red-50 p-2 rounded text-sm text-red-800 whitespace-pre-wrap break-words border border-red-200 mb-1">{change.from || '(empty)'}</pre>
+                  <pre className="bg-green-50 p-2 rounded text-sm text-green-800 whitespace-pre-wrap break-words border border-green-200">{change.to || '(empty)'}</pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default PromptHistoryPanel;
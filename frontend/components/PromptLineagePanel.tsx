@@ -0,0 +1,151 @@
+/**
+ * @file PromptLineagePanel.tsx
+ * @description This component shows where a prompt sits in its fork lineage, inside the prompt detail modal.
+ * The prompts it was forked from are listed above it, oldest first, and the forks made of it are shown
+ * as an indented tree below it. Forks whose parent has been revised since they were made are flagged,
+ * and any prompt in the lineage can be opened.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../services/promptApiService
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PromptLineage, PromptLineageNode, PromptSFL } from '../types';
+import { getPromptLineage, getPromptById } from '../services/promptApiService';
+
+/**
+ * @interface PromptLineagePanelProps
+ * @description Defines the props for the `PromptLineagePanel` component.
+ * @property {string} promptId - The ID of the prompt whose lineage is shown.
+ * @property {string} updatedAt - The prompt's last update timestamp; the lineage reloads whenever it changes.
+ * @property {(prompt: PromptSFL) => void} onViewPrompt - Callback to open another prompt of the lineage.
+ */
+interface PromptLineagePanelProps {
+  promptId: string;
+  updatedAt: string;
+  onViewPrompt: (prompt: PromptSFL) => void;
+}
+
+/**
+ * Orders the descendants depth-first so that every fork directly follows its parent.
+ *
+ * @param {string} rootId - The ID of the prompt the lineage was requested for.
+ * @param {PromptLineageNode[]} descendants - The descendants as returned by the server.
+ * @returns {PromptLineageNode[]} The descendants in tree order.
+ * @private
+ */
+const orderAsTree = (rootId: string, descendants: PromptLineageNode[]): PromptLineageNode[] => {
+  const ordered: PromptLineageNode[] = [];
+  const visit = (parentId: string) => {
+    descendants.filter(node => node.parentId === parentId).forEach(node => {
+      ordered.push(node);
+      visit(node.id);
+    });
+  };
+  visit(rootId);
+  return ordered;
+};
+
+/**
+ * A panel listing the ancestors and descendants of a prompt in its fork lineage.
+ *
+ * @param {PromptLineagePanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered lineage panel.
+ */
+const PromptLineagePanel: React.FC<PromptLineagePanelProps> = ({ promptId, updatedAt, onViewPrompt }) => {
+  /**
+   * @state {PromptLineage | null} lineage - The lineage of the prompt.
+   */
+  const [lineage, setLineage] = useState<PromptLineage | null>(null);
+
+  /**
+   * @state {string | null} error - The last error raised while loading the lineage or opening a prompt.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @effect Fetches the lineage when the panel opens or the prompt is saved again.
+   * Responses for a prompt that is no longer shown are ignored.
+   */
+  useEffect(() => {
+    let isCurrent = true;
+    setError(null);
+    getPromptLineage(promptId)
+      .then(fetched => {
+        if (isCurrent) setLineage(fetched);
+      })
+      .catch((err: any) => {
+        if (isCurrent) setError(err.message);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [promptId, updatedAt]);
+
+  /**
+   * @callback handleOpen
+   * @description Loads a prompt of the lineage and opens it.
+   * @param {string} id - The ID of the prompt to open.
+   */
+  const handleOpen = async (id: string) => {
+    try {
+      onViewPrompt(await getPromptById(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>;
+  }
+
+  if (!lineage) {
+    return <p className="text-sm text-gray-400">Loading lineage...</p>;
+  }
+
+  /**
+   * Renders one prompt of the lineage, indented by its distance from the root of the shown tree.
+   */
+  const renderNode = (node: PromptLineageNode, indent: number, isCurrent = false) => (
+    <div key={node.id} className="flex items-center justify-between p-3 text-sm" style={{ paddingLeft: `${0.75 + indent * 1.25}rem` }}>
+      <div className="flex items-center gap-2 min-w-0">
+        {indent > 0 && <span className="text-gray-500">↳</span>}
+        {isCurrent ? (
+          <span className="font-semibold text-gray-800 truncate">{node.title}</span>
+        ) : (
+          <button onClick={() => handleOpen(node.id)} className="font-semibold text-[#4A69E2] hover:underline truncate text-left">
+            {node.title}
+          </button>
+        )}
+        {isCurrent && <span className="text-xs px-2 py-0.5 rounded bg-[#4A69E2] text-white">This prompt</span>}
+        {node.upstreamChanged && (
+          <span className="text-xs px-2 py-0.5 rounded bg-[#c36e26] text-white" title="The prompt this was forked from has been revised since">
+            Upstream changed
+          </span>
+        )}
+      </div>
+      <span className="text-xs text-gray-400 ml-4 flex-shrink-0">
+        {node.forkedFromRevision !== null ? `forked at revision ${node.forkedFromRevision} · ` : ''}revision {node.latestRevision}
+      </span>
+    </div>
+  );
+
+  const ancestors = [...lineage.ancestors].reverse();
+  const descendants = orderAsTree(lineage.prompt.id, lineage.descendants);
+
+  return (
+    <div className="space-y-4">
+      {ancestors.length === 0 && descendants.length === 0 && (
+        <p className="text-sm text-gray-400">This prompt has not been forked from or into another prompt.</p>
+      )}
+      <section className="border border-[#5c6f7e] rounded-lg bg-[#212934]/50 divide-y divide-[#5c6f7e]">
+        {ancestors.map((node, index) => renderNode(node, index))}
+        {renderNode(lineage.prompt, ancestors.length, true)}
+        {descendants.map(node => renderNode(node, ancestors.length + node.depth))}
+      </section>
+    </div>
+  );
+};
+
+export default PromptLineagePanel;
@@ -4,6 +4,7 @@
  * It takes an array of prompt objects and maps each one to a `PromptCard` component,
  * arranging them in a responsive grid. If the list of prompts is empty, it displays a
  * user-friendly message indicating that no prompts were found.
+ * Prompts are paged from the server, so the list offers a sort selector and a "Load more" control.
  *
  * @requires react
  * @requires ../types
@@ -12,7 +13,7 @@
  */
 
 import React from 'react';
-import { PromptSFL } from '../types';
+import { PromptSFL, PromptSortField } from '../types';
 import { useAppStore } from '../store/appStore';
 import PromptCard from './PromptCard';
 import ClipboardDocumentListIcon from './icons/ClipboardDocumentListIcon';
@@ -34,6 +35,18 @@ interface PromptListProps {
   onExportMarkdown: (prompt: PromptSFL) => void;
 }
 
+/**
+ * @constant {{ value: PromptSortField; label: string }[]} SORT_OPTIONS
+ * @description The sort orders offered to the user. Relevance is only listed while a search term is active.
+ * @private
+ */
+const SORT_OPTIONS: { value: PromptSortField; label: string }[] = [
+  { value: 'updatedAt', label: 'Recently updated' },
+  { value: 'createdAt', label: 'Recently created' },
+  { value: 'title', label: 'Title (A–Z)' },
+  { value: 'relevance', label: 'Best match' },
+];
+
 /**
  * A component that renders a grid of `PromptCard` components.
  * It serves as the main display area for the collection of prompts. If the `prompts` array
@@ -43,9 +56,10 @@ interface PromptListProps {
  * @returns {JSX.Element} The rendered list of prompts as a grid, or an empty state message.
  */
 const PromptList: React.FC<PromptListProps> = ({ onViewPrompt, onEditPrompt, onDeletePrompt, onExportJSON, onExportMarkdown }) => {
-  const { getFilteredPrompts } = useAppStore();
-  const prompts = getFilteredPrompts();
-  if (prompts.length === 0) {
+  const { prompts, totalPrompts, nextCursor, isLoading, isLoadingMore, filters, sort, setSort, fetchMorePrompts, removePromptFromCollection } = useAppStore();
+  const sortOptions = SORT_OPTIONS.filter(option => option.value !== 'relevance' || filters.searchTerm);
+
+  if (prompts.length === 0 && !isLoading) {
     return (
       <div className="text-center py-10 bg-[#333e48] rounded-lg border border-[#5c6f7e]">
         <ClipboardDocumentListIcon className="w-16 h-16 text-[#95aac0] mx-auto mb-4"/>
@@ -56,18 +70,45 @@ const PromptList: React.FC<PromptListProps> = ({ onViewPrompt, onEditPrompt, onD
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-      {prompts.map(prompt => (
-        <PromptCard 
-          key={prompt.id} 
-          prompt={prompt} 
-          onView={onViewPrompt}
-          onEdit={onEditPrompt}
-          onDelete={onDeletePrompt}
-          onExportJSON={onExportJSON}
-          onExportMarkdown={onExportMarkdown}
-        />
-      ))}
+    <div>
+      <div className="flex items-center justify-between mb-4 text-sm text-[#95aac0]">
+        <span>Showing {prompts.length} of {totalPrompts} prompts</span>
+        <label className="flex items-center space-x-2">
+          <span>Sort by</span>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as PromptSortField)}
+            className="px-2 py-1 bg-[#333e48] border border-[#5c6f7e] text-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-[#e2a32d]"
+          >
+            {sortOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {prompts.map(prompt => (
+          <PromptCard 
+            key={prompt.id} 
+            prompt={prompt} 
+            onView={onViewPrompt}
+            onEdit={onEditPrompt}
+            onDelete={onDeletePrompt}
+            onExportJSON={onExportJSON}
+            onExportMarkdown={onExportMarkdown}
+            onRemoveFromCollection={filters.collection ? (promptId) => removePromptFromCollection(filters.collection, promptId) : undefined}
+          />
+        ))}
+      </div>
+      {nextCursor && (
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={fetchMorePrompts}
+            disabled={isLoadingMore}
+            className="px-4 py-2 text-sm font-semibold text-gray-200 bg-[#333e48] border border-[#5c6f7e] rounded-lg hover:bg-[#333e48]/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+/**
+ * @file PromptLocalesPanel.tsx
+ * @description This component lists a prompt's locale siblings inside the prompt detail modal: the prompt the
+ * others were translated from and every translated variant. Any sibling can be opened, and the prompt can be
+ * translated into a locale the siblings do not cover yet. The server keeps `{{placeholders}}` and partial
+ * references intact and rejects a translation that damaged one, so its message is shown here.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../constants
+ * @requires ../services/promptApiService
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PromptLocaleVariant, PromptSFL } from '../types';
+import { PROMPT_LOCALES } from '../constants';
+import { getPromptLocales, getPromptById } from '../services/promptApiService';
+
+/**
+ * @interface PromptLocalesPanelProps
+ * @description Defines the props for the `PromptLocalesPanel` component.
+ * @property {string} promptId - The ID of the prompt whose siblings are shown.
+ * @property {string} updatedAt - The prompt's last update timestamp; the list reloads whenever it changes.
+ * @property {boolean} canTranslate - Whether the user may translate the prompt, i.e. owns it or has it shared with them.
+ * @property {(locale: string) => Promise<void>} onTranslate - Callback to translate the prompt into a locale.
+ * @property {(prompt: PromptSFL) => void} onViewPrompt - Callback to open another sibling.
+ */
+interface PromptLocalesPanelProps {
+  promptId: string;
+  updatedAt: string;
+  canTranslate: boolean;
+  onTranslate: (locale: string) => Promise<void>;
+  onViewPrompt: (prompt: PromptSFL) => void;
+}
+
+/**
+ * A panel listing the locale siblings of a prompt, with a form to add a translation.
+ *
+ * @param {PromptLocalesPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered panel.
+ */
+const PromptLocalesPanel: React.FC<PromptLocalesPanelProps> = ({ promptId, updatedAt, canTranslate, onTranslate, onViewPrompt }) => {
+  /**
+   * @state {PromptLocaleVariant[] | null} variants - The siblings, source first.
+   */
+  const [variants, setVariants] = useState<PromptLocaleVariant[] | null>(null);
+
+  /**
+   * @state {string} targetLocale - The locale selected for the next translation.
+   */
+  const [targetLocale, setTargetLocale] = useState('');
+
+  /**
+   * @state {boolean} isTranslating - Whether a translation is in progress.
+   */
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  /**
+   * @state {number} reloadKey - Bumped after a translation so that the list is fetched again.
+   */
+  const [reloadKey, setReloadKey] = useState(0);
+
+  /**
+   * @state {string | null} error - The last error raised while loading, translating or opening a prompt.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @effect Fetches the siblings when the panel opens, the prompt is saved again or a translation was added.
+   * Responses for a prompt that is no longer shown are ignored.
+   */
+  useEffect(() => {
+    let isCurrent = true;
+    getPromptLocales(promptId)
+      .then(fetched => {
+        if (isCurrent) setVariants(fetched);
+      })
+      .catch((err: any) => {
+        if (isCurrent) setError(err.message);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [promptId, updatedAt, reloadKey]);
+
+  /**
+   * @callback handleOpen
+   * @description Loads a sibling and opens it.
+   * @param {string} id - The ID of the prompt to open.
+   */
+  const handleOpen = async (id: string) => {
+    try {
+      onViewPrompt(await getPromptById(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  /**
+   * @callback handleTranslate
+   * @description Translates the prompt into the selected locale and reloads the list.
+   */
+  const handleTranslate = async () => {
+    if (!targetLocale) return;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      await onTranslate(targetLocale);
+      setTargetLocale('');
+      setReloadKey(key => key + 1);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  if (!variants) {
+    return error
+      ? <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>
+      : <p className="text-sm text-gray-400">Loading locales...</p>;
+  }
+
+  const takenLocales = new Set(variants.map(variant => variant.locale?.toLowerCase()));
+  const availableLocales = PROMPT_LOCALES.filter(({ code }) => !takenLocales.has(code.toLowerCase()));
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+      {variants.length <= 1 && (
+        <p className="text-sm text-gray-400">This prompt has not been translated yet.</p>
+      )}
+      <section className="border border-[#5c6f7e] rounded-lg bg-[#212934]/50 divide-y divide-[#5c6f7e]">
+        {variants.map(variant => (
+          <div key={variant.id} className="flex items-center justify-between p-3 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              {!variant.isSource && <span className="text-gray-500">↳</span>}
+              {variant.id === promptId ? (
+                <span className="font-semibold text-gray-800 truncate">{variant.title}</span>
+              ) : (
+                <button onClick={() => handleOpen(variant.id)} className="font-semibold text-[#4A69E2] hover:underline truncate text-left">
+                  {variant.title}
+                </button>
+              )}
+              {variant.id === promptId && <span className="text-xs px-2 py-0.5 rounded bg-[#4A69E2] text-white">This prompt</span>}
+            </div>
+            <span className="text-xs text-gray-400 ml-4 flex-shrink-0">
+              {variant.locale ?? 'no locale'}{variant.isSource ? ' · source' : ''}
+            </span>
+          </div>
+        ))}
+      </section>
+      {canTranslate && (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={targetLocale}
+            onChange={e => setTargetLocale(e.target.value)}
+            disabled={isTranslating}
+            className="px-2 py-1 text-sm bg-[#212934] text-gray-200 border border-[#5c6f7e] rounded-md"
+          >
+            <option value="">Translate into...</option>
+            {availableLocales.map(({ code, label }) => <option key={code} value={code}>{label} ({code})</option>)}
+          </select>
+          <button
+            onClick={handleTranslate}
+            disabled={!targetLocale || isTranslating}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:opacity-50"
+          >
+            {isTranslating ? 'Translating...' : 'Translate'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptLocalesPanel;
@@ -0,0 +1,334 @@
+/**
+ * @file PromptReviewPanel.tsx
+ * @description This component shows the review lifecycle of a prompt inside the prompt detail modal.
+ * It displays the prompt's status and reviewer, offers the status changes the current user is allowed to make
+ * (the owner sends drafts for review, deprecates and reopens prompts; only the assigned reviewer approves),
+ * lets the owner assign the reviewer, and lists the audit trail of status changes and the threaded review comments.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../constants
+ * @requires ../services/promptApiService
+ * @requires ../services/authService
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PromptComment, PromptReview, PromptSFL, PromptStatus } from '../types';
+import { PROMPT_STATUS_LABELS, PROMPT_STATUS_STYLES } from '../constants';
+import { getPromptReview, assignPromptReviewer, getPromptComments, addPromptComment } from '../services/promptApiService';
+import authService from '../services/authService';
+
+/**
+ * @interface PromptReviewPanelProps
+ * @description Defines the props for the `PromptReviewPanel` component.
+ * @property {PromptSFL} prompt - The prompt under review.
+ * @property {(status: PromptStatus, note?: string) => Promise<PromptReview>} onChangeStatus - Callback to move the prompt to another status.
+ */
+interface PromptReviewPanelProps {
+  prompt: PromptSFL;
+  onChangeStatus: (status: PromptStatus, note?: string) => Promise<PromptReview>;
+}
+
+/**
+ * A status change offered to the current user.
+ * @private
+ */
+interface StatusAction {
+  status: PromptStatus;
+  label: string;
+}
+
+/**
+ * Works out which status changes the current user may make, mirroring the rules enforced by the server.
+ *
+ * @param {PromptStatus} status - The prompt's current status.
+ * @param {boolean} isOwner - Whether the current user owns the prompt.
+ * @param {boolean} isReviewer - Whether the current user is the assigned reviewer.
+ * @returns {StatusAction[]} The available status changes.
+ * @private
+ */
+const availableActions = (status: PromptStatus, isOwner: boolean, isReviewer: boolean): StatusAction[] => {
+  switch (status) {
+    case 'draft':
+      return isOwner ? [{ status: 'in_review', label: 'Send for review' }] : [];
+    case 'in_review':
+      return [
+        ...(isReviewer ? [{ status: 'approved' as const, label: 'Approve' }, { status: 'draft' as const, label: 'Request changes' }] : []),
+        ...(isOwner && !isReviewer ? [{ status: 'draft' as const, label: 'Withdraw from review' }] : []),
+      ];
+    case 'approved':
+      return isOwner ? [{ status: 'deprecated', label: 'Deprecate' }, { status: 'draft', label: 'Reopen as draft' }] : [];
+    case 'deprecated':
+      return isOwner ? [{ status: 'draft', label: 'Reopen as draft' }] : [];
+  }
+};
+
+/**
+ * A small coloured badge naming a review status.
+ *
+ * @param {{ status: PromptStatus }} props - The status to show.
+ * @returns {JSX.Element} The badge.
+ */
+export const PromptStatusBadge: React.FC<{ status: PromptStatus }> = ({ status }) => (
+  <span className={`text-xs px-2 py-0.5 rounded font-medium ${PROMPT_STATUS_STYLES[status]}`}>{PROMPT_STATUS_LABELS[status]}</span>
+);
+
+/**
+ * A panel showing the review status, audit trail and comments of a prompt.
+ *
+ * @param {PromptReviewPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered review panel.
+ */
+const PromptReviewPanel: React.FC<PromptReviewPanelProps> = ({ prompt, onChangeStatus }) => {
+  /**
+   * @state {PromptReview | null} review - The review state of the prompt.
+   */
+  const [review, setReview] = useState<PromptReview | null>(null);
+
+  /**
+   * @state {PromptComment[]} comments - The review comments, oldest first.
+   */
+  const [comments, setComments] = useState<PromptComment[]>([]);
+
+  /**
+   * @state {string} reviewerEmail - The reviewer email address being entered by the owner.
+   */
+  const [reviewerEmail, setReviewerEmail] = useState('');
+
+  /**
+   * @state {string} note - The note to record with the next status change.
+   */
+  const [note, setNote] = useState('');
+
+  /**
+   * @state {string} commentText - The comment being written.
+   */
+  const [commentText, setCommentText] = useState('');
+
+  /**
+   * @state {PromptComment | null} replyTo - The comment being answered, if any.
+   */
+  const [replyTo, setReplyTo] = useState<PromptComment | null>(null);
+
+  /**
+   * @state {boolean} isBusy - Whether a change is being saved.
+   */
+  const [isBusy, setIsBusy] = useState(false);
+
+  /**
+   * @state {string | null} error - The last error raised while loading or changing the review.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @effect Loads the review state and comments when the panel opens or the prompt is saved again.
+   * Responses for a prompt that is no longer shown are ignored.
+   */
+  useEffect(() => {
+    let isCurrent = true;
+    setError(null);
+    Promise.all([getPromptReview(prompt.id), getPromptComments(prompt.id)])
+      .then(([fetchedReview, fetchedComments]) => {
+        if (!isCurrent) return;
+        setReview(fetchedReview);
+        setReviewerEmail(fetchedReview.reviewer || '');
+        setComments(fetchedComments);
+      })
+      .catch((err: any) => {
+        if (isCurrent) setError(err.message);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [prompt.id, prompt.updatedAt]);
+
+  /**
+   * @callback runChange
+   * @description Runs a change against the server, tracking the busy state and reporting errors.
+   * @param {() => Promise<void>} change - The change to run.
+   */
+  const runChange = async (change: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await change();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * @callback handleAssignReviewer
+   * @description Assigns the entered reviewer, or removes the reviewer when the field is empty.
+   */
+  const handleAssignReviewer = () => runChange(async () => {
+    const updated = await assignPromptReviewer(prompt.id, reviewerEmail.trim() || null);
+    setReview(updated);
+    setReviewerEmail(updated.reviewer || '');
+  });
+
+  /**
+   * @callback handleChangeStatus
+   * @description Moves the prompt to another status, recording the note if one was written.
+   * @param {PromptStatus} status - The status to move to.
+   */
+  const handleChangeStatus = (status: PromptStatus) => runChange(async () => {
+    setReview(await onChangeStatus(status, note.trim() || undefined));
+    setNote('');
+  });
+
+  /**
+   * @callback handleAddComment
+   * @description Posts the comment, as a reply when one is being answered.
+   */
+  const handleAddComment = () => runChange(async () => {
+    const comment = await addPromptComment(prompt.id, commentText, replyTo?.id);
+    setComments(current => [...current, comment]);
+    setCommentText('');
+    setReplyTo(null);
+  });
+
+  if (!review) {
+    return error
+      ? <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>
+      : <p className="text-sm text-gray-400">Loading review...</p>;
+  }
+
+  const currentUser = authService.getCurrentUser();
+  const isOwner = prompt.access === 'owner';
+  const isReviewer = !!currentUser && !!review.reviewer && currentUser.email?.toLowerCase() === review.reviewer;
+  const actions = availableActions(review.status, isOwner, isReviewer);
+  const canAssignReviewer = isOwner && (review.status === 'draft' || review.status === 'in_review');
+
+  /**
+   * Renders a comment followed by its replies, each level indented a little further.
+   */
+  const renderComment = (comment: PromptComment, depth: number): React.ReactNode => (
+    <div key={comment.id} style={{ marginLeft: `${depth * 1.25}rem` }} className="space-y-2">
+      <div className="p-3 border border-[#5c6f7e] rounded-md bg-[#212934]/50 text-sm">
+        <div className="flex justify-between text-xs text-gray-400 mb-1">
+          <span className="font-semibold text-gray-500">{comment.author || 'Deleted user'}</span>
+          <span>{new Date(comment.createdAt).toLocaleString()}</span>
+        </div>
+        <p className="text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+        <button onClick={() => setReplyTo(comment)} className="text-xs text-[#4A69E2] hover:underline mt-1">Reply</button>
+      </div>
+      {comments.filter(reply => reply.parentId === comment.id).map(reply => renderComment(reply, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-3">
+          <PromptStatusBadge status={review.status} />
+          <span className="text-sm text-gray-500">
+            {review.reviewer ? `Reviewer: ${review.reviewer}` : 'No reviewer assigned'}
+          </span>
+        </div>
+
+        {canAssignReviewer && (
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={reviewerEmail}
+              onChange={e => setReviewerEmail(e.target.value)}
+              placeholder="reviewer@example.com"
+              className="flex-grow px-3 py-1.5 text-sm border border-[#5c6f7e] rounded-md bg-white"
+            />
+            <button
+              onClick={handleAssignReviewer}
+              disabled={isBusy || reviewerEmail.trim() === (review.reviewer || '')}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:opacity-50"
+            >
+              {reviewerEmail.trim() ? 'Assign reviewer' : 'Remove reviewer'}
+            </button>
+          </div>
+        )}
+
+        {actions.length > 0 && (
+          <div className="space-y-2">
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={2}
+              placeholder="Optional note for the audit trail"
+              className="w-full px-3 py-1.5 text-sm border border-[#5c6f7e] rounded-md bg-white"
+            />
+            <div className="flex gap-2">
+              {actions.map(action => (
+                <button
+                  key={action.label}
+                  onClick={() => handleChangeStatus(action.status)}
+                  disabled={isBusy}
+                  className={`px-3 py-1.5 text-sm font-medium text-white rounded-md disabled:opacity-50 ${action.status === 'approved' ? 'bg-green-700 hover:bg-green-800' : 'bg-[#5c6f7e] hover:bg-[#333e48]'}`}
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Audit trail</h4>
+        {review.history.length === 0 ? (
+          <p className="text-sm text-gray-400">The status of this prompt has not changed yet.</p>
+        ) : (
+          <ol className="border border-[#5c6f7e] rounded-lg divide-y divide-[#5c6f7e] text-sm">
+            {review.history.map(event => (
+              <li key={event.id} className="p-3">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <PromptStatusBadge status={event.fromStatus} /> → <PromptStatusBadge status={event.toStatus} />
+                  </span>
+                  <span className="text-xs text-gray-400">{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  by {event.changedBy || 'a deleted user'}{event.reviewer ? ` · reviewer ${event.reviewer}` : ''}
+                </p>
+                {event.note && <p className="mt-1 text-gray-800 whitespace-pre-wrap">{event.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Comments</h4>
+        {comments.length === 0 && <p className="text-sm text-gray-400">No comments yet.</p>}
+        {comments.filter(comment => !comment.parentId).map(comment => renderComment(comment, 0))}
+
+        <div className="space-y-2">
+          {replyTo && (
+            <p className="text-xs text-gray-500">
+              Replying to {replyTo.author || 'a deleted user'} ·{' '}
+              <button onClick={() => setReplyTo(null)} className="text-[#4A69E2] hover:underline">Cancel</button>
+            </p>
+          )}
+          <textarea
+            value={commentText}
+            onChange={e => setCommentText(e.target.value)}
+            rows={3}
+            placeholder={replyTo ? 'Write a reply' : 'Write a comment'}
+            className="w-full px-3 py-1.5 text-sm border border-[#5c6f7e] rounded-md bg-white"
+          />
+          <button
+            onClick={handleAddComment}
+            disabled={isBusy || !commentText.trim()}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:opacity-50"
+          >
+            {replyTo ? 'Reply' : 'Comment'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default PromptReviewPanel;
@@ -0,0 +1,313 @@
+/**
+ * @file PromptRunHistoryPanel.tsx
+ * @description This component renders the recorded test runs of a prompt inside the prompt detail modal.
+ * Each run shows the provider and model it used, when it ran, how long it took and how many tokens it used.
+ * Expanding a run reveals the exact prompt that was sent, with the system message its layout produced, and the response or error that came back, and a
+ * successful run can be pinned as the prompt's example output. A judge model can grade a successful response against the prompt's
+ * SFL declaration; its overall score is shown on the run and the per-dimension rubric with justifications when the run is expanded.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../types/aiProvider
+ * @requires ../constants
+ * @requires ../config/modelCapabilities
+ * @requires ../services/promptApiService
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { PromptRun, ResponseJudgement } from '../types';
+import { AIProvider } from '../types/aiProvider';
+import { PROMPT_COMPILE_FORMAT_LABELS, JUDGEMENT_DIMENSION_LABELS } from '../constants';
+import { PROVIDER_CONFIGS, getProviderModels } from '../config/modelCapabilities';
+import { getPromptRuns, judgePromptRun } from '../services/promptApiService';
+
+/**
+ * @interface PromptRunHistoryPanelProps
+ * @description Defines the props for the `PromptRunHistoryPanel` component.
+ * @property {string} promptId - The ID of the prompt whose runs are shown.
+ * @property {string} [exampleOutput] - The prompt's current example output, used to mark the pinned run.
+ * @property {(runId: string) => Promise<void>} onPin - Callback to make a run's response the example output.
+ */
+interface PromptRunHistoryPanelProps {
+  promptId: string;
+  exampleOutput?: string;
+  onPin: (runId: string) => Promise<void>;
+}
+
+/**
+ * Picks the badge colour of a score out of 5.
+ *
+ * @param {number} score - The score.
+ * @returns {string} The badge classes.
+ * @private
+ */
+const scoreClasses = (score: number): string =>
+  score >= 4 ? 'bg-green-700 text-white' : score >= 3 ? 'bg-[#e2a32d] text-gray-900' : 'bg-[#c36e26] text-white';
+
+/**
+ * Renders the rubric of a judged response.
+ *
+ * @param {{ judgement: ResponseJudgement }} props - The judgement to show.
+ * @returns {JSX.Element} The rendered rubric.
+ * @private
+ */
+const JudgementRubric: React.FC<{ judgement: ResponseJudgement }> = ({ judgement }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-500 mb-1">
+      Judgement · {judgement.overallScore}/5
+      <span className="ml-2 text-xs font-normal text-gray-400">
+        by {judgement.judgeProvider} · {judgement.judgeModel}, {new Date(judgement.judgedAt).toLocaleString()}
+      </span>
+    </h4>
+    <ul className="border border-[#5c6f7e] rounded-md divide-y divide-[#5c6f7e] bg-[#212934]">
+      {judgement.scores.map(score => (
+        <li key={score.dimension} className="p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded ${scoreClasses(score.score)}`}>{score.score}/5</span>
+            <span className="font-semibold text-gray-200">{JUDGEMENT_DIMENSION_LABELS[score.dimension]}</span>
+            <span className="text-xs text-gray-400 truncate">declared: {score.criterion}</span>
+          </div>
+          {score.justification && <p className="mt-1 text-gray-400">{score.justification}</p>}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/**
+ * A panel listing the test runs of a prompt, newest first.
+ *
+ * @param {PromptRunHistoryPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered run history panel.
+ */
+const PromptRunHistoryPanel: React.FC<PromptRunHistoryPanelProps> = ({ promptId, exampleOutput, onPin }) => {
+  /**
+   * @state {PromptRun[]} runs - The prompt's recorded runs, newest first.
+   */
+  const [runs, setRuns] = useState<PromptRun[]>([]);
+
+  /**
+   * @state {string | null} expandedRunId - The run whose prompt and response are shown.
+   */
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  /**
+   * @state {string | null} pinningRunId - The run currently being pinned.
+   */
+  const [pinningRunId, setPinningRunId] = useState<string | null>(null);
+
+  /**
+   * @state {string | null} judgingRunId - The run whose response is currently being judged.
+   */
+  const [judgingRunId, setJudgingRunId] = useState<string | null>(null);
+
+  /**
+   * @state {AIProvider | ''} judgeProvider - The provider of the judge model; empty uses the server's configured judge.
+   */
+  const [judgeProvider, setJudgeProvider] = useState<AIProvider | ''>('');
+
+  /**
+   * @state {string} judgeModel - The judge model of the selected provider.
+   */
+  const [judgeModel, setJudgeModel] = useState('');
+
+  /**
+   * @state {boolean} isLoading - Indicates that the run list is being fetched.
+   */
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * @state {string | null} error - The last error raised while loading, pinning or judging.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @callback loadRuns
+   * @description Fetches the run list.
+   */
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRuns(await getPromptRuns(promptId));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [promptId]);
+
+  /**
+   * @effect Loads the runs when the panel opens or another prompt is shown.
+   */
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  /**
+   * @callback handlePin
+   * @description Confirms and pins a run's response as the example output.
+   * @param {PromptRun} run - The run to pin.
+   */
+  const handlePin = async (run: PromptRun) => {
+    if (exampleOutput && !window.confirm('Replace the current example output with the response of this run?')) return;
+    setPinningRunId(run.id);
+    setError(null);
+    try {
+      await onPin(run.id);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPinningRunId(null);
+    }
+  };
+
+  /**
+   * @callback handleJudge
+   * @description Has the selected judge model grade a run's response and shows the rubric in place.
+   * @param {PromptRun} run - The run to judge.
+   */
+  const handleJudge = async (run: PromptRun) => {
+    setJudgingRunId(run.id);
+    setError(null);
+    try {
+      const judged = await judgePromptRun(promptId, run.id, judgeProvider ? { provider: judgeProvider, model: judgeModel || undefined } : undefined);
+      setRuns(prev => prev.map(existing => existing.id === judged.id ? judged : existing));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setJudgingRunId(null);
+    }
+  };
+
+  /**
+   * @callback handleJudgeProviderChange
+   * @description Selects the judge provider and its first model.
+   * @param {AIProvider | ''} provider - The provider, or empty for the server's configured judge.
+   */
+  const handleJudgeProviderChange = (provider: AIProvider | '') => {
+    setJudgeProvider(provider);
+    setJudgeModel(provider ? getProviderModels(provider)[0]?.id || '' : '');
+  };
+
+  if (isLoading && runs.length === 0) {
+    return <p className="text-sm text-gray-400">Loading test runs...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+        <span>Judge model</span>
+        <select
+          value={judgeProvider}
+          onChange={e => handleJudgeProviderChange(e.target.value as AIProvider | '')}
+          className="px-2 py-1 text-sm bg-[#212934] text-gray-200 border border-[#5c6f7e] rounded-md"
+        >
+          <option value="">Server default</option>
+          {(Object.keys(PROVIDER_CONFIGS) as AIProvider[]).map(provider => (
+            <option key={provider} value={provider}>{PROVIDER_CONFIGS[provider].name}</option>
+          ))}
+        </select>
+        {judgeProvider && (
+          <select
+            value={judgeModel}
+            onChange={e => setJudgeModel(e.target.value)}
+            className="px-2 py-1 text-sm bg-[#212934] text-gray-200 border border-[#5c6f7e] rounded-md"
+          >
+            {getProviderModels(judgeProvider).map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      <section className="border border-[#5c6f7e] rounded-lg bg-[#212934]/50 divide-y divide-[#5c6f7e]">
+        {runs.map(run => {
+          const isExpanded = expandedRunId === run.id;
+          const isPinned = !run.error && !!exampleOutput && run.responseText === exampleOutput;
+          return (
+            <div key={run.id} className="p-3 text-sm">
+              <button
+                onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                className="w-full flex items-center justify-between text-left"
+              >
+                <div className="flex items-center gap-3">
+                  <span className={`w-2 h-2 rounded-full ${run.error ? 'bg-red-500' : 'bg-green-500'}`} />
+                  <span className="font-semibold text-gray-800">{run.provider} · {run.model}</span>
+                  {run.format && run.format !== 'plain' && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-[#212934] text-gray-400">{PROMPT_COMPILE_FORMAT_LABELS[run.format]}</span>
+                  )}
+                  <span className="text-gray-400">{new Date(run.createdAt).toLocaleString()}</span>
+                  {isPinned && <span className="text-xs px-2 py-0.5 rounded bg-[#e2a32d] text-[#212934]">Example output</span>}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-gray-400">
+                  {run.judgement && (
+                    <span className={`px-2 py-0.5 rounded font-semibold ${scoreClasses(run.judgement.overallScore)}`} title="Judged against the prompt's SFL declaration">
+                      {run.judgement.overallScore}/5
+                    </span>
+                  )}
+                  <span>{run.latencyMs} ms</span>
+                  {run.usage && <span>{run.usage.totalTokens} tokens</span>}
+                </div>
+              </button>
+
+              {isExpanded && (
+                <div className="mt-3 space-y-3">
+                  {run.systemPrompt && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-500 mb-1">System Message</h4>
+                      <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-words max-h-48 overflow-y-auto border border-[#5c6f7e]">{run.systemPrompt}</pre>
+                    </div>
+                  )}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-500 mb-1">Rendered Prompt</h4>
+                    <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-words max-h-48 overflow-y-auto border border-[#5c6f7e]">{run.renderedPrompt}</pre>
+                  </div>
+                  {run.error ? (
+                    <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{run.error}</p>
+                  ) : (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-500 mb-1">Response</h4>
+                      <pre className="bg-[#212934] p-3 rounded-md text-sm text-gray-200 whitespace-pre-wrap break-words max-h-64 overflow-y-auto border border-[#5c6f7e]">{run.responseText}</pre>
+                    </div>
+                  )}
+                  {run.judgement && <JudgementRubric judgement={run.judgement} />}
+                  {Object.keys(run.parameters).length > 0 && (
+                    <p className="text-xs text-gray-400">
+                      Parameters: {Object.entries(run.parameters).map(([key, value]) => `${key}=${value}`).join(', ')}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-4">
+                    {!run.error && !isPinned && (
+                      <button
+                        onClick={() => handlePin(run)}
+                        disabled={pinningRunId !== null}
+                        className="text-xs font-semibold text-[#4A69E2] hover:underline disabled:opacity-50"
+                      >
+                        {pinningRunId === run.id ? 'Pinning...' : 'Pin as example output'}
+                      </button>
+                    )}
+                    {!run.error && (
+                      <button
+                        onClick={() => handleJudge(run)}
+                        disabled={judgingRunId !== null}
+                        className="text-xs font-semibold text-[#4A69E2] hover:underline disabled:opacity-50"
+                      >
+                        {judgingRunId === run.id ? 'Judging...' : run.judgement ? 'Judge again' : 'Judge against SFL'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {runs.length === 0 && <p className="p-3 text-sm text-gray-400">No test runs recorded yet.</p>}
+      </section>
+    </div>
+  );
+};
+
+export default PromptRunHistoryPanel;
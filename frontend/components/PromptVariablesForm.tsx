@@ -0,0 +1,132 @@
+/**
+ * @file PromptVariablesForm.tsx
+ * @description This component renders one typed input per declared prompt variable so that a prompt
+ * can be filled in and run without editing its text. Each variable type gets a matching control:
+ * a text field, a number field, a select for enums, a textarea for multiline text, or a file picker
+ * whose text content becomes the value.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ./icons/PaperClipIcon
+ */
+
+import React from 'react';
+import { PromptVariable } from '../types';
+import PaperClipIcon from './icons/PaperClipIcon';
+
+/**
+ * @interface PromptVariablesFormProps
+ * @description Defines the props for the `PromptVariablesForm` component.
+ * @property {PromptVariable[]} variables - The variable declarations to render inputs for.
+ * @property {Record<string, string>} values - The current values, keyed by variable name.
+ * @property {Record<string, string>} errors - Validation messages, keyed by variable name.
+ * @property {(name: string, value: string) => void} onChange - Callback invoked when a value changes.
+ */
+interface PromptVariablesFormProps {
+  variables: PromptVariable[];
+  values: Record<string, string>;
+  errors: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+}
+
+const inputClasses = "w-full px-3 py-2 bg-[#333e48] border border-[#5c6f7e] text-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-[#e2a32d] focus:border-[#e2a32d] transition-colors placeholder-[#95aac0]";
+
+/**
+ * A form with one input per prompt variable.
+ *
+ * @param {PromptVariablesFormProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered form fields.
+ */
+const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({ variables, values, errors, onChange }) => {
+  /**
+   * @callback handleFileChange
+   * @description Reads the selected file as text and stores its content as the variable's value.
+   * @param {string} name - The variable being filled.
+   * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+   */
+  const handleFileChange = (name: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => onChange(name, e.target?.result as string);
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  /**
+   * @function renderInput
+   * @description Renders the control matching a variable's type.
+   * @param {PromptVariable} variable - The variable to render.
+   * @returns {JSX.Element}
+   * @private
+   */
+  const renderInput = (variable: PromptVariable) => {
+    const id = `var-${variable.name}`;
+    const value = values[variable.name] ?? '';
+
+    switch (variable.type) {
+      case 'number':
+        return <input id={id} type="number" value={value} onChange={(e) => onChange(variable.name, e.target.value)} className={inputClasses} />;
+      case 'enum':
+        return (
+          <select id={id} value={value} onChange={(e) => onChange(variable.name, e.target.value)} className={`${inputClasses} appearance-none`}>
+            <option value="">Select...</option>
+            {(variable.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'multiline':
+        return (
+          <textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(variable.name, e.target.value)}
+            placeholder={`Enter value for ${variable.name}...`}
+            rows={4}
+            className={inputClasses}
+          />
+        );
+      case 'file':
+        return (
+          <div className="flex items-center gap-3">
+            <label htmlFor={id} className="flex items-center px-3 py-2 text-sm bg-[#212934] border border-dashed border-[#5c6f7e] text-[#95aac0] rounded-md hover:bg-[#333e48] cursor-pointer">
+              <PaperClipIcon className="w-4 h-4 mr-2" />
+              {value ? 'Replace file' : 'Choose file'}
+            </label>
+            <input id={id} type="file" accept=".txt,.md,.text,.json,.csv" onChange={(e) => handleFileChange(variable.name, e)} className="hidden" />
+            {value && <span className="text-xs text-gray-400">{value.length.toLocaleString()} characters loaded</span>}
+          </div>
+        );
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={(e) => onChange(variable.name, e.target.value)}
+            placeholder={`Enter value for ${variable.name}...`}
+            className={inputClasses}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {variables.map(variable => (
+        <div key={variable.name}>
+          <label htmlFor={`var-${variable.name}`} className="block text-sm font-medium text-gray-600 mb-1">
+            {`{{${variable.name}}}`}
+            {variable.required && <span className="text-red-500 ml-1">*</span>}
+            <span className="ml-2 text-xs font-normal text-gray-400">{variable.type}</span>
+          </label>
+          {variable.description && <p className="text-xs text-gray-400 mb-1">{variable.description}</p>}
+          {renderInput(variable)}
+          {errors[variable.name] && <p className="text-xs text-red-600 mt-1">{errors[variable.name]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PromptVariablesForm;
@@ -1,14 +1,16 @@
 /**
  * @file Sidebar.tsx
  * @description This component renders the main sidebar for the application.
- * It includes primary navigation links, quick filters for task types and AI personas,
- * and a section for popular tags. It also displays the status of the connected AI model.
+ * It includes primary navigation links, the user's collection tree, quick filters for task types
+ * and AI personas, and a section for the most used tags. It also displays the status of the connected AI model.
  *
  * @requires react
  * @requires ../types
+ * @requires ./CollectionTree
  * @requires ./icons/BrainCircuitIcon
  * @requires ./icons/HomeIcon
  * @requires ./icons/FlaskIcon
+ * @requires ./icons/TrashIcon
  * @requires ./icons/BookOpenIcon
  * @requires ./icons/CogIcon
  * @requires ./icons/ChatBubbleLeftRightIcon
@@ -23,9 +25,11 @@
 
 import React from 'react';
 import { useAppStore } from '../store/appStore';
+import CollectionTree from './CollectionTree';
 import BrainCircuitIcon from './icons/BrainCircuitIcon';
 import HomeIcon from './icons/HomeIcon';
 import FlaskIcon from './icons/FlaskIcon';
+import TrashIcon from './icons/TrashIcon';
 import BookOpenIcon from './icons/BookOpenIcon';
 import CogIcon from './icons/CogIcon';
 import ChatBubbleLeftRightIcon from './icons/ChatBubbleLeftRightIcon';
@@ -38,10 +42,10 @@ import BeakerIcon from './icons/BeakerIcon';
 import PlusIcon from './icons/PlusIcon';
 
 /**
- * @typedef {'dashboard' | 'lab' | 'documentation' | 'settings'} Page
+ * @typedef {'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings'} Page
  * @description Represents the possible main pages the user can navigate to.
  */
-type Page = 'dashboard' | 'lab' | 'documentation' | 'settings';
+type Page = 'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings';
 
 /**
  * @interface SidebarProps
@@ -103,7 +107,7 @@ const FilterItem: React.FC<{ icon: React.ComponentType<{ className?: string }>;
  * @returns {JSX.Element} The rendered sidebar.
  */
 const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
-  const { filters, activePage, appConstants, setFilter } = useAppStore();
+  const { filters, activePage, appConstants, tags, setFilter } = useAppStore();
     const taskTypes = ["Explanation", "Code Generation", "Summarization", "Translation"];
     const taskIcons: { [key: string]: React.ComponentType<{ className?: string }> } = {
         "Explanation": ChatBubbleLeftRightIcon,
@@ -119,6 +123,12 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
         "Sarcastic Bot": BeakerIcon,
     };
 
+    // The most used tags from the library; the built-in suggestions act as search shortcuts until any exist.
+    const popularTags = [...tags]
+        .filter(tag => tag.promptCount > 0)
+        .sort((a, b) => b.promptCount - a.promptCount || a.name.localeCompare(b.name))
+        .slice(0, 12);
+
   return (
     <aside className="w-72 bg-[#212934] text-gray-200 flex flex-col p-4 space-y-4 overflow-y-auto border-r border-[#5c6f7e]">
       <div className="flex items-center space-x-2 px-3 pt-2 pb-4">
@@ -132,11 +142,14 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
           <nav className="space-y-1">
             <NavItem icon={HomeIcon} label="Dashboard" active={activePage === 'dashboard'} onClick={() => onNavigate('dashboard')} />
             <NavItem icon={FlaskIcon} label="Prompt Lab" active={activePage === 'lab'} onClick={() => onNavigate('lab')} />
+            <NavItem icon={TrashIcon} label="Trash" active={activePage === 'trash'} onClick={() => onNavigate('trash')} />
             <NavItem icon={BookOpenIcon} label="Documentation" active={activePage === 'documentation'} onClick={() => onNavigate('documentation')} />
             <NavItem icon={CogIcon} label="Settings" active={activePage === 'settings'} onClick={() => onNavigate('settings')} />
           </nav>
         </div>
 
+        <CollectionTree />
+
         <div>
             <h3 className="px-3 text-xs font-semibold text-[#95aac0] uppercase tracking-wider mb-2">Filter by Task Type</h3>
             <div className="space-y-1">
@@ -170,7 +183,18 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
         <div>
           <h3 className="px-3 text-xs font-semibold text-[#95aac0] uppercase tracking-wider mb-2">Popular Tags</h3>
           <div className="flex flex-wrap gap-2 px-3">
-            {appConstants.popularTags.map(tag => (
+            {popularTags.length > 0 ? popularTags.map(tag => (
+                <button 
+                  key={tag.id}
+                  onClick={() => setFilter('tag', filters.tag === tag.name ? '' : tag.name)}
+                  className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                    filters.tag === tag.name ? 'bg-[#e2a32d] text-gray-200' : 'bg-[#333e48] text-[#95aac0] hover:bg-[#e2a32d]/80'
+                  }`}
+                  title={`${tag.promptCount} prompt${tag.promptCount === 1 ? '' : 's'}`}
+                >
+                    #{tag.name}
+                </button>
+            )) : appConstants.popularTags.map(tag => (
                 <button 
                   key={tag}
                   onClick={() => setFilter('searchTerm', filters.searchTerm === tag ? '' : tag)}
@@ -0,0 +1,114 @@
+/**
+ * @file SimilarPromptsPanel.tsx
+ * @description This component lists the prompts that are semantically closest to a given prompt,
+ * based on the server's prompt embeddings. It is shown inside the prompt detail modal to help
+ * spot duplicate or overlapping prompts across the team's library.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../services/promptApiService
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PromptSFL, SemanticSearchResult } from '../types';
+import { getSimilarPrompts } from '../services/promptApiService';
+
+/**
+ * @interface SimilarPromptsPanelProps
+ * @description Defines the props for the `SimilarPromptsPanel` component.
+ * @property {string} promptId - The ID of the prompt to find neighbours for.
+ * @property {string} updatedAt - The prompt's last update timestamp; the results reload whenever it changes.
+ * @property {(prompt: PromptSFL) => void} onViewPrompt - Callback to open one of the similar prompts.
+ */
+interface SimilarPromptsPanelProps {
+  promptId: string;
+  updatedAt: string;
+  onViewPrompt: (prompt: PromptSFL) => void;
+}
+
+/**
+ * @constant {number} DUPLICATE_THRESHOLD
+ * @description Similarity at or above which a result is flagged as a likely duplicate.
+ * @private
+ */
+const DUPLICATE_THRESHOLD = 0.9;
+
+/**
+ * A panel listing the prompts most similar to the current one, with their similarity as a percentage.
+ *
+ * @param {SimilarPromptsPanelProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered panel.
+ */
+const SimilarPromptsPanel: React.FC<SimilarPromptsPanelProps> = ({ promptId, updatedAt, onViewPrompt }) => {
+  /**
+   * @state {SemanticSearchResult[]} results - The similar prompts, most similar first.
+   */
+  const [results, setResults] = useState<SemanticSearchResult[]>([]);
+
+  /**
+   * @state {boolean} isLoading - Indicates that the similar prompts are being fetched.
+   */
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * @state {string | null} error - The last error raised while fetching.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @effect Fetches the similar prompts when the panel opens or the prompt is saved again.
+   * Responses for a prompt that is no longer shown are ignored.
+   */
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+    getSimilarPrompts(promptId)
+      .then(fetched => {
+        if (isCurrent) setResults(fetched);
+      })
+      .catch((err: any) => {
+        if (isCurrent) setError(err.message);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [promptId, updatedAt]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Finding similar prompts...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>;
+  }
+
+  return (
+    <section className="border border-[#5c6f7e] rounded-lg bg-[#212934]/50 divide-y divide-[#5c6f7e]">
+      {results.map(({ prompt, similarity }) => (
+        <button
+          key={prompt.id}
+          onClick={() => onViewPrompt(prompt)}
+          className="w-full flex items-center justify-between p-3 text-sm text-left hover:bg-[#333e48] transition-colors"
+        >
+          <div className="min-w-0">
+            <span className="font-semibold text-gray-800 block truncate">{prompt.title}</span>
+            <span className="text-gray-400 block truncate">{prompt.sflField.topic || prompt.promptText}</span>
+          </div>
+          <div className="flex items-center gap-2 ml-4 flex-shrink-0">
+            {similarity >= DUPLICATE_THRESHOLD && (
+              <span className="text-xs px-2 py-0.5 rounded bg-[#c36e26] text-white">Possible duplicate</span>
+            )}
+            <span className="font-mono text-gray-500">{Math.round(similarity * 100)}%</span>
+          </div>
+        </button>
+      ))}
+      {results.length === 0 && <p className="p-3 text-sm text-gray-400">No similar prompts found.</p>}
+    </section>
+  );
+};
+
+export default SimilarPromptsPanel;
@@ -0,0 +1,158 @@
+/**
+ * @file SnippetPicker.tsx
+ * @description This component lists the current user's snippets inside the prompt form so that they can be
+ * included in the prompt text as `{{> name}}` partials. Snippets can also be created, edited and deleted here;
+ * since partials are resolved by the server whenever a prompt is rendered, a change to a snippet reaches every
+ * prompt that includes it.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../services/libraryApiService
+ * @requires ./icons/TrashIcon
+ * @requires ./icons/PencilIcon
+ */
+
+import React, { useState } from 'react';
+import { PromptSnippet } from '../types';
+import { getSnippets, saveSnippet, deleteSnippet } from '../services/libraryApiService';
+import TrashIcon from './icons/TrashIcon';
+import PencilIcon from './icons/PencilIcon';
+
+/**
+ * @interface SnippetPickerProps
+ * @description Defines the props for the `SnippetPicker` component.
+ * @property {(partial: string) => void} onInsert - Called with the `{{> name}}` partial of the snippet to include.
+ */
+interface SnippetPickerProps {
+  onInsert: (partial: string) => void;
+}
+
+/**
+ * @typedef {object} SnippetDraft
+ * @description The snippet being edited; snippets without an ID have not been saved yet.
+ * @private
+ */
+type SnippetDraft = Pick<PromptSnippet, 'name' | 'description' | 'body'> & { id?: string };
+
+/**
+ * A collapsible list of the user's snippets with controls to include and manage them.
+ *
+ * @param {SnippetPickerProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered snippet picker.
+ */
+const SnippetPicker: React.FC<SnippetPickerProps> = ({ onInsert }) => {
+  /**
+   * @state {PromptSnippet[] | null} snippets - The user's snippets, or null until they are first loaded.
+   */
+  const [snippets, setSnippets] = useState<PromptSnippet[] | null>(null);
+
+  /**
+   * @state {SnippetDraft | null} draft - The snippet open in the editor.
+   */
+  const [draft, setDraft] = useState<SnippetDraft | null>(null);
+
+  /**
+   * @state {string} error - The last error, shown above the list.
+   */
+  const [error, setError] = useState('');
+
+  /**
+   * @callback handleToggle
+   * @description Loads the snippets the first time the list is expanded.
+   * @param {React.SyntheticEvent<HTMLDetailsElement>} e - The toggle event.
+   */
+  const handleToggle = (e: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (!e.currentTarget.open || snippets) return;
+    getSnippets()
+      .then(setSnippets)
+      .catch(err => setError(err.message));
+  };
+
+  /**
+   * @callback handleSave
+   * @description Saves the snippet in the editor and closes it.
+   */
+  const handleSave = async () => {
+    if (!draft) return;
+    setError('');
+    try {
+      const saved = await saveSnippet(draft);
+      setSnippets(prev => [...(prev || []).filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  /**
+   * @callback handleDelete
+   * @description Confirms and deletes a snippet.
+   * @param {PromptSnippet} snippet - The snippet to delete.
+   */
+  const handleDelete = async (snippet: PromptSnippet) => {
+    if (!window.confirm(`Delete the snippet "${snippet.name}"? Prompts that include it will no longer render.`)) return;
+    setError('');
+    try {
+      await deleteSnippet(snippet.id);
+      setSnippets(prev => (prev || []).filter(s => s.id !== snippet.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const inputClasses = "w-full px-2 py-1 bg-[#333e48] border border-[#5c6f7e] rounded-md text-sm text-gray-200 placeholder-[#95aac0]";
+
+  return (
+    <details onToggle={handleToggle} className="mt-2 text-sm">
+      <summary className="cursor-pointer text-[#95aac0] hover:text-gray-200">
+        Snippets - reuse shared text with <code>{'{{> name}}'}</code>
+      </summary>
+      <div className="mt-2 space-y-2 p-3 bg-[#212934] rounded-md border border-[#5c6f7e]">
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        {snippets === null && !error && <p className="text-xs text-[#95aac0]">Loading snippets...</p>}
+        {snippets?.length === 0 && !draft && <p className="text-xs text-[#95aac0]">No snippets yet.</p>}
+
+        {snippets?.map(snippet => (
+          <div key={snippet.id} className="flex items-center gap-2">
+            <code className="text-[#e2a32d]">{snippet.name}</code>
+            <span className="text-xs text-[#95aac0] truncate flex-1" title={snippet.body}>{snippet.description || snippet.body}</span>
+            <button type="button" onClick={() => onInsert(`{{> ${snippet.name}}}`)} className="px-2 py-0.5 text-xs text-gray-200 bg-[#c36e26] rounded-md hover:bg-opacity-90">
+              Insert
+            </button>
+            <button type="button" onClick={() => setDraft(snippet)} className="p-1 text-[#95aac0] hover:text-gray-200" aria-label={`Edit snippet ${snippet.name}`}>
+              <PencilIcon className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => handleDelete(snippet)} className="p-1 text-[#95aac0] hover:text-red-300" aria-label={`Delete snippet ${snippet.name}`}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        {draft ? (
+          <div className="space-y-2 border-t border-[#5c6f7e] pt-2">
+            <div className="flex gap-2">
+              <input type="text" aria-label="Snippet name" placeholder="name, e.g. safety-preamble" className={`${inputClasses} font-mono`}
+                value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+              <input type="text" aria-label="Snippet description" placeholder="Description (optional)" className={inputClasses}
+                value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+            </div>
+            <textarea aria-label="Snippet text" rows={3} placeholder="The text the partial is replaced with" className={inputClasses}
+              value={draft.body} onChange={e => setDraft({ ...draft, body: e.target.value })} />
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 text-xs bg-[#333e48] text-gray-200 rounded-md hover:bg-[#5c6f7e]">Cancel</button>
+              <button type="button" onClick={handleSave} disabled={!draft.name.trim() || !draft.body.trim()} className="px-3 py-1 text-xs bg-[#c36e26] text-gray-200 rounded-md hover:bg-opacity-90 disabled:opacity-50">
+                Save Snippet
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button type="button" onClick={() => setDraft({ name: '', description: '', body: '' })} className="text-xs text-[#e2a32d] hover:underline">
+            + New Snippet
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SnippetPicker;
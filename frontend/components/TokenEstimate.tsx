@@ -0,0 +1,101 @@
+/**
+ * @file TokenEstimate.tsx
+ * @description This component shows, while a prompt is typed, how many tokens it uses on a chosen model and
+ * what a run will cost: the cost of the input plus the most the output can cost at the model's default output limit.
+ * Counts are exact for OpenAI models and estimated from the text length for the others.
+ *
+ * @requires react
+ * @requires ../types/aiProvider
+ * @requires ../config/modelCapabilities
+ * @requires ../services/tokenEstimator
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AIProvider, CostEstimate } from '../types/aiProvider';
+import { PROVIDER_CONFIGS, getProviderModels } from '../config/modelCapabilities';
+import { estimatePromptCost, formatCost } from '../services/tokenEstimator';
+
+/**
+ * @interface TokenEstimateProps
+ * @description Defines the props for the `TokenEstimate` component.
+ * @property {string} text - The prompt text to estimate.
+ */
+interface TokenEstimateProps {
+  text: string;
+}
+
+/**
+ * @constant {number} ESTIMATE_DEBOUNCE_MS - How long typing must pause before the estimate is updated.
+ * @private
+ */
+const ESTIMATE_DEBOUNCE_MS = 300;
+
+/**
+ * A one-line token count and cost estimate with a model picker.
+ *
+ * @param {TokenEstimateProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered estimate.
+ */
+const TokenEstimate: React.FC<TokenEstimateProps> = ({ text }) => {
+  /**
+   * @state {AIProvider} provider - The provider of the model to estimate for.
+   */
+  const [provider, setProvider] = useState<AIProvider>('google');
+
+  /**
+   * @state {string} model - The model to estimate for.
+   */
+  const [model, setModel] = useState(() => getProviderModels('google')[0]?.id || '');
+
+  /**
+   * @state {CostEstimate | null} estimate - The latest estimate, or null until the first one is ready.
+   */
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+
+  /**
+   * @effect Re-estimates once typing pauses or another model is chosen.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimatePromptCost(text, provider, model).then(result => {
+        if (!cancelled) setEstimate(result);
+      });
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, provider, model]);
+
+  const handleProviderChange = (next: AIProvider) => {
+    setProvider(next);
+    setModel(getProviderModels(next)[0]?.id || '');
+  };
+
+  const selectClasses = "px-1 py-0.5 bg-[#212934] border border-[#5c6f7e] rounded-md text-xs text-gray-200";
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-[#95aac0]">
+      {estimate ? (
+        <span>
+          {estimate.exact ? '' : '~'}{estimate.inputTokens.toLocaleString()} tokens
+          {estimate.inputCost !== null && estimate.maxOutputCost !== null && (
+            <> &middot; input {formatCost(estimate.inputCost)} &middot; up to {formatCost(estimate.inputCost + estimate.maxOutputCost)} with {estimate.maxOutputTokens.toLocaleString()} output tokens</>
+          )}
+        </span>
+      ) : (
+        <span>Counting tokens...</span>
+      )}
+      <span className="ml-auto">on</span>
+      <select aria-label="Provider to estimate for" value={provider} onChange={e => handleProviderChange(e.target.value as AIProvider)} className={selectClasses}>
+        {(Object.keys(PROVIDER_CONFIGS) as AIProvider[]).map(p => <option key={p} value={p}>{PROVIDER_CONFIGS[p].name}</option>)}
+      </select>
+      <select aria-label="Model to estimate for" value={model} onChange={e => setModel(e.target.value)} className={selectClasses}>
+        {getProviderModels(provider).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default TokenEstimate;
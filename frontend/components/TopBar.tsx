@@ -1,32 +1,54 @@
 /**
  * @file TopBar.tsx
  * @description This component renders the top bar of the application's main content area.
- * It includes a search input field and primary action buttons for creating a new prompt
+ * It includes a search input field, buttons for importing a prompt file and exporting the library
+ * in one of the interchange formats, and primary action buttons for creating a new prompt
  * manually or using the Prompt Wizard.
  *
  * @requires react
+ * @requires ../types
  * @requires ./icons/MagnifyingGlassIcon
  * @requires ./icons/PlusIcon
  * @requires ./icons/MagicWandIcon
+ * @requires ./icons/ArrowUpTrayIcon
+ * @requires ./icons/ArrowDownTrayIcon
  */
 
-import React from 'react';
+import React, { useState, useRef, useEffect } from 'react';
+import { PromptExchangeFormat } from '../types';
 import { useAppStore } from '../store/appStore';
 import MagnifyingGlassIcon from './icons/MagnifyingGlassIcon';
 import PlusIcon from './icons/PlusIcon';
 import MagicWandIcon from './icons/MagicWandIcon';
+import ArrowUpTrayIcon from './icons/ArrowUpTrayIcon';
+import ArrowDownTrayIcon from './icons/ArrowDownTrayIcon';
 
 /**
  * @interface TopBarProps
  * @description Defines the props for the `TopBar` component.
  * @property {() => void} onAddNewPrompt - Callback function invoked when the "Create New Prompt" button is clicked.
  * @property {() => void} onOpenWizard - Callback function invoked when the "Prompt Wizard" button is clicked.
+ * @property {() => void} onImport - Callback function invoked when the "Import" button is clicked.
+ * @property {(format: PromptExchangeFormat) => void} onExport - Callback function invoked with the format chosen from the "Export" menu.
  */
 interface TopBarProps {
   onAddNewPrompt: () => void;
   onOpenWizard: () => void;
+  onImport: () => void;
+  onExport: (format: PromptExchangeFormat) => void;
 }
 
+/**
+ * @constant {{format: PromptExchangeFormat; label: string}[]} EXPORT_OPTIONS - The formats offered in the "Export" menu.
+ * @private
+ */
+const EXPORT_OPTIONS: { format: PromptExchangeFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'openai', label: 'OpenAI chat messages' },
+  { format: 'promptfoo', label: 'promptfoo prompts' },
+];
+
 /**
  * The top bar component that sits above the main content area.
  * It provides a persistent search field and the primary "create" actions for prompts.
@@ -34,8 +56,32 @@ interface TopBarProps {
  * @param {TopBarProps} props - The props for the component.
  * @returns {JSX.Element} The rendered top bar header element.
  */
-const TopBar: React.FC<TopBarProps> = ({ onAddNewPrompt, onOpenWizard }) => {
+const TopBar: React.FC<TopBarProps> = ({ onAddNewPrompt, onOpenWizard, onImport, onExport }) => {
   const { filters, setFilter } = useAppStore();
+
+  /**
+   * @state {boolean} exportMenuOpen - Manages the visibility of the export format menu.
+   */
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+
+  /**
+   * @ref {HTMLDivElement} exportMenuRef - A ref attached to the export menu to detect clicks outside of it for closing.
+   */
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * @effect Closes the export menu when the user clicks outside of it.
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setExportMenuOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
   return (
     <header className="bg-[#333e48]/80 backdrop-blur-lg border-b border-[#5c6f7e] px-6 py-4 flex items-center justify-between sticky top-0 z-20">
       <div className="relative w-full max-w-sm">
@@ -50,6 +96,38 @@ const TopBar: React.FC<TopBarProps> = ({ onAddNewPrompt, onOpenWizard }) => {
         />
       </div>
       <div className="flex items-center space-x-4">
+          <button
+            onClick={onImport}
+            className="flex items-center space-x-2 text-[#95aac0] px-3 py-2 rounded-lg text-sm font-medium hover:bg-[#333e48] hover:text-gray-200 transition-colors"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              onClick={() => setExportMenuOpen(prev => !prev)}
+              className="flex items-center space-x-2 text-[#95aac0] px-3 py-2 rounded-lg text-sm font-medium hover:bg-[#333e48] hover:text-gray-200 transition-colors"
+              aria-haspopup="menu"
+              aria-expanded={exportMenuOpen}
+            >
+              <ArrowDownTrayIcon className="w-5 h-5" />
+              <span>Export</span>
+            </button>
+            {exportMenuOpen && (
+              <div className="absolute right-0 mt-2 w-56 bg-[#333e48] rounded-md shadow-lg z-30 border border-[#5c6f7e]" role="menu">
+                {EXPORT_OPTIONS.map(option => (
+                  <button
+                    key={option.format}
+                    onClick={() => { onExport(option.format); setExportMenuOpen(false); }}
+                    className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-[#212934]"
+                    role="menuitem"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button
             onClick={onOpenWizard}
             className="flex items-center space-x-2 bg-[#333e48] text-gray-200 border border-[#5c6f7e] px-4 py-2 rounded-lg text-sm font-semibold hover:bg-[#333e48]/80 transition-colors shadow-sm"
@@ -0,0 +1,183 @@
+/**
+ * @file TrashPage.tsx
+ * @description This component renders the Trash page, which lists the prompts and server-side workflows
+ * the user has deleted. Each item can be restored or deleted forever, and shows how long it has left
+ * before the server purges it automatically. Restoring a prompt reloads the prompt library.
+ *
+ * @requires react
+ * @requires ../types
+ * @requires ../store/appStore
+ * @requires ../services/trashApiService
+ * @requires ./icons/TrashIcon
+ * @requires ./icons/ArrowPathIcon
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { TrashItem } from '../types';
+import { useAppStore } from '../store/appStore';
+import { getTrash, restoreTrashItem, purgeTrashItem } from '../services/trashApiService';
+import TrashIcon from './icons/TrashIcon';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+/**
+ * Describes how long an item has left before it is purged automatically.
+ *
+ * @param {string | null} purgeAt - When the item will be purged, or null if it is kept until purged by hand.
+ * @returns {string} A short description such as "Deleted forever in 12 days".
+ * @private
+ */
+const describePurge = (purgeAt: string | null): string => {
+  if (!purgeAt) return 'Kept until deleted forever';
+  const days = Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Deleted forever soon';
+  return `Deleted forever in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+/**
+ * The Trash page, listing deleted prompts and workflows with actions to restore or purge them.
+ *
+ * @returns {JSX.Element} The rendered Trash page.
+ */
+const TrashPage: React.FC = () => {
+  const { fetchPrompts, fetchTags } = useAppStore();
+
+  /**
+   * @state {TrashItem[]} items - The items in the trash, most recently deleted first.
+   */
+  const [items, setItems] = useState<TrashItem[]>([]);
+
+  /**
+   * @state {boolean} isLoading - Whether the trash is being loaded.
+   */
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * @state {string | null} busyId - The ID of the item being restored or purged, if any.
+   */
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * @state {string | null} error - The last error raised while loading or changing the trash.
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * @callback loadTrash
+   * @description Fetches the items in the trash.
+   */
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await getTrash());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * @effect Loads the trash when the page opens.
+   */
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  /**
+   * @callback handleRestore
+   * @description Restores an item and removes it from the list, reloading the library for prompts.
+   * @param {TrashItem} item - The item to restore.
+   */
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restoreTrashItem(item.type, item.id);
+      setItems(current => current.filter(other => other.id !== item.id));
+      if (item.type === 'prompt') {
+        fetchPrompts();
+        fetchTags();
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * @callback handlePurge
+   * @description Asks for confirmation and then deletes an item forever.
+   * @param {TrashItem} item - The item to purge.
+   */
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`Delete "${item.title}" forever? This cannot be undone.`)) {
+      return;
+    }
+    setBusyId(item.id);
+    try {
+      await purgeTrashItem(item.type, item.id);
+      setItems(current => current.filter(other => other.id !== item.id));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-200">Trash</h1>
+        <p className="text-sm text-gray-400 mt-1">
+          Deleted prompts and workflows stay here until you restore them or delete them forever.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading trash...</p>
+      ) : items.length === 0 ? (
+        <div className="text-center py-16 bg-[#333e48] rounded-lg border border-[#5c6f7e]">
+          <TrashIcon className="w-10 h-10 mx-auto text-[#5c6f7e]" />
+          <p className="text-gray-400 mt-2">The trash is empty.</p>
+        </div>
+      ) : (
+        <section className="border border-[#5c6f7e] rounded-lg bg-[#333e48] divide-y divide-[#5c6f7e]">
+          {items.map(item => (
+            <div key={`${item.type}-${item.id}`} className="flex items-center justify-between p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs px-2 py-0.5 rounded bg-[#212934] text-gray-400 uppercase tracking-wider">{item.type}</span>
+                  <span className="font-semibold text-gray-200 truncate">{item.title}</span>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  Deleted {new Date(item.deletedAt).toLocaleString()} · {describePurge(item.purgeAt)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 ml-4 flex-shrink-0">
+                <button
+                  onClick={() => handleRestore(item)}
+                  disabled={busyId === item.id}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-[#4A69E2] rounded-md hover:bg-opacity-90 disabled:opacity-50 flex items-center"
+                >
+                  <ArrowPathIcon className="w-4 h-4 mr-1.5" /> Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(item)}
+                  disabled={busyId === item.id}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center"
+                >
+                  <TrashIcon className="w-4 h-4 mr-1.5" /> Delete forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TrashPage;
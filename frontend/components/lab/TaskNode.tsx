@@ -12,6 +12,9 @@
  * @requires ../icons/PresentationChartLineIcon
  * @requires ../icons/EyeIcon
  * @requires ../icons/LinkIcon
+ * @requires ../icons/ArrowsRightLeftIcon
+ * @requires ../icons/ArrowPathIcon
+ * @requires ../../services/conditionExpression
  */
 
 import React from 'react';
@@ -22,6 +25,9 @@ import DocumentTextIcon from '../icons/DocumentTextIcon';
 import PresentationChartLineIcon from '../icons/PresentationChartLineIcon';
 import EyeIcon from '../icons/EyeIcon';
 import LinkIcon from '../icons/LinkIcon';
+import ArrowsRightLeftIcon from '../icons/ArrowsRightLeftIcon';
+import ArrowPathIcon from '../icons/ArrowPathIcon';
+import { branchKey } from '../../services/conditionExpression';
 
 /**
  * A component that returns an appropriate icon for a given task type.
@@ -35,9 +41,12 @@ const TaskIcon: React.FC<{ type: TaskType }> = ({ type }) => {
         case TaskType.DATA_INPUT: return <DocumentTextIcon className={commonClasses} />;
         case TaskType.GEMINI_PROMPT: return <SparklesIcon className={commonClasses} />;
         case TaskType.GEMINI_GROUNDED: return <SparklesIcon className={commonClasses} />;
+        case TaskType.LLM_PROMPT: return <SparklesIcon className={commonClasses} />;
         case TaskType.IMAGE_ANALYSIS: return <EyeIcon className={commonClasses} />;
         case TaskType.TEXT_MANIPULATION: return <CodeBracketIcon className={commonClasses} />;
         case TaskType.DISPLAY_CHART: return <PresentationChartLineIcon className={commonClasses} />;
+        case TaskType.CONDITION: return <ArrowsRightLeftIcon className={commonClasses} />;
+        case TaskType.MAP: return <ArrowPathIcon className={commonClasses} />;
         default: return <DocumentTextIcon className={commonClasses} />;
     }
 };
@@ -77,7 +86,11 @@ const TaskNode: React.FC<TaskNodeProps> = ({ task, state, onClick }) => {
     const config = statusConfig[state.status];
 
     const getResultSummary = () => {
-        if (state.status !== TaskStatus.COMPLETED || !state.result) return null;
+        if (state.status !== TaskStatus.COMPLETED) return null;
+        // A condition's result names the branch it took, and false or null is a branch like any other
+        if (task.type === TaskType.CONDITION) return `Took the "${branchKey(state.result)}" branch`;
+        if (task.type === TaskType.MAP && Array.isArray(state.result)) return `[${state.result.length} items]`;
+        if (!state.result) return null;
         if(typeof state.result === 'string') return state.result.substring(0, 50) + (state.result.length > 50 ? '...' : '');
         if(typeof state.result === 'object') return `[Object] Keys: ${Object.keys(state.result).slice(0,3).join(', ')}`;
         return String(state.result);
@@ -109,6 +122,21 @@ const TaskNode: React.FC<TaskNodeProps> = ({ task, state, onClick }) => {
             <div className="mt-3 pt-3 border-t border-border-primary text-xs space-y-1">
                 <p><span className="font-medium text-text-secondary">Inputs:</span> <span className="text-text-tertiary truncate">{task.inputKeys.join(', ') || 'None'}</span></p>
                 <p><span className="font-medium text-text-secondary">Output:</span> <span className="text-text-tertiary">{task.outputKey}</span></p>
+                {task.type === TaskType.CONDITION && (
+                    <>
+                        <p className="truncate"><span className="font-medium text-text-secondary">If:</span> <code className="text-text-tertiary">{task.condition || 'Not set'}</code></p>
+                        <p className="truncate"><span className="font-medium text-text-secondary">Branches:</span> <span className="text-text-tertiary">{Object.entries(task.branches || {}).map(([branch, targets]) => `${branch} → ${targets.length}`).join(', ') || 'None'}</span></p>
+                    </>
+                )}
+                {task.type === TaskType.MAP && (
+                    <p className="truncate"><span className="font-medium text-text-secondary">For each:</span> <span className="text-text-tertiary">{task.itemsKey || 'Not set'} ({task.subtasks?.length || 0} subtasks)</span></p>
+                )}
+                {task.type === TaskType.LLM_PROMPT && (
+                    <p className="truncate"><span className="font-medium text-text-secondary">Model:</span> <span className="text-text-tertiary">{task.agentConfig?.provider || 'Not set'}{task.agentConfig?.model ? ` / ${task.agentConfig.model}` : ''}</span></p>
+                )}
+                {state.items && (
+                    <p><span className="font-medium text-text-secondary">Items:</span> <span className="text-text-tertiary">{state.items.filter(item => item.status === TaskStatus.COMPLETED).length} of {state.items.length} done</span></p>
+                )}
             </div>
             
              {state.status === TaskStatus.COMPLETED && (
@@ -125,6 +153,13 @@ const TaskNode: React.FC<TaskNodeProps> = ({ task, state, onClick }) => {
                 </div>
             )}
             
+            {state.status === TaskStatus.SKIPPED && state.error && (
+                <div className="mt-2 pt-2 border-t border-border-primary text-xs">
+                    <p className="font-medium text-warning">Skipped:</p>
+                    <p className="text-text-secondary break-words h-6 overflow-hidden">{state.error}</p>
+                </div>
+            )}
+            
             {duration && (
                 <div className="text-right text-xs text-text-tertiary mt-2">
                     {duration}
@@ -2,13 +2,15 @@
  * @file WorkflowCanvas.tsx
  * @description This component serves as the main interactive area for a selected workflow.
  * It displays all the tasks as nodes, provides controls to run or reset the workflow,
- * and shows the live state of the Data Store as the workflow executes.
+ * and shows the live state of the Data Store as the workflow executes. Above the tasks,
+ * it estimates what a run of the workflow will cost.
  *
  * @requires react
  * @requires ../../types
  * @requires ../../hooks/useWorkflowRunner
  * @requires ./TaskNode
  * @requires ./DataStoreViewer
+ * @requires ./WorkflowCostEstimate
  * @requires ../icons/PlayIcon
  * @requires ../icons/ArrowPathIcon
  * @requires ./modals/TaskDetailModal
@@ -19,6 +21,7 @@ import { Workflow, StagedUserInput, TaskStatus, PromptSFL } from '../../types';
 import { useWorkflowRunner } from '../../hooks/useWorkflowRunner';
 import TaskNode from './TaskNode';
 import DataStoreViewer from './DataStoreViewer';
+import WorkflowCostEstimate from './WorkflowCostEstimate';
 import PlayIcon from '../icons/PlayIcon';
 import StopIcon from '../icons/StopIcon';
 import ArrowPathIcon from '../icons/ArrowPathIcon';
@@ -123,6 +126,7 @@ const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflow, stagedInput,
 
             <div className="flex-1 flex overflow-hidden">
                 <div className="flex-1 overflow-y-auto p-6">
+                    <WorkflowCostEstimate workflow={workflow} prompts={prompts} />
                      {runFeedback.length > 0 && (
                         <div className="mb-4 p-3 bg-warning-bg border-l-4 border-warning text-warning text-xs rounded-r-lg">
                             <p className="font-bold">Execution Notes:</p>
@@ -0,0 +1,89 @@
+/**
+ * @file WorkflowCostEstimate.tsx
+ * @description This component estimates what one run of a workflow will cost before it is started, summed over
+ * its model-calling tasks (GEMINI_PROMPT, GEMINI_GROUNDED, IMAGE_ANALYSIS and LLM_PROMPT), and breaks the estimate down per task.
+ *
+ * @requires react
+ * @requires ../../types
+ * @requires ../../types/aiProvider
+ * @requires ../../services/tokenEstimator
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PromptSFL, Workflow } from '../../types';
+import { WorkflowCostEstimate as Estimate } from '../../types/aiProvider';
+import { estimateWorkflowCost, formatCost } from '../../services/tokenEstimator';
+
+/**
+ * @interface WorkflowCostEstimateProps
+ * @description Defines the props for the WorkflowCostEstimate component.
+ * @property {Workflow} workflow - The workflow to estimate.
+ * @property {PromptSFL[]} prompts - The library prompts that tasks can link to.
+ */
+interface WorkflowCostEstimateProps {
+    workflow: Workflow;
+    prompts: PromptSFL[];
+}
+
+/**
+ * A collapsible pre-run cost estimate for a workflow. Renders nothing for workflows without AI tasks.
+ *
+ * @param {WorkflowCostEstimateProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered estimate.
+ */
+const WorkflowCostEstimate: React.FC<WorkflowCostEstimateProps> = ({ workflow, prompts }) => {
+    const [estimate, setEstimate] = useState<Estimate | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        estimateWorkflowCost(workflow, prompts).then(result => {
+            if (!cancelled) setEstimate(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [workflow, prompts]);
+
+    if (!estimate || estimate.tasks.length === 0) return null;
+
+    const taskCount = `${estimate.tasks.length} AI task${estimate.tasks.length === 1 ? '' : 's'}`;
+
+    return (
+        <details className="mb-4 p-3 bg-surface border border-border-primary rounded-lg text-xs text-text-secondary">
+            <summary className="cursor-pointer">
+                <span className="font-semibold text-text-primary">
+                    Estimated cost per run: {estimate.totalCost !== null ? `up to ${formatCost(estimate.totalCost)}` : 'unknown'}
+                </span>
+                {' '}({taskCount}, ~{estimate.inputTokens.toLocaleString()} input tokens, at most {estimate.maxOutputTokens.toLocaleString()} output tokens)
+            </summary>
+            <table className="mt-2 w-full">
+                <thead>
+                    <tr className="text-left text-text-tertiary">
+                        <th className="font-medium py-1">Task</th>
+                        <th className="font-medium py-1">Model</th>
+                        <th className="font-medium py-1 text-right">Input tokens</th>
+                        <th className="font-medium py-1 text-right">Input</th>
+                        <th className="font-medium py-1 text-right">Max output</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {estimate.tasks.map(task => (
+                        <tr key={task.taskId} className="border-t border-border-primary">
+                            <td className="py-1">{task.taskName}</td>
+                            <td className="py-1 font-mono">{task.model}</td>
+                            <td className="py-1 text-right">~{task.inputTokens.toLocaleString()}</td>
+                            <td className="py-1 text-right">{task.inputCost !== null ? formatCost(task.inputCost) : '-'}</td>
+                            <td className="py-1 text-right">{task.maxOutputCost !== null ? formatCost(task.maxOutputCost) : '-'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="mt-2 text-text-tertiary">
+                Prompts are counted as written; the values filled into their placeholders at run time add to the input.
+                {estimate.unpricedTasks.length > 0 && ` No pricing is known for the model of ${estimate.unpricedTasks.join(', ')}, so the total leaves it out.`}
+            </p>
+        </details>
+    );
+};
+
+export default WorkflowCostEstimate;
@@ -12,7 +12,7 @@
 
 import React from 'react';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
-import { Task, TaskState, TaskType, PromptSFL } from '../../../types';
+import { Task, TaskState, TaskStatus, TaskType, PromptSFL, MapItemState } from '../../../types';
 import ModalShell from '../../ModalShell';
 
 /**
@@ -74,6 +74,48 @@ const ChartRenderer: React.FC<{data: any[]}> = ({data}) => {
     )
 }
 
+/**
+ * Colours for the status of a MAP task's items.
+ */
+const itemStatusClasses: Record<TaskStatus, string> = {
+    [TaskStatus.PENDING]: 'text-text-tertiary',
+    [TaskStatus.RUNNING]: 'text-info',
+    [TaskStatus.COMPLETED]: 'text-success',
+    [TaskStatus.FAILED]: 'text-error',
+    [TaskStatus.SKIPPED]: 'text-warning',
+};
+
+/**
+ * A component that shows how far a MAP task has got through its items, with the state of each item.
+ * @param {object} props - The component props.
+ * @param {MapItemState[]} props.items - The state of each item, in the order of the items.
+ * @returns {JSX.Element} A progress bar and a list of the items.
+ */
+const MapItemProgress: React.FC<{ items: MapItemState[] }> = ({ items }) => {
+    const done = items.filter(item => item.status === TaskStatus.COMPLETED).length;
+    const failed = items.filter(item => item.status === TaskStatus.FAILED).length;
+
+    return (
+        <div>
+            <h4 className="text-sm font-semibold text-text-secondary mb-1">Items ({done} of {items.length} done{failed > 0 ? `, ${failed} failed` : ''})</h4>
+            <div className="h-2 w-full rounded-full bg-surface-hover overflow-hidden mb-2">
+                <div className="h-full bg-success" style={{ width: `${items.length > 0 ? (done / items.length) * 100 : 0}%` }} />
+            </div>
+            <ol className="max-h-64 overflow-y-auto border border-border-primary rounded-md divide-y divide-border-primary">
+                {items.map((item, index) => (
+                    <li key={index} className="flex items-start gap-3 px-3 py-1.5 text-xs">
+                        <span className="w-8 shrink-0 text-text-tertiary">#{index}</span>
+                        <span className={`w-20 shrink-0 font-semibold ${itemStatusClasses[item.status]}`}>{item.status}</span>
+                        <span className={`truncate ${item.error ? 'text-error' : 'text-text-secondary'}`}>
+                            {item.error ?? (item.result === undefined ? '' : typeof item.result === 'string' ? item.result : JSON.stringify(item.result))}
+                        </span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
 /**
  * @interface TaskDetailModalProps
  * @description Defines the props for the TaskDetailModal component.
@@ -117,6 +159,11 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ isOpen, onClose, task
                         <DetailItem label="Function Body" value={task.functionBody} isCode />
                         <DetailItem label="Static Value" value={task.staticValue} isCode />
                         <DetailItem label="Agent Config" value={task.agentConfig} isCode />
+                        <DetailItem label="Condition" value={task.condition} isCode />
+                        <DetailItem label="Branches" value={task.branches} isCode />
+                        <DetailItem label="Items Key" value={task.itemsKey} isCode />
+                        <DetailItem label="Concurrency" value={task.concurrency} isCode />
+                        <DetailItem label="Subtasks" value={task.subtasks} isCode />
                     </div>
                 </section>
                 
@@ -128,6 +175,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ isOpen, onClose, task
                             {taskState.startTime && <p><strong>Start Time:</strong> {new Date(taskState.startTime).toLocaleString()}</p>}
                             {taskState.endTime && <p><strong>End Time:</strong> {new Date(taskState.endTime).toLocaleString()}</p>}
                             {taskState.startTime && taskState.endTime && <p><strong>Duration:</strong> {((taskState.endTime - taskState.startTime)/1000).toFixed(3)} seconds</p>}
+                            {taskState.items && <MapItemProgress items={taskState.items} />}
                             
                             {task.type === TaskType.DISPLAY_CHART && taskState.result ? (
                                 <div>
@@ -2,10 +2,15 @@
  * @file WorkflowEditorModal.tsx
  * @description This component provides a modal interface for creating and editing workflows.
  * It allows users to define the workflow's name and description, and to add, configure, and remove individual tasks.
+ * A workflow can be restricted to approved prompts, in which case tasks linked to unapproved prompts are flagged.
  *
  * @requires react
  * @requires ../../../types
+ * @requires ../../../constants
  * @requires ../../../utils/generateId
+ * @requires ../../../services/conditionExpression
+ * @requires ../../../services/workflowEngine
+ * @requires ../../../config/modelCapabilities
  * @requires ../../ModalShell
  * @requires ../../icons/PlusIcon
  * @requires ../../icons/TrashIcon
@@ -14,7 +19,12 @@
 
 import React, { useState, useEffect } from 'react';
 import { Workflow, Task, TaskType, PromptSFL } from '../../../types';
+import { AIProvider } from '../../../types/aiProvider';
+import { PROMPT_STATUS_LABELS } from '../../../constants';
 import { generateId } from '../../../utils/generateId';
+import { parseCondition } from '../../../services/conditionExpression';
+import { DEFAULT_MAP_CONCURRENCY, MAX_MAP_CONCURRENCY, TEXT_MANIPULATION_TIMEOUT_MS } from '../../../services/workflowEngine';
+import { PROVIDER_CONFIGS, getProviderModels, validateParameters } from '../../../config/modelCapabilities';
 import ModalShell from '../../ModalShell';
 import PlusIcon from '../../icons/PlusIcon';
 import TrashIcon from '../../icons/TrashIcon';
@@ -51,6 +61,22 @@ const emptyTask: Omit<Task, 'id'> = {
     dataKey: '',
 };
 
+/**
+ * Drops the branch entries of every condition that point at tasks which no longer exist or no longer depend on it,
+ * and branches left empty by that.
+ * @param {Task[]} tasks - The tasks of the workflow.
+ * @returns {Task[]} The tasks, with conditions' branches cleaned up.
+ */
+const pruneBranches = (tasks: Task[]): Task[] => tasks.map(task => {
+    if (!task.branches) return task;
+    const branches: Record<string, string[]> = {};
+    for (const [branch, targets] of Object.entries(task.branches)) {
+        const kept = targets.filter(id => tasks.some(t => t.id === id && t.dependencies.includes(task.id)));
+        if (kept.length > 0) branches[branch] = kept;
+    }
+    return { ...task, branches };
+});
+
 /**
  * A sub-component within the editor for configuring a single task.
  * @param {object} props - The component props.
@@ -61,10 +87,13 @@ const TaskEditor: React.FC<{
     updateTask: (updatedTask: Task) => void;
     removeTask: () => void;
     availableDependencies: { id: string; name: string }[];
+    dependents: { id: string; name: string }[];
     prompts: PromptSFL[];
-}> = ({ task, updateTask, removeTask, availableDependencies, prompts }) => {
+    requireApprovedPrompts: boolean;
+}> = ({ task, updateTask, removeTask, availableDependencies, dependents, prompts, requireApprovedPrompts }) => {
 
     const linkedPrompt = task.promptId ? prompts.find(p => p.id === task.promptId) : null;
+    const isLinkedPromptBlocked = requireApprovedPrompts && !!linkedPrompt && linkedPrompt.status !== 'approved';
 
     const handleChange = (field: keyof Task, value: any) => {
         updateTask({ ...task, [field]: value });
@@ -82,6 +111,73 @@ const TaskEditor: React.FC<{
         handleChange('promptId', promptId || undefined);
     };
     
+    const handleBranchChange = (dependentId: string, branch: string) => {
+        const branches: Record<string, string[]> = {};
+        for (const [key, targets] of Object.entries(task.branches || {})) {
+            const kept = targets.filter(id => id !== dependentId);
+            if (kept.length > 0) branches[key] = kept;
+        }
+        if (branch.trim()) {
+            branches[branch.trim()] = [...(branches[branch.trim()] || []), dependentId];
+        }
+        handleChange('branches', branches);
+    };
+
+    const branchOf = (dependentId: string) =>
+        Object.entries(task.branches || {}).find(([, targets]) => targets.includes(dependentId))?.[0] ?? '';
+
+    // Subtasks are edited as JSON; the text is kept apart from the task so that it can be invalid while typing
+    const [subtasksText, setSubtasksText] = useState(() => JSON.stringify(task.subtasks || [], null, 2));
+    const [subtasksError, setSubtasksError] = useState<string | null>(null);
+
+    const handleSubtasksChange = (text: string) => {
+        setSubtasksText(text);
+        try {
+            const subtasks = JSON.parse(text);
+            if (!Array.isArray(subtasks)) throw new Error('Subtasks must be a JSON array of tasks.');
+            setSubtasksError(null);
+            handleChange('subtasks', subtasks);
+        } catch (error: any) {
+            setSubtasksError(error.message);
+        }
+    };
+
+    // Parameters are edited as JSON in the provider's own format, kept apart from the task like the subtasks
+    const [parametersText, setParametersText] = useState(() => JSON.stringify(task.agentConfig?.parameters || {}, null, 2));
+    const [parametersError, setParametersError] = useState<string | null>(null);
+
+    const handleProviderChange = (provider: AIProvider) => {
+        handleChange('agentConfig', { ...task.agentConfig, provider, model: getProviderModels(provider)[0]?.id });
+    };
+
+    const handleParametersChange = (text: string) => {
+        setParametersText(text);
+        try {
+            const parameters = JSON.parse(text);
+            if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+                throw new Error('Parameters must be a JSON object.');
+            }
+            setParametersError(null);
+            handleChange('agentConfig', { ...task.agentConfig, parameters });
+        } catch (error: any) {
+            setParametersError(error.message);
+        }
+    };
+
+    const llmProvider = task.agentConfig?.provider;
+    const parameterWarnings = task.type === TaskType.LLM_PROMPT && llmProvider && task.agentConfig?.model && task.agentConfig.parameters
+        ? validateParameters(llmProvider, task.agentConfig.model, task.agentConfig.parameters).errors
+        : [];
+
+    let conditionError: string | null = null;
+    if (task.type === TaskType.CONDITION && task.condition) {
+        try {
+            parseCondition(task.condition);
+        } catch (error: any) {
+            conditionError = error.message;
+        }
+    }
+
     const commonInputClasses = "input-field w-full";
     const labelClasses = "block text-sm font-medium text-text-secondary mb-1";
 
@@ -122,14 +218,21 @@ const TaskEditor: React.FC<{
                     <div><label className={labelClasses}>Output Key</label><input type="text" value={task.outputKey} onChange={e => handleChange('outputKey', e.target.value)} className={commonInputClasses} /></div>
                 </div>
 
-                {task.type === TaskType.GEMINI_PROMPT && (
+                {(task.type === TaskType.GEMINI_PROMPT || task.type === TaskType.LLM_PROMPT) && (
                     <div className="p-3 border border-dashed border-border-secondary rounded-md space-y-3 bg-surface-hover/50">
                         <div>
                             <label className={labelClasses}>Link Library Prompt</label>
                             <select value={task.promptId || ''} onChange={handlePromptLinkChange} className={commonInputClasses}>
                                 <option value="">-- None (Manual Prompt) --</option>
-                                {prompts.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                                {prompts.map(p => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.status && p.status !== 'approved' ? `${p.title} (${PROMPT_STATUS_LABELS[p.status]})` : p.title}
+                                    </option>
+                                ))}
                             </select>
+                            {isLinkedPromptBlocked && (
+                                <p className="text-xs text-error mt-1">This prompt is not approved, so this workflow will refuse to run it.</p>
+                            )}
                         </div>
                         <div>
                             <label className={labelClasses}>Prompt Template</label>
@@ -142,7 +245,40 @@ const TaskEditor: React.FC<{
                                 placeholder={linkedPrompt ? 'This is managed by the linked prompt.' : 'Enter prompt template here...'}
                             />
                         </div>
-                         {!linkedPrompt && (
+                        {task.type === TaskType.LLM_PROMPT && (
+                            <>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <label className={labelClasses}>Provider</label>
+                                        <select value={llmProvider || ''} onChange={e => handleProviderChange(e.target.value as AIProvider)} className={commonInputClasses}>
+                                            <option value="" disabled>-- Choose a provider --</option>
+                                            {Object.values(PROVIDER_CONFIGS).map(config => <option key={config.provider} value={config.provider}>{config.name}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClasses}>Model</label>
+                                        <input type="text" list={`models-${task.id}`} value={task.agentConfig?.model || ''} onChange={e => handleChange('agentConfig', { ...task.agentConfig, model: e.target.value })} className={commonInputClasses} disabled={!llmProvider} />
+                                        <datalist id={`models-${task.id}`}>
+                                            {llmProvider && getProviderModels(llmProvider).map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+                                        </datalist>
+                                    </div>
+                                </div>
+                                {!linkedPrompt && (
+                                    <div>
+                                        <label className={labelClasses}>System Instruction</label>
+                                        <textarea value={task.agentConfig?.systemInstruction || ''} onChange={e => handleChange('agentConfig', { ...task.agentConfig, systemInstruction: e.target.value || undefined })} rows={2} className={`${commonInputClasses} text-sm`} />
+                                    </div>
+                                )}
+                                <div>
+                                    <label className={labelClasses}>Parameters (JSON)</label>
+                                    <textarea value={parametersText} onChange={e => handleParametersChange(e.target.value)} rows={3} className={`${commonInputClasses} font-mono text-sm`} placeholder='{ "temperature": 0.2, "maxTokens": 1024 }' />
+                                    {parametersError && <p className="text-xs text-error mt-1">{parametersError}</p>}
+                                    {parameterWarnings.map(warning => <p key={warning} className="text-xs text-warning mt-1">{warning}</p>)}
+                                    <p className="text-xs text-text-tertiary mt-1">In the provider's own format, e.g. top_p for OpenAI or top_k for Anthropic. The key you saved for the provider is used, or the server's own.</p>
+                                </div>
+                            </>
+                        )}
+                         {task.type === TaskType.GEMINI_PROMPT && !linkedPrompt && (
                             <div>
                                 <label className={labelClasses}>Agent Config (JSON)</label>
                                 <textarea
@@ -164,7 +300,11 @@ const TaskEditor: React.FC<{
                 )}
                 
                 {task.type === TaskType.TEXT_MANIPULATION && (
-                     <div><label className={labelClasses}>Function Body</label><textarea value={task.functionBody} onChange={e => handleChange('functionBody', e.target.value)} rows={4} className={`${commonInputClasses} font-mono text-sm`} placeholder="e.g., return `Hello, ${inputs.name}`"></textarea></div>
+                     <div>
+                        <label className={labelClasses}>Function Body</label>
+                        <textarea value={task.functionBody} onChange={e => handleChange('functionBody', e.target.value)} rows={4} className={`${commonInputClasses} font-mono text-sm`} placeholder="e.g., return `Hello, ${inputs.name}`"></textarea>
+                        <p className="text-xs text-text-tertiary mt-1">Runs in a sandbox on the server for at most {TEXT_MANIPULATION_TIMEOUT_MS / 1000} s with only <code>inputs</code> and the JavaScript built-ins, and must return JSON data.</p>
+                     </div>
                 )}
                 
                 {task.type === TaskType.DATA_INPUT && (
@@ -174,6 +314,77 @@ const TaskEditor: React.FC<{
                 {task.type === TaskType.DISPLAY_CHART && (
                     <div><label className={labelClasses}>Data Key for Chart</label><input type="text" value={task.dataKey} onChange={e => handleChange('dataKey', e.target.value)} className={commonInputClasses} /></div>
                 )}
+                
+                {task.type === TaskType.CONDITION && (
+                    <div className="p-3 border border-dashed border-border-secondary rounded-md space-y-3 bg-surface-hover/50">
+                        <div>
+                            <label className={labelClasses}>Condition</label>
+                            <textarea value={task.condition || ''} onChange={e => handleChange('condition', e.target.value)} rows={2} className={`${commonInputClasses} font-mono text-sm`} placeholder="e.g., trim(lower(sentiment)) == 'negative'"></textarea>
+                            {conditionError && <p className="text-xs text-error mt-1">{conditionError}</p>}
+                            <p className="text-xs text-text-tertiary mt-1">Reads Data Store keys and supports ! && || == != &lt; &lt;= &gt; &gt;= with contains, startsWith, endsWith, lower, upper, trim, length and number.</p>
+                        </div>
+                        <div>
+                            <h4 className={labelClasses}>Branches</h4>
+                            {dependents.length === 0 ? (
+                                <p className="text-xs text-text-tertiary">Tasks that depend on this condition can be placed on a branch here.</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {dependents.map(dependent => (
+                                        <div key={dependent.id} className="grid grid-cols-2 gap-2 items-center">
+                                            <span className="text-sm text-text-primary truncate">{dependent.name}</span>
+                                            <input
+                                                type="text"
+                                                list={`branches-${task.id}`}
+                                                value={branchOf(dependent.id)}
+                                                onChange={e => handleBranchChange(dependent.id, e.target.value)}
+                                                className={commonInputClasses}
+                                                placeholder="Always runs"
+                                                aria-label={`Result that runs ${dependent.name}`}
+                                            />
+                                        </div>
+                                    ))}
+                                    <datalist id={`branches-${task.id}`}>
+                                        <option value="true" />
+                                        <option value="false" />
+                                    </datalist>
+                                    <p className="text-xs text-text-tertiary">A task runs only when the condition's result matches its value; tasks left empty always run.</p>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+                
+                {task.type === TaskType.MAP && (
+                    <div className="p-3 border border-dashed border-border-secondary rounded-md space-y-3 bg-surface-hover/50">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div><label className={labelClasses}>Items Key</label><input type="text" value={task.itemsKey || ''} onChange={e => handleChange('itemsKey', e.target.value)} className={commonInputClasses} placeholder="e.g., extractedSections" /></div>
+                            <div>
+                                <label className={labelClasses}>Items at Once</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_MAP_CONCURRENCY}
+                                    value={task.concurrency ?? ''}
+                                    onChange={e => handleChange('concurrency', e.target.value ? Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_MAP_CONCURRENCY) : undefined)}
+                                    className={commonInputClasses}
+                                    placeholder={String(DEFAULT_MAP_CONCURRENCY)}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Subtasks (JSON)</label>
+                            <textarea
+                                value={subtasksText}
+                                onChange={e => handleSubtasksChange(e.target.value)}
+                                rows={8}
+                                className={`${commonInputClasses} font-mono text-sm`}
+                                placeholder='[{ "id": "summarize", "name": "Summarize", "description": "", "type": "GEMINI_PROMPT", "dependencies": [], "inputKeys": ["item"], "outputKey": "summary", "promptTemplate": "Summarize: {{item}}" }]'
+                            />
+                            {subtasksError && <p className="text-xs text-error mt-1">{subtasksError}</p>}
+                            <p className="text-xs text-text-tertiary mt-1">Runs once per item, with the item as <code>item</code> and its position as <code>itemIndex</code>. The subtask no other subtask depends on gives each item's result.</p>
+                        </div>
+                    </div>
+                )}
             </div>
         </details>
     );
@@ -223,7 +434,7 @@ const WorkflowEditorModal: React.FC<WorkflowEditorModalProps> = ({ isOpen, onClo
 
     const updateTask = (updatedTask: Task) => {
         const newTasks = workflow.tasks.map(t => t.id === updatedTask.id ? updatedTask : t);
-        handleWorkflowChange('tasks', newTasks);
+        handleWorkflowChange('tasks', pruneBranches(newTasks));
     };
 
     const removeTask = (taskId: string) => {
@@ -232,7 +443,7 @@ const WorkflowEditorModal: React.FC<WorkflowEditorModalProps> = ({ isOpen, onClo
             ...t,
             dependencies: t.dependencies.filter(d => d !== taskId)
         }));
-        handleWorkflowChange('tasks', cleanedTasks);
+        handleWorkflowChange('tasks', pruneBranches(cleanedTasks));
     };
 
     const handleSubmit = () => {
@@ -248,6 +459,10 @@ const WorkflowEditorModal: React.FC<WorkflowEditorModalProps> = ({ isOpen, onClo
                 <div className="p-4 border border-border-primary rounded-lg space-y-4 bg-surface">
                      <div><label className={labelClasses}>Workflow Name</label><input type="text" value={workflow.name} onChange={(e) => handleWorkflowChange('name', e.target.value)} className={commonInputClasses} /></div>
                      <div><label className={labelClasses}>Workflow Description</label><textarea value={workflow.description} onChange={(e) => handleWorkflowChange('description', e.target.value)} rows={2} className={commonInputClasses} /></div>
+                     <div className="flex items-center">
+                        <input type="checkbox" id="workflow-require-approved" checked={!!workflow.requireApprovedPrompts} onChange={(e) => handleWorkflowChange('requireApprovedPrompts', e.target.checked)} className="h-4 w-4 rounded border-border-primary text-accent-primary focus:ring-accent-primary"/>
+                        <label htmlFor="workflow-require-approved" className="ml-2 text-sm text-text-primary">Only run approved library prompts</label>
+                     </div>
                 </div>
 
                 <div className="space-y-4">
@@ -259,7 +474,9 @@ const WorkflowEditorModal: React.FC<WorkflowEditorModalProps> = ({ isOpen, onClo
                             updateTask={updateTask}
                             removeTask={() => removeTask(task.id)}
                             availableDependencies={workflow.tasks.filter(t => t.id !== task.id).map(t => ({id: t.id, name: t.name}))}
+                            dependents={workflow.tasks.filter(t => t.dependencies.includes(task.id)).map(t => ({id: t.id, name: t.name}))}
                             prompts={prompts}
+                            requireApprovedPrompts={!!workflow.requireApprovedPrompts}
                         />
                     ))}
                     <button type="button" onClick={addTask} className="w-full flex items-center justify-center space-x-2 py-2 border-2 border-dashed border-border-secondary rounded-lg text-text-tertiary hover:bg-surface-hover">
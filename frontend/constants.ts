@@ -8,7 +8,7 @@
  * @since 0.5.1
  */
 
-import { SFLField, SFLTenor, SFLMode, PromptSFL } from './types';
+import { SFLField, SFLTenor, SFLMode, PromptSFL, PromptStatus, PromptCompileFormat, JudgementDimension } from './types';
 
 /**
  * @constant {string[]} TASK_TYPES
@@ -80,6 +80,95 @@ export const LENGTH_CONSTRAINTS = [
  */
 export const POPULAR_TAGS = ["#summarization", "#expert-persona", "#python-code", "#formal-tone", "#technical", "#json"];
 
+/**
+ * @constant {Array<{ code: string; label: string }>} PROMPT_LOCALES
+ * @description The locales offered for translating prompts and filtering the library.
+ * Prompts may carry any language tag; these are just the common ones.
+ */
+export const PROMPT_LOCALES = [
+  { code: "en", label: "English" },
+  { code: "de", label: "German" },
+  { code: "fr", label: "French" },
+  { code: "es", label: "Spanish" },
+  { code: "it", label: "Italian" },
+  { code: "pt-BR", label: "Portuguese (Brazil)" },
+  { code: "nl", label: "Dutch" },
+  { code: "pl", label: "Polish" },
+  { code: "ja", label: "Japanese" },
+  { code: "zh-Hans", label: "Chinese (Simplified)" },
+];
+
+/**
+ * @constant {string} PROMPT_DRAG_TYPE
+ * @description The drag-and-drop data type under which a dragged prompt card carries its prompt ID,
+ * so that drop targets such as collections can tell prompt drags apart from other drags.
+ */
+export const PROMPT_DRAG_TYPE = "application/x-sfl-prompt-id";
+
+/**
+ * @constant {Record<PromptStatus, string>} PROMPT_STATUS_LABELS
+ * @description The display names of the prompt review statuses.
+ */
+export const PROMPT_STATUS_LABELS: Record<PromptStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  deprecated: 'Deprecated',
+};
+
+/**
+ * @constant {Record<PromptStatus, string>} PROMPT_STATUS_STYLES
+ * @description The badge colours of the prompt review statuses.
+ */
+export const PROMPT_STATUS_STYLES: Record<PromptStatus, string> = {
+  draft: 'bg-[#5c6f7e] text-gray-200',
+  in_review: 'bg-[#e2a32d] text-gray-900',
+  approved: 'bg-green-700 text-white',
+  deprecated: 'bg-[#c36e26] text-white',
+};
+
+/**
+ * @constant {Record<PromptCompileFormat, string>} PROMPT_COMPILE_FORMAT_LABELS
+ * @description The display names of the message layouts a prompt can be compiled into for a test run.
+ */
+export const PROMPT_COMPILE_FORMAT_LABELS: Record<PromptCompileFormat, string> = {
+  plain: 'Plain text',
+  anthropic: 'Anthropic (XML sections)',
+  openai: 'OpenAI (system message + Markdown)',
+  gemini: 'Gemini (systemInstruction)',
+};
+
+/**
+ * @constant {Record<JudgementDimension, string>} JUDGEMENT_DIMENSION_LABELS
+ * @description The display names of the dimensions a judge model grades a response on.
+ */
+export const JUDGEMENT_DIMENSION_LABELS: Record<JudgementDimension, string> = {
+  tone: 'Tone',
+  length: 'Length',
+  format: 'Output format',
+  structure: 'Structure',
+  audience: 'Audience',
+};
+
+/**
+ * @constant {Record<string, string>} SFL_FIELD_LABELS
+ * @description The display names of the SFL fields, keyed by their path as used by SFL annotations.
+ */
+export const SFL_FIELD_LABELS: Record<string, string> = {
+  'sflField.topic': 'Topic',
+  'sflField.taskType': 'Task type',
+  'sflField.domainSpecifics': 'Domain specifics',
+  'sflField.keywords': 'Keywords',
+  'sflTenor.aiPersona': 'AI persona',
+  'sflTenor.targetAudience': 'Target audience',
+  'sflTenor.desiredTone': 'Desired tone',
+  'sflTenor.interpersonalStance': 'Interpersonal stance',
+  'sflMode.outputFormat': 'Output format',
+  'sflMode.rhetoricalStructure': 'Rhetorical structure',
+  'sflMode.lengthConstraint': 'Length constraint',
+  'sflMode.textualDirectives': 'Textual directives',
+};
+
 /**
  * @constant {SFLField} SFL_EMPTY_FIELD
  * @description Provides a default, empty object for the 'Field' part of an SFL prompt.
@@ -117,6 +206,8 @@ export const INITIAL_PROMPT_SFL: Omit<PromptSFL, 'id' | 'createdAt' | 'updatedAt
   sflField: { ...SFL_EMPTY_FIELD },
   sflTenor: { ...SFL_EMPTY_TENOR },
   sflMode: { ...SFL_EMPTY_MODE },
+  variables: [],
+  visibility: 'private',
   exampleOutput: "",
   notes: "",
   sourceDocument: undefined,
@@ -10,8 +10,8 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Workflow, DataStore, TaskStateMap, TaskStatus, Task, PromptSFL, WorkflowExecution } from '../types';
-import { topologicalSort, executeTask } from '../services/workflowEngine';
+import { Workflow, DataStore, TaskStateMap, TaskStatus, Task, PromptSFL, WorkflowExecution, MapItemState } from '../types';
+import { topologicalSort, executeTask, getSkipReason } from '../services/workflowEngine';
 import authService from '../services/authService';
 
 /**
@@ -101,6 +101,20 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
      */
     const cancellationRef = useRef<{ cancelled: boolean }>({ cancelled: false });
 
+    /**
+     * @function
+     * @description Records the progress of one item of a running MAP task; items not yet reported stay PENDING.
+     */
+    const updateMapItem = useCallback((taskId: string, index: number, total: number, item: MapItemState) => {
+        setTaskStates(prev => {
+            const items = prev[taskId]?.items?.length === total
+                ? [...prev[taskId].items!]
+                : Array.from({ length: total }, (): MapItemState => ({ status: TaskStatus.PENDING }));
+            items[index] = item;
+            return { ...prev, [taskId]: { ...prev[taskId], items } };
+        });
+    }, []);
+
     /**
      * @function
      * @description Connects to WebSocket for real-time updates
@@ -153,27 +167,37 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
                 break;
             
             case 'task_status':
-                if (message.taskId) {
+                if (message.taskId && message.item) {
+                    updateMapItem(message.taskId, message.item.index, message.item.total, {
+                        status: message.item.status === 'running' ? TaskStatus.RUNNING :
+                               message.item.status === 'completed' ? TaskStatus.COMPLETED :
+                               TaskStatus.FAILED,
+                        result: message.item.result,
+                        error: message.item.error,
+                    });
+                } else if (message.taskId) {
                     setTaskStates(prev => ({
                         ...prev,
                         [message.taskId]: {
                             status: message.status === 'active' ? TaskStatus.RUNNING :
                                    message.status === 'completed' ? TaskStatus.COMPLETED :
                                    message.status === 'failed' ? TaskStatus.FAILED :
+                                   message.status === 'skipped' ? TaskStatus.SKIPPED :
                                    TaskStatus.PENDING,
                             result: message.result,
-                            error: message.error,
+                            error: message.error ?? message.reason,
                             startTime: message.status === 'active' ? Date.now() : prev[message.taskId]?.startTime,
                             endTime: message.status === 'completed' || message.status === 'failed' ? Date.now() : undefined,
+                            items: prev[message.taskId]?.items,
                         }
                     }));
 
-                    // Update data store if task completed
-                    if (message.status === 'completed' && message.result !== undefined) {
+                    // Update data store if task completed; a skipped task leaves null behind
+                    if ((message.status === 'completed' && message.result !== undefined) || message.status === 'skipped') {
                         setDataStore(prev => {
                             const task = workflow?.tasks.find(t => t.id === message.taskId);
                             if (task) {
-                                return { ...prev, [task.outputKey]: message.result };
+                                return { ...prev, [task.outputKey]: message.status === 'skipped' ? null : message.result };
                             }
                             return prev;
                         });
@@ -198,7 +222,7 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
                 setRunFeedback(prev => [...prev, `Workflow stopped: ${message.reason || 'User cancelled'}`]);
                 break;
         }
-    }, [workflow]);
+    }, [workflow, updateMapItem]);
 
     /**
      * @function
@@ -339,7 +363,9 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
      * @function
      * @description Starts the execution of the workflow.
      * It performs a topological sort of the tasks, then executes them sequentially,
-     * updating the task states and data store as it progresses.
+     * updating the task states and data store as it progresses. Tasks after a failure, and tasks
+     * on a branch a condition did not take, are skipped.
+     * A workflow restricted to approved prompts does not start while any linked prompt is unapproved.
      * @param {Record<string, any>} [stagedUserInput={}] - The initial input data provided by the user,
      * which is placed in `dataStore.userInput`.
      * @returns {Promise<void>} A promise that resolves when the workflow has finished running (either completed or failed).
@@ -354,6 +380,16 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
             setRunFeedback(['No workflow selected.']);
             return;
         }
+
+        if (workflow.requireApprovedPrompts) {
+            const unapproved = workflow.tasks
+                .map(task => task.promptId && prompts.find(p => p.id === task.promptId))
+                .filter((prompt): prompt is PromptSFL => !!prompt && prompt.status !== 'approved');
+            if (unapproved.length > 0) {
+                setRunFeedback([`This workflow only runs approved prompts. Not approved: ${unapproved.map(p => `"${p.title}"`).join(', ')}`]);
+                return;
+            }
+        }
         
         // Reset cancellation flag and start execution
         cancellationRef.current.cancelled = false;
@@ -371,6 +407,11 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
         const initialDataStore: DataStore = { userInput: stagedUserInput };
         setDataStore(initialDataStore);
 
+        // The states of this run, kept alongside `taskStates`, which only updates on the next render,
+        // and the tasks that failed or were skipped because a task before them failed
+        const runStates: TaskStateMap = {};
+        const blocked = new Set<string>();
+
         for (const task of sortedTasks) {
             // Check for cancellation before processing each task
             if (cancellationRef.current.cancelled) {
@@ -380,10 +421,14 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
                 return;
             }
 
-            const hasSkippedDependency = task.dependencies.some(depId => taskStates[depId]?.status === TaskStatus.FAILED || taskStates[depId]?.status === TaskStatus.SKIPPED);
+            const hasFailedDependency = task.dependencies.some(depId => blocked.has(depId));
+            const skipReason = hasFailedDependency ? 'Skipped due to dependency failure.' : getSkipReason(task, workflow.tasks, runStates);
             
-            if (hasSkippedDependency) {
-                setTaskStates(prev => ({...prev, [task.id]: { status: TaskStatus.SKIPPED, error: 'Skipped due to dependency failure.' }}));
+            if (skipReason) {
+                if (hasFailedDependency) blocked.add(task.id);
+                runStates[task.id] = { status: TaskStatus.SKIPPED, error: skipReason };
+                setDataStore(prev => ({ ...prev, [task.outputKey]: null }));
+                setTaskStates(prev => ({...prev, [task.id]: { status: TaskStatus.SKIPPED, error: skipReason }}));
                 continue;
             }
 
@@ -391,7 +436,13 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
             
             try {
                 const currentDataStore = await new Promise<DataStore>(resolve => setDataStore(current => { resolve(current); return current; }));
-                const result = await executeTask(task, currentDataStore, prompts);
+                const result = await executeTask(
+                    task,
+                    currentDataStore,
+                    prompts,
+                    workflow.id,
+                    (index, total, item) => updateMapItem(task.id, index, total, item)
+                );
 
                 // Check for cancellation after task execution
                 if (cancellationRef.current.cancelled) {
@@ -401,6 +452,7 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
                     return;
                 }
 
+                runStates[task.id] = { status: TaskStatus.COMPLETED, result };
                 setDataStore(prev => ({ ...prev, [task.outputKey]: result }));
                 setTaskStates(prev => ({
                     ...prev, 
@@ -409,6 +461,8 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
 
             } catch (error: any) {
                 console.error(`Error executing task ${task.name}:`, error);
+                runStates[task.id] = { status: TaskStatus.FAILED, error: error.message };
+                blocked.add(task.id);
                 setTaskStates(prev => ({
                     ...prev,
                     [task.id]: { ...prev[task.id], status: TaskStatus.FAILED, error: error.message, endTime: Date.now() }
@@ -418,7 +472,7 @@ export const useWorkflowRunner = (workflow: Workflow | null, prompts: PromptSFL[
         
         setIsRunning(false);
 
-    }, [workflow, initializeStates, taskStates, prompts, executionMode, runAsync]);
+    }, [workflow, initializeStates, prompts, executionMode, runAsync, updateMapItem]);
 
     return { 
         dataStore, 
@@ -0,0 +1,305 @@
+/**
+ * @file conditionExpression.ts
+ * @description A small expression language for the conditions of CONDITION tasks. It is the same language the
+ * backend evaluates, so a workflow takes the same branches whether it runs in the browser or as a queued job.
+ * Expressions are parsed and evaluated here, never handed to `new Function`, so they can only read the DataStore.
+ *
+ * The language has:
+ * - literals: numbers, `'single'` or `"double"` quoted strings, `true`, `false` and `null`;
+ * - DataStore paths in dot notation, e.g. `sentiment` or `userInput.text`; a missing path reads as `null`;
+ * - the operators `!`, unary `-`, `<`, `<=`, `>`, `>=`, `==`, `!=`, `&&` and `||`, with parentheses for grouping;
+ * - the functions `contains`, `startsWith`, `endsWith`, `lower`, `upper`, `trim`, `length` and `number`.
+ *
+ * `==` and `!=` compare without converting types, so a model's answer is usually compared through
+ * `trim(lower(answer)) == 'yes'`, and numbers read from text through `number(score) >= 7`.
+ *
+ * @requires ../types
+ */
+
+import { DataStore } from '../types';
+
+/**
+ * The longest expression accepted.
+ * @private
+ */
+const MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * A token of an expression.
+ * @private
+ */
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: string }
+    | { kind: 'name'; value: string }
+    | { kind: 'operator'; value: string };
+
+/**
+ * A parsed expression.
+ * @private
+ */
+type Node =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; path: string }
+    | { kind: 'unary'; operator: string; operand: Node }
+    | { kind: 'binary'; operator: string; left: Node; right: Node }
+    | { kind: 'call'; name: string; args: Node[] };
+
+/**
+ * Operators, longest first so that `<=` is not read as `<`.
+ * @private
+ */
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '-', '(', ')', ',', '.'];
+
+/**
+ * The binary operators by precedence, lowest first.
+ * @private
+ */
+const PRECEDENCE = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>=']];
+
+/**
+ * The functions an expression may call, with the number of arguments each takes.
+ * @private
+ */
+const FUNCTIONS: Record<string, { arity: number; apply: (...args: any[]) => unknown }> = {
+    contains: {
+        arity: 2,
+        apply: (haystack, needle) => Array.isArray(haystack)
+            ? haystack.includes(needle)
+            : typeof haystack === 'string' && haystack.includes(String(needle)),
+    },
+    startsWith: { arity: 2, apply: (text, prefix) => typeof text === 'string' && text.startsWith(String(prefix)) },
+    endsWith: { arity: 2, apply: (text, suffix) => typeof text === 'string' && text.endsWith(String(suffix)) },
+    lower: { arity: 1, apply: text => (text == null ? text : String(text).toLowerCase()) },
+    upper: { arity: 1, apply: text => (text == null ? text : String(text).toUpperCase()) },
+    trim: { arity: 1, apply: text => (text == null ? text : String(text).trim()) },
+    length: {
+        arity: 1,
+        apply: value => (typeof value === 'string' || Array.isArray(value) ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0),
+    },
+    number: {
+        arity: 1,
+        apply: value => {
+            const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+            return Number.isNaN(parsed) ? null : parsed;
+        },
+    },
+};
+
+/**
+ * Splits an expression into tokens.
+ * @private
+ */
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let position = 0;
+    while (position < expression.length) {
+        const char = expression[position];
+        if (/\s/.test(char)) {
+            position++;
+        } else if (/[0-9]/.test(char)) {
+            const match = expression.slice(position).match(/^\d+(\.\d+)?/)!;
+            tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+            position += match[0].length;
+        } else if (char === '"' || char === "'") {
+            let value = '';
+            position++;
+            while (position < expression.length && expression[position] !== char) {
+                if (expression[position] === '\\' && position + 1 < expression.length) position++;
+                value += expression[position++];
+            }
+            if (position >= expression.length) throw new Error('Unterminated string in condition');
+            position++;
+            tokens.push({ kind: 'string', value });
+        } else if (/[A-Za-z_$]/.test(char)) {
+            const match = expression.slice(position).match(/^[A-Za-z_$][\w$]*/)!;
+            tokens.push({ kind: 'name', value: match[0] });
+            position += match[0].length;
+        } else {
+            const operator = OPERATORS.find(candidate => expression.startsWith(candidate, position));
+            if (!operator) throw new Error(`Unexpected character "${char}" in condition`);
+            tokens.push({ kind: 'operator', value: operator });
+            position += operator.length;
+        }
+    }
+    return tokens;
+};
+
+/**
+ * Parses an expression into a tree by recursive descent.
+ * @private
+ */
+class Parser {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): Node {
+        const node = this.parseBinary(0);
+        if (this.position < this.tokens.length) {
+            throw new Error(`Unexpected "${this.describe(this.tokens[this.position])}" in condition`);
+        }
+        return node;
+    }
+
+    private parseBinary(level: number): Node {
+        if (level === PRECEDENCE.length) return this.parseUnary();
+        let left = this.parseBinary(level + 1);
+        while (this.peekOperator(...PRECEDENCE[level])) {
+            const operator = (this.tokens[this.position++] as { value: string }).value;
+            left = { kind: 'binary', operator, left, right: this.parseBinary(level + 1) };
+        }
+        return left;
+    }
+
+    private parseUnary(): Node {
+        if (this.peekOperator('!', '-')) {
+            const operator = (this.tokens[this.position++] as { value: string }).value;
+            return { kind: 'unary', operator, operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Node {
+        const token = this.tokens[this.position++];
+        if (!token) throw new Error('The condition ends unexpectedly');
+        if (token.kind === 'number' || token.kind === 'string') return { kind: 'literal', value: token.value };
+        if (token.kind === 'operator' && token.value === '(') {
+            const node = this.parseBinary(0);
+            this.expectOperator(')');
+            return node;
+        }
+        if (token.kind === 'name') {
+            if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+            if (token.value === 'null') return { kind: 'literal', value: null };
+            if (this.peekOperator('(')) return this.parseCall(token.value);
+            let path = token.value;
+            while (this.peekOperator('.')) {
+                this.position++;
+                const segment = this.tokens[this.position++];
+                if (!segment || (segment.kind !== 'name' && segment.kind !== 'number')) throw new Error(`Expected a key after "${path}." in condition`);
+                path += `.${segment.value}`;
+            }
+            return { kind: 'path', path };
+        }
+        throw new Error(`Unexpected "${this.describe(token)}" in condition`);
+    }
+
+    private parseCall(name: string): Node {
+        const fn = FUNCTIONS[name];
+        if (!fn) throw new Error(`Unknown function "${name}" in condition`);
+        this.expectOperator('(');
+        const args: Node[] = [];
+        if (!this.peekOperator(')')) {
+            do {
+                args.push(this.parseBinary(0));
+            } while (this.peekOperator(',') && ++this.position);
+        }
+        this.expectOperator(')');
+        if (args.length !== fn.arity) throw new Error(`${name}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`);
+        return { kind: 'call', name, args };
+    }
+
+    private peekOperator(...operators: string[]): boolean {
+        const token = this.tokens[this.position];
+        return !!token && token.kind === 'operator' && operators.includes(token.value);
+    }
+
+    private expectOperator(operator: string): void {
+        if (!this.peekOperator(operator)) throw new Error(`Expected "${operator}" in condition`);
+        this.position++;
+    }
+
+    private describe(token: Token): string {
+        return token.kind === 'string' ? `'${token.value}'` : String(token.value);
+    }
+}
+
+/**
+ * Reads a nested value from the DataStore, or `null` if the path is missing. Only own properties are read,
+ * so a path cannot reach `constructor` or anything else inherited.
+ * @private
+ */
+const readPath = (dataStore: DataStore, path: string): unknown => {
+    const value = path.split('.').reduce<any>(
+        (acc, part) => (acc != null && typeof acc === 'object' && Object.prototype.hasOwnProperty.call(acc, part) ? acc[part] : undefined),
+        dataStore
+    );
+    return value === undefined ? null : value;
+};
+
+/**
+ * Evaluates a parsed expression against the DataStore.
+ * @private
+ */
+const evaluate = (node: Node, dataStore: DataStore): unknown => {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'path':
+            return readPath(dataStore, node.path);
+        case 'call':
+            return FUNCTIONS[node.name].apply(...node.args.map(arg => evaluate(arg, dataStore)));
+        case 'unary': {
+            const operand = evaluate(node.operand, dataStore);
+            if (node.operator === '!') return !operand;
+            if (typeof operand !== 'number') throw new Error('Only numbers can be negated in a condition');
+            return -operand;
+        }
+        case 'binary': {
+            if (node.operator === '&&') return !!evaluate(node.left, dataStore) && !!evaluate(node.right, dataStore);
+            if (node.operator === '||') return !!evaluate(node.left, dataStore) || !!evaluate(node.right, dataStore);
+            const left = evaluate(node.left, dataStore);
+            const right = evaluate(node.right, dataStore);
+            if (node.operator === '==') return left === right;
+            if (node.operator === '!=') return left !== right;
+            if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+                throw new Error(`Cannot compare ${left === null ? 'null' : typeof left} with ${right === null ? 'null' : typeof right} in condition`);
+            }
+            const [a, b] = [left as number | string, right as number | string];
+            if (node.operator === '<') return a < b;
+            if (node.operator === '<=') return a <= b;
+            if (node.operator === '>') return a > b;
+            return a >= b;
+        }
+    }
+};
+
+/**
+ * Parses a condition, so that it can be checked before a workflow runs.
+ *
+ * @param expression - The condition.
+ * @throws {Error} If the condition is empty, too long or not valid in the expression language.
+ */
+export const parseCondition = (expression: string): void => {
+    compile(expression);
+};
+
+/**
+ * Evaluates a condition against the DataStore of a workflow run.
+ *
+ * @param expression - The condition, e.g. `trim(lower(sentiment)) == 'negative'`.
+ * @param dataStore - The DataStore of the run.
+ * @returns The value of the condition.
+ * @throws {Error} If the condition is not valid or cannot be evaluated on the data.
+ */
+export const evaluateCondition = (expression: string, dataStore: DataStore): unknown => evaluate(compile(expression), dataStore);
+
+/**
+ * Names the branch a condition's value selects: `true`, `false`, `null`, a number or a string as written,
+ * or the JSON of an object or array.
+ *
+ * @param value - The value of a condition.
+ * @returns The branch name.
+ */
+export const branchKey = (value: unknown): string => (typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value));
+
+/**
+ * Tokenizes and parses a condition.
+ * @private
+ */
+const compile = (expression: string): Node => {
+    if (typeof expression !== 'string' || !expression.trim()) throw new Error('The condition is empty');
+    if (expression.length > MAX_EXPRESSION_LENGTH) throw new Error(`A condition may be at most ${MAX_EXPRESSION_LENGTH} characters long`);
+    return new Parser(tokenize(expression)).parse();
+};
@@ -4,9 +4,11 @@
  * It handles tasks such as testing prompts, generating SFL structures from goals, and regenerating prompts based on feedback.
  *
  * @requires ../types
+ * @requires ../types/aiProvider
  */
 
 import { PromptSFL, Workflow } from '../types';
+import { ComparisonConfig, ComparisonResult } from '../types/aiProvider';
 
 /**
  * @constant {string} API_BASE_URL - The base URL for the Gemini API endpoints.
@@ -47,6 +49,38 @@ export const testPromptWithGemini = async (promptText: string): Promise<string>
   return data.text;
 };
 
+/**
+ * Runs one prompt against several provider/model/parameter combinations side by side.
+ * A combination that fails comes back with an `error` rather than failing the whole comparison.
+ *
+ * @param {string} promptText - The prompt text, with any variables already filled in.
+ * @param {ComparisonConfig[]} configs - The combinations to compare (at most six).
+ * @returns {Promise<ComparisonResult[]>} A promise that resolves to one result per combination, in the same order.
+ * @throws {Error} Throws an error if the API response is not ok, e.g. for an unsupported provider.
+ *
+ * @example
+ * const [gemini, gpt] = await comparePrompt("Explain recursion to a child.", [
+ *   { provider: 'google', model: 'gemini-2.5-flash' },
+ *   { provider: 'openai', model: 'gpt-4o-mini', parameters: { temperature: 0.2 } }
+ * ]);
+ */
+export const comparePrompt = async (promptText: string, configs: ComparisonConfig[]): Promise<ComparisonResult[]> => {
+  const response = await fetch(`${API_BASE_URL}/compare-prompt`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ promptText, configs }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || 'Failed to compare prompt');
+  }
+  const data = await response.json();
+  return data.results;
+};
+
 /**
  * Generates a complete SFL (Systemic Functional Linguistics) prompt structure from a high-level user goal.
  * This is used for the "Prompt Wizard" feature.
@@ -0,0 +1,186 @@
+/**
+ * @file libraryApiService.ts
+ * @description This service module handles the tags, collections and snippets used to organize the prompt library
+ * by communicating with the backend API. Tags are attached to prompts through the prompt's own `tags`
+ * field; this module manages the tags themselves, the user's collection tree and the user's snippets.
+ *
+ * @requires ../types
+ * @requires ./authService
+ */
+
+import { Tag, Collection, PromptSnippet } from '../types';
+import authService from './authService';
+
+/**
+ * @constant {string} API_BASE_URL - The base URL for the API endpoints.
+ * @private
+ */
+const API_BASE_URL = '/api';
+
+/**
+ * Sends a JSON request and parses the JSON response, turning error responses into exceptions.
+ *
+ * @param {string} path - The path below the API base URL.
+ * @param {RequestInit} options - The fetch options.
+ * @param {string} fallbackMessage - The error message used when the server does not provide one.
+ * @returns {Promise<T>} A promise that resolves to the parsed response body, or `undefined` for 204 responses.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ * @private
+ */
+const requestJson = async <T>(path: string, options: RequestInit, fallbackMessage: string): Promise<T> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}${path}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || fallbackMessage);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+/**
+ * Fetches all tags with the number of prompts carrying each.
+ *
+ * @returns {Promise<Tag[]>} A promise that resolves to the tags, sorted by name.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const getTags = async (): Promise<Tag[]> =>
+  requestJson<Tag[]>('/tags', {}, 'Failed to fetch tags');
+
+/**
+ * Creates a tag.
+ *
+ * @param {string} name - The tag name.
+ * @returns {Promise<Tag>} A promise that resolves to the created tag.
+ * @throws {Error} Throws an error if the name is invalid or already taken.
+ */
+export const createTag = async (name: string): Promise<Tag> =>
+  requestJson<Tag>('/tags', { method: 'POST', body: JSON.stringify({ name }) }, 'Failed to create tag');
+
+/**
+ * Renames a tag created by the current user.
+ *
+ * @param {string} id - The ID of the tag.
+ * @param {string} name - The new name.
+ * @returns {Promise<Tag>} A promise that resolves to the renamed tag.
+ * @throws {Error} Throws an error if the tag was not created by the user or the name is taken.
+ */
+export const renameTag = async (id: string, name: string): Promise<Tag> =>
+  requestJson<Tag>(`/tags/${id}`, { method: 'PUT', body: JSON.stringify({ name }) }, 'Failed to rename tag');
+
+/**
+ * Deletes a tag created by the current user and removes it from every prompt.
+ *
+ * @param {string} id - The ID of the tag.
+ * @returns {Promise<void>} A promise that resolves once the tag is deleted.
+ * @throws {Error} Throws an error if the tag was not created by the user or the request fails.
+ */
+export const deleteTag = async (id: string): Promise<void> =>
+  requestJson<void>(`/tags/${id}`, { method: 'DELETE' }, 'Failed to delete tag');
+
+/**
+ * Fetches the current user's collections as a flat list. Use `parentId` to build the tree.
+ *
+ * @returns {Promise<Collection[]>} A promise that resolves to the collections, sorted by name.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const getCollections = async (): Promise<Collection[]> =>
+  requestJson<Collection[]>('/collections', {}, 'Failed to fetch collections');
+
+/**
+ * Creates a collection, optionally nested inside another one.
+ *
+ * @param {string} name - The collection name.
+ * @param {string | null} [parentId=null] - The ID of the enclosing collection, or `null` for a top-level collection.
+ * @returns {Promise<Collection>} A promise that resolves to the created collection.
+ * @throws {Error} Throws an error if the name is invalid or already used by a sibling.
+ *
+ * @example
+ * const billing = await createCollection('Billing');
+ * await createCollection('Refunds', billing.id);
+ */
+export const createCollection = async (name: string, parentId: string | null = null): Promise<Collection> =>
+  requestJson<Collection>('/collections', { method: 'POST', body: JSON.stringify({ name, parentId }) }, 'Failed to create collection');
+
+/**
+ * Renames a collection and/or moves it under another parent.
+ *
+ * @param {string} id - The ID of the collection.
+ * @param {{ name?: string; parentId?: string | null }} changes - The new name and/or parent; `parentId: null` moves it to the top level.
+ * @returns {Promise<Collection>} A promise that resolves to the updated collection.
+ * @throws {Error} Throws an error if the name is taken or the move would nest the collection inside itself.
+ */
+export const updateCollection = async (id: string, changes: { name?: string; parentId?: string | null }): Promise<Collection> =>
+  requestJson<Collection>(`/collections/${id}`, { method: 'PUT', body: JSON.stringify(changes) }, 'Failed to update collection');
+
+/**
+ * Deletes a collection and its sub-collections. The prompts inside are kept.
+ *
+ * @param {string} id - The ID of the collection.
+ * @returns {Promise<void>} A promise that resolves once the collection is deleted.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const deleteCollection = async (id: string): Promise<void> =>
+  requestJson<void>(`/collections/${id}`, { method: 'DELETE' }, 'Failed to delete collection');
+
+/**
+ * Places a prompt in a collection. Adding a prompt that is already there has no effect.
+ *
+ * @param {string} collectionId - The ID of the collection.
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<void>} A promise that resolves once the prompt is in the collection.
+ * @throws {Error} Throws an error if the collection or prompt cannot be found.
+ */
+export const addPromptToCollection = async (collectionId: string, promptId: string): Promise<void> =>
+  requestJson<void>(`/collections/${collectionId}/prompts/${promptId}`, { method: 'PUT' }, 'Failed to add prompt to collection');
+
+/**
+ * Takes a prompt out of a collection without deleting it.
+ *
+ * @param {string} collectionId - The ID of the collection.
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<void>} A promise that resolves once the prompt is removed.
+ * @throws {Error} Throws an error if the prompt is not in the collection.
+ */
+export const removePromptFromCollection = async (collectionId: string, promptId: string): Promise<void> =>
+  requestJson<void>(`/collections/${collectionId}/prompts/${promptId}`, { method: 'DELETE' }, 'Failed to remove prompt from collection');
+
+/**
+ * Fetches the current user's snippets.
+ *
+ * @returns {Promise<PromptSnippet[]>} A promise that resolves to the snippets, sorted by name.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const getSnippets = async (): Promise<PromptSnippet[]> =>
+  requestJson<PromptSnippet[]>('/snippets', {}, 'Failed to fetch snippets');
+
+/**
+ * Creates or updates a snippet. Snippets without an ID are created.
+ *
+ * @param {Pick<PromptSnippet, 'name' | 'description' | 'body'> & { id?: string }} snippet - The snippet to save.
+ * @returns {Promise<PromptSnippet>} A promise that resolves to the saved snippet.
+ * @throws {Error} Throws an error if the name is invalid or already used by another snippet.
+ *
+ * @example
+ * const preamble = await saveSnippet({ name: 'safety-preamble', description: '', body: 'Never share card numbers.' });
+ * // Prompts can now include it with {{> safety-preamble}}
+ */
+export const saveSnippet = async (snippet: Pick<PromptSnippet, 'name' | 'description' | 'body'> & { id?: string }): Promise<PromptSnippet> => {
+  const { id, ...fields } = snippet;
+  return requestJson<PromptSnippet>(
+    id ? `/snippets/${id}` : '/snippets',
+    { method: id ? 'PUT' : 'POST', body: JSON.stringify(fields) },
+    'Failed to save snippet'
+  );
+};
+
+/**
+ * Deletes a snippet. Prompts that still include it can no longer be rendered until the partial is removed.
+ *
+ * @param {string} id - The ID of the snippet.
+ * @returns {Promise<void>} A promise that resolves once the snippet is deleted.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const deleteSnippet = async (id: string): Promise<void> =>
+  requestJson<void>(`/snippets/${id}`, { method: 'DELETE' }, 'Failed to delete snippet');
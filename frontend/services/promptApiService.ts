@@ -1,12 +1,39 @@
 /**
  * @file promptApiService.ts
  * @description This service module handles all CRUD (Create, Read, Update, Delete) operations
- * for SFL prompts by communicating with the backend API.
+ * for SFL prompts by communicating with the backend API, as well as forking prompts and reading their lineage, translating prompts into locale variants, reviewing and commenting on prompts, importing and exporting prompt files
+ * linting unsaved prompts, rendering composed prompts, compiling them for a provider, managing their evaluation suites, running them for testing and judging the responses.
  *
  * @requires ../types
  */
 
-import { PromptSFL } from '../types';
+import {
+  PromptSFL,
+  PromptRevision,
+  PromptRevisionDiff,
+  PromptLineage,
+  PromptLocaleVariant,
+  Filters,
+  PromptSortField,
+  PromptPage,
+  SemanticSearchResult,
+  PromptExchangeFormat,
+  ImportConflictStrategy,
+  PromptImportResult,
+  PromptAnnotationItem,
+  LintDiagnostic,
+  EvalSuite,
+  EvalRun,
+  RenderedPrompt,
+  PromptCompileFormat,
+  CompiledPrompt,
+  PromptRun,
+  WorkflowReference,
+  PromptStatus,
+  PromptReview,
+  PromptComment,
+} from '../types';
+import { AIProvider, ModelParameters } from '../types/aiProvider';
 import authService from './authService';
 
 /**
@@ -17,25 +44,66 @@ import authService from './authService';
 const API_BASE_URL = '/api';
 
 /**
- * Fetches all SFL prompts from the backend API.
+ * @interface PromptPageRequest
+ * @description The options accepted by `getPrompts`: the active filters plus sorting and pagination.
+ * Empty filter values are omitted from the request.
+ */
+export interface PromptPageRequest extends Partial<Filters> {
+  sort?: PromptSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string | null;
+}
+
+/**
+ * Fetches one page of SFL prompts from the backend API.
+ * Filtering, full-text search and sorting are all performed by the server.
  *
- * @returns {Promise<PromptSFL[]>} A promise that resolves to an array of all prompts.
+ * @param {PromptPageRequest} [request={}] - Filters, sort order and the cursor of the page to fetch.
+ * @returns {Promise<PromptPage>} A promise that resolves to the page of prompts and the cursor for the next page.
  * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
  *
  * @example
  * async function loadPrompts() {
  *   try {
- *     const prompts = await getPrompts();
- *     setPrompts(prompts);
+ *     const page = await getPrompts({ taskType: 'Summarization', sort: 'title' });
+ *     setPrompts(page.items);
+ *     setCursor(page.nextCursor);
  *   } catch (error) {
  *     console.error(error.message);
  *   }
  * }
  */
-export const getPrompts = async (): Promise<PromptSFL[]> => {
-  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts`);
+export const getPrompts = async (request: PromptPageRequest = {}): Promise<PromptPage> => {
+  const params = new URLSearchParams();
+  Object.entries(request).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts${query ? `?${query}` : ''}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch prompts');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches a single prompt by its ID. When the current user owns the prompt,
+ * the response also lists the email addresses it is shared with.
+ *
+ * @param {string} id - The ID of the prompt.
+ * @returns {Promise<PromptSFL>} A promise that resolves to the prompt.
+ * @throws {Error} Throws an error if the prompt does not exist, is not visible to the user, or the request fails.
+ */
+export const getPromptById = async (id: string): Promise<PromptSFL> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${id}`);
   if (!response.ok) {
-    throw new Error('Failed to fetch prompts');
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch prompt');
   }
   return response.json();
 };
@@ -81,7 +149,7 @@ export const savePrompt = async (prompt: Omit<PromptSFL, 'id' | 'createdAt' | 'u
 };
 
 /**
- * Deletes a prompt from the backend using its unique ID.
+ * Deletes a prompt from the backend using its unique ID. The prompt goes to the trash, where it can be restored.
  *
  * @param {string} id - The ID of the prompt to be deleted.
  * @returns {Promise<void>} A promise that resolves when the deletion is successful.
@@ -104,4 +172,625 @@ export const deletePrompt = async (id: string): Promise<void> => {
   if (!response.ok && response.status !== 204) {
     throw new Error('Failed to delete prompt');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetches the revision history of a prompt, newest first.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptRevision[]>} A promise that resolves to the prompt's revisions.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ */
+export const getPromptRevisions = async (promptId: string): Promise<PromptRevision[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/revisions`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt history');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the field-by-field differences between two revisions of a prompt.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {number} fromRevision - The revision number to compare from.
+ * @param {number} toRevision - The revision number to compare to.
+ * @returns {Promise<PromptRevisionDiff>} A promise that resolves to the list of changed fields.
+ * @throws {Error} Throws an error if either revision does not exist or the request fails.
+ *
+ * @example
+ * const diff = await diffPromptRevisions(prompt.id, 1, 3);
+ * diff.changes.forEach(c => console.log(`${c.field}: ${c.from} -> ${c.to}`));
+ */
+export const diffPromptRevisions = async (promptId: string, fromRevision: number, toRevision: number): Promise<PromptRevisionDiff> => {
+  const response = await authService.authenticatedFetch(
+    `${API_BASE_URL}/prompts/${promptId}/revisions/diff?from=${fromRevision}&to=${toRevision}`
+  );
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || 'Failed to compare revisions');
+  }
+  return response.json();
+};
+
+/**
+ * Restores a prompt to the content of an earlier revision.
+ * The restored content is saved as a new revision, so no history is lost.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {number} revisionNumber - The revision to restore.
+ * @returns {Promise<PromptSFL>} A promise that resolves to the updated prompt.
+ * @throws {Error} Throws an error if the prompt or revision does not exist or the request fails.
+ */
+export const rollbackPromptRevision = async (promptId: string, revisionNumber: number): Promise<PromptSFL> => {
+  const response = await authService.authenticatedFetch(
+    `${API_BASE_URL}/prompts/${promptId}/revisions/${revisionNumber}/rollback`,
+    { method: 'POST' }
+  );
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || 'Failed to restore revision');
+  }
+  return response.json();
+};
+
+/**
+ * Forks a prompt into a new private prompt owned by the current user.
+ *
+ * @param {string} promptId - The ID of the prompt to fork.
+ * @param {string} [title] - The title of the fork; the server appends "(fork)" to the source's title by default.
+ * @returns {Promise<PromptSFL>} A promise that resolves to the new prompt.
+ * @throws {Error} Throws an error if the prompt is not visible or the request fails.
+ */
+export const forkPrompt = async (promptId: string, title?: string): Promise<PromptSFL> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/fork`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(title ? { title } : {}),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fork prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the fork lineage of a prompt: the prompts it was forked from and the forks made of it.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptLineage>} A promise that resolves to the lineage.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const getPromptLineage = async (promptId: string): Promise<PromptLineage> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/lineage`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt lineage');
+  }
+  return response.json();
+};
+
+/**
+ * Translates a prompt into another locale through the configured provider and saves the translation as a
+ * locale variant of it. The server rejects a translation that lost or altered a placeholder.
+ *
+ * @param {string} promptId - The ID of the prompt to translate.
+ * @param {string} locale - The language tag to translate into, e.g. `de` or `pt-BR`.
+ * @param {{ provider?: AIProvider; model?: string; parameters?: ModelParameters }} [config] - The provider configuration;
+ * the default Gemini model is used without it.
+ * @returns {Promise<PromptSFL>} A promise that resolves to the new variant.
+ * @throws {Error} Throws an error with the server's message if the locale is taken, the provider fails or a placeholder did not survive.
+ */
+export const translatePrompt = async (
+  promptId: string,
+  locale: string,
+  config?: { provider?: AIProvider; model?: string; parameters?: ModelParameters }
+): Promise<PromptSFL> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/translations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ locale, ...config }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to translate prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the locale siblings of a prompt: its source prompt and the variants translated from it.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptLocaleVariant[]>} A promise that resolves to the siblings, source first.
+ * @throws {Error} Throws an error if the request fails.
+ */
+export const getPromptLocales = async (promptId: string): Promise<PromptLocaleVariant[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/locales`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt locales');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the review status, reviewer and status history of a prompt.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptReview>} A promise that resolves to the prompt's review state.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ */
+export const getPromptReview = async (promptId: string): Promise<PromptReview> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/review`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch the review status');
+  }
+  return response.json();
+};
+
+/**
+ * Assigns the reviewer of a prompt, or removes the reviewer. Only the owner can do this.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string | null} reviewer - The reviewer's email address, or null to remove the reviewer.
+ * @returns {Promise<PromptReview>} A promise that resolves to the updated review state.
+ * @throws {Error} Throws an error if the reviewer is unknown, cannot see the prompt, or the request fails.
+ */
+export const assignPromptReviewer = async (promptId: string, reviewer: string | null): Promise<PromptReview> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/review/reviewer`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewer }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to assign the reviewer');
+  }
+  return response.json();
+};
+
+/**
+ * Moves a prompt to another review status.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {PromptStatus} status - The status to move to.
+ * @param {string} [note] - An optional note recorded with the change.
+ * @returns {Promise<PromptReview>} A promise that resolves to the updated review state.
+ * @throws {Error} Throws an error if the change is not allowed or the request fails.
+ */
+export const changePromptStatus = async (promptId: string, status: PromptStatus, note?: string): Promise<PromptReview> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/review/status`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, note }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to change the status');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the review comments on a prompt, oldest first.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptComment[]>} A promise that resolves to the comments.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ */
+export const getPromptComments = async (promptId: string): Promise<PromptComment[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/comments`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch comments');
+  }
+  return response.json();
+};
+
+/**
+ * Adds a review comment to a prompt.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} body - The comment text.
+ * @param {string} [parentId] - The ID of the comment being answered, if any.
+ * @returns {Promise<PromptComment>} A promise that resolves to the new comment.
+ * @throws {Error} Throws an error if the comment is empty or the request fails.
+ */
+export const addPromptComment = async (promptId: string, body: string, parentId?: string): Promise<PromptComment> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ body, parentId }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to add the comment');
+  }
+  return response.json();
+};
+
+/**
+ * Lists the workflows with a task that runs a prompt, so the user can be warned before deleting it.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<WorkflowReference[]>} A promise that resolves to the workflows, ordered by name.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ */
+export const getPromptWorkflows = async (promptId: string): Promise<WorkflowReference[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/workflows`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch the workflows using this prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Finds the prompts whose meaning is closest to a free-text query, using the server's prompt embeddings.
+ *
+ * @param {string} query - The text to search for.
+ * @param {number} [limit] - The maximum number of results.
+ * @returns {Promise<SemanticSearchResult[]>} A promise that resolves to the nearest prompts, most similar first.
+ * @throws {Error} Throws an error if the query is empty or the request fails.
+ */
+export const searchPromptsSemantic = async (query: string, limit?: number): Promise<SemanticSearchResult[]> => {
+  const params = new URLSearchParams({ q: query });
+  if (limit !== undefined) params.set('limit', String(limit));
+
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/search/semantic?${params}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || 'Failed to search prompts');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the prompts most similar to an existing prompt, which helps spot duplicates.
+ *
+ * @param {string} promptId - The ID of the reference prompt.
+ * @param {number} [limit] - The maximum number of results.
+ * @returns {Promise<SemanticSearchResult[]>} A promise that resolves to the similar prompts, most similar first.
+ * @throws {Error} Throws an error if the prompt does not exist or the request fails.
+ *
+ * @example
+ * const similar = await getSimilarPrompts(prompt.id, 5);
+ * similar.forEach(s => console.log(s.prompt.title, Math.round(s.similarity * 100) + '%'));
+ */
+export const getSimilarPrompts = async (promptId: string, limit?: number): Promise<SemanticSearchResult[]> => {
+  const query = limit !== undefined ? `?limit=${limit}` : '';
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/similar${query}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || 'Failed to find similar prompts');
+  }
+  return response.json();
+};
+
+/**
+ * Exports prompts as a file in one of the interchange formats.
+ *
+ * @param {PromptExchangeFormat} format - The file format.
+ * @param {string[]} [ids] - The prompts to export; omit to export every prompt the user can see.
+ * @returns {Promise<{ blob: Blob; filename: string }>} A promise that resolves to the file and the name the server suggests for it.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ *
+ * @example
+ * const { blob, filename } = await exportPrompts('markdown', [prompt.id]);
+ */
+export const exportPrompts = async (format: PromptExchangeFormat, ids?: string[]): Promise<{ blob: Blob; filename: string }> => {
+  const params = new URLSearchParams({ format });
+  if (ids?.length) params.set('ids', ids.join(','));
+
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/export?${params.toString()}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to export prompts');
+  }
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `sfl-prompts.${format}`;
+  return { blob: await response.blob(), filename };
+};
+
+/**
+ * Imports prompts from the text of a file, or previews the import.
+ * The server validates every prompt and reports conflicts with existing prompts, duplicates and invalid SFL fields.
+ *
+ * @param {object} request - The import request.
+ * @param {string} request.content - The text of the file.
+ * @param {PromptExchangeFormat} [request.format] - The file format; detected by the server when omitted.
+ * @param {boolean} [request.dryRun=false] - If true, nothing is written and the report describes what would happen.
+ * @param {ImportConflictStrategy} [request.onConflict='skip'] - What to do with prompts whose ID already exists.
+ * @param {Record<number, Record<string, string>>} [request.annotations] - Accepted SFL field values, by the index of the prompt in the file
+ * and then by field path; they take precedence over what the file declares.
+ * @returns {Promise<PromptImportResult>} A promise that resolves to the per-prompt report.
+ * @throws {Error} Throws an error if the file cannot be read or the request fails.
+ */
+export const importPrompts = async (request: {
+  content: string;
+  format?: PromptExchangeFormat;
+  dryRun?: boolean;
+  onConflict?: ImportConflictStrategy;
+  annotations?: Record<number, Record<string, string>>;
+}): Promise<PromptImportResult> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to import prompts');
+  }
+  return response.json();
+};
+
+/**
+ * Infers the SFL fields that the prompts of an import file leave empty, without changing the prompt text.
+ * The server annotates at most 20 prompts per request, so larger files are annotated in batches of `indexes`.
+ *
+ * @param {object} request - The annotation request.
+ * @param {string} request.content - The text of the file.
+ * @param {PromptExchangeFormat} [request.format] - The file format; detected by the server when omitted.
+ * @param {number[]} [request.indexes] - The positions in the file of the prompts to annotate; all prompts when omitted.
+ * @param {{ provider?: AIProvider; model?: string; parameters?: ModelParameters }} [config] - The provider configuration;
+ * the default Gemini model is used without it.
+ * @returns {Promise<PromptAnnotationItem[]>} A promise that resolves to the suggestions for each requested prompt.
+ * @throws {Error} Throws an error if the file cannot be read or the request fails.
+ */
+export const annotateImport = async (
+  request: { content: string; format?: PromptExchangeFormat; indexes?: number[] },
+  config?: { provider?: AIProvider; model?: string; parameters?: ModelParameters }
+): Promise<PromptAnnotationItem[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/import/annotations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, ...config }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to annotate prompts');
+  }
+  return response.json();
+};
+
+/**
+ * Checks a prompt for inconsistencies between its SFL fields and its text. Linting is rule-based,
+ * so it is fast enough to run while the prompt is being edited.
+ *
+ * @param {Partial<PromptSFL>} prompt - The prompt to check; it does not need to be saved.
+ * @returns {Promise<LintDiagnostic[]>} A promise that resolves to the findings, errors first.
+ * @throws {Error} Throws an error if the network response is not ok.
+ */
+export const lintPrompt = async (prompt: Partial<PromptSFL>): Promise<LintDiagnostic[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/lint`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(prompt),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to lint prompt');
+  }
+  const data: { diagnostics: LintDiagnostic[] } = await response.json();
+  return data.diagnostics;
+};
+
+/**
+ * Fetches a prompt as the server sends it to a model, with its base prompts and `{{> name}}` partials resolved.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<RenderedPrompt>} A promise that resolves to the rendered prompt.
+ * @throws {Error} Throws an error with the server's message if the prompt cannot be rendered, e.g. because of a missing snippet or a cycle.
+ */
+export const getRenderedPrompt = async (promptId: string): Promise<RenderedPrompt> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/rendered`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to render prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches a preview of a prompt compiled into the message layout of a provider. Variables are left unfilled.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {PromptCompileFormat} format - The layout to compile into.
+ * @returns {Promise<CompiledPrompt>} A promise that resolves to the system and user messages.
+ * @throws {Error} Throws an error with the server's message if the prompt cannot be rendered.
+ */
+export const getCompiledPrompt = async (promptId: string, format: PromptCompileFormat): Promise<CompiledPrompt> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/compiled?format=${format}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to compile prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the evaluation suites of a prompt.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<EvalSuite[]>} A promise that resolves to the suites, ordered by name.
+ * @throws {Error} Throws an error if the network response is not ok.
+ */
+export const getEvalSuites = async (promptId: string): Promise<EvalSuite[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/eval-suites`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch evaluation suites');
+  }
+  return response.json();
+};
+
+/**
+ * Creates or updates an evaluation suite of a prompt. Suites without an ID are created.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {Pick<EvalSuite, 'name' | 'description' | 'cases'> & { id?: string }} suite - The suite to save.
+ * @returns {Promise<EvalSuite>} A promise that resolves to the saved suite, with IDs assigned to new test cases.
+ * @throws {Error} Throws an error with the server's validation message if the suite cannot be saved.
+ */
+export const saveEvalSuite = async (
+  promptId: string,
+  suite: Pick<EvalSuite, 'name' | 'description' | 'cases'> & { id?: string }
+): Promise<EvalSuite> => {
+  const { id, ...fields } = suite;
+  const response = await authService.authenticatedFetch(
+    `${API_BASE_URL}/prompts/${promptId}/eval-suites${id ? `/${id}` : ''}`,
+    {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields),
+    }
+  );
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to save evaluation suite');
+  }
+  return response.json();
+};
+
+/**
+ * Deletes an evaluation suite together with its run history.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} suiteId - The ID of the suite.
+ * @returns {Promise<void>} A promise that resolves when the suite is deleted.
+ * @throws {Error} Throws an error if the network response is not ok.
+ */
+export const deleteEvalSuite = async (promptId: string, suiteId: string): Promise<void> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/eval-suites/${suiteId}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok && response.status !== 204) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to delete evaluation suite');
+  }
+};
+
+/**
+ * Runs every test case of an evaluation suite against a provider and model. The server records the run.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} suiteId - The ID of the suite.
+ * @param {{ provider: AIProvider; model: string; parameters?: ModelParameters }} config - The provider, model and parameters to run with.
+ * @returns {Promise<EvalRun>} A promise that resolves to the recorded run with per-case results.
+ * @throws {Error} Throws an error if the suite cannot be run.
+ */
+export const runEvalSuite = async (
+  promptId: string,
+  suiteId: string,
+  config: { provider: AIProvider; model: string; parameters?: ModelParameters }
+): Promise<EvalRun> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/eval-suites/${suiteId}/runs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to run evaluation suite');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the recorded runs of an evaluation suite, newest first.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} suiteId - The ID of the suite.
+ * @returns {Promise<EvalRun[]>} A promise that resolves to the runs.
+ * @throws {Error} Throws an error if the network response is not ok.
+ */
+export const getEvalRuns = async (promptId: string, suiteId: string): Promise<EvalRun[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/eval-suites/${suiteId}/runs`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch evaluation runs');
+  }
+  return response.json();
+};
+
+/**
+ * Runs a prompt on the server and records the run in its history. The server renders the prompt and fills in
+ * the variables itself; a failed model call still resolves, with the run's `error` set.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {Record<string, string>} variables - The values of the prompt's variables.
+ * @param {{ provider?: AIProvider; model?: string; parameters?: ModelParameters; format?: PromptCompileFormat }} [config] - The provider
+ * configuration and the layout to compile the prompt into; the default Gemini model and plain text are used without them.
+ * @returns {Promise<PromptRun>} A promise that resolves to the recorded run.
+ * @throws {Error} Throws an error with the server's message if the prompt cannot be rendered or a required variable is missing.
+ */
+export const runPrompt = async (
+  promptId: string,
+  variables: Record<string, string>,
+  config?: { provider?: AIProvider; model?: string; parameters?: ModelParameters; format?: PromptCompileFormat }
+): Promise<PromptRun> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/runs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ variables, ...config }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to run prompt');
+  }
+  return response.json();
+};
+
+/**
+ * Fetches the recorded test runs of a prompt, newest first: every run for the prompt's owner, the user's own runs
+ * for anyone else. Requires authentication.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @returns {Promise<PromptRun[]>} A promise that resolves to the runs.
+ * @throws {Error} Throws an error if the network response is not ok.
+ */
+export const getPromptRuns = async (promptId: string): Promise<PromptRun[]> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/runs`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch test runs');
+  }
+  return response.json();
+};
+
+/**
+ * Has a judge model grade the response of a test run against the prompt's SFL declaration. The rubric is stored
+ * with the run, replacing an earlier one.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} runId - The ID of the run.
+ * @param {{ provider?: AIProvider; model?: string }} [judge] - The judge model; the server's configured judge is used without it.
+ * @returns {Promise<PromptRun>} A promise that resolves to the run with its `judgement`.
+ * @throws {Error} Throws an error with the server's message, e.g. if the run failed or the prompt declares nothing to judge against.
+ */
+export const judgePromptRun = async (promptId: string, runId: string, judge?: { provider?: AIProvider; model?: string }): Promise<PromptRun> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/runs/${runId}/judgement`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(judge ?? {}),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to judge run');
+  }
+  return response.json();
+};
+
+/**
+ * Makes the response of a test run the prompt's example output.
+ *
+ * @param {string} promptId - The ID of the prompt.
+ * @param {string} runId - The ID of the run.
+ * @returns {Promise<PromptSFL>} A promise that resolves to the updated prompt.
+ * @throws {Error} Throws an error with the server's message, e.g. if the run failed or the user may not edit the prompt.
+ */
+export const pinPromptRun = async (promptId: string, runId: string): Promise<PromptSFL> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/prompts/${promptId}/runs/${runId}/pin`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to pin run');
+  }
+  return response.json();
+};
@@ -0,0 +1,227 @@
+/**
+ * @file tokenEstimator.ts
+ * @description Estimates how many tokens a prompt uses and what running it will cost, before it is sent.
+ * Tokens are counted per provider family: OpenAI models are counted exactly with their own BPE encoding,
+ * which is loaded on first use, while Gemini and Claude models, whose tokenizers are not available in the
+ * browser, are estimated from the length of the text. Costs come from the pricing in `modelCapabilities`.
+ *
+ * @requires ../types
+ * @requires ../types/aiProvider
+ * @requires ../config/modelCapabilities
+ * @since 0.6.0
+ */
+
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { PromptSFL, TaskType, Workflow } from '../types';
+import { AIProvider, CostEstimate, WorkflowCostEstimate } from '../types/aiProvider';
+import { getModelInfo, PROVIDER_CONFIGS } from '../config/modelCapabilities';
+
+/**
+ * @typedef {'openai' | 'gemini' | 'claude' | 'generic'} TokenizerFamily
+ * @description The family of tokenizers a model belongs to.
+ */
+export type TokenizerFamily = 'openai' | 'gemini' | 'claude' | 'generic';
+
+/**
+ * @constant {Record<string, number>} CHARS_PER_TOKEN - Average number of ASCII characters per token for the
+ * families that are estimated heuristically. Other characters are counted as a token each, which is close for
+ * CJK scripts and errs on the high side for accented Latin text.
+ * @private
+ */
+const CHARS_PER_TOKEN: Record<Exclude<TokenizerFamily, 'openai'>, number> = {
+  gemini: 4,
+  claude: 3.5,
+  generic: 4,
+};
+
+/**
+ * @constant {number} IMAGE_INPUT_TOKENS - The tokens Gemini bills for an image of up to 384x384 pixels;
+ * larger images are split into tiles of this size.
+ * @private
+ */
+const IMAGE_INPUT_TOKENS = 258;
+
+/**
+ * @constant {string} WORKFLOW_DEFAULT_MODEL - The model the server runs workflow tasks on when they do not choose one.
+ * @private
+ */
+const WORKFLOW_DEFAULT_MODEL = 'gemini-1.5-flash';
+
+/**
+ * @constant {TaskType[]} AI_TASK_TYPES - The workflow task types that call a model and therefore cost money.
+ * @private
+ */
+const AI_TASK_TYPES: TaskType[] = [TaskType.GEMINI_PROMPT, TaskType.GEMINI_GROUNDED, TaskType.IMAGE_ANALYSIS, TaskType.LLM_PROMPT];
+
+/**
+ * The OpenAI encoder, loaded on first use so that its vocabulary does not weigh down the initial bundle.
+ * @private
+ */
+let openAIEncoder: Promise<Tiktoken> | null = null;
+
+/**
+ * Loads the `o200k_base` encoding used by GPT-4o and the o1 models.
+ *
+ * @returns {Promise<Tiktoken>} A promise that resolves to the encoder.
+ * @private
+ */
+const loadOpenAIEncoder = (): Promise<Tiktoken> => {
+  openAIEncoder ??= Promise.all([import('js-tiktoken/lite'), import('js-tiktoken/ranks/o200k_base')])
+    .then(([{ Tiktoken }, { default: ranks }]) => new Tiktoken(ranks))
+    .catch(error => {
+      // Let the next call try again, e.g. after a network hiccup while loading the chunk
+      openAIEncoder = null;
+      throw error;
+    });
+  return openAIEncoder;
+};
+
+/**
+ * Estimates the token count of a text from its length.
+ *
+ * @param {string} text - The text.
+ * @param {number} charsPerToken - The family's average number of ASCII characters per token.
+ * @returns {number} The estimated number of tokens.
+ * @private
+ */
+const estimateTokens = (text: string, charsPerToken: number): number => {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / charsPerToken + other);
+};
+
+/**
+ * Determines which tokenizer a model uses. OpenRouter model IDs are prefixed with the vendor, e.g. `openai/gpt-4o`.
+ *
+ * @param {AIProvider} provider - The provider the model is run through.
+ * @param {string} model - The model ID.
+ * @returns {TokenizerFamily} The model's tokenizer family.
+ */
+export function getTokenizerFamily(provider: AIProvider, model: string): TokenizerFamily {
+  const vendor = provider === 'openrouter' ? model.split('/')[0] : provider;
+  switch (vendor) {
+    case 'openai':
+      return 'openai';
+    case 'google':
+      return 'gemini';
+    case 'anthropic':
+      return 'claude';
+    default:
+      return 'generic';
+  }
+}
+
+/**
+ * Counts the tokens of a text for a model, exactly where the model's tokenizer is available.
+ * If the OpenAI encoding cannot be loaded, the count falls back to an estimate.
+ *
+ * @param {string} text - The text.
+ * @param {AIProvider} provider - The provider the model is run through.
+ * @param {string} model - The model ID.
+ * @returns {Promise<{ tokens: number; exact: boolean }>} A promise that resolves to the token count and whether it is exact.
+ *
+ * @example
+ * ```typescript
+ * await countTokens('Summarize the report.', 'openai', 'gpt-4o');           // { tokens: 6, exact: true }
+ * await countTokens('Summarize the report.', 'google', 'gemini-2.5-flash'); // { tokens: 6, exact: false }
+ * ```
+ */
+export async function countTokens(text: string, provider: AIProvider, model: string): Promise<{ tokens: number; exact: boolean }> {
+  const family = getTokenizerFamily(provider, model);
+  if (family === 'openai') {
+    try {
+      const encoder = await loadOpenAIEncoder();
+      return { tokens: encoder.encode(text).length, exact: true };
+    } catch (error) {
+      console.warn('Failed to load the OpenAI tokenizer, estimating instead:', error);
+      return { tokens: estimateTokens(text, CHARS_PER_TOKEN.generic), exact: false };
+    }
+  }
+  return { tokens: estimateTokens(text, CHARS_PER_TOKEN[family]), exact: false };
+}
+
+/**
+ * Estimates the cost of running a prompt: the cost of its input, and the most its output can cost.
+ *
+ * @param {string} text - The full text sent to the model.
+ * @param {AIProvider} provider - The provider the model is run through.
+ * @param {string} model - The model ID.
+ * @param {number} [maxOutputTokens] - The output limit of the run; defaults to the model's default limit.
+ * @returns {Promise<CostEstimate>} A promise that resolves to the estimate.
+ */
+export async function estimatePromptCost(text: string, provider: AIProvider, model: string, maxOutputTokens?: number): Promise<CostEstimate> {
+  const modelInfo = getModelInfo(provider, model);
+  const outputLimit = maxOutputTokens ?? modelInfo?.constraints.maxTokens?.default ?? 0;
+  const { tokens, exact } = await countTokens(text, provider, model);
+  const pricing = modelInfo?.pricing;
+
+  return {
+    provider,
+    model,
+    inputTokens: tokens,
+    exact,
+    maxOutputTokens: outputLimit,
+    inputCost: pricing ? (tokens / 1_000_000) * pricing.input : null,
+    maxOutputCost: pricing ? (outputLimit / 1_000_000) * pricing.output : null,
+  };
+}
+
+/**
+ * Estimates the cost of one run of a workflow, summed over its GEMINI_PROMPT, GEMINI_GROUNDED, IMAGE_ANALYSIS and
+ * LLM_PROMPT tasks. Task prompts are counted as written: the values filled into their `{{placeholders}}` at run time
+ * are not known yet and are not included. Since the server does not limit the output of workflow tasks, each task's
+ * output is bounded by its model's maximum, unless an LLM_PROMPT task sets `maxTokens` in its parameters.
+ *
+ * @param {Workflow} workflow - The workflow.
+ * @param {PromptSFL[]} prompts - The library prompts that tasks can link to.
+ * @returns {Promise<WorkflowCostEstimate>} A promise that resolves to the per-task and total estimates.
+ */
+export async function estimateWorkflowCost(workflow: Workflow, prompts: PromptSFL[]): Promise<WorkflowCostEstimate> {
+  const aiTasks = workflow.tasks.filter(task => AI_TASK_TYPES.includes(task.type));
+
+  const tasks = await Promise.all(aiTasks.map(async task => {
+    const provider: AIProvider = task.type === TaskType.LLM_PROMPT ? task.agentConfig?.provider ?? 'google' : 'google';
+    const model = task.agentConfig?.model || (provider === 'google' ? WORKFLOW_DEFAULT_MODEL : PROVIDER_CONFIGS[provider].models[0]?.id ?? '');
+    const linkedPrompt = (task.type === TaskType.GEMINI_PROMPT || task.type === TaskType.LLM_PROMPT) && task.promptId
+      ? prompts.find(prompt => prompt.id === task.promptId)
+      : undefined;
+    const text = [task.agentConfig?.systemInstruction, linkedPrompt?.promptText ?? task.promptTemplate]
+      .filter(Boolean)
+      .join('\n');
+
+    const outputLimit = task.agentConfig?.parameters?.maxTokens ?? getModelInfo(provider, model)?.constraints.maxTokens?.max;
+    const estimate = await estimatePromptCost(text, provider, model, outputLimit);
+    if (task.type === TaskType.IMAGE_ANALYSIS) {
+      const pricing = getModelInfo('google', model)?.pricing;
+      estimate.inputTokens += IMAGE_INPUT_TOKENS;
+      estimate.inputCost = pricing ? (estimate.inputTokens / 1_000_000) * pricing.input : null;
+    }
+    return { ...estimate, taskId: task.id, taskName: task.name };
+  }));
+
+  const priced = tasks.filter(task => task.inputCost !== null && task.maxOutputCost !== null);
+  return {
+    tasks,
+    inputTokens: tasks.reduce((sum, task) => sum + task.inputTokens, 0),
+    maxOutputTokens: tasks.reduce((sum, task) => sum + task.maxOutputTokens, 0),
+    totalCost: priced.length ? priced.reduce((sum, task) => sum + task.inputCost! + task.maxOutputCost!, 0) : null,
+    unpricedTasks: tasks.filter(task => !priced.includes(task)).map(task => task.taskName),
+  };
+}
+
+/**
+ * Formats a cost in USD with enough precision to show fractions of a cent.
+ *
+ * @param {number} cost - The cost in USD.
+ * @returns {string} The formatted cost, e.g. `$0.00042`.
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.0001) return '<$0.0001';
+  if (cost >= 0.01) return `$${cost.toFixed(2)}`;
+  return `$${cost.toPrecision(2)}`;
+}
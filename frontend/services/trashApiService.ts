@@ -0,0 +1,65 @@
+/**
+ * @file trashApiService.ts
+ * @description This service module handles the trash that deleted prompts and server-side workflows are moved to,
+ * by communicating with the backend API. Items in the trash can be restored or purged for good, and are purged
+ * automatically once the server's retention period has passed.
+ *
+ * @requires ../types
+ * @requires ./authService
+ */
+
+import { TrashItem, TrashItemType } from '../types';
+import authService from './authService';
+
+/**
+ * @constant {string} API_BASE_URL - The base URL for the trash API endpoints.
+ * @private
+ */
+const API_BASE_URL = '/api/trash';
+
+/**
+ * Fetches the items in the current user's trash.
+ *
+ * @returns {Promise<TrashItem[]>} A promise that resolves to the trashed items, most recently deleted first.
+ * @throws {Error} Throws an error if the network request fails or the server returns a non-ok response.
+ */
+export const getTrash = async (): Promise<TrashItem[]> => {
+  const response = await authService.authenticatedFetch(API_BASE_URL);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch the trash');
+  }
+  return response.json();
+};
+
+/**
+ * Takes a prompt or workflow out of the trash.
+ *
+ * @param {TrashItemType} type - Whether the item is a prompt or a workflow.
+ * @param {string} id - The ID of the item.
+ * @returns {Promise<void>} A promise that resolves once the item is restored.
+ * @throws {Error} Throws an error if the item is no longer in the trash or the request fails.
+ */
+export const restoreTrashItem = async (type: TrashItemType, id: string): Promise<void> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/${type}/${id}/restore`, { method: 'POST' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to restore the item');
+  }
+};
+
+/**
+ * Permanently deletes a prompt or workflow that is in the trash.
+ *
+ * @param {TrashItemType} type - Whether the item is a prompt or a workflow.
+ * @param {string} id - The ID of the item.
+ * @returns {Promise<void>} A promise that resolves once the item is gone.
+ * @throws {Error} Throws an error if the item is no longer in the trash or the request fails.
+ */
+export const purgeTrashItem = async (type: TrashItemType, id: string): Promise<void> => {
+  const response = await authService.authenticatedFetch(`${API_BASE_URL}/${type}/${id}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to delete the item');
+  }
+};
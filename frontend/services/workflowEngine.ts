@@ -7,8 +7,9 @@
  * @requires ../types
  */
 
-import { Task, DataStore, PromptSFL, Workflow } from '../types';
+import { Task, DataStore, PromptSFL, Workflow, TaskStateMap, TaskStatus, TaskType, MapItemState } from '../types';
 import authService from './authService';
+import { branchKey, evaluateCondition } from './conditionExpression';
 
 /**
  * @constant {string} API_BASE_URL - The base URL for the workflow-related API endpoints.
@@ -16,6 +17,26 @@ import authService from './authService';
  */
 const API_BASE_URL = '/api/workflows';
 
+/**
+ * @constant {number} DEFAULT_MAP_CONCURRENCY - The number of items a `MAP` task processes at once when it does not set `concurrency`.
+ */
+export const DEFAULT_MAP_CONCURRENCY = 4;
+
+/**
+ * @constant {number} MAX_MAP_CONCURRENCY - The most items a `MAP` task may process at once.
+ */
+export const MAX_MAP_CONCURRENCY = 20;
+
+/**
+ * @constant {number} MAX_MAP_ITEMS - The most items a `MAP` task may run over, the same limit the server enforces.
+ */
+export const MAX_MAP_ITEMS = 500;
+
+/**
+ * @constant {number} TEXT_MANIPULATION_TIMEOUT_MS - How long the server lets the function of a `TEXT_MANIPULATION` task run, in milliseconds.
+ */
+export const TEXT_MANIPULATION_TIMEOUT_MS = 1000;
+
 /**
  * Safely retrieves a nested value from an object using a dot-notation path.
  * This is a utility function to access data within the `DataStore`.
@@ -66,22 +87,73 @@ const templateString = (template: string, dataStore: DataStore): any => {
 };
 
 /**
- * Executes a string of JavaScript code as a function body for `TEXT_MANIPULATION` tasks.
- * The function is sandboxed and receives an `inputs` object with the resolved dependencies.
+ * Runs a `MAP` task: the subtasks run in order for every item of the task's array, on a copy of the data store that
+ * holds the item as `item` and its position as `itemIndex`. Up to the task's `concurrency` items run at once, and once
+ * an item fails no further items are started.
  *
- * @param {string} funcBody - The string of JavaScript code to execute.
- * @param {Record<string, any>} inputs - An object containing input values accessible to the function via `inputs.key`.
- * @returns {*} The result of the executed function.
- * @throws {Error} Throws an error if the custom function code fails during execution.
+ * @param {Task} task - The `MAP` task.
+ * @param {DataStore} dataStore - The current state of the workflow's data store.
+ * @param {PromptSFL[]} prompts - The library of available SFL prompts, for subtasks that reference them.
+ * @param {string | undefined} workflowId - The ID of the running workflow, whose stored settings the server applies to the subtasks.
+ * @param {(index: number, total: number, state: MapItemState) => void} [onMapItem] - Called whenever an item starts, completes or fails.
+ * @returns {Promise<any[]>} A promise that resolves with the result of every item, in the order of the items.
+ * @throws {Error} Throws an error if the array is missing or too long, the subtasks have no single result task, or an item fails.
  * @private
  */
-const executeTextManipulation = (funcBody: string, inputs: Record<string, any>): any => {
-    try {
-        const func = new Function('inputs', funcBody);
-        return func(inputs);
-    } catch (e: any) {
-        throw new Error(`Error in custom function: ${e.message}`);
+const executeMapTask = async (
+    task: Task,
+    dataStore: DataStore,
+    prompts: PromptSFL[],
+    workflowId: string | undefined,
+    onMapItem?: (index: number, total: number, state: MapItemState) => void
+): Promise<any[]> => {
+    if (!task.itemsKey) throw new Error("Items key is missing.");
+    const items = getNested(dataStore, task.itemsKey);
+    if (!Array.isArray(items)) throw new Error(`"${task.itemsKey}" is not an array in the Data Store.`);
+    if (items.length > MAX_MAP_ITEMS) {
+        throw new Error(`A MAP task may run over at most ${MAX_MAP_ITEMS} items; "${task.itemsKey}" has ${items.length}.`);
     }
+
+    const subtasks = task.subtasks || [];
+    const resultTasks = subtasks.filter(subtask => !subtasks.some(other => other.dependencies.includes(subtask.id)));
+    if (resultTasks.length !== 1) throw new Error("The subtasks must end in a single task whose output is the result of each item.");
+    const { sortedTasks, feedback } = topologicalSort(subtasks);
+    if (sortedTasks.length === 0) throw new Error(feedback.join(', '));
+
+    const results: any[] = new Array(items.length).fill(null);
+    const concurrency = Math.max(1, Math.min(task.concurrency ?? DEFAULT_MAP_CONCURRENCY, MAX_MAP_CONCURRENCY));
+    let nextIndex = 0;
+    let failure: Error | undefined;
+
+    const runItems = async () => {
+        while (!failure && nextIndex < items.length) {
+            const index = nextIndex++;
+            onMapItem?.(index, items.length, { status: TaskStatus.RUNNING });
+            const itemStore: DataStore = { ...dataStore, item: items[index], itemIndex: index };
+            const states: TaskStateMap = {};
+            try {
+                for (const subtask of sortedTasks) {
+                    if (getSkipReason(subtask, subtasks, states)) {
+                        itemStore[subtask.outputKey] = null;
+                        states[subtask.id] = { status: TaskStatus.SKIPPED };
+                        continue;
+                    }
+                    const result = await executeTask(subtask, itemStore, prompts, workflowId);
+                    itemStore[subtask.outputKey] = result;
+                    states[subtask.id] = { status: TaskStatus.COMPLETED, result };
+                }
+                results[index] = itemStore[resultTasks[0].outputKey] ?? null;
+                onMapItem?.(index, items.length, { status: TaskStatus.COMPLETED, result: results[index] });
+            } catch (error: any) {
+                failure = failure ?? new Error(`Item ${index}: ${error.message}`);
+                onMapItem?.(index, items.length, { status: TaskStatus.FAILED, error: error.message });
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runItems));
+    if (failure) throw failure;
+    return results;
 };
 
 /**
@@ -92,28 +164,28 @@ const executeTextManipulation = (funcBody: string, inputs: Record<string, any>):
  * @param {Task} task - The task object to execute.
  * @param {DataStore} dataStore - The current state of the workflow's data store, used to resolve inputs.
  * @param {PromptSFL[]} prompts - The library of available SFL prompts, needed for tasks that reference them.
+ * @param {string} [workflowId] - The ID of the running workflow. The server reads from the stored workflow whether it only runs approved prompts.
+ * @param {(index: number, total: number, state: MapItemState) => void} [onMapItem] - For a `MAP` task, called whenever an item starts, completes or fails.
  * @returns {Promise<any>} A promise that resolves with the task's output.
  * @throws {Error} Throws an error if the task execution fails, either on the client or server.
  */
-export const executeTask = async (task: Task, dataStore: DataStore, prompts: PromptSFL[]): Promise<any> => {
-    const isClientSideTask = ['DATA_INPUT', 'TEXT_MANIPULATION', 'DISPLAY_CHART', 'SIMULATE_PROCESS'].includes(task.type);
+export const executeTask = async (
+    task: Task,
+    dataStore: DataStore,
+    prompts: PromptSFL[],
+    workflowId?: string,
+    onMapItem?: (index: number, total: number, state: MapItemState) => void
+): Promise<any> => {
+    // TEXT_MANIPULATION functions run in the server's sandbox, as the browser cannot cut a worker off from the network
+    const isClientSideTask = ['DATA_INPUT', 'DISPLAY_CHART', 'SIMULATE_PROCESS', 'CONDITION', 'MAP'].includes(task.type);
 
     if (isClientSideTask) {
-        const resolvedInputs = task.inputKeys.reduce((acc, key) => {
-            const simpleKey = key.split('.').pop() || key;
-            acc[simpleKey] = getNested(dataStore, key);
-            return acc;
-        }, {} as Record<string, any>);
-
         switch (task.type) {
             case 'DATA_INPUT':
                 if (task.staticValue && typeof task.staticValue === 'string') {
                     return templateString(task.staticValue, dataStore);
                 }
                 return task.staticValue;
-            case 'TEXT_MANIPULATION':
-                if (!task.functionBody) throw new Error("Function body is missing.");
-                return executeTextManipulation(task.functionBody, resolvedInputs);
             case 'DISPLAY_CHART':
                  if(!task.dataKey) throw new Error("Data key is missing for chart display.");
                  return getNested(dataStore, task.dataKey);
@@ -121,6 +193,12 @@ export const executeTask = async (task: Task, dataStore: DataStore, prompts: Pro
                 return new Promise(resolve => {
                     setTimeout(() => resolve({ status: "ok", message: `Simulated process for ${task.name} completed.`}), 1000)
                 });
+            case 'CONDITION':
+                if (!task.condition) throw new Error("Condition is missing.");
+                return evaluateCondition(task.condition, dataStore);
+            case 'MAP':
+                // The subtasks that need the backend are sent one at a time, with the item's data store
+                return executeMapTask(task, dataStore, prompts, workflowId, onMapItem);
             default:
                 throw new Error(`Unsupported client-side task type: ${task.type}`);
         }
@@ -128,7 +206,7 @@ export const executeTask = async (task: Task, dataStore: DataStore, prompts: Pro
         // For server-side tasks, call the backend
         const response = await authService.authenticatedFetch(`${API_BASE_URL}/run-task`, {
             method: 'POST',
-            body: JSON.stringify({ task, dataStore }),
+            body: JSON.stringify({ task, dataStore, workflowId }),
         });
 
         if (!response.ok) {
@@ -195,6 +273,36 @@ export const topologicalSort = (tasks: Task[]): { sortedTasks: Task[], feedback:
     return { sortedTasks, feedback };
 };
 
+/**
+ * Decides whether a task is skipped once every task it depends on has finished. A task is skipped when a
+ * `CONDITION` it depends on took a branch that does not list it, or when all of its dependencies were skipped;
+ * a task joining a skipped branch with one that ran still runs.
+ *
+ * @param {Task} task - The task about to run.
+ * @param {Task[]} tasks - All tasks of the workflow.
+ * @param {TaskStateMap} states - The states of the finished tasks; a completed condition's result selects its branch.
+ * @returns {string | undefined} The reason the task is skipped, or `undefined` if it runs.
+ */
+export const getSkipReason = (task: Task, tasks: Task[], states: TaskStateMap): string | undefined => {
+    const dependencies = [...new Set(task.dependencies)]
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t): t is Task => !!t);
+
+    for (const dependency of dependencies) {
+        const state = states[dependency.id];
+        if (dependency.type !== TaskType.CONDITION || state?.status !== TaskStatus.COMPLETED || !dependency.branches) continue;
+        const chosen = branchKey(state.result);
+        const branched = Object.values(dependency.branches).some(targets => targets.includes(task.id));
+        if (branched && !dependency.branches[chosen]?.includes(task.id)) {
+            return `Condition "${dependency.name}" took the "${chosen}" branch`;
+        }
+    }
+    if (dependencies.length > 0 && dependencies.every(dependency => states[dependency.id]?.status === TaskStatus.SKIPPED)) {
+        return 'All of its dependencies were skipped';
+    }
+    return undefined;
+};
+
 /**
  * Runs a complete workflow by executing its tasks in the correct topological order.
  * This function is a high-level orchestrator, intended for scenarios where callbacks are needed
@@ -206,6 +314,7 @@ export const topologicalSort = (tasks: Task[]): { sortedTasks: Task[], feedback:
  * @param {(taskId: string, result: any) => void} onTaskComplete - A callback function executed after each task completes successfully.
  * @param {(taskId: string, error: Error) => void} onTaskError - A callback function executed when a task fails.
  * @param {(finalDataStore: DataStore) => void} onWorkflowComplete - A callback function executed after the entire workflow finishes successfully.
+ * @param {(taskId: string, reason: string) => void} [onTaskSkipped] - A callback function executed when a task is skipped by a condition; its output is `null`.
  * @returns {Promise<void>} A promise that resolves when the workflow execution is complete.
  */
 export const runWorkflow = async (
@@ -214,7 +323,8 @@ export const runWorkflow = async (
     prompts: PromptSFL[],
     onTaskComplete: (taskId: string, result: any) => void,
     onTaskError: (taskId: string, error: Error) => void,
-    onWorkflowComplete: (finalDataStore: DataStore) => void
+    onWorkflowComplete: (finalDataStore: DataStore) => void,
+    onTaskSkipped?: (taskId: string, reason: string) => void
 ) => {
     const { sortedTasks, feedback } = topologicalSort(tasks);
     
@@ -229,11 +339,20 @@ export const runWorkflow = async (
     }
 
     const dataStore: DataStore = { ...initialDataStore };
+    const states: TaskStateMap = {};
 
     for (const task of sortedTasks) {
+        const skipReason = getSkipReason(task, tasks, states);
+        if (skipReason) {
+            dataStore[task.outputKey] = null;
+            states[task.id] = { status: TaskStatus.SKIPPED, error: skipReason };
+            onTaskSkipped?.(task.id, skipReason);
+            continue;
+        }
         try {
             const result = await executeTask(task, dataStore, prompts);
             dataStore[task.outputKey] = result;
+            states[task.id] = { status: TaskStatus.COMPLETED, result };
             onTaskComplete(task.id, result);
         } catch (error: any) {
             console.error(`Error executing task ${task.name} (${task.id}):`, error);
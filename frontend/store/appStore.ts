@@ -3,33 +3,92 @@
  * @description Centralized state management store using Zustand. This store eliminates prop drilling 
  * by providing a single source of truth for the application's state including prompts, filters, 
  * active page, and loading states. It includes actions for managing prompts and filters.
+ * Prompts are loaded from the server one page at a time; filtering, search and sorting happen server-side,
+ * and changing a filter or the sort order reloads the first page.
+ * The store also holds the tags and the user's collection tree used to organize the library.
  *
  * @requires zustand
  * @requires ../types
  * @requires ../services/promptApiService
+ * @requires ../services/libraryApiService
  * @requires ../constants
  */
 
 import { create } from 'zustand';
-import { PromptSFL, Filters } from '../types';
-import { getPrompts, savePrompt, deletePrompt as apiDeletePrompt } from '../services/promptApiService';
+import { PromptSFL, PromptStatus, PromptReview, Filters, PromptSortField, Tag, Collection } from '../types';
+import { getPrompts, savePrompt, deletePrompt as apiDeletePrompt, rollbackPromptRevision, pinPromptRun as apiPinPromptRun, forkPrompt as apiForkPrompt, translatePrompt as apiTranslatePrompt, getPromptWorkflows, changePromptStatus as apiChangePromptStatus } from '../services/promptApiService';
+import {
+  getTags,
+  getCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection as apiDeleteCollection,
+  addPromptToCollection as apiAddPromptToCollection,
+  removePromptFromCollection as apiRemovePromptFromCollection,
+} from '../services/libraryApiService';
 import { TASK_TYPES, AI_PERSONAS, TARGET_AUDIENCES, DESIRED_TONES, OUTPUT_FORMATS, LENGTH_CONSTRAINTS, POPULAR_TAGS } from '../constants';
 
 /**
- * @typedef {'dashboard' | 'lab' | 'documentation' | 'settings'} Page
+ * @typedef {'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings'} Page
  * @description Represents the possible main pages the user can navigate to.
  */
-type Page = 'dashboard' | 'lab' | 'documentation' | 'settings';
+type Page = 'dashboard' | 'lab' | 'trash' | 'documentation' | 'settings';
 
 /**
  * @constant {Filters} initialFilters - The default state for the prompt filters.
  */
 const initialFilters: Filters = {
   searchTerm: '',
+  scope: '',
+  tag: '',
+  collection: '',
   topic: '',
   taskType: '',
   aiPersona: '',
   outputFormat: '',
+  locale: '',
+};
+
+/**
+ * @constant {number} PROMPTS_PAGE_SIZE - The number of prompts requested per page.
+ */
+const PROMPTS_PAGE_SIZE = 50;
+
+/**
+ * @constant {number} SEARCH_DEBOUNCE_MS - Delay before a change to the search term triggers a refetch.
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * @var {ReturnType<typeof setTimeout> | undefined} refetchTimer - Pending debounced refetch, if any.
+ * @private
+ */
+let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * @var {number} latestFetchId - Incremented for every first-page fetch so that responses to
+ * superseded requests (e.g. from earlier keystrokes) are discarded.
+ * @private
+ */
+let latestFetchId = 0;
+
+/**
+ * Merges a saved prompt into the list of loaded prompts.
+ * New prompts, and any prompt while sorting by last update, move to the top;
+ * otherwise the prompt is replaced in place so the server-side order is kept.
+ *
+ * @param {PromptSFL[]} prompts - The currently loaded prompts.
+ * @param {PromptSFL} saved - The prompt returned by the server.
+ * @param {PromptSortField} sort - The active sort field.
+ * @returns {PromptSFL[]} The updated list.
+ * @private
+ */
+const mergeSavedPrompt = (prompts: PromptSFL[], saved: PromptSFL, sort: PromptSortField): PromptSFL[] => {
+  const isLoaded = prompts.some(p => p.id === saved.id);
+  if (sort === 'updatedAt' || !isLoaded) {
+    return [saved, ...prompts.filter(p => p.id !== saved.id)];
+  }
+  return prompts.map(p => p.id === saved.id ? saved : p);
 };
 
 /**
@@ -39,7 +98,13 @@ const initialFilters: Filters = {
 interface AppState {
   // State
   prompts: PromptSFL[];
+  nextCursor: string | null;
+  totalPrompts: number;
+  isLoadingMore: boolean;
   filters: Filters;
+  sort: PromptSortField;
+  tags: Tag[];
+  collections: Collection[];
   activePage: Page;
   isLoading: boolean;
   error: string | null;
@@ -55,18 +120,30 @@ interface AppState {
 
   // Actions
   fetchPrompts: () => Promise<void>;
+  fetchMorePrompts: () => Promise<void>;
   addPrompt: (prompt: PromptSFL) => Promise<void>;
   updatePrompt: (prompt: PromptSFL) => Promise<void>;
-  deletePrompt: (promptId: string) => Promise<void>;
+  deletePrompt: (promptId: string) => Promise<boolean>;
+  restorePromptRevision: (promptId: string, revisionNumber: number) => Promise<PromptSFL>;
+  forkPrompt: (promptId: string) => Promise<PromptSFL>;
+  translatePrompt: (promptId: string, locale: string) => Promise<PromptSFL>;
+  pinPromptRun: (promptId: string, runId: string) => Promise<PromptSFL>;
+  changePromptStatus: (promptId: string, status: PromptStatus, note?: string) => Promise<PromptReview>;
+  setPromptTestState: (promptId: string, updates: Pick<Partial<PromptSFL>, 'isTesting' | 'geminiResponse' | 'geminiTestError'>) => void;
+  fetchTags: () => Promise<void>;
+  fetchCollections: () => Promise<void>;
+  addCollection: (name: string, parentId?: string | null) => Promise<void>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  addPromptToCollection: (collectionId: string, promptId: string) => Promise<void>;
+  removePromptFromCollection: (collectionId: string, promptId: string) => Promise<void>;
   setFilter: <K extends keyof Filters>(key: K, value: Filters[K]) => void;
   resetFilters: () => void;
+  setSort: (sort: PromptSortField) => void;
   setPage: (page: Page) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   addConstant: (key: keyof AppState['appConstants'], value: string) => void;
-  
-  // Computed getters
-  getFilteredPrompts: () => PromptSFL[];
 }
 
 /**
@@ -78,7 +155,13 @@ interface AppState {
 export const useAppStore = create<AppState>((set, get) => ({
   // Initial State
   prompts: [],
+  nextCursor: null,
+  totalPrompts: 0,
+  isLoadingMore: false,
   filters: initialFilters,
+  sort: 'updatedAt',
+  tags: [],
+  collections: [],
   activePage: 'dashboard',
   isLoading: false,
   error: null,
@@ -94,11 +177,15 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // Actions
   fetchPrompts: async () => {
+    const fetchId = ++latestFetchId;
+    const { filters, sort } = get();
     set({ isLoading: true, error: null });
     try {
-      const fetchedPrompts = await getPrompts();
-      set({ prompts: fetchedPrompts, isLoading: false });
+      const page = await getPrompts({ ...filters, sort, limit: PROMPTS_PAGE_SIZE });
+      if (fetchId !== latestFetchId) return;
+      set({ prompts: page.items, nextCursor: page.nextCursor, totalPrompts: page.total, isLoading: false });
     } catch (error) {
+      if (fetchId !== latestFetchId) return;
       console.error("Failed to fetch prompts:", error);
       set({ 
         error: error instanceof Error ? error.message : 'Failed to fetch prompts', 
@@ -107,14 +194,38 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  fetchMorePrompts: async () => {
+    const { filters, sort, nextCursor, isLoadingMore } = get();
+    if (!nextCursor || isLoadingMore) return;
+
+    const fetchId = latestFetchId;
+    set({ isLoadingMore: true, error: null });
+    try {
+      const page = await getPrompts({ ...filters, sort, limit: PROMPTS_PAGE_SIZE, cursor: nextCursor });
+      if (fetchId !== latestFetchId) return;
+      set(state => ({
+        prompts: [...state.prompts, ...page.items.filter(p => !state.prompts.some(existing => existing.id === p.id))],
+        nextCursor: page.nextCursor,
+        totalPrompts: page.total,
+        isLoadingMore: false,
+      }));
+    } catch (error) {
+      console.error("Failed to fetch more prompts:", error);
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to fetch prompts', 
+        isLoadingMore: false 
+      });
+    }
+  },
+
   addPrompt: async (prompt: PromptSFL) => {
     try {
       const saved = await savePrompt(prompt);
       set(state => ({
-        prompts: [saved, ...state.prompts].sort((a, b) => 
-          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-        )
+        prompts: mergeSavedPrompt(state.prompts, saved, state.sort),
+        totalPrompts: state.totalPrompts + 1,
       }));
+      get().fetchTags();
     } catch (error) {
       console.error("Failed to add prompt:", error);
       set({ error: error instanceof Error ? error.message : 'Failed to add prompt' });
@@ -126,25 +237,13 @@ export const useAppStore = create<AppState>((set, get) => ({
     try {
       const saved = await savePrompt(prompt);
       set(state => {
-        const existingIndex = state.prompts.findIndex(p => p.id === saved.id);
-        if (existingIndex > -1) {
-          // Update existing prompt
-          const updatedPrompts = [...state.prompts];
-          updatedPrompts[existingIndex] = saved;
-          return {
-            prompts: updatedPrompts.sort((a, b) => 
-              new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-            )
-          };
-        } else {
-          // Add new prompt
-          return {
-            prompts: [saved, ...state.prompts].sort((a, b) => 
-              new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-            )
-          };
-        }
+        const isNew = !state.prompts.some(p => p.id === saved.id);
+        return {
+          prompts: mergeSavedPrompt(state.prompts, saved, state.sort),
+          totalPrompts: isNew ? state.totalPrompts + 1 : state.totalPrompts,
+        };
       });
+      get().fetchTags();
     } catch (error) {
       console.error("Failed to update prompt:", error);
       set({ error: error instanceof Error ? error.message : 'Failed to update prompt' });
@@ -153,30 +252,207 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
 
   deletePrompt: async (promptId: string) => {
-    if (!window.confirm('Are you sure you want to delete this prompt?')) {
-      return;
+    // The warning is best effort: a failed lookup should not stop the user from deleting the prompt.
+    const affectedWorkflows = await getPromptWorkflows(promptId).catch(() => []);
+    const warning = affectedWorkflows.length > 0
+      ? `\n\nThese workflows run this prompt and will fail until it is restored:\n${affectedWorkflows.map(workflow => `• ${workflow.name}`).join('\n')}`
+      : '';
+    if (!window.confirm(`Move this prompt to the trash? You can restore it from the Trash page.${warning}`)) {
+      return false;
     }
     
     try {
       await apiDeletePrompt(promptId);
       set(state => ({
-        prompts: state.prompts.filter(p => p.id !== promptId)
+        prompts: state.prompts.filter(p => p.id !== promptId),
+        totalPrompts: Math.max(0, state.totalPrompts - 1),
       }));
+      return true;
     } catch (error) {
       console.error("Failed to delete prompt:", error);
       set({ error: error instanceof Error ? error.message : 'Failed to delete prompt' });
       alert("Failed to delete prompt. Please try again.");
+      return false;
     }
   },
 
-  setFilter: (key, value) => {
+  restorePromptRevision: async (promptId: string, revisionNumber: number) => {
+    try {
+      const restored = await rollbackPromptRevision(promptId, revisionNumber);
+      set(state => ({
+        prompts: mergeSavedPrompt(state.prompts, restored, state.sort)
+      }));
+      return restored;
+    } catch (error) {
+      console.error("Failed to restore prompt revision:", error);
+      set({ error: error instanceof Error ? error.message : 'Failed to restore prompt revision' });
+      throw error;
+    }
+  },
+
+  forkPrompt: async (promptId: string) => {
+    try {
+      const fork = await apiForkPrompt(promptId);
+      set(state => ({
+        prompts: mergeSavedPrompt(state.prompts, fork, state.sort),
+        totalPrompts: state.totalPrompts + 1,
+      }));
+      return fork;
+    } catch (error) {
+      console.error("Failed to fork prompt:", error);
+      set({ error: error instanceof Error ? error.message : 'Failed to fork prompt' });
+      throw error;
+    }
+  },
+
+  translatePrompt: async (promptId: string, locale: string) => {
+    try {
+      const variant = await apiTranslatePrompt(promptId, locale);
+      set(state => ({
+        prompts: mergeSavedPrompt(state.prompts, variant, state.sort),
+        totalPrompts: state.totalPrompts + 1,
+      }));
+      return variant;
+    } catch (error) {
+      console.error("Failed to translate prompt:", error);
+      set({ error: error instanceof Error ? error.message : 'Failed to translate prompt' });
+      throw error;
+    }
+  },
+
+  pinPromptRun: async (promptId: string, runId: string) => {
+    try {
+      const pinned = await apiPinPromptRun(promptId, runId);
+      set(state => ({
+        prompts: mergeSavedPrompt(state.prompts, pinned, state.sort)
+      }));
+      return pinned;
+    } catch (error) {
+      console.error("Failed to pin test run:", error);
+      throw error;
+    }
+  },
+
+  changePromptStatus: async (promptId: string, status: PromptStatus, note?: string) => {
+    const review = await apiChangePromptStatus(promptId, status, note);
+    set(state => ({
+      prompts: state.prompts.map(p => p.id === promptId ? { ...p, status: review.status } : p)
+    }));
+    return review;
+  },
+
+  // Test results are transient UI state; the runs themselves are recorded by the server
+  setPromptTestState: (promptId, updates) => {
     set(state => ({
-      filters: { ...state.filters, [key]: value }
+      prompts: state.prompts.map(p => p.id === promptId ? { ...p, ...updates } : p)
     }));
   },
 
+  fetchTags: async () => {
+    try {
+      set({ tags: await getTags() });
+    } catch (error) {
+      console.error("Failed to fetch tags:", error);
+    }
+  },
+
+  fetchCollections: async () => {
+    try {
+      set({ collections: await getCollections() });
+    } catch (error) {
+      console.error("Failed to fetch collections:", error);
+    }
+  },
+
+  addCollection: async (name: string, parentId: string | null = null) => {
+    try {
+      const created = await createCollection(name, parentId);
+      set(state => ({ collections: [...state.collections, created] }));
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+      alert(error instanceof Error ? error.message : 'Failed to create collection');
+    }
+  },
+
+  renameCollection: async (collectionId: string, name: string) => {
+    try {
+      const updated = await updateCollection(collectionId, { name });
+      set(state => ({ collections: state.collections.map(c => c.id === collectionId ? updated : c) }));
+    } catch (error) {
+      console.error("Failed to rename collection:", error);
+      alert(error instanceof Error ? error.message : 'Failed to rename collection');
+    }
+  },
+
+  deleteCollection: async (collectionId: string) => {
+    if (!window.confirm('Delete this collection and its sub-collections? The prompts inside are kept.')) {
+      return;
+    }
+
+    try {
+      await apiDeleteCollection(collectionId);
+      await get().fetchCollections();
+      const { filters, collections, setFilter } = get();
+      if (filters.collection && !collections.some(c => c.id === filters.collection)) {
+        setFilter('collection', '');
+      }
+    } catch (error) {
+      console.error("Failed to delete collection:", error);
+      alert("Failed to delete collection. Please try again.");
+    }
+  },
+
+  addPromptToCollection: async (collectionId: string, promptId: string) => {
+    try {
+      await apiAddPromptToCollection(collectionId, promptId);
+      await get().fetchCollections();
+    } catch (error) {
+      console.error("Failed to add prompt to collection:", error);
+      alert(error instanceof Error ? error.message : 'Failed to add prompt to collection');
+    }
+  },
+
+  removePromptFromCollection: async (collectionId: string, promptId: string) => {
+    try {
+      await apiRemovePromptFromCollection(collectionId, promptId);
+      if (get().filters.collection === collectionId) {
+        set(state => ({
+          prompts: state.prompts.filter(p => p.id !== promptId),
+          totalPrompts: Math.max(0, state.totalPrompts - 1),
+        }));
+      }
+      await get().fetchCollections();
+    } catch (error) {
+      console.error("Failed to remove prompt from collection:", error);
+      alert(error instanceof Error ? error.message : 'Failed to remove prompt from collection');
+    }
+  },
+
+  setFilter: (key, value) => {
+    set(state => {
+      const filters = { ...state.filters, [key]: value };
+      // Relevance ranking is only defined while searching
+      const sort = !filters.searchTerm && state.sort === 'relevance' ? 'updatedAt' : state.sort;
+      return { filters, sort };
+    });
+
+    clearTimeout(refetchTimer);
+    if (key === 'searchTerm') {
+      refetchTimer = setTimeout(() => get().fetchPrompts(), SEARCH_DEBOUNCE_MS);
+    } else {
+      get().fetchPrompts();
+    }
+  },
+
   resetFilters: () => {
-    set({ filters: initialFilters });
+    clearTimeout(refetchTimer);
+    set(state => ({ filters: initialFilters, sort: state.sort === 'relevance' ? 'updatedAt' : state.sort }));
+    get().fetchPrompts();
+  },
+
+  setSort: (sort: PromptSortField) => {
+    set({ sort });
+    get().fetchPrompts();
   },
 
   setPage: (page: Page) => {
@@ -215,31 +491,4 @@ export const useAppStore = create<AppState>((set, get) => ({
       };
     });
   },
-
-  // Computed getters
-  getFilteredPrompts: () => {
-    const { prompts, filters } = get();
-    
-    return prompts.filter(p => {
-      const searchTermLower = filters.searchTerm.toLowerCase();
-      
-      const searchFields = [
-        p.title,
-        p.promptText,
-        p.sflField.keywords,
-        p.sflField.topic,
-        p.sflField.domainSpecifics,
-        p.sflTenor.aiPersona,
-        p.sflTenor.targetAudience.join(' '),
-        p.sflMode.outputFormat
-      ];
-
-      const matchesSearchTerm = filters.searchTerm === '' || 
-        searchFields.some(field => field && field.toLowerCase().includes(searchTermLower));
-      const matchesTaskType = filters.taskType === '' || p.sflField.taskType === filters.taskType;
-      const matchesAiPersona = filters.aiPersona === '' || p.sflTenor.aiPersona === filters.aiPersona;
-      
-      return matchesSearchTerm && matchesTaskType && matchesAiPersona;
-    }).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
-  },
 }));
\ No newline at end of file
@@ -4,6 +4,8 @@
  * It defines the data structures for SFL prompts, workflows, tasks, and other related entities, serving as a single source of truth for the application's data model.
  */
 
+import { AIProvider, ModelParameters } from './types/aiProvider';
+
 /**
  * @interface SFLField
  * @description Defines the structure for the "Field" component of the Systemic Functional Linguistics (SFL) framework.
@@ -52,16 +54,69 @@ export interface SFLMode {
   textualDirectives: string;
 }
 
+/**
+ * @typedef {'string' | 'number' | 'enum' | 'multiline' | 'file'} PromptVariableType
+ * @description The input types a prompt template variable can declare. `file` variables are filled with the text content of an uploaded file.
+ */
+export type PromptVariableType = 'string' | 'number' | 'enum' | 'multiline' | 'file';
+
+/**
+ * @interface PromptVariable
+ * @description Declares a `{{placeholder}}` used in a prompt's text and how it should be filled in.
+ * @property {string} name - The placeholder name, as written between the braces.
+ * @property {PromptVariableType} type - The kind of input used to fill the variable.
+ * @property {boolean} required - Whether a value must be provided before the prompt can be run.
+ * @property {string} [defaultValue] - The value used when none is entered.
+ * @property {string} [description] - Guidance shown next to the input.
+ * @property {string[]} [options] - The allowed values of an `enum` variable.
+ */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  required: boolean;
+  defaultValue?: string;
+  description?: string;
+  options?: string[];
+}
+
+/**
+ * @typedef {'private' | 'shared' | 'public'} PromptVisibility
+ * @description Who can see a prompt: only its owner, its owner and the users it is shared with, or everyone.
+ */
+export type PromptVisibility = 'private' | 'shared' | 'public';
+
+/**
+ * @typedef {'owner' | 'shared' | 'public'} PromptAccess
+ * @description How the current user can see a prompt. Owners can do anything, share recipients can edit,
+ * and everyone else can only read and copy public prompts.
+ */
+export type PromptAccess = 'owner' | 'shared' | 'public';
+
+/**
+ * @type PromptStatus
+ * @description Where a prompt is in its review lifecycle: drafts are sent for review, the assigned reviewer
+ * approves them, and approved prompts can later be deprecated. Editing a prompt in review or approved sends it back to draft.
+ */
+export type PromptStatus = 'draft' | 'in_review' | 'approved' | 'deprecated';
+
 /**
  * @interface PromptSFL
  * @description Represents a complete SFL-structured prompt, combining the core prompt text with rich metadata
  * from the SFL framework and application-specific state.
  * @property {string} id - A unique identifier for the prompt.
  * @property {string} title - A user-defined title for the prompt.
- * @property {string} promptText - The main, executable text of the prompt, which may include `{{variables}}`.
+ * @property {string} promptText - The main, executable text of the prompt, which may include `{{variables}}` and `{{> name}}` partials.
  * @property {SFLField} sflField - The "Field" metadata for the prompt.
  * @property {SFLTenor} sflTenor - The "Tenor" metadata for the prompt.
  * @property {SFLMode} sflMode - The "Mode" metadata for the prompt.
+ * @property {PromptVariable[]} [variables] - Declarations of the `{{variables}}` used in `promptText`.
+ * @property {string} [extendsId] - The ID of the base prompt whose text, SFL fields and variables fill in whatever this prompt leaves empty.
+ * @property {string} [forkedFromId] - The ID of the prompt this prompt was forked from. Set by the server.
+ * @property {number} [forkedFromRevision] - The revision of the parent prompt at the time of the fork. Set by the server.
+ * @property {PromptStatus} [status] - The prompt's review status. Changed only through the review endpoints.
+ * @property {string} [reviewerId] - The ID of the user assigned to review the prompt.
+ * @property {string} [locale] - The language of the prompt as a language tag, e.g. `de` or `pt-BR`.
+ * @property {string} [localeSourceId] - The ID of the prompt this prompt was translated from. Set by the server.
  * @property {string} [exampleOutput] - An optional example of a desired output.
  * @property {string} [notes] - Optional user notes about the prompt.
  * @property {string} createdAt - ISO 8601 timestamp of when the prompt was created.
@@ -70,6 +125,11 @@ export interface SFLMode {
  * @property {string} [geminiTestError] - The last error message from a failed Gemini test.
  * @property {boolean} [isTesting] - A transient flag indicating if the prompt is currently being tested.
  * @property {{name: string; content: string}} [sourceDocument] - An optional attached document for stylistic reference.
+ * @property {string | null} [ownerId] - The ID of the user who created the prompt.
+ * @property {PromptVisibility} [visibility] - Who can see the prompt. New prompts are private.
+ * @property {PromptAccess} [access] - How the current user can see the prompt, as reported by the server.
+ * @property {string[]} [sharedWith] - Email addresses the prompt is shared with. Only returned to the owner.
+ * @property {string[]} [tags] - The names of the tags on the prompt.
  */
 export interface PromptSFL {
   id: string;
@@ -78,6 +138,14 @@ export interface PromptSFL {
   sflField: SFLField;
   sflTenor: SFLTenor;
   sflMode: SFLMode;
+  variables?: PromptVariable[];
+  extendsId?: string;
+  forkedFromId?: string;
+  forkedFromRevision?: number;
+  status?: PromptStatus;
+  reviewerId?: string;
+  locale?: string;
+  localeSourceId?: string;
   exampleOutput?: string;
   notes?: string;
   createdAt: string;
@@ -89,19 +157,610 @@ export interface PromptSFL {
     name: string;
     content: string;
   };
+  ownerId?: string | null;
+  visibility?: PromptVisibility;
+  access?: PromptAccess;
+  sharedWith?: string[];
+  tags?: string[];
+}
+
+/**
+ * @interface PromptRevision
+ * @description An immutable snapshot of a prompt's content captured each time it is saved.
+ * @property {string} id - A unique identifier for the revision.
+ * @property {string} promptId - The ID of the prompt this revision belongs to.
+ * @property {number} revisionNumber - The sequential revision number, starting at 1.
+ * @property {string | null} createdBy - The ID of the user who saved this revision.
+ * @property {string} createdAt - ISO 8601 timestamp of when the revision was saved.
+ */
+export interface PromptRevision {
+  id: string;
+  promptId: string;
+  revisionNumber: number;
+  createdBy: string | null;
+  createdAt: string;
+  title: string;
+  promptText: string;
+  sflField: SFLField;
+  sflTenor: SFLTenor;
+  sflMode: SFLMode;
+  variables?: PromptVariable[];
+  exampleOutput?: string;
+  notes?: string;
+  sourceDocument?: {
+    name: string;
+    content: string;
+  };
+}
+
+/**
+ * @interface PromptRevisionFieldChange
+ * @description A single field that differs between two revisions.
+ * @property {string} field - A dotted field path, e.g. `promptText` or `sflTenor.desiredTone`.
+ * @property {string} from - The value in the older revision.
+ * @property {string} to - The value in the newer revision.
+ */
+export interface PromptRevisionFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * @interface PromptRevisionDiff
+ * @description The field-by-field comparison of two revisions of a prompt.
+ */
+export interface PromptRevisionDiff {
+  promptId: string;
+  fromRevision: number;
+  toRevision: number;
+  changes: PromptRevisionFieldChange[];
+}
+
+/**
+ * @interface PromptLineageNode
+ * @description A prompt in a fork lineage.
+ * @property {string | null} parentId - The prompt this one was forked from.
+ * @property {number | null} forkedFromRevision - The parent's revision at the time of the fork.
+ * @property {boolean} upstreamChanged - Whether the parent has been revised since the fork was made.
+ * @property {number} depth - How many forks away from the prompt the lineage was requested for.
+ */
+export interface PromptLineageNode {
+  id: string;
+  title: string;
+  ownerId: string;
+  parentId: string | null;
+  forkedFromRevision: number | null;
+  latestRevision: number;
+  upstreamChanged: boolean;
+  depth: number;
+}
+
+/**
+ * @interface PromptLineage
+ * @description The visible fork lineage of a prompt. `ancestors` start with the direct parent,
+ * and the `parentId`s of `descendants` form the tree of forks below the prompt.
+ */
+export interface PromptLineage {
+  prompt: PromptLineageNode;
+  ancestors: PromptLineageNode[];
+  descendants: PromptLineageNode[];
+}
+
+/**
+ * @interface PromptLocaleVariant
+ * @description A prompt among its locale siblings: the source prompt and the variants translated from it.
+ * @property {string | null} locale - The prompt's language tag, if one is set.
+ * @property {boolean} isSource - Whether this is the prompt the others were translated from.
+ */
+export interface PromptLocaleVariant {
+  id: string;
+  title: string;
+  locale: string | null;
+  isSource: boolean;
 }
 
 /**
  * @interface Filters
  * @description Defines the structure for the filter state used to search and filter the list of prompts.
  * Each property corresponds to a filter control in the UI.
+ * `scope` narrows the library to the user's own prompts (`mine`) or prompts shared with them (`shared`);
+ * an empty scope lists everything the user can see. `tag` holds a tag name and `collection` a collection ID;
+ * selecting a collection also includes the prompts of its sub-collections. `locale` holds a language tag;
+ * a bare language such as `de` also matches its regional variants.
  */
 export interface Filters {
   searchTerm: string;
+  scope: '' | 'mine' | 'shared';
+  tag: string;
+  collection: string;
   topic: string;
   taskType: string;
   aiPersona: string;
   outputFormat: string;
+  locale: string;
+}
+
+/**
+ * @typedef {'updatedAt' | 'createdAt' | 'title' | 'relevance'} PromptSortField
+ * @description The orderings supported by the prompt listing endpoint. `relevance` only applies while searching.
+ */
+export type PromptSortField = 'updatedAt' | 'createdAt' | 'title' | 'relevance';
+
+/**
+ * @interface Tag
+ * @description A tag used to label prompts. Tags are shared by all users; only their creator can rename or delete them.
+ * @property {string} id - A unique identifier for the tag.
+ * @property {string} name - The tag name, unique regardless of case.
+ * @property {string | null} createdBy - The ID of the user who created the tag.
+ * @property {number} promptCount - The number of prompts carrying the tag.
+ * @property {string} createdAt - ISO 8601 timestamp of when the tag was created.
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  createdBy: string | null;
+  promptCount: number;
+  createdAt: string;
+}
+
+/**
+ * @interface Collection
+ * @description A personal folder of prompts. Collections nest through `parentId`.
+ * @property {string} id - A unique identifier for the collection.
+ * @property {string | null} parentId - The ID of the enclosing collection, or `null` at the top level.
+ * @property {string} name - The collection name, unique among its siblings.
+ * @property {number} promptCount - The number of prompts placed directly in the collection.
+ * @property {string} createdAt - ISO 8601 timestamp of when the collection was created.
+ * @property {string} updatedAt - ISO 8601 timestamp of the last rename or move.
+ */
+export interface Collection {
+  id: string;
+  parentId: string | null;
+  name: string;
+  promptCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface PromptSnippet
+ * @description A reusable piece of prompt text belonging to the current user, included in prompts with a `{{> name}}` partial.
+ * @property {string} id - A unique identifier for the snippet.
+ * @property {string} name - The lower-case name partials refer to the snippet by.
+ * @property {string} description - What the snippet is for; may be empty.
+ * @property {string} body - The text the partial is replaced with. It may itself contain partials.
+ * @property {string} createdAt - ISO 8601 timestamp of when the snippet was created.
+ * @property {string} updatedAt - ISO 8601 timestamp of the last change.
+ */
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface RenderedPrompt
+ * @description A prompt with its inheritance resolved and its partials expanded, as the server sends it to a model.
+ * @property {string} promptText - The final prompt text; `{{variables}}` are left in place.
+ * @property {SFLField} sflField - The effective "Field" metadata, including inherited values.
+ * @property {SFLTenor} sflTenor - The effective "Tenor" metadata, including inherited values.
+ * @property {SFLMode} sflMode - The effective "Mode" metadata, including inherited values.
+ * @property {PromptVariable[]} variables - The variable declarations of the prompt and its bases.
+ * @property {string[]} inheritanceChain - The prompt's ID followed by the IDs of its bases, nearest first.
+ * @property {string[]} partials - The names of the partials that were expanded.
+ */
+export interface RenderedPrompt {
+  promptText: string;
+  sflField: SFLField;
+  sflTenor: SFLTenor;
+  sflMode: SFLMode;
+  variables: PromptVariable[];
+  inheritanceChain: string[];
+  partials: string[];
+}
+
+/**
+ * @typedef {'plain' | 'anthropic' | 'openai' | 'gemini'} PromptCompileFormat
+ * @description The message layouts a prompt can be compiled into before it is sent to a model.
+ * `plain` sends the prompt text alone; the others carry the SFL fields in the layout each provider handles best.
+ */
+export type PromptCompileFormat = 'plain' | 'anthropic' | 'openai' | 'gemini';
+
+/**
+ * @interface CompiledPrompt
+ * @description A prompt compiled for a provider.
+ * @property {PromptCompileFormat} format - The layout the prompt was compiled into.
+ * @property {string} system - The system message; empty when no SFL field belongs there.
+ * @property {string} user - The user message, framing the prompt text with its context.
+ * @property {Record<string, any>} request - The request body fragment the provider receives the messages in.
+ */
+export interface CompiledPrompt {
+  format: PromptCompileFormat;
+  system: string;
+  user: string;
+  request: Record<string, any>;
+}
+
+/**
+ * @typedef {'json' | 'markdown' | 'openai' | 'promptfoo'} PromptExchangeFormat
+ * @description The file formats prompts can be imported from and exported to: the native JSON array,
+ * Markdown with YAML front matter, OpenAI chat-message JSON, and a promptfoo prompt file.
+ */
+export type PromptExchangeFormat = 'json' | 'markdown' | 'openai' | 'promptfoo';
+
+/**
+ * @typedef {'skip' | 'overwrite' | 'copy'} ImportConflictStrategy
+ * @description What an import does with a prompt whose ID already exists: leave the existing prompt alone,
+ * overwrite it, or import a new copy.
+ */
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'copy';
+
+/**
+ * @interface PromptImportItem
+ * @description The planned or actual outcome for one prompt in an import file.
+ * @property {number} index - The position of the prompt in the file.
+ * @property {string} title - The prompt's title.
+ * @property {string} [sourceId] - The ID the prompt has in the file, if any.
+ * @property {'new' | 'conflict' | 'duplicate' | 'invalid'} status - Why the action was chosen.
+ * @property {'create' | 'update' | 'skip'} action - What the import does with the prompt.
+ * @property {string} [existingId] - The ID of the library prompt it conflicts with or duplicates.
+ * @property {string} [promptId] - The ID of the written prompt, once imported.
+ * @property {string[]} errors - Problems that prevent importing the prompt.
+ * @property {string[]} warnings - Things worth knowing that do not prevent the import.
+ */
+export interface PromptImportItem {
+  index: number;
+  title: string;
+  sourceId?: string;
+  status: 'new' | 'conflict' | 'duplicate' | 'invalid';
+  action: 'create' | 'update' | 'skip';
+  existingId?: string;
+  promptId?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * @interface PromptImportResult
+ * @description The report returned by an import, or by its dry-run preview.
+ * @property {PromptExchangeFormat} format - The format the file was read as.
+ * @property {boolean} dryRun - True if nothing was written.
+ * @property {{create: number; update: number; skip: number}} summary - How many prompts each action applies to.
+ * @property {PromptImportItem[]} items - The outcome for each prompt in the file.
+ */
+export interface PromptImportResult {
+  format: PromptExchangeFormat;
+  dryRun: boolean;
+  summary: { create: number; update: number; skip: number };
+  items: PromptImportItem[];
+}
+
+/**
+ * @interface SFLFieldSuggestion
+ * @description An SFL field inferred from the text of a prompt that leaves it empty.
+ * @property {string} field - The field's path, e.g. `sflTenor.desiredTone`.
+ * @property {string} value - The suggested value; audiences are a comma-separated list.
+ * @property {number} confidence - How sure the model is, from 0 (a guess) to 1 (stated outright by the prompt).
+ */
+export interface SFLFieldSuggestion {
+  field: string;
+  value: string;
+  confidence: number;
+}
+
+/**
+ * @interface PromptAnnotationItem
+ * @description The SFL fields suggested for one prompt of an import file.
+ * @property {number} index - The position of the prompt in the file.
+ * @property {string} title - The prompt's title.
+ * @property {SFLFieldSuggestion[]} suggestions - The suggested values of the fields the prompt leaves empty.
+ * @property {string} [error] - Why the prompt could not be annotated.
+ */
+export interface PromptAnnotationItem {
+  index: number;
+  title: string;
+  suggestions: SFLFieldSuggestion[];
+  error?: string;
+}
+
+/**
+ * @type LintSeverity
+ * @description How serious a finding of the prompt linter is.
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * @interface LintDiagnostic
+ * @description A single finding of the prompt linter.
+ * @property {string} ruleId - The rule that produced the finding.
+ * @property {LintSeverity} severity - How serious the finding is.
+ * @property {string} message - A human-readable explanation.
+ * @property {string} [field] - The dotted path of the field the finding is about, e.g. `sflMode.outputFormat`.
+ */
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  field?: string;
+}
+
+/**
+ * @type EvalAssertion
+ * @description A check applied to the output of an evaluation test case: a substring, a regular expression,
+ * a JSON Schema the output must satisfy, a maximum length in characters, or a rubric graded by a judge model
+ * that passes at `threshold` (0.5 by default).
+ */
+export type EvalAssertion =
+  | { type: 'contains'; value: string; caseSensitive?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json-schema'; schema: Record<string, unknown> }
+  | { type: 'max-length'; value: number }
+  | { type: 'llm-rubric'; rubric: string; threshold?: number };
+
+/**
+ * @type EvalAssertionType
+ * @description The kinds of assertion a test case can make.
+ */
+export type EvalAssertionType = EvalAssertion['type'];
+
+/**
+ * @interface EvalTestCase
+ * @description One test case of an evaluation suite.
+ * @property {string} id - The case ID, assigned by the server when the suite is saved.
+ * @property {string} [description] - What the case checks.
+ * @property {Record<string, string>} variables - The values filled into the prompt's variables.
+ * @property {EvalAssertion[]} assertions - The checks the output must pass.
+ */
+export interface EvalTestCase {
+  id: string;
+  description?: string;
+  variables: Record<string, string>;
+  assertions: EvalAssertion[];
+}
+
+/**
+ * @interface EvalSuite
+ * @description A repeatable set of test cases attached to a prompt.
+ */
+export interface EvalSuite {
+  id: string;
+  promptId: string;
+  name: string;
+  description: string;
+  cases: EvalTestCase[];
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @interface EvalAssertionResult
+ * @description The outcome of one assertion, with a score from 0 to 1 and an explanation.
+ */
+export interface EvalAssertionResult {
+  type: EvalAssertionType;
+  passed: boolean;
+  score: number;
+  message: string;
+}
+
+/**
+ * @interface EvalCaseResult
+ * @description The outcome of one test case in a run.
+ * @property {string} [error] - Why the prompt could not be rendered or run, if it failed before any assertion.
+ */
+export interface EvalCaseResult {
+  caseId: string;
+  description?: string;
+  renderedPrompt: string;
+  output: string;
+  error?: string;
+  passed: boolean;
+  score: number;
+  latencyMs: number;
+  assertions: EvalAssertionResult[];
+}
+
+/**
+ * @interface EvalRun
+ * @description A recorded run of an evaluation suite against one provider and model.
+ */
+export interface EvalRun {
+  id: string;
+  suiteId: string;
+  promptId: string;
+  provider: string;
+  model: string;
+  passed: number;
+  failed: number;
+  score: number;
+  results: EvalCaseResult[];
+  createdBy: string | null;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * @interface PromptRun
+ * @description A recorded test execution of a prompt.
+ * @property {PromptCompileFormat} format - The layout the prompt was compiled into.
+ * @property {string} renderedPrompt - The exact text sent to the model as the user message, with partials resolved and variables filled in.
+ * @property {string | null} systemPrompt - The system message sent with it, if the layout produced one.
+ * @property {Record<string, string>} variables - The variable values the run was started with.
+ * @property {object | null} usage - The token usage reported by the provider, if any.
+ * @property {number} latencyMs - How long the provider took to answer.
+ * @property {string | null} error - Why the model call failed; `responseText` is empty then.
+ * @property {ResponseJudgement | null} judgement - The latest grading of the response against the prompt's SFL declaration.
+ */
+export interface PromptRun {
+  id: string;
+  promptId: string;
+  format: PromptCompileFormat;
+  renderedPrompt: string;
+  systemPrompt: string | null;
+  variables: Record<string, string>;
+  provider: string;
+  model: string;
+  parameters: Record<string, any>;
+  responseText: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  } | null;
+  latencyMs: number;
+  error: string | null;
+  judgement: ResponseJudgement | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @typedef {'tone' | 'length' | 'format' | 'structure' | 'audience'} JudgementDimension
+ * @description The aspects of a response a judge model grades against the prompt's SFL declaration.
+ */
+export type JudgementDimension = 'tone' | 'length' | 'format' | 'structure' | 'audience';
+
+/**
+ * @interface JudgementScore
+ * @description The score of a response on one dimension, from 1 (ignores the declared value) to 5 (fully meets it).
+ * @property {string} criterion - The value the prompt declares for the dimension, e.g. the desired tone.
+ */
+export interface JudgementScore {
+  dimension: JudgementDimension;
+  criterion: string;
+  score: number;
+  justification: string;
+}
+
+/**
+ * @interface ResponseJudgement
+ * @description A rubric grading a response against its prompt's SFL declaration.
+ * Only the dimensions the prompt declares are scored; `overallScore` is their mean.
+ */
+export interface ResponseJudgement {
+  scores: JudgementScore[];
+  overallScore: number;
+  judgeProvider: string;
+  judgeModel: string;
+  judgedAt: string;
+}
+
+/**
+ * @interface PromptPage
+ * @description One page of prompts returned by the server.
+ * @property {PromptSFL[]} items - The prompts on this page.
+ * @property {string | null} nextCursor - An opaque cursor for the next page, or `null` on the last page.
+ * @property {number} total - The number of prompts matching the filters across all pages.
+ */
+export interface PromptPage {
+  items: PromptSFL[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * @interface SemanticSearchResult
+ * @description A prompt returned by semantic search, with its similarity to the query.
+ * @property {PromptSFL} prompt - The matching prompt.
+ * @property {number} similarity - Cosine similarity between the query and the prompt, where 1 means identical.
+ */
+export interface SemanticSearchResult {
+  prompt: PromptSFL;
+  similarity: number;
+}
+
+/**
+ * @interface PromptStatusEvent
+ * @description One entry in the audit trail of a prompt's review lifecycle.
+ * @property {string} id - The ID of the entry.
+ * @property {PromptStatus} fromStatus - The status before the change.
+ * @property {PromptStatus} toStatus - The status after the change.
+ * @property {string | null} reviewer - The email address of the reviewer assigned at the time.
+ * @property {string} note - The note given with the change; may be empty.
+ * @property {string | null} changedBy - The email address of the user who made the change.
+ * @property {string} createdAt - When the change was made (ISO 8601).
+ */
+export interface PromptStatusEvent {
+  id: string;
+  fromStatus: PromptStatus;
+  toStatus: PromptStatus;
+  reviewer: string | null;
+  note: string;
+  changedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @interface PromptReview
+ * @description The review state of a prompt.
+ * @property {PromptStatus} status - The current status.
+ * @property {string | null} reviewer - The email address of the assigned reviewer.
+ * @property {PromptStatusEvent[]} history - The status changes, oldest first.
+ */
+export interface PromptReview {
+  status: PromptStatus;
+  reviewer: string | null;
+  history: PromptStatusEvent[];
+}
+
+/**
+ * @interface PromptComment
+ * @description A review comment on a prompt.
+ * @property {string} id - The ID of the comment.
+ * @property {string} promptId - The ID of the prompt.
+ * @property {string | null} parentId - The ID of the comment this one replies to, if any.
+ * @property {string} body - The comment text.
+ * @property {string | null} author - The email address of the author.
+ * @property {string | null} createdBy - The ID of the author.
+ * @property {string} createdAt - When the comment was written (ISO 8601).
+ */
+export interface PromptComment {
+  id: string;
+  promptId: string;
+  parentId: string | null;
+  body: string;
+  author: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * @type TrashItemType
+ * @description The kinds of records that go to the trash when deleted.
+ */
+export type TrashItemType = 'prompt' | 'workflow';
+
+/**
+ * @interface TrashItem
+ * @description A deleted prompt or server-side workflow waiting in the trash.
+ * @property {TrashItemType} type - Whether the item is a prompt or a workflow.
+ * @property {string} id - The ID of the prompt or workflow.
+ * @property {string} title - The prompt title or workflow name.
+ * @property {string} deletedAt - When the item was moved to the trash (ISO 8601).
+ * @property {string | null} purgeAt - When the item will be purged automatically, or `null` if it is kept until purged by hand.
+ */
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+/**
+ * @interface WorkflowReference
+ * @description A server-side workflow with a task that runs a given prompt.
+ * @property {string} id - The ID of the workflow.
+ * @property {string} name - The name of the workflow.
+ */
+export interface WorkflowReference {
+  id: string;
+  name: string;
 }
 
 /**
@@ -114,6 +773,7 @@ export enum ModalType {
   VIEW_PROMPT_DETAIL,
   WIZARD,
   HELP,
+  IMPORT_PROMPTS,
   WORKFLOW_EDITOR,
   WORKFLOW_WIZARD,
   TASK_DETAIL,
@@ -138,6 +798,12 @@ export enum TaskType {
   DISPLAY_CHART = "DISPLAY_CHART",
   /** A task that executes a Gemini prompt with grounding on a specific data source. */
   GEMINI_GROUNDED = "GEMINI_GROUNDED",
+  /** A task that executes a prompt with the provider and model chosen in its agent config, e.g. OpenAI or Anthropic. */
+  LLM_PROMPT = "LLM_PROMPT",
+  /** A task that evaluates an expression over the data store and runs only the dependents on the matching branch. */
+  CONDITION = "CONDITION",
+  /** A task that runs a sub-graph of tasks for every item of an array in the data store and collects the results in order. */
+  MAP = "MAP",
 }
 
 /**
@@ -155,18 +821,22 @@ export enum TaskStatus {
 /**
  * @interface AgentConfig
  * @description Defines the configuration for an AI agent (e.g., Gemini model) used in a task.
+ * @property {AIProvider} [provider] - The provider an `LLM_PROMPT` task runs with.
  * @property {string} [model] - The specific model to use (e.g., 'gemini-1.5-flash').
  * @property {number} [temperature] - Controls the randomness of the output.
  * @property {number} [topK] - The top-K sampling parameter.
  * @property {number} [topP] - The top-P (nucleus) sampling parameter.
  * @property {string} [systemInstruction] - A system-level instruction for the model.
+ * @property {ModelParameters} [parameters] - The provider's own parameters for an `LLM_PROMPT` task (e.g., `top_p` for OpenAI).
  */
 export interface AgentConfig {
+  provider?: AIProvider;
   model?: string;
   temperature?: number;
   topK?: number;
   topP?: number;
   systemInstruction?: string;
+  parameters?: ModelParameters;
 }
 
 /**
@@ -186,6 +856,11 @@ export interface AgentConfig {
  * @property {string} [functionBody] - The JavaScript code for a `TEXT_MANIPULATION` task.
  * @property {*} [staticValue] - A static value for a `DATA_INPUT` task.
  * @property {string} [dataKey] - The key in the `DataStore` to use for a `DISPLAY_CHART` task.
+ * @property {string} [condition] - The expression a `CONDITION` task evaluates over the `DataStore`.
+ * @property {Record<string, string[]>} [branches] - For a `CONDITION` task, the IDs of the dependent tasks each result value runs; dependents not listed run whatever the result.
+ * @property {string} [itemsKey] - The key in the `DataStore` of the array a `MAP` task runs over.
+ * @property {Task[]} [subtasks] - For a `MAP` task, the tasks run for each item, which see the item as `item` and its position as `itemIndex`; the one no other subtask depends on gives the item's result.
+ * @property {number} [concurrency] - How many items a `MAP` task processes at once.
  * @property {number} [positionX] - X coordinate for UI positioning in the workflow canvas.
  * @property {number} [positionY] - Y coordinate for UI positioning in the workflow canvas.
  */
@@ -204,6 +879,11 @@ export interface Task {
   functionBody?: string;
   staticValue?: any;
   dataKey?: string;
+  condition?: string;
+  branches?: Record<string, string[]>;
+  itemsKey?: string;
+  subtasks?: Task[];
+  concurrency?: number;
   positionX?: number;
   positionY?: number;
 }
@@ -216,6 +896,7 @@ export interface Task {
  * @property {string} description - A brief description of the workflow's purpose.
  * @property {Task[]} tasks - An array of the tasks that make up the workflow.
  * @property {boolean} [isDefault] - A flag indicating if this is a read-only, default workflow.
+ * @property {boolean} [requireApprovedPrompts] - When set, the workflow refuses to run while any linked library prompt is not approved.
  */
 export interface Workflow {
   id: string;
@@ -223,6 +904,7 @@ export interface Workflow {
   description: string;
   tasks: Task[];
   isDefault?: boolean;
+  requireApprovedPrompts?: boolean;
 }
 
 /**
@@ -232,14 +914,28 @@ export interface Workflow {
  */
 export type DataStore = Record<string, any>;
 
+/**
+ * @interface MapItemState
+ * @description The execution state of one item of a `MAP` task.
+ * @property {TaskStatus} status - The status of the item; items not yet started are PENDING.
+ * @property {*} [result] - The item's result once it has completed.
+ * @property {string} [error] - The error message if the item failed.
+ */
+export interface MapItemState {
+  status: TaskStatus;
+  result?: any;
+  error?: string;
+}
+
 /**
  * @interface TaskState
  * @description Defines the execution state of a single task at a specific moment during a workflow run.
  * @property {TaskStatus} status - The current execution status of the task.
  * @property {*} [result] - The output of the task upon successful completion.
- * @property {string} [error] - The error message if the task failed.
+ * @property {string} [error] - The error message if the task failed, or the reason it was skipped.
  * @property {number} [startTime] - The timestamp (in milliseconds) when the task started execution.
  * @property {number} [endTime] - The timestamp (in milliseconds) when the task finished execution.
+ * @property {MapItemState[]} [items] - For a `MAP` task, the state of each item, in the order of the items.
  */
 export interface TaskState {
   status: TaskStatus;
@@ -247,6 +943,7 @@ export interface TaskState {
   error?: string;
   startTime?: number;
   endTime?: number;
+  items?: MapItemState[];
 }
 
 /**
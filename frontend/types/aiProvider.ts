@@ -123,8 +123,8 @@ export interface ModelInfo {
   supportedParameters: string[];
   constraints: ParameterConstraints;
   pricing?: {
-    input: number; // per 1K tokens
-    output: number; // per 1K tokens
+    input: number; // USD per 1M tokens
+    output: number; // USD per 1M tokens
   };
 }
 
@@ -189,4 +189,56 @@ export interface AIRequest {
     role: 'user' | 'assistant' | 'system';
     content: string;
   }>;
-}
\ No newline at end of file
+}
+/**
+ * One provider/model/parameter combination of a side-by-side prompt comparison
+ */
+export interface ComparisonConfig {
+  provider: AIProvider;
+  model: string;
+  parameters?: ModelParameters;
+}
+
+/**
+ * Outcome of running a prompt with one combination of a comparison
+ */
+export interface ComparisonResult extends Required<ComparisonConfig> {
+  text: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  /** Milliseconds the provider took to answer */
+  processingTime: number;
+  /** Why the combination failed; the other combinations are unaffected */
+  error?: string;
+}
+
+/**
+ * The estimated size and cost of running a prompt on one model.
+ * Costs are in USD and null when the model has no pricing information.
+ */
+export interface CostEstimate {
+  provider: AIProvider;
+  model: string;
+  inputTokens: number;
+  /** Whether `inputTokens` comes from the model's own tokenizer rather than a heuristic */
+  exact: boolean;
+  maxOutputTokens: number;
+  inputCost: number | null;
+  maxOutputCost: number | null;
+}
+
+/**
+ * The estimated cost of one run of a workflow, summed over its AI tasks.
+ */
+export interface WorkflowCostEstimate {
+  tasks: Array<CostEstimate & { taskId: string; taskName: string }>;
+  inputTokens: number;
+  maxOutputTokens: number;
+  /** The total cost, or null if no task's model has pricing information */
+  totalCost: number | null;
+  /** AI tasks whose model has no pricing information and is therefore missing from `totalCost` */
+  unpricedTasks: string[];
+}
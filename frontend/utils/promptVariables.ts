@@ -0,0 +1,110 @@
+/**
+ * @file promptVariables.ts
+ * @description Helpers for the typed `{{variable}}` placeholders in prompt text: detecting them,
+ * keeping a prompt's variable declarations in sync with its text, validating the values entered
+ * for them and interpolating those values into the text before a prompt is run.
+ *
+ * @requires ../types
+ * @since 0.6.0
+ */
+
+import { PromptVariable } from '../types';
+
+/**
+ * @constant {RegExp} VARIABLE_PATTERN - Matches a `{{ name }}` placeholder and captures the name.
+ * @private
+ */
+const VARIABLE_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Extracts the unique variable names from a prompt text, in order of first appearance.
+ *
+ * @param {string} text - The prompt text.
+ * @returns {string[]} The variable names.
+ *
+ * @example
+ * ```typescript
+ * extractVariableNames('Summarize {{text}} for {{audience}}, then {{text}} again');
+ * // ['text', 'audience']
+ * ```
+ *
+ * @since 0.6.0
+ */
+export function extractVariableNames(text: string): string[] {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Reconciles declared variables with the placeholders actually present in the text.
+ * Existing declarations are kept for placeholders that are still used, new placeholders get
+ * an optional `string` declaration, and declarations for removed placeholders are dropped.
+ *
+ * @param {string} text - The prompt text.
+ * @param {PromptVariable[]} [declared=[]] - The prompt's current variable declarations.
+ * @returns {PromptVariable[]} One declaration per placeholder, in order of appearance.
+ * @since 0.6.0
+ */
+export function syncVariables(text: string, declared: PromptVariable[] = []): PromptVariable[] {
+  return extractVariableNames(text).map(name =>
+    declared.find(variable => variable.name === name) ?? { name, type: 'string', required: false }
+  );
+}
+
+/**
+ * Builds the initial form values for a set of variables from their defaults.
+ *
+ * @param {PromptVariable[]} variables - The variable declarations.
+ * @returns {Record<string, string>} A map of variable names to their default values.
+ * @since 0.6.0
+ */
+export function getInitialVariableValues(variables: PromptVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.defaultValue ?? '']));
+}
+
+/**
+ * Checks the entered values against the variable declarations.
+ *
+ * @param {PromptVariable[]} variables - The variable declarations.
+ * @param {Record<string, string>} values - The entered values, keyed by variable name.
+ * @returns {Record<string, string>} Error messages keyed by variable name; empty if every value is valid.
+ * @since 0.6.0
+ */
+export function validateVariableValues(variables: PromptVariable[], values: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const variable of variables) {
+    const value = values[variable.name] ?? '';
+    if (!value.trim()) {
+      if (variable.required) errors[variable.name] = 'This variable is required';
+      continue;
+    }
+    if (variable.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[variable.name] = 'Enter a number';
+    } else if (variable.type === 'enum' && !(variable.options ?? []).includes(value)) {
+      errors[variable.name] = 'Choose one of the listed options';
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Replaces every `{{variable}}` placeholder with its entered value.
+ * Placeholders without a value are replaced with an empty string.
+ *
+ * @param {string} text - The prompt text.
+ * @param {Record<string, string>} values - The values, keyed by variable name.
+ * @returns {string} The prompt text ready to be sent to a model.
+ *
+ * @example
+ * ```typescript
+ * interpolateVariables('Translate {{text}} into {{language}}', { text: 'Hello', language: 'French' });
+ * // 'Translate Hello into French'
+ * ```
+ *
+ * @since 0.6.0
+ */
+export function interpolateVariables(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
@@ -0,0 +1,98 @@
+/**
+ * @file textDiff.ts
+ * @description A word-level diff for showing how two model outputs differ. Both texts are split into
+ * words and the whitespace between them, and the longest common subsequence of those tokens decides
+ * which parts are shared and which are only in one of the texts.
+ *
+ * @since 0.6.0
+ */
+
+/**
+ * @typedef {object} DiffSegment
+ * @description A run of consecutive tokens that is either in both texts or in only one of them.
+ * @property {'equal' | 'added' | 'removed'} kind - `added` text is only in the second text, `removed` text only in the first.
+ * @property {string} text - The text of the run, whitespace included.
+ */
+export interface DiffSegment {
+  kind: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * @constant {number} MAX_DIFF_CELLS - Upper bound on the size of the LCS table; larger inputs are reported as fully changed
+ * rather than freezing the page.
+ * @private
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Splits a text into alternating word and whitespace tokens, so that joining them gives the text back.
+ * @private
+ */
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+/**
+ * Appends a token to the segment list, extending the last segment when it is of the same kind.
+ * @private
+ */
+const push = (segments: DiffSegment[], kind: DiffSegment['kind'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) {
+    last.text += text;
+  } else {
+    segments.push({ kind, text });
+  }
+};
+
+/**
+ * Computes a word-level diff of two texts.
+ *
+ * @param {string} before - The text to compare against.
+ * @param {string} after - The text being compared.
+ * @returns {DiffSegment[]} The segments of both texts in reading order; `removed` segments come before the `added` ones that replace them.
+ *
+ * @example
+ * ```typescript
+ * diffWords('The quick fox', 'The slow fox');
+ * // [{ kind: 'equal', text: 'The ' }, { kind: 'removed', text: 'quick' }, { kind: 'added', text: 'slow' }, { kind: 'equal', text: ' fox' }]
+ * ```
+ *
+ * @since 0.6.0
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) segments.push({ kind: 'removed', text: before });
+    if (after) segments.push({ kind: 'added', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(segments, 'removed', a[i++]);
+    } else {
+      push(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) push(segments, 'removed', a[i++]);
+  while (j < b.length) push(segments, 'added', b[j++]);
+
+  return segments;
+}